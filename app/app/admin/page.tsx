@@ -108,6 +108,79 @@ interface ErrorEvent {
   };
 }
 
+interface LlmUsageTotals {
+  sessions: number;
+  deferred: number;
+  llm_calls: number;
+  tool_calls: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+  charged: number;
+}
+
+interface LlmBudgetReport {
+  limits: {
+    agent: { llmCallsPerRound: number; toolCallsPerRound: number; tokensPerRound: number; tokensPerDay: number; spendPerDay: number };
+    global: { tokensPerRound: number; tokensPerDay: number; spendPerDay: number };
+    degradeAt: number;
+  };
+  since: string;
+  activities: Array<{ key: string; label: string } & LlmUsageTotals>;
+  agents: Array<{ agent_id: string; agent_name: string | null } & LlmUsageTotals>;
+  total: LlmUsageTotals;
+}
+
+type DiscrepancyKind = "projection_drift" | "failed_payment" | "external_deposit" | "missed_transfer";
+
+interface ReconciliationReport {
+  checked_at: string;
+  agents_checked: number;
+  unreadable: string[];
+  escrow: { chain_balance: number; claimable: number; difference: number } | null;
+  discrepancies: Array<{
+    kind: DiscrepancyKind;
+    agent_id: string | null;
+    name: string;
+    db_balance: number;
+    ledger_balance: number;
+    chain_balance: number | null;
+    difference: number;
+    failed_payments: Array<{ id: string; created_at: string; detail: string }>;
+    correction: { entry_type: string; amount: number } | null;
+    note: string;
+    applied: boolean;
+  }>;
+  applied: number;
+}
+
+type OutboxStatus = "pending" | "processing" | "done" | "dead";
+
+interface OutboxMessage {
+  id: string;
+  kind: string;
+  payload: Record<string, unknown>;
+  status: OutboxStatus;
+  attempts: number;
+  max_attempts: number;
+  last_error: string | null;
+  next_attempt_at: string;
+  created_at: string;
+}
+
+interface OutboxReport {
+  counts: Record<OutboxStatus, number>;
+  dead: OutboxMessage[];
+  pending: OutboxMessage[];
+}
+
+const DISCREPANCY_LABELS: Record<DiscrepancyKind, string> = {
+  projection_drift: "DB vs ledger",
+  failed_payment: "Failed payment",
+  external_deposit: "External deposit",
+  missed_transfer: "Missed transfer",
+};
+
 type GeneratorMode = "steady" | "waves" | "scenario";
 type ScenarioType =
   | "bull_market"
@@ -172,10 +245,24 @@ export default function AdminPage() {
     qbr: "gemini-2.5-flash-lite",
     exception: "gemini-2.5-flash-lite",
     reports: "gemini-2.5-flash-lite",
+    execution: "gemini-2.5-flash-lite",
   });
   const [savingLlmModels, setSavingLlmModels] = useState(false);
   const [llmModelsResult, setLlmModelsResult] = useState<string | null>(null);
 
+  // LLM spend (last 24h) + budget limits
+  const [llmBudget, setLlmBudget] = useState<LlmBudgetReport | null>(null);
+
+  // Balance reconciliation
+  const [reconciliation, setReconciliation] = useState<ReconciliationReport | null>(null);
+  const [reconciling, setReconciling] = useState(false);
+  const [reconcileResult, setReconcileResult] = useState<string | null>(null);
+
+  // Side-effect outbox (retries + dead letters)
+  const [outbox, setOutbox] = useState<OutboxReport | null>(null);
+  const [outboxBusy, setOutboxBusy] = useState(false);
+  const [outboxResult, setOutboxResult] = useState<string | null>(null);
+
   // Round history + error log
   const [roundEvents, setRoundEvents] = useState<RoundEvent[]>([]);
   const [errorEvents, setErrorEvents] = useState<ErrorEvent[]>([]);
@@ -301,6 +388,104 @@ export default function AdminPage() {
     loadReportConfig();
   }, []);
 
+  // Refresh LLM spend (30s interval)
+  const refreshLlmBudget = useCallback(async () => {
+    try {
+      const res = await fetch("/api/admin/llm-budget");
+      const data = await res.json();
+      if (data.success) setLlmBudget(data.data);
+    } catch {
+      // Silently fail - spend view is informational
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshLlmBudget();
+    const interval = setInterval(refreshLlmBudget, 30000);
+    return () => clearInterval(interval);
+  }, [refreshLlmBudget]);
+
+  // Balance reconciliation reads every wallet on-chain: on load and on demand only
+  const refreshReconciliation = useCallback(async () => {
+    try {
+      const res = await fetch("/api/admin/reconciliation");
+      const data = await res.json();
+      if (data.success) setReconciliation(data.data);
+    } catch {
+      // Silently fail - report is informational
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshReconciliation();
+  }, [refreshReconciliation]);
+
+  const handleApplyCorrections = async (kinds: DiscrepancyKind[]) => {
+    if (!confirm(`Apply ${kinds.map((k) => DISCREPANCY_LABELS[k]).join(", ")} corrections to agent balances?`)) return;
+    setReconciling(true);
+    setReconcileResult(null);
+    try {
+      const res = await fetch("/api/admin/reconciliation", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ kinds }),
+      });
+      const data = await res.json();
+      if (data.success) {
+        setReconciliation(data.data);
+        setReconcileResult(`Applied ${data.data.applied} corrections`);
+        refreshData();
+      } else {
+        setReconcileResult(`Error: ${data.error}`);
+      }
+    } catch (err) {
+      setReconcileResult(`Error: ${err instanceof Error ? err.message : "Unknown"}`);
+    } finally {
+      setReconciling(false);
+    }
+  };
+
+  const refreshOutbox = useCallback(async () => {
+    try {
+      const res = await fetch("/api/admin/outbox");
+      const data = await res.json();
+      if (data.success) setOutbox(data.data);
+    } catch {
+      // Silently fail - report is informational
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshOutbox();
+    const interval = setInterval(refreshOutbox, 30000);
+    return () => clearInterval(interval);
+  }, [refreshOutbox]);
+
+  const handleOutboxAction = async (body: { revive?: string[] }) => {
+    setOutboxBusy(true);
+    setOutboxResult(null);
+    try {
+      const res = await fetch("/api/admin/outbox", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (data.success) {
+        setOutboxResult(body.revive
+          ? `Revived ${data.data.revived} messages`
+          : `Processed ${data.data.processed}: ${data.data.succeeded} delivered, ${data.data.retried} retrying, ${data.data.dead} dead`);
+        refreshOutbox();
+      } else {
+        setOutboxResult(`Error: ${data.error}`);
+      }
+    } catch (err) {
+      setOutboxResult(`Error: ${err instanceof Error ? err.message : "Unknown"}`);
+    } finally {
+      setOutboxBusy(false);
+    }
+  };
+
   // Auto-scroll simulation log
   useEffect(() => {
     logEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -1262,6 +1447,7 @@ export default function AdminPage() {
             { key: "qbr", label: "QBR", desc: "Quarterly business review decisions" },
             { key: "exception", label: "Exception", desc: "Emergency exception responses" },
             { key: "reports", label: "Industry Reports", desc: "Report narrative generation" },
+            { key: "execution", label: "Task Execution", desc: "Deliverables for won tasks" },
           ] as const).map((activity) => (
             <div key={activity.key}>
               <label className="block text-xs text-neutral-400 mb-1">
@@ -1277,6 +1463,9 @@ export default function AdminPage() {
                 <option value="gemini-2.5-flash-lite">gemini-2.5-flash-lite (fast)</option>
                 <option value="gemini-2.0-flash">gemini-2.0-flash (balanced)</option>
                 <option value="gemini-3-flash-preview">gemini-3-flash-preview (latest)</option>
+                <option value="claude-3-5-haiku-latest">claude-3.5-haiku (fast)</option>
+                <option value="claude-sonnet-4-20250514">claude-sonnet-4 (strongest)</option>
+                <option value="mock-rules">mock-rules (offline)</option>
               </select>
               <p className="text-xs text-neutral-600 mt-0.5">{activity.desc}</p>
             </div>
@@ -1321,6 +1510,302 @@ export default function AdminPage() {
         </div>
       </Card>
 
+      {/* ================================================================ */}
+      {/* LLM SPEND */}
+      {/* ================================================================ */}
+      <Card className="mb-6 space-y-4">
+        <div>
+          <h2 className="text-xs text-neutral-400 uppercase tracking-wider mb-1">
+            LLM Spend (24h)
+          </h2>
+          <p className="text-xs text-neutral-600">
+            Metered token usage per activity. Brain wake-ups past{" "}
+            {llmBudget ? Math.round(llmBudget.limits.degradeAt * 100) : 80}% of a budget run degraded; at the limit they are deferred
+          </p>
+        </div>
+
+        {!llmBudget ? (
+          <div className="text-xs text-neutral-600 font-mono">NO USAGE DATA</div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-xs">
+              <div>
+                <div className="text-neutral-500">Spend</div>
+                <div className="font-mono text-neutral-200">
+                  ${llmBudget.total.cost_usd.toFixed(4)} / ${llmBudget.limits.global.spendPerDay.toFixed(2)}
+                </div>
+              </div>
+              <div>
+                <div className="text-neutral-500">Charged to agents</div>
+                <div className="font-mono text-neutral-200">${llmBudget.total.charged.toFixed(4)}</div>
+              </div>
+              <div>
+                <div className="text-neutral-500">Tokens</div>
+                <div className="font-mono text-neutral-200">
+                  {(llmBudget.total.input_tokens + llmBudget.total.output_tokens).toLocaleString()} / {llmBudget.limits.global.tokensPerDay.toLocaleString()}
+                </div>
+              </div>
+              <div>
+                <div className="text-neutral-500">Sessions / deferred</div>
+                <div className="font-mono text-neutral-200">
+                  {llmBudget.total.sessions} / <span className={llmBudget.total.deferred > 0 ? "text-amber-400" : ""}>{llmBudget.total.deferred}</span>
+                </div>
+              </div>
+            </div>
+
+            <table className="w-full text-xs font-mono">
+              <thead>
+                <tr className="text-neutral-500 text-left border-b border-neutral-800">
+                  <th className="py-1 font-normal">Activity</th>
+                  <th className="py-1 font-normal text-right">Sessions</th>
+                  <th className="py-1 font-normal text-right">Tokens</th>
+                  <th className="py-1 font-normal text-right">Spend</th>
+                  <th className="py-1 font-normal text-right">Deferred</th>
+                </tr>
+              </thead>
+              <tbody>
+                {llmBudget.activities.map((activity) => (
+                  <tr key={activity.key} className="border-b border-neutral-800/50 text-neutral-300">
+                    <td className="py-1">{activity.label}</td>
+                    <td className="py-1 text-right">{activity.sessions}</td>
+                    <td className="py-1 text-right">{(activity.input_tokens + activity.output_tokens).toLocaleString()}</td>
+                    <td className="py-1 text-right">${activity.cost_usd.toFixed(4)}</td>
+                    <td className="py-1 text-right">{activity.deferred}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {llmBudget.agents.length > 0 && (
+              <div>
+                <div className="text-xs text-neutral-500 mb-1">
+                  Top agents (limit ${llmBudget.limits.agent.spendPerDay.toFixed(2)}/day each)
+                </div>
+                <table className="w-full text-xs font-mono">
+                  <tbody>
+                    {llmBudget.agents.map((agent) => (
+                      <tr key={agent.agent_id} className="border-b border-neutral-800/50 text-neutral-300">
+                        <td className="py-1">{agent.agent_name || agent.agent_id.slice(0, 8)}</td>
+                        <td className="py-1 text-right">{agent.sessions} sessions</td>
+                        <td className="py-1 text-right">${agent.cost_usd.toFixed(4)}</td>
+                        <td className="py-1 text-right">charged ${agent.charged.toFixed(4)}</td>
+                        <td className="py-1 text-right">{agent.deferred} deferred</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        )}
+      </Card>
+
+      {/* ================================================================ */}
+      {/* BALANCE RECONCILIATION */}
+      {/* ================================================================ */}
+      <Card className="mb-6 space-y-4">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-xs text-neutral-400 uppercase tracking-wider mb-1">
+              Balance Reconciliation
+            </h2>
+            <p className="text-xs text-neutral-600">
+              DB balance vs ledger vs on-chain USDC (net of bonds), and escrow wallet vs claimable investor escrow.
+              Chain sync only applies external deposits; the rest wait here
+            </p>
+          </div>
+          <Button variant="secondary" size="sm" onClick={refreshReconciliation} disabled={reconciling}>
+            Re-check
+          </Button>
+        </div>
+
+        {!reconciliation ? (
+          <div className="text-xs text-neutral-600 font-mono">NO REPORT</div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-xs">
+              <div>
+                <div className="text-neutral-500">Agents checked</div>
+                <div className="font-mono text-neutral-200">{reconciliation.agents_checked}</div>
+              </div>
+              <div>
+                <div className="text-neutral-500">Discrepancies</div>
+                <div className={`font-mono ${reconciliation.discrepancies.length > 0 ? "text-amber-400" : "text-neutral-200"}`}>
+                  {reconciliation.discrepancies.length}
+                </div>
+              </div>
+              <div>
+                <div className="text-neutral-500">Escrow (chain / claimable)</div>
+                <div className="font-mono text-neutral-200">
+                  {reconciliation.escrow
+                    ? `$${reconciliation.escrow.chain_balance.toFixed(4)} / $${reconciliation.escrow.claimable.toFixed(4)}`
+                    : "unavailable"}
+                </div>
+              </div>
+              <div>
+                <div className="text-neutral-500">Unreadable wallets</div>
+                <div className="font-mono text-neutral-200">{reconciliation.unreadable.length}</div>
+              </div>
+            </div>
+
+            {reconciliation.discrepancies.length > 0 && (
+              <table className="w-full text-xs font-mono">
+                <thead>
+                  <tr className="text-neutral-500 text-left border-b border-neutral-800">
+                    <th className="py-1 font-normal">Account</th>
+                    <th className="py-1 font-normal">Kind</th>
+                    <th className="py-1 font-normal text-right">DB</th>
+                    <th className="py-1 font-normal text-right">Ledger</th>
+                    <th className="py-1 font-normal text-right">Chain</th>
+                    <th className="py-1 font-normal text-right">Diff</th>
+                    <th className="py-1 font-normal">Proposed</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {reconciliation.discrepancies.map((d) => (
+                    <tr
+                      key={`${d.agent_id ?? "escrow"}:${d.kind}`}
+                      className="border-b border-neutral-800/50 text-neutral-300"
+                      title={[d.note, ...d.failed_payments.map((f) => `${f.created_at}: ${f.detail}`)].join("\n")}
+                    >
+                      <td className="py-1">{d.name}</td>
+                      <td className={`py-1 ${d.kind === "missed_transfer" || d.kind === "failed_payment" ? "text-amber-400" : ""}`}>
+                        {DISCREPANCY_LABELS[d.kind]}
+                        {d.failed_payments.length > 0 ? ` (${d.failed_payments.length})` : ""}
+                      </td>
+                      <td className="py-1 text-right">${d.db_balance.toFixed(4)}</td>
+                      <td className="py-1 text-right">${d.ledger_balance.toFixed(4)}</td>
+                      <td className="py-1 text-right">{d.chain_balance !== null ? `$${d.chain_balance.toFixed(4)}` : "-"}</td>
+                      <td className={`py-1 text-right ${d.difference < 0 ? "text-red-400" : "text-emerald-400"}`}>
+                        {d.difference >= 0 ? "+" : ""}{d.difference.toFixed(4)}
+                      </td>
+                      <td className="py-1 text-neutral-500">
+                        {d.applied
+                          ? "applied"
+                          : d.correction
+                            ? `${d.correction.entry_type} $${d.correction.amount.toFixed(4)}`
+                            : d.kind === "projection_drift" ? "rebuild from ledger" : "manual"}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            {(reconcileResult || reconciliation.discrepancies.some((d) => d.agent_id && !d.applied)) && (
+              <div className="flex flex-wrap items-center gap-3 pt-2 border-t border-neutral-800">
+                {(Object.keys(DISCREPANCY_LABELS) as DiscrepancyKind[])
+                  .filter((kind) => reconciliation.discrepancies.some((d) => d.kind === kind && d.agent_id && !d.applied))
+                  .map((kind) => (
+                    <Button
+                      key={kind}
+                      variant="secondary"
+                      size="sm"
+                      onClick={() => handleApplyCorrections([kind])}
+                      disabled={reconciling}
+                    >
+                      Apply {DISCREPANCY_LABELS[kind].toLowerCase()}
+                    </Button>
+                  ))}
+                {reconcileResult && (
+                  <span className={`text-xs ${reconcileResult.startsWith("Error") ? "text-red-400" : "text-emerald-400"}`}>
+                    {reconcileResult}
+                  </span>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </Card>
+
+      {/* ================================================================ */}
+      {/* SIDE-EFFECT OUTBOX */}
+      {/* ================================================================ */}
+      <Card className="mb-6 space-y-4">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-xs text-neutral-400 uppercase tracking-wider mb-1">
+              Side-Effect Outbox
+            </h2>
+            <p className="text-xs text-neutral-600">
+              Events, memories, on-chain payments and investor escrow updates waiting for a retry.
+              Dead messages ran out of retries and need a look
+            </p>
+          </div>
+          <Button variant="secondary" size="sm" onClick={() => handleOutboxAction({})} disabled={outboxBusy}>
+            Process due
+          </Button>
+        </div>
+
+        {!outbox ? (
+          <div className="text-xs text-neutral-600 font-mono">NO DATA</div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-xs">
+              {(["pending", "processing", "done", "dead"] as OutboxStatus[]).map((status) => (
+                <div key={status}>
+                  <div className="text-neutral-500 capitalize">{status}</div>
+                  <div className={`font-mono ${status === "dead" && outbox.counts.dead > 0 ? "text-red-400" : "text-neutral-200"}`}>
+                    {outbox.counts[status]}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {[...outbox.dead, ...outbox.pending].length > 0 && (
+              <table className="w-full text-xs font-mono">
+                <thead>
+                  <tr className="text-neutral-500 text-left border-b border-neutral-800">
+                    <th className="py-1 font-normal">Kind</th>
+                    <th className="py-1 font-normal">Status</th>
+                    <th className="py-1 font-normal text-right">Attempts</th>
+                    <th className="py-1 font-normal">Next attempt</th>
+                    <th className="py-1 font-normal">Last error</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {[...outbox.dead, ...outbox.pending].map((m) => (
+                    <tr
+                      key={m.id}
+                      className="border-b border-neutral-800/50 text-neutral-300"
+                      title={JSON.stringify(m.payload, null, 2)}
+                    >
+                      <td className="py-1">{m.kind}{typeof m.payload.purpose === "string" ? ` (${m.payload.purpose})` : ""}</td>
+                      <td className={`py-1 ${m.status === "dead" ? "text-red-400" : "text-amber-400"}`}>{m.status}</td>
+                      <td className="py-1 text-right">{m.attempts}/{m.max_attempts}</td>
+                      <td className="py-1 text-neutral-500">
+                        {m.status === "dead" ? "-" : new Date(m.next_attempt_at).toLocaleTimeString()}
+                      </td>
+                      <td className="py-1 text-neutral-500 truncate max-w-xs">{m.last_error ?? ""}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            {(outboxResult || outbox.dead.length > 0) && (
+              <div className="flex flex-wrap items-center gap-3 pt-2 border-t border-neutral-800">
+                {outbox.dead.length > 0 && (
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={() => handleOutboxAction({ revive: outbox.dead.map((m) => m.id) })}
+                    disabled={outboxBusy}
+                  >
+                    Retry {outbox.dead.length} dead
+                  </Button>
+                )}
+                {outboxResult && (
+                  <span className={`text-xs ${outboxResult.startsWith("Error") ? "text-red-400" : "text-emerald-400"}`}>
+                    {outboxResult}
+                  </span>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </Card>
+
       {/* ================================================================ */}
       {/* REPORT CONFIG */}
       {/* ================================================================ */}
@@ -1363,6 +1848,9 @@ export default function AdminPage() {
               <option value="gemini-2.5-flash-lite">gemini-2.5-flash-lite (fast)</option>
               <option value="gemini-2.0-flash">gemini-2.0-flash (balanced)</option>
               <option value="gemini-3-flash-preview">gemini-3-flash-preview (latest)</option>
+              <option value="claude-3-5-haiku-latest">claude-3.5-haiku (fast)</option>
+              <option value="claude-sonnet-4-20250514">claude-sonnet-4 (strongest)</option>
+              <option value="mock-rules">mock-rules (offline)</option>
             </select>
           </div>
 
@@ -11,6 +11,7 @@ import { MemoryBrowser } from '@/components/agent/MemoryBrowser';
 import { QBRTimeline } from '@/components/agent/QBRTimeline';
 import { ExceptionDashboard } from '@/components/agent/ExceptionDashboard';
 import { PolicyImpactTracker } from '@/components/agent/PolicyImpactTracker';
+import { PolicyHistory } from '@/components/agent/PolicyHistory';
 import { MarketCharts } from '@/components/agent/MarketCharts';
 import type { AgentDetail, AgentActivity, AgentThinking } from '@/types/ui';
 import type { Task, PartnershipCache, BidCache } from '@/types/database';
@@ -1084,6 +1085,9 @@ export default function AgentDetailPage() {
           {/* Policy Impact Tracker - Full Width */}
           <PolicyImpactTracker agentId={agentId} />
 
+          {/* Policy versions: compare and roll back */}
+          <PolicyHistory agentId={agentId} />
+
           {/* QBR and Exceptions side by side */}
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
             <QBRTimeline agentId={agentId} />
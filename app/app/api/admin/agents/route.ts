@@ -1,6 +1,7 @@
 import { NextResponse, NextRequest } from "next/server";
 import { supabase } from "@/lib/supabase";
 import { AgentType, AgentStatus } from "@/types/database";
+import { ledgerService, ledgerKey } from "@/lib/services";
 
 /**
  * POST /api/admin/agents
@@ -104,7 +105,8 @@ async function createDemoAgent(body: {
       name: body.name,
       type: body.type,
       status: AgentStatus.ACTIVE,
-      balance,
+      // The starting balance is posted to the ledger below
+      balance: 0,
       reputation,
       token_price: 0.001,
       total_revenue: 0,
@@ -124,6 +126,10 @@ async function createDemoAgent(body: {
     return null;
   }
 
+  data.balance = await ledgerService.transfer(data.id, "opening_balance", balance, {
+    idempotencyKey: ledgerKey("agent", data.id, "opening"),
+  });
+
   // Also create initial policy if needed
   if (data) {
     await supabase.from("agent_policies").upsert(
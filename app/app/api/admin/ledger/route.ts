@@ -0,0 +1,66 @@
+import { NextResponse, NextRequest } from 'next/server';
+import { ledgerService } from '@/lib/services';
+import type { LedgerEntryType } from '@/lib/services';
+
+/**
+ * GET /api/admin/ledger
+ * Audit: every agent's stored balance vs the balance its ledger entries
+ * imply, plus the sink / escrow / external account totals.
+ *
+ * Query params:
+ *   agent_id: string - the agent's entries instead of the audit
+ *   entry_type: LedgerEntryType - filter entries
+ *   round: number - filter entries
+ *   limit: number (default: 100, max: 500)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const agentId = searchParams.get('agent_id');
+
+    if (agentId) {
+      const round = searchParams.get('round');
+      const entries = await ledgerService.entries({
+        agentId,
+        entryType: (searchParams.get('entry_type') as LedgerEntryType | null) ?? undefined,
+        roundNumber: round !== null ? parseInt(round, 10) : undefined,
+        limit: Math.min(parseInt(searchParams.get('limit') || '100', 10), 500),
+      });
+      return NextResponse.json({ success: true, data: { agent_id: agentId, entries } });
+    }
+
+    const report = await ledgerService.audit();
+    if (!report) {
+      return NextResponse.json({ success: false, error: 'Ledger audit failed' }, { status: 500 });
+    }
+    return NextResponse.json({ success: true, data: report });
+  } catch (err) {
+    console.error('[/api/admin/ledger] Error:', err);
+    return NextResponse.json(
+      { success: false, error: err instanceof Error ? err.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/ledger
+ * Rebuild drifted agent balances from the ledger.
+ *
+ * Body: { agent_ids?: string[] } - only these agents (default: all drifted)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const agentIds = Array.isArray(body.agent_ids) ? (body.agent_ids as string[]) : undefined;
+
+    const rebuilt = await ledgerService.rebuild(agentIds);
+    return NextResponse.json({ success: true, data: { rebuilt: rebuilt.length, agents: rebuilt } });
+  } catch (err) {
+    console.error('[/api/admin/ledger] Error:', err);
+    return NextResponse.json(
+      { success: false, error: err instanceof Error ? err.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
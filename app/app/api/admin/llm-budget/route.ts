@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { supabase } from '@/lib/supabase';
+import { brainBudgetService } from '@/lib/services';
+
+/**
+ * GET /api/admin/llm-budget
+ * LLM spend over the last 24 hours (per activity, top agents, totals)
+ * with the brain budget limits it is governed by.
+ */
+export async function GET() {
+  try {
+    const spend = await brainBudgetService.spendByActivity();
+
+    const agentIds = spend.agents.map(a => a.agent_id);
+    const names = new Map<string, string>();
+    if (agentIds.length > 0) {
+      const { data } = await supabase.from('agents').select('id, name').in('id', agentIds);
+      for (const agent of data || []) names.set(agent.id, agent.name);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        limits: brainBudgetService.limits,
+        since: spend.since,
+        activities: spend.activities,
+        agents: spend.agents.map(a => ({ ...a, agent_name: names.get(a.agent_id) ?? null })),
+        total: spend.total,
+      },
+    });
+  } catch (err) {
+    console.error('[/api/admin/llm-budget] Error:', err);
+    return NextResponse.json(
+      { success: false, error: err instanceof Error ? err.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
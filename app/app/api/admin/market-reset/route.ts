@@ -17,6 +17,8 @@ import { NextResponse, NextRequest } from 'next/server';
 import { supabase } from '@/lib/supabase';
 import { createEvent } from '@/lib/api-helpers';
 import { PERSONALITY_DEFAULTS } from '@/lib/agent-runtime/constants';
+import { recordPolicyVersion } from '@/lib/agent-runtime/policy-history';
+import { economyService } from '@/lib/services';
 
 export async function POST(request: NextRequest) {
   try {
@@ -56,16 +58,34 @@ export async function POST(request: NextRequest) {
         const personality = agent.personality || 'balanced';
         const defaults = PERSONALITY_DEFAULTS[personality] || PERSONALITY_DEFAULTS.balanced;
 
+        // Bump rather than restart the version so the history stays ordered
+        const { data: current } = await supabase
+          .from('agent_policies')
+          .select('policy_json, policy_version')
+          .eq('agent_id', agent.id)
+          .single();
+        const version = (current?.policy_version ?? 0) + 1;
+
         const { error } = await supabase
           .from('agent_policies')
           .update({
             policy_json: defaults,
-            policy_version: 1,
+            policy_version: version,
             updated_at: new Date().toISOString(),
           })
           .eq('agent_id', agent.id);
 
-        if (!error) policiesReset++;
+        if (!error) {
+          policiesReset++;
+          await recordPolicyVersion({
+            agentId: agent.id,
+            version,
+            policy: defaults,
+            previous: current?.policy_json ?? null,
+            trigger: 'admin',
+            triggerDetails: 'Market reset to personality defaults',
+          });
+        }
       }
 
       results.policies_reset = policiesReset;
@@ -113,20 +133,24 @@ export async function POST(request: NextRequest) {
       console.log(`[MarketReset] Reset ${count} agent brain cooldowns`);
     }
 
-    // 4. Equalize balances (DB only — for on-chain, use seed-agents-usdc.ts)
+    // 4. Equalize balances (DB only — for on-chain, use seed-agents-usdc.ts).
+    // The difference is posted to the ledger as an admin adjustment.
     if (reset_balances) {
       let balancesReset = 0;
 
       for (const agent of agents) {
+        const newBalance = await economyService.adjustBalance(
+          agent.id,
+          balance_amount - (agent.balance || 0),
+          'adjustment',
+          { metadata: { reason: 'market_reset', target_balance: balance_amount } }
+        );
         const { error } = await supabase
           .from('agents')
-          .update({
-            balance: balance_amount,
-            status: 'ACTIVE',
-          })
+          .update({ status: 'ACTIVE' })
           .eq('id', agent.id);
 
-        if (!error) balancesReset++;
+        if (!error && Math.abs(newBalance - balance_amount) < 1e-6) balancesReset++;
       }
 
       results.balances_reset = balancesReset;
@@ -0,0 +1,61 @@
+import { NextResponse, NextRequest } from 'next/server';
+import { outboxService } from '@/lib/services';
+
+/**
+ * GET /api/admin/outbox
+ * Outbox health: message counts per status, plus the dead messages (out of
+ * retries) and the pending ones still being retried.
+ *
+ * Query params:
+ *   limit: number - max messages per list (default: 50)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50', 10) || 50, 500);
+
+    const counts = await outboxService.counts();
+    if (!counts) {
+      return NextResponse.json({ success: false, error: 'Failed to read outbox' }, { status: 500 });
+    }
+    const [dead, pending] = await Promise.all([
+      outboxService.list(['dead'], limit),
+      outboxService.list(['pending', 'processing'], limit),
+    ]);
+    return NextResponse.json({ success: true, data: { counts, dead, pending } });
+  } catch (err) {
+    console.error('[/api/admin/outbox] Error:', err);
+    return NextResponse.json(
+      { success: false, error: err instanceof Error ? err.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/outbox
+ * Run the retry worker now, or give dead messages another round of retries.
+ *
+ * Body: {
+ *   revive?: string[] - dead message ids to retry (default: process due messages)
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+
+    if (Array.isArray(body.revive)) {
+      const revived = await outboxService.revive(body.revive as string[]);
+      return NextResponse.json({ success: true, data: { revived } });
+    }
+
+    const result = await outboxService.processDue();
+    return NextResponse.json({ success: true, data: result });
+  } catch (err) {
+    console.error('[/api/admin/outbox] Error:', err);
+    return NextResponse.json(
+      { success: false, error: err instanceof Error ? err.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
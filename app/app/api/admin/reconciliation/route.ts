@@ -0,0 +1,69 @@
+import { NextResponse, NextRequest } from 'next/server';
+import { reconciliationService } from '@/lib/services';
+import type { DiscrepancyKind } from '@/lib/services';
+
+const KINDS: DiscrepancyKind[] = ['projection_drift', 'failed_payment', 'external_deposit', 'missed_transfer'];
+
+/**
+ * GET /api/admin/reconciliation
+ * Report: DB vs ledger vs on-chain USDC balance per agent, plus the escrow
+ * wallet vs claimable investor escrow, with each discrepancy classified and
+ * its proposed correction. Nothing is changed.
+ *
+ * Query params:
+ *   agent_id: string - only this agent
+ *   since_hours: number - failed payment window (default: 168)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const agentId = searchParams.get('agent_id');
+    const sinceHours = searchParams.get('since_hours');
+
+    const report = await reconciliationService.reconcile({
+      agentIds: agentId ? [agentId] : undefined,
+      since: sinceHours ? new Date(Date.now() - parseFloat(sinceHours) * 3600_000) : undefined,
+    });
+    if (!report) {
+      return NextResponse.json({ success: false, error: 'Reconciliation failed' }, { status: 500 });
+    }
+    return NextResponse.json({ success: true, data: report });
+  } catch (err) {
+    console.error('[/api/admin/reconciliation] Error:', err);
+    return NextResponse.json(
+      { success: false, error: err instanceof Error ? err.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/reconciliation
+ * Re-run the reconciliation and apply the proposed corrections.
+ *
+ * Body: {
+ *   kinds?: DiscrepancyKind[] - which kinds to correct (default: all)
+ *   agent_ids?: string[] - only these agents (default: all)
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const kinds = Array.isArray(body.kinds)
+      ? (body.kinds as string[]).filter((k): k is DiscrepancyKind => KINDS.includes(k as DiscrepancyKind))
+      : KINDS;
+    const agentIds = Array.isArray(body.agent_ids) ? (body.agent_ids as string[]) : undefined;
+
+    const report = await reconciliationService.reconcile({ apply: kinds, agentIds });
+    if (!report) {
+      return NextResponse.json({ success: false, error: 'Reconciliation failed' }, { status: 500 });
+    }
+    return NextResponse.json({ success: true, data: report });
+  } catch (err) {
+    console.error('[/api/admin/reconciliation] Error:', err);
+    return NextResponse.json(
+      { success: false, error: err instanceof Error ? err.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextResponse, NextRequest } from "next/server";
 import { supabase } from "@/lib/supabase";
 import { createEvent } from "@/lib/api-helpers";
+import { economyService } from "@/lib/services";
 import { TASK_OPERATIONAL_COSTS } from "@/lib/x402";
 
 /**
@@ -125,16 +126,10 @@ export async function POST(request: NextRequest) {
         const BIDDING_COST = 0.001;
         for (const losingBid of losingBids) {
           if (!losingBid.agent_id) continue;
-          const { data: losingAgent } = await supabase
-            .from("agents")
-            .select("balance")
-            .eq("id", losingBid.agent_id)
-            .single();
-
-          if (losingAgent) {
-            const newBalance = Math.max(0, Math.round((losingAgent.balance - BIDDING_COST) * 1000) / 1000);
-            await supabase.from("agents").update({ balance: newBalance }).eq("id", losingBid.agent_id);
-          }
+          await economyService.adjustBalance(losingBid.agent_id, -BIDDING_COST, "bid_fee", {
+            taskId: task.id,
+            bidId: losingBid.id,
+          });
         }
       }
 
@@ -3,17 +3,26 @@
  *
  * Thin simulation driver. Generates synthetic tasks, then delegates
  * all business logic to the shared RoundProcessor pipeline.
+ *
+ * Pass `seed` (number or string) to make a run reproducible: task generation
+ * and auction tie-breaks draw from one seeded RNG, and reputation follows the
+ * quality grades of the (task-seeded) stub deliverables.
+ * Without a seed a random one is picked and returned so the run can be replayed.
+ * Replays are exact only with use_llm=false (brain output is not seeded).
  */
 
 import { NextResponse, NextRequest } from 'next/server';
 import { supabase } from '@/lib/supabase';
 import { agentService, TaskService, roundProcessor } from '@/lib/services';
 import { createServerPayingFetch } from '@/lib/agent-client';
-import type { RoundConfig, RoundProcessorResult } from '@/lib/services/types';
+import { createRng, parseSeed, randomSeed } from '@/lib/random';
+import type { AuctionConfig, RoundConfig, RoundProcessorResult, TaskType } from '@/lib/services/types';
 
 const DEFAULT_TASKS_PER_ROUND = 3;
 const DEFAULT_ROUNDS = 1;
 const LIVING_COST_PER_ROUND = 0.005;
+/** Task types in even-split and task-cycle order */
+const TASK_TYPE_ORDER: TaskType[] = ['REVIEW', 'CURATION', 'CATALOG', 'SELLER'];
 
 export async function POST(request: NextRequest) {
   try {
@@ -26,13 +35,19 @@ export async function POST(request: NextRequest) {
     const useLLM = body.use_llm ?? body.useLLM ?? true;
     const agentIds: string[] | undefined = body.agent_ids || body.agentIds;
     const agentCount: number | undefined = body.agent_count || body.agentCount;
+    // Auction mechanism, e.g. { default: { type: 'second_price' }, byTaskType: { REVIEW: { type: 'sealed_multi', winners: 2 } } }
+    const auction: AuctionConfig | undefined = body.auction;
+    // Composite tasks bid on jointly by partnerships, e.g. [["CATALOG", "REVIEW"]] (first type leads)
+    const compositeTasks: TaskType[][] | undefined = body.composite_tasks || body.compositeTasks;
+    const seed = parseSeed(body.seed) ?? randomSeed();
+    const rng = createRng(seed);
 
-    console.log(`[Simulate-v2] Starting ${rounds} round(s) with ${tasksPerRound} tasks each (blockchain: ${useBlockchain}, llm: ${useLLM})`);
+    console.log(`[Simulate-v2] Starting ${rounds} round(s) with ${tasksPerRound} tasks each (blockchain: ${useBlockchain}, llm: ${useLLM}, seed: ${seed})`);
 
     // Get current round number
     const { data: roundState } = await supabase
       .from('simulation_state')
-      .select('current_round')
+      .select('current_round, round_seeds')
       .eq('id', 'global')
       .single();
     const startingRound = (roundState?.current_round || 0) + 1;
@@ -51,21 +66,24 @@ export async function POST(request: NextRequest) {
         return NextResponse.json({ success: false, error: 'None of the specified agents are active' }, { status: 400 });
       }
     } else if (agentCount && agentCount > 0 && agentCount < agents.length) {
-      // Agent count must be a multiple of 3 (equal per type)
-      if (agentCount % 3 !== 0) {
-        return NextResponse.json({ success: false, error: `agent_count must be a multiple of 3 (got ${agentCount})` }, { status: 400 });
+      // Agent count must be a multiple of the number of types with active agents (equal per type)
+      const types = TASK_TYPE_ORDER.filter(type => agents.some(a => a.type === type));
+      if (agentCount % types.length !== 0) {
+        return NextResponse.json({ success: false, error: `agent_count must be a multiple of ${types.length} (got ${agentCount})` }, { status: 400 });
       }
-      // Even split: N/3 agents per type (e.g. 3 = 1 each, 6 = 2 each, 9 = 3 each)
-      const perType = agentCount / 3;
-      const typeOrder = ['REVIEW', 'CURATION', 'CATALOG'];
+      // Even split: N/types agents per type (e.g. with 4 types: 4 = 1 each, 8 = 2 each)
+      const perType = agentCount / types.length;
       const selectedAgents: typeof agents = [];
-      for (const type of typeOrder) {
+      for (const type of types) {
         const typeAgents = agents.filter(a => a.type === type);
         selectedAgents.push(...typeAgents.slice(0, perType));
       }
       agents = selectedAgents;
     }
 
+    // Only generate task types some selected agent can bid on
+    const taskTypes = TASK_TYPE_ORDER.filter(type => agents.some(a => a.type === type));
+
     console.log(`[Simulate-v2] Loaded ${agents.length} active agents`);
 
     // Create the x402-paying fetch once for all rounds (same path as production)
@@ -74,15 +92,25 @@ export async function POST(request: NextRequest) {
     const localTaskService = new TaskService();
     const roundResults: RoundProcessorResult[] = [];
 
+    // Which seed produced each round: { [round]: { seed, round_index } }
+    const roundSeeds: Record<string, { seed: number; round_index: number }> = { ...(roundState?.round_seeds || {}) };
+
     for (let i = 0; i < rounds; i++) {
       const roundNum = startingRound + i;
+      const roundRng = rng.fork();
+      roundSeeds[String(roundNum)] = { seed, round_index: i };
 
       // Generate synthetic tasks
-      const taskInputs = TaskService.generateRandomTaskInputs(tasksPerRound, { priceMin, priceMax });
-      const tasks = await localTaskService.createBatchTasks(taskInputs);
+      const taskInputs = TaskService.generateRandomTaskInputs(tasksPerRound, {
+        priceMin,
+        priceMax,
+        types: taskTypes.length > 0 ? taskTypes : undefined,
+        composites: compositeTasks,
+      });
+      const tasks = await localTaskService.createBatchTasks(taskInputs, roundRng);
 
       // Run the unified pipeline
-      const config: RoundConfig = { useBlockchain, useLLM, roundNumber: roundNum, livingCostPerRound: LIVING_COST_PER_ROUND, payingFetch };
+      const config: RoundConfig = { useBlockchain, useLLM, roundNumber: roundNum, livingCostPerRound: LIVING_COST_PER_ROUND, payingFetch, auction, rng: roundRng };
       const result = await roundProcessor.processRound(tasks, agents, config);
       roundResults.push(result);
 
@@ -94,6 +122,8 @@ export async function POST(request: NextRequest) {
     await supabase.from('simulation_state').upsert({
       id: 'global',
       current_round: startingRound + rounds - 1,
+      last_seed: seed,
+      round_seeds: roundSeeds,
       updated_at: new Date().toISOString(),
     });
 
@@ -111,6 +141,7 @@ export async function POST(request: NextRequest) {
       success: true,
       data: {
         rounds_completed: rounds,
+        seed,
         starting_round: startingRound,
         ending_round: startingRound + rounds - 1,
         total_tasks: totals.tasks,
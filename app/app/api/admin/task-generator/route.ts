@@ -4,6 +4,7 @@ import {
   MarketWavesGenerator,
   type ScenarioType,
 } from "@/lib/task-generators";
+import { parseSeed } from "@/lib/random";
 import { supabase } from "@/lib/supabase";
 
 /**
@@ -17,6 +18,7 @@ import { supabase } from "@/lib/supabase";
  *   count: number (tasks to generate, default: 5)
  *   scenario?: ScenarioType (for scenario mode, default: "mixed")
  *   price_range?: [number, number] (multiplier range, default: [1.2, 2.5])
+ *   seed?: number | string (reproducible task batch; default: unseeded)
  */
 export async function POST(request: NextRequest) {
   try {
@@ -25,6 +27,7 @@ export async function POST(request: NextRequest) {
     const count = Math.min(Math.max(body.count || 5, 1), 50); // Clamp 1-50
     const scenario: ScenarioType = body.scenario || "mixed";
     const priceRange: [number, number] = body.price_range || [1.2, 2.5];
+    const seed = parseSeed(body.seed) ?? undefined;
 
     let tasksCreated = 0;
 
@@ -33,6 +36,7 @@ export async function POST(request: NextRequest) {
         const gen = new SteadyStateGenerator({
           tasks_per_round: count,
           price_range: priceRange,
+          seed,
         });
         await gen.generateRound();
         tasksCreated = count;
@@ -43,6 +47,7 @@ export async function POST(request: NextRequest) {
         const gen = new MarketWavesGenerator({
           base_tasks: Math.max(1, Math.floor(count * 0.4)),
           peak_tasks: count,
+          seed,
         });
         await gen.generateRound();
         tasksCreated = count;
@@ -57,6 +62,8 @@ export async function POST(request: NextRequest) {
           bear_market: [0.9, 1.3],
           catalog_shortage: [1.2, 2.0],
           review_boom: [1.3, 2.5],
+          seller_rush: [1.2, 2.2],
+          partnership_demand: [1.3, 2.5],
           race_to_bottom: [0.95, 1.15],
           gold_rush: [4.0, 8.0],
           mixed: [1.2, 2.5],
@@ -64,6 +71,7 @@ export async function POST(request: NextRequest) {
         const steadyGen = new SteadyStateGenerator({
           tasks_per_round: count,
           price_range: scenarioPrices[scenario] || [1.2, 2.5],
+          seed,
         });
         await steadyGen.generateRound();
         tasksCreated = count;
@@ -84,6 +92,7 @@ export async function POST(request: NextRequest) {
         tasks_created: tasksCreated,
         scenario: mode === "scenario" ? scenario : undefined,
         price_range: priceRange,
+        seed,
       },
     });
   } catch (err) {
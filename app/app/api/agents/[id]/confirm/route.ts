@@ -27,6 +27,7 @@ import {
 } from "@/lib/contracts";
 import { parseTokenCreationReceipt, getNadFunTokenUrl } from "@/lib/nadfun";
 import { PERSONALITY_DEFAULTS } from "@/lib/agent-runtime/constants";
+import { recordPolicyVersion } from "@/lib/agent-runtime/policy-history";
 import type { Hash, Address } from "viem";
 
 const supabase = createClient(
@@ -217,6 +218,14 @@ export async function POST(
         console.error("[Agent Confirm] Failed to create default policy:", policyError);
         // Non-fatal — agent is ACTIVE but won't bid until policy is created
       } else {
+        await recordPolicyVersion({
+          agentId,
+          version: 0,
+          policy: defaultPolicy,
+          previous: null,
+          trigger: "initial",
+          triggerDetails: `${personality} personality defaults`,
+        });
         console.log(`[Agent Confirm] Default ${personality} policy created for ${agent.name}`);
       }
 
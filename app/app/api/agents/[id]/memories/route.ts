@@ -10,6 +10,8 @@
  *   include_stats: boolean - include memory statistics
  *   include_industry: boolean - include industry memories
  *   include_brain: boolean - include brain activity (policies, exceptions)
+ *   include_archived: boolean - include consolidated / forgotten memories
+ *   sources_of: memory id - the source memories of a consolidated learning
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -19,6 +21,7 @@ import {
   getPersonalMemoriesByType,
   getImportantLearnings,
   getMemoryStats,
+  getConsolidatedSources,
 } from '@/lib/agent-runtime/personal-memory';
 import { getRecentIndustryEvents } from '@/lib/agent-runtime/industry-memory';
 import type { PersonalMemoryType } from '@/lib/agent-runtime/memory-types';
@@ -37,10 +40,15 @@ export async function GET(
     const includeStats = searchParams.get('include_stats') === 'true';
     const includeIndustry = searchParams.get('include_industry') === 'true';
     const includeBrain = searchParams.get('include_brain') === 'true';
+    const includeArchived = searchParams.get('include_archived') === 'true';
+    const sourcesOf = searchParams.get('sources_of');
 
     // Fetch memories based on filter
     let memories;
-    if (type === 'learning' || type === 'qbr_insight') {
+    if (sourcesOf) {
+      // Bid outcomes a consolidated learning was built from
+      memories = await getConsolidatedSources(agentId, sourcesOf);
+    } else if (type === 'learning' || type === 'qbr_insight') {
       // Get important learnings
       memories = await getImportantLearnings(agentId, limit);
     } else if (type) {
@@ -48,7 +56,7 @@ export async function GET(
       memories = await getPersonalMemoriesByType(agentId, type, limit);
     } else {
       // Get all recent memories
-      memories = await getRecentPersonalMemories(agentId, limit);
+      memories = await getRecentPersonalMemories(agentId, limit, includeArchived);
     }
 
     // Optionally include stats
@@ -0,0 +1,38 @@
+/**
+ * Policy Version Compare Endpoint
+ *
+ * GET /api/agents/:id/policies/compare?from=3&to=5
+ *
+ * Returns both versions and the field-level diff from `from` to `to`.
+ */
+
+import { NextResponse, NextRequest } from "next/server";
+import { comparePolicyVersions } from "@/lib/agent-runtime/policy-history";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  const { id: agentId } = await params;
+  const { searchParams } = new URL(req.url);
+  const from = parseInt(searchParams.get("from") || "", 10);
+  const to = parseInt(searchParams.get("to") || "", 10);
+
+  if (!agentId || isNaN(from) || isNaN(to)) {
+    return NextResponse.json(
+      { success: false, error: "Agent ID and numeric from/to versions are required" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const comparison = await comparePolicyVersions(agentId, from, to);
+    return NextResponse.json({ success: true, data: comparison });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to compare policies";
+    console.error("[POLICIES] Error comparing policy versions:", error);
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: message.includes("not found") ? 404 : 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Policy Rollback Endpoint
+ *
+ * POST /api/agents/:id/policies/rollback
+ *
+ * Body: {
+ *   version: number,  // Version to restore
+ *   reason?: string,  // Recorded as the new version's reasoning
+ * }
+ *
+ * Restores an earlier policy as a new version (trigger "rollback") and logs
+ * a policy_rollback event.
+ */
+
+import { NextResponse, NextRequest } from "next/server";
+import { rollbackPolicy } from "@/lib/agent-runtime/policy-history";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  const { id: agentId } = await params;
+  const body = await req.json().catch(() => ({}));
+  const version = Number(body.version);
+
+  if (!agentId || !Number.isInteger(version)) {
+    return NextResponse.json(
+      { success: false, error: "Agent ID and an integer version are required" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const restored = await rollbackPolicy(
+      agentId,
+      version,
+      typeof body.reason === "string" && body.reason.trim() ? body.reason.trim() : undefined
+    );
+    console.log(`[POLICIES] Agent ${agentId} rolled back to v${version} (now v${restored.version})`);
+    return NextResponse.json({ success: true, data: restored });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to roll back policy";
+    console.error("[POLICIES] Rollback failed:", error);
+    const status = message.includes("not found") ? 404
+      : message.includes("already the current") ? 409
+      : 500;
+    return NextResponse.json({ success: false, error: message }, { status });
+  }
+}
@@ -3,12 +3,14 @@
  *
  * GET /api/agents/:id/policies
  *
- * Returns all policy versions for an agent, showing the evolution
- * of the agent's strategy over time.
+ * Returns stored policy versions for an agent (newest first), each with its
+ * trigger, the brain's reasoning and the field-level diff against the
+ * previous version. See also ./compare and ./rollback.
  */
 
 import { NextResponse, NextRequest } from "next/server";
 import { supabase } from "@/lib/supabase";
+import { listPolicyVersions } from "@/lib/agent-runtime/policy-history";
 
 type RouteParams = { params: Promise<{ id: string }> };
 
@@ -27,45 +29,27 @@ export async function GET(req: NextRequest, { params }: RouteParams) {
   const offset = parseInt(searchParams.get("offset") || "0", 10);
 
   try {
-    // Fetch policy records
-    const { data: policies, error, count } = await supabase
-      .from("agent_policies")
-      .select("*", { count: "exact" })
-      .eq("agent_id", agentId)
-      .order("created_at", { ascending: false })
-      .range(offset, offset + limit - 1);
-
-    if (error) {
-      throw error;
-    }
-
-    // Get current (latest) version
-    const currentVersion = policies && policies.length > 0 ? policies[0].version : 0;
-
-    // Transform records for API response
-    const transformedPolicies = (policies || []).map((policy) => ({
-      id: policy.id,
-      version: policy.version,
-      personality: policy.personality,
-      policy_json: policy.policy_json,
-      trigger_type: policy.trigger_type || "initial",
-      reasoning: policy.reasoning || "",
-      brain_cost: policy.brain_cost || 0,
-      created_at: policy.created_at,
-    }));
+    const [{ versions, total }, { data: live }] = await Promise.all([
+      listPolicyVersions(agentId, { limit, offset }),
+      supabase
+        .from("agent_policies")
+        .select("policy_version")
+        .eq("agent_id", agentId)
+        .maybeSingle(),
+    ]);
 
     return NextResponse.json({
       success: true,
       data: {
-        policies: transformedPolicies,
-        current_version: currentVersion,
+        policies: versions,
+        current_version: live?.policy_version ?? versions[0]?.version ?? 0,
         agent_id: agentId,
       },
       pagination: { limit, offset },
-      total: count || 0,
+      total,
     });
   } catch (error) {
-    console.error("[POLICIES] Error fetching policy records:", error);
+    console.error("[POLICIES] Error fetching policy versions:", error);
     return NextResponse.json(
       {
         success: false,
@@ -3,14 +3,17 @@
  *
  * POST /api/agents/:id/qbr/trigger
  *
- * Manually triggers a QBR for an agent, useful for testing Gemini integration
- * and tool calling without waiting for scheduled QBR rounds.
+ * Manually triggers a QBR for an agent, useful for testing the LLM integration
+ * and tool calling without waiting for scheduled QBR rounds. Runs under the
+ * brain budget governor like a scheduled QBR: deferred when over budget,
+ * degraded near it, and charged for the metered usage.
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { supabase } from "@/lib/supabase";
-import { executeQBR } from "@/lib/agent-runtime/qbr-handler";
+import { brainService } from "@/lib/services";
 import { createRuntimeLogger } from "@/lib/agent-runtime/logger";
+import { getLlmForActivity } from "@/lib/llm";
 
 const logger = createRuntimeLogger("info");
 
@@ -58,13 +61,21 @@ export async function POST(
     logger.info(`[QBR-TEST] Starting QBR execution...`);
 
     try {
-      await executeQBR({
-        agent_id: agentId,
-        trigger_reason: "manual",
-        current_round: currentRound + 1,
-      });
+      const outcome = await brainService.runQBR(agent, currentRound + 1, "manual");
 
       const duration = Date.now() - startTime;
+      if ("deferred" in outcome) {
+        logger.info(`[QBR-TEST] QBR deferred by the brain budget: ${outcome.deferred}`);
+        return NextResponse.json(
+          {
+            success: false,
+            message: "QBR deferred by the brain budget",
+            reason: outcome.deferred,
+            duration_ms: duration,
+          },
+          { status: 429 }
+        );
+      }
       logger.info(`[QBR-TEST] QBR completed successfully in ${duration}ms`);
 
       // Fetch updated agent state
@@ -106,6 +117,7 @@ export async function POST(
           success: true,
           message: "QBR completed successfully",
           duration_ms: duration,
+          brain_cost: outcome.brainCost,
           agent: {
             id: updatedAgent?.id,
             name: updatedAgent?.name,
@@ -210,16 +222,18 @@ export async function GET(
       .limit(1)
       .single();
 
-    // Check environment
-    const hasGeminiKey = !!process.env.GOOGLE_API_KEY;
+    // Check the provider serving the configured QBR model
+    const { provider, model } = await getLlmForActivity("qbr");
 
     return NextResponse.json(
       {
-        ready: !!policy && hasGeminiKey,
+        ready: !!policy && provider.available,
         checks: {
           agent_exists: true,
           policy_exists: !!policy,
-          gemini_configured: hasGeminiKey,
+          llm_configured: provider.available,
+          llm_provider: provider.name,
+          llm_model: model,
         },
         agent: {
           id: agent.id,
@@ -236,8 +250,8 @@ export async function GET(
               created_at: policy.created_at,
             }
           : null,
-        message: !hasGeminiKey
-          ? "Gemini not configured. Set GOOGLE_API_KEY in .env.local"
+        message: !provider.available
+          ? `${model} (${provider.name}) not configured. Set ${provider.name === "anthropic" ? "ANTHROPIC_API_KEY" : "GOOGLE_API_KEY"} in .env.local, or LLM_OFFLINE=true`
           : !policy
             ? "Agent policy not set. Create policy first."
             : "Ready for QBR testing",
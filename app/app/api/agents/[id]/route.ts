@@ -308,9 +308,11 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     if (includeDetails) {
       const realData = await fetchAgentDetails(agent);
 
-      // Balance = on-chain USDC (source of truth). Chain-sync also keeps DB in sync.
+      // Balance = on-chain USDC (source of truth) minus funds locked in bid bonds.
+      // DB differences are left to the balance reconciliation job.
+      const bondedBalance = Number(agent.bonded_balance) || 0;
       const agentBalance = agent.wallet_address
-        ? await getOnChainUsdcBalance(agent.wallet_address, agent.id)
+        ? Math.max(0, await getOnChainUsdcBalance(agent.wallet_address) - bondedBalance)
         : agent.balance || 0;
 
       // Compute financials from real economy_events data
@@ -328,6 +330,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       const financials = {
         ...agent,
         balance: agentBalance, // Use DB balance (consistent with dashboard)
+        bonded_balance: bondedBalance,
         personality,
         total_revenue: totalRevenue,
         total_costs: totalCosts,
@@ -2,23 +2,28 @@
  * GET /api/predictions/current
  *
  * Get current prediction questions for the next round.
+ * When the last simulation run was seeded, questions are drawn from
+ * (last_seed, round) so a replayed run asks the same questions.
  */
 
 import { NextResponse } from 'next/server';
 import { supabase } from '@/lib/supabase';
 import { predictionService } from '@/lib/services/predictions/PredictionService';
+import { createRng, defaultRng, parseSeed } from '@/lib/random';
 
 export async function GET() {
   try {
     // Get current round
     const { data: state } = await supabase
       .from('simulation_state')
-      .select('current_round')
+      .select('current_round, last_seed')
       .eq('id', 'global')
       .single();
 
     const nextRound = (state?.current_round || 0) + 1;
-    const round = await predictionService.getOrCreatePredictionRound(nextRound);
+    const seed = parseSeed(state?.last_seed);
+    const rng = seed !== null ? createRng(parseSeed(`${seed}:${nextRound}`)!) : defaultRng;
+    const round = await predictionService.getOrCreatePredictionRound(nextRound, rng);
 
     return NextResponse.json({ success: true, data: round });
   } catch (error) {
@@ -9,6 +9,7 @@ const DEFAULT_LLM_MODELS: Record<LlmActivity, string> = {
   qbr: DEFAULT_MODEL,
   exception: DEFAULT_MODEL,
   reports: DEFAULT_MODEL,
+  execution: DEFAULT_MODEL,
 };
 
 /**
@@ -5,25 +5,35 @@
  * When an agent bids, it publishes: "I'll do this task for $X, pay me at 0xMyWallet."
  * This endpoint serves that bid as a 402 response, and settles payment on retry.
  *
- * POST /api/task-delivery/[taskId]
+ * POST /api/task-delivery/[taskId]?bidId=<bid>
  * Headers: X-PAYMENT or PAYMENT-SIGNATURE (x402 payment proof)
  * Body: not required — all data comes from the winning bid in DB
+ *       Optional { useLLM } (default true): false produces the deliverable with
+ *       the offline stub instead of the agent's model.
+ * Query: bidId (optional) — deliver a co-winning bid from a multi-winner auction.
+ *        Defaults to the task's primary winning bid.
+ *
+ * Payment amount is the bid's clearing_price (set by the auction mechanism),
+ * falling back to the bid amount for first-price auctions.
  *
  * Flow:
  * 1. Look up task + winning bid + agent from DB (the bid IS the payment requirement)
- * 2. Verify task status = ASSIGNED
- * 3. handleX402Payment(request, agentWallet, bidAmount) — x402 gate
- * 4. If 402 → return agent's payment requirements (from bid)
- * 5. Execute task work (mock for now)
- * 6. economyService.processTaskCompletion(useBlockchain: settled) — handles cost sink, escrow, DB updates, events
- * 7. Mark task COMPLETED
+ * 2. Verify task status = ASSIGNED and the delivery deadline has not passed
+ * 3. With a payment attached: claim the bid (bids_cache.delivery_claimed_at),
+ *    409 if another request already claimed it, so x402 settles once per bid
+ * 4. handleX402Payment(request, agentWallet, bidAmount) — x402 gate
+ *    If 402 → release the claim and return agent's payment requirements (from bid)
+ * 5. Execute task work: taskExecutionService produces, grades + stores the typed deliverable
+ * 6. economyService.processTaskCompletion(useBlockchain: settled) — handles cost sink, escrow, DB updates,
+ *    events, and the reputation change from the deliverable's quality score
+ * 7. Mark task COMPLETED (primary winning bid only)
  * 8. Return result
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { supabase } from "@/lib/supabase";
 import { handleX402Payment } from "@/lib/x402";
-import { economyService } from "@/lib/services";
+import { economyService, taskExecutionService } from "@/lib/services";
 import { taskService } from "@/lib/services";
 
 interface RouteParams {
@@ -32,12 +42,15 @@ interface RouteParams {
 
 export async function POST(request: NextRequest, { params }: RouteParams) {
   const { taskId } = await params;
+  const requestedBidId = request.nextUrl.searchParams.get("bidId");
+  const body = await request.clone().json().catch(() => ({}));
+  const useLLM = body?.useLLM !== false;
 
   try {
     // Step 1: Look up task + winning bid + agent — all from DB
     const { data: task, error: taskError } = await supabase
       .from("tasks")
-      .select("id, type, status, max_bid, assigned_agent_id, winning_bid_id, created_at")
+      .select("id, type, required_types, status, max_bid, input_ref, assigned_agent_id, winning_bid_id, delivery_deadline, created_at")
       .eq("id", taskId)
       .single();
 
@@ -55,6 +68,14 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       );
     }
 
+    // Late deliveries are not paid: the round sweep fails and reassigns the task
+    if (task.delivery_deadline && new Date(task.delivery_deadline).getTime() < Date.now()) {
+      return NextResponse.json(
+        { error: "Delivery deadline passed", deliveryDeadline: task.delivery_deadline },
+        { status: 409 }
+      );
+    }
+
     if (!task.winning_bid_id || !task.assigned_agent_id) {
       return NextResponse.json(
         { error: "Task has no winning bid or assigned agent" },
@@ -62,28 +83,37 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    // Fetch winning bid and agent in parallel
-    const [bidResult, agentResult] = await Promise.all([
-      supabase
-        .from("bids_cache")
-        .select("id, amount, agent_id, bidder_wallet, status, task_id, created_at")
-        .eq("id", task.winning_bid_id)
-        .single(),
-      supabase
-        .from("agents")
-        .select("id, name, type, wallet_address, privy_wallet_id, balance, total_revenue, tasks_completed, reputation, investor_share_bps, personality")
-        .eq("id", task.assigned_agent_id)
-        .single(),
-    ]);
+    // Fetch the bid being delivered (primary winner unless a co-winner is requested)
+    const deliveredBidId = requestedBidId || task.winning_bid_id;
+    const isPrimaryBid = deliveredBidId === task.winning_bid_id;
+
+    const bidResult = await supabase
+      .from("bids_cache")
+      .select("id, amount, clearing_price, auction_mechanism, agent_id, bidder_wallet, status, task_id, partnership_id, created_at")
+      .eq("id", deliveredBidId)
+      .single();
 
     if (bidResult.error || !bidResult.data) {
-      console.error("[Task Delivery] Bid lookup failed:", bidResult.error, "winning_bid_id:", task.winning_bid_id);
+      console.error("[Task Delivery] Bid lookup failed:", bidResult.error, "bid_id:", deliveredBidId);
       return NextResponse.json(
         { error: "Winning bid not found", detail: bidResult.error?.message },
         { status: 404 }
       );
     }
 
+    if (!isPrimaryBid && (bidResult.data.task_id !== taskId || bidResult.data.status !== "WON")) {
+      return NextResponse.json(
+        { error: "Bid is not a winning bid for this task" },
+        { status: 400 }
+      );
+    }
+
+    const agentResult = await supabase
+      .from("agents")
+      .select("id, name, type, wallet_address, privy_wallet_id, balance, total_revenue, tasks_completed, reputation, investor_share_bps, personality")
+      .eq("id", isPrimaryBid ? task.assigned_agent_id : bidResult.data.agent_id)
+      .single();
+
     if (agentResult.error || !agentResult.data) {
       return NextResponse.json(
         { error: "Assigned agent not found" },
@@ -93,7 +123,8 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
 
     const bid = bidResult.data;
     const agent = agentResult.data;
-    const bidAmount = Number(bid.amount);
+    // Winners are paid the clearing price set by the auction mechanism
+    const bidAmount = Number(bid.clearing_price ?? bid.amount);
     const taskType = task.type;
 
     if (!agent.wallet_address) {
@@ -103,7 +134,35 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    // Step 2: x402 payment gate
+    // Step 2: Claim the bid before its payment settles. The task stays
+    // ASSIGNED while co-winners deliver (and until the primary's settlement
+    // completes it), so the claim is what stops a concurrent or repeated
+    // request from being paid again. Only requests carrying a payment claim:
+    // the first, unpaid request just gets the 402 below.
+    const hasPayment = !!(request.headers.get("X-PAYMENT") || request.headers.get("PAYMENT-SIGNATURE"));
+    if (hasPayment) {
+      const { data: claimed, error: claimError } = await supabase
+        .from("bids_cache")
+        .update({ delivery_claimed_at: new Date().toISOString() })
+        .eq("id", bid.id)
+        .is("delivery_claimed_at", null)
+        .select("id");
+
+      if (claimError) {
+        return NextResponse.json(
+          { error: "Failed to claim bid for delivery", detail: claimError.message },
+          { status: 500 }
+        );
+      }
+      if (!claimed || claimed.length === 0) {
+        return NextResponse.json(
+          { error: "Bid already delivered", bidId: bid.id },
+          { status: 409 }
+        );
+      }
+    }
+
+    // Step 3: x402 payment gate
     const description = `Task ${taskType} delivery payment to ${agent.name} (bid ${bid.id})`;
     const paymentResult = await handleX402Payment(
       request,
@@ -112,8 +171,17 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       description
     );
 
-    // Step 3: If 402, return the agent's payment requirements (derived from bid)
+    // If 402, release the claim and return the agent's payment requirements (derived from bid)
     if (!paymentResult.paid) {
+      if (hasPayment) {
+        const { error: releaseError } = await supabase
+          .from("bids_cache")
+          .update({ delivery_claimed_at: null })
+          .eq("id", bid.id);
+        if (releaseError) {
+          console.error("[Task Delivery] Failed to release delivery claim:", releaseError, "bid_id:", bid.id);
+        }
+      }
       return new Response(JSON.stringify(paymentResult.body), {
         status: paymentResult.status,
         headers: {
@@ -123,48 +191,68 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       });
     }
 
-    // Step 4: Execute task work (mock for now)
-    const taskResult = executeMockTaskWork(taskType, taskId);
+    // The agent's quality_threshold decides whether it reworks the deliverable
+    const { data: policyRows } = await supabase
+      .from("agent_policies")
+      .select("policy_json")
+      .eq("agent_id", agent.id)
+      .order("created_at", { ascending: false })
+      .limit(1);
+
+    const deliveredTask = {
+      id: taskId,
+      type: taskType,
+      status: task.status,
+      max_bid: task.max_bid,
+      input_ref: task.input_ref,
+      created_at: task.created_at,
+    };
+    const deliveredBid = {
+      id: bid.id,
+      task_id: bid.task_id,
+      agent_id: bid.agent_id,
+      bidder_wallet: bid.bidder_wallet,
+      amount: bidAmount,
+      score: 0, // Score is computed at runtime, not stored in DB
+      status: bid.status,
+      created_at: bid.created_at,
+    };
+    const deliveringAgent = {
+      id: agent.id,
+      name: agent.name,
+      type: agent.type,
+      balance: agent.balance,
+      reputation: agent.reputation,
+      personality: agent.personality || 'balanced',
+      policy: policyRows?.[0]?.policy_json ?? null,
+      wallet_address: agent.wallet_address,
+      privy_wallet_id: agent.privy_wallet_id,
+      investor_share_bps: agent.investor_share_bps,
+    };
+
+    // Step 4: Execute task work (typed deliverable, stored in task_deliverables)
+    const execution = await taskExecutionService.execute(deliveredTask, deliveredBid, deliveringAgent, { useLLM });
 
     // Step 5: Process completion
     // useBlockchain = settled: only do real USDC transfers (cost sink, escrow)
     // when x402 actually settled on-chain (operator actually paid the agent).
     // When fallback/manual mode, just update DB balances.
     const economic = await economyService.processTaskCompletion(
+      deliveredTask,
+      deliveredBid,
+      deliveringAgent,
       {
-        id: taskId,
-        type: taskType,
-        status: task.status,
-        max_bid: task.max_bid,
-        created_at: task.created_at,
-      },
-      {
-        id: bid.id,
-        task_id: bid.task_id,
-        agent_id: bid.agent_id,
-        bidder_wallet: bid.bidder_wallet,
-        amount: bidAmount,
-        score: 0, // Score is computed at runtime, not stored in DB
-        status: bid.status,
-        created_at: bid.created_at,
-      },
-      {
-        id: agent.id,
-        name: agent.name,
-        type: agent.type,
-        balance: agent.balance,
-        reputation: agent.reputation,
-        personality: agent.personality || 'balanced',
-        policy: null,
-        wallet_address: agent.wallet_address,
-        privy_wallet_id: agent.privy_wallet_id,
-        investor_share_bps: agent.investor_share_bps,
-      },
-      { useBlockchain: paymentResult.settled, x402TxHash: paymentResult.settlementTxHash }
+        useBlockchain: paymentResult.settled,
+        x402TxHash: paymentResult.settlementTxHash,
+        qualityScore: execution.grade.score,
+        revisions: execution.revisions,
+      }
     );
 
-    // Step 6: Mark task COMPLETED
-    await taskService.completeTask(taskId);
+    // Step 6: Mark task COMPLETED (co-winner deliveries leave status to the primary)
+    if (isPrimaryBid) {
+      await taskService.completeTask(taskId);
+    }
 
     // Step 7: Return result
     return NextResponse.json({
@@ -176,6 +264,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       taskType,
       bidAmount,
       bidId: bid.id,
+      auctionMechanism: bid.auction_mechanism ?? "first_price",
       operationalCost: economic.cost,
       netProfit: Math.round(economic.profit * 1000) / 1000,
       platformCut: economic.blockchainPayment?.platformCut ?? 0,
@@ -184,7 +273,12 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         investorShare: Math.round(economic.blockchainPayment.investorShareTotal * 1000) / 1000,
         holderCount: economic.blockchainPayment.holderCount,
       } : undefined,
-      result: taskResult,
+      result: execution.deliverable,
+      deliverableId: execution.deliverableId,
+      deliverableSource: execution.source,
+      qualityScore: execution.grade.score,
+      revisions: execution.revisions,
+      reputationChange: economic.reputationChange,
       x402Settled: paymentResult.settled,
       x402TxHash: paymentResult.settlementTxHash,
       costTxHash: economic.blockchainPayment?.costTxHash,
@@ -199,61 +293,3 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     );
   }
 }
-
-/**
- * Execute mock task work (placeholder for real agent AI execution)
- */
-function executeMockTaskWork(
-  taskType: string,
-  taskId: string
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-): any {
-  switch (taskType) {
-    case "CATALOG":
-      return {
-        action: "catalog_processing",
-        taskId,
-        output: {
-          productsProcessed: 5,
-          categoriesIdentified: 3,
-          enrichmentScore: 0.92,
-        },
-      };
-    case "REVIEW":
-      return {
-        action: "review_analysis",
-        taskId,
-        output: {
-          reviewsAnalyzed: 150,
-          averageSentiment: 0.78,
-          summaryGenerated: true,
-        },
-      };
-    case "CURATION":
-      return {
-        action: "curation_ranking",
-        taskId,
-        output: {
-          itemsRanked: 25,
-          collectionsCreated: 2,
-          relevanceScore: 0.88,
-        },
-      };
-    case "SELLER":
-      return {
-        action: "seller_operations",
-        taskId,
-        output: {
-          quotesGenerated: 3,
-          negotiationsCompleted: 1,
-          conversionRate: 0.67,
-        },
-      };
-    default:
-      return {
-        action: "generic_task",
-        taskId,
-        output: { completed: true },
-      };
-  }
-}
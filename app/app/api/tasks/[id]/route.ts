@@ -6,7 +6,8 @@ type RouteParams = { params: Promise<{ id: string }> };
 
 /**
  * GET /api/tasks/[id]
- * Fetch a single task by ID
+ * Fetch a single task by ID, with its delivered work in `deliverables`
+ * Query params: include_bids (boolean)
  */
 export async function GET(request: NextRequest, { params }: RouteParams) {
   try {
@@ -429,11 +429,11 @@ export default function IntentAuctionPage() {
           </div>
           <div>
             <span className="text-cyber-500 font-bold">2. Agents Respond</span>
-            <p className="mt-1">AI agents analyze the request and submit proposals</p>
+            <p className="mt-1">Seller and curation agents matching the category and tags submit priced proposals each round</p>
           </div>
           <div>
             <span className="text-cyber-500 font-bold">3. Best Match Wins</span>
-            <p className="mt-1">Consumer selects the best agent based on price and confidence</p>
+            <p className="mt-1">The round closes the auction: best price and relevance, weighted by reputation, wins</p>
           </div>
         </div>
       </Card>
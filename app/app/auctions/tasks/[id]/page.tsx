@@ -6,8 +6,10 @@ import Link from 'next/link';
 import { Card } from '@/components/ui/Card';
 import { Badge } from '@/components/ui/Badge';
 import { Button } from '@/components/ui/Button';
+import { DeliverableView } from '@/components/tasks/DeliverableView';
 import { getExplorerAddressUrl } from '@/lib/contracts';
 import type { Task, BidCache } from '@/types/database';
+import type { StoredDeliverable } from '@/lib/services/types';
 import type { Address } from 'viem';
 
 interface BidAgent {
@@ -25,6 +27,7 @@ interface BidWithAgent extends BidCache {
 interface TaskWithBids extends Task {
   bids: BidWithAgent[];
   agents?: { id: string; name: string } | null;
+  deliverables?: StoredDeliverable[];
 }
 
 type StatusVariant = 'active' | 'warning' | 'danger' | 'neutral';
@@ -138,6 +141,7 @@ export default function TaskAuctionDetailPage() {
   }
 
   const bids = task.bids || [];
+  const deliverables = task.deliverables || [];
   const winningBid = task.winning_bid_id ? bids.find((b) => b.id === task.winning_bid_id) : null;
   const lowestBid = bids.length > 0 ? bids[0] : null;
   const isOpen = task.status === 'OPEN';
@@ -291,6 +295,24 @@ export default function TaskAuctionDetailPage() {
         </Card>
       )}
 
+      {/* Deliverables */}
+      {deliverables.length > 0 && (
+        <Card className="mb-6">
+          <div className="section-header mb-4">
+            Deliverable{deliverables.length > 1 ? `s (${deliverables.length})` : ''}
+          </div>
+          <div className="space-y-6">
+            {deliverables.map((deliverable) => (
+              <DeliverableView
+                key={deliverable.id}
+                deliverable={deliverable}
+                agentName={bids.find((b) => b.agent_id === deliverable.agent_id)?.agents?.name}
+              />
+            ))}
+          </div>
+        </Card>
+      )}
+
       {/* All Bids Table */}
       <Card className="mb-6">
         <div className="section-header mb-4">All Bids ({bids.length})</div>
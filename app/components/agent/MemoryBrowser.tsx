@@ -30,6 +30,10 @@ export function MemoryBrowser({ agentId }: MemoryBrowserProps) {
   const [fromRound, setFromRound] = useState<string>('');
   const [toRound, setToRound] = useState<string>('');
 
+  // Consolidation: archived memories toggle + lazily loaded learning sources
+  const [showArchived, setShowArchived] = useState(false);
+  const [sources, setSources] = useState<Record<string, PersonalMemoryEntry[]>>({});
+
   // Expandable entries
   const [expandedId, setExpandedId] = useState<string | null>(null);
 
@@ -39,7 +43,7 @@ export function MemoryBrowser({ agentId }: MemoryBrowserProps) {
     } else {
       fetchPersonalMemories();
     }
-  }, [activeTab, industryTypeFilter, personalTypeFilter, fromRound, toRound, agentId]);
+  }, [activeTab, industryTypeFilter, personalTypeFilter, fromRound, toRound, showArchived, agentId]);
 
   const fetchIndustryEvents = async () => {
     try {
@@ -79,6 +83,9 @@ export function MemoryBrowser({ agentId }: MemoryBrowserProps) {
       if (personalTypeFilter !== 'all') {
         url += `&type=${personalTypeFilter}`;
       }
+      if (showArchived) {
+        url += '&include_archived=true';
+      }
 
       const res = await fetch(url);
       const json = await res.json();
@@ -143,6 +150,22 @@ export function MemoryBrowser({ agentId }: MemoryBrowserProps) {
     setExpandedId(expandedId === id ? null : id);
   };
 
+  const isConsolidated = (memory: PersonalMemoryEntry) => memory.data?.consolidated === true;
+
+  const togglePersonalMemory = async (memory: PersonalMemoryEntry) => {
+    toggleExpand(memory.id);
+    if (!isConsolidated(memory) || sources[memory.id]) return;
+    try {
+      const res = await fetch(`/api/agents/${agentId}/memories?sources_of=${memory.id}`);
+      const json = await res.json();
+      if (json.success && json.data) {
+        setSources(prev => ({ ...prev, [memory.id]: json.data.memories || [] }));
+      }
+    } catch (err) {
+      console.error('Failed to fetch consolidated sources:', err);
+    }
+  };
+
   const renderIndustryTab = () => (
     <div>
       {/* Filters */}
@@ -241,7 +264,7 @@ export function MemoryBrowser({ agentId }: MemoryBrowserProps) {
   const renderPersonalTab = () => (
     <div>
       {/* Filters */}
-      <div className="mb-4">
+      <div className="mb-4 flex flex-wrap items-center gap-3">
         <select
           value={personalTypeFilter}
           onChange={(e) => setPersonalTypeFilter(e.target.value as PersonalMemoryType | 'all')}
@@ -256,6 +279,15 @@ export function MemoryBrowser({ agentId }: MemoryBrowserProps) {
           <option value="learning">Learning</option>
           <option value="competitor_insight">Competitor Insight</option>
         </select>
+
+        <label className="flex items-center gap-2 text-xs text-neutral-500">
+          <input
+            type="checkbox"
+            checked={showArchived}
+            onChange={(e) => setShowArchived(e.target.checked)}
+          />
+          Show archived
+        </label>
       </div>
 
       {/* Memories List */}
@@ -272,8 +304,10 @@ export function MemoryBrowser({ agentId }: MemoryBrowserProps) {
           {personalMemories.map((memory) => (
             <div
               key={memory.id}
-              className="p-3 bg-elevated rounded border border-neutral-800 cursor-pointer hover:border-neutral-700 transition-colors"
-              onClick={() => toggleExpand(memory.id)}
+              className={`p-3 bg-elevated rounded border border-neutral-800 cursor-pointer hover:border-neutral-700 transition-colors ${
+                memory.archived_at ? 'opacity-50' : ''
+              }`}
+              onClick={() => togglePersonalMemory(memory)}
             >
               <div className="flex items-start justify-between mb-2">
                 <div className="flex items-center gap-2">
@@ -281,6 +315,16 @@ export function MemoryBrowser({ agentId }: MemoryBrowserProps) {
                     ROUND {memory.round_number}
                   </span>
                   {getEventTypeBadge(memory.memory_type)}
+                  {isConsolidated(memory) && (
+                    <Badge variant="active">
+                      Consolidated · {String(memory.data.source_count ?? '?')} sources
+                    </Badge>
+                  )}
+                  {memory.archived_at && (
+                    <Badge variant="neutral">
+                      {memory.consolidated_into ? 'Consolidated' : 'Archived'}
+                    </Badge>
+                  )}
                 </div>
                 <div className="flex items-center gap-2">
                   {/* Importance bar */}
@@ -328,6 +372,32 @@ export function MemoryBrowser({ agentId }: MemoryBrowserProps) {
                       <> · Last recalled: {new Date(memory.last_recalled_at).toLocaleString()}</>
                     )}
                   </div>
+                  {memory.last_recall_reason && (
+                    <div className="mt-1 text-xs text-neutral-500 font-mono">
+                      Why: {memory.last_recall_reason}
+                    </div>
+                  )}
+                  {isConsolidated(memory) && (
+                    <div className="mt-3">
+                      <div className="text-xs text-neutral-500 uppercase tracking-wider mb-1">
+                        Source Memories
+                      </div>
+                      {!sources[memory.id] ? (
+                        <div className="text-xs text-neutral-600 font-mono animate-pulse">LOADING...</div>
+                      ) : sources[memory.id].length === 0 ? (
+                        <div className="text-xs text-neutral-600 font-mono">NO SOURCES FOUND</div>
+                      ) : (
+                        <div className="space-y-1">
+                          {sources[memory.id].map((source) => (
+                            <div key={source.id} className="text-xs text-neutral-400">
+                              <span className="text-neutral-600 font-mono">R{source.round_number}</span>{' '}
+                              {source.narrative}
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  )}
                 </div>
               )}
 
@@ -0,0 +1,276 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card } from '@/components/ui/Card';
+import { Badge, type BadgeVariant } from '@/components/ui/Badge';
+import { Button } from '@/components/ui/Button';
+
+interface PolicyHistoryProps {
+  agentId: string;
+}
+
+interface FieldChange {
+  field: string;
+  old_value: unknown;
+  new_value: unknown;
+}
+
+interface PolicyVersion {
+  id: string;
+  version: number;
+  policy_json: Record<string, unknown>;
+  trigger_type: 'initial' | 'qbr' | 'exception' | 'self_update' | 'admin' | 'rollback';
+  trigger_details: string | null;
+  reasoning: string | null;
+  diff: FieldChange[];
+  restored_from_version: number | null;
+  created_at: string;
+}
+
+const TRIGGER_BADGES: Record<PolicyVersion['trigger_type'], { variant: BadgeVariant; text: string }> = {
+  initial: { variant: 'neutral', text: 'Initial' },
+  qbr: { variant: 'active', text: 'QBR' },
+  exception: { variant: 'warning', text: 'Exception' },
+  self_update: { variant: 'neutral', text: 'Self Update' },
+  admin: { variant: 'danger', text: 'Admin' },
+  rollback: { variant: 'warning', text: 'Rollback' },
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined) return '—';
+  if (typeof value === 'number') return Number.isInteger(value) ? String(value) : value.toFixed(4);
+  return JSON.stringify(value);
+};
+
+const formatTimeAgo = (timestamp: string) => {
+  const diff = Date.now() - new Date(timestamp).getTime();
+  const minutes = Math.floor(diff / 60000);
+  const hours = Math.floor(diff / 3600000);
+  const days = Math.floor(diff / 86400000);
+
+  if (days > 0) return `${days}d ago`;
+  if (hours > 0) return `${hours}h ago`;
+  if (minutes > 0) return `${minutes}m ago`;
+  return 'just now';
+};
+
+function DiffTable({ changes }: { changes: FieldChange[] }) {
+  if (changes.length === 0) {
+    return <div className="text-xs text-neutral-500">No field changes</div>;
+  }
+  return (
+    <table className="w-full text-xs font-mono">
+      <tbody>
+        {changes.map((change) => (
+          <tr key={change.field} className="border-b border-neutral-800/50">
+            <td className="py-1 pr-2 text-neutral-400">{change.field}</td>
+            <td className="py-1 px-2 text-red-400/80 text-right">{formatValue(change.old_value)}</td>
+            <td className="py-1 px-1 text-neutral-600">→</td>
+            <td className="py-1 pl-2 text-emerald-400/80">{formatValue(change.new_value)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export function PolicyHistory({ agentId }: PolicyHistoryProps) {
+  const [versions, setVersions] = useState<PolicyVersion[]>([]);
+  const [currentVersion, setCurrentVersion] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [compareFrom, setCompareFrom] = useState<number | null>(null);
+  const [compareTo, setCompareTo] = useState<number | null>(null);
+  const [comparison, setComparison] = useState<FieldChange[] | null>(null);
+  const [rollingBack, setRollingBack] = useState<number | null>(null);
+
+  useEffect(() => {
+    fetchVersions();
+  }, [agentId]);
+
+  useEffect(() => {
+    if (compareFrom === null || compareTo === null || compareFrom === compareTo) {
+      setComparison(null);
+      return;
+    }
+    fetch(`/api/agents/${agentId}/policies/compare?from=${compareFrom}&to=${compareTo}`)
+      .then(res => res.json())
+      .then(json => setComparison(json.success ? json.data.changes : null))
+      .catch(err => console.error('Failed to compare policy versions:', err));
+  }, [agentId, compareFrom, compareTo]);
+
+  const fetchVersions = async () => {
+    try {
+      setLoading(true);
+      const res = await fetch(`/api/agents/${agentId}/policies?limit=50`);
+      const json = await res.json();
+
+      if (json.success && json.data) {
+        const list: PolicyVersion[] = json.data.policies || [];
+        setVersions(list);
+        setCurrentVersion(json.data.current_version ?? null);
+        if (list.length >= 2) {
+          setCompareFrom(list[1].version);
+          setCompareTo(list[0].version);
+        }
+      } else {
+        setError(json.error || 'Failed to fetch policy history');
+      }
+    } catch (err) {
+      setError('Network error');
+      console.error('Failed to fetch policy history:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRollback = async (version: number) => {
+    const reason = prompt(`Roll back to policy v${version}? Optional reason:`);
+    if (reason === null) return;
+
+    setRollingBack(version);
+    try {
+      const res = await fetch(`/api/agents/${agentId}/policies/rollback`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ version, reason }),
+      });
+      const json = await res.json();
+      if (!json.success) {
+        alert(`Rollback failed: ${json.error}`);
+        return;
+      }
+      await fetchVersions();
+    } catch (err) {
+      console.error('Rollback failed:', err);
+    } finally {
+      setRollingBack(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Card>
+        <div className="section-header mb-4">Policy History</div>
+        <div className="text-neutral-500 text-sm font-mono animate-pulse">
+          LOADING POLICY VERSIONS<span className="animate-blink">...</span>
+        </div>
+      </Card>
+    );
+  }
+
+  if (error) {
+    return (
+      <Card>
+        <div className="section-header mb-4">Policy History</div>
+        <div className="text-red-500 text-sm font-mono">ERROR: {error}</div>
+      </Card>
+    );
+  }
+
+  if (versions.length === 0) {
+    return (
+      <Card>
+        <div className="section-header mb-4">Policy History</div>
+        <div className="text-neutral-500 text-sm font-mono">NO POLICY VERSIONS RECORDED</div>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <div className="section-header mb-4">Policy History</div>
+
+      {/* Compare any two versions */}
+      {versions.length >= 2 && (
+        <div className="mb-4 p-3 bg-elevated border border-neutral-800 rounded">
+          <div className="flex items-center gap-2 mb-3 text-xs text-neutral-500 uppercase tracking-wider">
+            <span>Compare</span>
+            <select
+              value={compareFrom ?? ''}
+              onChange={(e) => setCompareFrom(Number(e.target.value))}
+              className="bg-void border border-neutral-700 rounded px-2 py-1 text-neutral-300 font-mono"
+            >
+              {versions.map(v => <option key={v.id} value={v.version}>v{v.version}</option>)}
+            </select>
+            <span>→</span>
+            <select
+              value={compareTo ?? ''}
+              onChange={(e) => setCompareTo(Number(e.target.value))}
+              className="bg-void border border-neutral-700 rounded px-2 py-1 text-neutral-300 font-mono"
+            >
+              {versions.map(v => <option key={v.id} value={v.version}>v{v.version}</option>)}
+            </select>
+          </div>
+          {comparison ? (
+            <DiffTable changes={comparison} />
+          ) : (
+            <div className="text-xs text-neutral-600">Pick two different versions</div>
+          )}
+        </div>
+      )}
+
+      {/* Version timeline */}
+      <div className="space-y-2">
+        {versions.map((version) => {
+          const badge = TRIGGER_BADGES[version.trigger_type] || TRIGGER_BADGES.self_update;
+          const isCurrent = version.version === currentVersion;
+          const isExpanded = expandedId === version.id;
+
+          return (
+            <div key={version.id} className="border border-neutral-800 rounded-lg overflow-hidden">
+              <div
+                className="p-3 bg-elevated cursor-pointer hover:bg-neutral-800/50 transition-colors"
+                onClick={() => setExpandedId(isExpanded ? null : version.id)}
+              >
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono text-sm text-neutral-200">v{version.version}</span>
+                    <Badge variant={badge.variant}>{badge.text}</Badge>
+                    {isCurrent && <Badge variant="active">Current</Badge>}
+                    {version.restored_from_version !== null && (
+                      <span className="text-xs text-neutral-500">restored v{version.restored_from_version}</span>
+                    )}
+                    <span className="text-xs text-neutral-500">
+                      {version.diff.length} field{version.diff.length === 1 ? '' : 's'} changed
+                    </span>
+                  </div>
+                  <span className="text-xs text-neutral-600">{formatTimeAgo(version.created_at)}</span>
+                </div>
+                {version.reasoning && (
+                  <div className="text-xs text-neutral-400 italic mt-2 line-clamp-2">
+                    &quot;{version.reasoning}&quot;
+                  </div>
+                )}
+              </div>
+
+              {isExpanded && (
+                <div className="border-t border-neutral-800 bg-void p-3 space-y-3">
+                  {version.trigger_details && (
+                    <div className="text-xs text-neutral-500">{version.trigger_details}</div>
+                  )}
+                  <DiffTable changes={version.diff} />
+                  {!isCurrent && (
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      loading={rollingBack === version.version}
+                      disabled={rollingBack !== null}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleRollback(version.version);
+                      }}
+                    >
+                      Roll back to v{version.version}
+                    </Button>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </Card>
+  );
+}
@@ -6,6 +6,7 @@ interface AgentFinancialsProps {
 
 export function AgentFinancials({ agent }: AgentFinancialsProps) {
   const isProfitable = agent.profit_loss >= 0;
+  const bonded = agent.bonded_balance || 0;
   // Runway color: green if can do 10+ tasks, amber if 5-10, red if <5
   const runwayColor = agent.runway_tasks > 10 ? 'text-emerald-500' : agent.runway_tasks > 5 ? 'text-amber-500' : 'text-red-500';
 
@@ -19,6 +20,12 @@ export function AgentFinancials({ agent }: AgentFinancialsProps) {
           <p className="stat-value">{agent.balance.toFixed(4)}</p>
         </div>
 
+        {/* Bonded - locked in open bid bonds, not spendable */}
+        <div className="stat-card">
+          <p className="stat-label">Bonded</p>
+          <p className={`stat-value ${bonded > 0 ? 'text-amber-500' : 'text-neutral-500'}`}>{bonded.toFixed(4)}</p>
+        </div>
+
         {/* Revenue - inflow = green */}
         <div className="stat-card">
           <p className="stat-label">Revenue</p>
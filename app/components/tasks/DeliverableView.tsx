@@ -0,0 +1,164 @@
+'use client';
+
+import { Badge } from '@/components/ui/Badge';
+import type {
+  CatalogDeliverable,
+  CurationDeliverable,
+  ReviewDeliverable,
+  SellerDeliverable,
+  StoredDeliverable,
+} from '@/lib/services/types';
+
+interface DeliverableViewProps {
+  deliverable: Pick<StoredDeliverable, 'content' | 'source' | 'model' | 'quality_score' | 'grade' | 'revisions'>;
+  agentName?: string;
+}
+
+function CatalogView({ content }: { content: CatalogDeliverable }) {
+  const { product } = content;
+  return (
+    <div className="space-y-3">
+      <div className="flex items-baseline justify-between gap-4">
+        <div>
+          <div className="text-base font-bold text-neutral-100">{product.title}</div>
+          <div className="text-xs text-neutral-500">
+            {product.brand && <>{product.brand} &middot; </>}{product.category}
+            {product.sku && <span className="font-mono"> &middot; {product.sku}</span>}
+          </div>
+        </div>
+        <div className="text-xl font-bold font-mono text-cyber-500">
+          {product.currency === 'USD' ? '$' : `${product.currency} `}{product.price.toFixed(2)}
+        </div>
+      </div>
+      {product.description && <p className="text-sm text-neutral-300">{product.description}</p>}
+      {Object.keys(product.attributes).length > 0 && (
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+          {Object.entries(product.attributes).map(([name, value]) => (
+            <div key={name} className="text-xs">
+              <span className="text-neutral-500 uppercase tracking-wider">{name}</span>
+              <div className="text-neutral-300 font-mono">{value}</div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ReviewView({ content }: { content: ReviewDeliverable }) {
+  return (
+    <div className="space-y-3">
+      <div className="flex items-baseline gap-3">
+        <span className="text-2xl font-bold font-mono text-amber-400">{content.rating.toFixed(1)}</span>
+        <span className="text-xs text-neutral-500">/ 5</span>
+      </div>
+      <p className="text-sm text-neutral-300">{content.summary}</p>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <div className="text-xs text-emerald-500 uppercase tracking-wider mb-1">Pros</div>
+          <ul className="space-y-1">
+            {content.pros.map((pro, i) => (
+              <li key={i} className="text-sm text-neutral-300">+ {pro}</li>
+            ))}
+          </ul>
+        </div>
+        <div>
+          <div className="text-xs text-red-500 uppercase tracking-wider mb-1">Cons</div>
+          <ul className="space-y-1">
+            {content.cons.map((con, i) => (
+              <li key={i} className="text-sm text-neutral-300">- {con}</li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function CurationView({ content }: { content: CurationDeliverable }) {
+  return (
+    <div className="space-y-3">
+      <div className="text-base font-bold text-neutral-100">{content.title}</div>
+      <ol className="space-y-2">
+        {content.items.map((item) => (
+          <li key={item.rank} className="flex items-baseline gap-3">
+            <span className="text-xs font-mono text-neutral-500 w-6 text-right">#{item.rank}</span>
+            <div className="flex-1">
+              <span className="text-sm text-neutral-200">{item.name}</span>
+              {item.reason && <div className="text-xs text-neutral-500">{item.reason}</div>}
+            </div>
+            <span className="text-xs font-mono text-neutral-400">{item.score.toFixed(2)}</span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
+
+function SellerView({ content }: { content: SellerDeliverable }) {
+  const variant = content.decision === 'approve' ? 'active' : content.decision === 'reject' ? 'danger' : 'warning';
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-3">
+        <span className="text-base font-bold text-neutral-100">{content.seller_name}</span>
+        <Badge variant={variant}>{content.decision.replace('_', ' ').toUpperCase()}</Badge>
+        <span className="text-xs font-mono text-neutral-400">score {content.score.toFixed(2)}</span>
+      </div>
+      <ul className="space-y-1">
+        {content.checks.map((check, i) => (
+          <li key={i} className="text-sm flex items-baseline gap-2">
+            <span className={check.passed ? 'text-emerald-500' : 'text-red-500'}>{check.passed ? 'PASS' : 'FAIL'}</span>
+            <span className="text-neutral-300">{check.check}</span>
+            {check.note && <span className="text-xs text-neutral-500">{check.note}</span>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function qualityVariant(score: number): 'active' | 'warning' | 'danger' {
+  if (score >= 0.8) return 'active';
+  if (score >= 0.5) return 'warning';
+  return 'danger';
+}
+
+/**
+ * Renders a stored task deliverable according to its task type, with its grade
+ */
+export function DeliverableView({ deliverable, agentName }: DeliverableViewProps) {
+  const { content } = deliverable;
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-3 text-xs text-neutral-500">
+        {agentName && <span className="text-neutral-300">{agentName}</span>}
+        <Badge variant="neutral">{deliverable.source === 'llm' ? `LLM${deliverable.model ? ` · ${deliverable.model}` : ''}` : 'OFFLINE STUB'}</Badge>
+        {deliverable.quality_score !== null && deliverable.quality_score !== undefined && (
+          <Badge variant={qualityVariant(deliverable.quality_score)}>
+            QUALITY {Math.round(deliverable.quality_score * 100)}%
+          </Badge>
+        )}
+        {deliverable.revisions > 0 && (
+          <span>{deliverable.revisions} revision{deliverable.revisions > 1 ? 's' : ''}</span>
+        )}
+      </div>
+      {content.task_type === 'CATALOG' && <CatalogView content={content} />}
+      {content.task_type === 'REVIEW' && <ReviewView content={content} />}
+      {content.task_type === 'CURATION' && <CurationView content={content} />}
+      {content.task_type === 'SELLER' && <SellerView content={content} />}
+      {deliverable.grade && (
+        <div className="mt-4 pt-3 border-t border-neutral-800 flex flex-wrap gap-x-4 gap-y-1">
+          {deliverable.grade.checks.map((check) => (
+            <span key={check.criterion} className="text-xs text-neutral-500" title={check.note}>
+              {check.criterion}{' '}
+              <span className={`font-mono ${check.score >= 1 ? 'text-emerald-500' : check.score >= 0.5 ? 'text-amber-400' : 'text-red-500'}`}>
+                {Math.round(check.score * 100)}%
+              </span>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { LlmProvider, LlmRequest, LlmResponse } from '@/lib/llm';
+import { BrainSession, CassetteDeck } from '@/lib/agent-brain/cassette';
+
+/** Model stub: asks for one tool on the first turn, then decides */
+function scriptedProvider(): LlmProvider & { calls: number } {
+  const provider = {
+    name: 'mock' as const,
+    available: true,
+    calls: 0,
+    async generate(request: LlmRequest): Promise<LlmResponse> {
+      provider.calls++;
+      if (request.messages.length === 1) {
+        return { text: '', toolCalls: [{ id: 'call-1', name: 'update_policy', args: { min_margin: 0.2 } }] };
+      }
+      return { text: 'raised min_margin', toolCalls: [] };
+    },
+  };
+  return provider;
+}
+
+/** One brain-style session: generate, run tools, generate, finish */
+async function runSession(deck: CassetteDeck, provider: LlmProvider, tool: () => Promise<unknown>) {
+  const session = await BrainSession.open('R1_agent-1_qbr', provider, 'mock-rules', deck);
+  const messages: LlmRequest['messages'] = [{ role: 'user', content: 'wake up' }];
+
+  const first = await session.provider.generate({ model: 'mock-rules', messages });
+  const results = await session.runTools(first.toolCalls, async () => [await tool()]);
+  messages.push({ role: 'assistant', content: first.text, toolCalls: first.toolCalls });
+  messages.push({ role: 'tool', results: [{ callId: 'call-1', name: 'update_policy', result: results[0] }] });
+
+  const second = await session.provider.generate({ model: 'mock-rules', messages });
+  const decision = { text: second.text, results };
+  await session.finish(decision);
+  return { key: session.key, decision, drift: session.drift };
+}
+
+describe('brain session cassettes', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cassettes-'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('replays model responses and tool results without running either', async () => {
+    const recorded = await runSession(
+      new CassetteDeck({ mode: 'record', dir }),
+      scriptedProvider(),
+      async () => ({ applied: true, version: 7 })
+    );
+
+    const provider = scriptedProvider();
+    const tool = vi.fn(async () => ({ applied: true, version: 8 }));
+    const replayed = await runSession(new CassetteDeck({ mode: 'replay', dir, strict: true }), provider, tool);
+
+    expect(provider.calls).toBe(0);
+    expect(tool).not.toHaveBeenCalled();
+    expect(replayed.decision).toEqual(recorded.decision);
+    expect(replayed.drift).toEqual([]);
+  });
+
+  it('numbers keys per deck, so repeated replays in one process find the same cassettes', async () => {
+    await runSession(new CassetteDeck({ mode: 'record', dir }), scriptedProvider(), async () => 'ok');
+
+    const first = await runSession(new CassetteDeck({ mode: 'replay', dir }), scriptedProvider(), async () => 'live');
+    const second = await runSession(new CassetteDeck({ mode: 'replay', dir }), scriptedProvider(), async () => 'live');
+
+    expect(first.key).toBe('R1_agent-1_qbr_1');
+    expect(second.key).toBe('R1_agent-1_qbr_1');
+    expect(second.decision).toEqual(first.decision);
+
+    // Within one deck the next session with the same base gets the next key
+    const deck = new CassetteDeck({ mode: null });
+    expect([deck.nextKey('a'), deck.nextKey('a'), deck.nextKey('b')]).toEqual(['a_1', 'a_2', 'b_1']);
+  });
+
+  it('flags a changed tool call as drift', async () => {
+    await runSession(new CassetteDeck({ mode: 'record', dir }), scriptedProvider(), async () => 'ok');
+
+    const deck = new CassetteDeck({ mode: 'replay', dir, strict: true });
+    const session = await BrainSession.open('R1_agent-1_qbr', scriptedProvider(), 'mock-rules', deck);
+    await session.provider.generate({ model: 'mock-rules', messages: [{ role: 'user', content: 'wake up' }] });
+
+    await expect(
+      session.runTools([{ id: 'call-1', name: 'update_policy', args: { min_margin: 0.5 } }], async () => ['live'])
+    ).rejects.toThrow(/tool run 0 calls changed/);
+  });
+});
@@ -0,0 +1,315 @@
+/**
+ * Brain Session Cassettes - record and replay multi-turn LLM sessions
+ *
+ * BRAIN_CASSETTE_MODE=record wraps the activity's LlmProvider and writes every
+ * turn of a brain session (the full request - prompts, tool calls and tool
+ * results so far - and the model's response), the result of every tool batch
+ * the session ran, and the final decision to BRAIN_CASSETTE_DIR/<key>.json.
+ *
+ * BRAIN_CASSETTE_MODE=replay serves the recorded responses instead of calling
+ * the model and the recorded tool results instead of running the tools, so a
+ * round with brain wake-ups re-runs byte-for-byte without network, cost or
+ * writes (update_policy, memories). Each request is compared with the
+ * recorded one, and any drift (a changed prompt from context-builder.ts /
+ * prompts/strategic-thinking.ts, different tool calls, a different decision)
+ * is logged and written to <key>.diff.json.
+ * BRAIN_CASSETTE_STRICT=true turns drift into a CassetteMismatchError.
+ *
+ * Keys are "<base>_<n>" where n counts sessions with that base in one
+ * CassetteDeck, so the same run order maps to the same cassettes. Each run
+ * (service set) gets its own deck; processes that don't pass one share
+ * defaultCassetteDeck.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import type { LlmMessage, LlmProvider, LlmRequest, LlmResponse, LlmToolCall } from "@/lib/llm";
+import { createRuntimeLogger } from "@/lib/agent-runtime/logger";
+
+const logger = createRuntimeLogger("info");
+
+export type CassetteMode = "record" | "replay";
+
+const DEFAULT_CASSETTE_DIR = path.join("/tmp", "brain-cassettes");
+
+/** The recorded part of an LlmRequest (the offline responder is code, not data) */
+export interface CassetteRequest {
+  model: string;
+  system?: string;
+  messages: LlmMessage[];
+  tools?: string[];
+  responseSchema?: boolean;
+  json?: boolean;
+}
+
+export interface CassetteTurn {
+  request: CassetteRequest;
+  response: LlmResponse;
+}
+
+/** One executeToolCalls batch: the calls (by name + args) and their results */
+export interface CassetteToolRun {
+  calls: Array<Pick<LlmToolCall, "name" | "args">>;
+  results: unknown[];
+}
+
+export interface Cassette {
+  version: 2;
+  key: string;
+  provider: string;
+  model: string;
+  recorded_at: string;
+  turns: CassetteTurn[];
+  tool_runs: CassetteToolRun[];
+  decision?: unknown;
+  error?: string;
+}
+
+/** Where a replayed session drifted from its cassette */
+export interface CassetteDrift {
+  turn: number | "decision";
+  detail: string;
+}
+
+export class CassetteMismatchError extends Error {
+  constructor(key: string, drift: CassetteDrift) {
+    super(`Cassette ${key} drifted at turn ${drift.turn}: ${drift.detail}`);
+    this.name = "CassetteMismatchError";
+  }
+}
+
+export function cassetteMode(): CassetteMode | null {
+  const mode = process.env.BRAIN_CASSETTE_MODE;
+  return mode === "record" || mode === "replay" ? mode : null;
+}
+
+export interface CassetteDeckOptions {
+  /** Default BRAIN_CASSETTE_MODE (null = pass through) */
+  mode?: CassetteMode | null;
+  /** Default BRAIN_CASSETTE_DIR */
+  dir?: string;
+  /** Default BRAIN_CASSETTE_STRICT */
+  strict?: boolean;
+}
+
+/**
+ * Cassettes of one run: where they live, record vs replay, and the per-base
+ * session counters keys are numbered from. Unset options follow the env.
+ */
+export class CassetteDeck {
+  private readonly keyCounts = new Map<string, number>();
+
+  constructor(private readonly options: CassetteDeckOptions = {}) {}
+
+  get mode(): CassetteMode | null {
+    return this.options.mode !== undefined ? this.options.mode : cassetteMode();
+  }
+
+  get dir(): string {
+    return this.options.dir ?? (process.env.BRAIN_CASSETTE_DIR || DEFAULT_CASSETTE_DIR);
+  }
+
+  get strict(): boolean {
+    return this.options.strict ?? process.env.BRAIN_CASSETTE_STRICT === "true";
+  }
+
+  /**
+   * Deterministic cassette key for the next session with this base
+   */
+  nextKey(base: string): string {
+    const safe = base.replace(/[^a-zA-Z0-9_-]/g, "_");
+    const n = (this.keyCounts.get(safe) || 0) + 1;
+    this.keyCounts.set(safe, n);
+    return `${safe}_${n}`;
+  }
+}
+
+/** Deck for callers that don't scope cassettes to a run */
+export const defaultCassetteDeck = new CassetteDeck();
+
+function snapshot(request: LlmRequest): CassetteRequest {
+  return {
+    model: request.model,
+    ...(request.system !== undefined && { system: request.system }),
+    messages: request.messages.map(m => ({ ...m })),
+    ...(request.tools && { tools: request.tools.map(t => t.name) }),
+    ...(request.responseSchema && { responseSchema: true }),
+    ...(request.json && { json: true }),
+  };
+}
+
+/**
+ * First difference between a live request and the recorded one, or null
+ */
+function requestDrift(live: CassetteRequest, recorded: CassetteRequest): string | null {
+  if (JSON.stringify(live) === JSON.stringify(recorded)) return null;
+  if (live.model !== recorded.model) return `model ${recorded.model} -> ${live.model}`;
+  if (JSON.stringify(live.tools) !== JSON.stringify(recorded.tools)) return "offered tools changed";
+  if (live.system !== recorded.system) return "system prompt changed";
+  const count = Math.max(live.messages.length, recorded.messages.length);
+  for (let i = 0; i < count; i++) {
+    const a = live.messages[i];
+    const b = recorded.messages[i];
+    if (JSON.stringify(a) !== JSON.stringify(b)) {
+      if (!a || !b) return `message count ${recorded.messages.length} -> ${live.messages.length}`;
+      return `message ${i} (${a.role}) changed`;
+    }
+  }
+  return "request options changed";
+}
+
+/**
+ * One brain session (one brainStrategicThinking / brainQBRDecision /
+ * brainExceptionResponse call). `provider` records, replays or passes
+ * through depending on BRAIN_CASSETTE_MODE; call finish() when done.
+ */
+export class BrainSession {
+  readonly drift: CassetteDrift[] = [];
+  private readonly turns: CassetteTurn[] = [];
+  private readonly toolRuns: CassetteToolRun[] = [];
+
+  private constructor(
+    readonly key: string | null,
+    readonly mode: CassetteMode | null,
+    private readonly deck: CassetteDeck,
+    private readonly inner: LlmProvider,
+    private readonly model: string,
+    private readonly recorded: Cassette | null
+  ) {}
+
+  /**
+   * Open a session; in replay mode the cassette must exist
+   */
+  static async open(
+    base: string,
+    provider: LlmProvider,
+    model: string,
+    deck: CassetteDeck = defaultCassetteDeck
+  ): Promise<BrainSession> {
+    const mode = deck.mode;
+    if (!mode) return new BrainSession(null, null, deck, provider, model, null);
+
+    const key = deck.nextKey(base);
+    if (mode === "record") return new BrainSession(key, mode, deck, provider, model, null);
+
+    const file = path.join(deck.dir, `${key}.json`);
+    let recorded: Cassette;
+    try {
+      recorded = JSON.parse(await fs.readFile(file, "utf8")) as Cassette;
+    } catch {
+      throw new Error(`No cassette to replay at ${file}`);
+    }
+    if (recorded.version !== 2) {
+      throw new Error(`Cassette ${file} has no recorded tool results (version ${recorded.version}); re-record it`);
+    }
+    logger.info(`[CASSETTE] Replaying ${key} (${recorded.turns.length} turns, ${recorded.provider}/${recorded.model})`);
+    return new BrainSession(key, mode, deck, provider, model, recorded);
+  }
+
+  get provider(): LlmProvider {
+    if (!this.mode) return this.inner;
+    return {
+      name: this.mode === "replay" ? this.recorded!.provider as LlmProvider["name"] : this.inner.name,
+      available: this.mode === "replay" || this.inner.available,
+      generate: (request) => this.generate(request),
+    };
+  }
+
+  private async generate(request: LlmRequest): Promise<LlmResponse> {
+    const live = snapshot(request);
+    const index = this.turns.length;
+
+    if (this.mode === "record") {
+      const response = await this.inner.generate(request);
+      this.turns.push({ request: live, response });
+      return response;
+    }
+
+    const recordedTurn = this.recorded!.turns[index];
+    if (!recordedTurn) {
+      this.flagDrift({ turn: index, detail: `only ${this.recorded!.turns.length} turns recorded` });
+      throw new Error(`Cassette ${this.key} has no turn ${index}`);
+    }
+    const detail = requestDrift(live, recordedTurn.request);
+    if (detail) this.flagDrift({ turn: index, detail });
+
+    this.turns.push({ request: live, response: recordedTurn.response });
+    return recordedTurn.response;
+  }
+
+  /**
+   * Run one batch of tool calls: `execute` runs them live (and the results
+   * are recorded); in replay mode the recorded results are returned instead
+   */
+  async runTools<T>(calls: LlmToolCall[], execute: () => Promise<T[]>): Promise<T[]> {
+    const live = calls.map(c => ({ name: c.name, args: c.args }));
+    const index = this.toolRuns.length;
+
+    if (this.mode !== "replay") {
+      const results = await execute();
+      if (this.mode === "record") this.toolRuns.push({ calls: live, results });
+      return results;
+    }
+
+    const recordedRun = this.recorded!.tool_runs[index];
+    if (!recordedRun) {
+      this.flagDrift({ turn: this.turns.length, detail: `only ${this.recorded!.tool_runs.length} tool runs recorded` });
+      throw new Error(`Cassette ${this.key} has no tool run ${index}`);
+    }
+    if (JSON.stringify(live) !== JSON.stringify(recordedRun.calls)) {
+      this.flagDrift({ turn: this.turns.length, detail: `tool run ${index} calls changed` });
+    }
+
+    this.toolRuns.push(recordedRun);
+    return recordedRun.results as T[];
+  }
+
+  private flagDrift(drift: CassetteDrift): void {
+    this.drift.push(drift);
+    logger.warn(`[CASSETTE] ${this.key} drift at turn ${drift.turn}: ${drift.detail}`);
+    if (this.deck.strict) throw new CassetteMismatchError(this.key!, drift);
+  }
+
+  /**
+   * Close the session: write the cassette (record) or the drift report (replay)
+   */
+  async finish(decision: unknown, error?: unknown): Promise<void> {
+    if (!this.mode || !this.key) return;
+    const dir = this.deck.dir;
+
+    try {
+      await fs.mkdir(dir, { recursive: true });
+
+      if (this.mode === "record") {
+        const cassette: Cassette = {
+          version: 2,
+          key: this.key,
+          provider: this.inner.name,
+          model: this.model,
+          recorded_at: new Date().toISOString(),
+          turns: this.turns,
+          tool_runs: this.toolRuns,
+          ...(decision !== undefined && { decision }),
+          ...(error !== undefined && { error: error instanceof Error ? error.message : String(error) }),
+        };
+        await fs.writeFile(path.join(dir, `${this.key}.json`), JSON.stringify(cassette, null, 2));
+        logger.info(`[CASSETTE] Recorded ${this.key} (${this.turns.length} turns, ${this.toolRuns.length} tool runs)`);
+        return;
+      }
+
+      if (error === undefined && JSON.stringify(decision) !== JSON.stringify(this.recorded!.decision)) {
+        this.drift.push({ turn: "decision", detail: "final decision differs from the recording" });
+        logger.warn(`[CASSETTE] ${this.key} decision differs from the recording`);
+      }
+      if (this.drift.length > 0) {
+        await fs.writeFile(
+          path.join(dir, `${this.key}.diff.json`),
+          JSON.stringify({ key: this.key, drift: this.drift, turns: this.turns, decision }, null, 2)
+        );
+      }
+    } catch (err) {
+      // Cassette I/O never breaks a brain session
+      logger.error(`[CASSETTE] Failed to write ${this.key}:`, err);
+    }
+  }
+}
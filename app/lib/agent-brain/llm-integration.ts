@@ -1,14 +1,16 @@
 /**
- * Google Gemini API Integration for Agent Brain
+ * LLM Integration for Agent Brain
  *
- * Integrates Gemini for agent strategic decision-making.
+ * Drives agent strategic decision-making through the provider-agnostic LLM
+ * layer (lib/llm): the model configured for the activity (brain, qbr,
+ * exception) picks Gemini, Anthropic or the offline mock provider.
  * Handles tool binding, execution, and response processing.
  *
  * ## Key Patterns Implemented
  *
  * ### 1. Agent ID Injection
  * Agent IDs are INJECTED at the tool execution layer (executeTool), not passed through prompts.
- * This ensures tools always operate on the correct agent, regardless of what Gemini infers.
+ * This ensures tools always operate on the correct agent, regardless of what the model infers.
  *
  * Tools that receive injected agent_id:
  * - get_my_stats
@@ -18,14 +20,14 @@
  *
  * Flow:
  * 1. brainQBRDecision(agentId, prompt) receives agentId from request
- * 2. Gemini receives prompt WITHOUT explicit agent_id
- * 3. Gemini calls tools
+ * 2. The model receives prompt WITHOUT explicit agent_id
+ * 3. The model calls tools
  * 4. executeToolCalls(toolCalls, agentId) injects the correct agentId
  * 5. Tools execute with guaranteed correct agentId
  *
  * ### 2. UUID Validation & Fallback
  * Tools that need agent identification validate UUID format and fall back to name lookup.
- * This allows Gemini to refer to agents by name in prompts while tools resolve to IDs.
+ * This allows the model to refer to agents by name in prompts while tools resolve to IDs.
  *
  * Pattern in tool implementations:
  * ```
@@ -41,6 +43,22 @@
  * - [TOOL] Success: {name}
  * - [TOOL] Failed: {name} - {error}
  *
+ * ### 4. Offline Rules
+ * brainStrategicThinking passes offlineBrainResponder (offline-rules.ts) with
+ * every request; the mock provider follows those rules, real providers ignore them.
+ *
+ * ### 5. Cassettes
+ * Each brain call is a BrainSession (cassette.ts): with BRAIN_CASSETTE_MODE
+ * set, its turns, tool results and final decision are recorded to, or
+ * replayed from, a cassette file keyed by options.cassetteKey (default:
+ * activity + agent id) in options.cassettes. Tool calls go through
+ * session.runTools, so a replay never runs a tool.
+ *
+ * ### 6. Budget
+ * options.model / options.degraded / options.onUsage come from the budget
+ * governor (services/budget/BrainBudgetService.ts): a degraded session runs
+ * on a cheaper model with a single tool round per phase.
+ *
  * ## Features
  * - Tool definition and binding with proper schemas (SchemaType enum)
  * - Tool execution with agent_id injection
@@ -48,40 +66,39 @@
  * - Multi-turn conversation support
  * - Logging for monitoring
  *
- * API Reference: https://ai.google.dev/docs/function-calling
- *
  * ## Documentation
  * See TOOL_INTEGRATION_GUIDE.md for complete patterns and best practices.
  */
 
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import type { Content, FunctionCall, Part } from "@google/generative-ai";
+import { getLlmForActivity, type JsonSchema, type LlmMessage, type LlmToolCall, type LlmUsageListener } from "@/lib/llm";
 import { brainToolContext } from "@/lib/agent-tools";
-import { ALL_TOOL_SCHEMAS, PHASE1_TOOL_SCHEMAS, PHASE2_TOOL_SCHEMAS, TOOL_NAMES } from "@/lib/agent-tools/schemas";
+import { ALL_TOOL_SCHEMAS, PHASE1_TOOL_SCHEMAS, PHASE2_TOOL_SCHEMAS, TOOL_NAMES, toToolDeclarations } from "@/lib/agent-tools/schemas";
 import { createRuntimeLogger } from "@/lib/agent-runtime/logger";
-import { getModelForActivity, DEFAULT_MODEL } from "@/lib/llm-config";
+import { offlineBrainResponder } from "./offline-rules";
+import { BrainSession, type CassetteDeck } from "./cassette";
 
 const logger = createRuntimeLogger("info");
 
-/**
- * Initialize Gemini client and get model with tools
- * @param modelName - Optional model override. If not provided, uses DEFAULT_MODEL.
- *   For callers that want the global DB-configured model, call getGlobalModel() first.
- */
-export function initializeGeminiClient(modelName?: string) {
-  const apiKey = process.env.GOOGLE_API_KEY;
-  if (!apiKey) {
-    throw new Error("GOOGLE_API_KEY environment variable is not set");
-  }
+/** Options shared by the brain entry points */
+export interface BrainCallOptions {
+  /** Cassette key base (see cassette.ts); defaults to "<activity>_<agentId>" */
+  cassetteKey?: string;
+  /** Cassettes of this run (see cassette.ts); defaults to defaultCassetteDeck */
+  cassettes?: CassetteDeck;
+  /** Model override (the budget governor's pick); defaults to the activity's model */
+  model?: string;
+  /** Degraded wake-up: one tool round per phase instead of the full loop */
+  degraded?: boolean;
+  /** Per-call usage hook (see BrainBudgetService) */
+  onUsage?: LlmUsageListener;
+}
 
-  const client = new GoogleGenerativeAI(apiKey);
-  const model = client.getGenerativeModel({
-    model: modelName || DEFAULT_MODEL,
-    tools: ALL_TOOL_SCHEMAS,
-  });
+const MAX_TOOL_ITERATIONS = 10;
+const MAX_PHASE_ITERATIONS = 3;
 
-  return { client, model };
-}
+const ALL_TOOLS = toToolDeclarations(ALL_TOOL_SCHEMAS);
+const PHASE1_TOOLS = toToolDeclarations(PHASE1_TOOL_SCHEMAS);
+const PHASE2_TOOLS = toToolDeclarations(PHASE2_TOOL_SCHEMAS);
 
 /**
  * Type for tool execution results
@@ -93,11 +110,11 @@ export interface ToolExecutionResult {
 }
 
 /**
- * Execute a tool call from Gemini
- * @param toolCall - The tool call from Gemini
- * @param currentAgentId - The actual agent ID from request state (overrides any Gemini-provided ID)
+ * Execute a tool call from the model
+ * @param toolCall - The tool call from the model
+ * @param currentAgentId - The actual agent ID from request state (overrides any model-provided ID)
  */
-export async function executeTool(toolCall: FunctionCall, currentAgentId?: string): Promise<ToolExecutionResult> {
+export async function executeTool(toolCall: LlmToolCall, currentAgentId?: string): Promise<ToolExecutionResult> {
   const { name, args } = toolCall;
 
   try {
@@ -202,13 +219,13 @@ export async function executeTool(toolCall: FunctionCall, currentAgentId?: strin
 
 /**
  * Execute tool calls and get execution results
- * @param toolCalls - The tool calls from Gemini
+ * @param toolCalls - The tool calls from the model
  * @param currentAgentId - The actual agent ID from request state
  *
  * Tools are executed in PARALLEL for faster execution.
  * All independent tool calls run concurrently.
  */
-export async function executeToolCalls(toolCalls: FunctionCall[], currentAgentId?: string): Promise<ToolExecutionResult[]> {
+export async function executeToolCalls(toolCalls: LlmToolCall[], currentAgentId?: string): Promise<ToolExecutionResult[]> {
   // Execute all tools in parallel
   const results = await Promise.all(
     toolCalls.map(toolCall => executeTool(toolCall, currentAgentId))
@@ -218,81 +235,23 @@ export async function executeToolCalls(toolCalls: FunctionCall[], currentAgentId
 }
 
 /**
- * Create tool result content for Gemini (for multi-turn conversation)
+ * Create the tool result message for a turn's calls (for multi-turn conversation)
  */
-export function createToolResultContent(
-  toolName: string,
-  result: unknown,
-  error?: string
-): Content {
+export function createToolResultMessage(
+  toolCalls: LlmToolCall[],
+  toolResults: ToolExecutionResult[]
+): LlmMessage {
   return {
-    role: "user",
-    parts: [
-      {
-        functionResponse: {
-          name: toolName,
-          response: error
-            ? { error: error, success: false }
-            : { result: result, success: true },
-        },
-      } as unknown as Part,
-    ],
+    role: "tool",
+    results: toolResults.map((r, i) => ({
+      callId: toolCalls[i].id,
+      name: r.toolName,
+      result: r.result,
+      error: r.error,
+    })),
   };
 }
 
-/**
- * Process Gemini response and extract tool calls
- */
-export function extractToolCalls(response: any): FunctionCall[] {
-  const toolCalls: FunctionCall[] = [];
-
-  // Handle both direct response and wrapped response
-  const actualResponse = response.response || response;
-
-  if (!actualResponse.candidates || actualResponse.candidates.length === 0) {
-    return toolCalls;
-  }
-
-  const candidate = actualResponse.candidates[0];
-  if (!candidate.content || !candidate.content.parts) {
-    return toolCalls;
-  }
-
-  for (const part of candidate.content.parts) {
-    if (part.functionCall) {
-      toolCalls.push(part.functionCall);
-    }
-  }
-
-  return toolCalls;
-}
-
-/**
- * Extract final text response from Gemini
- */
-export function extractTextResponse(response: any): string {
-  // Handle nested response structure (response.response.candidates)
-  const actualResponse = response.response || response;
-
-  if (!actualResponse.candidates || actualResponse.candidates.length === 0) {
-    return "";
-  }
-
-  const candidate = actualResponse.candidates[0];
-  if (!candidate.content || !candidate.content.parts) {
-    return "";
-  }
-
-  const textParts: string[] = [];
-  for (const part of candidate.content.parts) {
-    if (part.text) {
-      textParts.push(part.text);
-    }
-  }
-
-  return textParts.join("\n");
-}
-
 /**
  * QBR Decision Schema - LEGACY (Not Currently Used)
  *
@@ -458,18 +417,19 @@ const QBR_DECISION_SCHEMA = {
  */
 
 /**
- * Brain QBR decision-making with Gemini
+ * Brain QBR decision-making with the configured 'qbr' model
  *
  * Flow:
- * 1. Send QBR prompt to Gemini
- * 2. Gemini calls tools to gather market/agent data
+ * 1. Send QBR prompt to the model
+ * 2. The model calls tools to gather market/agent data
  * 3. Execute all tools and collect results
- * 4. Ask Gemini to analyze results and generate structured decision
+ * 4. Ask the model to analyze results and generate structured decision
  * 5. Parse and return decision
  */
 export async function brainQBRDecision(
   agentId: string,
-  qbrPrompt: string
+  qbrPrompt: string,
+  options: BrainCallOptions = {}
 ): Promise<{
   reasoning: string;
   policy_changes: Record<string, unknown>;
@@ -485,24 +445,20 @@ export async function brainQBRDecision(
     brain_cost: number;
   };
 }> {
-  const qbrModelName = await getModelForActivity('qbr');
-  const { model } = initializeGeminiClient(qbrModelName);
-  const conversation: Content[] = [];
+  const { provider: llm, model } = await getLlmForActivity('qbr', { model: options.model, onUsage: options.onUsage });
+  const session = await BrainSession.open(options.cassetteKey || `qbr_${agentId}`, llm, model, options.cassettes);
+  const provider = session.provider;
+  const conversation: LlmMessage[] = [];
 
   try {
-    // PHASE 1: Tool Calling - Gemini gathers data
-    conversation.push({
-      role: "user",
-      parts: [{ text: qbrPrompt }],
-    });
+    // PHASE 1: Tool Calling - the model gathers data
+    conversation.push({ role: "user", content: qbrPrompt });
 
-    let response = await model.generateContent({
-      contents: conversation,
-    });
+    let response = await provider.generate({ model, messages: conversation, tools: ALL_TOOLS });
 
-    let toolCalls = extractToolCalls(response);
+    let toolCalls = response.toolCalls;
     let iteration = 0;
-    const maxIterations = 10;
+    const maxIterations = options.degraded ? 1 : MAX_TOOL_ITERATIONS;
     const toolCallsLog: any[] = [];
 
     // Execute all tool calls in a loop
@@ -514,16 +470,10 @@ export async function brainQBRDecision(
       }
 
       // Add assistant response to conversation
-      const responseContent = (response as any).candidates?.[0]?.content?.parts;
-      if (responseContent) {
-        conversation.push({
-          role: "model",
-          parts: responseContent,
-        });
-      }
+      conversation.push({ role: "assistant", content: response.text, toolCalls });
 
       // Execute all tools (passing correct agent ID from request state)
-      const toolResults = await executeToolCalls(toolCalls, agentId);
+      const toolResults = await session.runTools(toolCalls, () => executeToolCalls(toolCalls, agentId));
 
       // Log errors only
       for (const result of toolResults) {
@@ -533,22 +483,12 @@ export async function brainQBRDecision(
       }
 
       // Add tool results back to conversation
-      for (const toolResult of toolResults) {
-        conversation.push(
-          createToolResultContent(
-            toolResult.toolName,
-            toolResult.result,
-            toolResult.error
-          )
-        );
-      }
+      conversation.push(createToolResultMessage(toolCalls, toolResults));
 
       // Get next response
-      response = await model.generateContent({
-        contents: conversation,
-      });
+      response = await provider.generate({ model, messages: conversation, tools: ALL_TOOLS });
 
-      toolCalls = extractToolCalls(response);
+      toolCalls = response.toolCalls;
     }
 
     if (iteration >= maxIterations) {
@@ -682,20 +622,14 @@ CRITICAL INSTRUCTIONS:
 BEGIN OUTPUT (JSON only):
 `;
 
-    conversation.push({
-      role: "user",
-      parts: [{ text: structuredPrompt }],
-    });
+    conversation.push({ role: "user", content: structuredPrompt });
 
     // Get structured JSON response - do NOT use responseSchema
     // Just send the prompt with format specification embedded
-    response = await model.generateContent({
-      contents: conversation,
-      // No generationConfig - let Gemini follow the text prompt format
-    });
+    response = await provider.generate({ model, messages: conversation, tools: ALL_TOOLS });
 
     // Extract and parse final response
-    const textResponse = extractTextResponse(response);
+    const textResponse = response.text;
     const decisions = parseQBRDecisionResponse(textResponse);
 
     logger.info(`[BRAIN] QBR analysis complete for agent ${agentId}`);
@@ -711,14 +645,17 @@ BEGIN OUTPUT (JSON only):
       brain_cost: 0.01
     };
 
-    return {
+    const result = {
       reasoning: decisions.reasoning || textResponse,
       policy_changes: decisions.policy_changes || {},
       partnership_actions: decisions.partnership_actions || [],
       strategic_options: decisions.strategic_options || [],
       investor_update: investorUpdate,
     };
+    await session.finish(result);
+    return result;
   } catch (error) {
+    await session.finish(undefined, error);
     logger.error(`[BRAIN] QBR decision failed:`, error);
     if (error instanceof Error) {
       logger.error(`[BRAIN] Error message: ${error.message}`);
@@ -729,9 +666,9 @@ BEGIN OUTPUT (JSON only):
 }
 
 /**
- * Exception Response Schema for Gemini structured output
+ * Exception Response Schema for structured output
  */
-const EXCEPTION_RESPONSE_SCHEMA = {
+const EXCEPTION_RESPONSE_SCHEMA: JsonSchema = {
   type: "object",
   properties: {
     observations: {
@@ -846,18 +783,19 @@ const EXCEPTION_RESPONSE_SCHEMA = {
 };
 
 /**
- * Brain exception response with Gemini
+ * Brain exception response with the configured 'exception' model
  *
  * Flow:
- * 1. Send exception prompt to Gemini
- * 2. Gemini calls tools to assess situation
+ * 1. Send exception prompt to the model
+ * 2. The model calls tools to assess situation
  * 3. Execute all tools and collect results
- * 4. Ask Gemini to generate structured emergency response
+ * 4. Ask the model to generate structured emergency response
  * 5. Parse and return response
  */
 export async function brainExceptionResponse(
   agentId: string,
-  exceptionPrompt: string
+  exceptionPrompt: string,
+  options: BrainCallOptions = {}
 ): Promise<{
   reasoning: string;
   observations: string[];
@@ -868,38 +806,28 @@ export async function brainExceptionResponse(
   survival_impact: string;
   growth_impact: string;
 }> {
-  const exceptionModelName = await getModelForActivity('exception');
-  const { model } = initializeGeminiClient(exceptionModelName);
-  const conversation: Content[] = [];
+  const { provider: llm, model } = await getLlmForActivity('exception', { model: options.model, onUsage: options.onUsage });
+  const session = await BrainSession.open(options.cassetteKey || `exception_${agentId}`, llm, model, options.cassettes);
+  const provider = session.provider;
+  const conversation: LlmMessage[] = [];
 
   try {
     // PHASE 1: Tool Calling - Assess exception
-    conversation.push({
-      role: "user",
-      parts: [{ text: exceptionPrompt }],
-    });
+    conversation.push({ role: "user", content: exceptionPrompt });
 
-    let response = await model.generateContent({
-      contents: conversation,
-    });
+    let response = await provider.generate({ model, messages: conversation, tools: ALL_TOOLS });
 
-    let toolCalls = extractToolCalls(response);
+    let toolCalls = response.toolCalls;
     let iteration = 0;
-    const maxIterations = 10;
+    const maxIterations = options.degraded ? 1 : MAX_TOOL_ITERATIONS;
 
     // Execute all tool calls
     while (toolCalls.length > 0 && iteration < maxIterations) {
       iteration++;
 
-      const exceptionResponseContent = (response as any).candidates?.[0]?.content?.parts;
-      if (exceptionResponseContent) {
-        conversation.push({
-          role: "model",
-          parts: exceptionResponseContent,
-        });
-      }
+      conversation.push({ role: "assistant", content: response.text, toolCalls });
 
-      const toolResults = await executeToolCalls(toolCalls, agentId);
+      const toolResults = await session.runTools(toolCalls, () => executeToolCalls(toolCalls, agentId));
 
       for (const result of toolResults) {
         if (result.error) {
@@ -907,21 +835,11 @@ export async function brainExceptionResponse(
         }
       }
 
-      for (const toolResult of toolResults) {
-        conversation.push(
-          createToolResultContent(
-            toolResult.toolName,
-            toolResult.result,
-            toolResult.error
-          )
-        );
-      }
+      conversation.push(createToolResultMessage(toolCalls, toolResults));
 
-      response = await model.generateContent({
-        contents: conversation,
-      });
+      response = await provider.generate({ model, messages: conversation, tools: ALL_TOOLS });
 
-      toolCalls = extractToolCalls(response);
+      toolCalls = response.toolCalls;
     }
 
     if (iteration >= maxIterations) {
@@ -1015,33 +933,21 @@ Provide your response with these fields:
 - "growth_impact": How this decision affects long-term growth and market position
 `;
 
-    conversation.push({
-      role: "user",
-      parts: [{ text: structuredPrompt }],
-    });
+    conversation.push({ role: "user", content: structuredPrompt });
 
-    // Create a model WITHOUT tools for structured output (Gemini doesn't support both)
-    const apiKey = process.env.GOOGLE_API_KEY;
-    const clientForStructured = new GoogleGenerativeAI(apiKey!);
-    const modelForStructured = clientForStructured.getGenerativeModel({
-      model: exceptionModelName,
-      // No tools - just structured output
+    // No tools for the structured output turn (Gemini doesn't support both)
+    response = await provider.generate({
+      model,
+      messages: conversation,
+      responseSchema: EXCEPTION_RESPONSE_SCHEMA,
     });
 
-    response = await modelForStructured.generateContent({
-      contents: conversation,
-      generationConfig: {
-        responseSchema: EXCEPTION_RESPONSE_SCHEMA,
-        responseMimeType: "application/json",
-      } as any,
-    });
-
-    const textResponse = extractTextResponse(response);
+    const textResponse = response.text;
     const decisions = parseExceptionResponse(textResponse);
 
     logger.info(`[BRAIN] Exception response generated for agent ${agentId}`);
 
-    return {
+    const result = {
       reasoning: textResponse,
       observations: decisions.observations || [],
       policy_changes: decisions.policy_changes || {},
@@ -1051,7 +957,10 @@ Provide your response with these fields:
       survival_impact: decisions.survival_impact || "Emergency measures taken",
       growth_impact: decisions.growth_impact || "Focused on survival",
     };
+    await session.finish(result);
+    return result;
   } catch (error) {
+    await session.finish(undefined, error);
     logger.error(`[BRAIN] Exception response failed:`, error);
     if (error instanceof Error) {
       logger.error(`[BRAIN] Error message: ${error.message}`);
@@ -1062,7 +971,7 @@ Provide your response with these fields:
 }
 
 /**
- * Parse QBR decision response from Gemini text
+ * Parse QBR decision response from model text
  * Handles both markdown-wrapped and raw JSON formats
  */
 function parseQBRDecisionResponse(response: string): any {
@@ -1101,7 +1010,7 @@ function parseQBRDecisionResponse(response: string): any {
 }
 
 /**
- * Parse exception response from Gemini text
+ * Parse exception response from model text
  * Handles both markdown-wrapped and raw JSON formats
  */
 function parseExceptionResponse(response: string): any {
@@ -1135,7 +1044,7 @@ function parseExceptionResponse(response: string): any {
 // ============================================================================
 
 /**
- * Autonomous strategic thinking with Gemini
+ * Autonomous strategic thinking with the configured model for the activity
  *
  * This is the new open-ended approach where the agent:
  * 1. Receives objectives (survive, grow) and context
@@ -1148,6 +1057,7 @@ function parseExceptionResponse(response: string): any {
  * @param agentId - The agent's ID (injected into tool calls)
  * @param systemPrompt - Sets the agent's mindset and objectives
  * @param userPrompt - Provides the situation context
+ * @param options - cassetteKey for record/replay (see cassette.ts), budget overrides
  * @returns Summary of what the agent decided and did
  */
 export async function brainStrategicThinking(
@@ -1155,7 +1065,8 @@ export async function brainStrategicThinking(
   systemPrompt: string,
   userPrompt: string,
   historySummary?: string,
-  activity: 'brain' | 'qbr' | 'exception' = 'brain'
+  activity: 'brain' | 'qbr' | 'exception' = 'brain',
+  options: BrainCallOptions = {}
 ): Promise<{
   phase1_summary?: Record<string, unknown>;
   phase2_actions?: Array<{
@@ -1182,22 +1093,21 @@ export async function brainStrategicThinking(
   partnership_actions: unknown[];
   investor_update_created: boolean;
 }> {
+  let session: BrainSession | undefined;
   try {
     logger.info(`[BRAIN] Starting two-phase autonomous strategic thinking for agent ${agentId}`);
 
-    const brainModelName = await getModelForActivity(activity);
-    logger.info(`[BRAIN] Using LLM model: ${brainModelName} (activity: ${activity})`);
+    const { provider: llm, model } = await getLlmForActivity(activity, { model: options.model, onUsage: options.onUsage });
+    session = await BrainSession.open(options.cassetteKey || `${activity}_${agentId}`, llm, model, options.cassettes);
+    const provider = session.provider;
+    logger.info(`[BRAIN] Using LLM model: ${model} via ${provider.name} (activity: ${activity})`);
+    const offline = offlineBrainResponder(activity);
 
     // ========== PHASE 1: DATA GATHERING ==========
     logger.info(`[BRAIN] === PHASE 1: DATA GATHERING ===`);
 
-    const phase1Client = new GoogleGenerativeAI(process.env.GOOGLE_API_KEY!);
-    const phase1Model = phase1Client.getGenerativeModel({
-      model: brainModelName,
-      tools: PHASE1_TOOL_SCHEMAS,
-    });
-
-    const phase1Conversation: Content[] = [];
+    const phase1Conversation: LlmMessage[] = [];
+    const generatePhase1 = () => provider.generate({ model, messages: phase1Conversation, tools: PHASE1_TOOLS, offline });
 
     // Build Phase 1 specific prompt that explicitly asks for tool usage
     const phase1UserPrompt = `${systemPrompt}
@@ -1304,36 +1214,30 @@ Step 1 Response (get_my_stats):
 
 After gathering all this data, your Phase 1 is COMPLETE. Wait for Phase 2.`;
 
-    phase1Conversation.push({
-      role: "user",
-      parts: [{ text: phase1UserPrompt }],
-    });
+    phase1Conversation.push({ role: "user", content: phase1UserPrompt });
 
-    let phase1Response = await phase1Model.generateContent({
-      contents: phase1Conversation,
-    });
+    let phase1Response = await generatePhase1();
 
-    // DEBUG: Log what Gemini returned
-    logger.info(`[BRAIN] Phase 1 response structure: ${JSON.stringify((phase1Response as any)?.candidates?.[0]?.content?.parts?.map((p: any) => Object.keys(p)) || 'NO RESPONSE')}`);
+    // DEBUG: Log what the model returned
+    logger.info(`[BRAIN] Phase 1 response: ${phase1Response.toolCalls.length} tool call(s), ${phase1Response.text.length} chars of text`);
 
-    const phase1TextResponse = extractTextResponse(phase1Response);
-    if (phase1TextResponse) {
-      logger.info(`[BRAIN] Phase 1 initial response (text): ${phase1TextResponse.substring(0, 200)}`);
+    if (phase1Response.text) {
+      logger.info(`[BRAIN] Phase 1 initial response (text): ${phase1Response.text.substring(0, 200)}`);
     }
 
-    let phase1ToolCalls = extractToolCalls(phase1Response);
+    let phase1ToolCalls = phase1Response.toolCalls;
     logger.info(`[BRAIN] Phase 1 extracted tool calls: ${phase1ToolCalls.length}`);
     if (phase1ToolCalls.length > 0) {
       phase1ToolCalls.forEach(tc => logger.info(`[BRAIN] - Tool: ${tc.name}`));
     }
 
-    // Filter to ONLY Phase 1 tools - prevent Gemini from calling Phase 2 tools
+    // Filter to ONLY Phase 1 tools - prevent the model from calling Phase 2 tools
     phase1ToolCalls = phase1ToolCalls.filter(tc =>
       [TOOL_NAMES.QUERY_MARKET, TOOL_NAMES.QUERY_AGENT, TOOL_NAMES.GET_MY_STATS, TOOL_NAMES.GET_CURRENT_PARTNERSHIPS].includes(tc.name as any)
     );
     logger.info(`[BRAIN] Phase 1 tools after filter: ${phase1ToolCalls.length}`);
     let phase1Iteration = 0;
-    const maxPhase1Iterations = 3;
+    const maxPhase1Iterations = options.degraded ? 1 : MAX_PHASE_ITERATIONS;
 
     const phase1Results = {
       market_data: null as unknown,
@@ -1375,17 +1279,12 @@ ${missingTools.map(t => `☐ ${t}`).join('\n')}
 You've made progress but haven't called all 4 required tools yet. Continue calling the missing tools to complete Phase 1 data gathering.`;
 
             logger.info(`[BRAIN] Phase 1: Missing ${missingTools.length} tools, sending continuation prompt`);
-            phase1Conversation.push({
-              role: "user",
-              parts: [{ text: continuationPrompt }],
-            });
+            phase1Conversation.push({ role: "user", content: continuationPrompt });
 
-            phase1Response = await phase1Model.generateContent({
-              contents: phase1Conversation,
-            });
+            phase1Response = await generatePhase1();
 
-            phase1ToolCalls = extractToolCalls(phase1Response);
-            // Filter to ONLY Phase 1 tools - prevent Gemini from calling Phase 2 tools
+            phase1ToolCalls = phase1Response.toolCalls;
+            // Filter to ONLY Phase 1 tools - prevent the model from calling Phase 2 tools
             phase1ToolCalls = phase1ToolCalls.filter(tc =>
               [TOOL_NAMES.QUERY_MARKET, TOOL_NAMES.QUERY_AGENT, TOOL_NAMES.GET_MY_STATS, TOOL_NAMES.GET_CURRENT_PARTNERSHIPS].includes(tc.name as any)
             );
@@ -1402,16 +1301,10 @@ You've made progress but haven't called all 4 required tools yet. Continue calli
         }
       }
 
-      const responseContent = (phase1Response as any).candidates?.[0]?.content?.parts;
-      if (responseContent) {
-        phase1Conversation.push({
-          role: "model",
-          parts: responseContent,
-        });
-      }
+      phase1Conversation.push({ role: "assistant", content: phase1Response.text, toolCalls: phase1ToolCalls });
 
       logger.info(`[BRAIN] Calling Phase 1 tools: ${phase1ToolCalls.map(tc => tc.name).join(', ')}`);
-      const toolResults = await executeToolCalls(phase1ToolCalls, agentId);
+      const toolResults = await session.runTools(phase1ToolCalls, () => executeToolCalls(phase1ToolCalls, agentId));
 
       for (let i = 0; i < phase1ToolCalls.length; i++) {
         const toolCall = phase1ToolCalls[i];
@@ -1446,18 +1339,12 @@ You've made progress but haven't called all 4 required tools yet. Continue calli
         }
       }
 
-      for (const toolResult of toolResults) {
-        phase1Conversation.push(
-          createToolResultContent(toolResult.toolName, toolResult.result, toolResult.error)
-        );
-      }
+      phase1Conversation.push(createToolResultMessage(phase1ToolCalls, toolResults));
 
-      phase1Response = await phase1Model.generateContent({
-        contents: phase1Conversation,
-      });
+      phase1Response = await generatePhase1();
 
-      phase1ToolCalls = extractToolCalls(phase1Response);
-      // Filter to ONLY Phase 1 tools - prevent Gemini from calling Phase 2 tools
+      phase1ToolCalls = phase1Response.toolCalls;
+      // Filter to ONLY Phase 1 tools - prevent the model from calling Phase 2 tools
       phase1ToolCalls = phase1ToolCalls.filter(tc =>
         [TOOL_NAMES.QUERY_MARKET, TOOL_NAMES.QUERY_AGENT, TOOL_NAMES.GET_MY_STATS, TOOL_NAMES.GET_CURRENT_PARTNERSHIPS].includes(tc.name as any)
       );
@@ -1473,13 +1360,8 @@ You've made progress but haven't called all 4 required tools yet. Continue calli
     // ========== PHASE 2: DECISION MAKING ==========
     logger.info(`[BRAIN] === PHASE 2: DECISION MAKING ===`);
 
-    const phase2Client = new GoogleGenerativeAI(process.env.GOOGLE_API_KEY!);
-    const phase2Model = phase2Client.getGenerativeModel({
-      model: brainModelName,
-      tools: PHASE2_TOOL_SCHEMAS,
-    });
-
-    const phase2Conversation: Content[] = [];
+    const phase2Conversation: LlmMessage[] = [];
+    const generatePhase2 = () => provider.generate({ model, messages: phase2Conversation, tools: PHASE2_TOOLS, offline });
     const historyBlock = historySummary ? `\n## YOUR RECENT HISTORY\n\n${historySummary}\n` : '';
     const phase2Prompt = `${systemPrompt}
 
@@ -1596,22 +1478,17 @@ Based on the Phase 1 data above, you MUST execute in order:
 
 Execute your strategy using the available tools.`;
 
-    phase2Conversation.push({
-      role: "user",
-      parts: [{ text: phase2Prompt }],
-    });
+    phase2Conversation.push({ role: "user", content: phase2Prompt });
 
-    let phase2Response = await phase2Model.generateContent({
-      contents: phase2Conversation,
-    });
+    let phase2Response = await generatePhase2();
 
-    let phase2ToolCalls = extractToolCalls(phase2Response);
-    // Filter to ONLY Phase 2 tools - prevent Gemini from calling Phase 1 tools
+    let phase2ToolCalls = phase2Response.toolCalls;
+    // Filter to ONLY Phase 2 tools - prevent the model from calling Phase 1 tools
     phase2ToolCalls = phase2ToolCalls.filter(tc =>
       [TOOL_NAMES.UPDATE_POLICY, TOOL_NAMES.PROPOSE_PARTNERSHIP, TOOL_NAMES.KILL_PARTNERSHIP].includes(tc.name as any)
     );
     let phase2Iteration = 0;
-    const maxPhase2Iterations = 3;
+    const maxPhase2Iterations = options.degraded ? 1 : MAX_PHASE_ITERATIONS;
 
     const phase2Actions: Array<{
       tool: string;
@@ -1623,16 +1500,10 @@ Execute your strategy using the available tools.`;
       phase2Iteration++;
       logger.info(`[BRAIN] Phase 2 Iteration ${phase2Iteration}: ${phase2ToolCalls.length} tool(s)`);
 
-      const responseContent = (phase2Response as any).candidates?.[0]?.content?.parts;
-      if (responseContent) {
-        phase2Conversation.push({
-          role: "model",
-          parts: responseContent,
-        });
-      }
+      phase2Conversation.push({ role: "assistant", content: phase2Response.text, toolCalls: phase2ToolCalls });
 
       logger.info(`[BRAIN] Calling Phase 2 tools: ${phase2ToolCalls.map(tc => tc.name).join(', ')}`);
-      const toolResults = await executeToolCalls(phase2ToolCalls, agentId);
+      const toolResults = await session.runTools(phase2ToolCalls, () => executeToolCalls(phase2ToolCalls, agentId));
 
       let hasFailures = false;
       for (let i = 0; i < phase2ToolCalls.length; i++) {
@@ -1653,11 +1524,7 @@ Execute your strategy using the available tools.`;
         }
       }
 
-      for (const toolResult of toolResults) {
-        phase2Conversation.push(
-          createToolResultContent(toolResult.toolName, toolResult.result, toolResult.error)
-        );
-      }
+      phase2Conversation.push(createToolResultMessage(phase2ToolCalls, toolResults));
 
       // If all tools succeeded, don't make another iteration - we're done
       if (!hasFailures) {
@@ -1665,13 +1532,11 @@ Execute your strategy using the available tools.`;
         break;
       }
 
-      // If there were failures, ask Gemini to retry or refine
-      phase2Response = await phase2Model.generateContent({
-        contents: phase2Conversation,
-      });
+      // If there were failures, ask the model to retry or refine
+      phase2Response = await generatePhase2();
 
-      phase2ToolCalls = extractToolCalls(phase2Response);
-      // Filter to ONLY Phase 2 tools - prevent Gemini from calling Phase 1 tools
+      phase2ToolCalls = phase2Response.toolCalls;
+      // Filter to ONLY Phase 2 tools - prevent the model from calling Phase 1 tools
       phase2ToolCalls = phase2ToolCalls.filter(tc =>
         [TOOL_NAMES.UPDATE_POLICY, TOOL_NAMES.PROPOSE_PARTNERSHIP, TOOL_NAMES.KILL_PARTNERSHIP].includes(tc.name as any)
       );
@@ -1696,7 +1561,7 @@ Execute your strategy using the available tools.`;
     const policyChanges = extractPolicyChanges(phase2Actions);
     const partnershipActions = extractPartnershipActions(phase2Actions);
 
-    return {
+    const result = {
       phase1_summary: phase1Results,
       phase2_actions: phase2Actions,
       investor_update: investorUpdate,
@@ -1706,7 +1571,10 @@ Execute your strategy using the available tools.`;
       partnership_actions: partnershipActions,
       investor_update_created: investorUpdate.changes.length > 0,
     };
+    await session.finish(result);
+    return result;
   } catch (error) {
+    await session?.finish(undefined, error);
     logger.error(`[BRAIN] Strategic thinking failed:`, error);
     if (error instanceof Error) {
       logger.error(`[BRAIN] Error: ${error.message}`);
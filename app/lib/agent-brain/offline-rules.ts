@@ -0,0 +1,126 @@
+/**
+ * Offline Brain Rules
+ *
+ * Deterministic stand-in for the model in brainStrategicThinking, used by the
+ * mock LLM provider (no network). It walks the same two phases a real model
+ * does, so QBRs and exception wake-ups exercise the full tool pipeline:
+ *
+ * Phase 1: get_my_stats, then query_market / query_agent for the agent's own
+ *          type and get_current_partnerships.
+ * Phase 2: update_policy with a survival mode picked from the Phase 1 summary
+ *          (balance, win rate, loss streak), and propose_partnership with the
+ *          first listed candidate at the suggested split.
+ */
+
+import { calledTools, lastUserText, mockToolCall, type LlmMessage, type LlmRequest, type LlmResponse, type OfflineResponder } from "@/lib/llm";
+import { TOOL_NAMES } from "@/lib/agent-tools/schemas";
+
+/** Balance below which the agent goes into desperate mode */
+const DESPERATE_BALANCE = 0.1;
+/** Win rate below which the agent goes into survival mode */
+const SURVIVAL_WIN_RATE = 0.2;
+/** Loss streak at which the agent goes into survival mode */
+const SURVIVAL_LOSS_STREAK = 3;
+/** Win rate above which the agent goes back to growth mode */
+const GROWTH_WIN_RATE = 0.5;
+
+/**
+ * Result of an earlier tool call in the conversation
+ */
+function toolResult(messages: LlmMessage[], name: string): Record<string, unknown> | null {
+  for (const message of messages) {
+    if (message.role !== "tool") continue;
+    const found = message.results.find(r => r.name === name && !r.error);
+    if (found) return (found.result || null) as Record<string, unknown> | null;
+  }
+  return null;
+}
+
+function readNumber(text: string, pattern: RegExp): number | null {
+  const match = text.match(pattern);
+  if (!match) return null;
+  const value = parseFloat(match[1]);
+  return isNaN(value) ? null : value;
+}
+
+function phase1(request: LlmRequest): LlmResponse {
+  const called = calledTools(request.messages);
+  if (!called.has(TOOL_NAMES.GET_MY_STATS)) {
+    return { text: "", toolCalls: [mockToolCall(TOOL_NAMES.GET_MY_STATS, { stat_window_rounds: 20 })] };
+  }
+
+  const agentType = toolResult(request.messages, TOOL_NAMES.GET_MY_STATS)?.type as string | undefined;
+  const pending = [
+    agentType && mockToolCall(TOOL_NAMES.QUERY_MARKET, { agent_type: agentType, time_window_rounds: 20 }, 1),
+    mockToolCall(TOOL_NAMES.QUERY_AGENT, {
+      ...(agentType && { current_agent_type: agentType }),
+      min_reputation: 3,
+      min_win_rate: 0.3,
+      exclude_current_partners: true,
+      limit: 10,
+    }, 2),
+    mockToolCall(TOOL_NAMES.GET_CURRENT_PARTNERSHIPS, { include_performance: true }, 3),
+  ].filter((call): call is ReturnType<typeof mockToolCall> => !!call && !called.has(call.name));
+
+  return pending.length > 0
+    ? { text: "", toolCalls: pending }
+    : { text: "Phase 1 data gathered.", toolCalls: [] };
+}
+
+function phase2(request: LlmRequest, activity: string): LlmResponse {
+  // One round of decisions: no retries after tool results come back
+  if (calledTools(request.messages).size > 0) {
+    return { text: "Decisions recorded.", toolCalls: [] };
+  }
+
+  const summary = lastUserText(request.messages);
+  const balance = readNumber(summary, /\*\*Balance:\*\* \$([\d.]+)/);
+  const winRatePct = readNumber(summary, /\*\*Win Rate \(Recent 20\):\*\* ([\d.]+)%/);
+  const lossStreak = readNumber(summary, /\*\*Consecutive Losses:\*\* (\d+)/) ?? 0;
+  const winRate = winRatePct !== null ? winRatePct / 100 : null;
+
+  let mode: string | null = null;
+  if (balance !== null && balance < DESPERATE_BALANCE) mode = "desperate";
+  else if ((winRate !== null && winRate < SURVIVAL_WIN_RATE) || lossStreak >= SURVIVAL_LOSS_STREAK) mode = "survival";
+  else if (winRate !== null && winRate > GROWTH_WIN_RATE) mode = "growth";
+
+  const facts = [
+    balance !== null ? `balance $${balance.toFixed(3)}` : null,
+    winRate !== null ? `win rate ${(winRate * 100).toFixed(1)}%` : null,
+    `${lossStreak} consecutive losses`,
+  ].filter(Boolean).join(", ");
+
+  const toolCalls = [
+    mockToolCall(TOOL_NAMES.UPDATE_POLICY, {
+      policy_updates: mode ? { survival: { mode } } : {},
+      reasoning: mode
+        ? `Offline rules: ${facts} - switching to ${mode} mode.`
+        : `Offline rules: ${facts} - keeping current policy.`,
+      trigger_type: activity === "exception" ? "exception" : "qbr",
+      trigger_details: `Offline ${activity} review`,
+    }),
+  ];
+
+  const candidate = summary.match(/\*\*Name for partnerships:\*\* "([^"]+)"/)?.[1];
+  if (candidate) {
+    const selfPct = readNumber(summary.slice(summary.indexOf(candidate)), /\*\*Suggested Split:\*\* You (\d+)%/) ?? 50;
+    toolCalls.push(mockToolCall(TOOL_NAMES.PROPOSE_PARTNERSHIP, {
+      target_agent_name: candidate,
+      proposed_split_self: selfPct / 100,
+      proposed_split_partner: (100 - selfPct) / 100,
+      reasoning: `Offline rules: ${candidate} is the top cross-type candidate, proposing the suggested ${selfPct}/${100 - selfPct} split.`,
+    }, 1));
+  }
+
+  return { text: "", toolCalls };
+}
+
+/**
+ * Offline responder for one brainStrategicThinking run; the offered tools tell
+ * the phases apart (update_policy is a Phase 2 tool).
+ */
+export function offlineBrainResponder(activity: "brain" | "qbr" | "exception"): OfflineResponder {
+  return (request) => request.tools?.some(t => t.name === TOOL_NAMES.UPDATE_POLICY)
+    ? phase2(request, activity)
+    : phase1(request);
+}
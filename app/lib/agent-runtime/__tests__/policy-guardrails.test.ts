@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { enforcePolicyGuardrails } from '@/lib/agent-runtime/policy-guardrails';
+
+const policy = (bidding: Record<string, unknown>) => ({ bidding: { formula: 'percentage', ...bidding } });
+
+describe('policy guardrails', () => {
+  it('limits a change to a share of the current value', () => {
+    const { policy: applied, violations } = enforcePolicyGuardrails(
+      policy({ target_margin: 0.2, min_margin: 0.1 }),
+      policy({ target_margin: 0.4, min_margin: 0.1 }),
+      'balanced'
+    );
+    expect((applied.bidding as Record<string, number>).target_margin).toBe(0.3);
+    expect(violations.map(v => v.rule)).toEqual(['max_change']);
+  });
+
+  it('bounds the step from a zero value by the absolute floor', () => {
+    const { policy: applied, violations } = enforcePolicyGuardrails(
+      policy({ target_margin: 0.2, min_margin: 0 }),
+      policy({ target_margin: 0.2, min_margin: 0.5 }),
+      'balanced'
+    );
+    expect((applied.bidding as Record<string, number>).min_margin).toBe(0.02);
+    expect(violations).toHaveLength(1);
+    expect(violations[0]).toMatchObject({ field: 'bidding.min_margin', rule: 'max_change', action: 'clamped', applied: 0.02 });
+  });
+
+  it('uses the absolute floor when the relative limit is smaller', () => {
+    const { policy: applied } = enforcePolicyGuardrails(
+      policy({ target_margin: 0.2, min_margin: 0.01 }),
+      policy({ target_margin: 0.2, min_margin: 0.1 }),
+      'balanced'
+    );
+    expect((applied.bidding as Record<string, number>).min_margin).toBe(0.03);
+  });
+
+  it('keeps field bounds over the step limit', () => {
+    // conservative: min_margin >= 0.03, so the 0.02 step from 0 is raised to the minimum
+    const { policy: applied, violations } = enforcePolicyGuardrails(
+      policy({ target_margin: 0.2, min_margin: 0 }),
+      policy({ target_margin: 0.2, min_margin: 0.5 }),
+      'conservative'
+    );
+    expect((applied.bidding as Record<string, number>).min_margin).toBe(0.03);
+    expect(violations.map(v => v.rule)).toEqual(['max_change', 'min']);
+  });
+
+  it('repairs min_margin above target_margin', () => {
+    const { policy: applied, violations } = enforcePolicyGuardrails(
+      policy({ target_margin: 0.2, min_margin: 0.15 }),
+      policy({ target_margin: 0.15, min_margin: 0.2 }),
+      'balanced'
+    );
+    const bidding = applied.bidding as Record<string, number>;
+    expect(bidding.min_margin).toBe(bidding.target_margin);
+    expect(violations.some(v => v.rule === 'invariant' && v.action === 'clamped')).toBe(true);
+  });
+
+  it('rejects values outside an enum', () => {
+    const { violations } = enforcePolicyGuardrails(
+      policy({ target_margin: 0.2 }),
+      policy({ target_margin: 0.2, formula: 'auction' }),
+      'balanced'
+    );
+    expect(violations).toEqual([expect.objectContaining({ field: 'bidding.formula', rule: 'enum', action: 'rejected' })]);
+  });
+});
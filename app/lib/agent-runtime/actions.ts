@@ -10,6 +10,7 @@
 
 import { supabase } from '../supabase';
 import type { ActionResult, AgentCostStructure } from './types';
+import type { CounterpartyEntryType, LedgerRefs } from '../services/ledger/LedgerService';
 import { randomUUID } from 'crypto';
 
 // ============================================================================
@@ -337,11 +338,19 @@ export async function submitWork(
  * Update agent balance in the agents table.
  * Called after earning revenue or spending on tasks/bids.
  *
- * Delta can be positive (revenue) or negative (cost).
+ * Delta can be positive (revenue) or negative (cost). The change is posted
+ * to the ledger as a `type` entry; agents.balance is its projection.
  */
-export async function updateAgentBalance(agentId: string, delta: number): Promise<void> {
+export async function updateAgentBalance(
+  agentId: string,
+  delta: number,
+  type: CounterpartyEntryType,
+  refs?: LedgerRefs
+): Promise<void> {
   try {
-    // Get current balance
+    // Dynamic import: the services' repositories depend on agent-runtime modules
+    const { ledgerService } = await import('../services/ledger/LedgerService');
+
     const { data: agentData, error: fetchError } = await supabase
       .from('agents')
       .select('balance')
@@ -353,17 +362,9 @@ export async function updateAgentBalance(agentId: string, delta: number): Promis
       throw new Error('Agent not found');
     }
 
-    const newBalance = agentData.balance + delta;
-
-    // Update balance
-    const { error: updateError } = await supabase
-      .from('agents')
-      .update({ balance: newBalance })
-      .eq('id', agentId);
-
-    if (updateError) {
-      console.error('Failed to update agent balance:', updateError);
-      throw new Error(`Failed to update balance: ${updateError.message}`);
+    const posted = await ledgerService.post([ledgerService.agentEntry(agentId, type, delta, refs)]);
+    if (delta !== 0 && !posted.balances.has(agentId)) {
+      throw new Error('Failed to update balance: ledger post failed');
     }
   } catch (err) {
     console.error('Exception updating agent balance:', err);
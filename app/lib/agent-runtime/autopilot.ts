@@ -20,9 +20,17 @@ import type {
   AgentCostStructure,
   AgentRuntimeState,
   BidDecision,
+  IntentOfferDecision,
   PartnershipDecision,
   ExceptionTrigger,
+  RoundCapacity,
 } from './types';
+import {
+  PERSONALITY_TASK_CAPACITY,
+  DEFAULT_TASK_CAPACITY,
+  INTENT_MATCH_KEYWORDS,
+  INTENT_MIN_RELEVANCE,
+} from './constants';
 
 // ============================================================================
 // HELPER FUNCTIONS
@@ -109,7 +117,8 @@ const BASE_SCORE = 100;
  * - Agent A: rep=5, bid=$0.07 → score = (100+10)/0.07 = 1571
  * - Agent B: rep=3, bid=$0.065 → score = (100+6)/0.065 = 1631 ← B WINS!
  *
- * Reputation does NOT change from winning/losing - it's a quality rating.
+ * Reputation does NOT change from winning/losing - it's a quality rating,
+ * moved by the grade of each delivered task (see execution/grading.ts).
  *
  * @param reputation - Agent's reputation (0-5 star rating)
  * @param bidAmount - Bid amount in USDC
@@ -174,6 +183,7 @@ export function evaluateAuction(
   if (max_bid < skip_below) {
     return {
       action: "skip",
+      cause: "skip_below",
       reasoning: `Task max_bid ($${max_bid.toFixed(3)}) is below skip threshold ($${skip_below.toFixed(3)}). Not worth bidding.`
     };
   }
@@ -189,6 +199,7 @@ export function evaluateAuction(
     if (state.balance < totalCostIfWin) {
       return {
         action: "skip",
+        cause: "balance",
         reasoning: `Insufficient balance ($${state.balance.toFixed(3)}) to cover task cost ($${taskCost.toFixed(3)}) + bid cost ($${bidSubmissionCost.toFixed(3)}) = $${totalCostIfWin.toFixed(3)}.`
       };
     }
@@ -209,6 +220,7 @@ export function evaluateAuction(
     // Can't even cover all-in cost with minimum margin
     return {
       action: "skip",
+      cause: "margin",
       reasoning: `Cannot cover all-in cost. Need $${minMarginBid.toFixed(3)} for ${(min_margin * 100).toFixed(1)}% margin on $${allInCost.toFixed(3)} all-in cost, but max_bid is $${max_bid.toFixed(3)}. Would lose money.`
     };
   }
@@ -217,6 +229,7 @@ export function evaluateAuction(
   if (state.balance < totalCostIfWin) {
     return {
       action: "skip",
+      cause: "balance",
       reasoning: `Insufficient balance ($${state.balance.toFixed(3)}) to cover task cost ($${taskCost.toFixed(3)}) + bid cost ($${bidSubmissionCost.toFixed(3)}) = $${totalCostIfWin.toFixed(3)}.`
     };
   }
@@ -230,6 +243,114 @@ export function evaluateAuction(
   };
 }
 
+/**
+ * Evaluate a consumer intent and decide whether to make an offer.
+ * Parallel to evaluateAuction, which does the pricing with max_budget as
+ * the ceiling.
+ *
+ * Logic:
+ * 1. Agent type must serve intents (INTENT_MATCH_KEYWORDS: SELLER, CURATION)
+ * 2. Relevance = 40% category match + 60% share of intent tags matched
+ *    (intents without tags are matched on their description words instead)
+ * 3. Skip if relevance < INTENT_MIN_RELEVANCE
+ * 4. Price with evaluateAuction({ max_bid: max_budget })
+ * 5. Return the offer with a proposal_text for the consumer
+ *
+ * @param intent - Consumer intent (category, tags, budget, description)
+ * @param agent - Offering agent (name, type)
+ * @param policy - Agent's bidding policy
+ * @param costs - Agent's cost structure
+ * @param state - Current agent state (balance, reputation, investor_share_bps)
+ * @returns IntentOfferDecision - either offer with price and proposal or skip with cause
+ */
+export function evaluateIntent(
+  intent: { id: string; category: string; tags?: string[] | null; max_budget: number; product_description: string },
+  agent: { name: string; type: string },
+  policy: AgentPolicy,
+  costs: AgentCostStructure,
+  state: { balance: number; reputation: number; investor_share_bps?: number; living_cost_per_round?: number }
+): IntentOfferDecision {
+  const keywords = INTENT_MATCH_KEYWORDS[agent.type as keyof typeof INTENT_MATCH_KEYWORDS];
+  if (!keywords) {
+    return { action: "skip", cause: "no_match", reasoning: `${agent.type} agents do not serve consumer intents.` };
+  }
+
+  // Step 2: Match category and tags against the agent's keywords
+  const words = (text: string) => text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+  const serves = (text: string) => words(text).some(w => keywords.includes(w));
+  const categoryMatch = serves(intent.category || "");
+  const tags = intent.tags && intent.tags.length > 0
+    ? intent.tags
+    : words(intent.product_description).filter(w => w.length >= 3);
+  const matchedTags = tags.filter(serves);
+  const tagShare = tags.length > 0 ? matchedTags.length / tags.length : 0;
+  const relevance = Math.round((0.4 * (categoryMatch ? 1 : 0) + 0.6 * tagShare) * 1000) / 1000;
+
+  // Step 3: Not our line of business
+  if (relevance < INTENT_MIN_RELEVANCE) {
+    return {
+      action: "skip",
+      cause: "no_match",
+      reasoning: `Relevance ${(relevance * 100).toFixed(0)}% is below ${(INTENT_MIN_RELEVANCE * 100).toFixed(0)}% (category "${intent.category}", ${matchedTags.length}/${tags.length} tags matched).`,
+    };
+  }
+
+  // Step 4: Same pricing as a task auction, capped at the consumer's budget
+  const pricing = evaluateAuction({ type: agent.type, max_bid: intent.max_budget, id: intent.id }, policy, costs, state);
+  if (pricing.action === "skip") {
+    return { action: "skip", cause: pricing.cause ?? "margin", reasoning: pricing.reasoning };
+  }
+
+  // Step 5: Proposal for the consumer
+  const role = agent.type === "SELLER" ? "fulfil" : "curate options for";
+  const matched = matchedTags.length > 0 ? ` Matched: ${matchedTags.join(", ")}.` : "";
+  return {
+    action: "offer",
+    price: pricing.amount,
+    relevance,
+    matched_tags: matchedTags,
+    proposal_text: `${agent.name} will ${role} "${intent.product_description}" (${intent.category}) for $${pricing.amount.toFixed(4)}, within your $${intent.max_budget.toFixed(2)} budget.${matched}`,
+    reasoning: `Relevance ${(relevance * 100).toFixed(0)}%. ${pricing.reasoning}`,
+  };
+}
+
+/**
+ * Calculate how many tasks an agent may bid on in one round.
+ *
+ * Policy limit: policy.bidding.max_tasks_per_round, else the personality's
+ * default capacity (volume-chasers take more work, conservatives less).
+ *
+ * Balance limit: every bid could win, so the balance must cover task cost +
+ * bid cost for ALL tasks bid on. floor(balance / (task_cost + bid_cost)).
+ *
+ * @param policy - Agent's policy
+ * @param costs - Agent's cost structure
+ * @param balance - Current balance
+ * @returns RoundCapacity - capacity and which constraint bound it
+ */
+export function calculateRoundCapacity(
+  policy: AgentPolicy,
+  costs: AgentCostStructure,
+  balance: number
+): RoundCapacity {
+  const personality = policy.identity?.personality;
+  const policyLimit = Math.max(0, Math.floor(
+    policy.bidding.max_tasks_per_round
+      ?? (personality ? PERSONALITY_TASK_CAPACITY[personality] : undefined)
+      ?? DEFAULT_TASK_CAPACITY
+  ));
+
+  const costIfWin = calculateTaskCost(costs) + costs.per_bid.bid_submission;
+  const balanceLimit = costIfWin > 0 ? Math.max(0, Math.floor(balance / costIfWin)) : policyLimit;
+
+  return {
+    capacity: Math.min(policyLimit, balanceLimit),
+    policy_limit: policyLimit,
+    balance_limit: balanceLimit,
+    limited_by: balanceLimit < policyLimit ? "balance" : "policy",
+  };
+}
+
 // ============================================================================
 // PARTNERSHIP LOGIC
 // ============================================================================
@@ -557,6 +557,51 @@ export const PERSONALITY_DEFAULTS: Record<string, AgentPolicy> = {
   },
 };
 
+// ============================================================================
+// ROUND CAPACITY
+// ============================================================================
+
+/**
+ * Default tasks per round an agent will bid on, by personality.
+ * Overridden by policy.bidding.max_tasks_per_round; always capped by balance.
+ */
+export const PERSONALITY_TASK_CAPACITY: Record<PersonalityType, number> = {
+  "volume-chaser": 4,
+  "risk-taker": 3,
+  aggressive: 3,
+  opportunist: 2,
+  opportunistic: 2,
+  balanced: 2,
+  "partnership-oriented": 2,
+  "profit-maximizer": 2,
+  conservative: 1,
+};
+
+/** Fallback capacity for unknown personalities */
+export const DEFAULT_TASK_CAPACITY = 2;
+
+// ============================================================================
+// CONSUMER INTENTS
+// ============================================================================
+
+/**
+ * Agent types that answer consumer intents, with the category/tag keywords
+ * they serve. SELLER agents fulfil purchases; CURATION agents recommend.
+ */
+export const INTENT_MATCH_KEYWORDS: Partial<Record<AgentType, string[]>> = {
+  [AgentType.SELLER]: [
+    "electronics", "home", "kitchen", "garden", "sports", "outdoors", "beauty",
+    "toys", "games", "fashion", "apparel", "buy", "order", "purchase", "deal",
+  ],
+  [AgentType.CURATION]: [
+    "gift", "gifts", "recommend", "recommendation", "best", "top", "trending",
+    "compare", "ideas", "collection", "bundle", "curated", "beauty", "home",
+  ],
+};
+
+/** Minimum relevance (0-1) for an agent to make an offer on an intent */
+export const INTENT_MIN_RELEVANCE = 0.3;
+
 // ============================================================================
 // RUNTIME DEFAULTS
 // ============================================================================
@@ -22,6 +22,7 @@ import {
   getPersonalMemoriesByType,
   getImportantLearnings,
 } from './personal-memory';
+import { recallRelevantMemories } from './memory-retrieval';
 import { PERSONALITY_DEFAULTS, AGENT_COSTS } from './constants';
 import type { AgentCostStructure } from './types';
 import { calculateTaskCost, calculateAllInCost, calculateBidScore, DEFAULT_LIVING_COST_PER_ROUND } from './autopilot';
@@ -216,6 +217,16 @@ export async function buildWakeUpContext(
   const exceptionMemories = await getPersonalMemoriesByType(agentId, 'exception_handled', 3);
   const qbrMemories = await getPersonalMemoriesByType(agentId, 'qbr_insight', 3);
 
+  // Relevance-ranked recall over the whole history (skips what is already listed)
+  const listed = [...bidMemories, ...partnershipMemories, ...exceptionMemories, ...qbrMemories, ...keyLearnings, ...industryEvents];
+  const recalledMemories = await recallRelevantMemories(agentId, {
+    triggerType,
+    triggerDetails,
+    agentType: identity.type,
+    state: { ...stateBlock, balance: identity.balance },
+    market: [`price ${marketBlock.price_trend}`, `demand ${marketBlock.demand_trend}`],
+  }, { exclude: new Set(listed.map(m => m.id)) });
+
   // Build "since last change" feedback block
   let sinceLastChange: WakeUpContext['since_last_change'] = null;
   if (state?.last_policy_change_round && state.last_policy_change_round > 0 && state.metrics_at_last_change) {
@@ -282,6 +293,13 @@ export async function buildWakeUpContext(
         narrative: m.narrative,
       })),
     },
+    recalled_memories: recalledMemories.map((m) => ({
+      layer: m.layer,
+      round_number: m.round_number,
+      memory_type: m.memory_type,
+      narrative: m.narrative,
+      reason: m.reason,
+    })),
     economics: economicsBlock,
     since_last_change: sinceLastChange,
     partnerships: partnershipList,
@@ -413,6 +431,15 @@ ${context.personal_memories.recent_exceptions
 `);
   }
 
+  if (context.recalled_memories.length > 0) {
+    sections.push(`## Similar Past Situations
+
+${context.recalled_memories
+  .map((m) => `**Round ${m.round_number}** (${m.layer} ${m.memory_type}): ${m.narrative}`)
+  .join('\n')}
+`);
+  }
+
   if (context.personal_memories.qbr_insights.length > 0) {
     sections.push(`## Previous QBR Insights
 
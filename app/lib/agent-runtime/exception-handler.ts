@@ -204,8 +204,10 @@ export async function handleException(exception: Exception): Promise<void> {
     // Try autonomous strategic thinking, fall back to simulation if not available
     let brainResponse;
     try {
-      const { brainStrategicThinking } = await import("@/lib/agent-brain/gemini-integration");
-      const result = await brainStrategicThinking(agent_id, systemPrompt, userPrompt, historySummary, 'exception');
+      const { brainStrategicThinking } = await import("@/lib/agent-brain/llm-integration");
+      const result = await brainStrategicThinking(agent_id, systemPrompt, userPrompt, historySummary, 'exception', {
+        cassetteKey: `${agent_id}_${type}`,
+      });
 
       logger.info(`[EXCEPTION] Autonomous response complete. Actions: ${result.actions_taken.length}`);
 
@@ -303,6 +305,10 @@ function determineExceptionUrgency(exception: Exception): 'low' | 'medium' | 'hi
       // Medium urgency for win rate drops
       return exception.current_value < 0.1 ? 'high' : 'medium';
 
+    case 'task_failed':
+      // A missed delivery costs a fee and reputation
+      return 'high';
+
     default:
       return 'medium';
   }
@@ -413,6 +419,20 @@ function simulateBrainExceptionResponse(exception: Exception, _context: any) {
       });
       break;
 
+    case "task_failed":
+      // Bid less often, only on tasks worth delivering
+      response.policy_changes = {
+        bidding: {
+          target_margin: 0.20,
+        },
+      };
+      response.changes.push({
+        category: "bidding",
+        description: "Raised target margin after a missed delivery",
+        reasoning: "Missed deadlines cost a penalty fee and reputation",
+      });
+      break;
+
     default:
       response.reasoning = `Emergency response to ${exception.type}`;
   }
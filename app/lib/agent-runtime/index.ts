@@ -9,6 +9,9 @@
 export type {
   PersonalityType,
   AgentPolicy,
+  PolicyTrigger,
+  PolicyFieldChange,
+  PolicyVersion,
   AgentCostStructure,
   AgentRuntimeState,
   AgentIdentity,
@@ -71,6 +74,26 @@ export {
   calculateRunway,
 } from "./state";
 
+// Policy history
+export {
+  diffPolicies,
+  recordPolicyVersion,
+  listPolicyVersions,
+  getPolicyVersion,
+  comparePolicyVersions,
+  rollbackPolicy,
+} from "./policy-history";
+
+// Policy guardrails
+export {
+  DEFAULT_POLICY_GUARDRAILS,
+  PERSONALITY_GUARDRAILS,
+  PolicyGuardrailError,
+  guardrailsFor,
+  enforcePolicyGuardrails,
+} from "./policy-guardrails";
+export type { FieldGuardrail, PolicyInvariant, PolicyGuardrails, GuardrailViolation } from "./policy-guardrails";
+
 // Actions
 export {
   submitBid,
@@ -117,8 +140,18 @@ export {
   getMemoriesInRange,
   markMemoryRecalled,
   getMemoryStats,
+  getConsolidatedSources,
 } from "./personal-memory";
 
+export {
+  recallRelevantMemories,
+  recallQueryTokens,
+  situationTags,
+  tokenize,
+  Bm25Index,
+} from "./memory-retrieval";
+export type { RecallQuery, RecallOptions, RecalledMemory, Bm25Match } from "./memory-retrieval";
+
 export {
   generateIndustryNarrative,
   generatePersonalNarrative,
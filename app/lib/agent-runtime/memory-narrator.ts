@@ -1,30 +1,36 @@
 /**
  * Memory Narrator - LLM-powered narrative generation
  *
- * Generates natural language narratives for memory entries using Gemini.
+ * Generates natural language narratives for memory entries using the LLM
+ * configured for the 'narrator' activity (see lib/llm).
  * - Industry narratives: Market observer perspective (objective, analytical)
  * - Personal narratives: First-person journal entries (reflective, learning-focused)
  *
+ * The fallback narratives double as the offline rules for the mock provider.
+ *
  * Created: 2026-02-06
  */
 
-import { GoogleGenerativeAI, GenerativeModel } from '@google/generative-ai';
 import type { IndustryEventType, PersonalMemoryType, MemoryContext } from './memory-types';
-import { getModelForActivity } from '@/lib/llm-config';
-
-// Initialize Gemini client with proper error handling
-const apiKey = process.env.GOOGLE_API_KEY;
-if (!apiKey) {
-  console.warn('[Memory Narrator] GOOGLE_API_KEY not set - memory narratives will use fallback mode');
+import { getLlmForActivity } from '@/lib/llm';
+
+/** Generate a narrative with the per-activity configured LLM (metered, not charged) */
+async function narrate(prompt: string, fallback: string): Promise<string> {
+  // Dynamic import: the repositories depend on personal-memory, which uses this module
+  const { brainBudgetService } = await import('@/lib/services/budget/BrainBudgetService');
+  const meter = brainBudgetService.meter(null, 'narrator', null);
+  const { provider, model } = await getLlmForActivity('narrator', { onUsage: meter.onUsage });
+  const { text } = await provider.generate({
+    model,
+    messages: [{ role: 'user', content: prompt }],
+    offline: () => ({ text: fallback, toolCalls: [] }),
+  });
+  await brainBudgetService.settle(meter);
+  return text.trim();
 }
 
-const genAI = new GoogleGenerativeAI(apiKey || '');
-
-/** Lazily create model using the per-activity configured LLM */
-async function getModel(): Promise<GenerativeModel> {
-  const modelName = await getModelForActivity('narrator');
-  return genAI.getGenerativeModel({ model: modelName });
-}
+const describeData = (data: Record<string, unknown>) =>
+  Object.entries(data).map(([k, v]) => `${k}: ${v}`).join(', ');
 
 /**
  * Generate narrative for industry events
@@ -50,23 +56,20 @@ Example style:
 
 Your narrative:`;
 
+  // Fallback to basic narrative
+  const fallback = `Round ${roundNumber}: ${eventType} event. ${describeData(data)}`;
+
   try {
-    if (!apiKey) {
-      throw new Error('GOOGLE_API_KEY not configured');
-    }
-    const model = await getModel();
-    const result = await model.generateContent(prompt);
-    const narrative = result.response.text().trim();
+    const narrative = await narrate(prompt, fallback);
     return narrative || `Round ${roundNumber}: ${eventType} occurred. ${JSON.stringify(data)}`;
   } catch (error) {
     const errorMsg = error instanceof Error ? error.message : String(error);
-    if (errorMsg.includes('not configured')) {
+    if (errorMsg.includes('is not set')) {
       console.warn(`[Memory Narrator] API key not set - using fallback narrative for ${eventType}`);
     } else {
       console.error('[Memory Narrator] Failed to generate industry narrative:', errorMsg);
     }
-    // Fallback to basic narrative
-    return `Round ${roundNumber}: ${eventType} event. ${Object.entries(data).map(([k, v]) => `${k}: ${v}`).join(', ')}`;
+    return fallback;
   }
 }
 
@@ -103,22 +106,19 @@ Example style:
 
 Your journal entry:`;
 
+  // Fallback to basic narrative
+  const fallback = `Round ${roundNumber}: I experienced a ${memoryType} event. ${describeData(data)}`;
+
   try {
-    if (!apiKey) {
-      throw new Error('GOOGLE_API_KEY not configured');
-    }
-    const model = await getModel();
-    const result = await model.generateContent(prompt);
-    const narrative = result.response.text().trim();
+    const narrative = await narrate(prompt, fallback);
     return narrative || `Round ${roundNumber}: ${memoryType} - ${JSON.stringify(data)}`;
   } catch (error) {
     const errorMsg = error instanceof Error ? error.message : String(error);
-    if (errorMsg.includes('not configured')) {
+    if (errorMsg.includes('is not set')) {
       console.warn(`[Memory Narrator] API key not set - using fallback narrative for ${memoryType}`);
     } else {
       console.error('[Memory Narrator] Failed to generate personal narrative:', errorMsg);
     }
-    // Fallback to basic narrative
-    return `Round ${roundNumber}: I experienced a ${memoryType} event. ${Object.entries(data).map(([k, v]) => `${k}: ${v}`).join(', ')}`;
+    return fallback;
   }
 }
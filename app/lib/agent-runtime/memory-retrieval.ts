@@ -0,0 +1,300 @@
+/**
+ * Memory Retrieval - relevance-ranked recall over agent memories
+ *
+ * Recency lists (getRecentPersonalMemories, getImportantLearnings, ...) only
+ * surface the last few rounds. This module ranks an agent's whole personal
+ * history plus the shared industry history against the current wake-up
+ * (trigger + state + market) with a local BM25 index, so an agent on a losing
+ * streak recalls the streak it handled 40 rounds ago. No network, no
+ * embeddings: documents are the narrative, the memory type and the
+ * structured data, plus situation tags derived from the data's numbers.
+ *
+ * Recalled personal memories are marked with markMemoryRecalled(id, reason).
+ *
+ * Created: 2026-02-21
+ */
+
+import { supabase } from '@/lib/supabase';
+import type { EventSeverity, IndustryMemoryEntry, PersonalMemoryEntry } from './memory-types';
+import { markMemoryRecalled } from './personal-memory';
+
+// ============================================================================
+// TOKENIZING
+// ============================================================================
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'been', 'but', 'by', 'for', 'from', 'had', 'has',
+  'have', 'i', 'in', 'is', 'it', 'its', 'my', 'of', 'on', 'or', 'so', 'that', 'the', 'their',
+  'this', 'to', 'was', 'we', 'were', 'with', 'me', 'our', 'now', 'round', 'rounds',
+]);
+
+/**
+ * Lowercase word tokens without stopwords or bare numbers. snake_case words
+ * are kept whole and also split ("consecutive_losses" -> itself,
+ * "consecutive", "losses") so field names match prose.
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const word of text.toLowerCase().match(/[a-z0-9_]+/g) || []) {
+    if (/^[0-9_]+$/.test(word)) continue;
+    const parts = word.split('_').filter(p => p.length > 1 && !/^[0-9]+$/.test(p));
+    if (parts.length > 1) tokens.push(word);
+    for (const part of parts) {
+      if (!STOPWORDS.has(part)) tokens.push(part);
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Situation tags for a set of numeric fields (memory data or live state), so
+ * "consecutive_losses: 6" and a live 5-loss streak share a term
+ */
+export function situationTags(fields: Record<string, unknown>): string[] {
+  const num = (...keys: string[]) => {
+    for (const key of keys) {
+      const value = fields[key];
+      if (typeof value === 'number' && Number.isFinite(value)) return value;
+    }
+    return null;
+  };
+
+  const tags: string[] = [];
+  const losses = num('consecutive_losses');
+  if (losses !== null && losses >= 3) tags.push('losing_streak');
+  const wins = num('consecutive_wins');
+  if (wins !== null && wins >= 3) tags.push('winning_streak');
+  const winRate = num('win_rate', 'current_win_rate', 'win_rate_last_20');
+  if (winRate !== null && winRate <= 1) {
+    if (winRate < 0.2) tags.push('low_win_rate');
+    else if (winRate > 0.6) tags.push('high_win_rate');
+  }
+  const runway = num('runway_rounds');
+  if (runway !== null && runway < 20) tags.push('short_runway');
+  const balance = num('balance');
+  if (balance !== null && balance < 0.1) tags.push('low_balance');
+  return tags;
+}
+
+function dataText(data: Record<string, unknown>, depth = 0): string {
+  if (depth > 2) return '';
+  return Object.entries(data || {}).map(([key, value]) => {
+    if (typeof value === 'string') return `${key} ${value}`;
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      return `${key} ${dataText(value as Record<string, unknown>, depth + 1)}`;
+    }
+    return key;
+  }).join(' ');
+}
+
+// ============================================================================
+// BM25
+// ============================================================================
+
+export interface Bm25Match<T> {
+  item: T;
+  score: number;
+  /** Query terms found in the document, best contributors first */
+  matchedTerms: string[];
+}
+
+/**
+ * Okapi BM25 over an in-memory document set
+ */
+export class Bm25Index<T> {
+  private readonly docs: Array<{ item: T; tf: Map<string, number>; length: number }> = [];
+  private readonly df = new Map<string, number>();
+  private totalLength = 0;
+
+  constructor(private readonly k1 = 1.2, private readonly b = 0.75) {}
+
+  add(item: T, tokens: string[]): void {
+    const tf = new Map<string, number>();
+    for (const t of tokens) tf.set(t, (tf.get(t) || 0) + 1);
+    for (const t of tf.keys()) this.df.set(t, (this.df.get(t) || 0) + 1);
+    this.docs.push({ item, tf, length: tokens.length });
+    this.totalLength += tokens.length;
+  }
+
+  get size(): number {
+    return this.docs.length;
+  }
+
+  search(queryTokens: string[], limit: number): Bm25Match<T>[] {
+    const n = this.docs.length;
+    if (n === 0) return [];
+    const avgLength = this.totalLength / n || 1;
+    const terms = [...new Set(queryTokens)];
+
+    const matches: Bm25Match<T>[] = [];
+    for (const doc of this.docs) {
+      const contributions: Array<[string, number]> = [];
+      for (const term of terms) {
+        const f = doc.tf.get(term);
+        if (!f) continue;
+        const df = this.df.get(term) || 0;
+        const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+        const norm = f + this.k1 * (1 - this.b + this.b * (doc.length / avgLength));
+        contributions.push([term, idf * (f * (this.k1 + 1)) / norm]);
+      }
+      if (contributions.length === 0) continue;
+      contributions.sort((x, y) => y[1] - x[1]);
+      matches.push({
+        item: doc.item,
+        score: contributions.reduce((sum, [, s]) => sum + s, 0),
+        matchedTerms: contributions.map(([term]) => term),
+      });
+    }
+    return matches.sort((x, y) => y.score - x.score).slice(0, limit);
+  }
+}
+
+// ============================================================================
+// RECALL
+// ============================================================================
+
+/** What the agent is facing right now */
+export interface RecallQuery {
+  triggerType: string;
+  triggerDetails: string;
+  agentType: string;
+  /** Live numbers (consecutive_losses, win_rate_last_20, runway_rounds, balance, ...) */
+  state: Record<string, unknown>;
+  /** Market words (price trend, demand trend, ...) */
+  market?: string[];
+}
+
+export interface RecalledMemory {
+  id: string;
+  layer: 'personal' | 'industry';
+  round_number: number;
+  memory_type: string;
+  narrative: string;
+  data: Record<string, unknown>;
+  score: number;
+  matched_terms: string[];
+  /** Human-readable explanation, also stored by markMemoryRecalled */
+  reason: string;
+}
+
+export interface RecallOptions {
+  /** Memories to return (default 5) */
+  limit?: number;
+  /** Ids already in the context (recency lists) */
+  exclude?: Set<string>;
+  /** Personal / industry memories to index (default 300 / 100, newest first) */
+  personalPool?: number;
+  industryPool?: number;
+  /** Update times_recalled / last_recall_reason (default true) */
+  mark?: boolean;
+}
+
+const SEVERITY_WEIGHT: Record<EventSeverity, number> = {
+  low: 0.75,
+  normal: 1,
+  high: 1.25,
+  critical: 1.5,
+};
+
+export function recallQueryTokens(query: RecallQuery): string[] {
+  return [
+    ...tokenize(`${query.triggerType} ${query.triggerDetails} ${query.agentType}`),
+    ...situationTags(query.state),
+    ...tokenize((query.market || []).join(' ')),
+  ];
+}
+
+function personalTokens(m: PersonalMemoryEntry): string[] {
+  return [
+    ...tokenize(`${m.memory_type} ${m.trigger_context || ''} ${m.narrative} ${dataText(m.data)}`),
+    ...situationTags(m.data || {}),
+  ];
+}
+
+function industryTokens(e: IndustryMemoryEntry): string[] {
+  return [
+    ...tokenize(`${e.event_type} ${e.severity} ${e.narrative} ${dataText(e.data)}`),
+    ...situationTags(e.data || {}),
+  ];
+}
+
+/**
+ * Rank an agent's personal memories and the industry memories against the
+ * current situation. Personal scores are weighted by importance, industry
+ * scores by severity. Lookup failures yield an empty recall, never an error.
+ */
+export async function recallRelevantMemories(
+  agentId: string,
+  query: RecallQuery,
+  options: RecallOptions = {}
+): Promise<RecalledMemory[]> {
+  const limit = options.limit ?? 5;
+  const exclude = options.exclude ?? new Set<string>();
+
+  try {
+    const [personal, industry] = await Promise.all([
+      supabase
+        .from('agent_memories')
+        .select('*')
+        .eq('agent_id', agentId)
+        .is('archived_at', null)
+        .order('created_at', { ascending: false })
+        .limit(options.personalPool ?? 300),
+      supabase
+        .from('industry_memory')
+        .select('*')
+        .order('round_number', { ascending: false })
+        .limit(options.industryPool ?? 100),
+    ]);
+
+    if (personal.error) console.error('[Memory Retrieval] Failed to load personal memories:', personal.error);
+    if (industry.error) console.error('[Memory Retrieval] Failed to load industry memories:', industry.error);
+
+    const index = new Bm25Index<{ layer: 'personal'; entry: PersonalMemoryEntry } | { layer: 'industry'; entry: IndustryMemoryEntry }>();
+    for (const m of (personal.data || []) as PersonalMemoryEntry[]) {
+      if (!exclude.has(m.id)) index.add({ layer: 'personal', entry: m }, personalTokens(m));
+    }
+    for (const e of (industry.data || []) as IndustryMemoryEntry[]) {
+      if (!exclude.has(e.id)) index.add({ layer: 'industry', entry: e }, industryTokens(e));
+    }
+
+    const queryTokens = recallQueryTokens(query);
+    const recalled = index.search(queryTokens, index.size)
+      .map(({ item, score, matchedTerms }): RecalledMemory => {
+        const weight = item.layer === 'personal'
+          ? 0.5 + (item.entry.importance_score ?? 0.5)
+          : SEVERITY_WEIGHT[item.entry.severity] ?? 1;
+        const weighted = score * weight;
+        const weightLabel = item.layer === 'personal'
+          ? `importance ${(item.entry.importance_score ?? 0.5).toFixed(2)}`
+          : `severity ${item.entry.severity}`;
+        return {
+          id: item.entry.id,
+          layer: item.layer,
+          round_number: item.entry.round_number,
+          memory_type: item.layer === 'personal' ? item.entry.memory_type : item.entry.event_type,
+          narrative: item.entry.narrative,
+          data: item.entry.data,
+          score: weighted,
+          matched_terms: matchedTerms.slice(0, 5),
+          reason: `${query.triggerType} recall: matched ${matchedTerms.slice(0, 5).join(', ')} `
+            + `(bm25 ${score.toFixed(2)}, ${weightLabel})`,
+        };
+      })
+      .sort((x, y) => y.score - x.score)
+      .slice(0, limit);
+
+    if (options.mark !== false) {
+      await Promise.all(
+        recalled
+          .filter(m => m.layer === 'personal')
+          .map(m => markMemoryRecalled(m.id, m.reason))
+      );
+    }
+
+    return recalled;
+  } catch (error) {
+    console.error('[Memory Retrieval] Error recalling memories:', error);
+    return [];
+  }
+}
@@ -68,6 +68,9 @@ export interface PersonalMemoryEntry {
   importance_score: number;        // 0.00-1.00
   times_recalled: number;
   last_recalled_at: string | null;
+  last_recall_reason: string | null; // why it was last recalled (memory-retrieval.ts)
+  archived_at: string | null;        // set by consolidation; archived memories leave the brain context
+  consolidated_into: string | null;  // the learning this memory was consolidated into
   created_at: string;
 }
 
@@ -62,17 +62,23 @@ export async function createPersonalMemory(
 
 /**
  * Get recent personal memories for an agent
- * Returns memories ordered by creation time (newest first)
+ * Returns memories ordered by creation time (newest first); archived
+ * (consolidated or forgotten) memories only with includeArchived
  */
 export async function getRecentPersonalMemories(
   agentId: string,
-  limit: number = 10
+  limit: number = 10,
+  includeArchived: boolean = false
 ): Promise<PersonalMemoryEntry[]> {
   try {
-    const { data, error } = await supabase
+    let query = supabase
       .from('agent_memories')
       .select('*')
-      .eq('agent_id', agentId)
+      .eq('agent_id', agentId);
+    if (!includeArchived) {
+      query = query.is('archived_at', null);
+    }
+    const { data, error } = await query
       .order('created_at', { ascending: false })
       .limit(limit);
 
@@ -101,6 +107,7 @@ export async function getPersonalMemoriesByType(
       .from('agent_memories')
       .select('*')
       .eq('agent_id', agentId)
+      .is('archived_at', null)
       .eq('memory_type', type)
       .order('created_at', { ascending: false })
       .limit(limit);
@@ -130,6 +137,7 @@ export async function getImportantLearnings(
       .from('agent_memories')
       .select('*')
       .eq('agent_id', agentId)
+      .is('archived_at', null)
       .in('memory_type', ['learning', 'qbr_insight'])
       .order('importance_score', { ascending: false })
       .limit(limit);
@@ -146,6 +154,33 @@ export async function getImportantLearnings(
   }
 }
 
+/**
+ * Source memories a consolidated learning was built from (oldest first)
+ */
+export async function getConsolidatedSources(
+  agentId: string,
+  learningId: string
+): Promise<PersonalMemoryEntry[]> {
+  try {
+    const { data, error } = await supabase
+      .from('agent_memories')
+      .select('*')
+      .eq('agent_id', agentId)
+      .eq('consolidated_into', learningId)
+      .order('round_number', { ascending: true });
+
+    if (error) {
+      console.error('[Personal Memory] Failed to fetch consolidated sources:', error);
+      return [];
+    }
+
+    return (data as PersonalMemoryEntry[]) || [];
+  } catch (error) {
+    console.error('[Personal Memory] Error fetching consolidated sources:', error);
+    return [];
+  }
+}
+
 /**
  * Get memories for a specific round range
  */
@@ -177,9 +212,10 @@ export async function getMemoriesInRange(
 
 /**
  * Mark memory as recalled (updates recency tracking)
- * Called when a memory is used in brain context
+ * Called when a memory is used in brain context; reason records why it was
+ * recalled (see memory-retrieval.ts)
  */
-export async function markMemoryRecalled(memoryId: string): Promise<void> {
+export async function markMemoryRecalled(memoryId: string, reason?: string): Promise<void> {
   try {
     // First, get current times_recalled value
     const { data: current } = await supabase
@@ -199,6 +235,7 @@ export async function markMemoryRecalled(memoryId: string): Promise<void> {
       .update({
         times_recalled: (current.times_recalled || 0) + 1,
         last_recalled_at: new Date().toISOString(),
+        ...(reason !== undefined && { last_recall_reason: reason }),
       })
       .eq('id', memoryId);
 
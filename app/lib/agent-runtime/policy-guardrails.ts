@@ -0,0 +1,325 @@
+/**
+ * Policy Guardrails
+ *
+ * Declarative bounds for brain-written policies. Every update is checked
+ * against three kinds of rules before it is saved:
+ * - field bounds: min / max / integer / enum per dotted policy path
+ * - change limits: how far one update may move a field (relative to current,
+ *   with an absolute floor so zero values are bounded too)
+ * - cross-field invariants: e.g. min_margin <= target_margin
+ *
+ * Numeric bound and change-limit violations are clamped; enum violations and
+ * invariants without a repair are rejected. Only fields the update actually
+ * changes are checked, so legacy values elsewhere in a policy are left alone.
+ * Personalities can tighten or loosen individual field rules.
+ */
+
+import { diffPolicies } from "./policy-history";
+import type { PersonalityType } from "./types";
+
+// ============================================================================
+// RULES
+// ============================================================================
+
+export interface FieldGuardrail {
+  min?: number;
+  max?: number;
+  integer?: boolean;
+  enum?: readonly string[];
+  /** Max change per update as a fraction of the current value (0.5 = ±50%) */
+  maxRelativeChange?: number;
+  /** Floor for that max change in the field's own units, so a value at or near 0 still moves in bounded steps */
+  minAbsoluteChange?: number;
+}
+
+export interface PolicyInvariant {
+  id: string;
+  /** Fields the invariant reads; it is checked when any of them changes */
+  fields: string[];
+  description: string;
+  holds: (policy: Record<string, unknown>) => boolean;
+  /** Make the invariant hold by adjusting the policy; without it, violations are rejected */
+  repair?: (policy: Record<string, unknown>) => void;
+}
+
+export interface PolicyGuardrails {
+  fields: Record<string, FieldGuardrail>;
+  invariants: PolicyInvariant[];
+}
+
+export interface GuardrailViolation {
+  field: string;
+  rule: "type" | "min" | "max" | "integer" | "enum" | "max_change" | "invariant";
+  action: "clamped" | "rejected";
+  reason: string;
+  proposed: unknown;
+  applied?: unknown;
+}
+
+/**
+ * Thrown when an update breaks a rule that cannot be clamped. The message
+ * lists every reason so the brain gets it back as the tool error.
+ */
+export class PolicyGuardrailError extends Error {
+  constructor(readonly violations: GuardrailViolation[]) {
+    super(`REJECTED by policy guardrails: ${violations.map(v => v.reason).join(" | ")}`);
+    this.name = "PolicyGuardrailError";
+  }
+}
+
+/** Margins may move at most 50% of their current value per update */
+const MARGIN_MAX_RELATIVE_CHANGE = 0.5;
+/** ...but always by up to 2 points, so a margin at 0 can step up, not jump to the max */
+const MARGIN_MIN_ABSOLUTE_CHANGE = 0.02;
+
+export const DEFAULT_POLICY_GUARDRAILS: PolicyGuardrails = {
+  fields: {
+    "bidding.target_margin": {
+      min: 0.01, max: 0.5, maxRelativeChange: MARGIN_MAX_RELATIVE_CHANGE, minAbsoluteChange: MARGIN_MIN_ABSOLUTE_CHANGE,
+    },
+    "bidding.min_margin": {
+      min: 0, max: 0.5, maxRelativeChange: MARGIN_MAX_RELATIVE_CHANGE, minAbsoluteChange: MARGIN_MIN_ABSOLUTE_CHANGE,
+    },
+    "bidding.skip_below": { min: 0, max: 1 },
+    "bidding.skip_below_profit": { min: 0, max: 0.1 },
+    "bidding.formula": { enum: ["percentage", "fixed"] },
+    "bidding.max_tasks_per_round": { min: 1, max: 10, integer: true },
+    "survival.mode": { enum: ["growth", "survival", "desperate", "conservative"] },
+    "survival.reserve_balance": { min: 0 },
+    "partnerships.auto_accept.min_reputation": { min: 0, max: 5 },
+    "partnerships.auto_accept.min_split": { min: 0, max: 100 },
+    "partnerships.auto_reject.max_reputation": { min: 0, max: 5 },
+    "partnerships.require_brain.high_value_threshold": { min: 0, max: 5 },
+    "partnerships.propose.default_split": { min: 0, max: 100 },
+    "partnerships.propose.min_acceptable_split": { min: 0, max: 100 },
+    "execution.max_cost_per_task": { min: 0 },
+    "execution.quality_threshold": { min: 0, max: 1 },
+    "exceptions.consecutive_losses": { min: 1, max: 50, integer: true },
+    "exceptions.balance_below": { min: 0 },
+    "exceptions.reputation_drop": { min: 0 },
+    "exceptions.win_rate_drop_percent": { min: 0, max: 100 },
+    "qbr.base_frequency_rounds": { min: 1, max: 100, integer: true },
+  },
+  invariants: [
+    {
+      id: "min_margin_le_target",
+      fields: ["bidding.min_margin", "bidding.target_margin"],
+      description: "bidding.min_margin must not exceed bidding.target_margin",
+      holds: (p) => {
+        const b = p.bidding as Record<string, unknown> | undefined;
+        return typeof b?.min_margin !== "number" || typeof b?.target_margin !== "number" || b.min_margin <= b.target_margin;
+      },
+      repair: (p) => {
+        const b = p.bidding as Record<string, number>;
+        b.min_margin = b.target_margin;
+      },
+    },
+    {
+      id: "min_acceptable_split_le_default",
+      fields: ["partnerships.propose.min_acceptable_split", "partnerships.propose.default_split"],
+      description: "partnerships.propose.min_acceptable_split must not exceed partnerships.propose.default_split",
+      holds: (p) => {
+        const propose = (p.partnerships as Record<string, Record<string, unknown>> | undefined)?.propose;
+        return typeof propose?.min_acceptable_split !== "number" || typeof propose?.default_split !== "number" ||
+          propose.min_acceptable_split <= propose.default_split;
+      },
+      repair: (p) => {
+        const propose = (p.partnerships as Record<string, Record<string, number>>).propose;
+        propose.min_acceptable_split = propose.default_split;
+      },
+    },
+    {
+      id: "reject_below_accept",
+      fields: ["partnerships.auto_reject.max_reputation", "partnerships.auto_accept.min_reputation"],
+      description: "partnerships.auto_reject.max_reputation must be below partnerships.auto_accept.min_reputation",
+      holds: (p) => {
+        const partnerships = p.partnerships as Record<string, Record<string, unknown>> | undefined;
+        const reject = partnerships?.auto_reject?.max_reputation;
+        const accept = partnerships?.auto_accept?.min_reputation;
+        return typeof reject !== "number" || typeof accept !== "number" || reject < accept;
+      },
+    },
+  ],
+};
+
+/**
+ * Per-personality field rule overrides, merged over the defaults
+ */
+export const PERSONALITY_GUARDRAILS: Partial<Record<PersonalityType, Record<string, FieldGuardrail>>> = {
+  conservative: {
+    "bidding.target_margin": { min: 0.05, maxRelativeChange: 0.3 },
+    "bidding.min_margin": { min: 0.03, maxRelativeChange: 0.3 },
+  },
+  "risk-taker": {
+    "bidding.target_margin": { maxRelativeChange: 0.75 },
+    "bidding.min_margin": { maxRelativeChange: 0.75 },
+  },
+  aggressive: {
+    "bidding.target_margin": { maxRelativeChange: 0.75 },
+    "bidding.min_margin": { maxRelativeChange: 0.75 },
+  },
+  "partnership-oriented": {
+    "partnerships.auto_accept.min_split": { min: 20, max: 100 },
+  },
+};
+
+/**
+ * Guardrails for a personality (defaults when it has no overrides)
+ */
+export function guardrailsFor(personality: PersonalityType | string | null | undefined): PolicyGuardrails {
+  const overrides = personality ? PERSONALITY_GUARDRAILS[personality as PersonalityType] : undefined;
+  if (!overrides) return DEFAULT_POLICY_GUARDRAILS;
+
+  const fields = { ...DEFAULT_POLICY_GUARDRAILS.fields };
+  for (const [field, rule] of Object.entries(overrides)) {
+    fields[field] = { ...fields[field], ...rule };
+  }
+  return { fields, invariants: DEFAULT_POLICY_GUARDRAILS.invariants };
+}
+
+// ============================================================================
+// ENFORCEMENT
+// ============================================================================
+
+function getPath(policy: Record<string, unknown>, field: string): unknown {
+  let node: unknown = policy;
+  for (const key of field.split(".")) {
+    if (!node || typeof node !== "object") return undefined;
+    node = (node as Record<string, unknown>)[key];
+  }
+  return node;
+}
+
+function setPath(policy: Record<string, unknown>, field: string, value: unknown): void {
+  const keys = field.split(".");
+  let node = policy;
+  for (const key of keys.slice(0, -1)) {
+    node[key] = { ...((node[key] as Record<string, unknown>) || {}) };
+    node = node[key] as Record<string, unknown>;
+  }
+  node[keys[keys.length - 1]] = value;
+}
+
+const round6 = (n: number) => Math.round(n * 1e6) / 1e6;
+
+function checkField(
+  field: string,
+  rule: FieldGuardrail,
+  proposed: unknown,
+  current: unknown
+): { value: unknown; violations: GuardrailViolation[] } {
+  const violations: GuardrailViolation[] = [];
+
+  if (rule.enum) {
+    if (typeof proposed !== "string" || !rule.enum.includes(proposed)) {
+      violations.push({
+        field, rule: "enum", action: "rejected", proposed,
+        reason: `${field} must be one of ${rule.enum.join(", ")} (got ${JSON.stringify(proposed)})`,
+      });
+    }
+    return { value: proposed, violations };
+  }
+
+  if (rule.min === undefined && rule.max === undefined && !rule.integer && rule.maxRelativeChange === undefined) {
+    return { value: proposed, violations };
+  }
+  if (typeof proposed !== "number" || !isFinite(proposed)) {
+    violations.push({
+      field, rule: "type", action: "rejected", proposed,
+      reason: `${field} must be a number (got ${JSON.stringify(proposed)})`,
+    });
+    return { value: proposed, violations };
+  }
+
+  let value = proposed;
+  const clamp = (rule: GuardrailViolation["rule"], next: number, reason: string) => {
+    violations.push({ field, rule, action: "clamped", proposed, applied: round6(next), reason });
+    value = round6(next);
+  };
+
+  if (rule.integer && !Number.isInteger(value)) {
+    clamp("integer", Math.round(value), `${field} must be a whole number; rounded ${value} to ${Math.round(value)}`);
+  }
+  // Step limit first: the field bounds below have the last word
+  if (rule.maxRelativeChange !== undefined && typeof current === "number" && isFinite(current)) {
+    const relative = Math.abs(current) * rule.maxRelativeChange;
+    const limit = Math.max(relative, rule.minAbsoluteChange ?? 0);
+    const bounded = Math.min(current + limit, Math.max(current - limit, value));
+    if (limit > 0 && bounded !== value) {
+      const allowed = limit > relative
+        ? `${round6(limit)}`
+        : `${Math.round(rule.maxRelativeChange * 100)}%`;
+      clamp(
+        "max_change",
+        bounded,
+        `${field} may change by at most ${allowed} per update ` +
+        `(${current} -> ${proposed}); clamped to ${round6(bounded)}`
+      );
+    }
+  }
+  if (rule.min !== undefined && value < rule.min) {
+    clamp("min", rule.min, `${field} ${value} is below the minimum ${rule.min}; clamped to ${rule.min}`);
+  }
+  if (rule.max !== undefined && value > rule.max) {
+    clamp("max", rule.max, `${field} ${value} is above the maximum ${rule.max}; clamped to ${rule.max}`);
+  }
+
+  return { value, violations };
+}
+
+/**
+ * Check a proposed policy against the guardrails for the agent's personality.
+ * Returns the policy with clamps applied and every violation found; callers
+ * reject the update if any violation has action "rejected".
+ */
+export function enforcePolicyGuardrails(
+  current: Record<string, unknown>,
+  proposed: Record<string, unknown>,
+  personality: PersonalityType | string | null | undefined
+): { policy: Record<string, unknown>; violations: GuardrailViolation[] } {
+  const guardrails = guardrailsFor(personality);
+  const policy = JSON.parse(JSON.stringify(proposed)) as Record<string, unknown>;
+  const changed = new Set(diffPolicies(current, proposed).map(c => c.field));
+  const violations: GuardrailViolation[] = [];
+
+  // A whole sub-object added at once (e.g. "survival") counts as changing every rule under it
+  const touches = (field: string) =>
+    [...changed].some(c => c === field || field.startsWith(`${c}.`));
+
+  for (const [field, rule] of Object.entries(guardrails.fields)) {
+    if (!touches(field)) continue;
+    const proposedValue = getPath(policy, field);
+    if (proposedValue === undefined) continue;
+
+    const result = checkField(field, rule, proposedValue, getPath(current, field));
+    violations.push(...result.violations);
+    if (result.value !== proposedValue) setPath(policy, field, result.value);
+  }
+
+  for (const invariant of guardrails.invariants) {
+    if (!invariant.fields.some(touches) || invariant.holds(policy)) continue;
+
+    const before = invariant.fields.map(f => getPath(policy, f));
+    if (invariant.repair) {
+      invariant.repair(policy);
+      violations.push({
+        field: invariant.fields[0],
+        rule: "invariant",
+        action: "clamped",
+        proposed: before[0],
+        applied: getPath(policy, invariant.fields[0]),
+        reason: `${invariant.description}; set ${invariant.fields[0]} to ${JSON.stringify(getPath(policy, invariant.fields[0]))}`,
+      });
+    } else {
+      violations.push({
+        field: invariant.fields[0],
+        rule: "invariant",
+        action: "rejected",
+        proposed: before,
+        reason: `${invariant.description} (got ${invariant.fields.map((f, i) => `${f}=${JSON.stringify(before[i])}`).join(", ")})`,
+      });
+    }
+  }
+
+  return { policy, violations };
+}
@@ -0,0 +1,237 @@
+/**
+ * Policy Version History
+ *
+ * Every write to agent_policies is mirrored into policy_versions with its
+ * trigger, the brain's reasoning and a field-level diff against the previous
+ * version. Versions can be listed, compared, and restored: a rollback writes
+ * the old policy as a new version (trigger "rollback") and logs a
+ * policy_rollback economy event.
+ */
+
+import { supabase } from '../supabase';
+import type { AgentPolicy, PolicyFieldChange, PolicyTrigger, PolicyVersion } from './types';
+
+// ============================================================================
+// DIFF
+// ============================================================================
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Field-level diff between two policies. Nested objects are walked down to
+ * their leaves; arrays and scalars are compared as whole values.
+ */
+export function diffPolicies(before: unknown, after: unknown, prefix = ''): PolicyFieldChange[] {
+  if (!isPlainObject(before) || !isPlainObject(after)) {
+    if (JSON.stringify(before) === JSON.stringify(after)) return [];
+    return [{ field: prefix || '(policy)', old_value: before, new_value: after }];
+  }
+
+  const changes: PolicyFieldChange[] = [];
+  const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+  for (const key of keys) {
+    const field = prefix ? `${prefix}.${key}` : key;
+    const oldValue = before[key];
+    const newValue = after[key];
+    if (isPlainObject(oldValue) && isPlainObject(newValue)) {
+      changes.push(...diffPolicies(oldValue, newValue, field));
+    } else if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+      changes.push({ field, old_value: oldValue, new_value: newValue });
+    }
+  }
+  return changes;
+}
+
+// ============================================================================
+// RECORDING
+// ============================================================================
+
+export interface RecordPolicyVersionInput {
+  agentId: string;
+  /** agent_policies.policy_version after the write */
+  version: number;
+  policy: AgentPolicy | Record<string, unknown>;
+  /** Policy before the write (null for the first version) */
+  previous: AgentPolicy | Record<string, unknown> | null;
+  trigger: PolicyTrigger;
+  triggerDetails?: string;
+  reasoning?: string;
+  restoredFromVersion?: number;
+}
+
+/**
+ * Append a policy version. History must never break a policy write, so
+ * errors are logged and null is returned.
+ */
+export async function recordPolicyVersion(input: RecordPolicyVersionInput): Promise<PolicyVersion | null> {
+  try {
+    const { data, error } = await supabase
+      .from('policy_versions')
+      .upsert({
+        agent_id: input.agentId,
+        version: input.version,
+        policy_json: input.policy,
+        trigger_type: input.trigger,
+        trigger_details: input.triggerDetails ?? null,
+        reasoning: input.reasoning ?? null,
+        diff: diffPolicies(input.previous ?? {}, input.policy),
+        restored_from_version: input.restoredFromVersion ?? null,
+        created_at: new Date().toISOString(),
+      }, { onConflict: 'agent_id,version' })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error recording policy version:', error);
+      return null;
+    }
+    return data as PolicyVersion;
+  } catch (err) {
+    console.error('Exception recording policy version:', err);
+    return null;
+  }
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Policy versions for an agent, newest first
+ */
+export async function listPolicyVersions(
+  agentId: string,
+  options: { limit?: number; offset?: number } = {}
+): Promise<{ versions: PolicyVersion[]; total: number }> {
+  const limit = options.limit ?? 20;
+  const offset = options.offset ?? 0;
+
+  const { data, error, count } = await supabase
+    .from('policy_versions')
+    .select('*', { count: 'exact' })
+    .eq('agent_id', agentId)
+    .order('version', { ascending: false })
+    .range(offset, offset + limit - 1);
+
+  if (error) {
+    throw new Error(`Failed to load policy versions: ${error.message}`);
+  }
+  return { versions: (data || []) as PolicyVersion[], total: count || 0 };
+}
+
+/**
+ * One policy version, or null if the agent has no such version
+ */
+export async function getPolicyVersion(agentId: string, version: number): Promise<PolicyVersion | null> {
+  const { data, error } = await supabase
+    .from('policy_versions')
+    .select('*')
+    .eq('agent_id', agentId)
+    .eq('version', version)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load policy version ${version}: ${error.message}`);
+  }
+  return (data as PolicyVersion | null) ?? null;
+}
+
+/**
+ * Field-level diff between two stored versions of an agent's policy
+ */
+export async function comparePolicyVersions(
+  agentId: string,
+  fromVersion: number,
+  toVersion: number
+): Promise<{ from: PolicyVersion; to: PolicyVersion; changes: PolicyFieldChange[] }> {
+  const [from, to] = await Promise.all([
+    getPolicyVersion(agentId, fromVersion),
+    getPolicyVersion(agentId, toVersion),
+  ]);
+  if (!from) throw new Error(`Policy version ${fromVersion} not found`);
+  if (!to) throw new Error(`Policy version ${toVersion} not found`);
+
+  return { from, to, changes: diffPolicies(from.policy_json, to.policy_json) };
+}
+
+// ============================================================================
+// ROLLBACK
+// ============================================================================
+
+/**
+ * Restore an earlier policy version. The restored policy becomes a new
+ * version (current + 1), recorded with trigger "rollback" and logged as a
+ * policy_rollback event. Throws if the version or the live policy is missing.
+ */
+export async function rollbackPolicy(
+  agentId: string,
+  toVersion: number,
+  reason?: string
+): Promise<PolicyVersion> {
+  const target = await getPolicyVersion(agentId, toVersion);
+  if (!target) {
+    throw new Error(`Policy version ${toVersion} not found`);
+  }
+
+  const { data: current, error: fetchError } = await supabase
+    .from('agent_policies')
+    .select('policy_json, policy_version')
+    .eq('agent_id', agentId)
+    .single();
+
+  if (fetchError || !current) {
+    throw new Error(`Failed to load current policy: ${fetchError?.message || 'not found'}`);
+  }
+  if (current.policy_version === toVersion) {
+    throw new Error(`Policy version ${toVersion} is already the current version`);
+  }
+
+  const newVersion = current.policy_version + 1;
+  const { error: updateError } = await supabase
+    .from('agent_policies')
+    .update({
+      policy_json: target.policy_json,
+      policy_version: newVersion,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('agent_id', agentId);
+
+  if (updateError) {
+    throw new Error(`Failed to restore policy: ${updateError.message}`);
+  }
+
+  const reasoning = reason || `Rolled back to version ${toVersion}`;
+  const recorded = await recordPolicyVersion({
+    agentId,
+    version: newVersion,
+    policy: target.policy_json,
+    previous: current.policy_json,
+    trigger: 'rollback',
+    triggerDetails: `v${current.policy_version} -> v${toVersion}`,
+    reasoning,
+    restoredFromVersion: toVersion,
+  });
+  if (!recorded) {
+    throw new Error(`Policy restored as v${newVersion} but the version could not be recorded`);
+  }
+
+  // Dynamic import: lib/services depends on state.ts, which records versions
+  const { economyService } = await import('@/lib/services');
+  await economyService.createAgentEvent(
+    'policy_rollback',
+    `Policy rolled back from v${current.policy_version} to v${toVersion} (now v${newVersion})`,
+    agentId,
+    undefined,
+    {
+      from_version: current.policy_version,
+      restored_version: toVersion,
+      new_version: newVersion,
+      reasoning,
+      changes: recorded.diff,
+    }
+  );
+
+  return recorded;
+}
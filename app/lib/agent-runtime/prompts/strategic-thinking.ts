@@ -275,6 +275,13 @@ ${bidTable}`);
 ${decisionHistory}`);
   }
 
+  // === SIMILAR PAST SITUATIONS (relevance-ranked recall, not recency) ===
+  if (context.recalled_memories.length > 0) {
+    sections.push(`# SIMILAR PAST SITUATIONS (recalled from your history)
+
+${context.recalled_memories.map(m => `- R${m.round_number} [${m.memory_type}]: ${m.narrative}`).join('\n')}`);
+  }
+
   // === PARTNERSHIPS ===
   if (context.partnerships.length > 0) {
     sections.push(`# ACTIVE PARTNERSHIPS
@@ -48,6 +48,7 @@ import type {
   GetQBRContextOutput,
   CreateInvestorUpdateInput,
 } from "@/types/agent-system";
+import type { BrainCallOptions } from "@/lib/agent-brain/llm-integration";
 import { createRuntimeLogger } from "./logger";
 import { buildWakeUpContext } from "./context-builder";
 import {
@@ -115,9 +116,13 @@ export async function shouldTriggerQBR(
 
 /**
  * Execute QBR for an agent using autonomous strategic thinking
- * The agent receives context and tools, then decides what to do on its own
+ * The agent receives context and tools, then decides what to do on its own.
+ * brainOptions carries the budget governor's model / degraded / onUsage.
  */
-export async function executeQBR(trigger: QBRTrigger): Promise<void> {
+export async function executeQBR(
+  trigger: QBRTrigger,
+  brainOptions: Omit<BrainCallOptions, "cassetteKey"> = {}
+): Promise<void> {
   const { agent_id, trigger_reason, current_round } = trigger;
 
   try {
@@ -147,8 +152,11 @@ export async function executeQBR(trigger: QBRTrigger): Promise<void> {
     // Try autonomous strategic thinking, fall back to simulation if not available
     let brainDecisions;
     try {
-      const { brainStrategicThinking } = await import("@/lib/agent-brain/gemini-integration");
-      const result = await brainStrategicThinking(agent_id, systemPrompt, userPrompt, historySummary, 'qbr');
+      const { brainStrategicThinking } = await import("@/lib/agent-brain/llm-integration");
+      const result = await brainStrategicThinking(agent_id, systemPrompt, userPrompt, historySummary, 'qbr', {
+        ...brainOptions,
+        cassetteKey: `R${current_round}_${agent_id}_qbr`,
+      });
 
       logger.info(`[QBR] Two-phase thinking complete`);
       logger.info(`[QBR] Phase 1: Gathered data on market, partners, performance`);
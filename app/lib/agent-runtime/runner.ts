@@ -344,7 +344,10 @@ export class AgentRunner {
         identity: { personality },
       };
 
-      const version = await savePolicy(agentId, fullPolicy, personality);
+      const version = await savePolicy(agentId, fullPolicy, personality, {
+        trigger: "initial",
+        reasoning: result.reasoning,
+      });
       await recordBrainWakeup(agentId, result.investor_update.brain_cost);
 
       // Store investor update
@@ -9,12 +9,14 @@
  */
 
 import { supabase } from '../supabase';
+import { recordPolicyVersion } from './policy-history';
 import type {
   AgentRuntimeState,
   AgentIdentity,
   AgentPolicy,
   PersonalityType,
-  AgentCostStructure
+  AgentCostStructure,
+  PolicyTrigger
 } from './types';
 import type { Agent } from '@/types/database';
 
@@ -116,7 +118,16 @@ export async function saveRuntimeState(state: AgentRuntimeState): Promise<void>
  * Returns the newly created state.
  */
 export async function initializeRuntimeState(agentId: string): Promise<AgentRuntimeState> {
-  const newState: AgentRuntimeState = {
+  const newState = createInitialRuntimeState(agentId);
+  await saveRuntimeState(newState);
+  return newState;
+}
+
+/**
+ * Fresh runtime state for an agent (not persisted).
+ */
+export function createInitialRuntimeState(agentId: string): AgentRuntimeState {
+  return {
     agent_id: agentId,
     current_round: 0,
     consecutive_losses: 0,
@@ -137,9 +148,6 @@ export async function initializeRuntimeState(agentId: string): Promise<AgentRunt
     last_policy_change_round: 0,
     metrics_at_last_change: null,
   };
-
-  await saveRuntimeState(newState);
-  return newState;
 }
 
 // ============================================================================
@@ -180,12 +188,14 @@ export async function loadPolicy(agentId: string): Promise<{ policy: AgentPolicy
 
 /**
  * Save a policy update to agent_policies table.
- * Increments policy_version and returns the new version number.
+ * Increments policy_version, records the version in policy_versions and
+ * returns the new version number.
  */
 export async function savePolicy(
   agentId: string,
   policy: AgentPolicy,
-  personality: PersonalityType
+  personality: PersonalityType,
+  meta: { trigger: PolicyTrigger; reasoning?: string; triggerDetails?: string } = { trigger: 'initial' }
 ): Promise<number> {
   try {
     // Get current version
@@ -207,6 +217,14 @@ export async function savePolicy(
       throw new Error(`Failed to save policy: ${error.message}`);
     }
 
+    await recordPolicyVersion({
+      agentId,
+      version: newVersion,
+      policy,
+      previous: current?.policy ?? null,
+      ...meta,
+    });
+
     return newVersion;
   } catch (err) {
     console.error('Exception saving policy:', err);
@@ -273,8 +291,49 @@ export async function loadAgentIdentity(agentId: string): Promise<AgentIdentity
 // ============================================================================
 
 /**
- * Record a bid result and update runtime statistics.
+ * Apply a bid result to runtime statistics (pure, mutates and returns state).
  * Updates consecutive wins/losses, total bids/wins, revenue, costs, and win_rate_last_20.
+ * recentStatuses are the bids_cache statuses of the agent's last 20 bids, newest first.
+ */
+export function applyBidResult(
+  state: AgentRuntimeState,
+  won: boolean,
+  bidAmount: number,
+  revenue: number | undefined,
+  recentStatuses: string[] | null
+): AgentRuntimeState {
+  // Update bid counters
+  state.total_bids += 1;
+
+  if (won) {
+    state.total_wins += 1;
+    state.consecutive_wins += 1;
+    state.consecutive_losses = 0;
+    if (revenue) {
+      state.total_revenue += revenue;
+    }
+  } else {
+    state.consecutive_losses += 1;
+    state.consecutive_wins = 0;
+  }
+
+  // Update costs (bid submission cost)
+  state.total_costs += bidAmount;
+
+  // Recalculate win_rate_last_20
+  if (recentStatuses && recentStatuses.length > 0) {
+    const wins = recentStatuses.filter(s => s === 'WON' || s === 'ACCEPTED').length;
+    state.win_rate_last_20 = wins / recentStatuses.length;
+  } else {
+    // Fallback: use total stats
+    state.win_rate_last_20 = state.total_bids > 0 ? state.total_wins / state.total_bids : 0;
+  }
+
+  return state;
+}
+
+/**
+ * Record a bid result and update runtime statistics.
  * Returns the updated state.
  */
 export async function recordBidResult(
@@ -290,25 +349,6 @@ export async function recordBidResult(
       state = await initializeRuntimeState(agentId);
     }
 
-    // Update bid counters
-    state.total_bids += 1;
-
-    if (won) {
-      state.total_wins += 1;
-      state.consecutive_wins += 1;
-      state.consecutive_losses = 0;
-      if (revenue) {
-        state.total_revenue += revenue;
-      }
-    } else {
-      state.consecutive_losses += 1;
-      state.consecutive_wins = 0;
-    }
-
-    // Update costs (bid submission cost)
-    state.total_costs += bidAmount;
-
-    // Recalculate win_rate_last_20
     // Query last 20 bids from bids_cache
     const { data: recentBids, error: bidsError } = await supabase
       .from('bids_cache')
@@ -317,13 +357,7 @@ export async function recordBidResult(
       .order('created_at', { ascending: false })
       .limit(20);
 
-    if (!bidsError && recentBids && recentBids.length > 0) {
-      const wins = recentBids.filter(b => b.status === 'WON' || b.status === 'ACCEPTED').length;
-      state.win_rate_last_20 = wins / recentBids.length;
-    } else {
-      // Fallback: use total stats
-      state.win_rate_last_20 = state.total_bids > 0 ? state.total_wins / state.total_bids : 0;
-    }
+    applyBidResult(state, won, bidAmount, revenue, bidsError ? null : (recentBids || []).map(b => b.status));
 
     // Save updated state
     await saveRuntimeState(state);
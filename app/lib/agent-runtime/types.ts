@@ -45,6 +45,7 @@ export interface AgentPolicy {
     min_margin: number; // Minimum acceptable margin (0.0-1.0)
     skip_below: number; // Skip auctions with max_bid below this
     formula: "percentage" | "fixed"; // Bidding calculation method
+    max_tasks_per_round?: number; // Max tasks to bid on per round (default: personality capacity)
   };
 
   /** Partnership management rules */
@@ -94,6 +95,44 @@ export interface AgentPolicy {
   };
 }
 
+/**
+ * What produced a policy version
+ * - initial: personality defaults or the first brain-generated policy
+ * - qbr / exception: update_policy during a brain wake-up
+ * - self_update: update_policy outside a QBR or exception
+ * - admin: operator reset (market reset)
+ * - rollback: restored from an earlier version
+ */
+export type PolicyTrigger = "initial" | "qbr" | "exception" | "self_update" | "admin" | "rollback";
+
+/**
+ * One changed leaf between two policies, addressed by dotted path
+ * (e.g. "bidding.target_margin"); undefined means added / removed
+ */
+export interface PolicyFieldChange {
+  field: string;
+  old_value: unknown;
+  new_value: unknown;
+}
+
+/**
+ * A stored policy version (policy_versions table)
+ */
+export interface PolicyVersion {
+  id: string;
+  agent_id: string;
+  version: number;
+  policy_json: AgentPolicy;
+  trigger_type: PolicyTrigger;
+  trigger_details: string | null;
+  reasoning: string | null;
+  /** Field-level diff against the previous version */
+  diff: PolicyFieldChange[];
+  /** For rollbacks: the version that was restored */
+  restored_from_version: number | null;
+  created_at: string;
+}
+
 // ============================================================================
 // COST STRUCTURE
 // ============================================================================
@@ -187,7 +226,48 @@ export interface AgentIdentity {
  */
 export type BidDecision =
   | { action: "bid"; amount: number; reasoning: string }
-  | { action: "skip"; reasoning: string };
+  | { action: "skip"; reasoning: string; cause?: BidSkipCause };
+
+/**
+ * Why the autopilot skipped an auction
+ * - skip_below: task too small for policy
+ * - margin: cannot reach min_margin within max_bid
+ * - balance: cannot afford task + bid cost
+ */
+export type BidSkipCause = "skip_below" | "margin" | "balance";
+
+/**
+ * Autopilot decision for a consumer intent auction
+ * relevance is 0-1 (offers_cache stores it as 0-1000)
+ */
+export type IntentOfferDecision =
+  | {
+      action: "offer";
+      price: number;
+      relevance: number;
+      matched_tags: string[];
+      proposal_text: string;
+      reasoning: string;
+    }
+  | { action: "skip"; reasoning: string; cause: IntentSkipCause };
+
+/**
+ * Why the autopilot skipped an intent
+ * - no_match: agent type doesn't serve intents, or category/tags don't match
+ * - otherwise the pricing causes from evaluateAuction (against max_budget)
+ */
+export type IntentSkipCause = "no_match" | BidSkipCause;
+
+/**
+ * Per-round task capacity for an agent
+ * Policy sets how many tasks it wants; balance sets how many it can afford
+ */
+export interface RoundCapacity {
+  capacity: number; // Tasks the agent may bid on this round
+  policy_limit: number; // From policy (or personality default)
+  balance_limit: number; // Tasks whose costs the balance can cover if all are won
+  limited_by: "policy" | "balance";
+}
 
 /**
  * Autopilot decision for partnership proposals
@@ -205,7 +285,8 @@ export type ExceptionType =
   | "consecutive_losses"
   | "low_balance"
   | "reputation_drop"
-  | "win_rate_drop";
+  | "win_rate_drop"
+  | "task_failed";
 
 /**
  * Exception trigger details
@@ -111,6 +111,15 @@ export interface WakeUpContext {
     }>;
   };
 
+  // === RECALLED MEMORIES (relevance-ranked, see memory-retrieval.ts) ===
+  recalled_memories: Array<{
+    layer: 'personal' | 'industry';
+    round_number: number;
+    memory_type: string;
+    narrative: string;
+    reason: string;
+  }>;
+
   // === ACTIVE PARTNERSHIPS ===
   partnerships: Array<{
     partnerId: string;
@@ -11,6 +11,8 @@
  */
 
 import { supabase } from "@/lib/supabase";
+import { recordPolicyVersion } from "@/lib/agent-runtime/policy-history";
+import { enforcePolicyGuardrails, PolicyGuardrailError } from "@/lib/agent-runtime/policy-guardrails";
 import { AGENT_COSTS } from "@/lib/agent-runtime/constants";
 import {
   calculateAllInCost,
@@ -33,7 +35,7 @@ import type {
  * @returns Confirmation with version number and cost charged
  */
 export async function updatePolicy(input: UpdatePolicyInput): Promise<UpdatePolicyOutput> {
-  const { agent_id, policy_updates, reasoning, trigger_type: _triggerType, trigger_details: _triggerDetails } = input;
+  const { agent_id, policy_updates, reasoning, trigger_type, trigger_details } = input;
 
   // Validate inputs
   if (!reasoning) {
@@ -132,16 +134,29 @@ export async function updatePolicy(input: UpdatePolicyInput): Promise<UpdatePoli
   }
 
   // Deep merge: merge sub-objects (bidding, survival, etc.) instead of replacing them
-  const newPolicy = { ...currentPolicy } as Record<string, unknown>;
+  const mergedPolicy = { ...currentPolicy } as Record<string, unknown>;
   for (const [key, value] of Object.entries(normalizedUpdates)) {
     if (value && typeof value === 'object' && !Array.isArray(value) &&
-        newPolicy[key] && typeof newPolicy[key] === 'object' && !Array.isArray(newPolicy[key])) {
+        mergedPolicy[key] && typeof mergedPolicy[key] === 'object' && !Array.isArray(mergedPolicy[key])) {
       // Deep merge one level: merge into existing sub-object
-      newPolicy[key] = { ...(newPolicy[key] as Record<string, unknown>), ...(value as Record<string, unknown>) };
+      mergedPolicy[key] = { ...(mergedPolicy[key] as Record<string, unknown>), ...(value as Record<string, unknown>) };
     } else {
-      newPolicy[key] = value;
+      mergedPolicy[key] = value;
     }
   }
+
+  // Guardrails: clamp out-of-bounds values, reject what cannot be clamped
+  // (the thrown reason goes back to the brain as the tool error)
+  const guarded = enforcePolicyGuardrails(currentPolicy, mergedPolicy, currentPolicyData?.personality);
+  const rejected = guarded.violations.filter(v => v.action === "rejected");
+  if (rejected.length > 0) {
+    throw new PolicyGuardrailError(rejected);
+  }
+  const guardrail_adjustments = guarded.violations.map(v => ({ field: v.field, reason: v.reason, applied: v.applied }));
+  for (const adjustment of guardrail_adjustments) {
+    warnings.push(`GUARDRAIL: ${adjustment.reason}`);
+  }
+  const newPolicy = guarded.policy;
   const brain_cost = 0.01; // Cost of LLM call that generated this decision
 
   let newPolicyVersion;
@@ -188,6 +203,16 @@ export async function updatePolicy(input: UpdatePolicyInput): Promise<UpdatePoli
     throw new Error(`Failed to create policy version: ${updateError?.message}`);
   }
 
+  await recordPolicyVersion({
+    agentId: agent_id,
+    version: newPolicyVersion.policy_version,
+    policy: newPolicy,
+    previous: currentPolicyData ? currentPolicy : null,
+    trigger: trigger_type === "qbr" || trigger_type === "exception" ? trigger_type : "self_update",
+    triggerDetails: trigger_details,
+    reasoning,
+  });
+
   // Fetch updated agent data (balance + type + reputation + investor_share)
   const { data: agent } = await supabase
     .from("agents")
@@ -234,6 +259,7 @@ export async function updatePolicy(input: UpdatePolicyInput): Promise<UpdatePoli
     bid_impact,
     brain_cost,
     balance_after,
+    ...(guardrail_adjustments.length > 0 ? { guardrail_adjustments } : {}),
     ...(warnings.length > 0 ? { warnings } : {}),
   };
 }
@@ -26,16 +26,18 @@
  * - update_policy: agent_id is INJECTED at execution
  *
  * The agent_id parameter is defined in the schema but populated by the
- * execution layer (gemini-integration.ts), NOT by Gemini. This ensures
+ * execution layer (agent-brain/llm-integration.ts), NOT by the model. This ensures
  * tools always operate on the correct agent.
  *
- * Schema Format: Google Generative AI Tool Schema
+ * Schema Format: Google Generative AI Tool Schema (converted for any provider
+ * by toToolDeclarations)
  * Reference: https://ai.google.dev/docs/function-calling
  * Detailed Guide: See TOOL_INTEGRATION_GUIDE.md
  */
 
 import type { Tool } from "@google/generative-ai";
 import { SchemaType } from "@google/generative-ai";
+import type { LlmToolDeclaration } from "@/lib/llm/types";
 
 /**
  * Tool Schema for query_market
@@ -266,7 +268,7 @@ export const updatePolicyToolSchema = {
     {
       name: "update_policy",
       description:
-        "Update agent policy with complete reasoning documentation. Creates new policy version with all changes tracked. Deducts brain cost from balance. agent_id is automatically injected - do NOT include it.",
+        "Update agent policy with complete reasoning documentation. Creates new policy version with all changes tracked. Deducts brain cost from balance. Changes pass policy guardrails: margins may move at most ~50% of their current value per update and min_margin cannot exceed target_margin (out-of-range values are clamped and reported in guardrail_adjustments; invalid values reject the whole update with the reason). agent_id is automatically injected - do NOT include it.",
       parameters: {
         type: SchemaType.OBJECT,
         properties: {
@@ -578,3 +580,15 @@ export const TOOL_NAMES = {
   KILL_PARTNERSHIP: "kill_partnership",
   CREATE_INVESTOR_UPDATE: "create_investor_update",
 } as const;
+
+/**
+ * Flatten tool schemas into provider-agnostic declarations (see lib/llm).
+ * SchemaType values are JSON Schema type names, so parameters carry over as-is.
+ */
+export function toToolDeclarations(schemas: Tool[]): LlmToolDeclaration[] {
+  return schemas.flatMap(tool =>
+    "functionDeclarations" in tool
+      ? ((tool.functionDeclarations || []) as unknown as LlmToolDeclaration[])
+      : []
+  );
+}
@@ -115,7 +115,8 @@ export async function getAgentById(id: string) {
 
 /**
  * Create a new agent
- * Applies default values for optional fields
+ * Applies default values for optional fields. The row starts at balance 0
+ * and the starting balance is posted to the ledger (balance is its projection).
  */
 export async function createAgent(agent: CreateAgentRequest) {
   // Apply default values for required database fields
@@ -123,7 +124,7 @@ export async function createAgent(agent: CreateAgentRequest) {
     name: agent.name,
     type: agent.type,
     status: agent.status || "UNFUNDED",
-    balance: agent.balance ?? 0,
+    balance: 0,
     reputation: agent.reputation ?? 3.0,
     token_price: agent.token_price ?? 0.001,
     tasks_completed: 0,
@@ -137,6 +138,16 @@ export async function createAgent(agent: CreateAgentRequest) {
     .single();
 
   if (error) return { data: null, error };
+
+  const openingBalance = agent.balance ?? 0;
+  if (openingBalance > 0) {
+    // Loaded lazily: the services' Supabase repositories import this module
+    const { ledgerService, ledgerKey } = await import("./services");
+    data.balance = await ledgerService.transfer(data.id, "opening_balance", openingBalance, {
+      idempotencyKey: ledgerKey("agent", data.id, "opening"),
+    });
+  }
+
   return { data: data as Agent, error: null };
 }
 
@@ -247,10 +258,13 @@ export async function getAllTasks(options?: {
  * When include_bids is true, joins bids_cache with nested agent data
  */
 export async function getTaskById(id: string, options?: { include_bids?: boolean }) {
+  // Deliverables (one per delivered winning bid) are always included, oldest first
+  const deliverablesSelect = "task_deliverables(id, bid_id, agent_id, task_type, content, source, model, quality_score, grade, revisions, created_at)";
+
   if (options?.include_bids) {
     const { data, error } = await supabase
       .from("tasks")
-      .select("*, agents(*), bids_cache!bids_cache_task_id_fkey(id, agent_id, bidder_wallet, amount, status, estimated_duration, proposal_uri, created_at, agents(id, name, type, reputation, wallet_address))")
+      .select(`*, agents(*), bids_cache!bids_cache_task_id_fkey(id, agent_id, bidder_wallet, amount, status, estimated_duration, proposal_uri, created_at, agents(id, name, type, reputation, wallet_address)), ${deliverablesSelect}`)
       .eq("id", id)
       .single();
 
@@ -259,7 +273,7 @@ export async function getTaskById(id: string, options?: { include_bids?: boolean
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const taskData = data as any;
     const mapped = {
-      ...taskData,
+      ...withDeliverables(taskData),
       bids: (taskData.bids_cache || []).sort(
         (a: { amount: number }, b: { amount: number }) => a.amount - b.amount
       ),
@@ -270,12 +284,21 @@ export async function getTaskById(id: string, options?: { include_bids?: boolean
 
   const { data, error } = await supabase
     .from("tasks")
-    .select("*, agents(*)")
+    .select(`*, agents(*), ${deliverablesSelect}`)
     .eq("id", id)
     .single();
 
   if (error) return { data: null, error };
-  return { data: data as Task, error: null };
+  return { data: withDeliverables(data) as Task, error: null };
+}
+
+/** Rename the embedded task_deliverables to `deliverables`, oldest first */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function withDeliverables(taskData: any) {
+  const deliverables = [...(taskData.task_deliverables || [])].sort(
+    (a: { created_at: string }, b: { created_at: string }) => a.created_at.localeCompare(b.created_at)
+  );
+  return { ...taskData, deliverables, task_deliverables: undefined };
 }
 
 /**
@@ -402,7 +425,7 @@ export async function getAllIntents(options?: {
           agent_type: agent?.type || "SELLER",
           proposed_price: offer.price,
           response_text: offer.proposal_text || "",
-          confidence: Math.round((offer.relevance_score || 0) * 100), // Convert 0-1 to percentage
+          confidence: Math.round((offer.relevance_score || 0) / 10), // Convert 0-1000 to percentage
           created_at: offer.submitted_at,
         };
       }).sort(
@@ -413,6 +436,9 @@ export async function getAllIntents(options?: {
       return {
         ...intent,
         responses,
+        winning_response: intent.accepted_offer_id
+          ? responses.find((r: { id: string }) => r.id === intent.accepted_offer_id)
+          : undefined,
         offers_cache: undefined,
       };
     });
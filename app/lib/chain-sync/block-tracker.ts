@@ -1,9 +1,12 @@
 /**
  * Block Tracker
  *
- * Tracks last synced block for each contract in the database
+ * Tracks last synced block (and its hash) for each contract in the database,
+ * and keeps every processed log in chain_sync_logs: the canonical log table
+ * reorg detection reads block hashes from and rollbacks re-derive state from
  */
 
+import type { Log } from 'viem';
 import { supabase } from '../supabase';
 
 export interface SyncState {
@@ -11,6 +14,7 @@ export interface SyncState {
   contract_name: string;
   contract_address: string;
   last_synced_block: number;
+  last_synced_block_hash: string | null;
   last_sync_at: string;
   sync_status: 'idle' | 'syncing' | 'error';
   error_message: string | null;
@@ -35,16 +39,18 @@ export async function getLastSyncedBlock(contractName: string): Promise<bigint>
 }
 
 /**
- * Update the last synced block for a contract
+ * Update the last synced block (and its hash, for reorg checks) for a contract
  */
 export async function updateLastSyncedBlock(
   contractName: string,
-  blockNumber: bigint
+  blockNumber: bigint,
+  blockHash: string | null = null
 ): Promise<void> {
   const { error } = await supabase
     .from('chain_sync_state')
     .update({
       last_synced_block: Number(blockNumber),
+      last_synced_block_hash: blockHash,
       last_sync_at: new Date().toISOString(),
       sync_status: 'idle',
       error_message: null,
@@ -140,6 +146,7 @@ export async function resetSyncState(
     .from('chain_sync_state')
     .update({
       last_synced_block: Number(toBlock),
+      last_synced_block_hash: null,
       sync_status: 'idle',
       error_message: null,
       last_sync_at: new Date().toISOString(),
@@ -153,3 +160,220 @@ export async function resetSyncState(
 
   console.log(`Reset sync state for ${contractName} to block ${toBlock}`);
 }
+
+// ============================================================================
+// Block hashes + canonical log table (reorg handling)
+// ============================================================================
+
+/**
+ * A processed log as stored in chain_sync_logs. uint args are kept as
+ * decimal strings (JSON has no bigint).
+ */
+export interface ChainLogRecord {
+  id: string;
+  contract_name: string;
+  contract_address: string;
+  event_name: string;
+  args: Record<string, unknown>;
+  block_number: number;
+  block_hash: string;
+  tx_hash: string;
+  log_index: number;
+  orphaned_at: string | null;
+}
+
+/** A uint arg of a recorded log (stored as a decimal string) */
+export function uintArg(value: unknown): bigint {
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'bigint') return BigInt(value);
+  throw new Error(`Expected a uint log arg, got ${typeof value}`);
+}
+
+/**
+ * A mined log from getLogs with its event decoded against the contract ABI
+ * (args are positional when the ABI's inputs are unnamed)
+ */
+export type DecodedLog = Log<bigint, number, false> & {
+  eventName?: string;
+  args?: Record<string, unknown> | readonly unknown[];
+};
+
+/**
+ * Decoded arg values as JSON: bigints become decimal strings, arrays and
+ * structs are converted element by element
+ */
+function toJsonArg(value: unknown): unknown {
+  if (typeof value === 'bigint') return value.toString();
+  if (Array.isArray(value)) return value.map(toJsonArg);
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, toJsonArg(v)]));
+  }
+  return value;
+}
+
+/**
+ * Record fetched logs before they are processed. Logs already recorded
+ * (same block hash + log index) are skipped. Positional args are keyed by
+ * their index.
+ */
+export async function recordLogs(contractName: string, logs: readonly DecodedLog[]): Promise<void> {
+  if (logs.length === 0) return;
+
+  const rows = logs.map((log) => ({
+    contract_name: contractName,
+    contract_address: log.address.toLowerCase(),
+    event_name: log.eventName ?? 'unknown',
+    args: Object.fromEntries(Object.entries(log.args ?? {}).map(([key, value]) => [key, toJsonArg(value)])),
+    block_number: Number(log.blockNumber),
+    block_hash: log.blockHash,
+    tx_hash: log.transactionHash,
+    log_index: log.logIndex,
+  }));
+
+  const { error } = await supabase
+    .from('chain_sync_logs')
+    .upsert(rows, { onConflict: 'block_hash,log_index', ignoreDuplicates: true });
+
+  if (error) {
+    console.error(`Error recording ${logs.length} logs for ${contractName}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Block hashes seen by the sync from `fromBlock` up: each contract's last
+ * synced block plus every block a live (non-orphaned) log came from
+ */
+export async function getTrackedBlockHashes(fromBlock: bigint): Promise<Map<bigint, string>> {
+  const hashes = new Map<bigint, string>();
+
+  const { data: states, error: stateError } = await supabase
+    .from('chain_sync_state')
+    .select('last_synced_block, last_synced_block_hash')
+    .gte('last_synced_block', Number(fromBlock))
+    .not('last_synced_block_hash', 'is', null);
+
+  if (stateError) {
+    console.error('Error fetching synced block hashes:', stateError);
+  }
+  for (const state of states || []) {
+    hashes.set(BigInt(state.last_synced_block), state.last_synced_block_hash);
+  }
+
+  const { data: logs, error: logError } = await supabase
+    .from('chain_sync_logs')
+    .select('block_number, block_hash')
+    .gte('block_number', Number(fromBlock))
+    .is('orphaned_at', null);
+
+  if (logError) {
+    console.error('Error fetching log block hashes:', logError);
+  }
+  for (const log of logs || []) {
+    hashes.set(BigInt(log.block_number), log.block_hash);
+  }
+
+  return hashes;
+}
+
+/**
+ * Highest block any contract has synced to
+ */
+export async function getHighestSyncedBlock(): Promise<bigint> {
+  const { data, error } = await supabase
+    .from('chain_sync_state')
+    .select('last_synced_block')
+    .order('last_synced_block', { ascending: false })
+    .limit(1);
+
+  if (error) {
+    console.error('Error fetching highest synced block:', error);
+    return 0n;
+  }
+
+  return BigInt(data?.[0]?.last_synced_block || 0);
+}
+
+/**
+ * Live logs above a block, newest first (the order they are rolled back in)
+ */
+export async function getLogsAfter(blockNumber: bigint): Promise<ChainLogRecord[]> {
+  const { data, error } = await supabase
+    .from('chain_sync_logs')
+    .select('*')
+    .gt('block_number', Number(blockNumber))
+    .is('orphaned_at', null)
+    .order('block_number', { ascending: false })
+    .order('log_index', { ascending: false });
+
+  if (error) {
+    console.error(`Error fetching logs after block ${blockNumber}:`, error);
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Mark a log as no longer on the canonical chain
+ */
+export async function markLogOrphaned(id: string): Promise<void> {
+  const { error } = await supabase
+    .from('chain_sync_logs')
+    .update({ orphaned_at: new Date().toISOString() })
+    .eq('id', id);
+
+  if (error) {
+    console.error(`Error marking log ${id} orphaned:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Live logs of one contract's events whose args contain `args`, oldest
+ * first. `excluding` leaves out the log being rolled back.
+ */
+export async function getCanonicalLogs(
+  contractName: string,
+  eventNames: string[],
+  args: Record<string, string>,
+  excluding?: string
+): Promise<ChainLogRecord[]> {
+  let query = supabase
+    .from('chain_sync_logs')
+    .select('*')
+    .eq('contract_name', contractName)
+    .in('event_name', eventNames)
+    .contains('args', args)
+    .is('orphaned_at', null);
+  if (excluding) query = query.neq('id', excluding);
+
+  const { data, error } = await query
+    .order('block_number', { ascending: true })
+    .order('log_index', { ascending: true });
+
+  if (error) {
+    console.error(`Error fetching canonical ${contractName} logs:`, error);
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Move every contract synced past `blockNumber` back to it
+ */
+export async function rewindSyncState(blockNumber: bigint, blockHash: string | null): Promise<void> {
+  const { error } = await supabase
+    .from('chain_sync_state')
+    .update({
+      last_synced_block: Number(blockNumber),
+      last_synced_block_hash: blockHash,
+      last_sync_at: new Date().toISOString(),
+    })
+    .gt('last_synced_block', Number(blockNumber));
+
+  if (error) {
+    console.error(`Error rewinding sync state to block ${blockNumber}:`, error);
+    throw error;
+  }
+}
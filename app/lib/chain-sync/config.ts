@@ -40,6 +40,12 @@ export const SYNC_CONFIG = {
   // Starting block for historical sync (0 = from genesis)
   START_BLOCK: parseInt(process.env.CHAIN_SYNC_START_BLOCK || '0', 10),
 
+  // Blocks a log must be buried under before it is synced
+  CONFIRMATIONS: parseInt(process.env.CHAIN_SYNC_CONFIRMATIONS || '3', 10),
+
+  // How far below the sync head block hashes are re-checked for reorgs
+  REORG_WINDOW: parseInt(process.env.CHAIN_SYNC_REORG_WINDOW || '64', 10),
+
   // Chain ID
   CHAIN_ID: 10143,
 } as const;
@@ -194,5 +200,7 @@ export function validateConfig(): void {
     pollInterval: `${SYNC_CONFIG.POLL_INTERVAL_MS}ms`,
     chunkSize: SYNC_CONFIG.HISTORICAL_CHUNK_SIZE,
     startBlock: SYNC_CONFIG.START_BLOCK,
+    confirmations: SYNC_CONFIG.CONFIRMATIONS,
+    reorgWindow: SYNC_CONFIG.REORG_WINDOW,
   });
 }
@@ -12,3 +12,4 @@ export {
 export { CONTRACTS, SYNC_CONFIG } from './config';
 export { publicClient, verifyNetwork, checkRpcConnection } from './client';
 export { getAllSyncStates, getLastSyncedBlock, resetSyncState } from './block-tracker';
+export { checkForReorg, type ReorgResult } from './reorg';
@@ -19,6 +19,7 @@ import {
   createReputationChangedEvent,
   createTaskCompletedEvent,
 } from '../economy-events';
+import { getCanonicalLogs, uintArg, type ChainLogRecord } from '../block-tracker';
 
 /**
  * Process AgentRegistered event
@@ -373,3 +374,94 @@ export async function processAgentRegistryEvent(log: Log): Promise<void> {
       console.warn(`Unknown AgentRegistry event: ${eventName}`);
   }
 }
+
+/**
+ * Undo an orphaned AgentRegistry log (reorg). Logs are undone newest first,
+ * so the agent row is in the state this log left it in.
+ */
+export async function revertAgentRegistryEvent(log: ChainLogRecord): Promise<void> {
+  const { args } = log;
+  const chainAgentId = Number(args.agentId);
+
+  switch (log.event_name) {
+    case 'AgentRegistered': {
+      // The agent row stays: it may have been created off-chain first, and a
+      // re-included registration updates it in place
+      const { error } = await supabase
+        .from('agent_token_addresses')
+        .delete()
+        .eq('token_address', String(args.tokenAddress).toLowerCase());
+      if (error) throw error;
+      console.warn(`[AgentRegistry] Registration of agent #${chainAgentId} was orphaned; agent row kept`);
+      break;
+    }
+
+    case 'AgentStatusChanged': {
+      const { error } = await supabase
+        .from('agents')
+        .update({ status: AGENT_STATUS_MAP[Number(args.oldStatus)] || 'UNFUNDED' })
+        .eq('chain_agent_id', chainAgentId);
+      if (error) throw error;
+      break;
+    }
+
+    case 'ReputationUpdated': {
+      const { error } = await supabase
+        .from('agents')
+        .update({ reputation: Number(args.oldReputation) })
+        .eq('chain_agent_id', chainAgentId);
+      if (error) throw error;
+      break;
+    }
+
+    case 'TaskCompleted': {
+      const { data: agent, error: fetchError } = await supabase
+        .from('agents')
+        .select('total_revenue')
+        .eq('chain_agent_id', chainAgentId)
+        .maybeSingle();
+      if (fetchError) throw fetchError;
+      if (!agent) break;
+
+      const { error } = await supabase
+        .from('agents')
+        .update({
+          tasks_completed: Math.max(0, Number(args.totalCompleted) - 1),
+          total_revenue: Math.max(0, agent.total_revenue - weiToNumber(uintArg(args.revenue))),
+        })
+        .eq('chain_agent_id', chainAgentId);
+      if (error) throw error;
+      break;
+    }
+
+    case 'TaskFailed': {
+      const { error } = await supabase
+        .from('agents')
+        .update({ tasks_failed: Math.max(0, Number(args.totalFailed) - 1) })
+        .eq('chain_agent_id', chainAgentId);
+      if (error) throw error;
+      break;
+    }
+
+    case 'AgentWalletUpdated': {
+      const { error } = await supabase
+        .from('agents')
+        .update({ wallet_address: String(args.oldWallet).toLowerCase() })
+        .eq('chain_agent_id', chainAgentId);
+      if (error) throw error;
+      break;
+    }
+
+    case 'AgentMetadataUpdated': {
+      // Back to the previous URI still on the chain
+      const updates = await getCanonicalLogs('AgentRegistry', ['AgentMetadataUpdated'], { agentId: String(args.agentId) }, log.id);
+      const previous = updates.filter((u) => u.block_number <= log.block_number).pop();
+      const { error } = await supabase
+        .from('agents')
+        .update({ metadata_uri: previous ? previous.args.newMetadataURI : null })
+        .eq('chain_agent_id', chainAgentId);
+      if (error) throw error;
+      break;
+    }
+  }
+}
@@ -19,6 +19,7 @@ import {
   createTokenSoldEvent,
   createDividendPaidEvent,
 } from '../economy-events';
+import { getCanonicalLogs, uintArg, type ChainLogRecord } from '../block-tracker';
 
 const GET_PRICE_ABI = [{
   name: 'getCurrentPrice', type: 'function' as const,
@@ -346,3 +347,75 @@ export async function processAgentTokenEvent(log: Log, tokenAddress: string): Pr
       console.warn(`Unknown AgentToken event: ${eventName}`);
   }
 }
+
+/**
+ * Undo an orphaned AgentToken log (reorg). Trades and creator allocations
+ * re-derive the holder's token_holdings_cache row from the trades still on
+ * the chain; the transaction / dividend rows go with the orphaned block.
+ */
+export async function revertAgentTokenEvent(log: ChainLogRecord): Promise<void> {
+  const { args } = log;
+
+  const holderArg = log.event_name === 'TokensPurchased'
+    ? args.buyer
+    : log.event_name === 'TokensSold'
+      ? args.seller
+      : log.event_name === 'CreatorAllocationMinted'
+        ? args.creator
+        : null;
+  if (typeof holderArg !== 'string') return;
+  const holder = holderArg.toLowerCase();
+
+  const agentId = await getAgentIdFromToken(log.contract_address);
+  if (!agentId) return;
+
+  const { data: agent } = await supabase
+    .from('agents')
+    .select('wallet_address')
+    .eq('id', agentId)
+    .single();
+  if (!agent) return;
+
+  // Args are stored as the chain returned them, so the holder matches as-is
+  const [buys, sells, allocations] = await Promise.all([
+    getCanonicalLogs('AgentToken', ['TokensPurchased'], { buyer: holderArg }, log.id),
+    getCanonicalLogs('AgentToken', ['TokensSold'], { seller: holderArg }, log.id),
+    getCanonicalLogs('AgentToken', ['CreatorAllocationMinted'], { creator: holderArg }, log.id),
+  ]);
+  const trades = [...buys, ...sells, ...allocations]
+    .filter((t) => t.contract_address === log.contract_address)
+    .sort((a, b) => a.block_number - b.block_number || a.log_index - b.log_index);
+
+  if (trades.length === 0) {
+    const { error } = await supabase
+      .from('token_holdings_cache')
+      .delete()
+      .eq('investor_wallet', holder)
+      .eq('agent_wallet', agent.wallet_address);
+    if (error) throw error;
+    return;
+  }
+
+  let balance = 0;
+  let invested = 0;
+  for (const trade of trades) {
+    const amount = weiToNumber(uintArg(trade.args.amount));
+    if (trade.event_name === 'TokensSold') {
+      balance -= amount;
+    } else {
+      balance += amount;
+      if (trade.event_name === 'TokensPurchased') invested += weiToNumber(uintArg(trade.args.cost));
+    }
+  }
+
+  const { error } = await supabase
+    .from('token_holdings_cache')
+    .update({
+      token_balance: Math.max(0, balance),
+      total_invested: invested,
+      last_synced_block: trades[trades.length - 1].block_number,
+    })
+    .eq('investor_wallet', holder)
+    .eq('agent_wallet', agent.wallet_address);
+  if (error) throw error;
+}
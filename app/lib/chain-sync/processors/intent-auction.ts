@@ -15,6 +15,7 @@ import {
 } from '../event-processor';
 // INTENT_STATUS_MAP, OFFER_STATUS_MAP available if needed for enum conversions
 import { createEconomyEvent, createAuctionWonEvent } from '../economy-events';
+import { getCanonicalLogs, type ChainLogRecord } from '../block-tracker';
 
 /**
  * Process IntentCreated event
@@ -436,3 +437,84 @@ export async function processIntentAuctionEvent(log: Log): Promise<void> {
       console.warn(`Unknown IntentAuction event: ${eventName}`);
   }
 }
+
+/**
+ * Undo an orphaned IntentAuction log (reorg). Logs are undone newest first,
+ * so the rows are in the state this log left them in.
+ */
+export async function revertIntentAuctionEvent(log: ChainLogRecord): Promise<void> {
+  const { args } = log;
+
+  switch (log.event_name) {
+    case 'IntentCreated': {
+      const chainIntentId = Number(args.intentId);
+      const { error: offersError } = await supabase.from('offers_cache').delete().eq('chain_intent_id', chainIntentId);
+      if (offersError) throw offersError;
+      const { error } = await supabase.from('intents').delete().eq('chain_intent_id', chainIntentId);
+      if (error) throw error;
+      break;
+    }
+
+    case 'OfferSubmitted': {
+      const { error } = await supabase.from('offers_cache').delete().eq('chain_offer_id', Number(args.offerId));
+      if (error) throw error;
+      break;
+    }
+
+    case 'OfferWithdrawn': {
+      const { error } = await supabase
+        .from('offers_cache')
+        .update({ status: 'PENDING' })
+        .eq('chain_offer_id', Number(args.offerId));
+      if (error) throw error;
+      break;
+    }
+
+    case 'AuctionClosed': {
+      const chainIntentId = Number(args.intentId);
+      const { error: intentError } = await supabase
+        .from('intents')
+        .update({ status: 'OPEN', accepted_offer_id: null })
+        .eq('chain_intent_id', chainIntentId);
+      if (intentError) throw intentError;
+
+      // Winner and losers were all PENDING before the close
+      const { error } = await supabase
+        .from('offers_cache')
+        .update({ status: 'PENDING' })
+        .eq('chain_intent_id', chainIntentId)
+        .in('status', ['ACCEPTED', 'REJECTED']);
+      if (error) throw error;
+      break;
+    }
+
+    case 'IntentCancelled': {
+      const { error } = await supabase
+        .from('intents')
+        .update({ status: 'OPEN' })
+        .eq('chain_intent_id', Number(args.intentId));
+      if (error) throw error;
+      break;
+    }
+
+    case 'IntentFulfilled': {
+      const { error } = await supabase
+        .from('intents')
+        .update({ status: 'MATCHED' })
+        .eq('chain_intent_id', Number(args.intentId));
+      if (error) throw error;
+      break;
+    }
+
+    case 'IntentDisputed': {
+      // Disputed after a match or after fulfilment
+      const fulfilled = await getCanonicalLogs('IntentAuction', ['IntentFulfilled'], { intentId: String(args.intentId) }, log.id);
+      const { error } = await supabase
+        .from('intents')
+        .update({ status: fulfilled.length > 0 ? 'FULFILLED' : 'MATCHED' })
+        .eq('chain_intent_id', Number(args.intentId));
+      if (error) throw error;
+      break;
+    }
+  }
+}
@@ -15,6 +15,7 @@ import {
 } from '../event-processor';
 // PARTNERSHIP_STATUS_MAP, PROPOSAL_STATUS_MAP available if needed for enum conversions
 import { createEconomyEvent, createPartnershipEvent } from '../economy-events';
+import { uintArg, type ChainLogRecord } from '../block-tracker';
 
 /**
  * Process ProposalCreated event
@@ -450,3 +451,119 @@ export async function processPartnershipEvent(log: Log): Promise<void> {
       console.warn(`Unknown Partnership event: ${eventName}`);
   }
 }
+
+/**
+ * Undo an orphaned Partnership log (reorg). Logs are undone newest first,
+ * so the rows are in the state this log left them in.
+ */
+export async function revertPartnershipEvent(log: ChainLogRecord): Promise<void> {
+  const { args } = log;
+
+  switch (log.event_name) {
+    case 'ProposalCreated': {
+      const { error } = await supabase
+        .from('partnerships_cache')
+        .delete()
+        .eq('chain_proposal_id', Number(args.proposalId));
+      if (error) throw error;
+      break;
+    }
+
+    case 'ProposalAccepted': {
+      const { error } = await supabase
+        .from('partnerships_cache')
+        .update({ status: 'PROPOSED', chain_partnership_id: null })
+        .eq('chain_proposal_id', Number(args.proposalId));
+      if (error) throw error;
+      break;
+    }
+
+    case 'ProposalRejected': {
+      const { error } = await supabase
+        .from('partnerships_cache')
+        .update({ status: 'PROPOSED' })
+        .eq('chain_proposal_id', Number(args.proposalId));
+      if (error) throw error;
+      break;
+    }
+
+    case 'CounterOfferCreated': {
+      const { error: deleteError } = await supabase
+        .from('partnerships_cache')
+        .delete()
+        .eq('chain_proposal_id', Number(args.counterProposalId));
+      if (deleteError) throw deleteError;
+      const { error } = await supabase
+        .from('partnerships_cache')
+        .update({ status: 'PROPOSED' })
+        .eq('chain_proposal_id', Number(args.originalProposalId));
+      if (error) throw error;
+      break;
+    }
+
+    case 'PartnershipCreated': {
+      // A partnership upserted onto an accepted proposal goes back to the proposal;
+      // one created without a cached proposal is removed
+      const chainPartnershipId = Number(args.partnershipId);
+      const { error: deleteError } = await supabase
+        .from('partnerships_cache')
+        .delete()
+        .eq('chain_partnership_id', chainPartnershipId)
+        .is('chain_proposal_id', null);
+      if (deleteError) throw deleteError;
+      const { error } = await supabase
+        .from('partnerships_cache')
+        .update({ status: 'PROPOSED', chain_partnership_id: null })
+        .eq('chain_partnership_id', chainPartnershipId);
+      if (error) throw error;
+      break;
+    }
+
+    case 'PartnershipDissolved': {
+      const { error } = await supabase
+        .from('partnerships_cache')
+        .update({ status: 'ACTIVE' })
+        .eq('chain_partnership_id', Number(args.partnershipId));
+      if (error) throw error;
+      break;
+    }
+
+    case 'RevenueReceived': {
+      const amount = weiToNumber(uintArg(args.amount));
+      const { data: partnership, error: fetchError } = await supabase
+        .from('partnerships_cache')
+        .select('balance')
+        .eq('chain_partnership_id', Number(args.partnershipId))
+        .maybeSingle();
+      if (fetchError) throw fetchError;
+      if (!partnership) break;
+
+      const { error } = await supabase
+        .from('partnerships_cache')
+        .update({
+          total_revenue: Math.max(0, weiToNumber(uintArg(args.newTotalRevenue)) - amount),
+          balance: Math.max(0, partnership.balance - amount),
+        })
+        .eq('chain_partnership_id', Number(args.partnershipId));
+      if (error) throw error;
+      break;
+    }
+
+    case 'FundsWithdrawn': {
+      const { data: partnership, error: fetchError } = await supabase
+        .from('partnerships_cache')
+        .select('balance')
+        .eq('chain_partnership_id', Number(args.partnershipId))
+        .maybeSingle();
+      if (fetchError) throw fetchError;
+      if (!partnership) break;
+
+      const { error } = await supabase
+        .from('partnerships_cache')
+        .update({ balance: partnership.balance + weiToNumber(uintArg(args.amount)) })
+        .eq('chain_partnership_id', Number(args.partnershipId));
+      if (error) throw error;
+      break;
+    }
+  }
+}
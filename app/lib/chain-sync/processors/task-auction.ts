@@ -15,6 +15,7 @@ import {
 } from '../event-processor';
 import { TASK_TYPE_MAP } from '../config';
 import { createEconomyEvent } from '../economy-events';
+import { getCanonicalLogs, type ChainLogRecord } from '../block-tracker';
 
 /**
  * Process TaskCreated event
@@ -449,3 +450,86 @@ export async function processTaskAuctionEvent(log: Log): Promise<void> {
       console.warn(`Unknown TaskAuction event: ${eventName}`);
   }
 }
+
+/**
+ * Undo an orphaned TaskAuction log (reorg). Logs are undone newest first,
+ * so the rows are in the state this log left them in.
+ */
+export async function revertTaskAuctionEvent(log: ChainLogRecord): Promise<void> {
+  const { args } = log;
+
+  switch (log.event_name) {
+    case 'TaskCreated': {
+      const chainTaskId = Number(args.taskId);
+      const { error: bidsError } = await supabase.from('bids_cache').delete().eq('chain_task_id', chainTaskId);
+      if (bidsError) throw bidsError;
+      const { error } = await supabase.from('tasks').delete().eq('chain_task_id', chainTaskId);
+      if (error) throw error;
+      break;
+    }
+
+    case 'BidSubmitted': {
+      const { error } = await supabase.from('bids_cache').delete().eq('chain_bid_id', Number(args.bidId));
+      if (error) throw error;
+      break;
+    }
+
+    case 'BidWithdrawn': {
+      const { error } = await supabase
+        .from('bids_cache')
+        .update({ status: 'PENDING' })
+        .eq('chain_bid_id', Number(args.bidId));
+      if (error) throw error;
+      break;
+    }
+
+    case 'WinnerSelected': {
+      const chainTaskId = Number(args.taskId);
+      const { error: taskError } = await supabase
+        .from('tasks')
+        .update({ status: 'OPEN', winning_bid_id: null, assigned_at: null })
+        .eq('chain_task_id', chainTaskId);
+      if (taskError) throw taskError;
+
+      // Winner and losers were all PENDING before the selection
+      const { error } = await supabase
+        .from('bids_cache')
+        .update({ status: 'PENDING' })
+        .eq('chain_task_id', chainTaskId)
+        .in('status', ['WON', 'LOST']);
+      if (error) throw error;
+      break;
+    }
+
+    case 'TaskCompleted': {
+      const { error } = await supabase
+        .from('tasks')
+        .update({ status: 'ASSIGNED', output_hash: null, completed_at: null })
+        .eq('chain_task_id', Number(args.taskId));
+      if (error) throw error;
+      break;
+    }
+
+    case 'TaskValidated': {
+      const { error } = await supabase
+        .from('tasks')
+        .update({ status: 'COMPLETED' })
+        .eq('chain_task_id', Number(args.taskId));
+      if (error) throw error;
+      break;
+    }
+
+    case 'TaskCancelled': {
+      // Cancelled from OPEN or ASSIGNED: assigned if a winner is still on the chain
+      const winners = await getCanonicalLogs('TaskAuction', ['WinnerSelected'], { taskId: String(args.taskId) }, log.id);
+      const { error } = await supabase
+        .from('tasks')
+        .update({ status: winners.length > 0 ? 'ASSIGNED' : 'OPEN' })
+        .eq('chain_task_id', Number(args.taskId));
+      if (error) throw error;
+      break;
+    }
+
+    // PaymentReleased only created an economy event (removed by the rollback)
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * Reorg Handling
+ *
+ * The sync only follows the chain to SYNC_CONFIG.CONFIRMATIONS blocks below
+ * the head, but a deeper reorg can still orphan logs that were already
+ * processed. checkForReorg() compares the block hashes the sync recorded
+ * with the chain's; on a mismatch it rolls back every log above the common
+ * ancestor (newest first) and rewinds the sync state so the next pass
+ * re-processes the canonical blocks.
+ */
+
+import { publicClient } from './client';
+import { SYNC_CONFIG } from './config';
+import {
+  getTrackedBlockHashes,
+  getHighestSyncedBlock,
+  getLogsAfter,
+  markLogOrphaned,
+  rewindSyncState,
+  type ChainLogRecord,
+} from './block-tracker';
+import { revertAgentRegistryEvent } from './processors/agent-registry';
+import { revertAgentTokenEvent } from './processors/agent-token';
+import { revertTaskAuctionEvent } from './processors/task-auction';
+import { revertIntentAuctionEvent } from './processors/intent-auction';
+import { revertPartnershipEvent } from './processors/partnership';
+import { supabase } from '../supabase';
+
+export interface ReorgResult {
+  /** Highest block still on the canonical chain */
+  ancestorBlock: bigint;
+  /** Logs rolled back */
+  revertedLogs: number;
+}
+
+/**
+ * Append-only rows written straight from a log, keyed by its tx hash (and
+ * block, where the table has one: off-chain rows can share a tx hash)
+ */
+const LOG_DERIVED_TABLES: { table: string; byBlock: boolean }[] = [
+  { table: 'economy_events', byBlock: true },
+  { table: 'token_transactions', byBlock: true },
+  { table: 'reputation_history', byBlock: true },
+  { table: 'dividends_history', byBlock: true },
+  { table: 'dividend_claims', byBlock: false },
+];
+
+/**
+ * Cache updates that can't be undone by deleting log-derived rows.
+ * Treasury only writes economy events.
+ */
+const REVERTERS: Record<string, (log: ChainLogRecord) => Promise<void>> = {
+  AgentRegistry: revertAgentRegistryEvent,
+  AgentToken: revertAgentTokenEvent,
+  TaskAuction: revertTaskAuctionEvent,
+  IntentAuction: revertIntentAuctionEvent,
+  Partnership: revertPartnershipEvent,
+};
+
+/**
+ * Detect a reorg below the synced head and roll it back.
+ * Returns null when every recorded block is still canonical.
+ */
+export async function checkForReorg(): Promise<ReorgResult | null> {
+  const highest = await getHighestSyncedBlock();
+  if (highest === 0n) return null;
+
+  const windowStart = highest > BigInt(SYNC_CONFIG.REORG_WINDOW)
+    ? highest - BigInt(SYNC_CONFIG.REORG_WINDOW)
+    : 0n;
+  const tracked = await getTrackedBlockHashes(windowStart);
+  if (tracked.size === 0) return null;
+
+  // Hashes chain, so the newest matching block means everything below matches
+  const blocks = [...tracked.keys()].sort((a, b) => (a > b ? -1 : a < b ? 1 : 0));
+  let ancestor: { number: bigint; hash: string | null } | null = null;
+
+  for (const blockNumber of blocks) {
+    const block = await publicClient.getBlock({ blockNumber });
+    if (block.hash === tracked.get(blockNumber)) {
+      ancestor = { number: blockNumber, hash: block.hash };
+      break;
+    }
+  }
+
+  if (ancestor?.number === blocks[0]) return null;
+
+  if (!ancestor) {
+    // Nothing in the window survived: rewind to below the oldest tracked block
+    const lowest = blocks[blocks.length - 1];
+    const fallback = lowest > 0n ? lowest - 1n : 0n;
+    console.error(
+      `[Reorg] No tracked block in the last ${SYNC_CONFIG.REORG_WINDOW} blocks is canonical; ` +
+      `rolling back to ${fallback}`
+    );
+    ancestor = { number: fallback, hash: null };
+  }
+
+  const logs = await getLogsAfter(ancestor.number);
+  console.warn(
+    `[Reorg] Chain reorganized above block ${ancestor.number}; rolling back ${logs.length} logs`
+  );
+
+  for (const log of logs) {
+    await revertLog(log);
+  }
+
+  await rewindSyncState(ancestor.number, ancestor.hash);
+
+  console.log(`[Reorg] Rollback complete, resyncing from block ${ancestor.number + 1n}`);
+  return { ancestorBlock: ancestor.number, revertedLogs: logs.length };
+}
+
+/**
+ * Undo one orphaned log and mark it orphaned
+ */
+async function revertLog(log: ChainLogRecord): Promise<void> {
+  for (const { table, byBlock } of LOG_DERIVED_TABLES) {
+    let query = supabase.from(table).delete().eq('tx_hash', log.tx_hash);
+    if (byBlock) query = query.eq('block_number', log.block_number);
+    const { error } = await query;
+    if (error) throw error;
+  }
+
+  const revert = REVERTERS[log.contract_name];
+  if (revert) {
+    await revert(log);
+  }
+
+  await markLogOrphaned(log.id);
+}
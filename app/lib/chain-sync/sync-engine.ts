@@ -12,7 +12,9 @@ import {
   setSyncingStatus,
   setSyncError,
   getAllSyncStates,
+  recordLogs,
 } from './block-tracker';
+import { checkForReorg } from './reorg';
 import {
   AGENT_REGISTRY_EVENTS,
   AGENT_TOKEN_EVENTS,
@@ -31,6 +33,21 @@ import { syncUsdcBalances } from './processors/usdc-balance';
 import { sleep } from './event-processor';
 import { supabase } from '../supabase';
 
+/**
+ * Latest block with SYNC_CONFIG.CONFIRMATIONS blocks on top of it: the sync
+ * never processes anything newer, so shallow reorgs never reach the cache
+ */
+async function getSafeBlock(): Promise<bigint> {
+  const currentBlock = await getCurrentBlock();
+  const confirmations = BigInt(SYNC_CONFIG.CONFIRMATIONS);
+  return currentBlock > confirmations ? currentBlock - confirmations : 0n;
+}
+
+async function getBlockHash(blockNumber: bigint): Promise<string> {
+  const block = await publicClient.getBlock({ blockNumber });
+  return block.hash;
+}
+
 export class SyncEngine {
   private isRunning = false;
   private knownTokenAddresses = new Set<string>();
@@ -58,7 +75,14 @@ export class SyncEngine {
   async syncHistorical(fromBlock?: bigint): Promise<void> {
     console.log('[SyncEngine] Starting historical sync...');
 
-    const currentBlock = await getCurrentBlock();
+    // Roll back anything a reorg orphaned since the last run
+    try {
+      await checkForReorg();
+    } catch (error) {
+      console.error('[SyncEngine] Reorg check failed:', error);
+    }
+
+    const currentBlock = await getSafeBlock();
     const contracts = [
       { name: 'AgentRegistry', address: CONTRACTS.AGENT_REGISTRY, abi: AGENT_REGISTRY_EVENTS },
       { name: 'TaskAuction', address: CONTRACTS.TASK_AUCTION, abi: TASK_AUCTION_EVENTS },
@@ -101,12 +125,13 @@ export class SyncEngine {
 
           console.log(`[${contract.name}] Processing ${logs.length} logs...`);
 
+          await recordLogs(contract.name, logs);
           for (const log of logs) {
             await this.routeLog(log, contract.address);
           }
 
           // Update last synced block after each chunk
-          await updateLastSyncedBlock(contract.name, toBlockChunk);
+          await updateLastSyncedBlock(contract.name, toBlockChunk, await getBlockHash(toBlockChunk));
         }
 
         console.log(`[${contract.name}] Historical sync complete!`);
@@ -141,7 +166,11 @@ export class SyncEngine {
 
     while (this.isRunning) {
       try {
-        const currentBlock = await getCurrentBlock();
+        // Undo orphaned logs before syncing past them
+        await checkForReorg();
+
+        const currentBlock = await getSafeBlock();
+        let currentBlockHash: string | null = null;
 
         const contracts = [
           { name: 'AgentRegistry', address: CONTRACTS.AGENT_REGISTRY, abi: AGENT_REGISTRY_EVENTS },
@@ -169,12 +198,14 @@ export class SyncEngine {
                 `[${contract.name}] Processing ${logs.length} new events (block ${fromBlock} -> ${currentBlock})`
               );
 
+              await recordLogs(contract.name, logs);
               for (const log of logs) {
                 await this.routeLog(log, contract.address);
               }
             }
 
-            await updateLastSyncedBlock(contract.name, currentBlock);
+            currentBlockHash ??= await getBlockHash(currentBlock);
+            await updateLastSyncedBlock(contract.name, currentBlock, currentBlockHash);
           }
         }
 
@@ -222,6 +253,7 @@ export class SyncEngine {
             toBlock: currentBlock,
           });
 
+          await recordLogs('AgentToken', logs);
           for (const log of logs) {
             await processAgentTokenEvent(log, tokenAddress);
           }
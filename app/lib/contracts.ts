@@ -146,6 +146,13 @@ export const AGENT_REGISTRY_ABI = [
     ],
     outputs: [],
   },
+  {
+    name: "recordTaskFailure",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [{ name: "agentId", type: "uint256" }],
+    outputs: [],
+  },
 ] as const;
 
 export const AGENT_TOKEN_ABI = [
@@ -451,6 +458,30 @@ export async function getTotalAgentsOnChain(): Promise<bigint> {
   return total as bigint;
 }
 
+/**
+ * Record a missed delivery on the agent's registry entry.
+ * Requires OPERATOR_ROLE: signs with DEPLOYER_PRIVATE_KEY.
+ */
+export async function recordTaskFailureOnChain(agentId: bigint): Promise<Hash> {
+  const privateKey = process.env.DEPLOYER_PRIVATE_KEY;
+  if (!privateKey) {
+    throw new Error("DEPLOYER_PRIVATE_KEY is required to record task failures");
+  }
+
+  const walletClient = getWalletClientFromPrivateKey(privateKey);
+  const hash = await walletClient.writeContract({
+    chain: monadTestnet,
+    account: walletClient.account!,
+    address: CONTRACT_ADDRESSES.AGENT_REGISTRY,
+    abi: AGENT_REGISTRY_ABI,
+    functionName: "recordTaskFailure",
+    args: [agentId],
+  });
+
+  await getPublicClient().waitForTransactionReceipt({ hash, timeout: 60_000 });
+  return hash;
+}
+
 // ============================================================================
 // Agent Token Functions
 // ============================================================================
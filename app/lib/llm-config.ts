@@ -1,23 +1,77 @@
 /**
  * Per-Activity LLM Model Configuration
  *
- * Each LLM activity (narrator, brain, qbr, exception, reports) can use
- * a different Gemini model. Reads from simulation_state.llm_models JSONB.
+ * Each LLM activity (narrator, brain, qbr, exception, reports, execution) can use
+ * a different model, and the model picks the provider (Gemini, Anthropic or the
+ * offline mock - see lib/llm). Reads from simulation_state.llm_models JSONB.
+ *
+ * LLM_OFFLINE=true forces the mock model for every activity (tests, offline sims).
  */
 
 import { supabase } from '@/lib/supabase';
+import type { LlmProviderName } from '@/lib/llm/types';
 
 export const DEFAULT_MODEL = 'gemini-2.5-flash-lite';
 
+/** Deterministic rules-based model served by the mock provider (no network) */
+export const MOCK_MODEL = 'mock-rules';
+
 export const AVAILABLE_MODELS = [
-  { id: 'gemini-2.5-flash-lite', label: 'gemini-2.5-flash-lite (fast, cheapest)' },
-  { id: 'gemini-2.0-flash', label: 'gemini-2.0-flash (balanced)' },
-  { id: 'gemini-3-flash-preview', label: 'gemini-3-flash-preview (latest)' },
+  { id: 'gemini-2.5-flash-lite', label: 'gemini-2.5-flash-lite (fast, cheapest)', provider: 'gemini' },
+  { id: 'gemini-2.0-flash', label: 'gemini-2.0-flash (balanced)', provider: 'gemini' },
+  { id: 'gemini-3-flash-preview', label: 'gemini-3-flash-preview (latest)', provider: 'gemini' },
+  { id: 'claude-3-5-haiku-latest', label: 'claude-3.5-haiku (fast)', provider: 'anthropic' },
+  { id: 'claude-sonnet-4-20250514', label: 'claude-sonnet-4 (strongest)', provider: 'anthropic' },
+  { id: MOCK_MODEL, label: 'mock-rules (offline, deterministic)', provider: 'mock' },
 ] as const;
 
 export const AVAILABLE_MODEL_IDS = AVAILABLE_MODELS.map(m => m.id);
 
-export type LlmActivity = 'narrator' | 'brain' | 'qbr' | 'exception' | 'reports';
+/**
+ * Provider serving a model id. Unlisted ids are matched by prefix
+ * (claude-* is Anthropic, mock* the mock), anything else is Gemini.
+ */
+export function providerForModel(modelId: string): LlmProviderName {
+  const listed = AVAILABLE_MODELS.find(m => m.id === modelId);
+  if (listed) return listed.provider;
+  if (modelId.startsWith('claude')) return 'anthropic';
+  if (modelId.startsWith('mock')) return 'mock';
+  return 'gemini';
+}
+
+/** USD per million tokens; used to turn reported token usage into spend */
+export const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'gemini-2.5-flash-lite': { input: 0.10, output: 0.40 },
+  'gemini-2.0-flash': { input: 0.10, output: 0.40 },
+  'gemini-3-flash-preview': { input: 0.50, output: 3.00 },
+  'claude-3-5-haiku-latest': { input: 0.80, output: 4.00 },
+  'claude-sonnet-4-20250514': { input: 3.00, output: 15.00 },
+  [MOCK_MODEL]: { input: 0, output: 0 },
+};
+
+/** Cheapest listed model per provider - the budget governor degrades to these */
+export const CHEAPEST_MODEL: Record<LlmProviderName, string> = {
+  gemini: 'gemini-2.5-flash-lite',
+  anthropic: 'claude-3-5-haiku-latest',
+  mock: MOCK_MODEL,
+};
+
+/**
+ * USD cost of a call. Unlisted models are priced like the most expensive
+ * listed model of their provider, so unknown spend is never under-counted.
+ */
+export function llmCostUsd(modelId: string, inputTokens: number, outputTokens: number): number {
+  const provider = providerForModel(modelId);
+  const price = MODEL_PRICING[modelId] ?? AVAILABLE_MODELS
+    .filter(m => m.provider === provider)
+    .map(m => MODEL_PRICING[m.id])
+    .reduce((max, p) => (p.output > max.output ? p : max), { input: 0, output: 0 });
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
+
+const isOffline = () => process.env.LLM_OFFLINE === 'true' || process.env.LLM_OFFLINE === '1';
+
+export type LlmActivity = 'narrator' | 'brain' | 'qbr' | 'exception' | 'reports' | 'execution';
 
 export const LLM_ACTIVITIES: { key: LlmActivity; label: string }[] = [
   { key: 'narrator', label: 'Memory Narrator' },
@@ -25,6 +79,7 @@ export const LLM_ACTIVITIES: { key: LlmActivity; label: string }[] = [
   { key: 'qbr', label: 'QBR (Quarterly Review)' },
   { key: 'exception', label: 'Exception Response' },
   { key: 'reports', label: 'Industry Reports' },
+  { key: 'execution', label: 'Task Execution' },
 ];
 
 const DEFAULT_LLM_MODELS: Record<LlmActivity, string> = {
@@ -33,6 +88,7 @@ const DEFAULT_LLM_MODELS: Record<LlmActivity, string> = {
   qbr: DEFAULT_MODEL,
   exception: DEFAULT_MODEL,
   reports: DEFAULT_MODEL,
+  execution: DEFAULT_MODEL,
 };
 
 /**
@@ -40,6 +96,8 @@ const DEFAULT_LLM_MODELS: Record<LlmActivity, string> = {
  * Falls back to DEFAULT_MODEL if DB is unavailable or key is missing.
  */
 export async function getModelForActivity(activity: LlmActivity): Promise<string> {
+  if (isOffline()) return MOCK_MODEL;
+
   try {
     const { data, error } = await supabase
       .from('simulation_state')
@@ -80,6 +138,7 @@ export async function getAllLlmModels(): Promise<Record<LlmActivity, string>> {
       qbr: models.qbr || DEFAULT_MODEL,
       exception: models.exception || DEFAULT_MODEL,
       reports: models.reports || DEFAULT_MODEL,
+      execution: models.execution || DEFAULT_MODEL,
     };
   } catch {
     return { ...DEFAULT_LLM_MODELS };
@@ -0,0 +1,98 @@
+/**
+ * Anthropic adapter for the LlmProvider interface
+ *
+ * Maps LlmRequest onto the Messages API: tool declarations become tools with
+ * input_schema, tool results tool_result blocks. Structured output is done by
+ * forcing a single "respond" tool whose input_schema is the response schema;
+ * its input is returned as the JSON reply text.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import type { ContentBlockParam, MessageParam, Tool } from '@anthropic-ai/sdk/resources/messages';
+import type { LlmMessage, LlmProvider, LlmRequest, LlmResponse } from './types';
+
+const DEFAULT_MAX_TOKENS = 4096;
+const RESPOND_TOOL = 'respond';
+
+function toMessages(messages: LlmMessage[]): MessageParam[] {
+  return messages.map((message): MessageParam => {
+    if (message.role === 'user') {
+      return { role: 'user', content: message.content };
+    }
+    if (message.role === 'assistant') {
+      const content: ContentBlockParam[] = [];
+      if (message.content) content.push({ type: 'text', text: message.content });
+      for (const call of message.toolCalls || []) {
+        content.push({ type: 'tool_use', id: call.id, name: call.name, input: call.args });
+      }
+      return { role: 'assistant', content };
+    }
+    return {
+      role: 'user',
+      content: message.results.map((r): ContentBlockParam => ({
+        type: 'tool_result',
+        tool_use_id: r.callId,
+        content: JSON.stringify(r.error ? { error: r.error, success: false } : { result: r.result, success: true }),
+        ...(r.error && { is_error: true }),
+      })),
+    };
+  });
+}
+
+export class AnthropicProvider implements LlmProvider {
+  readonly name = 'anthropic' as const;
+
+  constructor(private readonly apiKey: string | undefined = process.env.ANTHROPIC_API_KEY) {}
+
+  get available(): boolean {
+    return !!this.apiKey;
+  }
+
+  async generate(request: LlmRequest): Promise<LlmResponse> {
+    if (!this.apiKey) {
+      throw new Error('ANTHROPIC_API_KEY environment variable is not set');
+    }
+
+    const tools: Tool[] = request.responseSchema
+      ? [{
+          name: RESPOND_TOOL,
+          description: 'Return the final answer in the required structure',
+          input_schema: { ...request.responseSchema, type: 'object' } as Tool.InputSchema,
+        }]
+      : (request.tools || []).map(t => ({
+          name: t.name,
+          description: t.description,
+          input_schema: { ...t.parameters, type: 'object' } as Tool.InputSchema,
+        }));
+
+    const response = await new Anthropic({ apiKey: this.apiKey }).messages.create({
+      model: request.model,
+      max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      ...(request.temperature !== undefined && { temperature: request.temperature }),
+      ...(request.system && { system: request.system }),
+      messages: toMessages(request.messages),
+      ...(tools.length > 0 && { tools }),
+      ...(request.responseSchema && { tool_choice: { type: 'tool' as const, name: RESPOND_TOOL } }),
+    });
+
+    const text: string[] = [];
+    const toolCalls: LlmResponse['toolCalls'] = [];
+    for (const block of response.content) {
+      if (block.type === 'text') {
+        text.push(block.text);
+      } else if (block.type === 'tool_use') {
+        if (request.responseSchema && block.name === RESPOND_TOOL) {
+          text.push(JSON.stringify(block.input));
+        } else {
+          toolCalls.push({ id: block.id, name: block.name, args: (block.input || {}) as Record<string, unknown> });
+        }
+      }
+    }
+
+    return {
+      text: text.join('\n'),
+      toolCalls,
+      usage: { inputTokens: response.usage.input_tokens, outputTokens: response.usage.output_tokens },
+    };
+  }
+}
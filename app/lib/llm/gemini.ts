@@ -0,0 +1,100 @@
+/**
+ * Gemini adapter for the LlmProvider interface
+ *
+ * Maps LlmRequest onto @google/generative-ai: tool declarations become
+ * functionDeclarations, tool results functionResponse parts, and structured
+ * output uses responseSchema (Gemini cannot combine it with tools, so tools
+ * are dropped when a schema is requested).
+ */
+
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import type { Content, GenerationConfig, Part, Tool } from '@google/generative-ai';
+import type { LlmMessage, LlmProvider, LlmRequest, LlmResponse, LlmToolCall } from './types';
+
+function toContents(messages: LlmMessage[]): Content[] {
+  return messages.map((message): Content => {
+    if (message.role === 'user') {
+      return { role: 'user', parts: [{ text: message.content }] };
+    }
+    if (message.role === 'assistant') {
+      const parts: Part[] = [];
+      if (message.content) parts.push({ text: message.content });
+      for (const call of message.toolCalls || []) {
+        parts.push({ functionCall: { name: call.name, args: call.args } });
+      }
+      return { role: 'model', parts };
+    }
+    return {
+      role: 'user',
+      parts: message.results.map(r => ({
+        functionResponse: {
+          name: r.name,
+          response: r.error ? { error: r.error, success: false } : { result: r.result, success: true },
+        },
+      } as unknown as Part)),
+    };
+  });
+}
+
+export class GeminiProvider implements LlmProvider {
+  readonly name = 'gemini' as const;
+
+  constructor(private readonly apiKey: string | undefined = process.env.GOOGLE_API_KEY) {}
+
+  get available(): boolean {
+    return !!this.apiKey;
+  }
+
+  async generate(request: LlmRequest): Promise<LlmResponse> {
+    if (!this.apiKey) {
+      throw new Error('GOOGLE_API_KEY environment variable is not set');
+    }
+
+    const generationConfig: GenerationConfig = {};
+    if (request.responseSchema) {
+      generationConfig.responseSchema = request.responseSchema as unknown as GenerationConfig['responseSchema'];
+      generationConfig.responseMimeType = 'application/json';
+    } else if (request.json) {
+      generationConfig.responseMimeType = 'application/json';
+    }
+    if (request.temperature !== undefined) generationConfig.temperature = request.temperature;
+    if (request.maxTokens !== undefined) generationConfig.maxOutputTokens = request.maxTokens;
+
+    const tools: Tool[] | undefined = request.tools?.length && !request.responseSchema
+      ? [{ functionDeclarations: request.tools } as unknown as Tool]
+      : undefined;
+
+    const model = new GoogleGenerativeAI(this.apiKey).getGenerativeModel({
+      model: request.model,
+      ...(tools && { tools }),
+      ...(request.system && { systemInstruction: request.system }),
+      generationConfig,
+    });
+
+    const { response } = await model.generateContent({ contents: toContents(request.messages) });
+    const parts = response.candidates?.[0]?.content?.parts || [];
+
+    const toolCalls: LlmToolCall[] = [];
+    const text: string[] = [];
+    parts.forEach((part, i) => {
+      if (part.functionCall) {
+        toolCalls.push({
+          id: `${part.functionCall.name}-${i}`,
+          name: part.functionCall.name,
+          args: (part.functionCall.args || {}) as Record<string, unknown>,
+        });
+      } else if (part.text) {
+        text.push(part.text);
+      }
+    });
+
+    return {
+      text: text.join('\n'),
+      toolCalls,
+      usage: response.usageMetadata && {
+        inputTokens: response.usageMetadata.promptTokenCount,
+        outputTokens: response.usageMetadata.candidatesTokenCount,
+      },
+    };
+  }
+}
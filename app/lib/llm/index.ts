@@ -0,0 +1,83 @@
+/**
+ * LLM Layer - provider-agnostic model access
+ *
+ * getLlmForActivity resolves the model configured for an activity
+ * (llm-config) and the provider that serves it, so call sites never import a
+ * vendor SDK directly:
+ *
+ *   const { provider, model } = await getLlmForActivity('narrator');
+ *   const { text } = await provider.generate({ model, messages: [{ role: 'user', content: prompt }] });
+ *
+ * Pass onUsage to meter every call (tokens, tool calls) - the brain budget
+ * governor uses it to account and charge for real LLM spend.
+ */
+
+import { getModelForActivity, providerForModel, type LlmActivity } from '@/lib/llm-config';
+import { AnthropicProvider } from './anthropic';
+import { GeminiProvider } from './gemini';
+import { MockProvider } from './mock';
+import type { LlmProvider, LlmProviderName, LlmUsageListener } from './types';
+
+export * from './types';
+export { AnthropicProvider } from './anthropic';
+export { GeminiProvider } from './gemini';
+export { MockProvider, mockToolCall, calledTools, lastUserText, sampleFromSchema } from './mock';
+
+const providers: Partial<Record<LlmProviderName, LlmProvider>> = {};
+
+/**
+ * Shared provider instance by name
+ */
+export function getProvider(name: LlmProviderName): LlmProvider {
+  if (!providers[name]) {
+    providers[name] = name === 'anthropic' ? new AnthropicProvider()
+      : name === 'mock' ? new MockProvider()
+      : new GeminiProvider();
+  }
+  return providers[name]!;
+}
+
+/**
+ * Provider for a model id (see providerForModel)
+ */
+export function getProviderForModel(model: string): LlmProvider {
+  return getProvider(providerForModel(model));
+}
+
+/**
+ * Wrap a provider so every successful generate() reports its usage
+ */
+export function meterProvider(provider: LlmProvider, onUsage: LlmUsageListener): LlmProvider {
+  return {
+    name: provider.name,
+    get available() {
+      return provider.available;
+    },
+    async generate(request) {
+      const response = await provider.generate(request);
+      onUsage({
+        provider: provider.name,
+        model: request.model,
+        toolCalls: response.toolCalls.length,
+        inputTokens: response.usage?.inputTokens ?? 0,
+        outputTokens: response.usage?.outputTokens ?? 0,
+        reported: !!response.usage,
+      });
+      return response;
+    },
+  };
+}
+
+/**
+ * The configured model for an activity and the provider that serves it.
+ * options.model overrides the configured model (e.g. a cheaper one when
+ * over budget); options.onUsage meters the provider.
+ */
+export async function getLlmForActivity(
+  activity: LlmActivity,
+  options: { model?: string; onUsage?: LlmUsageListener } = {}
+): Promise<{ provider: LlmProvider; model: string }> {
+  const model = options.model || await getModelForActivity(activity);
+  const provider = getProviderForModel(model);
+  return { provider: options.onUsage ? meterProvider(provider, options.onUsage) : provider, model };
+}
@@ -0,0 +1,104 @@
+/**
+ * Mock LLM provider - deterministic, offline
+ *
+ * Answers without any network so brain wake-ups, narrator output, reports and
+ * task execution run in tests and offline sims. A caller-supplied
+ * request.offline responder (the call site's rules) wins; otherwise:
+ * - structured output: a value synthesized from the response schema
+ * - tool turns: calls every offered tool without required parameters that
+ *   has not been called yet in the conversation, then stops
+ * - text: a short fixed echo of the prompt
+ */
+
+import type { JsonSchema, LlmMessage, LlmProvider, LlmRequest, LlmResponse, LlmToolCall } from './types';
+
+/**
+ * Build a tool call with a deterministic id
+ */
+export function mockToolCall(name: string, args: Record<string, unknown> = {}, index = 0): LlmToolCall {
+  return { id: `mock-${name}-${index}`, name, args };
+}
+
+/**
+ * Names of the tools already called in a conversation
+ */
+export function calledTools(messages: LlmMessage[]): Set<string> {
+  const names = new Set<string>();
+  for (const message of messages) {
+    if (message.role === 'assistant') {
+      for (const call of message.toolCalls || []) names.add(call.name);
+    }
+  }
+  return names;
+}
+
+/**
+ * Text of the most recent user message
+ */
+export function lastUserText(messages: LlmMessage[]): string {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const message = messages[i];
+    if (message.role === 'user') return message.content;
+  }
+  return '';
+}
+
+/**
+ * Smallest value that satisfies a schema (defaults and first enum values win)
+ */
+export function sampleFromSchema(schema: JsonSchema | undefined): unknown {
+  if (!schema) return null;
+  if (schema.default !== undefined) return schema.default;
+  if (schema.enum?.length) return schema.enum.find(v => v !== null) ?? null;
+
+  switch (schema.type) {
+    case 'object': {
+      const value: Record<string, unknown> = {};
+      for (const key of schema.required || []) {
+        value[key] = sampleFromSchema(schema.properties?.[key]);
+      }
+      return value;
+    }
+    case 'array':
+      return [];
+    case 'string':
+      return '';
+    case 'number':
+    case 'integer':
+      return schema.minimum ?? 0;
+    case 'boolean':
+      return false;
+    default:
+      return null;
+  }
+}
+
+export class MockProvider implements LlmProvider {
+  readonly name = 'mock' as const;
+  readonly available = true;
+
+  async generate(request: LlmRequest): Promise<LlmResponse> {
+    if (request.offline) {
+      return request.offline(request);
+    }
+
+    if (request.responseSchema) {
+      return { text: JSON.stringify(sampleFromSchema(request.responseSchema)), toolCalls: [] };
+    }
+
+    if (request.tools?.length) {
+      const called = calledTools(request.messages);
+      const toolCalls = request.tools
+        .filter(t => !called.has(t.name) && !(t.parameters.required?.length))
+        .map((t, i) => mockToolCall(t.name, {}, i));
+      if (toolCalls.length > 0) return { text: '', toolCalls };
+    }
+
+    if (request.json) {
+      return { text: '{}', toolCalls: [] };
+    }
+
+    const prompt = lastUserText(request.messages).replace(/\s+/g, ' ').trim();
+    return { text: `[offline] ${prompt.slice(0, 160)}`, toolCalls: [] };
+  }
+}
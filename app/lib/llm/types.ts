@@ -0,0 +1,101 @@
+/**
+ * Provider-agnostic LLM types
+ *
+ * Every LLM call (brain tool loops, narrator, reports, task execution) is
+ * expressed as an LlmRequest and answered by an LlmProvider, so the same
+ * call can run on Gemini, Anthropic or the offline mock.
+ */
+
+export type LlmProviderName = 'gemini' | 'anthropic' | 'mock';
+
+/**
+ * JSON Schema subset used for tool parameters and structured output.
+ * Gemini SchemaType values are the lowercase JSON Schema type names, so the
+ * existing tool schemas are valid as-is.
+ */
+export interface JsonSchema {
+  type?: string;
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+  enum?: unknown[];
+  default?: unknown;
+  minimum?: number;
+  maximum?: number;
+}
+
+/** A function the model may call */
+export interface LlmToolDeclaration {
+  name: string;
+  description: string;
+  parameters: JsonSchema;
+}
+
+export interface LlmToolCall {
+  /** Provider call id (synthesized for providers without ids) */
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface LlmToolResult {
+  callId: string;
+  name: string;
+  result: unknown;
+  error?: string;
+}
+
+export type LlmMessage =
+  | { role: 'user'; content: string }
+  | { role: 'assistant'; content: string; toolCalls?: LlmToolCall[] }
+  | { role: 'tool'; results: LlmToolResult[] };
+
+export interface LlmResponse {
+  text: string;
+  toolCalls: LlmToolCall[];
+  usage?: { inputTokens: number; outputTokens: number };
+}
+
+/**
+ * Deterministic reply for a request. The mock provider uses it when the
+ * caller supplies one; real providers ignore it.
+ */
+export type OfflineResponder = (request: LlmRequest) => LlmResponse;
+
+export interface LlmRequest {
+  model: string;
+  system?: string;
+  messages: LlmMessage[];
+  /** Functions the model may call this turn */
+  tools?: LlmToolDeclaration[];
+  /** Structured output: the reply text is JSON matching this schema */
+  responseSchema?: JsonSchema;
+  /** JSON reply without a schema (responseMimeType application/json) */
+  json?: boolean;
+  temperature?: number;
+  maxTokens?: number;
+  offline?: OfflineResponder;
+}
+
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  /** False when the provider's credentials are missing (generate would throw) */
+  readonly available: boolean;
+  generate(request: LlmRequest): Promise<LlmResponse>;
+}
+
+/**
+ * Accounting for one generate() call. `reported` is false when the provider
+ * returned no token counts (the mock), so callers can fall back to flat fees.
+ */
+export interface LlmCallUsage {
+  provider: LlmProviderName;
+  model: string;
+  toolCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  reported: boolean;
+}
+
+export type LlmUsageListener = (usage: LlmCallUsage) => void;
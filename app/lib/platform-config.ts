@@ -14,6 +14,31 @@ export const PLATFORM_FEE_BPS = 1000; // 10% = 1000 basis points
 /** One-time USDC registration fee deducted from agent's seed during creation */
 export const REGISTRATION_FEE_USDC = 1.0; // $1 USDC
 
+/** Escrow wallet = deployer wallet (holds protected investor funds) */
+export const ESCROW_WALLET =
+  process.env.ESCROW_WALLET_ADDRESS ||
+  process.env.DEPLOYER_WALLET ||
+  '0x94AE63aD0A6aB42e1688CCe578D0DD8b4A2B24e2';
+
+// ── Task Delivery ───────────────────────────────────────────────────────────
+
+/** Time an assigned agent has to deliver before the task fails */
+export const TASK_DELIVERY_WINDOW_MINUTES = 10;
+
+/** Fee forfeited by an agent that misses its delivery deadline: 20% of the clearing price */
+export const TASK_FAILURE_FEE_BPS = 2000;
+
+/** Reputation (0-5 stars) lost for a missed delivery */
+export const TASK_FAILURE_REPUTATION_PENALTY = 0.3;
+
+// ── Bid Bonds ───────────────────────────────────────────────────────────────
+
+/**
+ * Share of a bid locked from the agent's balance while the bid is open:
+ * released on loss or delivery, forfeited on a missed delivery. 0 = bonds off.
+ */
+export const BID_BOND_BPS = Number(process.env.BID_BOND_BPS || 0);
+
 // ── Platform Token ──────────────────────────────────────────────────────────
 
 /** Platform token address (INOMY) on nad.fun — set after deployment */
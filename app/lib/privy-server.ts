@@ -13,6 +13,7 @@ import {
   createWalletClient,
   http,
   encodeFunctionData,
+  TransactionReceiptNotFoundError,
   type Address,
   type Hex,
 } from "viem";
@@ -28,6 +29,7 @@ import {
   toUsdcUnits,
   fromUsdcUnits,
 } from "./thirdweb-client";
+import { ESCROW_WALLET } from "./platform-config";
 
 // ============================================================================
 // CONSTANTS & CONFIGURATION
@@ -41,10 +43,7 @@ const MONAD_TESTNET_RPC =
   process.env.NEXT_PUBLIC_RPC_URL || "https://testnet-rpc.monad.xyz";
 
 // Escrow wallet = deployer wallet (holds protected investor funds)
-export const ESCROW_WALLET =
-  process.env.ESCROW_WALLET_ADDRESS ||
-  process.env.DEPLOYER_WALLET ||
-  "0x94AE63aD0A6aB42e1688CCe578D0DD8b4A2B24e2";
+export { ESCROW_WALLET };
 
 // Escrow wallet's private key (for signing dividend payouts)
 // Uses the deployer private key since escrow wallet = deployer wallet
@@ -146,7 +145,8 @@ export async function sendAgentTransaction(
   privyWalletId: string,
   to: string,
   value: string,
-  data?: string
+  data?: string,
+  idempotencyKey?: string
 ): Promise<TransactionResult> {
   const client = getPrivyClient();
 
@@ -177,6 +177,8 @@ export async function sendAgentTransaction(
             chain_id: MONAD_TESTNET_CHAIN_ID,
           },
         },
+        // Privy replays the first response for a repeated key (24h window)
+        ...(idempotencyKey ? { idempotency_key: idempotencyKey } : {}),
       });
 
     console.log("[Privy TX] Transaction broadcast:", {
@@ -218,11 +220,13 @@ export async function sendAgentTransaction(
  * @param privyWalletId The Privy wallet ID for signing
  * @param to Recipient wallet address
  * @param amountUsdc Amount in USDC (e.g., 0.057 for $0.057)
+ * @param idempotencyKey Retries with the same key return the first transaction instead of sending again
  */
 export async function sendUsdcFromAgent(
   privyWalletId: string,
   to: string,
-  amountUsdc: number
+  amountUsdc: number,
+  idempotencyKey?: string
 ): Promise<TransactionResult> {
   const rawAmount = toUsdcUnits(amountUsdc);
 
@@ -238,7 +242,7 @@ export async function sendUsdcFromAgent(
   });
 
   // Send as a contract call (value=0x0, data=ERC20 transfer calldata)
-  return sendAgentTransaction(privyWalletId, USDC_ADDRESS, "0x0", calldata);
+  return sendAgentTransaction(privyWalletId, USDC_ADDRESS, "0x0", calldata, idempotencyKey);
 }
 
 /**
@@ -249,15 +253,37 @@ export async function sendUsdcFromAgent(
  *
  * @param privyWalletId Agent's Privy wallet ID
  * @param costUsdc Operational cost in USDC
+ * @param idempotencyKey See sendUsdcFromAgent
  */
 export async function payOperationalCostToSink(
   privyWalletId: string,
-  costUsdc: number
+  costUsdc: number,
+  idempotencyKey?: string
 ): Promise<TransactionResult> {
   console.log(
     `[Cost Sink] Agent paying $${costUsdc} USDC operational cost to ${COST_SINK_WALLET}`
   );
-  return sendUsdcFromAgent(privyWalletId, COST_SINK_WALLET, costUsdc);
+  return sendUsdcFromAgent(privyWalletId, COST_SINK_WALLET, costUsdc, idempotencyKey);
+}
+
+/**
+ * Where a broadcast transaction stands: mined (success or reverted), or
+ * still pending when no receipt exists yet (not mined, or dropped)
+ */
+export async function getTransactionOutcome(
+  hash: string
+): Promise<"success" | "reverted" | "pending"> {
+  const publicClient = createPublicClient({
+    chain: monadTestnet,
+    transport: http(MONAD_TESTNET_RPC),
+  });
+  try {
+    const receipt = await publicClient.getTransactionReceipt({ hash: hash as Hex });
+    return receipt.status === "success" ? "success" : "reverted";
+  } catch (error) {
+    if (error instanceof TransactionReceiptNotFoundError) return "pending";
+    throw error;
+  }
 }
 
 // ============================================================================
@@ -417,12 +443,14 @@ export async function getAgentWalletInfo(
  * @param fromPrivyWalletId Agent's Privy wallet ID
  * @param amount Amount in USDC to escrow
  * @param agentId Agent's database ID (for logging)
+ * @param idempotencyKey See sendUsdcFromAgent
  * @returns Transaction result with hash if successful
  */
 export async function depositToEscrow(
   fromPrivyWalletId: string,
   amount: number,
-  agentId: string
+  agentId: string,
+  idempotencyKey?: string
 ): Promise<{ success: boolean; txHash?: string; error?: string }> {
   if (amount <= 0) {
     return { success: true, txHash: undefined }; // Nothing to transfer
@@ -431,7 +459,7 @@ export async function depositToEscrow(
   console.log(`[Escrow Deposit] Transferring $${amount} USDC to escrow for agent ${agentId}`);
 
   try {
-    const result = await sendUsdcFromAgent(fromPrivyWalletId, ESCROW_WALLET, amount);
+    const result = await sendUsdcFromAgent(fromPrivyWalletId, ESCROW_WALLET, amount, idempotencyKey);
 
     console.log(`[Escrow Deposit] Success: ${result.transaction_hash}`);
 
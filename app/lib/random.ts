@@ -0,0 +1,97 @@
+/**
+ * Seedable random number generation
+ *
+ * Simulations thread an Rng through task generation, prediction questions
+ * and auction tie-breaking so a run can be replayed exactly from its seed
+ * (when useLLM=false). Reputation needs no draws: it follows the quality
+ * grade of each deliverable, and stub deliverables are seeded by their task.
+ *
+ * createRng(seed) is a mulberry32 PRNG: fast, 32-bit state, good enough for
+ * simulation (NOT for anything security-related).
+ * defaultRng wraps Math.random for callers that don't care about replay.
+ */
+
+export interface Rng {
+  /** Seed this generator was created from (null for Math.random) */
+  readonly seed: number | null;
+  /** Float in [0, 1) */
+  next(): number;
+  /** Float in [min, max) */
+  float(min: number, max: number): number;
+  /** Integer in [min, max) */
+  int(min: number, max: number): number;
+  /** Random element of a non-empty array */
+  pick<T>(arr: readonly T[]): T;
+  /** True with probability p */
+  chance(p: number): boolean;
+  /** Base-36 id of the given length */
+  id(length?: number): string;
+  /**
+   * Independent child generator seeded from this one.
+   * Use when work runs concurrently: fork in a fixed order up front so the
+   * draw order doesn't depend on async timing.
+   */
+  fork(): Rng;
+}
+
+function buildRng(seed: number | null, next: () => number): Rng {
+  const rng: Rng = {
+    seed,
+    next,
+    float: (min, max) => min + next() * (max - min),
+    int: (min, max) => min + Math.floor(next() * (max - min)),
+    pick: (arr) => arr[Math.floor(next() * arr.length)],
+    chance: (p) => next() < p,
+    id: (length = 6) => {
+      let out = '';
+      while (out.length < length) {
+        out += Math.floor(next() * 36).toString(36);
+      }
+      return out;
+    },
+    fork: () => (seed === null ? defaultRng : createRng(Math.floor(next() * 0x100000000))),
+  };
+  return rng;
+}
+
+/**
+ * Create a deterministic generator from a 32-bit seed (mulberry32).
+ */
+export function createRng(seed: number): Rng {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  };
+  return buildRng(seed >>> 0, next);
+}
+
+/** Non-deterministic generator backed by Math.random */
+export const defaultRng: Rng = buildRng(null, Math.random);
+
+/** Fresh random 32-bit seed (for runs that didn't ask for one, so they can still be replayed) */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
+
+/**
+ * Parse a user-supplied seed. Numbers are truncated to 32 bits; strings that
+ * aren't numeric are hashed (FNV-1a) so "bull-run-7" is a valid seed.
+ * Returns null when no seed was given.
+ */
+export function parseSeed(input: unknown): number | null {
+  if (input === undefined || input === null || input === '') return null;
+  if (typeof input === 'number' && Number.isFinite(input)) return Math.floor(input) >>> 0;
+  const str = String(input).trim();
+  if (/^\d+$/.test(str)) return Number(str) >>> 0;
+
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < str.length; i++) {
+    hash ^= str.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -1,14 +1,15 @@
 /**
  * Report Narrative Generation Engine
  *
- * Uses Google Gemini to generate structured analyst-style narrative
- * from computed metrics. Produces 7 sections: headline, executive summary,
+ * Uses the LLM for the report model (see lib/llm) to generate structured
+ * analyst-style narrative from computed metrics. Produces 7 sections: headline, executive summary,
  * market dynamics, agent spotlight, strategy analysis, outlook, and awards.
  *
  * Created: 2026-02-08
  */
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { getProviderForModel, meterProvider } from '@/lib/llm';
+import { brainBudgetService } from '@/lib/services/budget/BrainBudgetService';
 import type { ReportMetrics, ReportNarrative } from '@/types/database';
 
 /**
@@ -20,20 +21,17 @@ export async function generateReportNarrative(
   startRound: number,
   endRound: number
 ): Promise<ReportNarrative> {
-  const apiKey = process.env.GOOGLE_API_KEY;
-  if (!apiKey) {
-    console.warn('[Report Narrative] GOOGLE_API_KEY not set, using fallback narrative');
-    return generateFallbackNarrative(metrics, startRound, endRound);
-  }
-
   try {
-    const client = new GoogleGenerativeAI(apiKey);
-    const genModel = client.getGenerativeModel({ model });
-
     const prompt = buildPrompt(metrics, startRound, endRound);
 
-    const result = await genModel.generateContent(prompt);
-    const text = result.response.text();
+    // Offline (mock provider): the fallback narrative is the rules-based report
+    const meter = brainBudgetService.meter(null, 'reports', endRound, model);
+    const { text } = await meterProvider(getProviderForModel(model), meter.onUsage).generate({
+      model,
+      messages: [{ role: 'user', content: prompt }],
+      offline: () => ({ text: JSON.stringify(generateFallbackNarrative(metrics, startRound, endRound)), toolCalls: [] }),
+    });
+    await brainBudgetService.settle(meter);
 
     // Parse the JSON response
     const parsed = parseNarrativeResponse(text);
@@ -0,0 +1,212 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createRng } from '@/lib/random';
+import { createInMemoryRepositories, createServices } from '@/lib/services';
+import {
+  createAuctionMechanism,
+  resolveMechanismConfig,
+} from '@/lib/services/auction/mechanisms';
+import type { AuctionMechanismConfig, Bid, Task } from '@/lib/services/types';
+import { createWorld, runRound, type TestWorld } from './helpers';
+
+const task = { id: 'task-1', type: 'CATALOG', status: 'OPEN', max_bid: 0.1 } as Task;
+
+function bid(id: string, amount: number, score: number): Bid {
+  return { id, task_id: task.id, agent_id: `agent-${id}`, amount, score } as Bid;
+}
+
+describe('auction mechanisms', () => {
+  // Ranked by score, highest first
+  const ranked = [bid('a', 0.06, 1700), bid('b', 0.07, 1500), bid('c', 0.12, 900)];
+
+  it('first_price pays the top bid its own amount', () => {
+    const { winners } = createAuctionMechanism({ type: 'first_price' }).clear(ranked, task);
+    expect(winners.map(w => [w.bid.id, w.clearingPrice])).toEqual([['a', 0.06]]);
+  });
+
+  it("second_price pays the price that ties the runner-up's score", () => {
+    const { winners } = createAuctionMechanism({ type: 'second_price' }).clear(ranked, task);
+    expect(winners).toHaveLength(1);
+    expect(winners[0].bid.id).toBe('a');
+    expect(winners[0].clearingPrice).toBeCloseTo((1700 * 0.06) / 1500, 6);
+  });
+
+  it('second_price caps the clearing price at max_bid and pays a lone bidder its bid', () => {
+    const capped = createAuctionMechanism({ type: 'second_price' }).clear([bid('a', 0.09, 2000), bid('b', 0.095, 1000)], task);
+    expect(capped.winners[0].clearingPrice).toBe(0.1);
+
+    const alone = createAuctionMechanism({ type: 'second_price' }).clear([bid('a', 0.06, 1700)], task);
+    expect(alone.winners[0].clearingPrice).toBe(0.06);
+  });
+
+  it('reserve_price drops bids above the reserve', () => {
+    const { winners, ineligible } = createAuctionMechanism({ type: 'reserve_price', reserveRatio: 0.65 }).clear(ranked, task);
+    expect(winners.map(w => w.bid.id)).toEqual(['a']);
+    expect(ineligible.map(b => b.id)).toEqual(['b', 'c']);
+
+    const none = createAuctionMechanism({ type: 'reserve_price', reserveRatio: 0.5 }).clear(ranked, task);
+    expect(none.winners).toEqual([]);
+  });
+
+  it('sealed_multi pays the top N their own bids', () => {
+    const { winners } = createAuctionMechanism({ type: 'sealed_multi', winners: 2 }).clear(ranked, task);
+    expect(winners.map(w => [w.bid.id, w.clearingPrice])).toEqual([['a', 0.06], ['b', 0.07]]);
+  });
+
+  it('per-task-type config overrides the round default', () => {
+    const auction = { default: { type: 'second_price' as const }, byTaskType: { REVIEW: { type: 'sealed_multi' as const } } };
+    expect(resolveMechanismConfig('REVIEW', auction).type).toBe('sealed_multi');
+    expect(resolveMechanismConfig('CATALOG', auction).type).toBe('second_price');
+    expect(resolveMechanismConfig('CATALOG').type).toBe('first_price');
+  });
+});
+
+describe('auction mechanisms in a round', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  const roster = [
+    { name: 'balanced', type: 'CATALOG' as const, personality: 'balanced', balance: 1 },
+    { name: 'aggressive', type: 'CATALOG' as const, personality: 'aggressive', balance: 1 },
+  ];
+
+  it('second_price pays the winner the runner-up price', async () => {
+    const world = createWorld(roster);
+    const { result } = await runRound(world, [{ type: 'CATALOG', maxBid: 2 }], {
+      roundNumber: 1,
+      auction: { default: { type: 'second_price' } },
+    });
+
+    const bids = [...world.store.bids.values()];
+    const winner = bids.find(b => String(b.status) === 'WON')!;
+    const loser = bids.find(b => String(b.status) === 'LOST')!;
+    // Equal reputations: the clearing price is the runner-up's bid
+    expect(winner.auction_mechanism).toBe('second_price');
+    expect(winner.clearing_price).toBeCloseTo(loser.amount, 6);
+    expect(result.totalRevenue).toBeCloseTo(loser.amount, 6);
+  });
+
+  it('sealed_multi marks every co-winner WON and pays each its bid', async () => {
+    const world = createWorld(roster);
+    await runRound(world, [{ type: 'CATALOG', maxBid: 2 }], {
+      roundNumber: 1,
+      auction: { default: { type: 'sealed_multi', winners: 2 } },
+    });
+
+    const bids = [...world.store.bids.values()];
+    expect(bids.every(b => String(b.status) === 'WON')).toBe(true);
+    for (const b of bids) {
+      expect(b.clearing_price).toBeCloseTo(b.amount, 9);
+      const revenue = world.store.ledger.find(e => e.entry_type === 'revenue' && e.debit_account === `agent:${b.agent_id}`);
+      expect(revenue?.amount).toBeCloseTo(b.amount, 6);
+    }
+  });
+
+  it('sealed_multi gives every co-winner a won bid memory', async () => {
+    const world = createWorld(roster);
+    await runRound(world, [{ type: 'CATALOG', maxBid: 2 }], {
+      roundNumber: 1,
+      auction: { default: { type: 'sealed_multi', winners: 2 } },
+    });
+    // Bid memories are written fire-and-forget
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    const wonBy = world.store.memories
+      .filter(m => m.memory_type === 'bid_outcome' && m.data.won === true)
+      .map(m => m.agent_id);
+    const winners = [...world.store.bids.values()].map(b => b.agent_id);
+    expect(wonBy.sort()).toEqual(winners.sort());
+  });
+});
+
+describe('sealed_multi co-winner bonds', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('forfeits the bond of a co-winner that never delivered once the deadline passes', async () => {
+    const world = createWorld(['primary', 'absent'].map(name => ({ name, type: 'CATALOG' as const, balance: 1, reputation: 3 })));
+    const { agentService, auctionService, economyService, taskService } = world.services;
+    const agents = await agentService.getActiveAgents();
+    const [task] = await taskService.createBatchTasks([{ type: 'CATALOG', maxBid: 2 }], createRng(1));
+    await auctionService.submitBatchBids(agents.map((agent, i) => ({
+      taskId: task.id, agentId: agent.id, bidderWallet: agent.wallet_address, amount: 0.5 + i * 0.1, score: 1, roundNumber: 1,
+    })), undefined, 1000);
+    const auction = (await auctionService.closeAuction(task, agents, { type: 'sealed_multi', winners: 2 }))!;
+    const [coWinner] = auction.additionalWinners;
+
+    // The primary settled; the co-winner's delivery never happened
+    await economyService.releaseBidBond(auction.winningBid.id);
+    Object.assign(world.store.tasks.get(task.id)!, { status: 'COMPLETED', delivery_deadline: new Date(0).toISOString() });
+
+    await runRound(world, [], { roundNumber: 2 });
+
+    const bid = world.store.bids.get(coWinner.bid.id)!;
+    expect(String(bid.status)).toBe('FAILED');
+    expect(bid.bond_status).toBe('FORFEITED');
+    const forfeit = world.store.ledger.find(e => e.entry_type === 'bond_forfeit' && e.bid_id === bid.id);
+    expect(forfeit?.amount).toBeCloseTo(Number(bid.bond_amount), 6);
+    expect((await world.services.ledgerService.audit())?.drifted).toEqual([]);
+  });
+});
+
+describe('runner-up reassignment', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  const roster = ['first', 'second', 'third'].map(name => ({ name, type: 'CATALOG' as const, balance: 1, reputation: 3 }));
+
+  /** Close an auction over bids of 0.5 / 0.6 / 0.8 (equal reputations), losers' bonds released */
+  async function closed({ store, services }: TestWorld, mechanism: AuctionMechanismConfig) {
+    const agents = await services.agentService.getActiveAgents();
+    const [task] = await services.taskService.createBatchTasks([{ type: 'CATALOG', maxBid: 2 }], createRng(1));
+    await services.auctionService.submitBatchBids(agents.map((agent, i) => ({
+      taskId: task.id, agentId: agent.id, bidderWallet: agent.wallet_address, amount: [0.5, 0.6, 0.8][i], score: 1, roundNumber: 1,
+    })), undefined, 1000);
+    const auction = (await services.auctionService.closeAuction(task, agents, mechanism))!;
+    for (const id of auction.losingBidIds) await services.economyService.releaseBidBond(id);
+    const others = agents.filter(a => a.id !== auction.agent.id);
+    return { task: store.tasks.get(task.id)!, failedBid: auction.winningBid, others };
+  }
+
+  it('clears second_price again over the remaining bids', async () => {
+    const world = createWorld(roster);
+    const mechanism = { type: 'second_price' as const };
+    const { task, failedBid, others } = await closed(world, mechanism);
+
+    const runnerUp = await world.services.auctionService.reassignToRunnerUp(task, failedBid, others, mechanism);
+
+    expect(runnerUp?.bid.amount).toBe(0.6);
+    // Priced against the next remaining bid, not paid its own
+    expect(runnerUp?.clearingPrice).toBeCloseTo(0.8, 6);
+    expect(world.store.bids.get(runnerUp!.bid.id)).toMatchObject({ status: 'WON', clearing_price: runnerUp!.clearingPrice });
+  });
+
+  it('keeps the reserve: no runner-up above it takes the task', async () => {
+    const world = createWorld(roster);
+    const mechanism = { type: 'reserve_price' as const, reserveRatio: 0.28 };
+    const { task, failedBid, others } = await closed(world, mechanism);
+
+    expect(await world.services.auctionService.reassignToRunnerUp(task, failedBid, others, mechanism)).toBeNull();
+    expect([...world.store.bids.values()].filter(b => String(b.status) === 'WON')).toEqual([]);
+  });
+
+  it('puts the bid and bond back when the task update fails', async () => {
+    const world = createWorld(roster);
+    const { task, failedBid, others } = await closed(world, { type: 'first_price' });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const repos = createInMemoryRepositories(world.store);
+    repos.tasks = { ...repos.tasks, update: async () => ({ data: null, error: { message: 'write failed' } }) };
+    const { auctionService, ledgerService } = createServices(repos);
+
+    expect(await auctionService.reassignToRunnerUp(task, failedBid, others)).toBeNull();
+
+    const runnerUp = [...world.store.bids.values()].find(b => b.amount === 0.6)!;
+    expect(String(runnerUp.status)).toBe('LOST');
+    expect(runnerUp.bond_status).toBe('RELEASED');
+    expect(world.store.agents.get(runnerUp.agent_id)!.balance).toBeCloseTo(1, 6);
+    expect((await ledgerService.audit())?.drifted).toEqual([]);
+  });
+});
@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createInMemoryRepositories, createServices } from '@/lib/services';
+import { createWorld } from './helpers';
+
+// The QBR session itself, recorded instead of calling the LLM
+const qbr = vi.hoisted(() => ({
+  executeQBR: vi.fn(async (_trigger: unknown, _options?: unknown) => {}),
+}));
+vi.mock('@/lib/agent-runtime/qbr-handler', () => qbr);
+
+describe('BrainService exception responses (LLM disabled)', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('saves the default response as a policy version with its trigger and diff', async () => {
+    const world = createWorld([{ name: 'loser', type: 'CATALOG', personality: 'balanced', balance: 1 }]);
+    const [agent] = await world.services.agentService.getActiveAgents();
+
+    await world.services.brainService.executeWakeups([{
+      agent,
+      exception: { type: 'consecutive_losses', details: { consecutive_losses: 3 }, threshold: 3, currentValue: 3 },
+    }], 4, false);
+
+    const versions = world.store.policyVersions.filter(v => v.agent_id === agent.id);
+    expect(versions).toHaveLength(1);
+    expect(versions[0].trigger_type).toBe('exception');
+    expect(versions[0].trigger_details).toBe('consecutive_losses');
+    expect(versions[0].diff.map(d => d.field)).toContain('bidding.target_margin');
+
+    const reloaded = await world.services.agentService.getAgentById(agent.id);
+    expect(reloaded?.policy?.bidding.target_margin).toBe(versions[0].policy_json.bidding.target_margin);
+  });
+
+  it('leaves the agent policy alone when the write fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { store } = createWorld([{ name: 'loser', type: 'CATALOG', personality: 'balanced', balance: 1 }]);
+    const repos = createInMemoryRepositories(store);
+    repos.policies = { ...repos.policies, save: async () => ({ data: null, error: { message: 'write failed' } }) };
+    const { agentService, brainService } = createServices(repos);
+    const [agent] = await agentService.getActiveAgents();
+    const before = structuredClone(agent.policy);
+
+    const applied = await brainService.applyPolicyChanges(agent, { bidding: { target_margin: 0.2 } });
+
+    expect(applied).toBe(false);
+    expect(agent.policy).toEqual(before);
+    expect(store.policyVersions).toHaveLength(0);
+  });
+});
+
+describe('BrainService QBR budget', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    qbr.executeQBR.mockClear();
+  });
+
+  it('charges a manual QBR for its usage like a scheduled one', async () => {
+    const world = createWorld([{ name: 'manual', type: 'CATALOG', personality: 'balanced', balance: 1 }]);
+    const [agent] = await world.services.agentService.getActiveAgents();
+
+    const outcome = await world.services.brainService.runQBR(agent, 5, 'manual');
+
+    expect(qbr.executeQBR).toHaveBeenCalledWith(
+      { agent_id: agent.id, trigger_reason: 'manual', current_round: 5 },
+      expect.objectContaining({ onUsage: expect.any(Function) })
+    );
+    expect(outcome).toEqual({ brainCost: 0.001 });
+    expect(world.store.llmUsage).toMatchObject([{ agent_id: agent.id, activity: 'qbr', outcome: 'full', charged: 0.001 }]);
+    expect(world.store.agents.get(agent.id)!.balance).toBeCloseTo(0.999, 9);
+  });
+
+  it('defers a manual QBR once the agent is over budget', async () => {
+    const world = createWorld([{ name: 'manual', type: 'CATALOG', personality: 'balanced', balance: 1 }]);
+    const [agent] = await world.services.agentService.getActiveAgents();
+    world.store.llmUsage.push({
+      id: 'earlier', created_at: new Date().toISOString(), agent_id: agent.id, activity: 'exception', provider: 'anthropic',
+      model: 'm', round_number: 5, llm_calls: 12, tool_calls: 0, input_tokens: 0, output_tokens: 0,
+      cost_usd: 0, charged: 0, outcome: 'full',
+    });
+
+    const outcome = await world.services.brainService.runQBR(agent, 5, 'manual');
+
+    expect(outcome).toEqual({ deferred: expect.stringContaining('agent LLM calls this round') });
+    expect(qbr.executeQBR).not.toHaveBeenCalled();
+    expect(world.store.llmUsage.map(u => u.outcome)).toEqual(['full', 'deferred']);
+    expect(world.store.agents.get(agent.id)!.balance).toBe(1);
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Test helpers - seeded in-memory service sets for round specs
+ */
+
+import { PERSONALITY_DEFAULTS } from '@/lib/agent-runtime/constants';
+import { createRng } from '@/lib/random';
+import {
+  createInMemoryRepositories,
+  createServices,
+  InMemoryStore,
+  type InMemoryAgentInput,
+  type ServiceSet,
+} from '@/lib/services';
+import type { CreateTaskInput, RoundConfig, RoundProcessorResult, Task } from '@/lib/services/types';
+
+export interface TestWorld {
+  store: InMemoryStore;
+  services: ServiceSet;
+}
+
+/**
+ * A store with the given agents (each with its personality's default policy)
+ * and a service set on top of it
+ */
+export function createWorld(agents: InMemoryAgentInput[]): TestWorld {
+  const store = new InMemoryStore();
+  for (const input of agents) {
+    const agent = store.addAgent(input);
+    const personality = String(input.personality ?? 'balanced');
+    store.addPolicy(agent.id, structuredClone(PERSONALITY_DEFAULTS[personality] || PERSONALITY_DEFAULTS.balanced));
+  }
+  return { store, services: createServices(createInMemoryRepositories(store)) };
+}
+
+/**
+ * Create the round's tasks and run it offline (no chain, no LLM)
+ */
+export async function runRound(
+  { services }: TestWorld,
+  taskInputs: CreateTaskInput[],
+  config: Partial<RoundConfig> & { roundNumber: number }
+): Promise<{ result: RoundProcessorResult; tasks: Task[] }> {
+  const rng = config.rng ?? createRng(config.roundNumber);
+  const tasks = await services.taskService.createBatchTasks(taskInputs, rng);
+  const agents = await services.agentService.getActiveAgents();
+  const result = await services.roundProcessor.processRound(tasks, agents, {
+    useBlockchain: false,
+    useLLM: false,
+    livingCostPerRound: 0.005,
+    ...config,
+    rng,
+  });
+  return { result, tasks };
+}
@@ -0,0 +1,24 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { PERSONALITY_DEFAULTS } from '@/lib/agent-runtime/constants';
+import type { AgentWithPolicy } from '@/lib/services/types';
+import { createWorld } from './helpers';
+
+describe('IntentService offers', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('prices offers with personality defaults filling gaps in a stored policy', async () => {
+    const world = createWorld([{ name: 'shop', type: 'SELLER', personality: 'balanced', balance: 1 }]);
+    const intent = world.store.addIntent({ product_description: 'kitchen deal', category: 'kitchen', max_budget: 1, tags: ['kitchen'] });
+    const [seller] = await world.services.agentService.getActiveAgents();
+    const { bidding: _bidding, ...withoutBidding } = PERSONALITY_DEFAULTS.balanced;
+    const partial = { ...seller, policy: withoutBidding as AgentWithPolicy['policy'] };
+
+    const [offer] = world.services.intentService.generateOffersForRound([intent], [partial]);
+    const [reference] = world.services.intentService.generateOffersForRound([intent], [seller]);
+
+    expect(offer.price).toBeGreaterThan(0);
+    expect(offer.price).toBeCloseTo(reference.price, 9);
+  });
+});
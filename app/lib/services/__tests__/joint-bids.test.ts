@@ -0,0 +1,62 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { AGENT_COSTS } from '@/lib/agent-runtime/constants';
+import { createRng } from '@/lib/random';
+import { AgentType } from '@/types/database';
+import { createWorld } from './helpers';
+
+const REVIEW_TASK_COST = Object.values(AGENT_COSTS[AgentType.REVIEW].per_task).reduce((sum, c) => sum + c, 0);
+
+/** A CATALOG lead and a REVIEW partner, the lead taking splitLead% of joint payments */
+async function partnered(splitLead: number) {
+  const world = createWorld([
+    { name: 'lead', type: 'CATALOG', personality: 'balanced', balance: 1 },
+    { name: 'partner', type: 'REVIEW', personality: 'balanced', balance: 1 },
+  ]);
+  const [lead, partner] = await world.services.agentService.getActiveAgents();
+  const partnership = world.store.addPartnership(lead, partner, splitLead);
+  return { world, lead, partner, partnerships: [partnership] };
+}
+
+describe('BiddingService joint bids', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it("raises a joint bid until the partner's split covers its task cost", async () => {
+    const { world, lead, partner, partnerships } = await partnered(90);
+    const tasks = await world.services.taskService.createBatchTasks(
+      [{ type: 'CATALOG', requiredTypes: ['CATALOG', 'REVIEW'], maxBid: 2 }], createRng(1)
+    );
+
+    const { bids } = world.services.biddingService.generateBidsForRound(tasks, [lead, partner], partnerships);
+
+    expect(bids).toHaveLength(1);
+    expect(bids[0].amount * 0.1).toBeGreaterThanOrEqual(REVIEW_TASK_COST);
+  });
+
+  it("skips a joint bid when no price under max_bid covers the partner's split", async () => {
+    const { world, lead, partner, partnerships } = await partnered(90);
+    const tasks = await world.services.taskService.createBatchTasks(
+      [{ type: 'CATALOG', requiredTypes: ['CATALOG', 'REVIEW'], maxBid: 0.5 }], createRng(1)
+    );
+
+    const { bids, skipped } = world.services.biddingService.generateBidsForRound(tasks, [lead, partner], partnerships);
+
+    expect(bids).toEqual([]);
+    expect(skipped).toMatchObject([{ agentId: lead.id, cause: 'margin' }]);
+  });
+
+  it("counts a joint bid against the partner's round capacity", async () => {
+    const { world, lead, partner, partnerships } = await partnered(50);
+    partner.policy!.bidding.max_tasks_per_round = 1;
+    const tasks = await world.services.taskService.createBatchTasks([
+      { type: 'REVIEW', maxBid: 2 },
+      { type: 'CATALOG', requiredTypes: ['CATALOG', 'REVIEW'], maxBid: 2 },
+    ], createRng(1));
+
+    const { bids, skipped } = world.services.biddingService.generateBidsForRound(tasks, [partner, lead], partnerships);
+
+    expect(bids.map(b => b.agentId)).toEqual([partner.id]);
+    expect(skipped).toMatchObject([{ agentId: lead.id, cause: 'capacity' }]);
+  });
+});
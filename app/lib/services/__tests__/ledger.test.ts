@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { ledgerKey } from '@/lib/services';
+import { createWorld } from './helpers';
+
+describe('LedgerService (in-memory)', () => {
+  it('posts an opening balance once per idempotency key', async () => {
+    const world = createWorld([{ name: 'fresh', type: 'CATALOG', balance: 0 }]);
+    const [agent] = [...world.store.agents.values()];
+    const key = ledgerKey('agent', agent.id, 'opening');
+
+    const first = await world.services.ledgerService.transfer(agent.id, 'opening_balance', 1, { idempotencyKey: key });
+    const second = await world.services.ledgerService.transfer(agent.id, 'opening_balance', 1, { idempotencyKey: key });
+
+    expect(first).toBeCloseTo(1, 9);
+    expect(second).toBeCloseTo(1, 9);
+    expect(world.store.agents.get(agent.id)!.balance).toBeCloseTo(1, 9);
+    expect(world.store.ledger.filter(e => e.idempotency_key === key)).toHaveLength(1);
+    expect(await world.services.ledgerService.hasPosted(key)).toBe(true);
+  });
+
+  it('keeps balances equal to the ledger projection', async () => {
+    const world = createWorld([
+      { name: 'seeded', type: 'CATALOG', balance: 2 },
+      { name: 'fresh', type: 'CATALOG', balance: 0 },
+    ]);
+    const fresh = [...world.store.agents.values()].find(a => a.name === 'fresh')!;
+    await world.services.ledgerService.transfer(fresh.id, 'opening_balance', 0.5, {
+      idempotencyKey: ledgerKey('agent', fresh.id, 'opening'),
+    });
+
+    const report = await world.services.ledgerService.audit();
+    expect(report?.drifted).toEqual([]);
+  });
+});
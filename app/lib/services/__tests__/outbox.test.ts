@@ -0,0 +1,110 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createInMemoryRepositories, OutboxService } from '@/lib/services';
+import { createWorld } from './helpers';
+
+// On-chain sends and receipt lookups, scripted per test
+const chain = vi.hoisted(() => ({
+  payOperationalCostToSink: vi.fn(async (_walletId: string, _amount: number, _key?: string) => ({ transaction_hash: '0xsent' })),
+  getTransactionOutcome: vi.fn(async (_hash: string): Promise<'success' | 'reverted' | 'pending'> => 'success'),
+}));
+vi.mock('@/lib/privy-server', () => chain);
+
+const TRANSFER = {
+  to: 'cost_sink' as const, wallet_id: 'wallet-1', agent_id: 'agent-1', amount: 0.05, purpose: 'living_cost',
+};
+
+function setup() {
+  const { store } = createWorld([]);
+  const outbox = new OutboxService(createInMemoryRepositories(store));
+  /** Queue a retry and make it due now */
+  const queue = async (dedupeKey: string, result: Record<string, unknown> | null = null) => {
+    await outbox.retryLater('usdc_transfer', TRANSFER, new Error('inline send failed'), { dedupeKey });
+    const message = store.outbox.find(m => m.dedupe_key === dedupeKey)!;
+    Object.assign(message, { next_attempt_at: new Date(0).toISOString(), result });
+    return message;
+  };
+  const due = (id: string) => Object.assign(store.outbox.find(m => m.id === id)!, { next_attempt_at: new Date(0).toISOString() });
+  return { store, outbox, queue, due };
+}
+
+describe('OutboxService transfers', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    chain.payOperationalCostToSink.mockClear();
+    chain.getTransactionOutcome.mockReset();
+    chain.getTransactionOutcome.mockResolvedValue('success');
+  });
+
+  it('sends under the dedupe key and records the tx hash', async () => {
+    const { store, outbox, queue } = setup();
+    const message = await queue('living:1');
+
+    await outbox.processDue();
+
+    expect(chain.payOperationalCostToSink).toHaveBeenCalledWith('wallet-1', 0.05, 'living:1');
+    expect(store.outbox.find(m => m.id === message.id)).toMatchObject({
+      status: 'done', result: { tx_hash: '0xsent', reverted: 0 },
+    });
+  });
+
+  it('does not send again when the recorded tx was mined', async () => {
+    const { store, outbox, queue } = setup();
+    const message = await queue('living:2', { tx_hash: '0xearlier', reverted: 0 });
+
+    await outbox.processDue();
+
+    expect(chain.getTransactionOutcome).toHaveBeenCalledWith('0xearlier');
+    expect(chain.payOperationalCostToSink).not.toHaveBeenCalled();
+    expect(store.outbox.find(m => m.id === message.id)!.status).toBe('done');
+  });
+
+  it('waits on a pending tx, and resends under a new key once it reverted', async () => {
+    const { store, outbox, queue, due } = setup();
+    const message = await queue('living:3', { tx_hash: '0xearlier', reverted: 0 });
+
+    chain.getTransactionOutcome.mockResolvedValueOnce('pending');
+    await outbox.processDue();
+    expect(chain.payOperationalCostToSink).not.toHaveBeenCalled();
+    expect(store.outbox.find(m => m.id === message.id)!.status).toBe('pending');
+
+    due(message.id);
+    chain.getTransactionOutcome.mockResolvedValueOnce('reverted');
+    await outbox.processDue();
+    expect(chain.payOperationalCostToSink).toHaveBeenCalledTimes(1);
+    expect(chain.payOperationalCostToSink).toHaveBeenCalledWith('wallet-1', 0.05, 'living:3:resend:1');
+    expect(store.outbox.find(m => m.id === message.id)).toMatchObject({
+      status: 'done', result: { tx_hash: '0xsent', reverted: 1 },
+    });
+  });
+
+  it('retries a send that threw under the same key', async () => {
+    const { outbox, queue, due } = setup();
+    const message = await queue('living:4');
+
+    chain.payOperationalCostToSink.mockRejectedValueOnce(new Error('socket hang up'));
+    await outbox.processDue();
+    due(message.id);
+    await outbox.processDue();
+
+    expect(chain.payOperationalCostToSink.mock.calls.map(([, , key]) => key)).toEqual(['living:4', 'living:4']);
+  });
+});
+
+describe('OutboxService investor escrow', () => {
+  it('skips a retry whose inline increment already landed', async () => {
+    const { store, outbox } = setup();
+    const repos = createInMemoryRepositories(store);
+    const key = 'task:t1:0xholder:investor_escrow';
+    await repos.escrow.incrementInvestorEscrow('agent-1', '0xholder', 0.01, key);
+
+    await outbox.retryLater('investor_escrow', {
+      agent_id: 'agent-1', investor_wallet: '0xholder', amount: 0.01, task_id: 't1',
+    }, new Error('timeout'), { dedupeKey: key });
+    store.outbox[0].next_attempt_at = new Date(0).toISOString();
+    await outbox.processDue();
+
+    expect(store.outbox[0].status).toBe('done');
+    expect(store.investorEscrow.get('agent-1:0xholder')).toBe(0.01);
+  });
+});
@@ -0,0 +1,103 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { AGENT_COSTS } from '@/lib/agent-runtime/constants';
+import { AgentType } from '@/types/database';
+import { createWorld, runRound } from './helpers';
+
+const CATALOG_TASK = { type: 'CATALOG' as const, maxBid: 2 };
+
+describe('RoundProcessor (in-memory)', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('runs a round end to end: bids, auction, delivery, payment', async () => {
+    const world = createWorld([
+      { name: 'balanced', type: 'CATALOG', personality: 'balanced', balance: 1 },
+      { name: 'aggressive', type: 'CATALOG', personality: 'aggressive', balance: 1 },
+    ]);
+    const { result, tasks } = await runRound(world, [CATALOG_TASK], { roundNumber: 1 });
+
+    expect(result.bidsPlaced).toBe(2);
+    expect(result.auctionsClosed).toBe(1);
+    expect(result.tasksCompleted).toBe(1);
+
+    const bids = [...world.store.bids.values()];
+    const [low, high] = [...bids].sort((a, b) => a.amount - b.amount);
+    expect(low.status).toBe('WON');
+    expect(high.status).toBe('LOST');
+
+    const task = world.store.tasks.get(tasks[0].id)!;
+    expect(task.status).toBe('COMPLETED');
+    expect(task.winning_bid_id).toBe(low.id);
+    expect(task.assigned_agent_id).toBe(low.agent_id);
+    expect(world.store.deliverables.filter(d => d.task_id === task.id)).toHaveLength(1);
+    expect(result.totalRevenue).toBeCloseTo(low.amount, 6);
+  });
+
+  it('pays the winner its own bid under first-price', async () => {
+    const world = createWorld([
+      { name: 'balanced', type: 'CATALOG', personality: 'balanced', balance: 1 },
+      { name: 'aggressive', type: 'CATALOG', personality: 'aggressive', balance: 1 },
+    ]);
+    await runRound(world, [CATALOG_TASK], { roundNumber: 1 });
+
+    const winner = [...world.store.bids.values()].find(b => String(b.status) === 'WON')!;
+    expect(winner.auction_mechanism).toBe('first_price');
+    expect(winner.clearing_price).toBeCloseTo(winner.amount, 9);
+  });
+
+  it('charges bid fees and living costs, and balances match the ledger', async () => {
+    const world = createWorld([
+      { name: 'balanced', type: 'CATALOG', personality: 'balanced', balance: 1 },
+      { name: 'aggressive', type: 'CATALOG', personality: 'aggressive', balance: 1 },
+    ]);
+    const { result } = await runRound(world, [CATALOG_TASK], { roundNumber: 1, livingCostPerRound: 0.005 });
+
+    const loserBid = [...world.store.bids.values()].find(b => String(b.status) === 'LOST')!;
+    const winnerBid = [...world.store.bids.values()].find(b => String(b.status) === 'WON')!;
+    const loser = world.store.agents.get(loserBid.agent_id)!;
+    const winner = world.store.agents.get(winnerBid.agent_id)!;
+
+    // 0.001 bid submission fee + 0.005 living cost
+    expect(loser.balance).toBeCloseTo(0.994, 6);
+    expect(winner.balance).toBeGreaterThan(loser.balance);
+    expect(result.livingCostsDeducted).toBeCloseTo(0.01, 6);
+
+    const audit = await world.services.ledgerService.audit();
+    expect(audit?.drifted).toEqual([]);
+  });
+
+  it('charges a SELLER winner the per-task cost its bid was priced on', async () => {
+    const world = createWorld([{ name: 'seller', type: 'SELLER', personality: 'balanced', balance: 1 }]);
+    await runRound(world, [{ type: 'SELLER', maxBid: 0.06 }], { roundNumber: 1 });
+
+    const perTask = Object.values(AGENT_COSTS[AgentType.SELLER].per_task).reduce((sum, c) => sum + c, 0);
+    const [cost] = world.store.ledger.filter(e => e.entry_type === 'operational_cost');
+    expect(cost.metadata).toMatchObject({ revisions: 0 });
+    expect(cost.amount).toBeCloseTo(perTask, 6);
+  });
+
+  it('only lets agents of the task type with enough balance bid', async () => {
+    const world = createWorld([
+      { name: 'catalog', type: 'CATALOG', personality: 'balanced', balance: 1 },
+      { name: 'broke', type: 'CATALOG', personality: 'balanced', balance: 0.01 },
+      { name: 'reviewer', type: 'REVIEW', personality: 'balanced', balance: 1 },
+    ]);
+    const { result } = await runRound(world, [CATALOG_TASK], { roundNumber: 1 });
+
+    const bidders = [...world.store.bids.values()].map(b => world.store.agents.get(b.agent_id)!.name);
+    expect(bidders).toEqual(['catalog']);
+    expect(result.bidsPlaced).toBe(1);
+  });
+
+  it('leaves a task nobody can afford unassigned', async () => {
+    const world = createWorld([
+      { name: 'catalog', type: 'CATALOG', personality: 'balanced', balance: 1 },
+    ]);
+    const { result, tasks } = await runRound(world, [{ type: 'CATALOG', maxBid: 0.01 }], { roundNumber: 1 });
+
+    expect(result.bidsPlaced).toBe(0);
+    expect(result.tasksCompleted).toBe(0);
+    expect(world.store.tasks.get(tasks[0].id)!.assigned_agent_id ?? null).toBeNull();
+  });
+});
@@ -0,0 +1,146 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { AGENT_COSTS } from '@/lib/agent-runtime/constants';
+import { createRng } from '@/lib/random';
+import type { AgentType } from '@/types/database';
+import { createWorld, runRound } from './helpers';
+
+// On-chain payments out of agent wallets, counted instead of sent
+const chain = vi.hoisted(() => ({
+  payOperationalCostToSink: vi.fn(async (_walletId: string, _amount: number, _key?: string) => ({ transaction_hash: '0xsink' })),
+}));
+vi.mock('@/lib/privy-server', () => chain);
+
+const CATALOG_TASK = { type: 'CATALOG' as const, maxBid: 2 };
+const OFFLINE = { useBlockchain: false, useLLM: false, livingCostPerRound: 0.005 };
+
+describe('RoundProcessor re-runs', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    chain.payOperationalCostToSink.mockClear();
+  });
+
+  it('charges nothing twice when a finished round is re-run', async () => {
+    const world = createWorld([
+      { name: 'balanced', type: 'CATALOG', personality: 'balanced', balance: 1 },
+      { name: 'aggressive', type: 'CATALOG', personality: 'aggressive', balance: 1 },
+    ]);
+    const { tasks } = await runRound(world, [CATALOG_TASK], { roundNumber: 1 });
+    const balances = [...world.store.agents.values()].map(a => a.balance);
+    const entries = world.store.ledger.length;
+
+    const agents = await world.services.agentService.getActiveAgents();
+    const rerun = await world.services.roundProcessor.processRound(tasks, agents, {
+      ...OFFLINE, roundNumber: 1, rng: createRng(1),
+    });
+
+    expect(rerun.bidsPlaced).toBe(0);
+    expect(rerun.tasksCompleted).toBe(0);
+    expect([...world.store.agents.values()].map(a => a.balance)).toEqual(balances);
+    expect(world.store.ledger).toHaveLength(entries);
+  });
+
+  it('charges the bid fee of every batch an agent submits in a round', async () => {
+    const world = createWorld([{ name: 'solo', type: 'CATALOG', balance: 1 }]);
+    const [agent] = [...world.store.agents.values()];
+    const tasks = await world.services.taskService.createBatchTasks([CATALOG_TASK, CATALOG_TASK], createRng(1));
+    const costs = new Map([[agent.id, AGENT_COSTS[agent.type as AgentType]]]);
+
+    for (const task of tasks) {
+      await world.services.auctionService.submitBatchBids([{
+        taskId: task.id, agentId: agent.id, bidderWallet: agent.wallet_address!, amount: 0.5, score: 1, roundNumber: 1,
+      }], costs);
+    }
+
+    const fees = world.store.ledger.filter(e => e.entry_type === 'bid_fee' && e.credit_account === `agent:${agent.id}`);
+    expect(fees).toHaveLength(2);
+    expect(new Set(fees.map(e => e.bid_id)).size).toBe(2);
+  });
+
+  it('delivers a task a crashed attempt assigned but never delivered', async () => {
+    const world = createWorld([
+      { name: 'balanced', type: 'CATALOG', personality: 'balanced', balance: 1 },
+      { name: 'aggressive', type: 'CATALOG', personality: 'aggressive', balance: 1 },
+    ]);
+    const { agentService, auctionService, taskService, roundProcessor, ledgerService } = world.services;
+    const agents = await agentService.getActiveAgents();
+    const [task] = await taskService.createBatchTasks([CATALOG_TASK], createRng(1));
+
+    // The earlier attempt got as far as closing the auction
+    await auctionService.submitBatchBids(agents.map((agent, i) => ({
+      taskId: task.id, agentId: agent.id, bidderWallet: agent.wallet_address, amount: 0.5 + i * 0.1, score: 1, roundNumber: 1,
+    })));
+    const auction = await auctionService.closeAuction(task, agents);
+    expect(world.store.tasks.get(task.id)!.status).toBe('ASSIGNED');
+
+    const result = await roundProcessor.processRound([task], agents, { ...OFFLINE, roundNumber: 1, rng: createRng(1) });
+
+    expect(result.tasksCompleted).toBe(1);
+    expect(result.taskFailures).toEqual([]);
+    expect(world.store.tasks.get(task.id)!.status).toBe('COMPLETED');
+    const deliverables = world.store.deliverables.filter(d => d.task_id === task.id);
+    expect(deliverables.map(d => d.bid_id)).toEqual([auction!.winningBid.id]);
+    expect((await ledgerService.audit())?.drifted).toEqual([]);
+  });
+
+  it('settles a task once when two settlements race', async () => {
+    const world = createWorld([{ name: 'solo', type: 'CATALOG', balance: 1, reputation: 3 }]);
+    const { agentService, auctionService, taskService, economyService } = world.services;
+    const [agent] = await agentService.getActiveAgents();
+    const [task] = await taskService.createBatchTasks([CATALOG_TASK], createRng(1));
+    const [bid] = await auctionService.submitBatchBids([{
+      taskId: task.id, agentId: agent.id, bidderWallet: agent.wallet_address, amount: 0.5, score: 1, roundNumber: 1,
+    }]);
+
+    const settle = () => economyService.processTaskCompletion(task, bid, { ...agent }, { useBlockchain: false, qualityScore: 1 });
+    const results = await Promise.all([settle(), settle()]);
+
+    expect(results.filter(r => r.revenue > 0)).toHaveLength(1);
+    expect(world.store.ledger.filter(e => e.entry_type === 'revenue')).toHaveLength(1);
+    const settled = world.store.agents.get(agent.id)!;
+    expect(settled.tasks_completed).toBe(1);
+    const winner = results.find(r => r.revenue > 0)!;
+    expect(settled.reputation).toBeCloseTo(3 + winner.reputationChange, 3);
+  });
+
+  it('pays living costs on chain once, and only what the ledger took, when runs overlap', async () => {
+    const world = createWorld([{ name: 'broke', type: 'CATALOG', balance: 0.002, chain_agent_id: null }]);
+    const [stored] = [...world.store.agents.values()];
+    world.store.agents.set(stored.id, { ...stored, privy_wallet_id: 'wallet-broke' });
+    const agents = await world.services.agentService.getActiveAgents();
+
+    const charge = () => world.services.economyService.deductLivingCosts(
+      agents.map(a => ({ ...a })), 0.005, 1, { useBlockchain: true }
+    );
+    await Promise.all([charge(), charge()]);
+    await charge();
+
+    expect(chain.payOperationalCostToSink).toHaveBeenCalledTimes(1);
+    expect(chain.payOperationalCostToSink).toHaveBeenCalledWith('wallet-broke', 0.002, expect.any(String));
+    expect(world.store.agents.get(stored.id)!.balance).toBe(0);
+  });
+
+  it('pays a failure fee and bond forfeit on chain once when sweeps overlap', async () => {
+    const world = createWorld([{ name: 'late', type: 'CATALOG', balance: 1, chain_agent_id: null }]);
+    const [stored] = [...world.store.agents.values()];
+    world.store.agents.set(stored.id, { ...stored, privy_wallet_id: 'wallet-late' });
+    const { agentService, auctionService, taskService, economyService, ledgerService } = world.services;
+    const [agent] = await agentService.getActiveAgents();
+    const [task] = await taskService.createBatchTasks([CATALOG_TASK], createRng(1));
+    const [bid] = await auctionService.submitBatchBids([{
+      taskId: task.id, agentId: agent.id, bidderWallet: agent.wallet_address, amount: 0.5, score: 1, roundNumber: 1,
+    }], undefined, 1000);
+    expect(bid.bond_status).toBe('LOCKED');
+
+    const fail = () => economyService.processTaskFailure(task, bid, { ...agent }, { useBlockchain: true, roundNumber: 2 });
+    const results = await Promise.all([fail(), fail()]);
+    await fail();
+
+    expect(results.filter(r => r.penalty > 0)).toHaveLength(1);
+    const paid = chain.payOperationalCostToSink.mock.calls.map(([, amount]) => amount);
+    const penalty = results.find(r => r.penalty > 0)!;
+    expect(paid.sort()).toEqual([penalty.penalty, penalty.bondForfeited].sort());
+    expect(world.store.agents.get(agent.id)!.tasks_failed).toBe(1);
+    expect((await ledgerService.audit())?.drifted).toEqual([]);
+  });
+});
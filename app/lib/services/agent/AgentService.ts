@@ -5,10 +5,11 @@
  * Used by both simulation and real runtime.
  */
 
-import { supabase } from '@/lib/supabase';
+import { defaultRepositories, type Repositories } from '../repositories';
 import { PERSONALITY_DEFAULTS, AGENT_COSTS } from '@/lib/agent-runtime/constants';
 import type { AgentWithPolicy, AgentStatsUpdate, PersonalityType, TaskType } from '../types';
 import type { AgentType } from '@/types/database';
+import type { AgentPolicy } from '@/lib/agent-runtime/types';
 
 // Map task types to compatible agent types
 const TASK_TO_AGENT_TYPE: Record<TaskType, AgentType> = {
@@ -19,15 +20,13 @@ const TASK_TO_AGENT_TYPE: Record<TaskType, AgentType> = {
 };
 
 export class AgentService {
+  constructor(private readonly repos: Repositories = defaultRepositories) {}
+
   /**
    * Get all active agents with their policies and personalities
    */
   async getActiveAgents(): Promise<AgentWithPolicy[]> {
-    const { data: agents, error } = await supabase
-      .from('agents')
-      .select('*')
-      .in('status', ['ACTIVE', 'LOW_FUNDS'])
-      .gt('balance', 0);
+    const { data: agents, error } = await this.repos.agents.listActive();
 
     if (error || !agents) {
       console.error('[AgentService] Failed to load agents:', error);
@@ -41,11 +40,7 @@ export class AgentService {
    * Get a single agent by ID with policy
    */
   async getAgentById(agentId: string): Promise<AgentWithPolicy | null> {
-    const { data: agent, error } = await supabase
-      .from('agents')
-      .select('*')
-      .eq('id', agentId)
-      .single();
+    const { data: agent, error } = await this.repos.agents.findById(agentId);
 
     if (error || !agent) {
       return null;
@@ -59,12 +54,7 @@ export class AgentService {
    * Get agents by type
    */
   async getAgentsByType(type: AgentType): Promise<AgentWithPolicy[]> {
-    const { data: agents, error } = await supabase
-      .from('agents')
-      .select('*')
-      .eq('type', type)
-      .eq('status', 'ACTIVE')
-      .gt('balance', 0);
+    const { data: agents, error } = await this.repos.agents.listByType(type);
 
     if (error || !agents) {
       return [];
@@ -85,10 +75,7 @@ export class AgentService {
    * Update agent stats (balance, reputation, etc.)
    */
   async updateAgentStats(agentId: string, updates: AgentStatsUpdate): Promise<void> {
-    const { error } = await supabase
-      .from('agents')
-      .update(updates)
-      .eq('id', agentId);
+    const { error } = await this.repos.agents.update(agentId, updates);
 
     if (error) {
       console.error(`[AgentService] Failed to update agent ${agentId}:`, error);
@@ -101,10 +88,7 @@ export class AgentService {
   async refreshAgentData(agents: AgentWithPolicy[]): Promise<AgentWithPolicy[]> {
     const agentIds = agents.map(a => a.id);
 
-    const { data: freshAgents, error } = await supabase
-      .from('agents')
-      .select('*')
-      .in('id', agentIds);
+    const { data: freshAgents, error } = await this.repos.agents.findByIds(agentIds);
 
     if (error || !freshAgents) {
       return agents; // Return original on error
@@ -116,14 +100,8 @@ export class AgentService {
   /**
    * Load policy for a specific agent
    */
-  async loadAgentPolicy(agentId: string): Promise<Record<string, unknown> | null> {
-    const { data, error } = await supabase
-      .from('agent_policies')
-      .select('policy_json')
-      .eq('agent_id', agentId)
-      .order('created_at', { ascending: false })
-      .limit(1)
-      .single();
+  async loadAgentPolicy(agentId: string): Promise<AgentPolicy | null> {
+    const { data, error } = await this.repos.policies.latest(agentId);
 
     if (error || !data) {
       return null;
@@ -137,19 +115,12 @@ export class AgentService {
    */
   private async enrichAgentsWithPolicies(agents: any[]): Promise<AgentWithPolicy[]> {
     // Load all policies in parallel
-    const policyPromises = agents.map(agent =>
-      supabase
-        .from('agent_policies')
-        .select('policy_json')
-        .eq('agent_id', agent.id)
-        .order('created_at', { ascending: false })
-        .limit(1)
-    );
+    const policyPromises = agents.map(agent => this.repos.policies.latest(agent.id));
 
     const policyResults = await Promise.all(policyPromises);
 
     return agents.map((agent, index) => {
-      const policyData = policyResults[index].data?.[0]?.policy_json || null;
+      const policyData = policyResults[index].data?.policy_json || null;
       const personality = (agent.personality as PersonalityType) || 'balanced';
       const agentType = agent.type as AgentType;
 
@@ -2,55 +2,107 @@
  * AuctionService - Auction and bid management
  *
  * Handles bid submission, winner selection, and auction closure.
- * Uses shared scoring logic from autopilot.
+ * Uses shared scoring logic from autopilot; clearing rules come from
+ * pluggable mechanisms (see ./mechanisms.ts).
  */
 
-import { supabase } from '@/lib/supabase';
 import { calculateBidScore } from '@/lib/agent-runtime/autopilot';
-import { createEvent } from '@/lib/api-helpers';
-import { economyService } from '../economy/EconomyService';
+import { BID_BOND_BPS, TASK_DELIVERY_WINDOW_MINUTES } from '@/lib/platform-config';
+import { economyService, type EconomyService } from '../economy/EconomyService';
+import { ledgerKey } from '../ledger/LedgerService';
+import { outboxService, type OutboxService } from '../outbox/OutboxService';
+import { defaultRepositories, type Repositories } from '../repositories';
+import { createAuctionMechanism, DEFAULT_AUCTION_MECHANISM } from './mechanisms';
+import type { Rng } from '@/lib/random';
 import type { AgentCostStructure } from '@/lib/agent-runtime/types';
-import type { Bid, SubmitBidInput, WinnerResult, AuctionResult, AgentWithPolicy, Task } from '../types';
+import type {
+  Bid,
+  SubmitBidInput,
+  WinnerResult,
+  AuctionResult,
+  AgentWithPolicy,
+  Task,
+  AdditionalWinner,
+  AuctionMechanismConfig,
+  AuctionMechanismType,
+} from '../types';
+
+/** Delivery deadline for a task assigned now */
+function deliveryDeadline(): string {
+  return new Date(Date.now() + TASK_DELIVERY_WINDOW_MINUTES * 60 * 1000).toISOString();
+}
+
+/** Bond locked for a bid of this amount */
+function bidBond(amount: number, bondBps: number): number {
+  return Math.round(amount * (bondBps / 10000) * 1e6) / 1e6;
+}
 
 export class AuctionService {
+  constructor(
+    private readonly repos: Repositories = defaultRepositories,
+    private readonly economy: EconomyService = economyService,
+    private readonly outbox: OutboxService = outboxService
+  ) {}
+
   /**
    * Submit a single bid
    */
   async submitBid(input: SubmitBidInput): Promise<Bid | null> {
-    const { data, error } = await supabase
-      .from('bids_cache')
-      .insert({
-        task_id: input.taskId,
-        agent_id: input.agentId,
-        bidder_wallet: input.bidderWallet,
-        amount: input.amount,
-        status: 'PENDING',
-        policy_used: input.policyUsed || null,
-        round_number: input.roundNumber || null,
-        created_at: new Date().toISOString(),
-      })
-      .select()
-      .single();
+    const { data, error } = await this.repos.bids.insert([{
+      task_id: input.taskId,
+      agent_id: input.agentId,
+      bidder_wallet: input.bidderWallet,
+      amount: input.amount,
+      status: 'PENDING',
+      policy_used: input.policyUsed || null,
+      round_number: input.roundNumber || null,
+      created_at: new Date().toISOString(),
+    }]);
 
-    if (error) {
+    if (error || !data?.[0]) {
       console.error('[AuctionService] Failed to submit bid:', error);
       return null;
     }
 
-    return data as Bid;
+    return data[0];
   }
 
   /**
    * Submit multiple bids in batch.
    * If agentCostsMap is provided, deducts bid submission cost per agent.
+   * With bid bonds on (bondBps > 0), each bid first locks its bond from the
+   * agent's balance; bids whose bond the balance can't cover are dropped.
+   * Bids an agent already placed on a task (a re-run round) are dropped
+   * too, and per-round bid fees are charged at most once.
    */
   async submitBatchBids(
     inputs: SubmitBidInput[],
-    agentCostsMap?: Map<string, AgentCostStructure>
+    agentCostsMap?: Map<string, AgentCostStructure>,
+    bondBps: number = BID_BOND_BPS
   ): Promise<Bid[]> {
     if (inputs.length === 0) return [];
 
-    const bidsToInsert = inputs.map(input => ({
+    const fresh: SubmitBidInput[] = [];
+    for (const input of inputs) {
+      if (await this.hasAgentBidOnTask(input.agentId, input.taskId)) {
+        console.log(`[AuctionService] Skipped bid from ${input.agentId} on ${input.taskId}: already bid`);
+        continue;
+      }
+      fresh.push(input);
+    }
+
+    const bonded: Array<{ input: SubmitBidInput; bond: number }> = [];
+    for (const input of fresh) {
+      const bond = bidBond(input.amount, bondBps);
+      if (await this.economy.lockBidBond(input.agentId, bond)) {
+        bonded.push({ input, bond });
+      } else {
+        console.log(`[AuctionService] Dropped bid from ${input.agentId} on ${input.taskId}: balance can't cover $${bond.toFixed(4)} bond`);
+      }
+    }
+    if (bonded.length === 0) return [];
+
+    const bidsToInsert = bonded.map(({ input, bond }) => ({
       task_id: input.taskId,
       agent_id: input.agentId,
       bidder_wallet: input.bidderWallet,
@@ -58,65 +110,68 @@ export class AuctionService {
       status: 'PENDING',
       policy_used: input.policyUsed || null,
       round_number: input.roundNumber || null,
+      ...(bond > 0 ? { bond_amount: bond, bond_status: 'LOCKED' as const } : {}),
+      ...(input.partnershipId ? { partnership_id: input.partnershipId } : {}),
       created_at: new Date().toISOString(),
     }));
 
-    const { data, error } = await supabase
-      .from('bids_cache')
-      .insert(bidsToInsert)
-      .select();
+    const { data, error } = await this.repos.bids.insert(bidsToInsert);
 
     if (error) {
       console.error('[AuctionService] Failed to submit batch bids:', JSON.stringify(error));
       console.error('[AuctionService] First bid sample:', JSON.stringify(bidsToInsert[0]));
+      for (const { input, bond } of bonded) {
+        await this.economy.unlockBidBond(input.agentId, bond);
+      }
       return [];
     }
 
-    // Deduct bid costs per agent if costs map provided
+    // Deduct each bid's submission fee if costs map provided. Keyed per bid
+    // (like submitBid), so several batches from one agent in a round are each
+    // charged and a retried insert of the same bid isn't.
     if (agentCostsMap && data) {
-      const deductions = new Map<string, number>();
-      for (const bid of inputs) {
-        const costs = agentCostsMap.get(bid.agentId);
-        if (costs) {
-          const current = deductions.get(bid.agentId) || 0;
-          deductions.set(bid.agentId, current + costs.per_bid.bid_submission);
-        }
-      }
-      for (const [agentId, totalCost] of deductions) {
-        await economyService.adjustBalance(agentId, -totalCost);
+      const rounds = new Map(bonded.map(({ input }) => [input.agentId, input.roundNumber ?? null]));
+      for (const bid of data) {
+        const costs = agentCostsMap.get(bid.agent_id);
+        if (!costs) continue;
+        await this.economy.adjustBalance(bid.agent_id, -costs.per_bid.bid_submission, 'bid_fee', {
+          roundNumber: rounds.get(bid.agent_id) ?? null, taskId: bid.task_id, bidId: bid.id,
+          idempotencyKey: ledgerKey('bid', bid.id, 'bid_fee'),
+        });
       }
     }
 
-    return (data || []) as Bid[];
+    return data || [];
   }
 
   /**
    * Get all bids for a task
    */
   async getBidsForTask(taskId: string): Promise<Bid[]> {
-    const { data, error } = await supabase
-      .from('bids_cache')
-      .select('*')
-      .eq('task_id', taskId)
-      .order('amount', { ascending: true });
+    const { data, error } = await this.repos.bids.listForTask(taskId);
 
     if (error) {
       console.error('[AuctionService] Failed to get bids for task:', error);
       return [];
     }
 
-    return (data || []) as Bid[];
+    return data || [];
   }
 
   /**
-   * Select winner for a task based on highest score
-   * Score = (50 + sqrt(reputation)) / bid
+   * Select winner(s) for a task.
+   * Bids are ranked by score = (100 + reputation * 2) / bid, then the
+   * auction mechanism decides who wins and the clearing price.
+   * Equal scores are tie-broken by rng when given (seeded runs), otherwise
+   * they keep DB order.
    */
   async selectWinner(
-    taskId: string,
-    agents: AgentWithPolicy[]
+    task: Task,
+    agents: AgentWithPolicy[],
+    mechanismConfig: AuctionMechanismConfig = DEFAULT_AUCTION_MECHANISM,
+    rng?: Rng
   ): Promise<WinnerResult | null> {
-    const bids = await this.getBidsForTask(taskId);
+    const bids = await this.getBidsForTask(task.id);
     if (bids.length === 0) return null;
 
     // Calculate scores from agent reputation and bid amount
@@ -128,54 +183,82 @@ export class AuctionService {
       return { ...bid, score };
     });
 
-    // Sort by score descending (highest score wins)
-    const sortedBids = bidsWithScores.sort((a, b) => b.score - a.score);
-    const winningBid = sortedBids[0];
+    // Sort by score descending (highest score ranks first).
+    // Seeded runs break equal scores randomly: bids are put in agent_id order
+    // before drawing so the draw doesn't depend on DB row order.
+    let sortedBids: typeof bidsWithScores;
+    if (rng) {
+      sortedBids = [...bidsWithScores]
+        .sort((a, b) => a.agent_id.localeCompare(b.agent_id))
+        .map(bid => ({ bid, tieBreak: rng.next() }))
+        .sort((a, b) => b.bid.score - a.bid.score || a.tieBreak - b.tieBreak)
+        .map(({ bid }) => bid);
+    } else {
+      sortedBids = bidsWithScores.sort((a, b) => b.score - a.score);
+    }
+
+    const mechanism = createAuctionMechanism(mechanismConfig);
+    const { winners } = mechanism.clear(sortedBids, task);
+    if (winners.length === 0) return null;
+
+    const [primary, ...others] = winners;
 
     // Find the winning agent
-    const agent = agents.find(a => a.id === winningBid.agent_id);
+    const agent = agents.find(a => a.id === primary.bid.agent_id);
     if (!agent) {
-      console.error('[AuctionService] Winning agent not found:', winningBid.agent_id);
+      console.error('[AuctionService] Winning agent not found:', primary.bid.agent_id);
       return null;
     }
 
+    const additionalWinners: AdditionalWinner[] = [];
+    for (const w of others) {
+      const otherAgent = agents.find(a => a.id === w.bid.agent_id);
+      if (otherAgent) {
+        additionalWinners.push({ bid: w.bid, agent: otherAgent, clearingPrice: w.clearingPrice });
+      }
+    }
+
     return {
-      winningBid,
+      winningBid: primary.bid,
       agent,
-      score: winningBid.score,
+      score: primary.bid.score,
       allBids: bidsWithScores,
+      mechanism: mechanism.type,
+      clearingPrice: primary.clearingPrice,
+      additionalWinners,
     };
   }
 
   /**
-   * Mark a bid as won
+   * Mark a bid as won, recording the mechanism and clearing price
    */
-  async markBidAsWon(bidId: string): Promise<Bid | null> {
-    const { data, error } = await supabase
-      .from('bids_cache')
-      .update({ status: 'WON' })
-      .eq('id', bidId)
-      .select()
-      .single();
+  async markBidAsWon(
+    bidId: string,
+    clearing?: { mechanism: AuctionMechanismType; clearingPrice: number }
+  ): Promise<Bid | null> {
+    const { data, error } = await this.repos.bids.update(bidId, {
+      status: 'WON',
+      ...(clearing ? { auction_mechanism: clearing.mechanism, clearing_price: clearing.clearingPrice } : {}),
+    });
 
     if (error) {
       console.error('[AuctionService] Failed to mark bid as won:', error);
       return null;
     }
 
-    return data as Bid;
+    return data;
   }
 
   /**
    * Mark multiple bids as lost
    */
-  async markBidsAsLost(bidIds: string[]): Promise<number> {
+  async markBidsAsLost(bidIds: string[], mechanism?: AuctionMechanismType): Promise<number> {
     if (bidIds.length === 0) return 0;
 
-    const { error, count } = await supabase
-      .from('bids_cache')
-      .update({ status: 'LOST' })
-      .in('id', bidIds);
+    const { error, data: count } = await this.repos.bids.updateMany(bidIds, {
+      status: 'LOST',
+      ...(mechanism ? { auction_mechanism: mechanism } : {}),
+    });
 
     if (error) {
       console.error('[AuctionService] Failed to mark bids as lost:', error);
@@ -186,65 +269,180 @@ export class AuctionService {
   }
 
   /**
-   * Close an auction: select winner, update bids, assign task
+   * Close an auction: select winner(s), update bids, assign task.
+   * The primary winner is assigned to the task; sealed_multi may add more winners.
    */
   async closeAuction(
     task: Task,
-    agents: AgentWithPolicy[]
+    agents: AgentWithPolicy[],
+    mechanismConfig?: AuctionMechanismConfig,
+    rng?: Rng
   ): Promise<AuctionResult | null> {
-    const winnerResult = await this.selectWinner(task.id, agents);
+    const winnerResult = await this.selectWinner(task, agents, mechanismConfig, rng);
     if (!winnerResult) {
       return null;
     }
 
-    const { winningBid, agent, allBids } = winnerResult;
+    const { winningBid, agent, allBids, mechanism, clearingPrice, additionalWinners } = winnerResult;
 
-    // Mark winning bid
-    await this.markBidAsWon(winningBid.id);
+    // Mark winning bids with the clearing price each will be paid
+    await this.markBidAsWon(winningBid.id, { mechanism, clearingPrice });
+    for (const extra of additionalWinners) {
+      await this.markBidAsWon(extra.bid.id, { mechanism, clearingPrice: extra.clearingPrice });
+    }
 
     // Mark losing bids
-    const losingBidIds = allBids
-      .filter(b => b.id !== winningBid.id)
-      .map(b => b.id);
-    await this.markBidsAsLost(losingBidIds);
+    const winningBidIds = new Set([winningBid.id, ...additionalWinners.map(w => w.bid.id)]);
+    const losingBids = allBids.filter(b => !winningBidIds.has(b.id));
+    const losingBidIds = losingBids.map(b => b.id);
+    await this.markBidsAsLost(losingBidIds, mechanism);
 
     // Update task to ASSIGNED with winner info (task-delivery endpoint needs this)
-    const { error: taskUpdateError } = await supabase.from('tasks').update({
+    const { error: taskUpdateError } = await this.repos.tasks.updateMany([task.id], {
       status: 'ASSIGNED',
       assigned_agent_id: agent.id,
       winning_bid_id: winningBid.id,
-    }).eq('id', task.id);
+      delivery_deadline: deliveryDeadline(),
+    });
 
     if (taskUpdateError) {
       console.error(`[AuctionService] Failed to update task ${task.id} to ASSIGNED:`, taskUpdateError);
     }
 
     // Record task_assigned event
-    createEvent({
+    const extraWinners = additionalWinners.length > 0 ? ` +${additionalWinners.length} co-winners` : '';
+    await this.outbox.dispatch('event', {
       event_type: 'task_assigned',
-      description: `Task ${task.type} assigned to ${agent.name} for ${winningBid.amount.toFixed(4)} USDC (score: ${winningBid.score.toFixed(1)}, ${allBids.length} bids)`,
-      agent_wallets: [agent.wallet_address],
-      amount: winningBid.amount,
+      description: `Task ${task.type} assigned to ${agent.name} for ${clearingPrice.toFixed(4)} USDC via ${mechanism} (bid ${winningBid.amount.toFixed(4)}, score: ${winningBid.score.toFixed(1)}, ${allBids.length} bids${extraWinners})`,
+      agent_wallets: [agent.wallet_address, ...additionalWinners.map(w => w.agent.wallet_address)],
+      amount: clearingPrice,
       metadata: {
         task_id: task.id,
         task_type: task.type,
         winning_bid: winningBid.amount,
         score: winningBid.score,
         total_bids: allBids.length,
+        auction_mechanism: mechanism,
+        clearing_price: clearingPrice,
+        additional_winners: additionalWinners.map(w => ({
+          agent_id: w.agent.id, bid_id: w.bid.id, bid: w.bid.amount, clearing_price: w.clearingPrice,
+        })),
         currency: 'USDC',
       },
-    }).catch(() => {}); // Non-blocking
+    });
 
     return {
       task,
       winningBid,
       agent,
       losingBidIds,
-      losingBids: allBids.filter(b => b.id !== winningBid.id),
-      revenue: winningBid.amount,
+      losingBids,
+      revenue: clearingPrice,
+      mechanism,
+      clearingPrice,
+      additionalWinners,
     };
   }
 
+  /**
+   * Reassign a task whose winner missed the delivery deadline.
+   * The failed bid is marked FAILED and the task's mechanism is cleared
+   * again over the LOST bids of agents still in the round, so the runner-up
+   * must meet the reserve and is paid what the mechanism sets (a second
+   * price against the next remaining bid, capped at max_bid). The config is
+   * the one the auction closed with; when the failed bid records another
+   * mechanism, that one runs with its defaults. A runner-up that posted a
+   * bond must lock it again to take the task. Returns null when no
+   * runner-up is left.
+   */
+  async reassignToRunnerUp(
+    task: Task,
+    failedBid: Bid,
+    agents: AgentWithPolicy[],
+    mechanismConfig: AuctionMechanismConfig = DEFAULT_AUCTION_MECHANISM
+  ): Promise<{ bid: Bid; agent: AgentWithPolicy; clearingPrice: number } | null> {
+    await this.repos.bids.update(failedBid.id, { status: 'FAILED' });
+
+    const config = failedBid.auction_mechanism && failedBid.auction_mechanism !== mechanismConfig.type
+      ? { type: failedBid.auction_mechanism }
+      : mechanismConfig;
+    const mechanism = createAuctionMechanism(config);
+
+    const bids = await this.getBidsForTask(task.id);
+    let candidates = bids
+      .filter(b => String(b.status).toUpperCase() === 'LOST' && b.agent_id !== failedBid.agent_id)
+      .map(bid => {
+        const agent = agents.find(a => a.id === bid.agent_id);
+        return { bid: { ...bid, score: agent ? calculateBidScore(agent.reputation, bid.amount) : 0 }, agent };
+      })
+      .filter((c): c is { bid: Bid & { score: number }; agent: AgentWithPolicy } => !!c.agent)
+      .sort((a, b) => b.bid.score - a.bid.score);
+
+    // Clear over what's left; a candidate whose bond can't be locked drops out and the rest clear again
+    let runnerUp: { bid: Bid & { score: number }; agent: AgentWithPolicy; clearingPrice: number } | undefined;
+    while (!runnerUp && candidates.length > 0) {
+      const [top] = mechanism.clear(candidates.map(c => c.bid), task).winners;
+      if (!top) return null;
+      const candidate = candidates.find(c => c.bid.id === top.bid.id)!;
+      const bond = Number(candidate.bid.bond_amount || 0);
+      if (await this.economy.lockBidBond(candidate.agent.id, bond)) {
+        runnerUp = { ...candidate, clearingPrice: top.clearingPrice };
+      } else {
+        candidates = candidates.filter(c => c !== candidate);
+      }
+    }
+    if (!runnerUp) return null;
+
+    const { clearingPrice } = runnerUp;
+    const bond = Number(runnerUp.bid.bond_amount || 0);
+    const won = await this.repos.bids.update(runnerUp.bid.id, {
+      status: 'WON',
+      auction_mechanism: mechanism.type,
+      clearing_price: clearingPrice,
+      ...(bond > 0 ? { bond_status: 'LOCKED' as const } : {}),
+    });
+    const { error: taskUpdateError } = won.error
+      ? won
+      : await this.repos.tasks.update(task.id, {
+          assigned_agent_id: runnerUp.agent.id,
+          winning_bid_id: runnerUp.bid.id,
+          delivery_deadline: deliveryDeadline(),
+        });
+
+    if (taskUpdateError) {
+      // Undo the bid and its bond so the runner-up isn't left WON with funds locked for a task it doesn't hold
+      console.error(`[AuctionService] Failed to reassign task ${task.id}:`, taskUpdateError);
+      await this.repos.bids.update(runnerUp.bid.id, {
+        status: 'LOST',
+        auction_mechanism: runnerUp.bid.auction_mechanism ?? null,
+        clearing_price: runnerUp.bid.clearing_price ?? null,
+        bond_status: runnerUp.bid.bond_status ?? null,
+      });
+      await this.economy.unlockBidBond(runnerUp.agent.id, bond, { bidId: runnerUp.bid.id, taskId: task.id });
+      return null;
+    }
+
+    await this.outbox.dispatch('event', {
+      event_type: 'task_reassigned',
+      description: `Task ${task.type} reassigned to runner-up ${runnerUp.agent.name} for ${clearingPrice.toFixed(4)} USDC after a missed delivery`,
+      agent_wallets: [runnerUp.agent.wallet_address],
+      amount: clearingPrice,
+      metadata: {
+        task_id: task.id,
+        task_type: task.type,
+        failed_bid_id: failedBid.id,
+        failed_agent_id: failedBid.agent_id,
+        bid_id: runnerUp.bid.id,
+        score: runnerUp.bid.score,
+        auction_mechanism: mechanism.type,
+        clearing_price: clearingPrice,
+        currency: 'USDC',
+      },
+    });
+
+    return { bid: runnerUp.bid, agent: runnerUp.agent, clearingPrice };
+  }
+
   /**
    * Calculate bid score using shared autopilot logic
    */
@@ -259,30 +457,20 @@ export class AuctionService {
     agentId: string,
     limit: number = 20
   ): Promise<Bid[]> {
-    const { data, error } = await supabase
-      .from('bids_cache')
-      .select('*')
-      .eq('agent_id', agentId)
-      .order('created_at', { ascending: false })
-      .limit(limit);
+    const { data, error } = await this.repos.bids.listForAgent(agentId, limit);
 
     if (error) {
       return [];
     }
 
-    return (data || []) as Bid[];
+    return data || [];
   }
 
   /**
    * Check if an agent has already bid on a task
    */
   async hasAgentBidOnTask(agentId: string, taskId: string): Promise<boolean> {
-    const { data, error } = await supabase
-      .from('bids_cache')
-      .select('id')
-      .eq('task_id', taskId)
-      .eq('agent_id', agentId)
-      .limit(1);
+    const { data, error } = await this.repos.bids.findByAgentAndTask(agentId, taskId);
 
     if (error) return false;
     return (data && data.length > 0) || false;
@@ -291,6 +479,7 @@ export class AuctionService {
   /**
    * Submit a bid for an agent (used by runner.ts).
    * If costs are provided, deducts bid submission cost from agent balance.
+   * Returns null when the agent's balance can't cover the bid bond.
    */
   async submitBidForAgent(
     agentId: string,
@@ -298,32 +487,39 @@ export class AuctionService {
     amount: number,
     _reputation: number,
     walletAddress: string,
-    costs?: AgentCostStructure
+    costs?: AgentCostStructure,
+    bondBps: number = BID_BOND_BPS
   ): Promise<Bid | null> {
-    const { data, error } = await supabase
-      .from('bids_cache')
-      .insert({
-        task_id: taskId,
-        agent_id: agentId,
-        bidder_wallet: walletAddress,
-        amount: amount,
-        status: 'PENDING',
-        created_at: new Date().toISOString(),
-      })
-      .select()
-      .single();
+    const bond = bidBond(amount, bondBps);
+    if (!(await this.economy.lockBidBond(agentId, bond))) {
+      console.log(`[AuctionService] Bid from ${agentId} on ${taskId} rejected: balance can't cover $${bond.toFixed(4)} bond`);
+      return null;
+    }
 
-    if (error) {
+    const { data, error } = await this.repos.bids.insert([{
+      task_id: taskId,
+      agent_id: agentId,
+      bidder_wallet: walletAddress,
+      amount: amount,
+      status: 'PENDING',
+      ...(bond > 0 ? { bond_amount: bond, bond_status: 'LOCKED' as const } : {}),
+      created_at: new Date().toISOString(),
+    }]);
+
+    if (error || !data?.[0]) {
       console.error('[AuctionService] Failed to submit bid for agent:', error);
+      await this.economy.unlockBidBond(agentId, bond);
       return null;
     }
 
     // Deduct bid submission cost if costs provided
     if (costs) {
-      await economyService.adjustBalance(agentId, -costs.per_bid.bid_submission);
+      await this.economy.adjustBalance(agentId, -costs.per_bid.bid_submission, 'bid_fee', {
+        taskId, bidId: data[0].id, idempotencyKey: ledgerKey('bid', data[0].id, 'bid_fee'),
+      });
     }
 
-    return data as Bid;
+    return data[0];
   }
 }
 
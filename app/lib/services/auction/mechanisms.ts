@@ -0,0 +1,163 @@
+/**
+ * Auction Mechanisms - Pluggable clearing rules for task auctions
+ *
+ * A mechanism takes the scored bids for a task and decides:
+ * - which bids win
+ * - what each winner gets paid (the clearing price)
+ *
+ * Scoring is shared (calculateBidScore from autopilot); mechanisms only
+ * change who wins and at what price. Tasks are procurement auctions, so a
+ * lower bid scores higher and the operator pays the winner.
+ *
+ * Mechanisms:
+ * - first_price:   Highest score wins, paid its own bid (legacy behavior)
+ * - second_price:  Highest score wins, paid the runner-up's price (Vickrey)
+ * - reserve_price: First-price, but bids above a reserve are ineligible
+ * - sealed_multi:  Top-N scores all win, each paid its own bid
+ */
+
+import type { AuctionConfig, AuctionMechanismConfig, AuctionMechanismType, Bid, Task, TaskType } from '../types';
+
+/** Default mechanism when nothing is configured (keeps legacy behavior) */
+export const DEFAULT_AUCTION_MECHANISM: AuctionMechanismConfig = { type: 'first_price' };
+
+/** Default number of winners for sealed_multi */
+const DEFAULT_MULTI_WINNERS = 2;
+
+/** Default reserve as a fraction of task.max_bid for reserve_price */
+const DEFAULT_RESERVE_RATIO = 1.0;
+
+export interface ClearedWinner {
+  bid: Bid;
+  clearingPrice: number;
+}
+
+export interface ClearingResult {
+  /** Winners in rank order (first is the primary assignee) */
+  winners: ClearedWinner[];
+  /** Bids that never competed (e.g. above the reserve) */
+  ineligible: Bid[];
+}
+
+export interface AuctionMechanism {
+  readonly type: AuctionMechanismType;
+  /**
+   * Clear an auction.
+   * @param rankedBids - Bids sorted by score descending (ties already broken)
+   * @param task - The task being auctioned
+   */
+  clear(rankedBids: Bid[], task: Task): ClearingResult;
+}
+
+/** Round a price to 6 decimals (USDC precision) */
+function roundPrice(amount: number): number {
+  return Math.round(amount * 1e6) / 1e6;
+}
+
+/**
+ * First-price sealed bid: highest score wins and is paid its own bid.
+ */
+export class FirstPriceMechanism implements AuctionMechanism {
+  readonly type = 'first_price' as const;
+
+  clear(rankedBids: Bid[]): ClearingResult {
+    if (rankedBids.length === 0) return { winners: [], ineligible: [] };
+    const top = rankedBids[0];
+    return { winners: [{ bid: top, clearingPrice: top.amount }], ineligible: [] };
+  }
+}
+
+/**
+ * Second-price sealed bid (Vickrey): highest score wins and is paid the
+ * runner-up's price.
+ *
+ * Because score blends price and reputation, the "runner-up's price" is the
+ * highest amount the winner could have bid and still tied the runner-up's
+ * score: price = winnerScore * winnerBid / runnerUpScore. With equal
+ * reputations this is exactly the runner-up's bid. Capped at task.max_bid.
+ *
+ * A lone bidder has no competitive price signal and is paid its own bid.
+ */
+export class SecondPriceMechanism implements AuctionMechanism {
+  readonly type = 'second_price' as const;
+
+  clear(rankedBids: Bid[], task: Task): ClearingResult {
+    if (rankedBids.length === 0) return { winners: [], ineligible: [] };
+    const top = rankedBids[0];
+    const runnerUp = rankedBids[1];
+
+    if (!runnerUp || runnerUp.score <= 0) {
+      return { winners: [{ bid: top, clearingPrice: top.amount }], ineligible: [] };
+    }
+
+    const priceAtRunnerUpScore = (top.score * top.amount) / runnerUp.score;
+    const clearingPrice = roundPrice(Math.min(task.max_bid, Math.max(top.amount, priceAtRunnerUpScore)));
+    return { winners: [{ bid: top, clearingPrice }], ineligible: [] };
+  }
+}
+
+/**
+ * Reserve-price first-price auction: bids above reserveRatio * max_bid are
+ * ineligible. If no bid meets the reserve, the auction clears with no winner.
+ */
+export class ReservePriceMechanism implements AuctionMechanism {
+  readonly type = 'reserve_price' as const;
+
+  constructor(private readonly reserveRatio: number = DEFAULT_RESERVE_RATIO) {}
+
+  clear(rankedBids: Bid[], task: Task): ClearingResult {
+    const reserve = task.max_bid * this.reserveRatio;
+    const eligible = rankedBids.filter(b => b.amount <= reserve);
+    const ineligible = rankedBids.filter(b => b.amount > reserve);
+
+    if (eligible.length === 0) return { winners: [], ineligible };
+    const top = eligible[0];
+    return { winners: [{ bid: top, clearingPrice: top.amount }], ineligible };
+  }
+}
+
+/**
+ * Sealed-bid multi-winner (pay-as-bid): the top N scores all win and each
+ * is paid its own bid. The first winner is the task's primary assignee.
+ */
+export class SealedMultiWinnerMechanism implements AuctionMechanism {
+  readonly type = 'sealed_multi' as const;
+
+  constructor(private readonly winnerCount: number = DEFAULT_MULTI_WINNERS) {}
+
+  clear(rankedBids: Bid[]): ClearingResult {
+    const count = Math.max(1, Math.floor(this.winnerCount));
+    return {
+      winners: rankedBids.slice(0, count).map(bid => ({ bid, clearingPrice: bid.amount })),
+      ineligible: [],
+    };
+  }
+}
+
+/**
+ * Build a mechanism instance from its config.
+ */
+export function createAuctionMechanism(config: AuctionMechanismConfig = DEFAULT_AUCTION_MECHANISM): AuctionMechanism {
+  switch (config.type) {
+    case 'second_price':
+      return new SecondPriceMechanism();
+    case 'reserve_price':
+      return new ReservePriceMechanism(config.reserveRatio);
+    case 'sealed_multi':
+      return new SealedMultiWinnerMechanism(config.winners);
+    case 'first_price':
+    default:
+      return new FirstPriceMechanism();
+  }
+}
+
+/**
+ * Resolve which mechanism applies to a task.
+ * Per-task-type overrides win over the round default.
+ */
+export function resolveMechanismConfig(
+  taskType: TaskType,
+  auction?: AuctionConfig
+): AuctionMechanismConfig {
+  return auction?.byTaskType?.[taskType] ?? auction?.default ?? DEFAULT_AUCTION_MECHANISM;
+}
@@ -2,25 +2,31 @@
  * BiddingService - Agent bid generation
  *
  * Generates bids for agents based on their policies and personalities.
- * Uses shared bidding logic from autopilot.
+ * Uses shared bidding logic from autopilot. Each agent may bid on several
+ * tasks per round, up to its round capacity (policy + balance).
+ * Composite tasks are bid on jointly by partnerships (see joint-bids.ts).
  */
 
 import {
   calculateAllInCost,
   calculateBidScore,
+  calculateRoundCapacity,
+  calculateTaskCost,
   evaluateAuction,
 } from '@/lib/agent-runtime/autopilot';
 import { PERSONALITY_DEFAULTS, AGENT_COSTS } from '@/lib/agent-runtime/constants';
-import type { AgentPolicy } from '@/lib/agent-runtime/types';
+import type { AgentCostStructure, AgentPolicy, RoundCapacity } from '@/lib/agent-runtime/types';
 import type {
   AgentWithPolicy,
   Task,
   BidDecision,
   SubmitBidInput,
   BidPolicyTrace,
+  SkippedBid,
   TaskType,
 } from '../types';
-import type { AgentType } from '@/types/database';
+import type { AgentType, PartnershipCache } from '@/types/database';
+import { combineCosts, findJointBidPartner, isCompositeTask, splitCoveringBid, type JointBidPartner } from './joint-bids';
 
 // Map task types to compatible agent types
 const TASK_TO_AGENT_TYPE: Record<TaskType, AgentType> = {
@@ -30,19 +36,40 @@ const TASK_TO_AGENT_TYPE: Record<TaskType, AgentType> = {
   SELLER: 'SELLER' as AgentType,
 };
 
+/**
+ * Build full policy from agent policy or personality defaults
+ */
+export function resolveAgentPolicy(agent: AgentWithPolicy): AgentPolicy {
+  const defaults = PERSONALITY_DEFAULTS[agent.personality] || PERSONALITY_DEFAULTS.balanced;
+  return agent.policy
+    ? { ...defaults, ...agent.policy, bidding: { ...defaults.bidding, ...(agent.policy.bidding || {}) } } as AgentPolicy
+    : defaults;
+}
+
 export class BiddingService {
   /**
    * Generate a bid decision for a single agent on a task.
    * Uses evaluateAuction() from autopilot for comprehensive bid evaluation
    * including max_bid capping, min_margin fallback, and affordability checks.
+   * Composite tasks need a partner: the bid then prices in both agents' task costs.
    */
-  generateBidForTask(agent: AgentWithPolicy, task: Task): BidDecision {
+  generateBidForTask(agent: AgentWithPolicy, task: Task, partner?: JointBidPartner | null): BidDecision {
     // Check type compatibility
     const requiredType = TASK_TO_AGENT_TYPE[task.type];
     if (agent.type !== requiredType) {
       return {
         action: 'skip',
         reason: `Agent type ${agent.type} cannot bid on ${task.type} tasks`,
+        skipCause: 'type_mismatch',
+      };
+    }
+
+    // Composite tasks are bid on jointly with a partner covering the other types
+    if (isCompositeTask(task) && !partner) {
+      return {
+        action: 'skip',
+        reason: `Composite task (${task.required_types!.join('+')}) needs an active partnership covering every type`,
+        skipCause: 'no_partnership',
       };
     }
 
@@ -51,6 +78,7 @@ export class BiddingService {
       return {
         action: 'skip',
         reason: 'Agent not registered on-chain',
+        skipCause: 'not_registered',
       };
     }
 
@@ -59,20 +87,21 @@ export class BiddingService {
       return {
         action: 'skip',
         reason: 'Insufficient balance',
+        skipCause: 'balance',
       };
     }
 
-    // Build full policy from agent policy or personality defaults
-    const defaults = PERSONALITY_DEFAULTS[agent.personality] || PERSONALITY_DEFAULTS.balanced;
-    const policy: AgentPolicy = agent.policy
-      ? { ...defaults, ...agent.policy, bidding: { ...defaults.bidding, ...(agent.policy.bidding || {}) } } as AgentPolicy
-      : defaults;
+    const policy = resolveAgentPolicy(agent);
 
     console.log(`[BiddingService] ${agent.name} bidding policy: target_margin=${policy.bidding.target_margin}, min_margin=${policy.bidding.min_margin}, skip_below=${policy.bidding.skip_below} (source: ${agent.policy?.bidding ? 'DB policy' : 'personality default'})`);
 
     // Use comprehensive evaluateAuction from autopilot
     // Pass investor_share_bps so bid covers all costs including investor cut
-    const costs = agent.costs || AGENT_COSTS[agent.type] || AGENT_COSTS.CATALOG;
+    const ownCosts = agent.costs || AGENT_COSTS[agent.type] || AGENT_COSTS.CATALOG;
+    const partnerCosts: AgentCostStructure | null = partner
+      ? partner.partner.costs || AGENT_COSTS[partner.partner.type] || AGENT_COSTS.CATALOG
+      : null;
+    const costs = partnerCosts ? combineCosts(ownCosts, partnerCosts) : ownCosts;
     const decision = evaluateAuction(
       { type: task.type, max_bid: task.max_bid, id: task.id },
       policy,
@@ -81,22 +110,38 @@ export class BiddingService {
     );
 
     if (decision.action === 'skip') {
-      return { action: 'skip', reason: decision.reasoning };
+      return { action: 'skip', reason: decision.reasoning, skipCause: decision.cause ?? 'margin' };
+    }
+
+    // A joint bid must leave each side's split covering its own costs
+    let amount = decision.amount!;
+    if (partner && partnerCosts) {
+      const floor = splitCoveringBid(
+        calculateAllInCost(ownCosts, agent.investor_share_bps), calculateTaskCost(partnerCosts), partner
+      );
+      if (floor > task.max_bid) {
+        return {
+          action: 'skip',
+          reason: `${partner.ownSplit}/${partner.partnerSplit} split with ${partner.partner.name} needs a bid of $${floor.toFixed(3)} to cover both sides' costs, but max_bid is $${task.max_bid.toFixed(3)}`,
+          skipCause: 'margin',
+        };
+      }
+      amount = Math.min(task.max_bid, Math.max(amount, Math.ceil(floor * 1e6) / 1e6));
     }
 
     // Calculate score for the bid
-    const score = calculateBidScore(agent.reputation, decision.amount!);
+    const score = calculateBidScore(agent.reputation, amount);
     const allInCost = calculateAllInCost(costs, agent.investor_share_bps);
 
     const policyTrace: BidPolicyTrace = {
-      margin: decision.amount! > 0 ? (decision.amount! - allInCost) / decision.amount! : 0,
+      margin: amount > 0 ? (amount - allInCost) / amount : 0,
       source: agent.policy?.bidding ? 'policy' : 'personality_default',
       task_cost: allInCost,
     };
 
     return {
       action: 'bid',
-      amount: decision.amount,
+      amount,
       score,
       margin: policyTrace.margin,
       policyTrace,
@@ -104,56 +149,109 @@ export class BiddingService {
   }
 
   /**
-   * Generate bids for multiple agents on multiple tasks
-   * Returns bids ready to submit and skipped agents with reasons
+   * Generate bids for multiple agents on multiple tasks.
+   *
+   * For each agent:
+   * 1. Evaluate every compatible task (price/margin/affordability)
+   * 2. Rank bid-worthy tasks by expected margin (bid - all-in cost)
+   * 3. Bid on the top N, where N is the agent's round capacity
+   *    (capacity already guarantees the balance covers winning all N)
+   *
+   * Composite tasks are bid on with the lead's best ACTIVE partner from
+   * `partnerships` and count toward both agents' capacity (agents are
+   * filled in order, so a partner already at capacity skips the joint bid).
+   *
+   * Returns bids ready to submit, skipped bids with cause, and each agent's capacity
    */
   generateBidsForRound(
     tasks: Task[],
-    agents: AgentWithPolicy[]
+    agents: AgentWithPolicy[],
+    partnerships: PartnershipCache[] = []
   ): {
     bids: SubmitBidInput[];
-    skipped: Array<{ agentId: string; taskId: string; reason: string }>;
+    skipped: SkippedBid[];
+    capacities: Map<string, RoundCapacity>;
   } {
     const bids: SubmitBidInput[] = [];
-    const skipped: Array<{ agentId: string; taskId: string; reason: string }> = [];
-    // Track which agents have already bid this round (one bid per agent per round)
-    const agentsWhoBid = new Set<string>();
+    const skipped: SkippedBid[] = [];
+    const capacities = new Map<string, RoundCapacity>();
 
     console.log(`[BiddingService] Generating bids for ${tasks.length} tasks with ${agents.length} agents`);
     console.log(`[BiddingService] Agent types: ${agents.map(a => `${a.name}:${a.type}`).join(', ')}`);
 
-    for (const task of tasks) {
-      // Find agents that can bid on this task type (exclude agents that already bid)
-      const requiredType = TASK_TO_AGENT_TYPE[task.type];
-      const matchingAgents = agents.filter(a => a.type === requiredType && !agentsWhoBid.has(a.id));
-      console.log(`[BiddingService] Task ${task.type} (max_bid: ${task.max_bid.toFixed(4)}): ${matchingAgents.length} matching agents`);
+    // Tasks each agent has bid on this round, its own and joint bids as partner
+    const used = new Map<string, number>();
+    const capacityOf = (agent: AgentWithPolicy): RoundCapacity => {
+      let capacity = capacities.get(agent.id);
+      if (!capacity) {
+        const costs = agent.costs || AGENT_COSTS[agent.type] || AGENT_COSTS.CATALOG;
+        capacity = calculateRoundCapacity(resolveAgentPolicy(agent), costs, agent.balance);
+        capacities.set(agent.id, capacity);
+      }
+      return capacity;
+    };
 
-      for (const agent of matchingAgents) {
-        const decision = this.generateBidForTask(agent, task);
+    for (const agent of agents) {
+      const compatibleTasks = tasks.filter(t => TASK_TO_AGENT_TYPE[t.type] === agent.type);
+      if (compatibleTasks.length === 0) continue;
 
+      const capacity = capacityOf(agent);
+
+      // Evaluate each compatible task independently
+      const candidates: Array<{ task: Task; decision: BidDecision; partner: JointBidPartner | null }> = [];
+      for (const task of compatibleTasks) {
+        const partner = findJointBidPartner(agent, task, partnerships, agents);
+        const decision = this.generateBidForTask(agent, task, partner);
         if (decision.action === 'bid' && decision.amount && decision.score) {
-          console.log(`[BiddingService] ${agent.name} bidding $${decision.amount.toFixed(4)} on ${task.type}`);
-          bids.push({
-            taskId: task.id,
-            agentId: agent.id,
-            bidderWallet: agent.wallet_address,
-            amount: decision.amount,
-            score: decision.score,
-            policyUsed: decision.policyTrace,
-          });
-          agentsWhoBid.add(agent.id);
+          candidates.push({ task, decision, partner });
         } else {
           console.log(`[BiddingService] ${agent.name} SKIP ${task.type}: ${decision.reason}`);
           skipped.push({
             agentId: agent.id,
             taskId: task.id,
             reason: decision.reason || 'Unknown',
+            cause: decision.skipCause || 'margin',
           });
         }
       }
+
+      // Rank by expected margin in dollars (stable: ties keep task order)
+      const expectedMargin = (d: BidDecision) => (d.amount || 0) - (d.policyTrace?.task_cost || 0);
+      candidates.sort((a, b) => expectedMargin(b.decision) - expectedMargin(a.decision));
+
+      for (const { task, decision, partner } of candidates) {
+        const slot = (used.get(agent.id) ?? 0) + 1;
+        const partnerCapacity = partner ? capacityOf(partner.partner) : null;
+        let reason: string | null = null;
+        if (slot > capacity.capacity) {
+          reason = `Round capacity reached (${capacity.capacity} task(s), limited by ${capacity.limited_by}: policy=${capacity.policy_limit}, balance=${capacity.balance_limit}). Would have bid $${decision.amount!.toFixed(4)}.`;
+        } else if (partner && partnerCapacity && (used.get(partner.partner.id) ?? 0) >= partnerCapacity.capacity) {
+          reason = `Partner ${partner.partner.name} is at its round capacity (${partnerCapacity.capacity} task(s), limited by ${partnerCapacity.limited_by}). Would have bid $${decision.amount!.toFixed(4)}.`;
+        }
+        if (reason) {
+          console.log(`[BiddingService] ${agent.name} SKIP ${task.type}: ${reason}`);
+          skipped.push({ agentId: agent.id, taskId: task.id, reason, cause: 'capacity' });
+          continue;
+        }
+
+        used.set(agent.id, slot);
+        if (partner) used.set(partner.partner.id, (used.get(partner.partner.id) ?? 0) + 1);
+
+        const joint = partner ? ` with ${partner.partner.name} (${partner.ownSplit}/${partner.partnerSplit})` : '';
+        console.log(`[BiddingService] ${agent.name} bidding $${decision.amount!.toFixed(4)} on ${task.type}${joint} (${slot}/${capacity.capacity})`);
+        bids.push({
+          taskId: task.id,
+          agentId: agent.id,
+          bidderWallet: agent.wallet_address,
+          amount: decision.amount!,
+          score: decision.score!,
+          policyUsed: decision.policyTrace,
+          ...(partner ? { partnershipId: partner.partnership.id } : {}),
+        });
+      }
     }
 
-    return { bids, skipped };
+    return { bids, skipped, capacities };
   }
 
   /**
@@ -0,0 +1,133 @@
+/**
+ * Joint Bids - Partnerships bidding as a unit on composite tasks
+ *
+ * A composite task (required_types set, e.g. CATALOG+REVIEW) needs every
+ * listed agent type. Only an ACTIVE partnership whose two agents cover those
+ * types can take it: the agent of the task's lead type bids for the pair,
+ * pricing in both agents' per-task costs, and the payout is split per the
+ * partnership's agreed split (see EconomyService.processTaskCompletion).
+ * The bid is raised until each side's split covers its own costs, and a
+ * joint bid takes a slot of both agents' round capacity.
+ */
+
+import type { AgentCostStructure } from '@/lib/agent-runtime/types';
+import type { Agent, PartnershipCache } from '@/types/database';
+import type { AgentWithPolicy, Task } from '../types';
+
+/** The other side of a partnership, from one member's point of view */
+export interface PartnerSide {
+  partnership: PartnershipCache;
+  /** Chain-synced rows know the partner's agent id, demo rows its wallet */
+  partnerId: string | null;
+  partnerWallet: string | null;
+  /** This member's share of joint payments (0-100) */
+  ownSplit: number;
+  /** The partner's share of joint payments (0-100) */
+  partnerSplit: number;
+}
+
+export interface JointBidPartner extends PartnerSide {
+  partner: AgentWithPolicy;
+}
+
+const sameWallet = (a: string | null | undefined, b: string | null | undefined) => !!a && !!b && a.toLowerCase() === b.toLowerCase();
+
+/**
+ * True when the task needs more than one agent type
+ */
+export function isCompositeTask(task: Pick<Task, 'required_types'>): boolean {
+  return (task.required_types?.length || 0) > 1;
+}
+
+/**
+ * Resolve a member's partner and splits, or null when the agent is not in the partnership
+ */
+export function partnerSide(partnership: PartnershipCache, member: Pick<Agent, 'id' | 'wallet_address'>): PartnerSide | null {
+  const p = partnership;
+  if (p.agent1_id === member.id || p.agent2_id === member.id) {
+    const isAgent1 = p.agent1_id === member.id;
+    return {
+      partnership,
+      partnerId: (isAgent1 ? p.agent2_id : p.agent1_id) ?? null,
+      partnerWallet: null,
+      ownSplit: Number((isAgent1 ? p.agent1_split : p.agent2_split) ?? 50),
+      partnerSplit: Number((isAgent1 ? p.agent2_split : p.agent1_split) ?? 50),
+    };
+  }
+  if (sameWallet(p.partner_a_wallet, member.wallet_address)) {
+    return { partnership, partnerId: null, partnerWallet: p.partner_b_wallet, ownSplit: Number(p.split_a), partnerSplit: Number(p.split_b) };
+  }
+  if (sameWallet(p.partner_b_wallet, member.wallet_address)) {
+    return { partnership, partnerId: null, partnerWallet: p.partner_a_wallet, ownSplit: Number(p.split_b), partnerSplit: Number(p.split_a) };
+  }
+  return null;
+}
+
+/**
+ * True when the agent is the partner described by a PartnerSide
+ */
+export function isPartner(side: PartnerSide, agent: Pick<Agent, 'id' | 'wallet_address'>): boolean {
+  return side.partnerId ? side.partnerId === agent.id : sameWallet(side.partnerWallet, agent.wallet_address);
+}
+
+/**
+ * Find the partner an agent would bid with on a composite task: an ACTIVE
+ * partnership where the agent holds the lead type and the partner (one of
+ * the round's agents, balance > 0) covers the remaining required types.
+ * Prefers the partner with the highest reputation.
+ */
+export function findJointBidPartner(
+  agent: AgentWithPolicy,
+  task: Task,
+  partnerships: PartnershipCache[],
+  agents: AgentWithPolicy[]
+): JointBidPartner | null {
+  if (!isCompositeTask(task) || agent.type !== task.type) return null;
+  const required = new Set(task.required_types);
+
+  let best: JointBidPartner | null = null;
+  for (const partnership of partnerships) {
+    if (partnership.status !== 'ACTIVE') continue;
+    const side = partnerSide(partnership, agent);
+    if (!side) continue;
+
+    const partner = agents.find(a => isPartner(side, a));
+    if (!partner || partner.id === agent.id || partner.balance <= 0) continue;
+
+    const covered = new Set<string>([agent.type, partner.type]);
+    if (![...required].every(type => covered.has(type))) continue;
+
+    if (!best || partner.reputation > best.partner.reputation) {
+      best = { ...side, partner };
+    }
+  }
+  return best;
+}
+
+/**
+ * Cost structure of a joint bid: both agents' per-task costs, the lead's
+ * bid and periodic costs (only the lead bids and is charged for it)
+ */
+export function combineCosts(lead: AgentCostStructure, partner: AgentCostStructure): AgentCostStructure {
+  return {
+    ...lead,
+    per_task: {
+      llm_inference: lead.per_task.llm_inference + partner.per_task.llm_inference,
+      data_retrieval: lead.per_task.data_retrieval + partner.per_task.data_retrieval,
+      storage: lead.per_task.storage + partner.per_task.storage,
+      submission: lead.per_task.submission + partner.per_task.submission,
+    },
+  };
+}
+
+/**
+ * Lowest joint bid whose split covers each side's own costs: the lead's
+ * share its all-in cost, the partner's share its per-task cost (what
+ * settlement charges it). Infinity when either side's split is 0.
+ */
+export function splitCoveringBid(leadAllInCost: number, partnerTaskCost: number, side: PartnerSide): number {
+  const ownShare = side.ownSplit / 100;
+  const partnerShare = side.partnerSplit / 100;
+  if (ownShare <= 0 || partnerShare <= 0) return Infinity;
+  return Math.max(leadAllInCost / ownShare, partnerTaskCost / partnerShare);
+}
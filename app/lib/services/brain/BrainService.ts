@@ -6,15 +6,16 @@
  * reputation_drop, win_rate_drop) and supports useLLM flag.
  */
 
-import { supabase } from '@/lib/supabase';
-import { createEvent, logSystemError } from '@/lib/api-helpers';
-import { createPersonalMemory } from '@/lib/agent-runtime/personal-memory';
 import { checkExceptions, isQBRDue } from '@/lib/agent-runtime/autopilot';
 import { PERSONALITY_DEFAULTS } from '@/lib/agent-runtime/constants';
-import { loadRuntimeState, saveRuntimeState, recordBrainWakeup } from '@/lib/agent-runtime/state';
-import { economyService } from '../economy/EconomyService';
+import { enforcePolicyGuardrails } from '@/lib/agent-runtime/policy-guardrails';
+import { defaultCassetteDeck, type CassetteDeck } from '@/lib/agent-brain/cassette';
+import { runtimeStateService, type RuntimeStateService } from '../runtime/RuntimeStateService';
+import { brainBudgetService, type BrainBudgetService } from '../budget/BrainBudgetService';
+import { outboxService, type OutboxService } from '../outbox/OutboxService';
+import { defaultRepositories, type Repositories } from '../repositories';
 import type { MemoryContext } from '@/lib/agent-runtime/memory-types';
-import type { AgentPolicy } from '@/lib/agent-runtime/types';
+import type { AgentPolicy, PolicyTrigger } from '@/lib/agent-runtime/types';
 import type {
   AgentWithPolicy,
   ExceptionTrigger,
@@ -24,7 +25,18 @@ import type {
 /** Minimum rounds between brain wakeups for the same agent */
 const BRAIN_COOLDOWN_ROUNDS = 3;
 
+/** Flat wake-up fee when the provider reports no token usage */
+const BRAIN_FLAT_FEE = 0.001;
+
 export class BrainService {
+  constructor(
+    private readonly repos: Repositories = defaultRepositories,
+    private readonly runtimeState: RuntimeStateService = runtimeStateService,
+    private readonly budget: BrainBudgetService = brainBudgetService,
+    private readonly outbox: OutboxService = outboxService,
+    private readonly cassettes: CassetteDeck = defaultCassetteDeck
+  ) {}
+
   /**
    * Check all agents for exceptions and trigger brain wake-ups.
    * Uses all 4 checks from autopilot: consecutive_losses, low_balance,
@@ -33,16 +45,17 @@ export class BrainService {
   /**
    * Detect which agents have exceptions (fast — DB reads only, no LLM).
    * Returns the list of agents needing wakeup, capped at maxBrainCalls.
+   * taskFailures (agent id -> missed deliveries this round) raise a
+   * task_failed exception that skips the brain cooldown and goes first.
    */
   async detectExceptions(
     agents: AgentWithPolicy[],
     roundNum: number,
-    maxBrainCalls = 3
+    maxBrainCalls = 3,
+    taskFailures: Map<string, number> = new Map()
   ): Promise<Array<{ agent: AgentWithPolicy; exception: ExceptionTrigger }>> {
     // Load runtime states for all agents (needed for 4-check exception detection)
-    const statePromises = agents.map(agent =>
-      supabase.from('agent_runtime_state').select('*').eq('agent_id', agent.id).single()
-    );
+    const statePromises = agents.map(agent => this.runtimeState.load(agent.id));
     const stateResults = await Promise.all(statePromises);
 
     const agentsNeedingWakeup: Array<{
@@ -51,9 +64,23 @@ export class BrainService {
     }> = [];
 
     agents.forEach((agent, index) => {
-      const stateData = stateResults[index].data;
+      const stateData = stateResults[index];
       if (!stateData) return;
 
+      const failed = taskFailures.get(agent.id) || 0;
+      if (failed > 0) {
+        agentsNeedingWakeup.unshift({
+          agent,
+          exception: {
+            type: 'task_failed',
+            details: { message: `Missed ${failed} delivery deadline(s) this round`, current_value: failed },
+            threshold: 0,
+            currentValue: failed,
+          },
+        });
+        return;
+      }
+
       // Cooldown: skip agent if brain woke up recently (within BRAIN_COOLDOWN_ROUNDS)
       const lastWakeup = stateData.last_brain_wakeup_round ?? 0;
       const roundsSinceWakeup = roundNum - lastWakeup;
@@ -142,30 +169,33 @@ export class BrainService {
 
       if (exType === 'consecutive_losses') {
         policyChanges.bidding = { target_margin: 0.08 }; // Lower margin to win more
-      } else if (exType === 'balance_critical' || exType === 'win_rate_too_low') {
+      } else if (exType === 'balance_critical' || exType === 'win_rate_too_low' || exType === 'task_failed') {
         policyChanges.bidding = { target_margin: 0.20 }; // Conservative to preserve capital
       }
 
-      if (Object.keys(policyChanges).length > 0) {
-        await this.applyPolicyChanges(agent, policyChanges);
+      const reasoning = `Default response to ${exType} (LLM disabled)`;
+
+      const policyChanged = Object.keys(policyChanges).length > 0 &&
+        await this.applyPolicyChanges(agent, policyChanges, {
+          trigger: 'exception', reasoning, triggerDetails: exType,
+        });
+      if (policyChanged) {
         console.log(`[BrainService] ${agent.name} policy AFTER: target_margin=${(agent.policy as any)?.bidding?.target_margin ?? 'default'}, min_margin=${(agent.policy as any)?.bidding?.min_margin ?? 'default'}`);
       }
 
-      const reasoning = `Default response to ${exType} (LLM disabled)`;
-
       // Track wakeup (no cost since no LLM call)
-      await recordBrainWakeup(agent.id, 0).catch(err =>
+      await this.runtimeState.recordBrainWakeup(agent.id, 0).catch(err =>
         console.error(`[BrainService] Failed to record brain wakeup for ${agent.name}:`, err)
       );
 
       // Update runtime state: cooldown + checkpoint
       try {
-        const runtimeState = await loadRuntimeState(agent.id);
+        const runtimeState = await this.runtimeState.load(agent.id);
         if (runtimeState) {
           runtimeState.last_brain_wakeup_round = roundNum;
           runtimeState.reputation_at_last_check = agent.reputation;
           runtimeState.win_rate_at_last_check = runtimeState.win_rate_last_20;
-          if (Object.keys(policyChanges).length > 0) {
+          if (policyChanged) {
             runtimeState.last_policy_change_round = roundNum;
             runtimeState.total_policy_changes = (runtimeState.total_policy_changes || 0) + 1;
             runtimeState.metrics_at_last_change = {
@@ -175,7 +205,7 @@ export class BrainService {
               target_margin: (policyChanges as any)?.bidding?.target_margin ?? 0,
             };
           }
-          await saveRuntimeState(runtimeState);
+          await this.runtimeState.save(runtimeState);
         }
       } catch (err) {
         console.error(`[BrainService] Failed to update runtime state for ${agent.name}:`, err);
@@ -183,7 +213,7 @@ export class BrainService {
 
       // Emit brain_decision event so it appears in the activity feed
       const wallets = agent.wallet_address ? [agent.wallet_address] : [];
-      createEvent({
+      await this.outbox.dispatch('event', {
         event_type: 'brain_decision',
         description: `${agent.name}: "${reasoning}"`,
         agent_wallets: wallets,
@@ -196,9 +226,7 @@ export class BrainService {
           policy_changes: policyChanges,
           llm_enabled: false,
         },
-      }).then(({ error }) => {
-        if (error) console.error(`[BrainService] Failed to create brain_decision event for ${agent.name}:`, error.message);
-      }).catch(err => console.error(`[BrainService] brain_decision event error:`, err));
+      });
 
       results.push({
         agentId: agent.id,
@@ -215,7 +243,9 @@ export class BrainService {
   }
 
   /**
-   * Wake up an agent's brain for an exception
+   * Wake up an agent's brain for an exception.
+   * Returns null when the wake-up fails or the budget governor defers it
+   * (a deferred wake-up leaves the cooldown untouched, so it is retried).
    */
   async wakeForException(
     agent: AgentWithPolicy,
@@ -223,6 +253,16 @@ export class BrainService {
     roundNum: number
   ): Promise<BrainWakeupResult | null> {
     try {
+      const decision = await this.budget.plan(agent.id, 'exception', roundNum);
+      if (decision.action === 'defer') {
+        await this.budget.recordDeferral(agent.id, 'exception', roundNum, decision.reason);
+        return null;
+      }
+      if (decision.action === 'degrade') {
+        console.log(`[BrainService] Degraded wake-up for ${agent.name} on ${decision.model}: ${decision.reason}`);
+      }
+      const meter = this.budget.meter(agent.id, 'exception', roundNum, decision.model);
+
       // Create memory context
       const context: MemoryContext = {
         identity: {
@@ -236,22 +276,22 @@ export class BrainService {
       };
 
       // Create exception memory
-      await createPersonalMemory(
-        agent.id,
-        'exception_handled',
-        {
+      await this.outbox.dispatch('memory', {
+        agentId: agent.id,
+        type: 'exception_handled',
+        data: {
           exception_type: exception.type,
           ...exception.details,
           triggered_brain: true,
         },
-        roundNum,
+        roundNumber: roundNum,
         context,
-        `Exception: ${exception.type}`,
-        0.9
-      );
+        triggerContext: `Exception: ${exception.type}`,
+        importanceScore: 0.9,
+      });
 
       // Call brain
-      const { brainStrategicThinking } = await import('@/lib/agent-brain/gemini-integration');
+      const { brainStrategicThinking } = await import('@/lib/agent-brain/llm-integration');
       const { buildWakeUpContext } = await import('@/lib/agent-runtime/context-builder');
       const { buildStrategicSystemPrompt, buildStrategicUserPrompt, buildHistorySummary } = await import('@/lib/agent-runtime/prompts/strategic-thinking');
 
@@ -298,13 +338,13 @@ export class BrainService {
           '',
           '---',
           '',
-          '# SYSTEM PROMPT (sent to Gemini)',
+          '# SYSTEM PROMPT (sent to LLM)',
           '',
           systemPrompt,
           '',
           '---',
           '',
-          '# USER PROMPT (sent to Gemini)',
+          '# USER PROMPT (sent to LLM)',
           '',
           userPrompt,
         ].join('\n');
@@ -313,7 +353,13 @@ export class BrainService {
       } catch (_) { /* non-critical: read-only filesystem on Vercel */ }
 
       // Call brain - the LLM's update_policy tool writes directly to DB
-      const result = await brainStrategicThinking(agent.id, systemPrompt, userPrompt, historySummary, 'exception');
+      const result = await brainStrategicThinking(agent.id, systemPrompt, userPrompt, historySummary, 'exception', {
+        cassetteKey: `R${roundNum}_${agent.id}_${exception.type}`,
+        cassettes: this.cassettes,
+        model: decision.model,
+        degraded: decision.action === 'degrade',
+        onUsage: meter.onUsage,
+      });
       const policyChanges: Record<string, unknown> = result.policy_changes || {};
 
       console.log(`[BrainService] ${agent.name} brain decided: ${JSON.stringify(policyChanges)}`);
@@ -346,14 +392,16 @@ export class BrainService {
         fs2.appendFileSync(path2.join(promptDir2, filename2), responseDump);
       } catch (_) { /* non-critical */ }
 
-      // Deduct brain cost from agent balance and track the wakeup
-      const brainCost = 0.001;
-      await economyService.adjustBalance(agent.id, -brainCost);
-      await recordBrainWakeup(agent.id, brainCost);
+      // Charge the metered brain cost to the agent and track the wakeup
+      const brainCost = await this.budget.settle(meter, {
+        flatFee: BRAIN_FLAT_FEE,
+        degraded: decision.action === 'degrade',
+      });
+      await this.runtimeState.recordBrainWakeup(agent.id, brainCost);
 
       // Update runtime state: cooldown + checkpoint + "since last change" tracking
       try {
-        const runtimeState = await loadRuntimeState(agent.id);
+        const runtimeState = await this.runtimeState.load(agent.id);
         if (runtimeState) {
           runtimeState.last_brain_wakeup_round = roundNum;
           // Checkpoint reputation and win rate so next exception detection uses THIS as baseline
@@ -374,7 +422,7 @@ export class BrainService {
             };
           }
 
-          await saveRuntimeState(runtimeState);
+          await this.runtimeState.save(runtimeState);
         }
       } catch (err) {
         console.error(`[BrainService] Failed to update runtime state after brain wakeup for ${agent.name}:`, err);
@@ -382,7 +430,7 @@ export class BrainService {
 
       // Store in exception_history
       const investorUpdate = result.investor_update || { observations: [], changes: [] };
-      await supabase.from('exception_history').insert({
+      await this.repos.exceptions.insert({
         agent_id: agent.id,
         exception_type: exception.type,
         exception_details: JSON.stringify(exception.details),
@@ -406,7 +454,7 @@ export class BrainService {
           : result.reasoning;
 
         const wallets = agent.wallet_address ? [agent.wallet_address] : [];
-        createEvent({
+        await this.outbox.dispatch('event', {
           event_type: 'brain_decision',
           description: `${agent.name}: "${shortReasoning}"`,
           agent_wallets: wallets,
@@ -418,20 +466,12 @@ export class BrainService {
             full_reasoning: result.reasoning,
             policy_changes: policyChanges,
           },
-        }).then(({ error }) => {
-          if (error) console.error(`[BrainService] Failed to create brain_decision event for ${agent.name}:`, error.message);
-        }).catch(err => console.error(`[BrainService] brain_decision event error:`, err));
+        });
       }
 
       // Re-read the policy from DB to sync in-memory state
       // (the LLM's update_policy tool already wrote to DB — no second write needed)
-      const { data: latestPolicy } = await supabase
-        .from('agent_policies')
-        .select('policy_json')
-        .eq('agent_id', agent.id)
-        .order('created_at', { ascending: false })
-        .limit(1)
-        .single();
+      const { data: latestPolicy } = await this.repos.policies.latest(agent.id);
 
       if (latestPolicy?.policy_json) {
         agent.policy = latestPolicy.policy_json as AgentWithPolicy['policy'];
@@ -451,7 +491,7 @@ export class BrainService {
       };
     } catch (error) {
       console.error(`[BrainService] Brain failed for ${agent.name}:`, error);
-      await logSystemError('llm', error, {
+      await this.repos.events.logError('llm', error, {
         round_number: roundNum,
         agent_name: agent.name,
         agent_id: agent.id,
@@ -471,22 +511,12 @@ export class BrainService {
     useLLM: boolean
   ): Promise<boolean> {
     // Load runtime state to check QBR timing
-    const { data: stateData } = await supabase
-      .from('agent_runtime_state')
-      .select('*')
-      .eq('agent_id', agent.id)
-      .single();
+    const stateData = await this.runtimeState.load(agent.id);
 
     if (!stateData) return false;
 
     // Load last QBR round
-    const { data: policyData } = await supabase
-      .from('agent_policies')
-      .select('last_qbr_round')
-      .eq('agent_id', agent.id)
-      .order('created_at', { ascending: false })
-      .limit(1)
-      .single();
+    const { data: policyData } = await this.repos.policies.latest(agent.id);
 
     const lastQBRRound = policyData?.last_qbr_round || 0;
     const policy = agent.policy || PERSONALITY_DEFAULTS[agent.personality] || PERSONALITY_DEFAULTS.balanced;
@@ -497,32 +527,22 @@ export class BrainService {
 
     if (!useLLM) {
       // Skip QBR when LLM is disabled - just update the timestamp
-      await supabase
-        .from('agent_policies')
-        .update({ last_qbr_round: roundNumber })
-        .eq('agent_id', agent.id);
+      await this.repos.policies.setLastQbrRound(agent.id, roundNumber);
       console.log(`[BrainService] QBR due for ${agent.name} but useLLM=false, skipping`);
       return false;
     }
 
-    // Run QBR via Gemini
+    // Run QBR via the configured LLM
     try {
-      const { executeQBR } = await import('@/lib/agent-runtime/qbr-handler');
-      await executeQBR({
-        agent_id: agent.id,
-        trigger_reason: 'scheduled',
-        current_round: roundNumber,
-      });
-
-      // Deduct brain cost for QBR
-      const brainCost = 0.001;
-      await economyService.adjustBalance(agent.id, -brainCost);
+      // Over budget: leave last_qbr_round alone so the QBR stays due
+      const outcome = await this.runQBR(agent, roundNumber, 'scheduled');
+      if ('deferred' in outcome) return false;
 
       console.log(`[BrainService] QBR completed for ${agent.name}`);
       return true;
     } catch (err) {
       console.error(`[BrainService] QBR failed for ${agent.name}:`, err);
-      await logSystemError('llm', err, {
+      await this.repos.events.logError('llm', err, {
         round_number: roundNumber,
         agent_name: agent.name,
         agent_id: agent.id,
@@ -533,12 +553,53 @@ export class BrainService {
   }
 
   /**
-   * Apply policy changes from brain decision
+   * Run a QBR under the brain budget governor: deferred (and recorded) when
+   * over budget, on the cheaper model when degraded, and charged for the
+   * metered usage. Throws when the QBR itself fails.
+   */
+  async runQBR(
+    agent: { id: string; name: string },
+    roundNumber: number,
+    triggerReason: 'scheduled' | 'manual'
+  ): Promise<{ deferred: string } | { brainCost: number }> {
+    const decision = await this.budget.plan(agent.id, 'qbr', roundNumber);
+    if (decision.action === 'defer') {
+      await this.budget.recordDeferral(agent.id, 'qbr', roundNumber, decision.reason);
+      return { deferred: decision.reason };
+    }
+    const meter = this.budget.meter(agent.id, 'qbr', roundNumber, decision.model);
+
+    const { executeQBR } = await import('@/lib/agent-runtime/qbr-handler');
+    await executeQBR({
+      agent_id: agent.id,
+      trigger_reason: triggerReason,
+      current_round: roundNumber,
+    }, {
+      model: decision.model,
+      degraded: decision.action === 'degrade',
+      onUsage: meter.onUsage,
+      cassettes: this.cassettes,
+    });
+
+    // Charge the metered brain cost for QBR
+    const brainCost = await this.budget.settle(meter, {
+      flatFee: BRAIN_FLAT_FEE,
+      degraded: decision.action === 'degrade',
+    });
+    return { brainCost };
+  }
+
+  /**
+   * Apply policy changes from brain decision.
+   * Guardrail clamps are applied; an update with a rejected change is dropped.
+   * The result is saved as a new policy version; the local agent only
+   * changes when the write succeeded.
    */
   async applyPolicyChanges(
     agent: AgentWithPolicy,
-    changes: Record<string, unknown>
-  ): Promise<void> {
+    changes: Record<string, unknown>,
+    meta: { trigger: PolicyTrigger; reasoning?: string; triggerDetails?: string } = { trigger: 'exception' }
+  ): Promise<boolean> {
     // Merge with existing policy
     const currentPolicy: Record<string, unknown> = (agent.policy as unknown as Record<string, unknown>) || {};
     const newPolicy = { ...currentPolicy };
@@ -557,15 +618,33 @@ export class BrainService {
       };
     }
 
-    // Insert new policy
-    await supabase.from('agent_policies').insert({
-      agent_id: agent.id,
-      policy_json: newPolicy,
-      created_at: new Date().toISOString(),
+    const { policy: guarded, violations } = enforcePolicyGuardrails(currentPolicy, newPolicy, agent.personality);
+    const rejected = violations.filter(v => v.action === 'rejected');
+    if (rejected.length > 0) {
+      console.warn(`[BrainService] Policy update for ${agent.name} rejected: ${rejected.map(v => v.reason).join(' | ')}`);
+      return false;
+    }
+    for (const v of violations) {
+      console.log(`[BrainService] Guardrail for ${agent.name}: ${v.reason}`);
+    }
+
+    const { error } = await this.repos.policies.save(agent.id, guarded, {
+      personality: agent.personality || 'balanced',
+      ...meta,
     });
+    if (error) {
+      console.error(`[BrainService] Failed to save policy for ${agent.name}:`, error);
+      await this.repos.events.logError('database', error, {
+        agent_name: agent.name,
+        agent_id: agent.id,
+        detail: `Policy update (${meta.trigger}) failed to save`,
+      });
+      return false;
+    }
 
     // Update local agent
-    agent.policy = newPolicy as unknown as AgentWithPolicy['policy'];
+    agent.policy = guarded as unknown as AgentWithPolicy['policy'];
+    return true;
   }
 
   /**
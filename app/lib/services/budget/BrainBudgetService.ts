@@ -0,0 +1,301 @@
+/**
+ * BrainBudgetService - LLM compute budget governor
+ *
+ * Every LLM session (brain wake-up, QBR, narrative, deliverable) is metered
+ * through getLlmForActivity's onUsage hook and stored in llm_usage. Before a
+ * wake-up the governor checks the agent's and the platform's spend against
+ * BrainBudgetLimits:
+ * - under degradeAt of every limit: run in full
+ * - past degradeAt of any limit: degrade (cheapest model of the provider,
+ *   one tool round per phase)
+ * - at or past any limit: defer (no LLM call; the wake-up is retried on a
+ *   later round)
+ *
+ * Agents are debited for what their wake-ups actually cost (token usage x
+ * MODEL_PRICING). Providers that report no usage (the offline mock, cassette
+ * replays) fall back to the flat periodic.brain_wakeup fee.
+ */
+
+import {
+  CHEAPEST_MODEL,
+  LLM_ACTIVITIES,
+  getModelForActivity,
+  llmCostUsd,
+  providerForModel,
+  type LlmActivity,
+} from '@/lib/llm-config';
+import type { LlmCallUsage } from '@/lib/llm/types';
+import { economyService, type EconomyService } from '../economy/EconomyService';
+import { defaultRepositories, type LlmUsageRecord, type Repositories, type StoredLlmUsage } from '../repositories';
+
+export interface BrainBudgetLimits {
+  agent: {
+    llmCallsPerRound: number;
+    toolCallsPerRound: number;
+    tokensPerRound: number;
+    tokensPerDay: number;
+    /** USD */
+    spendPerDay: number;
+  };
+  global: {
+    tokensPerRound: number;
+    tokensPerDay: number;
+    /** USD */
+    spendPerDay: number;
+  };
+  /** Fraction of any limit past which wake-ups are degraded */
+  degradeAt: number;
+}
+
+export const DEFAULT_BRAIN_BUDGET: BrainBudgetLimits = {
+  agent: {
+    llmCallsPerRound: 12,
+    toolCallsPerRound: 20,
+    tokensPerRound: 200_000,
+    tokensPerDay: 2_000_000,
+    spendPerDay: 0.5,
+  },
+  global: {
+    tokensPerRound: 2_000_000,
+    tokensPerDay: 20_000_000,
+    spendPerDay: 20,
+  },
+  degradeAt: 0.8,
+};
+
+export interface LlmUsageTotals {
+  sessions: number;
+  deferred: number;
+  llm_calls: number;
+  tool_calls: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+  charged: number;
+}
+
+export type BudgetDecision =
+  | { action: 'run'; model: string }
+  | { action: 'degrade'; model: string; reason: string }
+  | { action: 'defer'; reason: string };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function emptyTotals(): LlmUsageTotals {
+  return { sessions: 0, deferred: 0, llm_calls: 0, tool_calls: 0, input_tokens: 0, output_tokens: 0, cost_usd: 0, charged: 0 };
+}
+
+export function sumUsage(records: StoredLlmUsage[]): LlmUsageTotals {
+  const totals = emptyTotals();
+  for (const r of records) {
+    if (r.outcome === 'deferred') {
+      totals.deferred++;
+      continue;
+    }
+    totals.sessions++;
+    totals.llm_calls += r.llm_calls;
+    totals.tool_calls += r.tool_calls;
+    totals.input_tokens += r.input_tokens;
+    totals.output_tokens += r.output_tokens;
+    totals.cost_usd += Number(r.cost_usd);
+    totals.charged += Number(r.charged);
+  }
+  return totals;
+}
+
+/**
+ * Usage of one LLM session, collected call by call through onUsage
+ */
+export class LlmUsageMeter {
+  private calls: LlmCallUsage[] = [];
+
+  constructor(
+    readonly agentId: string | null,
+    readonly activity: LlmActivity,
+    readonly roundNumber: number | null,
+    readonly model: string | undefined
+  ) {}
+
+  /** Pass as getLlmForActivity's onUsage (bound, safe to hand around) */
+  readonly onUsage = (usage: LlmCallUsage): void => {
+    this.calls.push(usage);
+  };
+
+  /** False when any call came back without token counts */
+  get reported(): boolean {
+    return this.calls.length > 0 && this.calls.every(c => c.reported);
+  }
+
+  record(charged: number, outcome: LlmUsageRecord['outcome']): LlmUsageRecord {
+    const last = this.calls[this.calls.length - 1];
+    const model = last?.model ?? this.model ?? 'unknown';
+    return {
+      agent_id: this.agentId,
+      activity: this.activity,
+      provider: last?.provider ?? providerForModel(model),
+      model,
+      round_number: this.roundNumber,
+      llm_calls: this.calls.length,
+      tool_calls: this.calls.reduce((sum, c) => sum + c.toolCalls, 0),
+      input_tokens: this.calls.reduce((sum, c) => sum + c.inputTokens, 0),
+      output_tokens: this.calls.reduce((sum, c) => sum + c.outputTokens, 0),
+      cost_usd: this.calls.reduce((sum, c) => sum + llmCostUsd(c.model, c.inputTokens, c.outputTokens), 0),
+      charged,
+      outcome,
+    };
+  }
+}
+
+export class BrainBudgetService {
+  constructor(
+    private readonly repos: Repositories = defaultRepositories,
+    private readonly economy: EconomyService = economyService,
+    readonly limits: BrainBudgetLimits = DEFAULT_BRAIN_BUDGET
+  ) {}
+
+  /**
+   * Usage totals for an agent (or the whole platform when agentId is null)
+   * in one round and over the last 24 hours
+   */
+  async usage(agentId: string | null, roundNumber: number | null): Promise<{ round: LlmUsageTotals; day: LlmUsageTotals }> {
+    const since = new Date(Date.now() - DAY_MS).toISOString();
+    const agentFilter = agentId ? { agentId } : {};
+    const [dayResult, roundResult] = await Promise.all([
+      this.repos.llmUsage.list({ ...agentFilter, since }),
+      roundNumber !== null
+        ? this.repos.llmUsage.list({ ...agentFilter, roundNumber })
+        : Promise.resolve({ data: [] as StoredLlmUsage[], error: null }),
+    ]);
+
+    if (dayResult.error || roundResult.error) {
+      console.error('[BrainBudgetService] Failed to load usage:', dayResult.error || roundResult.error);
+    }
+    return { round: sumUsage(roundResult.data || []), day: sumUsage(dayResult.data || []) };
+  }
+
+  /**
+   * Decide whether a wake-up runs in full, degraded, or is deferred.
+   * Usage lookups that fail count as zero (the governor never blocks on
+   * its own storage errors).
+   */
+  async plan(agentId: string, activity: LlmActivity, roundNumber: number): Promise<BudgetDecision> {
+    const [agent, platform, model] = await Promise.all([
+      this.usage(agentId, roundNumber),
+      this.usage(null, roundNumber),
+      getModelForActivity(activity),
+    ]);
+    const { agent: a, global: g, degradeAt } = this.limits;
+    const tokens = (t: LlmUsageTotals) => t.input_tokens + t.output_tokens;
+
+    const checks: Array<[label: string, used: number, limit: number]> = [
+      ['agent LLM calls this round', agent.round.llm_calls, a.llmCallsPerRound],
+      ['agent tool calls this round', agent.round.tool_calls, a.toolCallsPerRound],
+      ['agent tokens this round', tokens(agent.round), a.tokensPerRound],
+      ['agent tokens today', tokens(agent.day), a.tokensPerDay],
+      ['agent spend today', agent.day.cost_usd, a.spendPerDay],
+      ['platform tokens this round', tokens(platform.round), g.tokensPerRound],
+      ['platform tokens today', tokens(platform.day), g.tokensPerDay],
+      ['platform spend today', platform.day.cost_usd, g.spendPerDay],
+    ];
+
+    const over = checks.find(([, used, limit]) => used >= limit);
+    if (over) {
+      return { action: 'defer', reason: `${over[0]} at limit (${round4(over[1])}/${over[2]})` };
+    }
+
+    const near = checks.find(([, used, limit]) => used >= limit * degradeAt);
+    if (near) {
+      return {
+        action: 'degrade',
+        model: CHEAPEST_MODEL[providerForModel(model)],
+        reason: `${near[0]} past ${Math.round(degradeAt * 100)}% (${round4(near[1])}/${near[2]})`,
+      };
+    }
+
+    return { action: 'run', model };
+  }
+
+  /**
+   * Start metering a session
+   */
+  meter(agentId: string | null, activity: LlmActivity, roundNumber: number | null, model?: string): LlmUsageMeter {
+    return new LlmUsageMeter(agentId, activity, roundNumber, model);
+  }
+
+  /**
+   * Store a session's usage and debit the agent for it. Returns the amount
+   * charged: the real spend when the provider reported tokens, otherwise
+   * flatFee. Sessions without an agent, or with charge: false, are recorded
+   * but never charged.
+   */
+  async settle(
+    meter: LlmUsageMeter,
+    options: { flatFee?: number; degraded?: boolean; charge?: boolean } = {}
+  ): Promise<number> {
+    const spend = meter.record(0, 'full').cost_usd;
+    const charged = meter.agentId && options.charge !== false
+      ? (meter.reported ? spend : options.flatFee ?? 0)
+      : 0;
+
+    if (meter.agentId && charged > 0) {
+      await this.economy.adjustBalance(meter.agentId, -charged, 'brain_spend', {
+        roundNumber: meter.roundNumber,
+        metadata: { activity: meter.activity, metered: meter.reported },
+      });
+    }
+
+    const { error } = await this.repos.llmUsage.insert(meter.record(charged, options.degraded ? 'degraded' : 'full'));
+    if (error) {
+      console.error('[BrainBudgetService] Failed to record LLM usage:', error);
+    }
+    return charged;
+  }
+
+  /**
+   * Record a deferred wake-up (shows up in the admin view)
+   */
+  async recordDeferral(agentId: string, activity: LlmActivity, roundNumber: number, reason: string): Promise<void> {
+    console.log(`[BrainBudgetService] Deferred ${activity} wake-up for ${agentId}: ${reason}`);
+    const { error } = await this.repos.llmUsage.insert(this.meter(agentId, activity, roundNumber).record(0, 'deferred'));
+    if (error) {
+      console.error('[BrainBudgetService] Failed to record deferral:', error);
+    }
+  }
+
+  /**
+   * Spend over the last 24 hours per LLM activity and for the top spending
+   * agents, plus platform totals
+   */
+  async spendByActivity(topAgents = 10): Promise<{
+    since: string;
+    activities: Array<{ key: LlmActivity; label: string } & LlmUsageTotals>;
+    agents: Array<{ agent_id: string } & LlmUsageTotals>;
+    total: LlmUsageTotals;
+  }> {
+    const since = new Date(Date.now() - DAY_MS).toISOString();
+    const { data, error } = await this.repos.llmUsage.list({ since });
+    if (error) {
+      throw new Error(`Failed to load LLM usage: ${error.message}`);
+    }
+
+    const records = data || [];
+    const byAgent = new Map<string, StoredLlmUsage[]>();
+    for (const r of records) {
+      if (r.agent_id) byAgent.set(r.agent_id, [...(byAgent.get(r.agent_id) || []), r]);
+    }
+
+    return {
+      since,
+      activities: LLM_ACTIVITIES.map(a => ({ ...a, ...sumUsage(records.filter(r => r.activity === a.key)) })),
+      agents: [...byAgent.entries()]
+        .map(([agent_id, rows]) => ({ agent_id, ...sumUsage(rows) }))
+        .sort((x, y) => y.cost_usd - x.cost_usd || y.deferred - x.deferred)
+        .slice(0, topAgents),
+      total: sumUsage(records),
+    };
+  }
+}
+
+const round4 = (n: number) => Math.round(n * 10000) / 10000;
+
+export const brainBudgetService = new BrainBudgetService();
@@ -0,0 +1,57 @@
+/**
+ * createServices - Wire a full service set onto one set of repositories
+ *
+ * The exported singletons (agentService, roundProcessor, ...) use Supabase.
+ * Offline callers build their own set:
+ *
+ *   const store = new InMemoryStore();
+ *   const services = createServices(createInMemoryRepositories(store));
+ *   await services.roundProcessor.processRound(tasks, agents, { useBlockchain: false, useLLM: false, ... });
+ */
+
+import { AgentService } from './agent/AgentService';
+import { AuctionService } from './auction/AuctionService';
+import { BiddingService } from './bidding/BiddingService';
+import { EconomyService } from './economy/EconomyService';
+import { LedgerService } from './ledger/LedgerService';
+import { OutboxService } from './outbox/OutboxService';
+import { BrainService } from './brain/BrainService';
+import { BrainBudgetService } from './budget/BrainBudgetService';
+import { MemoryService } from './memory/MemoryService';
+import { TaskService } from './task/TaskService';
+import { IntentService } from './intent/IntentService';
+import { RuntimeStateService } from './runtime/RuntimeStateService';
+import { TaskExecutionService } from './execution/TaskExecutionService';
+import { RoundProcessor, type RoundServices } from './round/RoundProcessor';
+import { CassetteDeck } from '@/lib/agent-brain/cassette';
+import type { Repositories } from './repositories';
+
+export interface ServiceSet extends RoundServices {
+  roundProcessor: RoundProcessor;
+  ledgerService: LedgerService;
+}
+
+export function createServices(repos: Repositories): ServiceSet {
+  const ledgerService = new LedgerService(repos);
+  const outboxService = new OutboxService(repos);
+  const economyService = new EconomyService(repos, ledgerService, outboxService);
+  const runtimeStateService = new RuntimeStateService(repos);
+  const brainBudgetService = new BrainBudgetService(repos, economyService);
+  const services: RoundServices = {
+    repos,
+    agentService: new AgentService(repos),
+    auctionService: new AuctionService(repos, economyService, outboxService),
+    biddingService: new BiddingService(),
+    economyService,
+    // Own cassette deck: key numbering restarts with every service set
+    brainService: new BrainService(repos, runtimeStateService, brainBudgetService, outboxService, new CassetteDeck()),
+    memoryService: new MemoryService(repos, outboxService),
+    taskService: new TaskService(repos),
+    intentService: new IntentService(repos, economyService, outboxService),
+    runtimeStateService,
+    taskExecutionService: new TaskExecutionService(repos, brainBudgetService),
+    outboxService,
+  };
+
+  return { ...services, roundProcessor: new RoundProcessor(services), ledgerService };
+}
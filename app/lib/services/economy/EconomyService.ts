@@ -3,10 +3,14 @@
  *
  * Handles balance updates, revenue, costs, and economic events.
  * Used by both simulation and real runtime.
+ *
+ * Balances only move through the ledger (LedgerService.post): every revenue,
+ * cost, fee and bond movement is an entry, and agents.balance is kept as
+ * its projection. Balance, reputation and counter updates are atomic, and
+ * charges carry idempotency keys (per task, bid, or round + agent) so a
+ * re-run round or a repeated delivery request doesn't charge twice.
  */
 
-import { supabase } from '@/lib/supabase';
-import { createEvent, logSystemError } from '@/lib/api-helpers';
 import { evaluateLifecycleStatus } from '@/lib/agent-runtime/autopilot';
 import { AGENT_COSTS } from '@/lib/agent-runtime/constants';
 import { AgentStatus } from '@/types/database';
@@ -16,11 +20,31 @@ import {
   createPaymentRecord,
   type TaskType,
 } from '@/lib/x402';
-import { payOperationalCostToSink, depositToEscrow, ESCROW_WALLET } from '@/lib/privy-server';
-import { PLATFORM_FEE_BPS } from '@/lib/platform-config';
+import {
+  PLATFORM_FEE_BPS,
+  ESCROW_WALLET,
+  TASK_FAILURE_FEE_BPS,
+  TASK_FAILURE_REPUTATION_PENALTY,
+} from '@/lib/platform-config';
+import { defaultRepositories, type Repositories } from '../repositories';
+import {
+  LEDGER_ACCOUNTS,
+  LedgerService,
+  agentAccount,
+  bondAccount,
+  ledgerKey,
+  type CounterpartyEntryType,
+  type LedgerRefs,
+} from '../ledger/LedgerService';
+import { OutboxService } from '../outbox/OutboxService';
+import { reputationChangeForQuality } from '../execution/grading';
+import { partnerSide } from '../bidding/joint-bids';
+import type { Agent } from '@/types/database';
 import type {
   AgentWithPolicy,
   EconomicResult,
+  PartnerPayout,
+  TaskFailureResult,
   CostType,
   EconomyEventInput,
   Task,
@@ -30,44 +54,38 @@ import type {
 export interface TaskCompletionOptions {
   useBlockchain?: boolean; // default: true — real USDC transfers. false = DB only
   x402TxHash?: string;     // x402 settlement on-chain tx hash (Operator→Agent revenue payment)
+  qualityScore?: number;   // 0-1 deliverable grade; moves reputation. Omitted = reputation unchanged
+  revisions?: number;      // reworks before submitting; each adds REWORK_COST_FACTOR x operational cost
 }
 
+/** Extra operational cost per rework, as a share of the task's base cost */
+const REWORK_COST_FACTOR = 0.5;
+
+/** Ledger entry type for each cost an agent can be charged */
+const COST_ENTRY_TYPES: Record<CostType, CounterpartyEntryType> = {
+  task_execution: 'operational_cost',
+  living_cost: 'living_cost',
+  brain_wakeup: 'brain_spend',
+  bid_submission: 'bid_fee',
+};
+
 export class EconomyService {
+  constructor(
+    private readonly repos: Repositories = defaultRepositories,
+    private readonly ledger: LedgerService = new LedgerService(repos),
+    private readonly outbox: OutboxService = new OutboxService(repos)
+  ) {}
+
   /**
    * Credit revenue to an agent after winning a task
    */
   async creditRevenue(
     agentId: string,
     amount: number,
-    _taskId: string,
-    _metadata?: Record<string, unknown>
+    taskId: string,
+    metadata?: Record<string, unknown>
   ): Promise<number> {
-    // Get current balance
-    const { data: agent, error: getError } = await supabase
-      .from('agents')
-      .select('balance')
-      .eq('id', agentId)
-      .single();
-
-    if (getError || !agent) {
-      console.error('[EconomyService] Failed to get agent balance:', getError);
-      return 0;
-    }
-
-    const newBalance = (agent.balance || 0) + amount;
-
-    // Update balance
-    const { error: updateError } = await supabase
-      .from('agents')
-      .update({ balance: newBalance })
-      .eq('id', agentId);
-
-    if (updateError) {
-      console.error('[EconomyService] Failed to credit revenue:', updateError);
-      return agent.balance || 0;
-    }
-
-    return newBalance;
+    return this.ledger.transfer(agentId, 'revenue', amount, { taskId, metadata });
   }
 
   /**
@@ -76,40 +94,17 @@ export class EconomyService {
   async deductCost(
     agentId: string,
     amount: number,
-    _costType: CostType,
-    _metadata?: Record<string, unknown>
+    costType: CostType,
+    metadata?: Record<string, unknown>
   ): Promise<number> {
-    // Get current balance
-    const { data: agent, error: getError } = await supabase
-      .from('agents')
-      .select('balance')
-      .eq('id', agentId)
-      .single();
-
-    if (getError || !agent) {
-      console.error('[EconomyService] Failed to get agent balance:', getError);
-      return 0;
-    }
-
-    const newBalance = Math.max(0, (agent.balance || 0) - amount);
-
-    // Update balance
-    const { error: updateError } = await supabase
-      .from('agents')
-      .update({ balance: newBalance })
-      .eq('id', agentId);
-
-    if (updateError) {
-      console.error('[EconomyService] Failed to deduct cost:', updateError);
-      return agent.balance || 0;
-    }
-
-    return newBalance;
+    return this.adjustBalance(agentId, -amount, COST_ENTRY_TYPES[costType], { metadata });
   }
 
   /**
    * Process task completion: credit revenue, deduct costs, update stats.
    * Single path — useBlockchain only controls whether real USDC transfers happen.
+   * Joint bids (bid.partnership_id) pay the partner its agreed split first;
+   * the winner's profit is computed on the rest.
    */
   async processTaskCompletion(
     task: Task,
@@ -121,11 +116,7 @@ export class EconomyService {
     const x402TxHash = options?.x402TxHash;
 
     // Get current balance + stats
-    const { data: currentAgent, error: getError } = await supabase
-      .from('agents')
-      .select('balance, reputation, total_revenue, tasks_completed, privy_wallet_id, investor_share_bps')
-      .eq('id', agent.id)
-      .single();
+    const { data: currentAgent, error: getError } = await this.repos.agents.findById(agent.id);
 
     if (getError || !currentAgent) {
       console.error('[EconomyService] Failed to get agent for completion:', getError);
@@ -135,11 +126,40 @@ export class EconomyService {
       };
     }
 
-    // === PROFIT CALCULATION (single source of truth) ===
+    // === CLAIM THE SETTLEMENT ===
+    // Posting the revenue entry claims the task: a retried round, a repeated
+    // delivery request or a concurrent settlement finds its key taken and
+    // stops here, before any on-chain transfer. A crash after the claim
+    // leaves the costs below unposted rather than paying them twice.
     const revenue = winningBid.amount;
+    const settlementKey = (type: string) => ledgerKey('task', task.id, agent.id, type);
+    const refs: LedgerRefs = { taskId: task.id, bidId: winningBid.id };
+    const claim = await this.ledger.post([
+      this.ledger.agentEntry(agent.id, 'revenue', revenue, {
+        ...refs, txHash: x402TxHash, idempotencyKey: settlementKey('revenue'),
+      }),
+    ]);
+    if (!claim.posted.some(e => e.entry_type === 'revenue')) {
+      console.warn(`[EconomyService] Task ${task.id} already settled for ${agent.name}; skipping`);
+      return {
+        revenue: 0, cost: 0, profit: 0,
+        newBalance: currentAgent.balance, reputationChange: 0,
+      };
+    }
+
+    // === PROFIT CALCULATION (single source of truth) ===
     const taskType = task.type as TaskType;
-    const operationalCost = TASK_OPERATIONAL_COSTS[taskType] || 0.05;
-    const grossProfit = revenue - operationalCost;
+    const revisions = options?.revisions ?? 0;
+    const operationalCost = Math.round(
+      (TASK_OPERATIONAL_COSTS[taskType] || 0.05) * (1 + REWORK_COST_FACTOR * revisions) * 1e6
+    ) / 1e6;
+
+    // Joint bid: the partner's split comes off the top
+    const partnerPayout = winningBid.partnership_id
+      ? await this.payPartnerShare(task, winningBid, currentAgent, revenue, useBlockchain)
+      : null;
+    const ownRevenue = Math.round((revenue - (partnerPayout?.amount ?? 0)) * 1e6) / 1e6;
+    const grossProfit = ownRevenue - operationalCost;
 
     // Overhead costs (bid + living + brain amortized) — deducted before investor share.
     // These are charged separately in the simulation loop but represent real agent expenses.
@@ -167,49 +187,71 @@ export class EconomyService {
     const privyWalletId = currentAgent.privy_wallet_id;
 
     if (useBlockchain && privyWalletId) {
+      // Loaded lazily: privy-server needs Privy env vars, which DB-only runs don't have
+      const { payOperationalCostToSink, depositToEscrow } = await import('@/lib/privy-server');
+
       // Pay operational cost to sink
       try {
-        const costResult = await payOperationalCostToSink(privyWalletId, operationalCost);
+        const costResult = await payOperationalCostToSink(privyWalletId, operationalCost, settlementKey('operational_cost'));
         costTxHash = costResult.transaction_hash;
       } catch (err) {
         console.warn(`[EconomyService] Cost sink payment failed for ${agent.name}:`, err);
-        await logSystemError('payment', err, {
+        await this.repos.events.logError('payment', err, {
           agent_name: agent.name,
           agent_id: agent.id,
           detail: `Cost sink payment failed ($${operationalCost} for ${task.type})`,
         });
+        await this.outbox.retryLater('usdc_transfer', {
+          to: 'cost_sink', wallet_id: privyWalletId, agent_id: agent.id, amount: operationalCost,
+          purpose: 'operational_cost', task_id: task.id,
+        }, err, { dedupeKey: settlementKey('operational_cost') });
       }
 
       // Pay platform profit share to sink
       if (platformCut > 0) {
         try {
-          const platformResult = await payOperationalCostToSink(privyWalletId, platformCut);
+          const platformResult = await payOperationalCostToSink(privyWalletId, platformCut, settlementKey('platform_cut'));
           platformCutTxHash = platformResult.transaction_hash;
         } catch (err) {
           console.warn(`[EconomyService] Platform cut payment failed for ${agent.name}:`, err);
-          await logSystemError('payment', err, {
+          await this.repos.events.logError('payment', err, {
             agent_name: agent.name,
             agent_id: agent.id,
             detail: `Platform cut payment failed ($${platformCut.toFixed(6)})`,
           });
+          await this.outbox.retryLater('usdc_transfer', {
+            to: 'cost_sink', wallet_id: privyWalletId, agent_id: agent.id, amount: platformCut,
+            purpose: 'platform_cut', task_id: task.id,
+          }, err, { dedupeKey: settlementKey('platform_cut') });
         }
       }
 
       // Deposit investor share to escrow
       if (investorShareTotal > 0) {
+        let escrowError: unknown = null;
         try {
-          const escrowResult = await depositToEscrow(privyWalletId, investorShareTotal, agent.id);
+          const escrowResult = await depositToEscrow(
+            privyWalletId, investorShareTotal, agent.id, settlementKey('investor_escrow')
+          );
           escrowTxHash = escrowResult.txHash;
           if (!escrowResult.success) {
             console.warn(`[EconomyService] Escrow deposit failed for ${agent.name}:`, escrowResult.error);
+            escrowError = new Error(escrowResult.error || 'Escrow deposit failed');
           }
         } catch (err) {
           console.warn(`[EconomyService] Escrow deposit error for ${agent.name}:`, err);
-          await logSystemError('payment', err, {
+          await this.repos.events.logError('payment', err, {
             agent_name: agent.name,
             agent_id: agent.id,
             detail: `Escrow deposit failed ($${investorShareTotal.toFixed(6)})`,
           });
+          escrowError = err;
+        }
+        if (escrowError) {
+          await this.outbox.retryLater('usdc_transfer', {
+            to: 'escrow', wallet_id: privyWalletId, agent_id: agent.id, amount: investorShareTotal,
+            purpose: 'investor_escrow', task_id: task.id,
+          }, escrowError, { dedupeKey: settlementKey('investor_escrow') });
         }
       }
     }
@@ -217,11 +259,7 @@ export class EconomyService {
     // === DISTRIBUTE TO TOKEN HOLDERS ===
     let totalTokenSupply: number | null = null;
     if (investorShareTotal > 0 && agent.wallet_address) {
-      const { data: holders } = await supabase
-        .from('token_holdings_cache')
-        .select('investor_wallet, token_balance')
-        .eq('agent_wallet', agent.wallet_address.toLowerCase())
-        .gt('token_balance', 0);
+      const { data: holders } = await this.repos.escrow.listTokenHolders(agent.wallet_address);
 
       if (holders && holders.length > 0) {
         holderCount = holders.length;
@@ -231,13 +269,16 @@ export class EconomyService {
           const sharePercent = Number(holder.token_balance) / totalTokenSupply;
           const holderAmount = Math.round(investorShareTotal * sharePercent * 1e6) / 1e6;
           if (holderAmount > 0) {
-            const { error: rpcError } = await supabase.rpc('increment_investor_escrow', {
-              p_agent_id: agent.id,
-              p_investor_wallet: holder.investor_wallet.toLowerCase(),
-              p_amount: holderAmount,
-            });
+            // Shared with the outbox retry, so an increment that landed despite the error isn't added twice
+            const escrowKey = ledgerKey('task', task.id, holder.investor_wallet.toLowerCase(), 'investor_escrow');
+            const { error: rpcError } = await this.repos.escrow.incrementInvestorEscrow(
+              agent.id, holder.investor_wallet, holderAmount, escrowKey
+            );
             if (rpcError) {
               console.error(`[EconomyService] Escrow increment failed for ${holder.investor_wallet}:`, rpcError);
+              await this.outbox.retryLater('investor_escrow', {
+                agent_id: agent.id, investor_wallet: holder.investor_wallet, amount: holderAmount, task_id: task.id,
+              }, rpcError, { dedupeKey: escrowKey });
             }
           }
         }
@@ -246,7 +287,7 @@ export class EconomyService {
 
     // === RECORD ESCROW AUDIT ===
     if (investorShareTotal > 0) {
-      const { error: depositError } = await supabase.from('escrow_deposits').insert({
+      const { error: depositError } = await this.repos.escrow.recordDeposit({
         agent_id: agent.id,
         task_id: task.id,
         gross_profit: grossProfit,
@@ -263,24 +304,49 @@ export class EconomyService {
       }
     }
 
-    // === UPDATE AGENT DB (always) ===
-    const newBalance = Math.round((currentAgent.balance + agentShare) * 1e6) / 1e6;
-    const newRevenue = Math.round(((currentAgent.total_revenue || 0) + revenue) * 1e6) / 1e6;
-    const newTasksCompleted = (currentAgent.tasks_completed || 0) + 1;
-    // Reputation: random +/- up to 5% of current value on each win, clamped to [3.2, 4.8]
-    const currentRep = currentAgent.reputation || 3.8;
-    const maxDelta = currentRep * 0.05;
-    const delta = (Math.random() * 2 - 1) * maxDelta; // random between -maxDelta and +maxDelta
-    const newReputation = Math.round(Math.max(3.2, Math.min(4.8, currentRep + delta)) * 1000) / 1000;
-
-    await supabase.from('agents').update({
-      balance: newBalance,
-      total_revenue: newRevenue,
-      tasks_completed: newTasksCompleted,
-      reputation: newReputation,
-    }).eq('id', agent.id);
+    // === POST COSTS TO LEDGER + UPDATE AGENT DB (always) ===
+    // Net effect on the balance, with the claimed revenue, is agentShare
+    // (the partner payout was posted above)
+    const { balances } = await this.ledger.post([
+      this.ledger.agentEntry(agent.id, 'operational_cost', -operationalCost, {
+        ...refs, txHash: costTxHash, idempotencyKey: settlementKey('operational_cost'), metadata: { revisions },
+      }),
+      this.ledger.agentEntry(agent.id, 'platform_cut', -platformCut, {
+        ...refs, txHash: platformCutTxHash, idempotencyKey: settlementKey('platform_cut'),
+      }),
+      this.ledger.agentEntry(agent.id, 'investor_escrow', -investorShareTotal, {
+        ...refs, txHash: escrowTxHash, idempotencyKey: settlementKey('investor_escrow'),
+        metadata: { holder_count: holderCount, investor_share_bps: investorShareBps },
+      }),
+    ]);
+    const newBalance = balances.get(agent.id) ?? claim.balances.get(agent.id) ?? currentAgent.balance;
+
+    // Only the settlement that claimed the task gets here, so stats and
+    // reputation below are counted once
+    const { error: statsError } = await this.repos.agents.incrementStats(agent.id, {
+      total_revenue: ownRevenue,
+      tasks_completed: 1,
+    });
+    if (statsError) {
+      console.error('[EconomyService] Failed to update completion stats:', statsError);
+    }
 
-    agent.balance = newBalance;
+    // Delivered: the bid bond goes back to the balance (after the write above)
+    const bondReleased = await this.releaseBidBond(winningBid.id);
+    agent.balance = Math.round((newBalance + bondReleased) * 1e6) / 1e6;
+
+    // === REPUTATION (from the deliverable's grade) ===
+    let reputationChange = 0;
+    if (options?.qualityScore !== undefined) {
+      const currentRep = currentAgent.reputation ?? 3.8;
+      const change = reputationChangeForQuality(currentRep, options.qualityScore);
+      const newReputation = await this.updateReputation(agent.id, change, 'task_quality', {
+        taskId: task.id,
+        qualityScore: options.qualityScore,
+      });
+      reputationChange = Math.round((newReputation - currentRep) * 1000) / 1000;
+      agent.reputation = newReputation;
+    }
 
     // === LOG ECONOMY EVENTS (always) ===
     const paymentRecord = createPaymentRecord(
@@ -288,7 +354,7 @@ export class EconomyService {
       'task_payment', revenue, { taskId: task.id, taskType: task.type }
     );
 
-    createEvent({
+    await this.outbox.dispatch('event', {
       event_type: 'task_payment',
       description: `Operator paid ${agent.name} $${revenue} USDC for task ${task.type}`,
       agent_wallets: [agent.wallet_address],
@@ -302,10 +368,11 @@ export class EconomyService {
         agent_share: agentShare, investor_share: investorShareTotal,
         investor_share_bps: investorShareBps, payment_id: paymentRecord.id,
         x402_tx_hash: x402TxHash, cost_tx_hash: costTxHash, currency: 'USDC',
+        ...(partnerPayout ? { partnership_id: partnerPayout.partnershipId, partner_payout: partnerPayout.amount } : {}),
       },
-    }).catch(err => console.error('[EconomyService] task_payment event error:', err));
+    });
 
-    createEvent({
+    await this.outbox.dispatch('event', {
       event_type: 'cost_sink_payment',
       description: `${agent.name} paid $${operationalCost} USDC operational cost to sink`,
       agent_wallets: [agent.wallet_address],
@@ -315,10 +382,10 @@ export class EconomyService {
         task_id: task.id, task_type: task.type, operational_cost: operationalCost,
         cost_sink_wallet: COST_SINK_WALLET, currency: 'USDC', tx_hash: costTxHash || null,
       },
-    }).catch(err => console.error('[EconomyService] cost_sink_payment event error:', err));
+    });
 
     if (platformCut > 0) {
-      createEvent({
+      await this.outbox.dispatch('event', {
         event_type: 'platform_profit_share',
         description: `${agent.name} paid $${platformCut.toFixed(6)} USDC platform profit share (${(platformPct * 100).toFixed(0)}%)`,
         agent_wallets: [agent.wallet_address],
@@ -329,11 +396,11 @@ export class EconomyService {
           platform_pct: platformPct, platform_cut: platformCut,
           cost_sink_wallet: COST_SINK_WALLET, currency: 'USDC', tx_hash: platformCutTxHash,
         },
-      }).catch(err => console.error('[EconomyService] platform_profit_share event error:', err));
+      });
     }
 
     if (investorShareTotal > 0) {
-      createEvent({
+      await this.outbox.dispatch('event', {
         event_type: 'escrow_deposit',
         description: `${agent.name} escrowed $${investorShareTotal.toFixed(6)} USDC for ${holderCount} investors`,
         agent_wallets: [agent.wallet_address],
@@ -346,11 +413,13 @@ export class EconomyService {
           investor_share_bps: investorShareBps, holder_count: holderCount,
           escrow_wallet: ESCROW_WALLET, currency: 'USDC', tx_hash: escrowTxHash,
         },
-      }).catch(err => console.error('[EconomyService] escrow_deposit event error:', err));
+      });
     }
 
     console.log(
-      `[EconomyService] ${agent.name} | rev: $${revenue.toFixed(4)} | cost: $${operationalCost.toFixed(4)} | ` +
+      `[EconomyService] ${agent.name} | rev: $${revenue.toFixed(4)}` +
+      (partnerPayout ? ` | partner: $${partnerPayout.amount.toFixed(4)}` : '') +
+      ` | cost: $${operationalCost.toFixed(4)} | ` +
       `gross: $${grossProfit.toFixed(4)} | overhead: $${overhead.toFixed(4)} | net: $${netProfit.toFixed(4)} | ` +
       `platform ${(platformPct * 100).toFixed(0)}%: $${platformCut.toFixed(4)} | ` +
       `investor ${(investorPct * 100).toFixed(0)}%: $${investorShareTotal.toFixed(4)} | agent: $${agentShare.toFixed(4)}`
@@ -360,8 +429,8 @@ export class EconomyService {
       revenue,
       cost: operationalCost,
       profit: agentShare,
-      newBalance,
-      reputationChange: Math.round(delta * 1000) / 1000,
+      newBalance: agent.balance,
+      reputationChange,
       blockchainPayment: {
         x402TxHash,
         costTxHash,
@@ -372,12 +441,234 @@ export class EconomyService {
         agentShare,
         holderCount,
       },
+      ...(partnerPayout ? { partnerPayout } : {}),
     };
   }
 
+  /**
+   * Pay the partner of a joint bid its split of the payment: the partner is
+   * credited its share minus its own operational cost (USDC moves lead ->
+   * partner and partner -> cost sink when useBlockchain), and the payment is
+   * added to the partnership's revenue. Returns null (no split) when the
+   * partnership or partner can't be found.
+   */
+  private async payPartnerShare(
+    task: Task,
+    winningBid: Bid,
+    lead: Agent,
+    revenue: number,
+    useBlockchain: boolean
+  ): Promise<PartnerPayout | null> {
+    const { data: partnership } = await this.repos.partnerships.findById(winningBid.partnership_id!);
+    const side = partnership ? partnerSide(partnership, lead) : null;
+    if (!partnership || !side) {
+      console.warn(`[EconomyService] Partnership ${winningBid.partnership_id} not found for ${lead.name}; paying the full amount`);
+      return null;
+    }
+
+    const { data: partner } = side.partnerId
+      ? await this.repos.agents.findById(side.partnerId)
+      : await this.repos.agents.findByWallet(side.partnerWallet || '');
+    if (!partner) {
+      console.warn(`[EconomyService] Partner in ${partnership.id} not found for ${lead.name}; paying the full amount`);
+      return null;
+    }
+
+    const amount = Math.round(revenue * (side.partnerSplit / 100) * 1e6) / 1e6;
+    const cost = TASK_OPERATIONAL_COSTS[partner.type as TaskType] || 0.05;
+
+    let txHash: string | undefined;
+    let costTxHash: string | undefined;
+    if (useBlockchain && lead.privy_wallet_id && partner.wallet_address && amount > 0) {
+      try {
+        const { sendUsdcFromAgent, payOperationalCostToSink } = await import('@/lib/privy-server');
+        txHash = (await sendUsdcFromAgent(
+          lead.privy_wallet_id, partner.wallet_address, amount, ledgerKey('task', task.id, partner.id, 'partner_payout')
+        )).transaction_hash;
+        if (partner.privy_wallet_id) {
+          costTxHash = (await payOperationalCostToSink(
+            partner.privy_wallet_id, cost, ledgerKey('task', task.id, partner.id, 'operational_cost')
+          )).transaction_hash;
+        }
+      } catch (err) {
+        console.warn(`[EconomyService] Partner payout failed for ${lead.name} -> ${partner.name}:`, err);
+        await this.repos.events.logError('payment', err, {
+          agent_name: lead.name,
+          agent_id: lead.id,
+          detail: `Partner payout failed ($${amount.toFixed(6)} to ${partner.name} for task ${task.id})`,
+        });
+        // Retry whichever transfers didn't go through
+        if (!txHash) {
+          await this.outbox.retryLater('usdc_transfer', {
+            to: 'wallet', to_wallet: partner.wallet_address, wallet_id: lead.privy_wallet_id, agent_id: lead.id,
+            amount, purpose: 'partner_payout', task_id: task.id,
+          }, err, { dedupeKey: ledgerKey('task', task.id, partner.id, 'partner_payout') });
+        }
+        if (partner.privy_wallet_id && !costTxHash) {
+          await this.outbox.retryLater('usdc_transfer', {
+            to: 'cost_sink', wallet_id: partner.privy_wallet_id, agent_id: partner.id, amount: cost,
+            purpose: 'operational_cost', task_id: task.id,
+          }, err, { dedupeKey: ledgerKey('task', task.id, partner.id, 'operational_cost') });
+        }
+      }
+    }
+
+    const refs: LedgerRefs = { taskId: task.id, bidId: winningBid.id };
+    const { posted } = await this.ledger.post([
+      this.ledger.entry('partner_payout', agentAccount(partner.id), agentAccount(lead.id), amount, {
+        ...refs, txHash, idempotencyKey: ledgerKey('task', task.id, partner.id, 'partner_payout'),
+        metadata: { partnership_id: partnership.id, partner_split: side.partnerSplit },
+      }),
+      this.ledger.agentEntry(partner.id, 'operational_cost', -cost, {
+        ...refs, txHash: costTxHash, idempotencyKey: ledgerKey('task', task.id, partner.id, 'operational_cost'),
+      }),
+    ]);
+    if (posted.some(e => e.entry_type === 'partner_payout')) {
+      await this.repos.agents.incrementStats(partner.id, { total_revenue: amount, tasks_completed: 1 });
+    }
+
+    const { error: revenueError } = await this.repos.partnerships.addRevenue(partnership.id, revenue);
+    if (revenueError) {
+      console.error('[EconomyService] Failed to record partnership revenue:', revenueError);
+    }
+
+    await this.outbox.dispatch('event', {
+      event_type: 'partnership',
+      description: `${lead.name} paid partner ${partner.name} $${amount.toFixed(4)} USDC (${side.partnerSplit}% split) for ${task.type} task`,
+      agent_wallets: [lead.wallet_address, partner.wallet_address].filter((w): w is string => !!w),
+      amount,
+      tx_hash: txHash || null,
+      metadata: {
+        partnership_id: partnership.id, task_id: task.id, task_type: task.type,
+        required_types: task.required_types ?? null, bid_id: winningBid.id,
+        payment: revenue, partner_split: side.partnerSplit, partner_payout: amount,
+        partner_operational_cost: cost, cost_tx_hash: costTxHash || null, currency: 'USDC',
+      },
+    });
+
+    return { partnershipId: partnership.id, partnerId: partner.id, amount, cost, txHash };
+  }
+
+  /**
+   * Penalize an agent that missed its delivery deadline: it forfeits
+   * TASK_FAILURE_FEE_BPS of the clearing price and its bid bond to the cost
+   * sink, loses reputation, and the failure is counted in the DB and on
+   * AgentRegistry.
+   */
+  async processTaskFailure(
+    task: Task,
+    failedBid: Bid,
+    agent: AgentWithPolicy,
+    options?: { useBlockchain?: boolean; roundNumber?: number }
+  ): Promise<TaskFailureResult> {
+    const useBlockchain = options?.useBlockchain ?? true;
+
+    const { data: currentAgent, error: getError } = await this.repos.agents.findById(agent.id);
+
+    if (getError || !currentAgent) {
+      console.error('[EconomyService] Failed to get agent for task failure:', getError);
+      return { penalty: 0, newBalance: agent.balance, reputationChange: 0, bondForfeited: 0 };
+    }
+
+    const price = failedBid.clearing_price ?? failedBid.amount;
+    const fee = Math.round(price * (TASK_FAILURE_FEE_BPS / 10000) * 1e6) / 1e6;
+
+    // Claim the fee before paying it on chain: a retried or overlapping sweep
+    // finds the key taken. Nothing claimed with the key unused means the
+    // agent had nothing left to take; the failure is still counted.
+    const failureKey = ledgerKey('task', task.id, agent.id, 'failure_fee');
+    const claim = await this.ledger.claim({
+      ...this.ledger.agentEntry(agent.id, 'failure_fee', -fee, {
+        roundNumber: options?.roundNumber, taskId: task.id, bidId: failedBid.id, idempotencyKey: failureKey,
+      }),
+      limit: 'clamp',
+    });
+    if (!claim && await this.ledger.hasPosted(failureKey)) {
+      console.warn(`[EconomyService] Task failure ${task.id} already processed for ${agent.name}; skipping`);
+      return { penalty: 0, newBalance: currentAgent.balance, reputationChange: 0, bondForfeited: 0 };
+    }
+    const penalty = claim?.entry.amount ?? 0;
+
+    let penaltyTxHash: string | undefined;
+    let chainTxHash: string | undefined;
+
+    if (useBlockchain) {
+      if (currentAgent.privy_wallet_id && penalty > 0) {
+        try {
+          const { payOperationalCostToSink } = await import('@/lib/privy-server');
+          const result = await payOperationalCostToSink(currentAgent.privy_wallet_id, penalty, failureKey);
+          penaltyTxHash = result.transaction_hash;
+        } catch (err) {
+          console.warn(`[EconomyService] Failure fee payment failed for ${agent.name}:`, err);
+          await this.repos.events.logError('payment', err, {
+            round_number: options?.roundNumber,
+            agent_name: agent.name,
+            agent_id: agent.id,
+            detail: `Failure fee payment failed ($${penalty.toFixed(6)} for task ${task.id})`,
+          });
+          await this.outbox.retryLater('usdc_transfer', {
+            to: 'cost_sink', wallet_id: currentAgent.privy_wallet_id, agent_id: agent.id, amount: penalty,
+            purpose: 'failure_fee', task_id: task.id, round_number: options?.roundNumber ?? null,
+          }, err, { dedupeKey: failureKey });
+        }
+      }
+
+      if (currentAgent.chain_agent_id) {
+        try {
+          const { recordTaskFailureOnChain } = await import('@/lib/contracts');
+          chainTxHash = await recordTaskFailureOnChain(BigInt(currentAgent.chain_agent_id));
+        } catch (err) {
+          console.warn(`[EconomyService] recordTaskFailure failed for ${agent.name}:`, err);
+          await this.repos.events.logError('blockchain', err, {
+            round_number: options?.roundNumber,
+            agent_name: agent.name,
+            agent_id: agent.id,
+            detail: `AgentRegistry.recordTaskFailure failed for task ${task.id}`,
+          });
+        }
+      }
+    }
+
+    const newBalance = claim?.balances.get(agent.id) ?? currentAgent.balance;
+    await this.repos.agents.incrementStats(agent.id, { tasks_failed: 1 });
+    agent.balance = newBalance;
+
+    const oldReputation = currentAgent.reputation ?? 3.8;
+    const newReputation = await this.updateReputation(
+      agent.id, -TASK_FAILURE_REPUTATION_PENALTY, 'task_failed', { taskId: task.id }
+    );
+    agent.reputation = newReputation;
+    const reputationChange = Math.round((newReputation - oldReputation) * 1000) / 1000;
+
+    const bond = await this.forfeitBidBond(failedBid.id, agent, options);
+
+    await this.outbox.dispatch('event', {
+      event_type: 'task_failed',
+      description: `${agent.name} missed the delivery deadline for ${task.type} task, forfeiting $${penalty.toFixed(4)} USDC`,
+      agent_wallets: [agent.wallet_address],
+      amount: penalty,
+      tx_hash: penaltyTxHash || null,
+      round_number: options?.roundNumber ?? null,
+      metadata: {
+        task_id: task.id, task_type: task.type, bid_id: failedBid.id,
+        clearing_price: price, penalty, reputation_change: reputationChange,
+        delivery_deadline: task.delivery_deadline, chain_tx_hash: chainTxHash || null,
+        bond_forfeited: bond.amount, currency: 'USDC',
+      },
+    });
+
+    console.log(
+      `[EconomyService] ${agent.name} failed task ${task.id}: penalty $${penalty.toFixed(4)}, ` +
+      `reputation ${oldReputation.toFixed(2)} -> ${newReputation.toFixed(2)}`
+    );
+
+    return { penalty, newBalance, reputationChange, penaltyTxHash, chainTxHash, bondForfeited: bond.amount };
+  }
+
   /**
    * Deduct living costs from all agents.
-   * When useBlockchain=true, sends real USDC to cost sink and records tx_hash.
+   * When useBlockchain=true, sends the amount the ledger took as real USDC
+   * to the cost sink and records the tx_hash on the living_cost event.
    */
   async deductLivingCosts(
     agents: AgentWithPolicy[],
@@ -392,46 +683,55 @@ export class EconomyService {
 
       let txHash: string | undefined;
 
+      // Claim before paying on chain. Never below zero: the ledger takes what
+      // the agent has, and that is what goes to the sink. Nothing claimed
+      // means an earlier (or overlapping) attempt at this round charged it.
+      const livingKey = ledgerKey('round', roundNum, agent.id, 'living_cost');
+      const claim = await this.ledger.claim({
+        ...this.ledger.agentEntry(agent.id, 'living_cost', -costPerRound, {
+          roundNumber: roundNum, idempotencyKey: livingKey, metadata: { cost_per_round: costPerRound },
+        }),
+        limit: 'clamp',
+      });
+      if (!claim) continue;
+      const charged = claim.entry.amount;
+
+      const { data: agentData } = await this.repos.agents.findById(agent.id);
+
       if (useBlockchain) {
         // Real USDC transfer to cost sink
-        const { data: agentData } = await supabase
-          .from('agents')
-          .select('privy_wallet_id')
-          .eq('id', agent.id)
-          .single();
-
         if (agentData?.privy_wallet_id) {
           try {
-            const result = await payOperationalCostToSink(agentData.privy_wallet_id, costPerRound);
+            const { payOperationalCostToSink } = await import('@/lib/privy-server');
+            const result = await payOperationalCostToSink(agentData.privy_wallet_id, charged, livingKey);
             txHash = result.transaction_hash;
           } catch (err) {
             console.warn(`[EconomyService] Living cost blockchain payment failed for ${agent.name}:`, err);
-            await logSystemError('blockchain', err, {
+            await this.repos.events.logError('blockchain', err, {
               round_number: roundNum,
               agent_name: agent.name,
               agent_id: agent.id,
-              detail: `Living cost payment failed ($${costPerRound})`,
+              detail: `Living cost payment failed ($${charged})`,
             });
+            await this.outbox.retryLater('usdc_transfer', {
+              to: 'cost_sink', wallet_id: agentData.privy_wallet_id, agent_id: agent.id, amount: charged,
+              purpose: 'living_cost', round_number: roundNum,
+            }, err, { dedupeKey: livingKey });
           }
         }
       }
 
-      const newBalance = Math.max(0, agent.balance - costPerRound);
-
-      await supabase
-        .from('agents')
-        .update({ balance: newBalance })
-        .eq('id', agent.id);
+      const newBalance = claim.balances.get(agent.id) ?? agent.balance;
 
       // Update local copy
       agent.balance = newBalance;
 
       // Record living cost event
-      createEvent({
+      await this.outbox.dispatch('event', {
         event_type: 'living_cost',
         description: `${agent.name} living cost for round ${roundNum}`,
         agent_wallets: [agent.wallet_address],
-        amount: costPerRound,
+        amount: charged,
         tx_hash: txHash || null,
         metadata: {
           round: roundNum,
@@ -440,34 +740,50 @@ export class EconomyService {
           balance_after: newBalance,
           tx_hash: txHash,
         },
-      }).catch(() => {});
+      });
     }
   }
 
   /**
-   * Update agent reputation
+   * Update agent reputation (0-5 stars) and record the change in reputation history
    */
   async updateReputation(
     agentId: string,
     change: number,
-    _reason: string
+    reason: string,
+    context?: { taskId?: string; qualityScore?: number }
   ): Promise<number> {
-    const { data: agent, error: getError } = await supabase
-      .from('agents')
-      .select('reputation')
-      .eq('id', agentId)
-      .single();
+    const { data: agent, error: getError } = await this.repos.agents.findById(agentId);
 
     if (getError || !agent) {
+      console.error('[EconomyService] Failed to get agent for reputation update:', getError);
       return 0;
     }
 
-    const newReputation = Math.max(0, Math.min(1000, (agent.reputation || 500) + change));
+    // Clamped to 0-5 and applied in place, so concurrent changes all land
+    const { data: updated, error: updateError } = await this.repos.agents.adjustReputation(agentId, change);
+
+    if (updateError || !updated) {
+      console.error('[EconomyService] Failed to update reputation:', updateError);
+      return agent.reputation ?? 3.8;
+    }
 
-    await supabase
-      .from('agents')
-      .update({ reputation: newReputation })
-      .eq('id', agentId);
+    const { old_reputation: oldReputation, new_reputation: newReputation } = updated;
+
+    const { error: historyError } = await this.repos.reputation.record({
+      agent_id: agentId,
+      agent_wallet: agent.wallet_address ?? '',
+      old_reputation: oldReputation,
+      new_reputation: newReputation,
+      change_amount: Math.round((newReputation - oldReputation) * 1000) / 1000,
+      reason,
+      task_id: context?.taskId ?? null,
+      quality_score: context?.qualityScore ?? null,
+    });
+
+    if (historyError) {
+      console.error('[EconomyService] Failed to record reputation history:', historyError);
+    }
 
     return newReputation;
   }
@@ -476,7 +792,7 @@ export class EconomyService {
    * Record an economy event
    */
   async recordEconomyEvent(event: EconomyEventInput): Promise<void> {
-    const result = await createEvent({
+    await this.outbox.dispatch('event', {
       event_type: event.event_type,
       description: event.description,
       agent_wallets: event.agent_wallets,
@@ -484,40 +800,124 @@ export class EconomyService {
       amount: event.amount,
       metadata: event.metadata,
     });
+  }
 
-    if (result.error) {
-      console.error('[EconomyService] Failed to record event:', result.error);
-    }
+  /**
+   * Adjust agent balance by a delta amount, posted as a `type` ledger entry.
+   * Debits never take the balance below zero (the entry records what was
+   * taken, with the requested amount in its metadata).
+   */
+  async adjustBalance(
+    agentId: string,
+    delta: number,
+    type: CounterpartyEntryType,
+    refs?: LedgerRefs
+  ): Promise<number> {
+    return this.ledger.transfer(agentId, type, delta, refs, 'clamp');
   }
 
   /**
-   * Adjust agent balance by a delta amount
+   * Lock a bid bond: moves amount from balance to bonded_balance.
+   * Returns false (nothing locked) when the balance can't cover it.
    */
-  async adjustBalance(agentId: string, delta: number): Promise<number> {
-    const { data: agent, error: getError } = await supabase
-      .from('agents')
-      .select('balance')
-      .eq('id', agentId)
-      .single();
+  async lockBidBond(agentId: string, amount: number): Promise<boolean> {
+    if (amount <= 0) return true;
 
-    if (getError || !agent) {
-      console.error('[EconomyService] Failed to get agent balance:', getError);
-      return 0;
-    }
+    // Checked against the balance inside the post, not a read beforehand
+    const { posted } = await this.ledger.post([
+      { ...this.ledger.entry('bond_lock', bondAccount(agentId), agentAccount(agentId), amount), limit: 'require' },
+    ]);
 
-    const newBalance = Math.max(0, (agent.balance || 0) + delta);
+    return posted.length > 0;
+  }
 
-    const { error: updateError } = await supabase
-      .from('agents')
-      .update({ balance: newBalance })
-      .eq('id', agentId);
+  /**
+   * Move bonded funds back to the balance
+   */
+  async unlockBidBond(agentId: string, amount: number, refs?: LedgerRefs): Promise<void> {
+    if (amount <= 0) return;
+
+    await this.ledger.post([
+      { ...this.ledger.entry('bond_release', agentAccount(agentId), bondAccount(agentId), amount, refs), limit: 'clamp' },
+    ]);
+  }
 
-    if (updateError) {
-      console.error('[EconomyService] Failed to adjust balance:', updateError);
-      return agent.balance || 0;
+  /**
+   * Release a bid's LOCKED bond (bid lost, expired or delivered).
+   * Returns the amount released, 0 when there was nothing locked.
+   */
+  async releaseBidBond(bidId: string): Promise<number> {
+    const { data: bid } = await this.repos.bids.findById(bidId);
+    const amount = Number(bid?.bond_amount || 0);
+    if (!bid || bid.bond_status !== 'LOCKED' || amount <= 0) return 0;
+
+    await this.repos.bids.update(bidId, { bond_status: 'RELEASED' });
+    await this.unlockBidBond(bid.agent_id, amount, {
+      bidId, taskId: bid.task_id, idempotencyKey: ledgerKey('bid', bidId, 'bond_release'),
+    });
+    return amount;
+  }
+
+  /**
+   * Forfeit a bid's LOCKED bond after a missed delivery: the bonded funds
+   * leave the agent (paid to the cost sink when useBlockchain).
+   */
+  async forfeitBidBond(
+    bidId: string,
+    agent: AgentWithPolicy,
+    options?: { useBlockchain?: boolean; roundNumber?: number }
+  ): Promise<{ amount: number; txHash?: string }> {
+    const { data: bid } = await this.repos.bids.findById(bidId);
+    const amount = Number(bid?.bond_amount || 0);
+    if (!bid || bid.bond_status !== 'LOCKED' || amount <= 0) return { amount: 0 };
+
+    await this.repos.bids.update(bidId, { bond_status: 'FORFEITED' });
+
+    // Claim before paying on chain; the ledger takes at most what is bonded
+    const forfeitKey = ledgerKey('bid', bidId, 'bond_forfeit');
+    const claim = await this.ledger.claim({
+      ...this.ledger.entry('bond_forfeit', LEDGER_ACCOUNTS.costSink, bondAccount(agent.id), amount, {
+        roundNumber: options?.roundNumber, bidId, taskId: bid.task_id, idempotencyKey: forfeitKey,
+      }),
+      limit: 'clamp',
+    });
+    if (!claim) return { amount: 0 };
+    const forfeited = claim.entry.amount;
+
+    const { data: currentAgent } = await this.repos.agents.findById(agent.id);
+
+    let txHash: string | undefined;
+    if ((options?.useBlockchain ?? true) && currentAgent?.privy_wallet_id && forfeited > 0) {
+      try {
+        const { payOperationalCostToSink } = await import('@/lib/privy-server');
+        const result = await payOperationalCostToSink(currentAgent.privy_wallet_id, forfeited, forfeitKey);
+        txHash = result.transaction_hash;
+      } catch (err) {
+        console.warn(`[EconomyService] Bond forfeit payment failed for ${agent.name}:`, err);
+        await this.repos.events.logError('payment', err, {
+          round_number: options?.roundNumber,
+          agent_name: agent.name,
+          agent_id: agent.id,
+          detail: `Bond forfeit payment failed ($${forfeited.toFixed(6)} for bid ${bidId})`,
+        });
+        await this.outbox.retryLater('usdc_transfer', {
+          to: 'cost_sink', wallet_id: currentAgent.privy_wallet_id, agent_id: agent.id, amount: forfeited,
+          purpose: 'bond_forfeit', task_id: bid.task_id, round_number: options?.roundNumber ?? null,
+        }, err, { dedupeKey: forfeitKey });
+      }
     }
 
-    return newBalance;
+    await this.outbox.dispatch('event', {
+      event_type: 'bond_forfeited',
+      description: `${agent.name} forfeited a $${forfeited.toFixed(4)} USDC bid bond`,
+      agent_wallets: [agent.wallet_address],
+      amount: forfeited,
+      tx_hash: txHash || null,
+      round_number: options?.roundNumber ?? null,
+      metadata: { bid_id: bidId, task_id: bid.task_id, bond_amount: amount, currency: 'USDC' },
+    });
+
+    return { amount: forfeited, txHash };
   }
 
   /**
@@ -530,11 +930,7 @@ export class EconomyService {
     amount?: number,
     metadata?: Record<string, unknown>
   ): Promise<void> {
-    const { data: agentData } = await supabase
-      .from('agents')
-      .select('wallet_address')
-      .eq('id', agentId)
-      .single();
+    const { data: agentData } = await this.repos.agents.findById(agentId);
 
     if (!agentData) {
       console.error('[EconomyService] Agent not found for event:', agentId);
@@ -544,7 +940,7 @@ export class EconomyService {
     await this.recordEconomyEvent({
       event_type: eventType,
       description,
-      agent_wallets: [agentData.wallet_address],
+      agent_wallets: agentData.wallet_address ? [agentData.wallet_address] : [],
       amount: amount ?? null,
       metadata: metadata || {},
     });
@@ -560,11 +956,7 @@ export class EconomyService {
     const agentCosts = agent.costs || AGENT_COSTS[agent.type] || AGENT_COSTS.CATALOG;
 
     // Get current status from DB
-    const { data: currentAgent } = await supabase
-      .from('agents')
-      .select('status')
-      .eq('id', agent.id)
-      .single();
+    const { data: currentAgent } = await this.repos.agents.findById(agent.id);
 
     if (!currentAgent) return null;
 
@@ -593,10 +985,7 @@ export class EconomyService {
    * Update agent status
    */
   async updateAgentStatus(agentId: string, status: string): Promise<void> {
-    const { error } = await supabase
-      .from('agents')
-      .update({ status })
-      .eq('id', agentId);
+    const { error } = await this.repos.agents.update(agentId, { status: status as AgentStatus });
 
     if (error) {
       console.error('[EconomyService] Failed to update agent status:', error);
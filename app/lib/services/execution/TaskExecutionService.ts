@@ -0,0 +1,202 @@
+/**
+ * TaskExecutionService - Produce and store task deliverables
+ *
+ * The winning agent's work product for a task: generated by the LLM for the
+ * 'execution' activity when useLLM is on and its provider is available,
+ * otherwise (or when the model's output fails validation) by the
+ * deterministic offline stub. The mock provider answers with that stub.
+ *
+ * Every deliverable is graded (see grading.ts). Below the agent's
+ * execution.quality_threshold it reworks the deliverable, up to
+ * MAX_REVISIONS times, and submits the best attempt; each rework adds to
+ * the task's operational cost at settlement.
+ * Used by both the task-delivery route and in-process delivery.
+ */
+
+import { defaultRepositories, type Repositories } from '../repositories';
+import { brainBudgetService, type BrainBudgetService } from '../budget/BrainBudgetService';
+import type {
+  AgentWithPolicy,
+  Bid,
+  DeliverableSource,
+  QualityGrade,
+  StoredDeliverable,
+  Task,
+  TaskDeliverable,
+  TaskType,
+} from '../types';
+import { buildStubDeliverable, DELIVERABLE_SCHEMAS, parseDeliverable } from './deliverables';
+import { describeShortfalls, gradeDeliverable } from './grading';
+
+/** Reworks allowed while a deliverable is below the agent's quality_threshold */
+export const MAX_REVISIONS = 2;
+
+type ProducedDeliverable = { deliverable: TaskDeliverable; source: DeliverableSource; model: string | null };
+
+export interface ExecutionOptions {
+  useLLM: boolean;
+}
+
+export interface ExecutionResult {
+  deliverable: TaskDeliverable;
+  source: DeliverableSource;
+  model: string | null;
+  grade: QualityGrade;
+  revisions: number;
+  deliverableId: string | null; // null when storing failed
+}
+
+export class TaskExecutionService {
+  constructor(
+    private readonly repos: Repositories = defaultRepositories,
+    private readonly budget: BrainBudgetService = brainBudgetService
+  ) {}
+
+  /**
+   * Produce the deliverable for a won bid, grade it, and store it
+   */
+  async execute(
+    task: Task,
+    bid: Bid,
+    agent: AgentWithPolicy,
+    options: ExecutionOptions
+  ): Promise<ExecutionResult> {
+    const taskType = task.type as TaskType;
+    const threshold = agent.policy?.execution?.quality_threshold ?? 0;
+
+    let best = await this.produce(task, agent, options, 0, null);
+    let bestGrade = gradeDeliverable(taskType, task.input_ref, best.deliverable);
+    let revisions = 0;
+
+    while (bestGrade.score < threshold && revisions < MAX_REVISIONS) {
+      revisions++;
+      const attempt = await this.produce(task, agent, options, revisions, bestGrade);
+      const grade = gradeDeliverable(taskType, task.input_ref, attempt.deliverable);
+      if (grade.score > bestGrade.score) {
+        best = attempt;
+        bestGrade = grade;
+      }
+    }
+
+    const { data, error } = await this.repos.deliverables.insert({
+      task_id: task.id,
+      bid_id: bid.id,
+      agent_id: agent.id,
+      task_type: taskType,
+      content: best.deliverable,
+      source: best.source,
+      model: best.model,
+      quality_score: bestGrade.score,
+      grade: bestGrade,
+      revisions,
+    });
+
+    if (error || !data) {
+      console.error(`[TaskExecutionService] Failed to store deliverable for task ${task.id}:`, error);
+    } else {
+      console.log(
+        `[TaskExecutionService] ${agent.name} delivered ${taskType} task ${task.id} (${best.source}) ` +
+        `quality=${bestGrade.score.toFixed(2)}${revisions > 0 ? ` after ${revisions} revision(s)` : ''}`
+      );
+    }
+
+    return { ...best, grade: bestGrade, revisions, deliverableId: data?.id ?? null };
+  }
+
+  /**
+   * Get stored deliverables for a task
+   */
+  async getDeliverables(taskId: string): Promise<StoredDeliverable[]> {
+    const { data, error } = await this.repos.deliverables.listForTask(taskId);
+
+    if (error) {
+      console.error('[TaskExecutionService] Failed to get deliverables:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  /**
+   * One attempt at the deliverable: LLM when enabled, else (or on failure)
+   * the stub. Revisions reseed the stub and give the model the grader's feedback.
+   */
+  private async produce(
+    task: Task,
+    agent: AgentWithPolicy,
+    options: ExecutionOptions,
+    attempt: number,
+    previousGrade: QualityGrade | null
+  ): Promise<ProducedDeliverable> {
+    const stubSeed = attempt === 0 ? agent.id : `${agent.id}:rev${attempt}`;
+    if (options.useLLM) {
+      const generated = await this.generateWithLLM(task, agent, previousGrade, stubSeed);
+      if (generated) return generated;
+    }
+    return {
+      deliverable: buildStubDeliverable(task.type as TaskType, task.input_ref, stubSeed),
+      source: 'stub',
+      model: null,
+    };
+  }
+
+  /**
+   * Ask the agent's model for the deliverable. Returns null when the provider
+   * has no credentials or on any failure (caller falls back to the stub).
+   */
+  private async generateWithLLM(
+    task: Task,
+    agent: AgentWithPolicy,
+    previousGrade: QualityGrade | null,
+    stubSeed: string
+  ): Promise<ProducedDeliverable | null> {
+    const taskType = task.type as TaskType;
+    const feedback = previousGrade
+      ? `\nYour previous attempt scored ${Math.round(previousGrade.score * 100)}% with the reviewer. Improve on:\n${describeShortfalls(previousGrade).map(s => `- ${s}`).join('\n')}\n`
+      : '';
+    const prompt = `You are ${agent.name}, a ${agent.type} agent in an AI agent marketplace. You won the auction for this task and must now deliver the work.
+
+Task type: ${taskType}
+Task input: ${task.input_ref || '(none)'}
+${feedback}
+Produce the deliverable as JSON with exactly this shape:
+${DELIVERABLE_SCHEMAS[taskType]}
+
+Be specific and realistic for the task input. Return only the JSON object.`;
+
+    let modelName = '';
+    // Deliverable calls are metered for the spend view but not charged
+    const meter = this.budget.meter(agent.id, 'execution', task.round_number ?? null);
+    try {
+      const { getLlmForActivity } = await import('@/lib/llm');
+      const { provider, model } = await getLlmForActivity('execution', { onUsage: meter.onUsage });
+      if (!provider.available) return null;
+      modelName = model;
+
+      const result = await provider.generate({
+        model,
+        messages: [{ role: 'user', content: prompt }],
+        json: true,
+        offline: () => ({ text: JSON.stringify(buildStubDeliverable(taskType, task.input_ref, stubSeed)), toolCalls: [] }),
+      });
+      await this.budget.settle(meter, { charge: false });
+      const deliverable = parseDeliverable(taskType, JSON.parse(result.text));
+      if (!deliverable) {
+        console.warn(`[TaskExecutionService] ${agent.name}: LLM output failed ${taskType} schema, using stub`);
+        return null;
+      }
+      return { deliverable, source: 'llm', model: modelName };
+    } catch (err) {
+      console.error(`[TaskExecutionService] LLM execution failed for ${agent.name}:`, err);
+      await this.repos.events.logError('llm', err, {
+        agent_name: agent.name,
+        agent_id: agent.id,
+        detail: `Task execution (${taskType}, model ${modelName || 'unknown'}) failed, used stub`,
+      });
+      return null;
+    }
+  }
+}
+
+// Singleton instance for convenience
+export const taskExecutionService = new TaskExecutionService();
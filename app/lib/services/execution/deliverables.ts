@@ -0,0 +1,262 @@
+/**
+ * Task deliverables - schemas, validation and the offline stub generator
+ *
+ * Each TaskType has one deliverable shape (see TaskDeliverable in ../types).
+ * LLM output is parsed through parseDeliverable so malformed responses are
+ * rejected instead of stored; the stub builds a deliverable from input_ref
+ * alone, deterministically, for offline runs.
+ */
+
+import { createRng, parseSeed, type Rng } from '@/lib/random';
+import type {
+  CatalogDeliverable,
+  CurationDeliverable,
+  ReviewDeliverable,
+  SellerDeliverable,
+  TaskDeliverable,
+  TaskType,
+} from '../types';
+
+// =============================================================================
+// PROMPT SCHEMAS
+// =============================================================================
+
+/** JSON shape the LLM must return, per task type (embedded in the prompt) */
+export const DELIVERABLE_SCHEMAS: Record<TaskType, string> = {
+  CATALOG: `{
+  "task_type": "CATALOG",
+  "product": {
+    "sku": string, "title": string, "brand": string, "category": string,
+    "price": number, "currency": "USD",
+    "attributes": { [name: string]: string },
+    "description": string (1-3 sentences)
+  }
+}`,
+  REVIEW: `{
+  "task_type": "REVIEW",
+  "rating": number (1-5, one decimal),
+  "summary": string (1-3 sentences),
+  "pros": string[] (2-5 items),
+  "cons": string[] (1-5 items)
+}`,
+  CURATION: `{
+  "task_type": "CURATION",
+  "title": string,
+  "items": [{ "rank": number (1 = best), "name": string, "reason": string, "score": number (0-1) }] (3-10 items)
+}`,
+  SELLER: `{
+  "task_type": "SELLER",
+  "seller_name": string,
+  "decision": "approve" | "reject" | "needs_review",
+  "score": number (0-1),
+  "checks": [{ "check": string, "passed": boolean, "note": string }] (3-6 items)
+}`,
+};
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+const isString = (v: unknown): v is string => typeof v === 'string' && v.trim().length > 0;
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const clamp = (v: number, min: number, max: number) => Math.min(max, Math.max(min, v));
+const stringList = (v: unknown): string[] | null =>
+  Array.isArray(v) && v.every(isString) ? v.map(s => s.trim()) : null;
+
+/**
+ * Validate raw (LLM) output against the task type's schema.
+ * Returns a normalized deliverable, or null if required fields are missing.
+ */
+export function parseDeliverable(taskType: TaskType, raw: unknown): TaskDeliverable | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const obj = raw as Record<string, unknown>;
+
+  switch (taskType) {
+    case 'CATALOG': {
+      const p = obj.product as Record<string, unknown> | undefined;
+      if (!p || !isString(p.title) || !isString(p.category) || !isNumber(p.price)) return null;
+      const attributes: Record<string, string> = {};
+      if (p.attributes && typeof p.attributes === 'object') {
+        for (const [k, v] of Object.entries(p.attributes as Record<string, unknown>)) {
+          if (v !== null && v !== undefined) attributes[k] = String(v);
+        }
+      }
+      return {
+        task_type: 'CATALOG',
+        product: {
+          sku: isString(p.sku) ? p.sku : '',
+          title: p.title,
+          brand: isString(p.brand) ? p.brand : '',
+          category: p.category,
+          price: Math.max(0, p.price),
+          currency: isString(p.currency) ? p.currency : 'USD',
+          attributes,
+          description: isString(p.description) ? p.description : '',
+        },
+      };
+    }
+    case 'REVIEW': {
+      const pros = stringList(obj.pros);
+      const cons = stringList(obj.cons);
+      if (!isNumber(obj.rating) || !isString(obj.summary) || !pros || !cons) return null;
+      return {
+        task_type: 'REVIEW',
+        rating: Math.round(clamp(obj.rating, 1, 5) * 10) / 10,
+        summary: obj.summary,
+        pros,
+        cons,
+      };
+    }
+    case 'CURATION': {
+      if (!isString(obj.title) || !Array.isArray(obj.items) || obj.items.length === 0) return null;
+      const items = (obj.items as Record<string, unknown>[])
+        .filter(i => i && isString(i.name))
+        .map((i, idx) => ({
+          rank: isNumber(i.rank) ? i.rank : idx + 1,
+          name: i.name as string,
+          reason: isString(i.reason) ? i.reason : '',
+          score: isNumber(i.score) ? clamp(i.score, 0, 1) : 0,
+        }))
+        .sort((a, b) => a.rank - b.rank)
+        .map((i, idx) => ({ ...i, rank: idx + 1 }));
+      if (items.length === 0) return null;
+      return { task_type: 'CURATION', title: obj.title, items };
+    }
+    case 'SELLER': {
+      const decisions = ['approve', 'reject', 'needs_review'] as const;
+      const decision = decisions.find(d => d === obj.decision);
+      if (!isString(obj.seller_name) || !decision || !Array.isArray(obj.checks)) return null;
+      const checks = (obj.checks as Record<string, unknown>[])
+        .filter(c => c && isString(c.check))
+        .map(c => ({ check: c.check as string, passed: c.passed === true, note: isString(c.note) ? c.note : '' }));
+      return {
+        task_type: 'SELLER',
+        seller_name: obj.seller_name,
+        decision,
+        score: isNumber(obj.score) ? clamp(obj.score, 0, 1) : 0,
+        checks,
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+// =============================================================================
+// OFFLINE STUB
+// =============================================================================
+
+const titleCase = (s: string) => s.replace(/\b\w/g, c => c.toUpperCase());
+
+/**
+ * Subject and category from an input_ref. Handles both generator formats:
+ * "product:electronics:wireless-earbuds-2026" and "Analyze review sentiment [x1y2z3]".
+ */
+export function describeInput(inputRef: string | undefined, taskType: TaskType): { subject: string; category: string } {
+  const ref = (inputRef || '').replace(/\s*\[[^\]]*\]\s*$/, '').trim();
+  const parts = ref.split(':').map(p => p.trim()).filter(Boolean);
+
+  if (parts.length >= 2) {
+    return {
+      subject: titleCase(parts[parts.length - 1].replace(/[-_]+/g, ' ')),
+      category: titleCase((parts.length >= 3 ? parts[parts.length - 2] : parts[0]).replace(/[-_]+/g, ' ')),
+    };
+  }
+  return { subject: ref || `${taskType} task`, category: titleCase(taskType.toLowerCase()) };
+}
+
+const BRANDS = ['Northwind', 'Acme', 'Globex', 'Initech', 'Umbrella', 'Hooli', 'Vandelay', 'Stark'];
+const PROS = [
+  'Strong value for the price', 'Reliable build quality', 'Easy to set up',
+  'Responsive customer support', 'Good battery life', 'Clear documentation',
+  'Fast shipping', 'Consistent performance',
+];
+const CONS = [
+  'Limited color options', 'Packaging could be better', 'Occasional firmware quirks',
+  'Accessories sold separately', 'Average warranty terms', 'Slightly heavier than rivals',
+];
+const SELLER_CHECKS = [
+  'Business registration', 'Tax documentation', 'Inventory verification',
+  'Return policy', 'Fulfillment capacity', 'Customer rating history',
+];
+
+function pickSome<T>(rng: Rng, arr: readonly T[], count: number): T[] {
+  const pool = [...arr];
+  const out: T[] = [];
+  while (out.length < count && pool.length > 0) {
+    out.push(pool.splice(rng.int(0, pool.length), 1)[0]);
+  }
+  return out;
+}
+
+/**
+ * Deterministic deliverable built from input_ref. The same (input_ref, seedKey)
+ * always produces the same output, so offline runs stay replayable.
+ */
+export function buildStubDeliverable(taskType: TaskType, inputRef: string | undefined, seedKey: string = ''): TaskDeliverable {
+  const rng = createRng(parseSeed(`${inputRef ?? ''}:${seedKey}`) ?? 0);
+  const { subject, category } = describeInput(inputRef, taskType);
+
+  switch (taskType) {
+    case 'CATALOG': {
+      const brand = rng.pick(BRANDS);
+      const product: CatalogDeliverable['product'] = {
+        sku: `${category.slice(0, 3).toUpperCase()}-${rng.id(6).toUpperCase()}`,
+        title: `${brand} ${subject}`,
+        brand,
+        category,
+        price: Math.round(rng.float(9, 499) * 100) / 100,
+        currency: 'USD',
+        attributes: {
+          condition: 'new',
+          weight: `${(rng.float(0.1, 5)).toFixed(1)} kg`,
+          warranty: `${rng.int(1, 4)} year`,
+        },
+        description: `${subject} from ${brand}, listed under ${category}.`,
+      };
+      return { task_type: 'CATALOG', product };
+    }
+    case 'REVIEW': {
+      const rating = Math.round(rng.float(2.5, 5) * 10) / 10;
+      const review: ReviewDeliverable = {
+        task_type: 'REVIEW',
+        rating,
+        summary: `${subject}: ${rating >= 4 ? 'well received overall' : 'mixed reception'}, rated ${rating}/5.`,
+        pros: pickSome(rng, PROS, rng.int(2, 4)),
+        cons: pickSome(rng, CONS, rng.int(1, 3)),
+      };
+      return review;
+    }
+    case 'CURATION': {
+      const count = rng.int(3, 6);
+      const scores = Array.from({ length: count }, () => Math.round(rng.float(0.5, 1) * 100) / 100)
+        .sort((a, b) => b - a);
+      const curation: CurationDeliverable = {
+        task_type: 'CURATION',
+        title: subject,
+        items: scores.map((score, i) => ({
+          rank: i + 1,
+          name: `${rng.pick(BRANDS)} ${category} pick ${i + 1}`,
+          reason: `Scores ${score.toFixed(2)} on relevance to ${subject.toLowerCase()}`,
+          score,
+        })),
+      };
+      return curation;
+    }
+    case 'SELLER': {
+      const checks = pickSome(rng, SELLER_CHECKS, rng.int(3, 6)).map(check => {
+        const passed = rng.chance(0.8);
+        return { check, passed, note: passed ? 'Verified' : 'Missing or incomplete' };
+      });
+      const score = Math.round((checks.filter(c => c.passed).length / checks.length) * 100) / 100;
+      const seller: SellerDeliverable = {
+        task_type: 'SELLER',
+        seller_name: `${rng.pick(BRANDS)} ${subject}`,
+        decision: score >= 0.8 ? 'approve' : score >= 0.5 ? 'needs_review' : 'reject',
+        score,
+        checks,
+      };
+      return seller;
+    }
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * Deliverable grading - rubric scores and their effect on reputation
+ *
+ * Rule-based and deterministic: the same deliverable always gets the same
+ * grade, so offline runs stay replayable. Each task type has a rubric of
+ * weighted criteria; relevance to the task input weighs double.
+ */
+
+import type {
+  CatalogDeliverable,
+  CurationDeliverable,
+  QualityCheck,
+  QualityGrade,
+  ReviewDeliverable,
+  SellerDeliverable,
+  TaskDeliverable,
+  TaskType,
+} from '../types';
+import { describeInput } from './deliverables';
+
+/** Reputation scale (stars), same as bid scoring */
+const REP_MAX = 5;
+
+/** Share of the gap to the grade's star value closed per task */
+const REPUTATION_LEARNING_RATE = 0.1;
+
+const ratio = (value: number, target: number) => (target <= 0 ? 1 : Math.min(1, Math.max(0, value / target)));
+const round3 = (v: number) => Math.round(v * 1000) / 1000;
+
+/** Share of the subject's words (3+ letters) that appear in the text */
+function relevance(subject: string, text: string): number {
+  const words = subject.toLowerCase().split(/[^a-z0-9]+/).filter(w => w.length >= 3);
+  if (words.length === 0) return 1;
+  const haystack = text.toLowerCase();
+  return words.filter(w => haystack.includes(w)).length / words.length;
+}
+
+function catalogChecks(d: CatalogDeliverable, subject: string): QualityCheck[] {
+  const p = d.product;
+  return [
+    { criterion: 'relevance', weight: 2, score: relevance(subject, `${p.title} ${p.description}`) },
+    { criterion: 'identifiers', weight: 1, score: (p.sku ? 0.5 : 0) + (p.brand ? 0.5 : 0), note: 'sku and brand' },
+    { criterion: 'attributes', weight: 1, score: ratio(Object.keys(p.attributes).length, 4), note: '4+ attributes' },
+    { criterion: 'description', weight: 1, score: ratio(p.description.length, 60), note: '60+ characters' },
+    { criterion: 'price', weight: 1, score: p.price > 0 ? 1 : 0 },
+  ];
+}
+
+function reviewChecks(d: ReviewDeliverable, subject: string): QualityCheck[] {
+  // A rating should follow the balance of pros and cons
+  const expected = 1 + 4 * (d.pros.length / Math.max(1, d.pros.length + d.cons.length));
+  return [
+    { criterion: 'relevance', weight: 2, score: relevance(subject, d.summary) },
+    {
+      criterion: 'balance', weight: 1,
+      score: 0.5 * ratio(d.pros.length, 3) + 0.5 * ratio(d.cons.length, 2), note: '3+ pros, 2+ cons',
+    },
+    {
+      criterion: 'consistency', weight: 1,
+      score: 1 - Math.min(1, Math.abs(d.rating - expected) / 2), note: 'rating matches pros/cons',
+    },
+    { criterion: 'summary', weight: 1, score: ratio(d.summary.length, 80), note: '80+ characters' },
+  ];
+}
+
+function curationChecks(d: CurationDeliverable, subject: string): QualityCheck[] {
+  const items = d.items;
+  const pairs = Math.max(1, items.length - 1);
+  const ordered = items.slice(1).filter((item, i) => item.score <= items[i].score).length;
+  const distinct = new Set(items.map(i => i.name.toLowerCase())).size;
+  return [
+    { criterion: 'relevance', weight: 2, score: relevance(subject, d.title) },
+    { criterion: 'coverage', weight: 1, score: ratio(items.length, 5), note: '5+ items' },
+    { criterion: 'ordering', weight: 1, score: items.length > 1 ? ordered / pairs : 1, note: 'scores fall with rank' },
+    { criterion: 'reasons', weight: 1, score: ratio(items.filter(i => i.reason).length, items.length) },
+    { criterion: 'distinct', weight: 1, score: ratio(distinct, items.length) },
+  ];
+}
+
+function sellerChecks(d: SellerDeliverable, subject: string): QualityCheck[] {
+  const passRate = d.checks.length > 0 ? d.checks.filter(c => c.passed).length / d.checks.length : 0;
+  const expectedDecision = passRate >= 0.8 ? 'approve' : passRate >= 0.5 ? 'needs_review' : 'reject';
+  return [
+    { criterion: 'relevance', weight: 2, score: relevance(subject, d.seller_name) },
+    { criterion: 'coverage', weight: 1, score: ratio(d.checks.length, 5), note: '5+ checks' },
+    {
+      criterion: 'consistency', weight: 1,
+      score: 0.5 * (d.decision === expectedDecision ? 1 : 0) + 0.5 * (1 - Math.min(1, Math.abs(d.score - passRate))),
+      note: 'decision and score match the checks',
+    },
+    { criterion: 'notes', weight: 1, score: ratio(d.checks.filter(c => c.note).length, d.checks.length) },
+  ];
+}
+
+/**
+ * Grade a deliverable against its task type's rubric
+ */
+export function gradeDeliverable(
+  taskType: TaskType,
+  inputRef: string | undefined,
+  deliverable: TaskDeliverable
+): QualityGrade {
+  const { subject } = describeInput(inputRef, taskType);
+
+  let checks: QualityCheck[];
+  if (deliverable.task_type !== taskType) {
+    checks = [{ criterion: 'task_type', weight: 1, score: 0, note: `expected ${taskType}` }];
+  } else {
+    switch (deliverable.task_type) {
+      case 'CATALOG': checks = catalogChecks(deliverable, subject); break;
+      case 'REVIEW': checks = reviewChecks(deliverable, subject); break;
+      case 'CURATION': checks = curationChecks(deliverable, subject); break;
+      case 'SELLER': checks = sellerChecks(deliverable, subject); break;
+    }
+  }
+
+  checks = checks.map(c => ({ ...c, score: round3(c.score) }));
+  const totalWeight = checks.reduce((sum, c) => sum + c.weight, 0);
+  const score = checks.reduce((sum, c) => sum + c.score * c.weight, 0) / totalWeight;
+
+  return { score: round3(score), checks, grader: 'rules' };
+}
+
+/**
+ * Criteria scoring below 1, as feedback for a revision
+ */
+export function describeShortfalls(grade: QualityGrade): string[] {
+  return grade.checks
+    .filter(c => c.score < 1)
+    .map(c => `${c.criterion}: ${Math.round(c.score * 100)}%${c.note ? ` (${c.note})` : ''}`);
+}
+
+/**
+ * Reputation change for one graded task: moves reputation a fixed share of
+ * the way toward the grade's star value (score 0.9 pulls toward 4.5 stars),
+ * so consistent quality converges instead of drifting to the cap.
+ */
+export function reputationChangeForQuality(currentReputation: number, qualityScore: number): number {
+  const target = Math.min(1, Math.max(0, qualityScore)) * REP_MAX;
+  return round3((target - currentReputation) * REPUTATION_LEARNING_RATE);
+}
@@ -8,13 +8,85 @@
 // Service classes
 export { AgentService, agentService } from './agent/AgentService';
 export { TaskService, taskService } from './task/TaskService';
+export { IntentService, intentService } from './intent/IntentService';
 export { AuctionService, auctionService } from './auction/AuctionService';
 export { BiddingService, biddingService } from './bidding/BiddingService';
 export { EconomyService, economyService } from './economy/EconomyService';
+export {
+  LedgerService,
+  ledgerService,
+  LEDGER_ACCOUNTS,
+  agentAccount,
+  bondAccount,
+  parseAgentAccount,
+  ledgerKey,
+} from './ledger/LedgerService';
+export type {
+  AgentProjection,
+  CounterpartyEntryType,
+  LedgerAuditReport,
+  LedgerDrift,
+  LedgerPost,
+  LedgerRefs,
+} from './ledger/LedgerService';
+export {
+  ReconciliationService,
+  reconciliationService,
+  onChainBalances,
+} from './reconciliation/ReconciliationService';
+export type {
+  BalanceDiscrepancy,
+  ChainBalanceReader,
+  DiscrepancyKind,
+  ReconcileOptions,
+  ReconciliationReport,
+} from './reconciliation/ReconciliationService';
+export { OutboxService, outboxService } from './outbox/OutboxService';
+export type {
+  InvestorEscrowPayload,
+  OutboxOptions,
+  OutboxPayloads,
+  OutboxRunResult,
+  UsdcTransferPayload,
+} from './outbox/OutboxService';
 export { BrainService, brainService } from './brain/BrainService';
 export { MemoryService, memoryService } from './memory/MemoryService';
 export { RoundProcessor, roundProcessor } from './round/RoundProcessor';
 export { ArenaService, arenaService } from './arena/ArenaService';
+export { RuntimeStateService, runtimeStateService } from './runtime/RuntimeStateService';
+export { BrainBudgetService, brainBudgetService, DEFAULT_BRAIN_BUDGET } from './budget/BrainBudgetService';
+export type { BrainBudgetLimits, BudgetDecision, LlmUsageTotals } from './budget/BrainBudgetService';
+export { TaskExecutionService, taskExecutionService, MAX_REVISIONS } from './execution/TaskExecutionService';
+export type { ExecutionOptions, ExecutionResult } from './execution/TaskExecutionService';
+export type { RoundServices } from './round/RoundProcessor';
+
+// Storage: Supabase (default) or in-memory repositories
+export { createServices } from './create-services';
+export type { ServiceSet } from './create-services';
+export {
+  createSupabaseRepositories,
+  createInMemoryRepositories,
+  InMemoryStore,
+  defaultRepositories,
+} from './repositories';
+export type { Repositories, InMemoryAgentInput, LedgerEntry, LedgerEntryType } from './repositories';
+
+// Memory consolidation
+export { DEFAULT_MEMORY_CONSOLIDATION, planConsolidation } from './memory/consolidation';
+export type { MemoryConsolidationPolicy, ConsolidationPlan } from './memory/consolidation';
+export type { MemoryConsolidationResult } from './memory/MemoryService';
+
+// Task deliverables
+export { buildStubDeliverable, parseDeliverable, DELIVERABLE_SCHEMAS } from './execution/deliverables';
+export { gradeDeliverable, reputationChangeForQuality } from './execution/grading';
+
+// Auction mechanisms
+export {
+  createAuctionMechanism,
+  resolveMechanismConfig,
+  DEFAULT_AUCTION_MECHANISM,
+} from './auction/mechanisms';
+export type { AuctionMechanism, ClearingResult, ClearedWinner } from './auction/mechanisms';
 
 // Types
 export * from './types';
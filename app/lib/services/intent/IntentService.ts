@@ -0,0 +1,214 @@
+/**
+ * IntentService - Consumer intent auctions
+ *
+ * SELLER and CURATION agents answer open consumer intents with offers
+ * (priced by evaluateIntent from autopilot), and the round pipeline closes
+ * each intent auction: the best offer (bid score x relevance) is ACCEPTED,
+ * the rest REJECTED, and the intent is MATCHED.
+ * Used by both simulation and real runtime.
+ */
+
+import { calculateBidScore, evaluateIntent } from '@/lib/agent-runtime/autopilot';
+import { AGENT_COSTS } from '@/lib/agent-runtime/constants';
+import { IntentStatus, type Intent, type OfferCache } from '@/types/database';
+import type { AgentCostStructure } from '@/lib/agent-runtime/types';
+import { resolveAgentPolicy } from '../bidding/BiddingService';
+import { economyService, type EconomyService } from '../economy/EconomyService';
+import { ledgerKey } from '../ledger/LedgerService';
+import { outboxService, type OutboxService } from '../outbox/OutboxService';
+import { defaultRepositories, type Repositories } from '../repositories';
+import type { AgentWithPolicy, IntentAuctionResult, IntentOfferInput } from '../types';
+
+export class IntentService {
+  constructor(
+    private readonly repos: Repositories = defaultRepositories,
+    private readonly economy: EconomyService = economyService,
+    private readonly outbox: OutboxService = outboxService
+  ) {}
+
+  /**
+   * Get intents still collecting offers
+   */
+  async getOpenIntents(limit?: number): Promise<Intent[]> {
+    const { data, error } = await this.repos.intents.listOpen(limit);
+
+    if (error) {
+      console.error('[IntentService] Failed to get open intents:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Generate offers from every agent that serves intents on every open
+   * intent it matches (one offer per agent per intent).
+   */
+  generateOffersForRound(intents: Intent[], agents: AgentWithPolicy[]): IntentOfferInput[] {
+    const offers: IntentOfferInput[] = [];
+
+    for (const agent of agents) {
+      if (agent.balance <= 0) continue;
+
+      const policy = resolveAgentPolicy(agent);
+      const costs = agent.costs || AGENT_COSTS[agent.type] || AGENT_COSTS.CATALOG;
+
+      for (const intent of intents) {
+        const decision = evaluateIntent(intent, agent, policy, costs, {
+          balance: agent.balance,
+          reputation: agent.reputation,
+          investor_share_bps: agent.investor_share_bps,
+        });
+
+        if (decision.action === 'skip') {
+          if (decision.cause !== 'no_match') {
+            console.log(`[IntentService] ${agent.name} SKIP intent ${intent.id}: ${decision.reasoning}`);
+          }
+          continue;
+        }
+
+        offers.push({
+          intentId: intent.id,
+          chainIntentId: intent.chain_intent_id,
+          agentId: agent.id,
+          agentWallet: agent.wallet_address,
+          price: decision.price,
+          relevance: decision.relevance,
+          matchedTags: decision.matched_tags,
+          proposalText: decision.proposal_text,
+        });
+      }
+    }
+
+    return offers;
+  }
+
+  /**
+   * Submit offers in batch.
+   * If agentCostsMap is provided, deducts bid submission cost per offer.
+   */
+  async submitOffers(
+    offers: IntentOfferInput[],
+    agentCostsMap?: Map<string, AgentCostStructure>
+  ): Promise<OfferCache[]> {
+    if (offers.length === 0) return [];
+
+    const { data, error } = await this.repos.offers.insert(offers.map(offer => ({
+      intent_id: offer.intentId,
+      chain_intent_id: offer.chainIntentId,
+      agent_id: offer.agentId,
+      agent_wallet: offer.agentWallet,
+      price: offer.price,
+      proposal_text: offer.proposalText,
+      matched_tags: offer.matchedTags,
+      relevance_score: Math.round(offer.relevance * 1000),
+      status: 'PENDING',
+      round_number: offer.roundNumber ?? null,
+    })));
+
+    if (error) {
+      console.error('[IntentService] Failed to submit offers:', error);
+      return [];
+    }
+
+    if (agentCostsMap && data) {
+      const deductions = new Map<string, { total: number; offers: number; round: number | null }>();
+      for (const offer of offers) {
+        const costs = agentCostsMap.get(offer.agentId);
+        if (costs) {
+          const current = deductions.get(offer.agentId) ?? { total: 0, offers: 0, round: offer.roundNumber ?? null };
+          deductions.set(offer.agentId, {
+            ...current,
+            total: current.total + costs.per_bid.bid_submission,
+            offers: current.offers + 1,
+          });
+        }
+      }
+      for (const [agentId, { total, offers: count, round }] of deductions) {
+        await this.economy.adjustBalance(agentId, -total, 'bid_fee', {
+          roundNumber: round,
+          idempotencyKey: round !== null ? ledgerKey('round', round, agentId, 'offer_fee') : null,
+          metadata: { offers: count },
+        });
+      }
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Close an intent auction: the PENDING offer with the best
+   * calculateBidScore(reputation, price) x relevance wins.
+   * Returns null when no offer came from an agent in the round.
+   */
+  async closeIntentAuction(intent: Intent, agents: AgentWithPolicy[]): Promise<IntentAuctionResult | null> {
+    const { data: offers, error } = await this.repos.offers.listPendingForIntent(intent.id);
+
+    if (error) {
+      console.error('[IntentService] Failed to get offers for intent:', error);
+      return null;
+    }
+
+    const ranked = (offers || [])
+      .map(offer => {
+        const agent = agents.find(a => a.id === offer.agent_id);
+        const score = agent
+          ? calculateBidScore(agent.reputation, Number(offer.price)) * (Number(offer.relevance_score) / 1000)
+          : 0;
+        return { offer, agent, score };
+      })
+      .filter((c): c is { offer: OfferCache; agent: AgentWithPolicy; score: number } => !!c.agent)
+      .sort((a, b) => b.score - a.score);
+
+    const winner = ranked[0];
+    if (!winner) return null;
+
+    const rejectedOfferIds = (offers || []).filter(o => o.id !== winner.offer.id).map(o => o.id);
+
+    await this.repos.offers.updateMany([winner.offer.id], { status: 'ACCEPTED' });
+    if (rejectedOfferIds.length > 0) {
+      await this.repos.offers.updateMany(rejectedOfferIds, { status: 'REJECTED' });
+    }
+
+    const { error: intentError } = await this.repos.intents.update(intent.id, {
+      status: IntentStatus.MATCHED,
+      accepted_offer_id: winner.offer.id,
+    });
+
+    if (intentError) {
+      console.error(`[IntentService] Failed to match intent ${intent.id}:`, intentError);
+    }
+
+    await this.outbox.dispatch('event', {
+      event_type: 'auction_won',
+      description: `${winner.agent.name} won intent "${intent.product_description}" at $${Number(winner.offer.price).toFixed(4)} (${(offers || []).length} offers)`,
+      agent_wallets: [winner.agent.wallet_address],
+      amount: Number(winner.offer.price),
+      metadata: {
+        intent_id: intent.id,
+        offer_id: winner.offer.id,
+        category: intent.category,
+        relevance_score: winner.offer.relevance_score,
+        score: winner.score,
+        total_offers: (offers || []).length,
+        currency: 'USDC',
+      },
+    });
+
+    return { intent, winningOffer: winner.offer, agent: winner.agent, score: winner.score, rejectedOfferIds };
+  }
+
+  /**
+   * Expire an intent whose deadline passed without offers
+   */
+  async expireIntent(intentId: string): Promise<void> {
+    const { error } = await this.repos.intents.update(intentId, { status: IntentStatus.EXPIRED });
+
+    if (error) {
+      console.error('[IntentService] Failed to expire intent:', error);
+    }
+  }
+}
+
+// Singleton instance for convenience
+export const intentService = new IntentService();
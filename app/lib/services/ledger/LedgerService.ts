@@ -0,0 +1,349 @@
+/**
+ * LedgerService - double-entry record of agent money movements
+ *
+ * Every balance change is posted as one or more ledger entries (typed, with
+ * debit/credit accounts and the causing round/task/bid/tx). agents.balance
+ * and agents.bonded_balance are projections of the agent accounts: post()
+ * appends the entries and applies them to the agent rows in one atomic
+ * repository call (no read-modify-write). audit() compares the projection
+ * with the ledger and rebuild() rewrites drifted rows from it.
+ *
+ * An entry moves `amount` from credit_account to debit_account, so an agent
+ * account's balance is its debits minus its credits.
+ *
+ * Charges that must happen once carry an idempotency key (ledgerKey('round',
+ * 12, agentId, 'living_cost')); re-posting a known key is a no-op, which is
+ * what makes a round safe to re-run after a partial failure.
+ */
+
+import {
+  defaultRepositories,
+  type LedgerEntry,
+  type LedgerEntryInput,
+  type LedgerEntryType,
+  type LedgerQuery,
+  type LedgerPostResult,
+  type Repositories,
+} from '../repositories';
+
+/** Accounts outside the agents */
+export const LEDGER_ACCOUNTS = {
+  operator: 'external:operator',
+  funding: 'external:funding',
+  llm: 'external:llm',
+  chain: 'external:chain',
+  admin: 'external:admin',
+  costSink: 'sink:costs',
+  platform: 'platform:fees',
+  escrow: 'escrow:investors',
+} as const;
+
+export function agentAccount(agentId: string): string {
+  return `agent:${agentId}`;
+}
+
+export function bondAccount(agentId: string): string {
+  return `agent:${agentId}:bonded`;
+}
+
+/** The agent behind an agent account, null for the other accounts */
+export function parseAgentAccount(account: string): { agentId: string; bonded: boolean } | null {
+  const match = /^agent:([^:]+)(:bonded)?$/.exec(account);
+  return match ? { agentId: match[1], bonded: !!match[2] } : null;
+}
+
+/**
+ * The other side of an agent's entry per type: where an agent's payment
+ * goes, or where money paid to the agent comes from. Bond and partner
+ * entries move between agent accounts and are posted explicitly.
+ */
+const COUNTERPARTY: Record<Exclude<LedgerEntryType, 'partner_payout' | 'bond_lock' | 'bond_release'>, string> = {
+  opening_balance: LEDGER_ACCOUNTS.funding,
+  top_up: LEDGER_ACCOUNTS.funding,
+  revenue: LEDGER_ACCOUNTS.operator,
+  operational_cost: LEDGER_ACCOUNTS.costSink,
+  platform_cut: LEDGER_ACCOUNTS.platform,
+  investor_escrow: LEDGER_ACCOUNTS.escrow,
+  bid_fee: LEDGER_ACCOUNTS.costSink,
+  living_cost: LEDGER_ACCOUNTS.costSink,
+  brain_spend: LEDGER_ACCOUNTS.llm,
+  failure_fee: LEDGER_ACCOUNTS.costSink,
+  bond_forfeit: LEDGER_ACCOUNTS.costSink,
+  chain_sync: LEDGER_ACCOUNTS.chain,
+  adjustment: LEDGER_ACCOUNTS.admin,
+};
+
+export type CounterpartyEntryType = keyof typeof COUNTERPARTY;
+
+/** Idempotency key from its parts: ledgerKey('task', taskId, agentId, 'revenue') */
+export function ledgerKey(...parts: Array<string | number>): string {
+  return parts.join(':');
+}
+
+/** What caused a movement */
+export interface LedgerRefs {
+  roundNumber?: number | null;
+  taskId?: string | null;
+  bidId?: string | null;
+  txHash?: string | null;
+  /** Post at most once per key (see ledgerKey) */
+  idempotencyKey?: string | null;
+  metadata?: Record<string, unknown>;
+}
+
+export interface LedgerPost {
+  posted: LedgerEntry[];
+  /** New available balance of every agent the post touched */
+  balances: Map<string, number>;
+}
+
+export interface AgentProjection {
+  balance: number;
+  bonded_balance: number;
+}
+
+export interface LedgerDrift {
+  agent_id: string;
+  agent_name: string;
+  balance: number;
+  ledger_balance: number;
+  bonded_balance: number;
+  ledger_bonded_balance: number;
+  /** balance - ledger_balance */
+  drift: number;
+  bonded_drift: number;
+}
+
+export interface LedgerAuditReport {
+  checked: number;
+  drifted: LedgerDrift[];
+  total_drift: number;
+  /** Balances of the non-agent accounts (sinks, escrow, external) */
+  system_accounts: Record<string, number>;
+}
+
+/** Differences below this are rounding, not drift */
+const DRIFT_TOLERANCE = 1e-6;
+
+const round6 = (v: number) => Math.round(v * 1e6) / 1e6;
+
+export class LedgerService {
+  constructor(private readonly repos: Repositories = defaultRepositories) {}
+
+  /**
+   * Build an entry (amount rounded to micro-USDC)
+   */
+  entry(
+    type: LedgerEntryType,
+    debitAccount: string,
+    creditAccount: string,
+    amount: number,
+    refs: LedgerRefs = {}
+  ): LedgerEntryInput {
+    return {
+      entry_type: type,
+      debit_account: debitAccount,
+      credit_account: creditAccount,
+      amount: round6(amount),
+      round_number: refs.roundNumber ?? null,
+      task_id: refs.taskId ?? null,
+      bid_id: refs.bidId ?? null,
+      tx_hash: refs.txHash ?? null,
+      idempotency_key: refs.idempotencyKey ?? null,
+      metadata: refs.metadata ?? {},
+    };
+  }
+
+  /**
+   * Entry between an agent and the type's counterparty: a positive amount
+   * pays the agent, a negative one is paid by the agent
+   */
+  agentEntry(agentId: string, type: CounterpartyEntryType, amount: number, refs: LedgerRefs = {}): LedgerEntryInput {
+    return amount >= 0
+      ? this.entry(type, agentAccount(agentId), COUNTERPARTY[type], amount, refs)
+      : this.entry(type, COUNTERPARTY[type], agentAccount(agentId), -amount, refs);
+  }
+
+  /**
+   * Append entries and apply them to the agents they touch, atomically.
+   * Zero amounts, known idempotency keys and uncovered 'require' entries
+   * are skipped. When the post fails nothing is applied and the result is
+   * empty.
+   */
+  async post(entries: LedgerEntryInput[]): Promise<LedgerPost> {
+    const effective = entries.filter(e => e.amount > 0);
+    if (effective.length === 0) return { posted: [], balances: new Map() };
+
+    const { data, error } = await this.repos.ledger.post(effective);
+    if (error || !data) {
+      console.error('[LedgerService] Failed to post entries:', error);
+      await this.repos.events.logError('database', error, {
+        detail: `Ledger post failed (${effective.map(e => `${e.entry_type} $${e.amount}`).join(', ')})`,
+      });
+      return { posted: [], balances: new Map() };
+    }
+
+    return { posted: data.posted, balances: balancesOf(data) };
+  }
+
+  /**
+   * Post one agent/counterparty movement. Returns the agent's new balance
+   * (its current balance when nothing was posted).
+   */
+  async transfer(
+    agentId: string,
+    type: CounterpartyEntryType,
+    amount: number,
+    refs: LedgerRefs = {},
+    limit?: LedgerEntryInput['limit']
+  ): Promise<number> {
+    const entry = this.agentEntry(agentId, type, amount, refs);
+    // Limits only apply to what the agent pays
+    const { balances } = await this.post([amount < 0 && limit ? { ...entry, limit } : entry]);
+    return balances.get(agentId) ?? (await this.currentBalance(agentId));
+  }
+
+  /**
+   * Post one keyed entry ahead of the side effect it pays for (an on-chain
+   * transfer). Returns the entry as posted (its amount limited to what the
+   * payer had) and the new balances, or null when the key was already taken,
+   * there was nothing to take or the post failed. Only a claimed entry may
+   * be paid out, and only its posted amount.
+   */
+  async claim(entry: LedgerEntryInput): Promise<{ entry: LedgerEntry; balances: Map<string, number> } | null> {
+    if (!entry.idempotency_key) {
+      throw new Error(`[LedgerService] Claiming a ${entry.entry_type} entry needs an idempotency key`);
+    }
+    const { posted, balances } = await this.post([entry]);
+    const claimed = posted.find(e => e.idempotency_key === entry.idempotency_key);
+    return claimed ? { entry: claimed, balances } : null;
+  }
+
+  /**
+   * Whether an entry with this idempotency key was already posted. A failed
+   * lookup counts as posted, so callers skip work that mustn't repeat rather
+   * than redo it. Side effects that move money claim() instead.
+   */
+  async hasPosted(idempotencyKey: string): Promise<boolean> {
+    const { data, error } = await this.repos.ledger.existingKeys([idempotencyKey]);
+    if (error) {
+      console.error('[LedgerService] Failed to check idempotency key:', error);
+      return true;
+    }
+    return (data || []).length > 0;
+  }
+
+  async entries(query: LedgerQuery): Promise<LedgerEntry[]> {
+    const { data, error } = await this.repos.ledger.list(query);
+    if (error) {
+      console.error('[LedgerService] Failed to list entries:', error);
+      return [];
+    }
+    return data || [];
+  }
+
+  /**
+   * Balances the ledger implies for each agent with entries
+   */
+  async projections(): Promise<{ agents: Map<string, AgentProjection>; system: Record<string, number> } | null> {
+    const { data, error } = await this.repos.ledger.accountBalances();
+    if (error || !data) {
+      console.error('[LedgerService] Failed to load account balances:', error);
+      return null;
+    }
+
+    const agents = new Map<string, AgentProjection>();
+    const system: Record<string, number> = {};
+    for (const [account, balance] of Object.entries(data)) {
+      const parsed = parseAgentAccount(account);
+      if (!parsed) {
+        system[account] = round6(balance);
+        continue;
+      }
+      const projection = agents.get(parsed.agentId) ?? { balance: 0, bonded_balance: 0 };
+      if (parsed.bonded) projection.bonded_balance = round6(balance);
+      else projection.balance = round6(balance);
+      agents.set(parsed.agentId, projection);
+    }
+    return { agents, system };
+  }
+
+  /**
+   * Compare every agent's stored balances with the ledger
+   */
+  async audit(): Promise<LedgerAuditReport | null> {
+    const projections = await this.projections();
+    const { data: agents, error } = await this.repos.agents.listAll();
+    if (!projections || error || !agents) {
+      if (error) console.error('[LedgerService] Failed to list agents for audit:', error);
+      return null;
+    }
+
+    const drifted: LedgerDrift[] = [];
+    for (const agent of agents) {
+      const ledger = projections.agents.get(agent.id) ?? { balance: 0, bonded_balance: 0 };
+      const drift = round6((agent.balance || 0) - ledger.balance);
+      const bondedDrift = round6((agent.bonded_balance || 0) - ledger.bonded_balance);
+      if (Math.abs(drift) <= DRIFT_TOLERANCE && Math.abs(bondedDrift) <= DRIFT_TOLERANCE) continue;
+      drifted.push({
+        agent_id: agent.id,
+        agent_name: agent.name,
+        balance: agent.balance || 0,
+        ledger_balance: ledger.balance,
+        bonded_balance: agent.bonded_balance || 0,
+        ledger_bonded_balance: ledger.bonded_balance,
+        drift,
+        bonded_drift: bondedDrift,
+      });
+    }
+
+    drifted.sort((a, b) => Math.abs(b.drift) - Math.abs(a.drift));
+    return {
+      checked: agents.length,
+      drifted,
+      total_drift: round6(drifted.reduce((sum, d) => sum + d.drift, 0)),
+      system_accounts: projections.system,
+    };
+  }
+
+  /**
+   * Rewrite drifted agent rows from the ledger (all drifted agents, or only
+   * agentIds). Returns the agents rewritten.
+   */
+  async rebuild(agentIds?: string[]): Promise<LedgerDrift[]> {
+    const report = await this.audit();
+    if (!report) return [];
+
+    const only = agentIds ? new Set(agentIds) : null;
+    const rebuilt: LedgerDrift[] = [];
+    for (const d of report.drifted) {
+      if (only && !only.has(d.agent_id)) continue;
+      const { error } = await this.repos.agents.update(d.agent_id, {
+        balance: d.ledger_balance,
+        bonded_balance: d.ledger_bonded_balance,
+      });
+      if (error) {
+        console.error(`[LedgerService] Failed to rebuild ${d.agent_name}:`, error);
+        continue;
+      }
+      rebuilt.push(d);
+    }
+
+    if (rebuilt.length > 0) {
+      console.log(`[LedgerService] Rebuilt ${rebuilt.length} agent balances from the ledger`);
+    }
+    return rebuilt;
+  }
+
+  private async currentBalance(agentId: string): Promise<number> {
+    const { data: agent } = await this.repos.agents.findById(agentId);
+    return agent?.balance || 0;
+  }
+}
+
+function balancesOf(result: LedgerPostResult): Map<string, number> {
+  return new Map(Object.entries(result.balances).map(([agentId, b]) => [agentId, b.balance]));
+}
+
+// Singleton instance for convenience
+export const ledgerService = new LedgerService();
@@ -1,15 +1,54 @@
 /**
- * MemoryService - Fire-and-forget memory creation
+ * MemoryService - Fire-and-forget memory creation and consolidation
  *
- * Wraps createPersonalMemory() for each event type.
+ * Creates a personal memory for each event type via the memory repository
+ * (Supabase: createPersonalMemory() with an LLM narrative). Memories go
+ * through the outbox, so a failed write is retried instead of dropped.
  * All methods are async but callers should .catch() errors (fire-and-forget).
+ *
+ * consolidate() keeps each agent's memory bounded (see consolidation.ts).
  */
 
-import { createPersonalMemory } from '@/lib/agent-runtime/personal-memory';
-import type { MemoryContext } from '@/lib/agent-runtime/memory-types';
+import { defaultRepositories, type Repositories } from '../repositories';
+import { outboxService, type OutboxService } from '../outbox/OutboxService';
+import type { MemoryContext, PersonalMemoryType } from '@/lib/agent-runtime/memory-types';
 import type { AgentWithPolicy } from '../types';
+import {
+  DEFAULT_MEMORY_CONSOLIDATION,
+  planConsolidation,
+  type MemoryConsolidationPolicy,
+} from './consolidation';
+
+export interface MemoryConsolidationResult {
+  agentId: string;
+  learningsCreated: number;
+  sourcesConsolidated: number;
+  decayed: number;
+  archived: number;
+  active: number;
+}
 
 export class MemoryService {
+  constructor(
+    private readonly repos: Repositories = defaultRepositories,
+    private readonly outbox: OutboxService = outboxService,
+    readonly consolidationPolicy: MemoryConsolidationPolicy = DEFAULT_MEMORY_CONSOLIDATION
+  ) {}
+
+  private async createPersonalMemory(
+    agentId: string,
+    type: PersonalMemoryType,
+    data: Record<string, unknown>,
+    roundNumber: number,
+    context: MemoryContext,
+    triggerContext?: string,
+    importanceScore?: number
+  ): Promise<void> {
+    await this.outbox.dispatch('memory', {
+      agentId, type, data, roundNumber, context, triggerContext, importanceScore,
+    });
+  }
+
   private buildContext(agent: AgentWithPolicy, roundNumber: number): MemoryContext {
     return {
       identity: {
@@ -28,7 +67,7 @@ export class MemoryService {
     bidAmount: number, roundNumber: number, agent: AgentWithPolicy
   ): Promise<void> {
     const context = this.buildContext(agent, roundNumber);
-    await createPersonalMemory(agentId, 'bid_outcome', {
+    await this.createPersonalMemory(agentId, 'bid_outcome', {
       task_id: taskId, task_type: taskType, my_bid: bidAmount, outcome: 'pending',
     }, roundNumber, context, 'Bid submitted');
   }
@@ -38,7 +77,7 @@ export class MemoryService {
     revenue: number, cost: number, roundNumber: number, agent: AgentWithPolicy
   ): Promise<void> {
     const context = this.buildContext(agent, roundNumber);
-    await createPersonalMemory(agentId, 'task_execution', {
+    await this.createPersonalMemory(agentId, 'task_execution', {
       task_id: taskId, task_type: taskType, revenue, cost,
       profit: revenue - cost, margin: revenue > 0 ? ((revenue - cost) / revenue) * 100 : 0,
     }, roundNumber, context, 'Task completed successfully');
@@ -49,7 +88,7 @@ export class MemoryService {
     wasHandled: boolean, roundNumber: number, agent: AgentWithPolicy
   ): Promise<void> {
     const context = this.buildContext(agent, roundNumber);
-    await createPersonalMemory(agentId, 'exception_handled', {
+    await this.createPersonalMemory(agentId, 'exception_handled', {
       exception_type: exceptionType, details, was_handled: wasHandled,
     }, roundNumber, context, `Exception detected: ${exceptionType}`, 0.7);
   }
@@ -59,7 +98,7 @@ export class MemoryService {
     roundNumber: number, agent: AgentWithPolicy
   ): Promise<void> {
     const context = this.buildContext(agent, roundNumber);
-    await createPersonalMemory(agentId, 'qbr_insight', {
+    await this.createPersonalMemory(agentId, 'qbr_insight', {
       trigger_reason: triggerReason, round_number: roundNumber,
     }, roundNumber, context, 'Quarterly Business Review completed', 0.8);
   }
@@ -107,7 +146,7 @@ export class MemoryService {
       ? `Won ${taskType} at $${bidAmount.toFixed(4)}`
       : `Lost ${taskType}. My bid $${bidAmount.toFixed(4)} vs winner ${winnerName || '?'} at $${(winningBidAmount || 0).toFixed(4)}`;
 
-    await createPersonalMemory(agentId, 'bid_outcome', data, roundNumber, context, narrative);
+    await this.createPersonalMemory(agentId, 'bid_outcome', data, roundNumber, context, narrative);
   }
 
   async createPartnershipMemory(
@@ -116,12 +155,99 @@ export class MemoryService {
     reason: string, roundNumber: number, agent: AgentWithPolicy
   ): Promise<void> {
     const context = this.buildContext(agent, roundNumber);
-    await createPersonalMemory(agentId, 'partnership_event', {
+    await this.createPersonalMemory(agentId, 'partnership_event', {
       partner_id: partnerId, partner_name: partnerName,
       event_type: eventType, split, reason,
     }, roundNumber, context, `Partnership ${eventType}: ${partnerName}`,
     eventType === 'formed' ? 0.7 : 0.5);
   }
+
+  /**
+   * Whether the periodic consolidation pass is due this round
+   */
+  isConsolidationDue(roundNumber: number): boolean {
+    return roundNumber > 0 && roundNumber % this.consolidationPolicy.intervalRounds === 0;
+  }
+
+  /**
+   * One consolidation pass for an agent: bid runs become learnings (sources
+   * archived and linked), never-recalled memories decay, and the weakest are
+   * archived down to the cap. A learning whose sources fail to archive is
+   * kept (the sources are retried next pass as a new run).
+   */
+  async consolidate(agentId: string, roundNumber: number): Promise<MemoryConsolidationResult> {
+    const { data: active, error } = await this.repos.memories.listActive(agentId);
+    if (error || !active) {
+      throw new Error(`Failed to load memories for ${agentId}: ${error?.message || 'no data'}`);
+    }
+
+    const plan = planConsolidation(active, roundNumber, this.consolidationPolicy);
+    let sourcesConsolidated = 0;
+
+    for (const learning of plan.learnings) {
+      const { data: inserted, error: insertError } = await this.repos.memories.insertLearning({
+        agentId,
+        roundNumber: learning.roundNumber,
+        data: learning.data,
+        narrative: learning.narrative,
+        triggerContext: learning.triggerContext,
+        importanceScore: learning.importanceScore,
+      });
+      if (insertError || !inserted) {
+        console.error(`[MemoryService] Failed to insert consolidated learning for ${agentId}:`, insertError);
+        continue;
+      }
+      const { error: archiveError } = await this.repos.memories.archive(learning.sourceIds, inserted.id);
+      if (archiveError) {
+        console.error(`[MemoryService] Failed to archive consolidated sources for ${agentId}:`, archiveError);
+        continue;
+      }
+      sourcesConsolidated += learning.sourceIds.length;
+    }
+
+    for (const { id, importance_score } of plan.decayed) {
+      const { error: decayError } = await this.repos.memories.setImportance(id, importance_score);
+      if (decayError) console.error(`[MemoryService] Failed to decay memory ${id}:`, decayError);
+    }
+
+    if (plan.archived.length > 0) {
+      const { error: archiveError } = await this.repos.memories.archive(plan.archived);
+      if (archiveError) console.error(`[MemoryService] Failed to archive memories for ${agentId}:`, archiveError);
+    }
+
+    const result: MemoryConsolidationResult = {
+      agentId,
+      learningsCreated: plan.learnings.length,
+      sourcesConsolidated,
+      decayed: plan.decayed.length,
+      archived: plan.archived.length,
+      active: active.length - sourcesConsolidated - plan.archived.length + plan.learnings.length,
+    };
+    if (result.learningsCreated + result.archived > 0) {
+      console.log(`[MemoryService] Consolidated ${agentId}: ${sourcesConsolidated} bid outcomes -> ${result.learningsCreated} learnings, ${result.decayed} decayed, ${result.archived} archived, ${result.active} active`);
+    }
+    return result;
+  }
+
+  /**
+   * Consolidate several agents; one agent's failure does not stop the rest
+   */
+  async consolidateAll(agentIds: string[], roundNumber: number): Promise<MemoryConsolidationResult[]> {
+    const results: MemoryConsolidationResult[] = [];
+    for (const agentId of agentIds) {
+      try {
+        results.push(await this.consolidate(agentId, roundNumber));
+      } catch (err) {
+        console.error(`[MemoryService] Consolidation failed for ${agentId}:`, err);
+        await this.repos.events.logError('database', err, {
+          round_number: roundNumber,
+          agent_id: agentId,
+          detail: 'Memory consolidation failed',
+        });
+      }
+    }
+    return results;
+  }
 }
 
 export const memoryService = new MemoryService();
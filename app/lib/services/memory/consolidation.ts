@@ -0,0 +1,214 @@
+/**
+ * Memory consolidation - bounded personal memory
+ *
+ * Every bid leaves a bid_outcome memory, so raw logs pile up. A periodic pass
+ * (MemoryService.consolidate):
+ * 1. compresses runs of similar old bid_outcome memories (same task type,
+ *    same outcome, consecutive in time) into one `learning` memory with
+ *    aggregated stats; the sources are archived and linked to it
+ * 2. decays the importance of old memories that were never recalled and
+ *    archives those that fall below the threshold
+ * 3. archives the least important memories past the per-agent cap
+ *
+ * Planning is pure and deterministic; MemoryService applies the plan.
+ */
+
+import type { PersonalMemoryEntry } from '@/lib/agent-runtime/memory-types';
+
+export interface MemoryConsolidationPolicy {
+  /** Run the pass every N rounds */
+  intervalRounds: number;
+  /** Only memories at least this many rounds old are consolidated or decayed */
+  minAgeRounds: number;
+  /** Shortest run of similar bid outcomes worth a learning */
+  minRun: number;
+  /** Longest run folded into a single learning */
+  maxRun: number;
+  /** Importance multiplier per pass for never-recalled memories */
+  decayFactor: number;
+  /** Memories below this importance are archived */
+  archiveBelow: number;
+  /** Active memories kept per agent */
+  maxActive: number;
+}
+
+export const DEFAULT_MEMORY_CONSOLIDATION: MemoryConsolidationPolicy = {
+  intervalRounds: 10,
+  minAgeRounds: 10,
+  minRun: 3,
+  maxRun: 20,
+  decayFactor: 0.85,
+  archiveBelow: 0.15,
+  maxActive: 200,
+};
+
+export interface ConsolidatedLearning {
+  roundNumber: number;
+  data: Record<string, unknown>;
+  narrative: string;
+  triggerContext: string;
+  importanceScore: number;
+  sourceIds: string[];
+}
+
+export interface ConsolidationPlan {
+  learnings: ConsolidatedLearning[];
+  /** New importance for decayed memories that stay active */
+  decayed: Array<{ id: string; importance_score: number }>;
+  /** Decayed below archiveBelow, or over maxActive */
+  archived: string[];
+}
+
+const round2 = (v: number) => Math.round(v * 100) / 100;
+const round4 = (v: number) => Math.round(v * 10000) / 10000;
+const num = (v: unknown) => (typeof v === 'number' && Number.isFinite(v) ? v : null);
+const avg = (values: number[]) => (values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null);
+
+function outcomeOf(m: PersonalMemoryEntry): string {
+  const outcome = m.data?.outcome;
+  if (typeof outcome === 'string') return outcome;
+  return m.data?.won === true ? 'won' : m.data?.won === false ? 'lost' : 'unknown';
+}
+
+/**
+ * Group bid_outcome memories (oldest first) into runs of the same task type
+ * and outcome; a different outcome for that task type ends the run
+ */
+export function findBidRuns(memories: PersonalMemoryEntry[], policy: MemoryConsolidationPolicy): PersonalMemoryEntry[][] {
+  const byTaskType = new Map<string, PersonalMemoryEntry[]>();
+  for (const m of memories) {
+    const taskType = String(m.data?.task_type ?? 'unknown');
+    byTaskType.set(taskType, [...(byTaskType.get(taskType) || []), m]);
+  }
+
+  const runs: PersonalMemoryEntry[][] = [];
+  for (const list of byTaskType.values()) {
+    let current: PersonalMemoryEntry[] = [];
+    const flush = () => {
+      if (current.length >= policy.minRun) runs.push(current);
+      current = [];
+    };
+    for (const m of list) {
+      if (current.length > 0 && (outcomeOf(current[0]) !== outcomeOf(m) || current.length >= policy.maxRun)) flush();
+      current.push(m);
+    }
+    flush();
+  }
+  return runs.sort((a, b) => a[0].round_number - b[0].round_number);
+}
+
+/**
+ * One learning from a run of similar bid outcomes
+ */
+export function summarizeBidRun(run: PersonalMemoryEntry[]): ConsolidatedLearning {
+  const taskType = String(run[0].data?.task_type ?? 'unknown');
+  const outcome = outcomeOf(run[0]);
+  const firstRound = run[0].round_number;
+  const lastRound = run[run.length - 1].round_number;
+
+  const myBids = run.map(m => num(m.data?.my_bid)).filter((v): v is number => v !== null);
+  const winningBids = run.map(m => num(m.data?.winning_bid)).filter((v): v is number => v !== null && v > 0);
+  const winners = new Map<string, number>();
+  for (const m of run) {
+    const name = m.data?.winner_name;
+    if (typeof name === 'string' && name !== 'unknown') winners.set(name, (winners.get(name) || 0) + 1);
+  }
+  const frequentWinner = [...winners.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+
+  const avgMyBid = avg(myBids);
+  const avgWinningBid = avg(winningBids);
+  const gapPct = avgMyBid !== null && avgWinningBid ? ((avgMyBid - avgWinningBid) / avgWinningBid) * 100 : null;
+
+  const rounds = firstRound === lastRound ? `Round ${firstRound}` : `Rounds ${firstRound}-${lastRound}`;
+  const bidRange = myBids.length > 0
+    ? ` My bids averaged $${avgMyBid!.toFixed(4)} ($${Math.min(...myBids).toFixed(4)}-$${Math.max(...myBids).toFixed(4)}).`
+    : '';
+  let lesson: string;
+  if (outcome === 'won') {
+    lesson = avgMyBid !== null ? ` Bids around $${avgMyBid.toFixed(4)} win ${taskType} tasks.` : '';
+  } else if (outcome === 'lost') {
+    const winnerPart = avgWinningBid !== null
+      ? ` Winners averaged $${avgWinningBid.toFixed(4)}${frequentWinner ? `, most often ${frequentWinner}` : ''}.`
+      : '';
+    const gapPart = gapPct !== null && gapPct > 0
+      ? ` I was ${gapPct.toFixed(1)}% above the winning price.`
+      : '';
+    lesson = `${winnerPart}${gapPart}`;
+  } else {
+    lesson = '';
+  }
+
+  return {
+    roundNumber: lastRound,
+    data: {
+      consolidated: true,
+      task_type: taskType,
+      outcome,
+      bids: run.length,
+      first_round: firstRound,
+      last_round: lastRound,
+      avg_my_bid: avgMyBid !== null ? round4(avgMyBid) : null,
+      min_my_bid: myBids.length > 0 ? round4(Math.min(...myBids)) : null,
+      max_my_bid: myBids.length > 0 ? round4(Math.max(...myBids)) : null,
+      avg_winning_bid: avgWinningBid !== null ? round4(avgWinningBid) : null,
+      avg_gap_pct: gapPct !== null ? round2(gapPct) : null,
+      frequent_winner: frequentWinner,
+      source_count: run.length,
+    },
+    narrative: `${rounds}: ${outcome} ${run.length} ${taskType} bids in a row.${bidRange}${lesson}`,
+    triggerContext: `Consolidated ${run.length} bid outcomes`,
+    // Longer runs are stronger evidence; losing streaks matter more than wins
+    importanceScore: round2(Math.min(0.9, 0.4 + 0.03 * run.length + (outcome === 'lost' ? 0.1 : 0))),
+    sourceIds: run.map(m => m.id),
+  };
+}
+
+/**
+ * Plan one consolidation pass over an agent's active memories
+ */
+export function planConsolidation(
+  active: PersonalMemoryEntry[],
+  currentRound: number,
+  policy: MemoryConsolidationPolicy = DEFAULT_MEMORY_CONSOLIDATION
+): ConsolidationPlan {
+  const cutoff = currentRound - policy.minAgeRounds;
+  const isOld = (m: PersonalMemoryEntry) => m.round_number <= cutoff;
+
+  const oldBids = active
+    .filter(m => m.memory_type === 'bid_outcome' && isOld(m) && outcomeOf(m) !== 'pending')
+    .sort((a, b) => a.round_number - b.round_number || a.created_at.localeCompare(b.created_at));
+  const learnings = findBidRuns(oldBids, policy).map(summarizeBidRun);
+  const consolidated = new Set(learnings.flatMap(l => l.sourceIds));
+
+  const decayed: ConsolidationPlan['decayed'] = [];
+  const archived: string[] = [];
+  const remaining: Array<{ id: string; importance: number; round: number }> = [];
+
+  for (const m of active) {
+    if (consolidated.has(m.id)) continue;
+    let importance = Number(m.importance_score);
+    if (isOld(m) && (m.times_recalled || 0) === 0) {
+      importance = round2(importance * policy.decayFactor);
+      if (importance < policy.archiveBelow) {
+        archived.push(m.id);
+        continue;
+      }
+      decayed.push({ id: m.id, importance_score: importance });
+    }
+    remaining.push({ id: m.id, importance, round: m.round_number });
+  }
+
+  // Cap: new learnings count against it and are never archived in the same pass
+  const overflow = remaining.length + learnings.length - policy.maxActive;
+  if (overflow > 0) {
+    const evict = [...remaining]
+      .sort((a, b) => a.importance - b.importance || a.round - b.round)
+      .slice(0, overflow)
+      .map(m => m.id);
+    const evicted = new Set(evict);
+    archived.push(...evict);
+    return { learnings, decayed: decayed.filter(d => !evicted.has(d.id)), archived };
+  }
+
+  return { learnings, decayed, archived };
+}
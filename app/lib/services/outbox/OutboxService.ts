@@ -0,0 +1,342 @@
+/**
+ * OutboxService - Durable delivery of side effects
+ *
+ * Economy events, memories, on-chain transfers and investor escrow updates
+ * are queued as outbox messages before they run, so a failure (or a crash
+ * mid-round) leaves a message to retry instead of a silently dropped write.
+ *
+ * dispatch() queues a message and delivers it right away; retryLater()
+ * queues one whose first attempt already failed inline (on-chain payments
+ * whose tx hash the caller needed). processDue() is the worker: it leases
+ * due messages, retries failures with exponential backoff and marks a
+ * message dead after max_attempts, logging a system_error so it shows up
+ * in the admin error log.
+ *
+ * Delivery is at-least-once, so the handlers that move money are
+ * idempotent: transfers carry a Privy idempotency key and record their tx
+ * hash on the message, and escrow increments are keyed by the message.
+ */
+
+import {
+  defaultRepositories,
+  type EventRecord,
+  type NewPersonalMemory,
+  type OutboxKind,
+  type OutboxMessage,
+  type OutboxStatus,
+  type Repositories,
+} from '../repositories';
+
+/** An on-chain USDC payment out of an agent's Privy wallet */
+export interface UsdcTransferPayload {
+  to: 'cost_sink' | 'escrow' | 'wallet';
+  /** Recipient when to = 'wallet' */
+  to_wallet?: string | null;
+  wallet_id: string;
+  agent_id: string;
+  amount: number;
+  /** What the payment is for (operational_cost, living_cost, ...) */
+  purpose: string;
+  task_id?: string | null;
+  round_number?: number | null;
+}
+
+export interface InvestorEscrowPayload {
+  agent_id: string;
+  investor_wallet: string;
+  amount: number;
+  task_id?: string | null;
+}
+
+export interface OutboxPayloads {
+  event: EventRecord;
+  memory: NewPersonalMemory;
+  usdc_transfer: UsdcTransferPayload;
+  investor_escrow: InvestorEscrowPayload;
+}
+
+export interface OutboxOptions {
+  /** Queue at most once per key */
+  dedupeKey?: string;
+  maxAttempts?: number;
+}
+
+export interface OutboxRunResult {
+  processed: number;
+  succeeded: number;
+  retried: number;
+  dead: number;
+}
+
+type Handler<K extends OutboxKind> = (
+  payload: OutboxPayloads[K],
+  repos: Repositories,
+  /** The leased message; null when the outbox couldn't be written */
+  message: OutboxMessage | null
+) => Promise<Record<string, unknown> | void>;
+
+/** What a usdc_transfer message records about its sends (message.result) */
+interface TransferAttempt {
+  tx_hash: string | null;
+  /** Sends that were mined and reverted; each new send gets a fresh key */
+  reverted: number;
+}
+
+/**
+ * Privy idempotency key for a transfer. The first send uses the message's
+ * dedupe key, which is also the key of the caller's inline attempt, so a
+ * send that broadcast but threw is replayed rather than sent again.
+ */
+function transferKey(message: OutboxMessage, reverted: number): string {
+  const key = message.dedupe_key ?? `outbox:${message.id}`;
+  return reverted > 0 ? `${key}:resend:${reverted}` : key;
+}
+
+function withTimeout<T>(work: Promise<T>, ms: number, what: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`${what} timed out after ${ms}ms`)), ms);
+  });
+  return Promise.race([work, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Deliver one message; throwing means "retry later"
+ */
+const HANDLERS: { [K in OutboxKind]: Handler<K> } = {
+  async event(event, repos) {
+    const { error } = await repos.events.create(event);
+    if (error) throw new Error(errorMessage(error));
+  },
+
+  async memory(memory, repos) {
+    const created = await repos.memories.create(memory);
+    if (!created) throw new Error(`${memory.type} memory for ${memory.agentId} was not created`);
+    return { memory_id: created.id };
+  },
+
+  /**
+   * At most one successful payment per message: a tx hash recorded by an
+   * earlier attempt is checked on chain first, and only a reverted one is
+   * sent again (under a new key). A send that threw before its hash was
+   * recorded is retried under the same key, which Privy replays.
+   */
+  async usdc_transfer(transfer, repos, message) {
+    // Loaded lazily: privy-server needs Privy env vars, which DB-only runs don't have
+    const chain = await import('@/lib/privy-server');
+    const previous = (message?.result ?? null) as TransferAttempt | null;
+    let reverted = previous?.reverted ?? 0;
+
+    if (previous?.tx_hash) {
+      const outcome = await withTimeout(chain.getTransactionOutcome(previous.tx_hash), TRANSFER_TIMEOUT_MS, 'Receipt check');
+      if (outcome === 'success') return { tx_hash: previous.tx_hash, reverted };
+      // A dropped tx stays pending until the message goes dead and someone looks at it
+      if (outcome === 'pending') throw new Error(`Transfer ${previous.tx_hash} is not mined yet`);
+      reverted++;
+    }
+
+    const key = message ? transferKey(message, reverted) : undefined;
+    const send = async (): Promise<string | null> => {
+      if (transfer.to === 'escrow') {
+        const result = await chain.depositToEscrow(transfer.wallet_id, transfer.amount, transfer.agent_id, key);
+        if (!result.success) throw new Error(result.error || 'Escrow deposit failed');
+        return result.txHash ?? null;
+      }
+      const result = transfer.to === 'wallet'
+        ? await chain.sendUsdcFromAgent(transfer.wallet_id, transfer.to_wallet!, transfer.amount, key)
+        : await chain.payOperationalCostToSink(transfer.wallet_id, transfer.amount, key);
+      return result.transaction_hash;
+    };
+    const attempt: TransferAttempt = {
+      tx_hash: await withTimeout(send(), TRANSFER_TIMEOUT_MS, `${transfer.purpose} transfer`),
+      reverted,
+    };
+    // Saved before the receipt matters: if completing the message fails, the retry checks this hash
+    if (message && attempt.tx_hash) {
+      const { error } = await repos.outbox.recordResult(message.id, { ...attempt });
+      if (error) console.error(`[OutboxService] Failed to record tx ${attempt.tx_hash} on ${message.id}:`, error);
+    }
+    return { ...attempt };
+  },
+
+  async investor_escrow(update, repos, message) {
+    // Same key as the caller's inline attempt (the dedupe key), so a retry never adds the share twice
+    const key = message ? message.dedupe_key ?? `outbox:${message.id}` : null;
+    const { error } = await repos.escrow.incrementInvestorEscrow(update.agent_id, update.investor_wallet, update.amount, key);
+    if (error) throw new Error(errorMessage(error));
+  },
+};
+
+const DEFAULT_MAX_ATTEMPTS = 8;
+/** Retry delay: BASE_RETRY_MS * 2^(attempt - 1), capped */
+const BASE_RETRY_MS = 5_000;
+const MAX_RETRY_MS = 30 * 60_000;
+/** Longest a transfer (or its receipt check) may take before the attempt counts as failed */
+const TRANSFER_TIMEOUT_MS = 60_000;
+/**
+ * How long a claimed message is leased before another worker may take it.
+ * Messages are leased one at a time, so this only has to outlast a single
+ * delivery: well above TRANSFER_TIMEOUT_MS (receipt check plus send).
+ */
+const LEASE_MS = 10 * 60_000;
+
+function errorMessage(err: unknown): string {
+  if (err instanceof Error) return err.message;
+  if (err && typeof err === 'object' && 'message' in err) return String((err as { message: unknown }).message);
+  return String(err);
+}
+
+function retryDelayMs(attempts: number): number {
+  return Math.min(MAX_RETRY_MS, BASE_RETRY_MS * 2 ** Math.max(0, attempts - 1));
+}
+
+export class OutboxService {
+  constructor(private readonly repos: Repositories = defaultRepositories) {}
+
+  /**
+   * Queue a side effect and deliver it now. Never throws: a failed delivery
+   * stays queued for processDue(). When the outbox itself can't be written
+   * the side effect is still attempted once.
+   */
+  async dispatch<K extends OutboxKind>(kind: K, payload: OutboxPayloads[K], options: OutboxOptions = {}): Promise<void> {
+    const { data: queued, error } = await this.repos.outbox.enqueue([{
+      kind,
+      payload: payload as unknown as Record<string, unknown>,
+      dedupe_key: options.dedupeKey ?? null,
+      max_attempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+    }]);
+
+    if (error || !queued) {
+      console.error(`[OutboxService] Failed to queue ${kind}; delivering without retry:`, error);
+      try {
+        await (HANDLERS[kind] as Handler<K>)(payload, this.repos, null);
+      } catch (err) {
+        console.error(`[OutboxService] Unqueued ${kind} failed:`, err);
+      }
+      return;
+    }
+    // Already queued under this dedupe key
+    if (queued.length === 0) return;
+
+    for (const { id } of queued) {
+      const { data: claimed } = await this.repos.outbox.claim(1, LEASE_MS, [id]);
+      if (claimed?.[0]) await this.deliver(claimed[0]);
+    }
+  }
+
+  /**
+   * Queue a side effect whose first attempt already failed; the worker
+   * retries it after the first backoff delay
+   */
+  async retryLater<K extends OutboxKind>(
+    kind: K,
+    payload: OutboxPayloads[K],
+    lastError: unknown,
+    options: OutboxOptions = {}
+  ): Promise<void> {
+    const { error } = await this.repos.outbox.enqueue([{
+      kind,
+      payload: payload as unknown as Record<string, unknown>,
+      dedupe_key: options.dedupeKey ?? null,
+      max_attempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+      next_attempt_at: new Date(Date.now() + retryDelayMs(1)).toISOString(),
+    }]);
+    if (error) {
+      console.error(`[OutboxService] Failed to queue ${kind} retry (${errorMessage(lastError)}):`, error);
+      await this.repos.events.logError('database', error, {
+        detail: `Outbox retry for ${kind} could not be queued after: ${errorMessage(lastError)}`,
+      });
+    }
+  }
+
+  /**
+   * Worker: deliver up to `limit` due messages
+   */
+  async processDue(limit: number = 50): Promise<OutboxRunResult> {
+    const result: OutboxRunResult = { processed: 0, succeeded: 0, retried: 0, dead: 0 };
+    // One lease per message, taken just before its delivery, so a slow transfer can't outlive the lease of the next
+    while (result.processed < limit) {
+      const { data: claimed, error } = await this.repos.outbox.claim(1, LEASE_MS);
+      if (error) {
+        console.error('[OutboxService] Failed to claim messages:', error);
+        break;
+      }
+      const message = claimed?.[0];
+      if (!message) break;
+
+      const status = await this.deliver(message);
+      result.processed++;
+      if (status === 'done') result.succeeded++;
+      else if (status === 'dead') result.dead++;
+      else result.retried++;
+    }
+
+    if (result.processed > 0) {
+      console.log(
+        `[OutboxService] Processed ${result.processed}: ${result.succeeded} delivered, ` +
+        `${result.retried} retrying, ${result.dead} dead`
+      );
+    }
+    return result;
+  }
+
+  async counts(): Promise<Record<OutboxStatus, number> | null> {
+    const { data, error } = await this.repos.outbox.counts();
+    if (error) {
+      console.error('[OutboxService] Failed to count messages:', error);
+      return null;
+    }
+    return data;
+  }
+
+  async list(status: OutboxStatus[], limit: number = 100): Promise<OutboxMessage[]> {
+    const { data, error } = await this.repos.outbox.list({ status, limit });
+    if (error) {
+      console.error('[OutboxService] Failed to list messages:', error);
+      return [];
+    }
+    return data || [];
+  }
+
+  /**
+   * Give dead messages another max_attempts tries
+   */
+  async revive(ids: string[]): Promise<number> {
+    if (ids.length === 0) return 0;
+    const { data, error } = await this.repos.outbox.revive(ids);
+    if (error) {
+      console.error('[OutboxService] Failed to revive messages:', error);
+      return 0;
+    }
+    return data ?? 0;
+  }
+
+  private async deliver(message: OutboxMessage): Promise<OutboxStatus> {
+    const handler = HANDLERS[message.kind] as Handler<OutboxKind>;
+    try {
+      const output = await handler(message.payload as unknown as OutboxPayloads[OutboxKind], this.repos, message);
+      await this.repos.outbox.complete(message.id, output || null);
+      return 'done';
+    } catch (err) {
+      const reason = errorMessage(err).slice(0, 500);
+      if (message.attempts < message.max_attempts) {
+        const retryAt = new Date(Date.now() + retryDelayMs(message.attempts)).toISOString();
+        await this.repos.outbox.fail(message.id, reason, retryAt);
+        console.warn(`[OutboxService] ${message.kind} ${message.id} failed (attempt ${message.attempts}/${message.max_attempts}): ${reason}`);
+        return 'pending';
+      }
+
+      await this.repos.outbox.fail(message.id, reason, null);
+      console.error(`[OutboxService] ${message.kind} ${message.id} dead after ${message.attempts} attempts: ${reason}`);
+      const agentId = (message.payload.agent_id ?? message.payload.agentId) as string | undefined;
+      await this.repos.events.logError(message.kind === 'usdc_transfer' ? 'payment' : 'database', err, {
+        agent_id: agentId,
+        detail: `Outbox ${message.kind} ${message.id} dead after ${message.attempts} attempts`,
+      });
+      return 'dead';
+    }
+  }
+}
+
+// Singleton instance for convenience
+export const outboxService = new OutboxService();
@@ -3,6 +3,7 @@
  */
 
 import { supabase } from '@/lib/supabase';
+import { defaultRng, type Rng } from '@/lib/random';
 
 // ============================================================================
 // TYPES
@@ -48,8 +49,9 @@ export interface PredictionProfile {
 
 /**
  * Auto-generate prediction questions based on current agent states.
+ * Pass a seeded rng to make the agent picked for Q5 reproducible.
  */
-export async function generateQuestions(roundNumber: number): Promise<PredictionQuestion[]> {
+export async function generateQuestions(roundNumber: number, rng: Rng = defaultRng): Promise<PredictionQuestion[]> {
   // Get active agents
   const { data: agents } = await supabase
     .from('agents')
@@ -107,7 +109,7 @@ export async function generateQuestions(roundNumber: number): Promise<Prediction
   });
 
   // Q5: Specific agent balance direction
-  const randomAgent = agents[Math.floor(Math.random() * Math.min(agents.length, 4))];
+  const randomAgent = agents[rng.int(0, Math.min(agents.length, 4))];
   questions.push({
     id: `q5_r${roundNumber}`,
     text: `Will ${randomAgent.name}'s balance increase or decrease?`,
@@ -126,7 +128,7 @@ export class PredictionService {
   /**
    * Get or create prediction round for the next round.
    */
-  async getOrCreatePredictionRound(roundNumber: number): Promise<PredictionRound> {
+  async getOrCreatePredictionRound(roundNumber: number, rng: Rng = defaultRng): Promise<PredictionRound> {
     // Check existing
     const { data: existing } = await supabase
       .from('prediction_rounds')
@@ -144,7 +146,7 @@ export class PredictionService {
     }
 
     // Generate questions
-    const questions = await generateQuestions(roundNumber);
+    const questions = await generateQuestions(roundNumber, rng);
 
     const { data: created, error } = await supabase
       .from('prediction_rounds')
@@ -0,0 +1,342 @@
+/**
+ * ReconciliationService - DB vs ledger vs chain balance reconciliation
+ *
+ * For every agent with a real wallet it compares three numbers: the stored
+ * balance (agents.balance), the balance the ledger implies from recorded
+ * movements, and the on-chain USDC balance net of bid bonds (bonds stay in
+ * the wallet). It also compares the escrow wallet with what investors can
+ * still claim.
+ *
+ * Each discrepancy is classified and gets a proposed correction:
+ * - projection_drift: agents.balance disagrees with the ledger -> rebuild
+ *   the row from the ledger
+ * - failed_payment: the wallet holds more than the ledger and payments from
+ *   it failed (system_error events) -> chain_sync entry returning the
+ *   charge the wallet never paid
+ * - external_deposit: the wallet holds more than the ledger, no failures
+ *   -> top_up entry
+ * - missed_transfer: the wallet holds less than the ledger (money left it,
+ *   or never arrived, without a ledger entry) -> chain_sync entry
+ *
+ * Payments queued in the outbox for retry are booked but still in the
+ * wallet; they count as paid so the retry isn't corrected away as well.
+ *
+ * Corrections are proposals until reconcile() is asked to apply them.
+ */
+
+import { isAddress } from 'viem';
+import {
+  defaultRepositories,
+  type LedgerEntryInput,
+  type Repositories,
+  type SystemErrorEvent,
+} from '../repositories';
+import type { UsdcTransferPayload } from '../outbox/OutboxService';
+import { ledgerService as defaultLedgerService, type LedgerService, LEDGER_ACCOUNTS, agentAccount } from '../ledger/LedgerService';
+
+export type DiscrepancyKind = 'projection_drift' | 'failed_payment' | 'external_deposit' | 'missed_transfer';
+
+export interface BalanceDiscrepancy {
+  kind: DiscrepancyKind;
+  /** null for the escrow wallet */
+  agent_id: string | null;
+  name: string;
+  db_balance: number;
+  ledger_balance: number;
+  /** Wallet USDC net of bonded funds (escrow: the wallet balance) */
+  chain_balance: number | null;
+  /** Booked payments still queued in the outbox (already left out of difference) */
+  queued_payments: number;
+  /** projection_drift: db - ledger; otherwise chain - ledger (escrow: chain - claimable) */
+  difference: number;
+  /** Payment / blockchain errors logged for the agent in the window */
+  failed_payments: Array<Pick<SystemErrorEvent, 'id' | 'created_at' | 'round_number'> & { detail: string }>;
+  /** Ledger entry that would correct it (projection_drift rebuilds instead) */
+  correction: LedgerEntryInput | null;
+  note: string;
+  applied: boolean;
+}
+
+export interface ReconciliationReport {
+  checked_at: string;
+  /** Failed payments are looked up from here on */
+  since: string;
+  agents_checked: number;
+  /** Agents whose wallet couldn't be read */
+  unreadable: string[];
+  escrow: { chain_balance: number; claimable: number; difference: number } | null;
+  discrepancies: BalanceDiscrepancy[];
+  applied: number;
+}
+
+export interface ReconcileOptions {
+  /** Kinds whose corrections are applied (default: none, report only) */
+  apply?: DiscrepancyKind[];
+  /** Only these agents (default: all) */
+  agentIds?: string[];
+  /** Failed payment window (default: FAILED_PAYMENT_WINDOW_MS ago) */
+  since?: Date;
+}
+
+/**
+ * Reads on-chain USDC balances. Injected so offline runs don't touch the chain.
+ */
+export interface ChainBalanceReader {
+  /** USDC per wallet (lowercased address); wallets that couldn't be read are missing */
+  usdcBalances(wallets: string[]): Promise<Map<string, number>>;
+  /** Escrow wallet USDC, null when it couldn't be read */
+  escrowBalance(): Promise<number | null>;
+}
+
+export const onChainBalances: ChainBalanceReader = {
+  async usdcBalances(wallets) {
+    const { readUsdcBalances } = await import('@/lib/chain-sync/processors/usdc-balance');
+    return readUsdcBalances(wallets);
+  },
+  async escrowBalance() {
+    try {
+      const { getEscrowBalance } = await import('@/lib/privy-server');
+      return await getEscrowBalance();
+    } catch (err) {
+      console.error('[ReconciliationService] Failed to read escrow balance:', err);
+      return null;
+    }
+  },
+};
+
+/** Differences up to this are rounding / timing noise */
+const RECONCILE_THRESHOLD = 0.0001;
+const FAILED_PAYMENT_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+const round6 = (v: number) => Math.round(v * 1e6) / 1e6;
+
+const NOTES: Record<Exclude<DiscrepancyKind, 'projection_drift'>, string> = {
+  failed_payment: 'Wallet holds more than the ledger and payments from it failed; the charge was booked but never paid',
+  external_deposit: 'Wallet holds more than the ledger with no failed payments; treated as a deposit',
+  missed_transfer: 'Wallet holds less than the ledger; a transfer happened (or revenue never arrived) without a ledger entry',
+};
+
+export class ReconciliationService {
+  constructor(
+    private readonly repos: Repositories = defaultRepositories,
+    private readonly ledger: LedgerService = defaultLedgerService,
+    private readonly chain: ChainBalanceReader = onChainBalances
+  ) {}
+
+  /**
+   * Compare DB, ledger and chain balances, classify each discrepancy and
+   * apply the corrections of the kinds in options.apply
+   */
+  async reconcile(options: ReconcileOptions = {}): Promise<ReconciliationReport | null> {
+    const since = (options.since ?? new Date(Date.now() - FAILED_PAYMENT_WINDOW_MS)).toISOString();
+    const report: ReconciliationReport = {
+      checked_at: new Date().toISOString(),
+      since,
+      agents_checked: 0,
+      unreadable: [],
+      escrow: null,
+      discrepancies: [],
+      applied: 0,
+    };
+
+    const projections = await this.ledger.projections();
+    const { data: allAgents, error: agentsError } = await this.repos.agents.listAll();
+    if (!projections || agentsError || !allAgents) {
+      if (agentsError) console.error('[ReconciliationService] Failed to list agents:', agentsError);
+      return null;
+    }
+    const only = options.agentIds ? new Set(options.agentIds) : null;
+    const agents = allAgents.filter(a => !only || only.has(a.id));
+
+    const { data: errors, error: errorsError } = await this.repos.events.listErrors({
+      since, sources: ['payment', 'blockchain'],
+    });
+    if (errorsError) {
+      console.error('[ReconciliationService] Failed to load payment errors:', errorsError);
+    }
+    const failuresByAgent = new Map<string, SystemErrorEvent[]>();
+    for (const e of errors || []) {
+      if (!e.metadata.agent_id) continue;
+      failuresByAgent.set(e.metadata.agent_id, [...(failuresByAgent.get(e.metadata.agent_id) || []), e]);
+    }
+
+    const queuedByAgent = await this.queuedPayments();
+
+    const wallets = agents.filter(a => a.wallet_address && isAddress(a.wallet_address));
+    const chainBalances = wallets.length > 0
+      ? await this.chain.usdcBalances(wallets.map(a => a.wallet_address!))
+      : new Map<string, number>();
+
+    for (const agent of agents) {
+      report.agents_checked++;
+      const ledger = projections.agents.get(agent.id) ?? { balance: 0, bonded_balance: 0 };
+      const dbBalance = round6(agent.balance || 0);
+      const base = {
+        agent_id: agent.id,
+        name: agent.name,
+        db_balance: dbBalance,
+        ledger_balance: ledger.balance,
+        applied: false,
+      };
+
+      const drift = round6(dbBalance - ledger.balance);
+      if (Math.abs(drift) > RECONCILE_THRESHOLD) {
+        report.discrepancies.push({
+          ...base,
+          kind: 'projection_drift',
+          chain_balance: null,
+          queued_payments: 0,
+          difference: drift,
+          failed_payments: [],
+          correction: null,
+          note: 'Stored balance disagrees with the ledger; rebuild the row from the ledger',
+        });
+      }
+
+      if (!wallets.includes(agent)) continue;
+      const wallet = chainBalances.get(agent.wallet_address!.toLowerCase());
+      if (wallet === undefined) {
+        report.unreadable.push(agent.name);
+        continue;
+      }
+
+      const chainBalance = round6(Math.max(0, wallet - ledger.bonded_balance));
+      const queued = round6(queuedByAgent.get(agent.id) ?? 0);
+      const difference = round6(chainBalance - queued - ledger.balance);
+      if (Math.abs(difference) <= RECONCILE_THRESHOLD) continue;
+
+      const failures = failuresByAgent.get(agent.id) || [];
+      const kind: DiscrepancyKind = difference < 0
+        ? 'missed_transfer'
+        : failures.length > 0 ? 'failed_payment' : 'external_deposit';
+      report.discrepancies.push({
+        ...base,
+        kind,
+        chain_balance: chainBalance,
+        queued_payments: queued,
+        difference,
+        failed_payments: failures.map(e => ({
+          id: e.id,
+          created_at: e.created_at,
+          round_number: e.round_number,
+          detail: e.metadata.detail || e.metadata.error_message,
+        })),
+        correction: this.correctionFor(agent.id, kind, difference, {
+          wallet_balance: wallet,
+          failed_payment_events: failures.map(e => e.id),
+        }),
+        note: NOTES[kind],
+      });
+    }
+
+    if (!only) {
+      report.escrow = await this.reconcileEscrow(report.discrepancies);
+    }
+
+    if (options.apply && options.apply.length > 0) {
+      report.applied = await this.applyCorrections(report.discrepancies, new Set(options.apply));
+    }
+
+    console.log(
+      `[ReconciliationService] Checked ${report.agents_checked} agents: ${report.discrepancies.length} discrepancies` +
+      (report.applied > 0 ? `, ${report.applied} corrected` : '')
+    );
+    return report;
+  }
+
+  /**
+   * USDC per agent in payments the outbox still has to make (pending or
+   * in flight; dead ones won't go out unless revived)
+   */
+  private async queuedPayments(): Promise<Map<string, number>> {
+    const queued = new Map<string, number>();
+    const { data, error } = await this.repos.outbox.list({
+      status: ['pending', 'processing'], kind: 'usdc_transfer', limit: 10_000,
+    });
+    if (error) {
+      console.error('[ReconciliationService] Failed to load queued payments:', error);
+    }
+    for (const message of data || []) {
+      const transfer = message.payload as unknown as UsdcTransferPayload;
+      queued.set(transfer.agent_id, (queued.get(transfer.agent_id) ?? 0) + transfer.amount);
+    }
+    return queued;
+  }
+
+  private correctionFor(
+    agentId: string,
+    kind: DiscrepancyKind,
+    difference: number,
+    metadata: Record<string, unknown>
+  ): LedgerEntryInput {
+    const refs = { metadata: { ...metadata, reconciliation: kind } };
+    if (kind === 'external_deposit') {
+      return this.ledger.entry('top_up', agentAccount(agentId), LEDGER_ACCOUNTS.funding, difference, refs);
+    }
+    const entry = this.ledger.agentEntry(agentId, 'chain_sync', difference, refs);
+    return difference < 0 ? { ...entry, limit: 'clamp' } : entry;
+  }
+
+  /**
+   * Escrow wallet vs what investors can claim. Reported without a ledger
+   * correction: investor claims live in investor_escrow, not the ledger.
+   */
+  private async reconcileEscrow(
+    discrepancies: BalanceDiscrepancy[]
+  ): Promise<ReconciliationReport['escrow']> {
+    const chainBalance = await this.chain.escrowBalance();
+    const { data: claimable, error } = await this.repos.escrow.outstandingTotal();
+    if (chainBalance === null || error || claimable === null) {
+      if (error) console.error('[ReconciliationService] Failed to total investor escrow:', error);
+      return null;
+    }
+
+    const difference = round6(chainBalance - claimable);
+    if (Math.abs(difference) > RECONCILE_THRESHOLD) {
+      discrepancies.push({
+        kind: difference < 0 ? 'missed_transfer' : 'external_deposit',
+        agent_id: null,
+        name: 'Investor escrow',
+        db_balance: claimable,
+        ledger_balance: claimable,
+        chain_balance: chainBalance,
+        queued_payments: 0,
+        difference,
+        failed_payments: [],
+        correction: null,
+        note: difference < 0
+          ? 'Escrow wallet holds less than investors can claim (missed escrow deposits?); fund it manually'
+          : 'Escrow wallet holds more than investors can claim',
+        applied: false,
+      });
+    }
+    return { chain_balance: chainBalance, claimable, difference };
+  }
+
+  private async applyCorrections(discrepancies: BalanceDiscrepancy[], kinds: Set<DiscrepancyKind>): Promise<number> {
+    let applied = 0;
+
+    const drifted = discrepancies.filter(d => d.kind === 'projection_drift' && kinds.has(d.kind) && d.agent_id);
+    if (drifted.length > 0) {
+      const rebuilt = new Set((await this.ledger.rebuild(drifted.map(d => d.agent_id!))).map(r => r.agent_id));
+      for (const d of drifted) {
+        d.applied = rebuilt.has(d.agent_id!);
+        if (d.applied) applied++;
+      }
+    }
+
+    for (const d of discrepancies) {
+      if (!d.correction || !kinds.has(d.kind)) continue;
+      const { posted } = await this.ledger.post([d.correction]);
+      d.applied = posted.length > 0;
+      if (d.applied) {
+        applied++;
+        console.log(`[ReconciliationService] ${d.name}: ${d.kind} corrected by $${d.difference.toFixed(6)}`);
+      }
+    }
+    return applied;
+  }
+}
+
+// Singleton instance for convenience
+export const reconciliationService = new ReconciliationService();
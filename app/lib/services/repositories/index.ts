@@ -0,0 +1,15 @@
+/**
+ * Repositories - storage backends for the services layer
+ *
+ * defaultRepositories (Supabase) backs the singleton services.
+ * Pass createInMemoryRepositories() to createServices() to run offline.
+ */
+
+import { createSupabaseRepositories } from './supabase';
+
+export { createSupabaseRepositories } from './supabase';
+export { createInMemoryRepositories, InMemoryStore } from './memory';
+export type { InMemoryAgentInput, StoredEvent } from './memory';
+export type * from './types';
+
+export const defaultRepositories = createSupabaseRepositories();
@@ -0,0 +1,835 @@
+/**
+ * In-memory repositories - offline storage
+ *
+ * Backs the services with plain Maps so RoundProcessor can run without
+ * Supabase (vitest, CLI, batch experiments). Ids are sequential
+ * ("task-1", "bid-7") so seeded runs produce identical ids.
+ *
+ * The store is public: callers seed agents/policies before a run and read
+ * bids, events and memories back afterwards.
+ */
+
+import {
+  AgentStatus,
+  AgentType,
+  IntentStatus,
+  type Agent,
+  type AgentPersonality,
+  type Intent,
+  type OfferCache,
+  type PartnershipCache,
+  type ReputationHistory,
+} from '@/types/database';
+import { diffPolicies } from '@/lib/agent-runtime/policy-history';
+import type { AgentPolicy, AgentRuntimeState, PolicyVersion } from '@/lib/agent-runtime/types';
+import type { PersonalMemoryEntry } from '@/lib/agent-runtime/memory-types';
+import type { Bid, StoredDeliverable, Task } from '../types';
+import type {
+  EscrowDepositRecord,
+  EventRecord,
+  ExceptionRecord,
+  LedgerEntry,
+  OutboxMessage,
+  OutboxStatus,
+  PolicyRecord,
+  Repositories,
+  RepoResult,
+  StoredLlmUsage,
+  SystemErrorEvent,
+  TokenHolding,
+} from './types';
+
+export interface StoredEvent extends EventRecord {
+  id: string;
+  created_at: string;
+}
+
+export interface InMemoryAgentInput {
+  id?: string;
+  name: string;
+  type: AgentType | `${AgentType}`;
+  personality?: AgentPersonality | string;
+  balance: number;
+  reputation?: number;
+  status?: AgentStatus;
+  wallet_address?: string;
+  investor_share_bps?: number;
+  /** Defaults to a sequential id: bidding skips agents not registered on-chain */
+  chain_agent_id?: number | null;
+}
+
+function ok<T>(data: T): RepoResult<T> {
+  return { data, error: null };
+}
+
+function notFound<T>(what: string): RepoResult<T> {
+  return { data: null, error: { message: `${what} not found` } };
+}
+
+export class InMemoryStore {
+  readonly agents = new Map<string, Agent>();
+  readonly policies: PolicyRecord[] = [];
+  readonly policyVersions: PolicyVersion[] = [];
+  readonly tasks = new Map<string, Task>();
+  readonly bids = new Map<string, Bid>();
+  readonly deliverables: StoredDeliverable[] = [];
+  readonly intents = new Map<string, Intent>();
+  readonly offers = new Map<string, OfferCache>();
+  readonly partnerships = new Map<string, PartnershipCache>();
+  readonly events: StoredEvent[] = [];
+  readonly tokenHoldings = new Map<string, TokenHolding[]>();
+  /** Accrued investor escrow keyed by `${agentId}:${investorWallet}` */
+  readonly investorEscrow = new Map<string, number>();
+  /** Idempotency keys of escrow increments already applied */
+  readonly escrowIncrementKeys = new Set<string>();
+  readonly escrowDeposits: EscrowDepositRecord[] = [];
+  readonly reputationHistory: ReputationHistory[] = [];
+  readonly memories: PersonalMemoryEntry[] = [];
+  readonly runtimeStates = new Map<string, AgentRuntimeState>();
+  readonly exceptions: ExceptionRecord[] = [];
+  readonly llmUsage: StoredLlmUsage[] = [];
+  readonly ledger: LedgerEntry[] = [];
+  readonly outbox: OutboxMessage[] = [];
+
+  private sequence = 0;
+
+  nextId(prefix: string): string {
+    this.sequence += 1;
+    return `${prefix}-${this.sequence}`;
+  }
+
+  /**
+   * Add an agent with sensible defaults for the columns a round touches
+   */
+  addAgent(input: InMemoryAgentInput): Agent {
+    const id = input.id ?? this.nextId('agent');
+    const now = new Date().toISOString();
+    const agent: Agent = {
+      id,
+      chain_agent_id: input.chain_agent_id !== undefined ? input.chain_agent_id : this.agents.size + 1,
+      name: input.name,
+      type: input.type as AgentType,
+      status: input.status ?? AgentStatus.ACTIVE,
+      personality: (input.personality ?? 'balanced') as AgentPersonality,
+      token_symbol: null,
+      owner_wallet: null,
+      wallet_address: input.wallet_address ?? `0x${id}`,
+      token_address: null,
+      privy_wallet_id: null,
+      privy_user_id: null,
+      balance: input.balance,
+      bonded_balance: 0,
+      token_price: 0,
+      total_revenue: 0,
+      investor_share_bps: input.investor_share_bps ?? 7500,
+      reputation: input.reputation ?? 3.8,
+      tasks_completed: 0,
+      tasks_failed: 0,
+      total_bids: 0,
+      metadata_uri: null,
+      last_synced_block: 0,
+      created_at: now,
+      updated_at: now,
+    };
+    this.agents.set(id, agent);
+    if (input.balance > 0) {
+      // Seeded balances enter the ledger like the migration's opening balances
+      this.ledger.push({
+        id: this.nextId('ledger'),
+        entry_type: 'opening_balance',
+        debit_account: `agent:${id}`,
+        credit_account: 'external:funding',
+        amount: input.balance,
+        round_number: null,
+        task_id: null,
+        bid_id: null,
+        tx_hash: null,
+        idempotency_key: null,
+        metadata: {},
+        created_at: now,
+      });
+    }
+    return { ...agent };
+  }
+
+  addPolicy(agentId: string, policy: AgentPolicy): void {
+    this.policies.push({
+      agent_id: agentId,
+      policy_json: policy,
+      last_qbr_round: null,
+      created_at: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Post a consumer intent (PENDING, collecting offers)
+   */
+  addIntent(input: Pick<Intent, 'product_description' | 'max_budget' | 'category'> & Partial<Intent>): Intent {
+    const intent: Intent = {
+      id: this.nextId('intent'),
+      chain_intent_id: null,
+      status: IntentStatus.PENDING,
+      consumer_address: null,
+      accepted_offer_id: null,
+      tags: [],
+      expires_at: null,
+      created_at: new Date().toISOString(),
+      last_synced_block: 0,
+      ...input,
+    };
+    this.intents.set(intent.id, intent);
+    return { ...intent };
+  }
+
+  /**
+   * Add an ACTIVE partnership between two agents; splitA is agent A's
+   * percentage of jointly won payments (B gets the rest)
+   */
+  addPartnership(agentA: Pick<Agent, 'wallet_address'>, agentB: Pick<Agent, 'wallet_address'>, splitA: number = 50): PartnershipCache {
+    const partnership: PartnershipCache = {
+      id: this.nextId('partnership'),
+      partnership_address: null,
+      partner_a_wallet: agentA.wallet_address!,
+      partner_b_wallet: agentB.wallet_address!,
+      split_a: splitA,
+      split_b: 100 - splitA,
+      balance: 0,
+      status: 'ACTIVE',
+      total_revenue: 0,
+      last_synced_block: 0,
+      created_at: new Date().toISOString(),
+    };
+    this.partnerships.set(partnership.id, partnership);
+    return { ...partnership };
+  }
+}
+
+/**
+ * Repositories backed by an InMemoryStore (a fresh one unless given)
+ */
+export function createInMemoryRepositories(store: InMemoryStore = new InMemoryStore()): Repositories {
+  const now = () => new Date().toISOString();
+  const latestPolicy = (agentId: string) => {
+    for (let i = store.policies.length - 1; i >= 0; i--) {
+      if (store.policies[i].agent_id === agentId) return store.policies[i];
+    }
+    return null;
+  };
+
+  return {
+    agents: {
+      async listActive() {
+        return ok([...store.agents.values()]
+          .filter(a => (a.status === AgentStatus.ACTIVE || a.status === AgentStatus.LOW_FUNDS) && a.balance > 0)
+          .map(a => ({ ...a })));
+      },
+      async listByType(type) {
+        return ok([...store.agents.values()]
+          .filter(a => a.type === type && a.status === AgentStatus.ACTIVE && a.balance > 0)
+          .map(a => ({ ...a })));
+      },
+      async findById(id) {
+        const agent = store.agents.get(id);
+        return agent ? ok({ ...agent }) : notFound('Agent');
+      },
+      async findByIds(ids) {
+        return ok(ids.flatMap(id => {
+          const agent = store.agents.get(id);
+          return agent ? [{ ...agent }] : [];
+        }));
+      },
+      async findByWallet(wallet) {
+        const agent = [...store.agents.values()].find(a => a.wallet_address?.toLowerCase() === wallet.toLowerCase());
+        return agent ? ok({ ...agent }) : notFound('Agent');
+      },
+      async listAll() {
+        return ok([...store.agents.values()].map(a => ({ ...a })));
+      },
+      async incrementStats(id, increments) {
+        const agent = store.agents.get(id);
+        if (!agent) return notFound('Agent');
+        const updated = { ...agent, updated_at: now() };
+        for (const [field, by] of Object.entries(increments) as Array<[keyof typeof increments, number]>) {
+          updated[field] = Math.round(((agent[field] || 0) + by) * 1e6) / 1e6;
+        }
+        store.agents.set(id, updated);
+        return ok(null);
+      },
+      async adjustReputation(id, change) {
+        const agent = store.agents.get(id);
+        if (!agent) return notFound('Agent');
+        const oldReputation = agent.reputation ?? 3.8;
+        const newReputation = Math.round(Math.max(0, Math.min(5, oldReputation + change)) * 1000) / 1000;
+        store.agents.set(id, { ...agent, reputation: newReputation, updated_at: now() });
+        return ok({ old_reputation: oldReputation, new_reputation: newReputation });
+      },
+      async update(id, updates) {
+        const agent = store.agents.get(id);
+        if (!agent) return notFound('Agent');
+        store.agents.set(id, { ...agent, ...updates, updated_at: now() });
+        return ok(null);
+      },
+    },
+
+    policies: {
+      async latest(agentId) {
+        const policy = latestPolicy(agentId);
+        return policy ? ok({ ...policy }) : notFound('Policy');
+      },
+      async save(agentId, policy, meta) {
+        const previous = latestPolicy(agentId);
+        const version = store.policyVersions.filter(v => v.agent_id === agentId).length + 1;
+        const created = now();
+        store.policies.push({
+          agent_id: agentId,
+          policy_json: policy as unknown as AgentPolicy,
+          last_qbr_round: previous?.last_qbr_round ?? null,
+          created_at: created,
+        });
+        store.policyVersions.push({
+          id: store.nextId('policy_version'),
+          agent_id: agentId,
+          version,
+          policy_json: policy as unknown as AgentPolicy,
+          trigger_type: meta.trigger,
+          trigger_details: meta.triggerDetails ?? null,
+          reasoning: meta.reasoning ?? null,
+          diff: diffPolicies(previous?.policy_json ?? {}, policy),
+          restored_from_version: null,
+          created_at: created,
+        });
+        return ok(version);
+      },
+      async setLastQbrRound(agentId, round) {
+        for (const policy of store.policies) {
+          if (policy.agent_id === agentId) policy.last_qbr_round = round;
+        }
+        return ok(null);
+      },
+    },
+
+    tasks: {
+      async insert(rows) {
+        const created = rows.map(row => {
+          const task: Task = { ...row, id: store.nextId('task'), consumer_address: row.consumer_address ?? undefined };
+          store.tasks.set(task.id, task);
+          return { ...task };
+        });
+        return ok(created);
+      },
+      async findById(id) {
+        const task = store.tasks.get(id);
+        return task ? ok({ ...task }) : notFound('Task');
+      },
+      async list(query) {
+        let tasks = [...store.tasks.values()].filter(t =>
+          (!query.status || t.status === query.status) &&
+          (!query.type || t.type === query.type) &&
+          (!query.assignedAgentId || t.assigned_agent_id === query.assignedAgentId) &&
+          (!query.deliveryDeadlineBefore || (!!t.delivery_deadline && t.delivery_deadline < query.deliveryDeadlineBefore))
+        );
+        if (query.newestFirst) tasks = tasks.reverse();
+        if (query.limit) tasks = tasks.slice(0, query.limit);
+        return ok(tasks.map(t => ({ ...t })));
+      },
+      async update(id, updates) {
+        const task = store.tasks.get(id);
+        if (!task) return notFound('Task');
+        const updated = { ...task, ...updates };
+        store.tasks.set(id, updated);
+        return ok({ ...updated });
+      },
+      async updateMany(ids, updates) {
+        for (const id of ids) {
+          const task = store.tasks.get(id);
+          if (task) store.tasks.set(id, { ...task, ...updates });
+        }
+        return ok(null);
+      },
+    },
+
+    bids: {
+      async insert(rows) {
+        const created = rows.map(row => {
+          const bid = {
+            ...row,
+            id: store.nextId('bid'),
+            score: 0,
+            policy_used: row.policy_used ?? undefined,
+          } as Bid;
+          store.bids.set(bid.id, bid);
+          return { ...bid };
+        });
+        return ok(created);
+      },
+      async findById(id) {
+        const bid = store.bids.get(id);
+        return bid ? ok({ ...bid }) : notFound('Bid');
+      },
+      async listForTask(taskId) {
+        return ok([...store.bids.values()]
+          .filter(b => b.task_id === taskId)
+          .sort((a, b) => a.amount - b.amount)
+          .map(b => ({ ...b })));
+      },
+      async listForAgent(agentId, limit) {
+        return ok([...store.bids.values()]
+          .filter(b => b.agent_id === agentId)
+          .reverse()
+          .slice(0, limit)
+          .map(b => ({ ...b })));
+      },
+      async findByAgentAndTask(agentId, taskId) {
+        return ok([...store.bids.values()]
+          .filter(b => b.agent_id === agentId && b.task_id === taskId)
+          .slice(0, 1)
+          .map(b => ({ ...b })));
+      },
+      async listWonWithLockedBond(limit) {
+        const bids = [...store.bids.values()]
+          .filter(b => String(b.status) === 'WON' && b.bond_status === 'LOCKED')
+          .map(b => ({ ...b }));
+        return ok(bids.slice(0, limit ?? bids.length));
+      },
+      async update(id, updates) {
+        const bid = store.bids.get(id);
+        if (!bid) return notFound('Bid');
+        const updated = { ...bid, ...updates } as Bid;
+        store.bids.set(id, updated);
+        return ok({ ...updated });
+      },
+      async updateMany(ids, updates) {
+        let count = 0;
+        for (const id of ids) {
+          const bid = store.bids.get(id);
+          if (bid) {
+            store.bids.set(id, { ...bid, ...updates } as Bid);
+            count++;
+          }
+        }
+        return ok(count);
+      },
+    },
+
+    deliverables: {
+      async insert(deliverable) {
+        const stored: StoredDeliverable = { ...deliverable, id: store.nextId('deliverable'), created_at: now() };
+        store.deliverables.push(stored);
+        return ok({ ...stored });
+      },
+      async listForTask(taskId) {
+        return ok(store.deliverables.filter(d => d.task_id === taskId).map(d => ({ ...d })));
+      },
+    },
+
+    intents: {
+      async listOpen(limit) {
+        const open = [...store.intents.values()]
+          .filter(i => i.status === IntentStatus.PENDING || i.status === IntentStatus.OPEN)
+          .map(i => ({ ...i }));
+        return ok(limit ? open.slice(0, limit) : open);
+      },
+      async update(id, updates) {
+        const intent = store.intents.get(id);
+        if (!intent) return notFound('Intent');
+        store.intents.set(id, { ...intent, ...updates } as Intent);
+        return ok(null);
+      },
+    },
+
+    offers: {
+      async insert(rows) {
+        const created = rows.map(row => {
+          const offer: OfferCache = {
+            ...row,
+            id: store.nextId('offer'),
+            chain_offer_id: null,
+            submitted_at: now(),
+            last_synced_block: 0,
+            created_at: now(),
+          };
+          store.offers.set(offer.id, offer);
+          return { ...offer };
+        });
+        return ok(created);
+      },
+      async listPendingForIntent(intentId) {
+        return ok([...store.offers.values()]
+          .filter(o => o.intent_id === intentId && o.status === 'PENDING')
+          .map(o => ({ ...o })));
+      },
+      async updateMany(ids, updates) {
+        for (const id of ids) {
+          const offer = store.offers.get(id);
+          if (offer) store.offers.set(id, { ...offer, ...updates });
+        }
+        return ok(null);
+      },
+    },
+
+    partnerships: {
+      async listActive() {
+        return ok([...store.partnerships.values()]
+          .filter(p => p.status === 'ACTIVE')
+          .map(p => ({ ...p })));
+      },
+      async findById(id) {
+        const partnership = store.partnerships.get(id);
+        return partnership ? ok({ ...partnership }) : notFound('Partnership');
+      },
+      async addRevenue(id, amount) {
+        const partnership = store.partnerships.get(id);
+        if (!partnership) return notFound('Partnership');
+        const totalRevenue = Math.round(((partnership.total_revenue || 0) + amount) * 1e6) / 1e6;
+        store.partnerships.set(id, { ...partnership, total_revenue: totalRevenue });
+        return ok(null);
+      },
+    },
+
+    events: {
+      async create(event) {
+        const stored: StoredEvent = { ...event, id: store.nextId('event'), created_at: now() };
+        store.events.push(stored);
+        return ok(stored);
+      },
+      async logError(source, error, context) {
+        const message = error instanceof Error ? error.message : String(error);
+        store.events.push({
+          id: store.nextId('event'),
+          created_at: now(),
+          event_type: 'system_error',
+          description: `[${source}] ${context?.agent_name ? context.agent_name + ': ' : ''}${message.slice(0, 200)}`,
+          round_number: context?.round_number ?? null,
+          metadata: { source, error_message: message.slice(0, 500), ...context },
+        });
+      },
+      async listErrors({ since, sources, limit }) {
+        const errors: SystemErrorEvent[] = store.events
+          .filter(e => e.event_type === 'system_error' && e.created_at >= since)
+          .map(e => ({
+            id: e.id,
+            created_at: e.created_at,
+            round_number: e.round_number ?? null,
+            metadata: e.metadata as unknown as SystemErrorEvent['metadata'],
+          }))
+          .filter(e => !sources || sources.includes(e.metadata.source))
+          .reverse();
+        return ok(errors.slice(0, limit ?? errors.length));
+      },
+    },
+
+    escrow: {
+      async listTokenHolders(agentWallet) {
+        const holders = store.tokenHoldings.get(agentWallet.toLowerCase()) || [];
+        return ok(holders.filter(h => h.token_balance > 0).map(h => ({ ...h })));
+      },
+      async incrementInvestorEscrow(agentId, investorWallet, amount, idempotencyKey) {
+        if (idempotencyKey) {
+          if (store.escrowIncrementKeys.has(idempotencyKey)) return ok(null);
+          store.escrowIncrementKeys.add(idempotencyKey);
+        }
+        const key = `${agentId}:${investorWallet.toLowerCase()}`;
+        store.investorEscrow.set(key, (store.investorEscrow.get(key) || 0) + amount);
+        return ok(null);
+      },
+      async recordDeposit(deposit) {
+        store.escrowDeposits.push({ ...deposit });
+        return ok(null);
+      },
+      async outstandingTotal() {
+        let total = 0;
+        for (const amount of store.investorEscrow.values()) total += amount;
+        return ok(Math.round(total * 1e6) / 1e6);
+      },
+    },
+
+    reputation: {
+      async record(entry) {
+        const at = now();
+        store.reputationHistory.push({
+          ...entry, id: store.nextId('reputation'), tx_hash: null, block_number: null, changed_at: at, created_at: at,
+        });
+        return ok(null);
+      },
+      async listForAgent(agentId, limit) {
+        const rows = store.reputationHistory.filter(r => r.agent_id === agentId);
+        return ok(rows.slice(-limit).reverse().map(r => ({ ...r })));
+      },
+    },
+
+    memories: {
+      async create(m) {
+        // No LLM offline: the trigger context doubles as the narrative
+        const entry: PersonalMemoryEntry = {
+          id: store.nextId('memory'),
+          agent_id: m.agentId,
+          memory_type: m.type,
+          round_number: m.roundNumber,
+          trigger_context: m.triggerContext ?? null,
+          data: m.data,
+          narrative: `Round ${m.roundNumber}: ${m.triggerContext ?? m.type}`,
+          importance_score: m.importanceScore ?? 0.5,
+          times_recalled: 0,
+          last_recalled_at: null,
+          last_recall_reason: null,
+          archived_at: null,
+          consolidated_into: null,
+          created_at: now(),
+        };
+        store.memories.push(entry);
+        return { ...entry };
+      },
+      async listActive(agentId) {
+        return ok(store.memories
+          .filter(m => m.agent_id === agentId && !m.archived_at)
+          .sort((a, b) => a.round_number - b.round_number)
+          .map(m => ({ ...m })));
+      },
+      async insertLearning(m) {
+        const entry: PersonalMemoryEntry = {
+          id: store.nextId('memory'),
+          agent_id: m.agentId,
+          memory_type: 'learning',
+          round_number: m.roundNumber,
+          trigger_context: m.triggerContext,
+          data: m.data,
+          narrative: m.narrative,
+          importance_score: m.importanceScore,
+          times_recalled: 0,
+          last_recalled_at: null,
+          last_recall_reason: null,
+          archived_at: null,
+          consolidated_into: null,
+          created_at: now(),
+        };
+        store.memories.push(entry);
+        return ok({ ...entry });
+      },
+      async archive(ids, consolidatedInto) {
+        const archivedAt = now();
+        for (const m of store.memories) {
+          if (!ids.includes(m.id)) continue;
+          m.archived_at = archivedAt;
+          if (consolidatedInto) m.consolidated_into = consolidatedInto;
+        }
+        return ok(null);
+      },
+      async setImportance(id, importanceScore) {
+        const memory = store.memories.find(m => m.id === id);
+        if (!memory) return notFound('Memory');
+        memory.importance_score = importanceScore;
+        return ok(null);
+      },
+    },
+
+    runtimeState: {
+      async load(agentId) {
+        const state = store.runtimeStates.get(agentId);
+        return state ? structuredClone(state) : null;
+      },
+      async save(state) {
+        store.runtimeStates.set(state.agent_id, structuredClone(state));
+      },
+    },
+
+    exceptions: {
+      async insert(record) {
+        store.exceptions.push({ ...record });
+        return ok(null);
+      },
+    },
+
+    llmUsage: {
+      async insert(record) {
+        store.llmUsage.push({ ...record, id: store.nextId('llm-usage'), created_at: new Date().toISOString() });
+        return ok(null);
+      },
+      async list(query) {
+        return ok(store.llmUsage
+          .filter(u => query.agentId === undefined || u.agent_id === query.agentId)
+          .filter(u => query.roundNumber === undefined || u.round_number === query.roundNumber)
+          .filter(u => query.since === undefined || u.created_at >= query.since)
+          .map(u => ({ ...u })));
+      },
+    },
+
+    ledger: {
+      // No awaits inside: the whole batch applies in one turn of the event loop
+      async post(entries) {
+        const created = now();
+        const posted: LedgerEntry[] = [];
+        const touched = new Set<string>();
+        const accountAgent = (account: string) => {
+          const match = /^agent:([^:]+)(:bonded)?$/.exec(account);
+          const agent = match ? store.agents.get(match[1]) : undefined;
+          return agent ? { agent, field: match![2] ? 'bonded_balance' as const : 'balance' as const } : null;
+        };
+        const move = (account: string, delta: number) => {
+          const target = accountAgent(account);
+          if (!target) return;
+          const value = Math.round(((target.agent[target.field] || 0) + delta) * 1e6) / 1e6;
+          store.agents.set(target.agent.id, { ...target.agent, [target.field]: value, updated_at: created });
+          touched.add(target.agent.id);
+        };
+
+        for (const { limit, ...entry } of entries) {
+          const key = entry.idempotency_key ?? null;
+          if (key !== null && store.ledger.some(e => e.idempotency_key === key)) continue;
+
+          let amount = entry.amount;
+          const payer = limit ? accountAgent(entry.credit_account) : null;
+          if (payer) {
+            const available = Math.max(0, payer.agent[payer.field] || 0);
+            if (limit === 'require' && available < amount) continue;
+            amount = Math.min(amount, available);
+          }
+          if (amount <= 0) continue;
+
+          const stored: LedgerEntry = {
+            round_number: null,
+            task_id: null,
+            bid_id: null,
+            tx_hash: null,
+            metadata: {},
+            ...entry,
+            amount,
+            idempotency_key: key,
+            id: store.nextId('ledger'),
+            created_at: created,
+          };
+          if (amount !== entry.amount) stored.metadata = { ...stored.metadata, requested: entry.amount };
+          store.ledger.push(stored);
+          move(entry.debit_account, amount);
+          move(entry.credit_account, -amount);
+          posted.push({ ...stored });
+        }
+
+        const balances: Record<string, { balance: number; bonded_balance: number }> = {};
+        for (const id of touched) {
+          const agent = store.agents.get(id)!;
+          balances[id] = { balance: agent.balance, bonded_balance: agent.bonded_balance };
+        }
+        return ok({ posted, balances });
+      },
+      async existingKeys(keys) {
+        const wanted = new Set(keys);
+        return ok([...new Set(store.ledger
+          .map(e => e.idempotency_key)
+          .filter((k): k is string => k !== null && wanted.has(k)))]);
+      },
+      async list(query) {
+        const agentPrefix = query.agentId !== undefined ? `agent:${query.agentId}` : null;
+        const touches = (e: LedgerEntry, match: (account: string) => boolean) =>
+          match(e.debit_account) || match(e.credit_account);
+        return ok(store.ledger
+          .filter(e => query.account === undefined || touches(e, a => a === query.account))
+          .filter(e => agentPrefix === null || touches(e, a => a === agentPrefix || a.startsWith(`${agentPrefix}:`)))
+          .filter(e => query.entryType === undefined || e.entry_type === query.entryType)
+          .filter(e => query.roundNumber === undefined || e.round_number === query.roundNumber)
+          .reverse()
+          .slice(0, query.limit ?? 100)
+          .map(e => ({ ...e })));
+      },
+      async accountBalances() {
+        const balances: Record<string, number> = {};
+        for (const e of store.ledger) {
+          balances[e.debit_account] = (balances[e.debit_account] || 0) + e.amount;
+          balances[e.credit_account] = (balances[e.credit_account] || 0) - e.amount;
+        }
+        return ok(balances);
+      },
+    },
+
+    outbox: {
+      async enqueue(messages) {
+        const at = now();
+        const inserted: OutboxMessage[] = [];
+        for (const m of messages) {
+          if (m.dedupe_key && store.outbox.some(o => o.dedupe_key === m.dedupe_key)) continue;
+          const message: OutboxMessage = {
+            kind: m.kind,
+            payload: m.payload,
+            dedupe_key: m.dedupe_key ?? null,
+            max_attempts: m.max_attempts ?? 8,
+            next_attempt_at: m.next_attempt_at ?? at,
+            id: store.nextId('outbox'),
+            status: 'pending',
+            attempts: 0,
+            locked_until: null,
+            last_error: null,
+            result: null,
+            created_at: at,
+            updated_at: at,
+            completed_at: null,
+          };
+          store.outbox.push(message);
+          inserted.push({ ...message });
+        }
+        return ok(inserted);
+      },
+      async claim(limit, leaseMs, ids) {
+        const at = now();
+        const claimable = (m: OutboxMessage) => ids
+          ? ids.includes(m.id) && m.status === 'pending'
+          : (m.status === 'pending' && m.next_attempt_at <= at) ||
+            (m.status === 'processing' && !!m.locked_until && m.locked_until < at);
+        const claimed = store.outbox
+          .filter(claimable)
+          .sort((a, b) => a.next_attempt_at.localeCompare(b.next_attempt_at))
+          .slice(0, limit);
+        for (const m of claimed) {
+          m.status = 'processing';
+          m.attempts += 1;
+          m.locked_until = new Date(Date.now() + leaseMs).toISOString();
+          m.updated_at = at;
+        }
+        return ok(claimed.map(m => ({ ...m })));
+      },
+      async complete(id, result) {
+        const message = store.outbox.find(m => m.id === id);
+        if (!message) return notFound('Outbox message');
+        Object.assign(message, {
+          status: 'done', result: result ?? null, locked_until: null, updated_at: now(), completed_at: now(),
+        });
+        return ok(null);
+      },
+      async recordResult(id, result) {
+        const message = store.outbox.find(m => m.id === id);
+        if (!message) return notFound('Outbox message');
+        Object.assign(message, { result, updated_at: now() });
+        return ok(null);
+      },
+      async fail(id, error, retryAt) {
+        const message = store.outbox.find(m => m.id === id);
+        if (!message) return notFound('Outbox message');
+        Object.assign(message, {
+          status: retryAt ? 'pending' : 'dead',
+          last_error: error,
+          next_attempt_at: retryAt ?? message.next_attempt_at,
+          locked_until: null,
+          updated_at: now(),
+        });
+        return ok(null);
+      },
+      async revive(ids) {
+        const dead = store.outbox.filter(m => ids.includes(m.id) && m.status === 'dead');
+        for (const m of dead) {
+          Object.assign(m, { status: 'pending', attempts: 0, next_attempt_at: now(), updated_at: now() });
+        }
+        return ok(dead.length);
+      },
+      async list(query) {
+        return ok(store.outbox
+          .filter(m => !query.status || query.status.includes(m.status))
+          .filter(m => query.kind === undefined || m.kind === query.kind)
+          .slice(0, query.limit ?? 100)
+          .map(m => ({ ...m })));
+      },
+      async counts() {
+        const counts: Record<OutboxStatus, number> = { pending: 0, processing: 0, done: 0, dead: 0 };
+        for (const m of store.outbox) counts[m.status]++;
+        return ok(counts);
+      },
+    },
+  };
+}
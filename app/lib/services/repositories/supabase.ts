@@ -0,0 +1,689 @@
+/**
+ * Supabase repositories - production storage
+ *
+ * Same queries the services used to run inline. Runtime state, memories
+ * and events delegate to the existing helpers in agent-runtime/ and
+ * api-helpers so non-service callers keep one code path.
+ */
+
+import { supabase } from '@/lib/supabase';
+import { createEvent, logSystemError } from '@/lib/api-helpers';
+import { loadRuntimeState, savePolicy, saveRuntimeState } from '@/lib/agent-runtime/state';
+import type { AgentPolicy, PersonalityType } from '@/lib/agent-runtime/types';
+import { createPersonalMemory } from '@/lib/agent-runtime/personal-memory';
+import type { PersonalMemoryEntry } from '@/lib/agent-runtime/memory-types';
+import type { Agent, Intent, OfferCache, PartnershipCache, ReputationHistory } from '@/types/database';
+import type { Bid, StoredDeliverable, Task } from '../types';
+import type {
+  AgentRepository,
+  BidRepository,
+  DeliverableRepository,
+  EscrowRepository,
+  EventRepository,
+  ExceptionRepository,
+  IntentRepository,
+  LedgerEntry,
+  LedgerPostResult,
+  LedgerRepository,
+  LlmUsageRepository,
+  MemoryRepository,
+  OutboxMessage,
+  OutboxRepository,
+  OutboxStatus,
+  OfferRepository,
+  PartnershipRepository,
+  PolicyRecord,
+  PolicyRepository,
+  Repositories,
+  ReputationRepository,
+  RepoResult,
+  RuntimeStateRepository,
+  StoredLlmUsage,
+  SystemErrorEvent,
+  TaskRepository,
+  TokenHolding,
+} from './types';
+
+const supabaseAgents: AgentRepository = {
+  async listActive() {
+    const { data, error } = await supabase
+      .from('agents')
+      .select('*')
+      .in('status', ['ACTIVE', 'LOW_FUNDS'])
+      .gt('balance', 0);
+    return { data: data as Agent[] | null, error };
+  },
+
+  async listByType(type) {
+    const { data, error } = await supabase
+      .from('agents')
+      .select('*')
+      .eq('type', type)
+      .eq('status', 'ACTIVE')
+      .gt('balance', 0);
+    return { data: data as Agent[] | null, error };
+  },
+
+  async findById(id) {
+    const { data, error } = await supabase
+      .from('agents')
+      .select('*')
+      .eq('id', id)
+      .single();
+    return { data: data as Agent | null, error };
+  },
+
+  async findByIds(ids) {
+    const { data, error } = await supabase
+      .from('agents')
+      .select('*')
+      .in('id', ids);
+    return { data: data as Agent[] | null, error };
+  },
+
+  async findByWallet(wallet) {
+    const { data, error } = await supabase
+      .from('agents')
+      .select('*')
+      .ilike('wallet_address', wallet)
+      .single();
+    return { data: data as Agent | null, error };
+  },
+
+  async listAll() {
+    const { data, error } = await supabase.from('agents').select('*');
+    return { data: data as Agent[] | null, error };
+  },
+
+  async incrementStats(id, increments) {
+    const { error } = await supabase.rpc('increment_agent_stats', {
+      p_agent_id: id,
+      p_total_revenue: increments.total_revenue ?? 0,
+      p_tasks_completed: increments.tasks_completed ?? 0,
+      p_tasks_failed: increments.tasks_failed ?? 0,
+    });
+    return { data: null, error };
+  },
+
+  async adjustReputation(id, change) {
+    const { data, error } = await supabase
+      .rpc('adjust_agent_reputation', { p_agent_id: id, p_change: change })
+      .single();
+    if (error || !data) return { data: null, error: error ?? { message: 'Agent not found' } };
+    const row = data as { old_reputation: number | string; new_reputation: number | string };
+    return { data: { old_reputation: Number(row.old_reputation), new_reputation: Number(row.new_reputation) }, error: null };
+  },
+
+  async update(id, updates) {
+    const { error } = await supabase
+      .from('agents')
+      .update(updates)
+      .eq('id', id);
+    return { data: null, error };
+  },
+};
+
+const supabasePolicies: PolicyRepository = {
+  async latest(agentId) {
+    const { data, error } = await supabase
+      .from('agent_policies')
+      .select('agent_id, policy_json, last_qbr_round, created_at')
+      .eq('agent_id', agentId)
+      .order('created_at', { ascending: false })
+      .limit(1);
+    return { data: (data?.[0] as PolicyRecord | undefined) ?? null, error };
+  },
+
+  async save(agentId, policy, { personality, ...meta }) {
+    try {
+      const version = await savePolicy(agentId, policy as unknown as AgentPolicy, personality as PersonalityType, meta);
+      return { data: version, error: null };
+    } catch (err) {
+      return { data: null, error: { message: err instanceof Error ? err.message : String(err) } };
+    }
+  },
+
+  async setLastQbrRound(agentId, round) {
+    const { error } = await supabase
+      .from('agent_policies')
+      .update({ last_qbr_round: round })
+      .eq('agent_id', agentId);
+    return { data: null, error };
+  },
+};
+
+const supabaseTasks: TaskRepository = {
+  async insert(tasks) {
+    const { data, error } = await supabase
+      .from('tasks')
+      .insert(tasks)
+      .select();
+    return { data: data as Task[] | null, error };
+  },
+
+  async findById(id) {
+    const { data, error } = await supabase
+      .from('tasks')
+      .select('*')
+      .eq('id', id)
+      .single();
+    return { data: data as Task | null, error };
+  },
+
+  async list(query) {
+    let q = supabase.from('tasks').select('*');
+    if (query.status) q = q.eq('status', query.status);
+    if (query.type) q = q.eq('type', query.type);
+    if (query.assignedAgentId) q = q.eq('assigned_agent_id', query.assignedAgentId);
+    if (query.deliveryDeadlineBefore) q = q.lt('delivery_deadline', query.deliveryDeadlineBefore);
+    if (query.limit) q = q.limit(query.limit);
+    const { data, error } = query.newestFirst
+      ? await q.order('created_at', { ascending: false })
+      : await q;
+    return { data: data as Task[] | null, error };
+  },
+
+  async update(id, updates) {
+    const { data, error } = await supabase
+      .from('tasks')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+    return { data: data as Task | null, error };
+  },
+
+  async updateMany(ids, updates) {
+    const { error } = await supabase
+      .from('tasks')
+      .update(updates)
+      .in('id', ids);
+    return { data: null, error };
+  },
+};
+
+const supabaseBids: BidRepository = {
+  async insert(bids) {
+    const { data, error } = await supabase
+      .from('bids_cache')
+      .insert(bids)
+      .select();
+    return { data: data as Bid[] | null, error };
+  },
+
+  async findById(id) {
+    const { data, error } = await supabase
+      .from('bids_cache')
+      .select('*')
+      .eq('id', id)
+      .single();
+    return { data: data as Bid | null, error };
+  },
+
+  async listForTask(taskId) {
+    const { data, error } = await supabase
+      .from('bids_cache')
+      .select('*')
+      .eq('task_id', taskId)
+      .order('amount', { ascending: true });
+    return { data: data as Bid[] | null, error };
+  },
+
+  async listForAgent(agentId, limit) {
+    const { data, error } = await supabase
+      .from('bids_cache')
+      .select('*')
+      .eq('agent_id', agentId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+    return { data: data as Bid[] | null, error };
+  },
+
+  async findByAgentAndTask(agentId, taskId) {
+    const { data, error } = await supabase
+      .from('bids_cache')
+      .select('*')
+      .eq('task_id', taskId)
+      .eq('agent_id', agentId)
+      .limit(1);
+    return { data: data as Bid[] | null, error };
+  },
+
+  async listWonWithLockedBond(limit) {
+    let q = supabase
+      .from('bids_cache')
+      .select('*')
+      .eq('status', 'WON')
+      .eq('bond_status', 'LOCKED')
+      .order('created_at', { ascending: true });
+    if (limit) q = q.limit(limit);
+    const { data, error } = await q;
+    return { data: data as Bid[] | null, error };
+  },
+
+
+  async update(id, updates) {
+    const { data, error } = await supabase
+      .from('bids_cache')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+    return { data: data as Bid | null, error };
+  },
+
+  async updateMany(ids, updates) {
+    const { error, count } = await supabase
+      .from('bids_cache')
+      .update(updates)
+      .in('id', ids);
+    return { data: count, error };
+  },
+};
+
+const supabaseDeliverables: DeliverableRepository = {
+  async insert(deliverable) {
+    const { data, error } = await supabase
+      .from('task_deliverables')
+      .insert(deliverable)
+      .select()
+      .single();
+    return { data: data as StoredDeliverable | null, error };
+  },
+
+  async listForTask(taskId) {
+    const { data, error } = await supabase
+      .from('task_deliverables')
+      .select('*')
+      .eq('task_id', taskId)
+      .order('created_at', { ascending: true });
+    return { data: data as StoredDeliverable[] | null, error };
+  },
+};
+
+const supabaseIntents: IntentRepository = {
+  async listOpen(limit) {
+    let q = supabase
+      .from('intents')
+      .select('*')
+      .in('status', ['PENDING', 'OPEN'])
+      .order('created_at', { ascending: true });
+    if (limit) q = q.limit(limit);
+    const { data, error } = await q;
+    return { data: data as Intent[] | null, error };
+  },
+
+  async update(id, updates) {
+    const { error } = await supabase
+      .from('intents')
+      .update(updates)
+      .eq('id', id);
+    return { data: null, error };
+  },
+};
+
+const supabaseOffers: OfferRepository = {
+  async insert(offers) {
+    const { data, error } = await supabase
+      .from('offers_cache')
+      .insert(offers)
+      .select();
+    return { data: data as OfferCache[] | null, error };
+  },
+
+  async listPendingForIntent(intentId) {
+    const { data, error } = await supabase
+      .from('offers_cache')
+      .select('*')
+      .eq('intent_id', intentId)
+      .eq('status', 'PENDING');
+    return { data: data as OfferCache[] | null, error };
+  },
+
+  async updateMany(ids, updates) {
+    const { error } = await supabase
+      .from('offers_cache')
+      .update(updates)
+      .in('id', ids);
+    return { data: null, error };
+  },
+};
+
+const supabasePartnerships: PartnershipRepository = {
+  async listActive() {
+    const { data, error } = await supabase
+      .from('partnerships_cache')
+      .select('*')
+      .eq('status', 'ACTIVE')
+      .order('created_at', { ascending: true });
+    return { data: data as PartnershipCache[] | null, error };
+  },
+
+  async findById(id) {
+    const { data, error } = await supabase
+      .from('partnerships_cache')
+      .select('*')
+      .eq('id', id)
+      .single();
+    return { data: data as PartnershipCache | null, error };
+  },
+
+  async addRevenue(id, amount) {
+    const { data, error: getError } = await supabase
+      .from('partnerships_cache')
+      .select('total_revenue')
+      .eq('id', id)
+      .single();
+    if (getError) return { data: null, error: getError };
+
+    const totalRevenue = Math.round((Number(data?.total_revenue || 0) + amount) * 1e6) / 1e6;
+    const { error } = await supabase
+      .from('partnerships_cache')
+      .update({ total_revenue: totalRevenue })
+      .eq('id', id);
+    return { data: null, error };
+  },
+};
+
+const supabaseEvents: EventRepository = {
+  create: (event) => createEvent(event),
+  logError: (source, error, context) => logSystemError(source, error, context),
+
+  async listErrors({ since, sources, limit }) {
+    let query = supabase
+      .from('economy_events')
+      .select('id, created_at, round_number, metadata')
+      .eq('event_type', 'system_error')
+      .gte('created_at', since)
+      .order('created_at', { ascending: false });
+    if (sources) query = query.in('metadata->>source', sources);
+    if (limit) query = query.limit(limit);
+    const { data, error } = await query;
+    return { data: data as SystemErrorEvent[] | null, error };
+  },
+};
+
+const supabaseEscrow: EscrowRepository = {
+  async listTokenHolders(agentWallet) {
+    const { data, error } = await supabase
+      .from('token_holdings_cache')
+      .select('investor_wallet, token_balance')
+      .eq('agent_wallet', agentWallet.toLowerCase())
+      .gt('token_balance', 0);
+    return { data: data as TokenHolding[] | null, error };
+  },
+
+  async incrementInvestorEscrow(agentId, investorWallet, amount, idempotencyKey) {
+    const { error } = await supabase.rpc('increment_investor_escrow', {
+      p_agent_id: agentId,
+      p_investor_wallet: investorWallet.toLowerCase(),
+      p_amount: amount,
+      p_idempotency_key: idempotencyKey,
+    });
+    return { data: null, error };
+  },
+
+  async recordDeposit(deposit) {
+    const { error } = await supabase.from('escrow_deposits').insert(deposit);
+    return { data: null, error };
+  },
+
+  async outstandingTotal() {
+    const { data, error } = await supabase.from('investor_escrow').select('available_to_claim');
+    if (error) return { data: null, error };
+    const total = (data || []).reduce((sum, row) => sum + (Number(row.available_to_claim) || 0), 0);
+    return { data: Math.round(total * 1e6) / 1e6, error: null };
+  },
+};
+
+const supabaseReputation: ReputationRepository = {
+  async record(entry) {
+    const { error } = await supabase.from('reputation_history').insert(entry);
+    return { data: null, error };
+  },
+
+  async listForAgent(agentId, limit) {
+    const { data, error } = await supabase
+      .from('reputation_history')
+      .select('*')
+      .eq('agent_id', agentId)
+      .order('changed_at', { ascending: false })
+      .limit(limit);
+    return { data: data as ReputationHistory[] | null, error };
+  },
+};
+
+const supabaseMemories: MemoryRepository = {
+  create: (m) => createPersonalMemory(
+    m.agentId, m.type, m.data, m.roundNumber, m.context, m.triggerContext, m.importanceScore
+  ),
+
+  async listActive(agentId) {
+    const { data, error } = await supabase
+      .from('agent_memories')
+      .select('*')
+      .eq('agent_id', agentId)
+      .is('archived_at', null)
+      .order('round_number', { ascending: true });
+    return { data: data as PersonalMemoryEntry[] | null, error };
+  },
+
+  async insertLearning(m) {
+    const { data, error } = await supabase
+      .from('agent_memories')
+      .insert({
+        agent_id: m.agentId,
+        memory_type: 'learning',
+        round_number: m.roundNumber,
+        trigger_context: m.triggerContext,
+        data: m.data,
+        narrative: m.narrative,
+        importance_score: m.importanceScore,
+      })
+      .select()
+      .single();
+    return { data: data as PersonalMemoryEntry | null, error };
+  },
+
+  async archive(ids, consolidatedInto) {
+    if (ids.length === 0) return { data: null, error: null };
+    const { error } = await supabase
+      .from('agent_memories')
+      .update({
+        archived_at: new Date().toISOString(),
+        ...(consolidatedInto && { consolidated_into: consolidatedInto }),
+      })
+      .in('id', ids);
+    return { data: null, error };
+  },
+
+  async setImportance(id, importanceScore) {
+    const { error } = await supabase
+      .from('agent_memories')
+      .update({ importance_score: importanceScore })
+      .eq('id', id);
+    return { data: null, error };
+  },
+};
+
+const supabaseRuntimeState: RuntimeStateRepository = {
+  load: (agentId) => loadRuntimeState(agentId),
+  save: (state) => saveRuntimeState(state),
+};
+
+const supabaseExceptions: ExceptionRepository = {
+  async insert(record): Promise<RepoResult<null>> {
+    const { error } = await supabase.from('exception_history').insert(record);
+    return { data: null, error };
+  },
+};
+
+const supabaseLlmUsage: LlmUsageRepository = {
+  async insert(record): Promise<RepoResult<null>> {
+    const { error } = await supabase.from('llm_usage').insert(record);
+    return { data: null, error };
+  },
+
+  async list(query) {
+    let q = supabase.from('llm_usage').select('*');
+    if (query.agentId !== undefined) q = q.eq('agent_id', query.agentId);
+    if (query.roundNumber !== undefined) q = q.eq('round_number', query.roundNumber);
+    if (query.since !== undefined) q = q.gte('created_at', query.since);
+    const { data, error } = await q;
+    return { data: data as StoredLlmUsage[] | null, error };
+  },
+};
+
+const supabaseLedger: LedgerRepository = {
+  async post(entries) {
+    const { data, error } = await supabase.rpc('post_ledger_entries', { p_entries: entries });
+    if (error) return { data: null, error };
+    const result = data as LedgerPostResult;
+    return {
+      data: {
+        posted: result.posted.map(e => ({ ...e, amount: Number(e.amount) })),
+        balances: Object.fromEntries(Object.entries(result.balances).map(([id, b]) => [
+          id, { balance: Number(b.balance), bonded_balance: Number(b.bonded_balance) },
+        ])),
+      },
+      error: null,
+    };
+  },
+
+  async existingKeys(keys) {
+    if (keys.length === 0) return { data: [], error: null };
+    const { data, error } = await supabase
+      .from('ledger_entries')
+      .select('idempotency_key')
+      .in('idempotency_key', keys);
+    return { data: (data || []).map(row => row.idempotency_key as string), error };
+  },
+
+  async list(query) {
+    let q = supabase.from('ledger_entries').select('*');
+    if (query.account !== undefined) {
+      q = q.or(`debit_account.eq."${query.account}",credit_account.eq."${query.account}"`);
+    }
+    if (query.agentId !== undefined) {
+      q = q.or(`debit_account.like."agent:${query.agentId}*",credit_account.like."agent:${query.agentId}*"`);
+    }
+    if (query.entryType !== undefined) q = q.eq('entry_type', query.entryType);
+    if (query.roundNumber !== undefined) q = q.eq('round_number', query.roundNumber);
+    const { data, error } = await q
+      .order('created_at', { ascending: false })
+      .limit(query.limit ?? 100);
+    return { data: data as LedgerEntry[] | null, error };
+  },
+
+  async accountBalances() {
+    const { data, error } = await supabase.from('ledger_account_balances').select('account, balance');
+    if (error) return { data: null, error };
+    const balances: Record<string, number> = {};
+    for (const row of data || []) balances[row.account] = Number(row.balance);
+    return { data: balances, error: null };
+  },
+};
+
+const supabaseOutbox: OutboxRepository = {
+  async enqueue(messages) {
+    const { data, error } = await supabase
+      .from('outbox_messages')
+      .upsert(messages, { onConflict: 'dedupe_key', ignoreDuplicates: true })
+      .select();
+    return { data: data as OutboxMessage[] | null, error };
+  },
+
+  async claim(limit, leaseMs, ids) {
+    const { data, error } = await supabase.rpc('claim_outbox_messages', {
+      p_limit: limit,
+      p_lease_seconds: Math.ceil(leaseMs / 1000),
+      p_ids: ids ?? null,
+    });
+    return { data: data as OutboxMessage[] | null, error };
+  },
+
+  async complete(id, result) {
+    const at = new Date().toISOString();
+    const { error } = await supabase
+      .from('outbox_messages')
+      .update({ status: 'done', result: result ?? null, locked_until: null, updated_at: at, completed_at: at })
+      .eq('id', id);
+    return { data: null, error };
+  },
+
+  async recordResult(id, result) {
+    const { error } = await supabase
+      .from('outbox_messages')
+      .update({ result, updated_at: new Date().toISOString() })
+      .eq('id', id);
+    return { data: null, error };
+  },
+
+  async fail(id, message, retryAt) {
+    const { error } = await supabase
+      .from('outbox_messages')
+      .update({
+        status: retryAt ? 'pending' : 'dead',
+        last_error: message,
+        ...(retryAt ? { next_attempt_at: retryAt } : {}),
+        locked_until: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id);
+    return { data: null, error };
+  },
+
+  async revive(ids) {
+    const at = new Date().toISOString();
+    const { data, error } = await supabase
+      .from('outbox_messages')
+      .update({ status: 'pending', attempts: 0, next_attempt_at: at, updated_at: at })
+      .in('id', ids)
+      .eq('status', 'dead')
+      .select('id');
+    return { data: data ? data.length : null, error };
+  },
+
+  async list(query) {
+    let q = supabase.from('outbox_messages').select('*');
+    if (query.status) q = q.in('status', query.status);
+    if (query.kind !== undefined) q = q.eq('kind', query.kind);
+    const { data, error } = await q
+      .order('created_at', { ascending: true })
+      .limit(query.limit ?? 100);
+    return { data: data as OutboxMessage[] | null, error };
+  },
+
+  async counts() {
+    const { data, error } = await supabase.from('outbox_status_counts').select('status, count');
+    if (error) return { data: null, error };
+    const counts: Record<OutboxStatus, number> = { pending: 0, processing: 0, done: 0, dead: 0 };
+    for (const row of data || []) counts[row.status as OutboxStatus] = Number(row.count);
+    return { data: counts, error: null };
+  },
+};
+
+/**
+ * Repositories backed by the global Supabase client
+ */
+export function createSupabaseRepositories(): Repositories {
+  return {
+    agents: supabaseAgents,
+    policies: supabasePolicies,
+    tasks: supabaseTasks,
+    bids: supabaseBids,
+    deliverables: supabaseDeliverables,
+    intents: supabaseIntents,
+    offers: supabaseOffers,
+    partnerships: supabasePartnerships,
+    events: supabaseEvents,
+    escrow: supabaseEscrow,
+    reputation: supabaseReputation,
+    memories: supabaseMemories,
+    runtimeState: supabaseRuntimeState,
+    exceptions: supabaseExceptions,
+    llmUsage: supabaseLlmUsage,
+    ledger: supabaseLedger,
+    outbox: supabaseOutbox,
+  };
+}
@@ -0,0 +1,567 @@
+/**
+ * Repository interfaces - storage boundary for the services layer
+ *
+ * Services talk to these instead of the global supabase client, so the
+ * same round pipeline can run against Supabase (production) or an
+ * in-memory store (tests, CLI, batch experiments).
+ *
+ * Methods return { data, error } like the Supabase client so services keep
+ * their existing "log and fall back" error handling.
+ */
+
+import type {
+  Agent,
+  Intent,
+  IntentStatus,
+  OfferCache,
+  OfferStatus,
+  PartnershipCache,
+  ReputationHistory,
+} from '@/types/database';
+import type { AgentPolicy, AgentRuntimeState, PolicyTrigger } from '@/lib/agent-runtime/types';
+import type { MemoryContext, PersonalMemoryEntry, PersonalMemoryType } from '@/lib/agent-runtime/memory-types';
+import type { LlmActivity } from '@/lib/llm-config';
+import type { Bid, EconomyEventInput, StoredDeliverable, Task, TaskStatus, TaskType } from '../types';
+
+export interface RepoError {
+  message: string;
+}
+
+export interface RepoResult<T> {
+  data: T | null;
+  error: RepoError | null;
+}
+
+// =============================================================================
+// AGENTS + POLICIES
+// =============================================================================
+
+export type AgentUpdate = Partial<Omit<Agent, 'id'>>;
+
+/** Counters bumped in place (never read-modify-write) */
+export type AgentStatIncrements = Partial<Record<'total_revenue' | 'tasks_completed' | 'tasks_failed', number>>;
+
+export interface ReputationChange {
+  old_reputation: number;
+  new_reputation: number;
+}
+
+export interface AgentRepository {
+  /** Agents that can take part in a round: ACTIVE or LOW_FUNDS with balance > 0 */
+  listActive(): Promise<RepoResult<Agent[]>>;
+  /** ACTIVE agents of one type with balance > 0 */
+  listByType(type: Agent['type']): Promise<RepoResult<Agent[]>>;
+  findById(id: string): Promise<RepoResult<Agent>>;
+  findByIds(ids: string[]): Promise<RepoResult<Agent[]>>;
+  /** Case-insensitive wallet match */
+  findByWallet(wallet: string): Promise<RepoResult<Agent>>;
+  /** Every agent, any status (ledger audit) */
+  listAll(): Promise<RepoResult<Agent[]>>;
+  update(id: string, updates: AgentUpdate): Promise<RepoResult<null>>;
+  /** Atomically add to the agent's counters */
+  incrementStats(id: string, increments: AgentStatIncrements): Promise<RepoResult<null>>;
+  /** Atomically move reputation by change, clamped to 0-5 */
+  adjustReputation(id: string, change: number): Promise<RepoResult<ReputationChange>>;
+}
+
+export interface PolicyRecord {
+  agent_id: string;
+  policy_json: AgentPolicy | null;
+  last_qbr_round: number | null;
+  created_at: string;
+}
+
+/** Why a policy version was written (policy_versions row) */
+export interface PolicySaveMeta {
+  personality: string;
+  trigger: PolicyTrigger;
+  reasoning?: string;
+  triggerDetails?: string;
+}
+
+export interface PolicyRepository {
+  /** Most recent policy row for an agent */
+  latest(agentId: string): Promise<RepoResult<PolicyRecord>>;
+  /**
+   * Write the agent's policy as its next version (agent_policies is one row
+   * per agent) and record it in policy_versions. Returns the new version.
+   */
+  save(agentId: string, policy: Record<string, unknown>, meta: PolicySaveMeta): Promise<RepoResult<number>>;
+  /** Stamp last_qbr_round on the agent's policy rows */
+  setLastQbrRound(agentId: string, round: number): Promise<RepoResult<null>>;
+}
+
+// =============================================================================
+// TASKS + BIDS + DELIVERABLES
+// =============================================================================
+
+export interface NewTaskRecord {
+  type: TaskType;
+  required_types?: TaskType[] | null;
+  status: TaskStatus;
+  max_bid: number;
+  input_ref: string;
+  deadline: string;
+  consumer_address: string | null;
+  created_at: string;
+}
+
+export interface TaskQuery {
+  status?: TaskStatus;
+  type?: TaskType;
+  assignedAgentId?: string;
+  /** Only tasks whose delivery_deadline is before this ISO time */
+  deliveryDeadlineBefore?: string;
+  limit?: number;
+  /** Order by created_at descending */
+  newestFirst?: boolean;
+}
+
+export type TaskUpdate = Partial<Omit<Task, 'id'>>;
+
+export interface TaskRepository {
+  insert(tasks: NewTaskRecord[]): Promise<RepoResult<Task[]>>;
+  findById(id: string): Promise<RepoResult<Task>>;
+  list(query: TaskQuery): Promise<RepoResult<Task[]>>;
+  update(id: string, updates: TaskUpdate): Promise<RepoResult<Task>>;
+  updateMany(ids: string[], updates: TaskUpdate): Promise<RepoResult<null>>;
+}
+
+export interface NewBidRecord {
+  task_id: string;
+  agent_id: string;
+  bidder_wallet: string;
+  amount: number;
+  status: string;           // bids_cache status: PENDING | WON | LOST
+  policy_used?: Bid['policy_used'] | null;
+  round_number?: number | null;
+  bond_amount?: number | null;
+  bond_status?: Bid['bond_status'];
+  partnership_id?: string | null;
+  created_at: string;
+}
+
+export interface BidUpdate {
+  status?: string;
+  clearing_price?: number | null;
+  auction_mechanism?: Bid['auction_mechanism'];
+  bond_amount?: number | null;
+  bond_status?: Bid['bond_status'];
+}
+
+export interface BidRepository {
+  insert(bids: NewBidRecord[]): Promise<RepoResult<Bid[]>>;
+  findById(id: string): Promise<RepoResult<Bid>>;
+  /** All bids for a task, cheapest first */
+  listForTask(taskId: string): Promise<RepoResult<Bid[]>>;
+  /** An agent's bids, newest first */
+  listForAgent(agentId: string, limit: number): Promise<RepoResult<Bid[]>>;
+  findByAgentAndTask(agentId: string, taskId: string): Promise<RepoResult<Bid[]>>;
+  /** WON bids whose bond is still LOCKED (settled bids have released theirs), oldest first */
+  listWonWithLockedBond(limit?: number): Promise<RepoResult<Bid[]>>;
+  update(id: string, updates: BidUpdate): Promise<RepoResult<Bid>>;
+  /** Returns the number of rows updated when known */
+  updateMany(ids: string[], updates: BidUpdate): Promise<RepoResult<number>>;
+}
+
+export type NewDeliverableRecord = Omit<StoredDeliverable, 'id' | 'created_at'>;
+
+export interface DeliverableRepository {
+  insert(deliverable: NewDeliverableRecord): Promise<RepoResult<StoredDeliverable>>;
+  /** Deliverables for a task, oldest first */
+  listForTask(taskId: string): Promise<RepoResult<StoredDeliverable[]>>;
+}
+
+// =============================================================================
+// CONSUMER INTENTS + OFFERS
+// =============================================================================
+
+export interface IntentUpdate {
+  status?: IntentStatus;
+  accepted_offer_id?: string | null;
+}
+
+export interface IntentRepository {
+  /** Intents still collecting offers (PENDING or OPEN), oldest first */
+  listOpen(limit?: number): Promise<RepoResult<Intent[]>>;
+  update(id: string, updates: IntentUpdate): Promise<RepoResult<null>>;
+}
+
+export type NewOfferRecord = Pick<
+  OfferCache,
+  'intent_id' | 'agent_id' | 'agent_wallet' | 'price' | 'proposal_text' | 'matched_tags' | 'relevance_score' | 'status'
+> & {
+  chain_intent_id: number | null;
+  round_number?: number | null;
+};
+
+export interface OfferRepository {
+  insert(offers: NewOfferRecord[]): Promise<RepoResult<OfferCache[]>>;
+  /** PENDING offers for an intent */
+  listPendingForIntent(intentId: string): Promise<RepoResult<OfferCache[]>>;
+  updateMany(ids: string[], updates: { status: OfferStatus }): Promise<RepoResult<null>>;
+}
+
+// =============================================================================
+// PARTNERSHIPS
+// =============================================================================
+
+export interface PartnershipRepository {
+  /** ACTIVE partnerships (the ones that can bid jointly) */
+  listActive(): Promise<RepoResult<PartnershipCache[]>>;
+  findById(id: string): Promise<RepoResult<PartnershipCache>>;
+  /** Add a jointly won payment to the partnership's total_revenue */
+  addRevenue(id: string, amount: number): Promise<RepoResult<null>>;
+}
+
+// =============================================================================
+// ECONOMY
+// =============================================================================
+
+export interface EventRecord extends EconomyEventInput {
+  tx_hash?: string | null;
+  block_number?: number | null;
+  round_number?: number | null;
+}
+
+export type SystemErrorSource = 'blockchain' | 'llm' | 'payment' | 'database';
+
+export interface SystemErrorContext {
+  round_number?: number;
+  agent_name?: string;
+  agent_id?: string;
+  detail?: string;
+}
+
+export interface SystemErrorEvent {
+  id: string;
+  created_at: string;
+  round_number: number | null;
+  metadata: SystemErrorContext & { source: SystemErrorSource; error_message: string };
+}
+
+export interface SystemErrorQuery {
+  /** ISO timestamp: errors logged at or after */
+  since: string;
+  sources?: SystemErrorSource[];
+  limit?: number;
+}
+
+export interface EventRepository {
+  create(event: EventRecord): Promise<RepoResult<unknown>>;
+  /** Record a system_error event (never throws) */
+  logError(source: SystemErrorSource, error: unknown, context?: SystemErrorContext): Promise<void>;
+  /** system_error events, newest first */
+  listErrors(query: SystemErrorQuery): Promise<RepoResult<SystemErrorEvent[]>>;
+}
+
+export interface TokenHolding {
+  investor_wallet: string;
+  token_balance: number;
+}
+
+export interface EscrowDepositRecord {
+  agent_id: string;
+  task_id: string;
+  gross_profit: number;
+  investor_share_total: number;
+  agent_share: number;
+  investor_share_bps: number;
+  holder_count: number;
+  total_token_supply: number | null;
+  platform_cut: number;
+  tx_hash?: string;
+}
+
+export type NewReputationRecord = Omit<ReputationHistory, 'id' | 'tx_hash' | 'block_number' | 'changed_at' | 'created_at'>;
+
+export interface ReputationRepository {
+  record(entry: NewReputationRecord): Promise<RepoResult<null>>;
+  /** An agent's reputation changes, newest first */
+  listForAgent(agentId: string, limit: number): Promise<RepoResult<ReputationHistory[]>>;
+}
+
+export interface EscrowRepository {
+  /** Holders with a positive token balance for an agent wallet */
+  listTokenHolders(agentWallet: string): Promise<RepoResult<TokenHolding[]>>;
+  /**
+   * Add to an investor's claimable escrow; an increment whose idempotency
+   * key was already applied is skipped
+   */
+  incrementInvestorEscrow(
+    agentId: string,
+    investorWallet: string,
+    amount: number,
+    idempotencyKey: string | null
+  ): Promise<RepoResult<null>>;
+  recordDeposit(deposit: EscrowDepositRecord): Promise<RepoResult<null>>;
+  /** Escrow investors can still claim (sum of available_to_claim) */
+  outstandingTotal(): Promise<RepoResult<number>>;
+}
+
+// =============================================================================
+// AGENT RUNTIME: MEMORIES, RUNTIME STATE, EXCEPTIONS
+// =============================================================================
+
+export interface NewPersonalMemory {
+  agentId: string;
+  type: PersonalMemoryType;
+  data: Record<string, unknown>;
+  roundNumber: number;
+  context: MemoryContext;
+  triggerContext?: string;
+  importanceScore?: number;
+}
+
+/** A learning written by memory consolidation (narrative included, no LLM) */
+export interface ConsolidatedMemory {
+  agentId: string;
+  roundNumber: number;
+  data: Record<string, unknown>;
+  narrative: string;
+  triggerContext: string;
+  importanceScore: number;
+}
+
+export interface MemoryRepository {
+  /** Create a memory (Supabase writes an LLM narrative; returns null on failure) */
+  create(memory: NewPersonalMemory): Promise<PersonalMemoryEntry | null>;
+  /** Unarchived memories of an agent, oldest round first */
+  listActive(agentId: string): Promise<RepoResult<PersonalMemoryEntry[]>>;
+  /** Insert a consolidated `learning` memory */
+  insertLearning(memory: ConsolidatedMemory): Promise<RepoResult<PersonalMemoryEntry>>;
+  /** Archive memories; consolidatedInto links sources to their learning */
+  archive(ids: string[], consolidatedInto?: string): Promise<RepoResult<null>>;
+  setImportance(id: string, importanceScore: number): Promise<RepoResult<null>>;
+}
+
+export interface RuntimeStateRepository {
+  /** Null when the agent has no runtime state yet */
+  load(agentId: string): Promise<AgentRuntimeState | null>;
+  /** Throws on failure */
+  save(state: AgentRuntimeState): Promise<void>;
+}
+
+export interface ExceptionRecord {
+  agent_id: string;
+  exception_type: string;
+  exception_details: string;
+  current_value: number;
+  threshold: number;
+  round_number: number;
+  brain_response: Record<string, unknown>;
+  resolved: boolean;
+  resolved_at: string | null;
+}
+
+export interface ExceptionRepository {
+  insert(record: ExceptionRecord): Promise<RepoResult<null>>;
+}
+
+// =============================================================================
+// LLM USAGE
+// =============================================================================
+
+/** One metered LLM session (a wake-up, a narrative, a deliverable) */
+export interface LlmUsageRecord {
+  agent_id: string | null;
+  activity: LlmActivity;
+  provider: string;
+  model: string;
+  round_number: number | null;
+  llm_calls: number;
+  tool_calls: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+  /** Amount debited from the agent's balance for this session */
+  charged: number;
+  outcome: 'full' | 'degraded' | 'deferred';
+}
+
+export interface StoredLlmUsage extends LlmUsageRecord {
+  id: string;
+  created_at: string;
+}
+
+export interface LlmUsageQuery {
+  agentId?: string;
+  roundNumber?: number;
+  /** ISO timestamp; records created at or after it */
+  since?: string;
+}
+
+export interface LlmUsageRepository {
+  insert(record: LlmUsageRecord): Promise<RepoResult<null>>;
+  /** Records matching every given filter */
+  list(query: LlmUsageQuery): Promise<RepoResult<StoredLlmUsage[]>>;
+}
+
+// =============================================================================
+// LEDGER
+// =============================================================================
+
+/** Why money moved (see lib/services/ledger/LedgerService.ts) */
+export type LedgerEntryType =
+  | 'opening_balance'   // starting balance: given at creation, or carried over when the ledger was introduced
+  | 'top_up'            // funds added to an agent from outside the economy
+  | 'revenue'           // operator paid the agent for a task
+  | 'partner_payout'    // joint bid lead paid its partner's split
+  | 'operational_cost'  // task execution cost paid to the cost sink
+  | 'platform_cut'      // platform share of net profit
+  | 'investor_escrow'   // investor share of profit moved to escrow
+  | 'bid_fee'           // bid / offer submission fee
+  | 'living_cost'       // per-round infrastructure cost
+  | 'brain_spend'       // metered LLM spend (brain wake-ups, QBRs)
+  | 'failure_fee'       // missed delivery deadline penalty
+  | 'bond_lock'         // balance -> bonded balance
+  | 'bond_release'      // bonded balance -> balance
+  | 'bond_forfeit'      // bonded balance -> cost sink
+  | 'chain_sync'        // on-chain wallet balance differed from the DB
+  | 'adjustment';       // manual correction (admin reset)
+
+/**
+ * One money movement: `amount` leaves credit_account and lands in
+ * debit_account. Amounts are always positive.
+ */
+export interface LedgerEntryInput {
+  entry_type: LedgerEntryType;
+  debit_account: string;
+  credit_account: string;
+  amount: number;
+  round_number?: number | null;
+  task_id?: string | null;
+  bid_id?: string | null;
+  tx_hash?: string | null;
+  /** An entry with a key already in the ledger is skipped (retries) */
+  idempotency_key?: string | null;
+  metadata?: Record<string, unknown>;
+  /**
+   * When credit_account is an agent account, checked against its balance
+   * at post time: 'clamp' takes at most the balance, 'require' skips the
+   * entry when the balance can't cover it. Not stored.
+   */
+  limit?: 'clamp' | 'require';
+}
+
+export interface LedgerEntry extends Required<Omit<LedgerEntryInput, 'limit'>> {
+  id: string;
+  created_at: string;
+}
+
+export interface LedgerPostResult {
+  /** Entries written (duplicates and uncovered 'require' entries are not) */
+  posted: LedgerEntry[];
+  /** Balances after the post of every agent the batch touched */
+  balances: Record<string, { balance: number; bonded_balance: number }>;
+}
+
+export interface LedgerQuery {
+  /** Entries debiting or crediting this account */
+  account?: string;
+  /** Entries touching any of the agent's accounts */
+  agentId?: string;
+  entryType?: LedgerEntryType;
+  roundNumber?: number;
+  /** Newest first; default 100 */
+  limit?: number;
+}
+
+export interface LedgerRepository {
+  /**
+   * Append entries and apply them to the agents' balance / bonded_balance
+   * in one atomic step. Entries are never updated or deleted.
+   */
+  post(entries: LedgerEntryInput[]): Promise<RepoResult<LedgerPostResult>>;
+  /** The given idempotency keys that are already in the ledger */
+  existingKeys(keys: string[]): Promise<RepoResult<string[]>>;
+  list(query: LedgerQuery): Promise<RepoResult<LedgerEntry[]>>;
+  /** Net balance (debits - credits) of every account with entries */
+  accountBalances(): Promise<RepoResult<Record<string, number>>>;
+}
+
+// =============================================================================
+// OUTBOX
+// =============================================================================
+
+/** Side effects the outbox delivers (see lib/services/outbox/OutboxService.ts) */
+export type OutboxKind =
+  | 'event'            // economy_events row
+  | 'memory'           // agent personal memory
+  | 'usdc_transfer'    // on-chain payment from an agent wallet
+  | 'investor_escrow'; // investor claimable escrow increment
+
+export type OutboxStatus = 'pending' | 'processing' | 'done' | 'dead';
+
+export interface NewOutboxMessage {
+  kind: OutboxKind;
+  payload: Record<string, unknown>;
+  /** A message whose key is already queued is skipped */
+  dedupe_key?: string | null;
+  max_attempts?: number;
+  /** ISO timestamp of the first attempt (default: now) */
+  next_attempt_at?: string;
+}
+
+export interface OutboxMessage extends Required<NewOutboxMessage> {
+  id: string;
+  status: OutboxStatus;
+  attempts: number;
+  /** Lease of a processing message; an expired lease makes it claimable again */
+  locked_until: string | null;
+  last_error: string | null;
+  result: Record<string, unknown> | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+export interface OutboxQuery {
+  status?: OutboxStatus[];
+  kind?: OutboxKind;
+  /** Oldest first; default 100 */
+  limit?: number;
+}
+
+export interface OutboxRepository {
+  /** Queue messages; returns the ones inserted (known dedupe keys are skipped) */
+  enqueue(messages: NewOutboxMessage[]): Promise<RepoResult<OutboxMessage[]>>;
+  /**
+   * Lease due messages (or exactly these pending ids) for leaseMs and count
+   * an attempt. A message is only ever leased to one caller at a time.
+   */
+  claim(limit: number, leaseMs: number, ids?: string[]): Promise<RepoResult<OutboxMessage[]>>;
+  complete(id: string, result?: Record<string, unknown> | null): Promise<RepoResult<null>>;
+  /** Save progress on a leased message (e.g. a broadcast tx hash) that survives a retry */
+  recordResult(id: string, result: Record<string, unknown>): Promise<RepoResult<null>>;
+  /** Back to pending until retryAt, or dead when retryAt is null */
+  fail(id: string, error: string, retryAt: string | null): Promise<RepoResult<null>>;
+  /** Dead messages back to pending with their attempts reset; returns how many */
+  revive(ids: string[]): Promise<RepoResult<number>>;
+  list(query: OutboxQuery): Promise<RepoResult<OutboxMessage[]>>;
+  counts(): Promise<RepoResult<Record<OutboxStatus, number>>>;
+}
+
+// =============================================================================
+// AGGREGATE
+// =============================================================================
+
+export interface Repositories {
+  agents: AgentRepository;
+  policies: PolicyRepository;
+  tasks: TaskRepository;
+  bids: BidRepository;
+  deliverables: DeliverableRepository;
+  intents: IntentRepository;
+  offers: OfferRepository;
+  partnerships: PartnershipRepository;
+  events: EventRepository;
+  escrow: EscrowRepository;
+  reputation: ReputationRepository;
+  memories: MemoryRepository;
+  runtimeState: RuntimeStateRepository;
+  exceptions: ExceptionRepository;
+  llmUsage: LlmUsageRepository;
+  ledger: LedgerRepository;
+  outbox: OutboxRepository;
+}
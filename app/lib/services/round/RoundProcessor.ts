@@ -4,28 +4,398 @@
  * Both simulation and runtime call this same function.
  * The only differences are controlled by config flags:
  * - useBlockchain: real USDC transfers vs DB-only
- * - useLLM: real Gemini brain vs defaults/skip
+ * - useLLM: LLM brain + task deliverables (configured provider) vs defaults/offline stub
+ *
+ * Storage comes from the injected services (see createServices), so the
+ * same pipeline runs against Supabase or in-memory repositories.
+ * Without config.payingFetch, tasks are delivered in-process (DB-only).
+ * Assigned tasks not delivered by their delivery_deadline are failed
+ * (winner penalized) and reassigned to the runner-up bid.
+ * Open consumer intents get offers from SELLER/CURATION agents and close
+ * in the same round.
+ * Composite tasks are bid on jointly by ACTIVE partnerships; the payout is
+ * split between the partners at settlement.
  */
 
-import { agentService } from '../agent/AgentService';
-import { auctionService } from '../auction/AuctionService';
-import { biddingService } from '../bidding/BiddingService';
-import { economyService } from '../economy/EconomyService';
-import { brainService } from '../brain/BrainService';
-import { memoryService } from '../memory/MemoryService';
-import { taskService } from '../task/TaskService';
-import { recordBidResult, loadRuntimeState, saveRuntimeState, initializeRuntimeState } from '@/lib/agent-runtime/state';
-import { createEvent, logSystemError } from '@/lib/api-helpers';
+import { agentService, type AgentService } from '../agent/AgentService';
+import { auctionService, type AuctionService } from '../auction/AuctionService';
+import { biddingService, type BiddingService } from '../bidding/BiddingService';
+import { economyService, type EconomyService } from '../economy/EconomyService';
+import { brainService, type BrainService } from '../brain/BrainService';
+import { memoryService, type MemoryService } from '../memory/MemoryService';
+import { taskService, type TaskService } from '../task/TaskService';
+import { intentService, type IntentService } from '../intent/IntentService';
+import { runtimeStateService, type RuntimeStateService } from '../runtime/RuntimeStateService';
+import { taskExecutionService, type TaskExecutionService } from '../execution/TaskExecutionService';
+import { outboxService, type OutboxService } from '../outbox/OutboxService';
+import { defaultRepositories, type Repositories } from '../repositories';
 import { AGENT_COSTS } from '@/lib/agent-runtime/constants';
-import { supabase } from '@/lib/supabase';
 import type { AgentCostStructure } from '@/lib/agent-runtime/types';
-import type { AgentWithPolicy, Task, RoundConfig, RoundProcessorResult } from '../types';
+import type {
+  AgentWithPolicy,
+  Bid,
+  Task,
+  RoundConfig,
+  RoundProcessorResult,
+  TaskFailureRecord,
+} from '../types';
+import { resolveMechanismConfig } from '../auction/mechanisms';
+import { isPartner, partnerSide } from '../bidding/joint-bids';
+import type { PartnershipCache } from '@/types/database';
 import { buildBiddingDiagnostics, enrichWithAuctionResults, logDiagnostics } from './round-diagnostics';
 import type { RoundDiagnostics } from './round-diagnostics';
 import { executeBuyback } from '@/lib/platform-buyback';
 import { PLATFORM_TOKEN_ADDRESS, BUYBACK_MIN_MON } from '@/lib/platform-config';
 
+/**
+ * Per-agent work queue: calls for the same agent run one after another,
+ * calls for different agents run concurrently. Work on several agents
+ * (a joint bid touches both partners' balances) waits for all of them.
+ */
+function createAgentQueue() {
+  const tails = new Map<string, Promise<unknown>>();
+  return <T>(agentIds: string | string[], work: () => Promise<T>): Promise<T> => {
+    const ids = Array.isArray(agentIds) ? agentIds : [agentIds];
+    const previous = Promise.all(ids.map(id => tails.get(id) || Promise.resolve()));
+    const next = previous.then(work, work);
+    for (const id of ids) tails.set(id, next.catch(() => {}));
+    return next;
+  };
+}
+
+type AgentQueue = ReturnType<typeof createAgentQueue>;
+
+/**
+ * Agents whose balances a bid's settlement touches: the bidder, plus its
+ * partner for a joint bid
+ */
+function settlementAgents(bid: Bid, partnerships: PartnershipCache[], agents: AgentWithPolicy[]): string[] {
+  const partnership = bid.partnership_id ? partnerships.find(p => p.id === bid.partnership_id) : undefined;
+  const side = partnership ? partnerSide(partnership, { id: bid.agent_id, wallet_address: bid.bidder_wallet }) : null;
+  if (!side) return [bid.agent_id];
+  const partnerId = side.partnerId ?? agents.find(a => isPartner(side, a))?.id;
+  return partnerId ? [bid.agent_id, partnerId] : [bid.agent_id];
+}
+
+/**
+ * Services the round pipeline runs on. Defaults are the Supabase-backed singletons.
+ */
+export interface RoundServices {
+  repos: Repositories;
+  agentService: AgentService;
+  auctionService: AuctionService;
+  biddingService: BiddingService;
+  economyService: EconomyService;
+  brainService: BrainService;
+  memoryService: MemoryService;
+  taskService: TaskService;
+  intentService: IntentService;
+  runtimeStateService: RuntimeStateService;
+  taskExecutionService: TaskExecutionService;
+  outboxService: OutboxService;
+}
+
+/** One winning bid to deliver (primary winner completes the task) */
+interface DeliveryRequest {
+  task: Task;
+  bid: Bid;
+  agent: AgentWithPolicy;
+  clearingPrice: number;
+  primary: boolean;
+  useLLM: boolean;
+}
+
+/** Fields the pipeline reads from a delivery (task-delivery route response) */
+interface DeliveryData {
+  bidAmount?: number;
+  netProfit?: number;
+  platformCut?: number;
+  operationalCost?: number;
+  x402TxHash?: string;
+  costTxHash?: string;
+  deliverableId?: string | null;
+  qualityScore?: number;
+}
+
+type DeliveryOutcome =
+  | { ok: true; data: DeliveryData }
+  | { ok: false; status: number; error: string };
+
+type TaskDelivery = (request: DeliveryRequest) => Promise<DeliveryOutcome>;
+
+/**
+ * Deliver through the x402 task-delivery endpoint (production path)
+ */
+function createX402Delivery(payFetch: typeof fetch, apiBase: string): TaskDelivery {
+  return async ({ task, bid, primary, useLLM }) => {
+    const query = primary ? '' : `?bidId=${bid.id}`;
+    const res = await payFetch(`${apiBase}/api/task-delivery/${task.id}${query}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ useLLM }),
+    });
+    if (!res.ok) {
+      const errorText = await res.text().catch(() => 'unknown');
+      return { ok: false, status: res.status, error: errorText };
+    }
+    return { ok: true, data: await res.json() };
+  };
+}
+
 export class RoundProcessor {
+  constructor(
+    private readonly services: RoundServices = {
+      repos: defaultRepositories,
+      agentService,
+      auctionService,
+      biddingService,
+      economyService,
+      brainService,
+      memoryService,
+      taskService,
+      intentService,
+      runtimeStateService,
+      taskExecutionService,
+      outboxService,
+    }
+  ) {}
+
+  /**
+   * Deliver in-process (no HTTP, no x402): same settlement as the
+   * task-delivery route with useBlockchain=false.
+   */
+  private createInProcessDelivery(): TaskDelivery {
+    const { economyService, taskService, taskExecutionService } = this.services;
+    return async ({ task, bid, agent, clearingPrice, primary, useLLM }) => {
+      const execution = await taskExecutionService.execute(task, bid, agent, { useLLM });
+
+      // Copy the agent: the route works on a fresh DB row, not the round's agent objects
+      const economic = await economyService.processTaskCompletion(
+        task,
+        { ...bid, amount: clearingPrice },
+        { ...agent },
+        {
+          useBlockchain: false,
+          qualityScore: execution.grade.score,
+          revisions: execution.revisions,
+        }
+      );
+      if (primary) {
+        await taskService.completeTask(task.id);
+      }
+      return {
+        ok: true,
+        data: {
+          bidAmount: clearingPrice,
+          netProfit: economic.profit,
+          platformCut: economic.blockchainPayment?.platformCut ?? 0,
+          operationalCost: economic.cost,
+          deliverableId: execution.deliverableId,
+          qualityScore: execution.grade.score,
+        },
+      };
+    };
+  }
+
+  /**
+   * Split the round's tasks for a (re-)run: those still OPEN go through the
+   * auction; those an earlier attempt closed are left alone (its charges are
+   * idempotent, see LedgerService), except ASSIGNED ones it crashed before
+   * delivering, which are returned to be delivered again.
+   */
+  private async stillOpen(tasks: Task[]): Promise<{ open: Task[]; undelivered: Task[] }> {
+    const { taskService } = this.services;
+    const open: Task[] = [];
+    const undelivered: Task[] = [];
+    for (const task of tasks) {
+      const current = await taskService.getTaskById(task.id);
+      if (current && current.status === 'ASSIGNED') {
+        console.log(`[RoundProcessor] Task ${task.id} already ASSIGNED (earlier attempt); resuming delivery`);
+        undelivered.push(current);
+        continue;
+      }
+      if (current && current.status !== 'OPEN') {
+        console.log(`[RoundProcessor] Task ${task.id} already ${current.status} (earlier attempt); skipping`);
+        continue;
+      }
+      open.push(task);
+    }
+    return { open, undelivered };
+  }
+
+  /**
+   * Deliver the winning bids of tasks an earlier attempt at this round
+   * assigned but never delivered (co-winners first, like a fresh auction).
+   * Bids that already have a deliverable are not delivered twice. Returns
+   * the revenue of each completed task.
+   */
+  private async resumeDeliveries(
+    tasks: Task[],
+    agents: AgentWithPolicy[],
+    deliver: TaskDelivery,
+    runForAgent: AgentQueue,
+    partnerships: PartnershipCache[],
+    useLLM: boolean
+  ): Promise<number[]> {
+    const { repos, agentService } = this.services;
+    const completed: number[] = [];
+
+    for (const task of tasks) {
+      const [{ data: bids }, { data: deliverables }] = await Promise.all([
+        repos.bids.listForTask(task.id),
+        repos.deliverables.listForTask(task.id),
+      ]);
+      const delivered = new Set((deliverables || []).map(d => d.bid_id));
+      const pending = (bids || [])
+        .filter(b => String(b.status) === 'WON' && !delivered.has(b.id))
+        .sort((a, b) => Number(a.id === task.winning_bid_id) - Number(b.id === task.winning_bid_id));
+
+      for (const bid of pending) {
+        const agent = agents.find(a => a.id === bid.agent_id) ?? await agentService.getAgentById(bid.agent_id);
+        if (!agent) continue;
+        const primary = bid.id === task.winning_bid_id;
+        const clearingPrice = bid.clearing_price ?? bid.amount;
+        try {
+          const res = await runForAgent(settlementAgents(bid, partnerships, agents), () => deliver({
+            task, bid, agent, clearingPrice, primary, useLLM,
+          }));
+          if (!res.ok) {
+            // Left ASSIGNED: the deadline sweep fails it if it never lands
+            console.warn(`[RoundProcessor] Resumed delivery failed for ${task.id} (${res.status}): ${res.error.slice(0, 200)}`);
+          } else if (primary) {
+            completed.push(res.data.bidAmount || clearingPrice);
+          }
+        } catch (err) {
+          console.error(`[RoundProcessor] Resumed delivery error for ${task.id}:`, err);
+        }
+      }
+    }
+
+    return completed;
+  }
+
+  /**
+   * Fail ASSIGNED tasks past their delivery deadline: penalize the winner,
+   * then hand the task to the runner-up bid and deliver it now, or mark it
+   * FAILED when no runner-up is left. Co-winners past the deadline get
+   * their bond back if they delivered and forfeit it if they didn't.
+   */
+  private async sweepMissedDeliveries(
+    agents: AgentWithPolicy[],
+    deliver: TaskDelivery,
+    runForAgent: AgentQueue,
+    partnerships: PartnershipCache[],
+    config: RoundConfig
+  ): Promise<Array<TaskFailureRecord & { revenue: number }>> {
+    const { repos, agentService, auctionService, economyService, taskService } = this.services;
+    const { useBlockchain, useLLM, roundNumber } = config;
+    const failures: Array<TaskFailureRecord & { revenue: number }> = [];
+
+    const overdue = await taskService.getOverdueTasks();
+    for (const task of overdue) {
+      const { data: bids } = await repos.bids.listForTask(task.id);
+      const failedBid = bids?.find(b => b.id === task.winning_bid_id);
+      const agent = agents.find(a => a.id === task.assigned_agent_id)
+        ?? (task.assigned_agent_id ? await agentService.getAgentById(task.assigned_agent_id) : null);
+
+      if (!failedBid || !agent) {
+        await taskService.failTask(task.id, 'Delivery deadline missed; winning bid or agent not found');
+        continue;
+      }
+
+      console.warn(`[RoundProcessor] ${agent.name} missed the delivery deadline for ${task.type} task ${task.id}`);
+      const penalty = await economyService.processTaskFailure(task, failedBid, agent, { useBlockchain, roundNumber });
+      const runnerUp = await auctionService.reassignToRunnerUp(
+        task, failedBid, agents.filter(a => a.id !== agent.id), resolveMechanismConfig(task.type, config.auction)
+      );
+
+      const failure = { taskId: task.id, agentId: agent.id, penalty: penalty.penalty, reassignedTo: null as string | null, revenue: 0 };
+      failures.push(failure);
+
+      if (!runnerUp) {
+        await taskService.failTask(task.id, `Delivery deadline missed by ${agent.name}; no runner-up bid`);
+        continue;
+      }
+
+      failure.reassignedTo = runnerUp.agent.id;
+      console.log(`[RoundProcessor] ${task.type} task ${task.id} reassigned to runner-up ${runnerUp.agent.name}`);
+      try {
+        const res = await runForAgent(settlementAgents(runnerUp.bid, partnerships, agents), () => deliver({
+          task: { ...task, assigned_agent_id: runnerUp.agent.id, winning_bid_id: runnerUp.bid.id },
+          bid: runnerUp.bid, agent: runnerUp.agent, clearingPrice: runnerUp.clearingPrice,
+          primary: true, useLLM,
+        }));
+        if (res.ok) {
+          failure.revenue = res.data.bidAmount || runnerUp.clearingPrice;
+        } else {
+          console.warn(`[RoundProcessor] Runner-up delivery failed for ${task.id} (${res.status}): ${res.error.slice(0, 200)}`);
+        }
+      } catch (err) {
+        // Task stays ASSIGNED to the runner-up until its own deadline
+        console.error(`[RoundProcessor] Runner-up delivery error for ${task.id}:`, err);
+      }
+    }
+
+    // Co-winners (sealed_multi) never show up as overdue: the primary's
+    // settlement completes the task. Past the deadline, one that delivered
+    // gets back a bond its settlement didn't release; one that didn't
+    // forfeits it, like a missed primary delivery.
+    const { data: lockedWinners } = await repos.bids.listWonWithLockedBond();
+    for (const bid of lockedWinners || []) {
+      const { data: task } = await repos.tasks.findById(bid.task_id);
+      if (!task || task.winning_bid_id === bid.id) continue;
+      if (!task.delivery_deadline || new Date(task.delivery_deadline).getTime() >= Date.now()) continue;
+
+      const { data: deliverables } = await repos.deliverables.listForTask(task.id);
+      if (deliverables?.some(d => d.bid_id === bid.id)) {
+        await economyService.releaseBidBond(bid.id);
+        continue;
+      }
+
+      const agent = agents.find(a => a.id === bid.agent_id) ?? await agentService.getAgentById(bid.agent_id);
+      if (!agent) continue;
+      await repos.bids.update(bid.id, { status: 'FAILED' });
+      const { amount } = await economyService.forfeitBidBond(bid.id, agent, { useBlockchain, roundNumber });
+      console.warn(`[RoundProcessor] Co-winner ${agent.name} missed the delivery deadline for ${task.type} task ${task.id}; forfeited $${amount.toFixed(4)} bond`);
+    }
+
+    return failures;
+  }
+
+  /**
+   * Consumer intents: agents make offers on open intents, then each intent
+   * auction with offers closes (MATCHED). Intents past expires_at with no
+   * offers are EXPIRED; the rest stay open for the next round.
+   */
+  private async processIntents(
+    agents: AgentWithPolicy[],
+    agentCostsMap: Map<string, AgentCostStructure>,
+    roundNumber: number
+  ): Promise<{ offers: number; matched: number }> {
+    const { intentService } = this.services;
+
+    const intents = await intentService.getOpenIntents();
+    if (intents.length === 0) return { offers: 0, matched: 0 };
+
+    const offerInputs = intentService.generateOffersForRound(intents, agents);
+    for (const offer of offerInputs) { offer.roundNumber = roundNumber; }
+    const submitted = await intentService.submitOffers(offerInputs, agentCostsMap);
+
+    let matched = 0;
+    for (const intent of intents) {
+      const auction = await intentService.closeIntentAuction(intent, agents);
+      if (auction) {
+        matched++;
+        console.log(`[RoundProcessor] Intent ${intent.id} matched to ${auction.agent.name} at $${Number(auction.winningOffer.price).toFixed(4)}`);
+      } else if (intent.expires_at && new Date(intent.expires_at).getTime() < Date.now()) {
+        await intentService.expireIntent(intent.id);
+      }
+    }
+
+    console.log(`[RoundProcessor] Intents: ${intents.length} open, ${submitted.length} offers, ${matched} matched`);
+    return { offers: submitted.length, matched };
+  }
+
   /**
    * Process a single round for the given tasks and agents.
    *
@@ -33,26 +403,42 @@ export class RoundProcessor {
    * 1. Lifecycle checks
    * 2. Bidding (with bid cost)
    * 3. Auction closure + Task execution
+   * 3b. Missed deliveries (fail, penalize, reassign to runner-up)
+   * 3c. Consumer intents (offers + intent auction closure)
    * 4. Runtime state tracking (win/loss for exception detection)
    * 5. Living costs
    * 6. Exception detection + Brain wake-ups
    * 7. QBR (if due and useLLM)
    * 8. Memory creation (integrated in steps above, fire-and-forget)
+   *    + periodic memory consolidation (fire-and-forget)
    * 9. Capture final agent states
+   *
+   * Safe to re-run for the same round number: tasks closed by an earlier
+   * attempt are skipped (undelivered ASSIGNED ones are delivered), and fees,
+   * settlements and living costs are keyed ledger entries that post once.
    */
   async processRound(
-    tasks: Task[],
+    roundTasks: Task[],
     agents: AgentWithPolicy[],
     config: RoundConfig
   ): Promise<RoundProcessorResult> {
     const { useBlockchain, useLLM, roundNumber, livingCostPerRound } = config;
+    const {
+      repos, agentService, auctionService, biddingService, economyService,
+      brainService, memoryService, taskService, runtimeStateService, outboxService,
+    } = this.services;
+    const { open: tasks, undelivered } = await this.stillOpen(roundTasks);
     const result: RoundProcessorResult = {
       round: roundNumber,
       tasksProcessed: tasks.length,
       bidsPlaced: 0,
+      jointBids: 0,
       auctionsClosed: 0,
       tasksCompleted: 0,
       tasksExpired: 0,
+      taskFailures: [],
+      intentOffers: 0,
+      intentsMatched: 0,
       totalRevenue: 0,
       livingCostsDeducted: 0,
       exceptionsDetected: 0,
@@ -67,16 +453,7 @@ export class RoundProcessor {
     // ---------------------------------------------------------------
     // Step 0: Stamp tasks with round_number (persists which round each task belongs to)
     // ---------------------------------------------------------------
-    const taskIds = tasks.map(t => t.id);
-    if (taskIds.length > 0) {
-      const { error: stampError } = await supabase
-        .from('tasks')
-        .update({ round_number: roundNumber })
-        .in('id', taskIds);
-      if (stampError) {
-        console.error(`[RoundProcessor] Failed to stamp round_number:`, stampError);
-      }
-    }
+    await taskService.stampRoundNumber(tasks.map(t => t.id), roundNumber);
 
     // ---------------------------------------------------------------
     // Step 1: Lifecycle checks - remove DEAD agents from processing
@@ -101,8 +478,14 @@ export class RoundProcessor {
 
     // ---------------------------------------------------------------
     // Step 2: Bidding - generate bids with cost deduction
+    // (composite tasks: ACTIVE partnerships bid jointly)
     // ---------------------------------------------------------------
-    const { bids, skipped } = biddingService.generateBidsForRound(tasks, activeAgents);
+    const { data: partnershipRows, error: partnershipError } = await repos.partnerships.listActive();
+    if (partnershipError) {
+      console.error('[RoundProcessor] Failed to load partnerships:', partnershipError);
+    }
+    const partnerships = partnershipRows || [];
+    const { bids, skipped, capacities } = biddingService.generateBidsForRound(tasks, activeAgents, partnerships);
     // Stamp round_number on each bid for consistent round-based queries
     for (const bid of bids) { bid.roundNumber = roundNumber; }
     console.log(`[RoundProcessor] Generated ${bids.length} bids (${skipped.length} skipped)`);
@@ -114,15 +497,19 @@ export class RoundProcessor {
     }
 
     // Submit bids (with bid cost deduction inside AuctionService)
-    const submittedBids = await auctionService.submitBatchBids(bids, agentCostsMap);
+    // (bids whose bond the agent's balance can't cover are dropped)
+    const submittedBids = await auctionService.submitBatchBids(bids, agentCostsMap, config.bidBondBps);
     result.bidsPlaced = submittedBids.length;
+    result.jointBids = submittedBids.filter(b => b.partnership_id).length;
+    const submittedKeys = new Set(submittedBids.map(b => `${b.agent_id}:${b.task_id}`));
 
-    // Fire-and-forget: Create bid_placed events (bid memories created in step 4b after outcome known)
+    // Fire-and-forget: Queue bid_placed events (bid memories created in step 4b after outcome known)
     for (const bid of bids) {
+      if (!submittedKeys.has(`${bid.agentId}:${bid.taskId}`)) continue;
       const agent = activeAgents.find(a => a.id === bid.agentId);
       if (agent) {
         const task = tasks.find(t => t.id === bid.taskId);
-        createEvent({
+        outboxService.dispatch('event', {
           event_type: 'bid_placed',
           description: `${agent.name} bid $${bid.amount.toFixed(4)} on ${task?.type || 'UNKNOWN'}`,
           agent_wallets: [agent.wallet_address],
@@ -133,8 +520,9 @@ export class RoundProcessor {
             task_type: task?.type || 'UNKNOWN',
             agent_name: agent.name,
             margin: bid.policyUsed?.margin,
+            ...(bid.partnershipId ? { partnership_id: bid.partnershipId } : {}),
           },
-        }).catch(() => {});
+        });
       }
     }
 
@@ -143,29 +531,43 @@ export class RoundProcessor {
     // ---------------------------------------------------------------
     let diagnostics: RoundDiagnostics | null = null;
     try {
-      diagnostics = buildBiddingDiagnostics(roundNumber, activeAgents, bids, tasks);
+      diagnostics = buildBiddingDiagnostics(roundNumber, activeAgents, bids, tasks, skipped, capacities);
     } catch (err) {
       console.error(`[RoundProcessor] Diagnostics build error:`, err);
     }
 
     // ---------------------------------------------------------------
     // Step 3: Auction closure + Task delivery (via x402 endpoint)
-    // All tasks processed in parallel — each agent bids on at most
-    // one task per round, so auctions are fully independent.
+    // Auctions close in parallel. Agents can win several tasks per round,
+    // so deliveries are serialized per agent (a settlement reads the agent
+    // before posting to it) while different agents still run in parallel.
     // ---------------------------------------------------------------
-    // Track winners: taskId -> { agentId, revenue }
-    const taskWinners = new Map<string, { agentId: string; revenue: number }>();
+    // Track winners: taskId -> (agentId -> revenue). Multi-winner auctions add several.
+    const taskWinners = new Map<string, Map<string, number>>();
     // Track full auction results for bid memory updates
-    const auctionResults: Array<{ task: Task; winningBid: { id: string; amount: number; agent_id: string }; winnerName: string; losingBids: Array<{ agent_id: string; amount: number }> }> = [];
+    const auctionResults: Array<{ task: Task; winningBid: { id: string; amount: number; agent_id: string }; winnerName: string; coWinningBids: Array<{ agent_id: string; amount: number }>; losingBids: Array<{ agent_id: string; amount: number }> }> = [];
     const apiBase = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:4000';
 
-    if (!config.payingFetch) {
-      throw new Error('payingFetch is required — use createServerPayingFetch() from agent-client.ts');
+    if (!config.payingFetch && useBlockchain) {
+      throw new Error('payingFetch is required when useBlockchain=true — use createServerPayingFetch() from agent-client.ts');
     }
-    const payFetch = config.payingFetch;
-
-    const taskResults = await Promise.allSettled(tasks.map(async (task) => {
-      const auctionResult = await auctionService.closeAuction(task, activeAgents);
+    const deliver = config.payingFetch
+      ? createX402Delivery(config.payingFetch, apiBase)
+      : this.createInProcessDelivery();
+    const runForAgent = createAgentQueue();
+    // Seeded runs: fork one rng per task up front (in task order) so the
+    // draws don't depend on which auction's async work finishes first
+    const taskRngs = tasks.map(() => config.rng?.fork());
+
+    const taskResults = await Promise.allSettled(tasks.map(async (task, taskIndex) => {
+      const mechanismConfig = resolveMechanismConfig(task.type, config.auction);
+      const taskRng = taskRngs[taskIndex];
+      const auctionResult = await auctionService.closeAuction(task, activeAgents, mechanismConfig, taskRng);
+
+      // Bid bonds go back to losing (or unmatched) bidders, queued per agent
+      // so the release can't interleave with that agent's deliveries
+      const releasedBids = auctionResult ? auctionResult.losingBids : await auctionService.getBidsForTask(task.id);
+      await Promise.all(releasedBids.map(b => runForAgent(b.agent_id, () => economyService.releaseBidBond(b.id))));
 
       if (!auctionResult) {
         await taskService.expireTask(task.id);
@@ -176,24 +578,44 @@ export class RoundProcessor {
         task,
         winningBid: { id: auctionResult.winningBid.id, amount: auctionResult.winningBid.amount, agent_id: auctionResult.winningBid.agent_id },
         winnerName: auctionResult.agent.name,
+        coWinningBids: auctionResult.additionalWinners.map(w => ({ agent_id: w.bid.agent_id, amount: w.bid.amount })),
         losingBids: (auctionResult.losingBids || []).map(b => ({ agent_id: b.agent_id, amount: b.amount })),
       };
 
+      // Co-winners (sealed_multi) deliver first: the primary delivery completes the task
+      const coWinners: Array<{ agentId: string; revenue: number }> = [];
+      for (const extra of auctionResult.additionalWinners) {
+        try {
+          const extraRes = await runForAgent(settlementAgents(extra.bid, partnerships, activeAgents), () => deliver({
+            task, bid: extra.bid, agent: extra.agent, clearingPrice: extra.clearingPrice,
+            primary: false, useLLM,
+          }));
+          if (extraRes.ok) {
+            coWinners.push({ agentId: extra.agent.id, revenue: extraRes.data.bidAmount || extra.clearingPrice });
+          } else {
+            console.warn(`[RoundProcessor] Co-winner delivery failed for ${task.id} (${extra.agent.name}): HTTP ${extraRes.status}`);
+          }
+        } catch (err) {
+          console.error(`[RoundProcessor] Co-winner delivery error for ${task.id} (${extra.agent.name}):`, err);
+        }
+      }
+
       try {
-        const deliveryRes = await payFetch(`${apiBase}/api/task-delivery/${task.id}`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-        });
+        const deliveryRes = await runForAgent(settlementAgents(auctionResult.winningBid, partnerships, activeAgents), () => deliver({
+          task, bid: auctionResult.winningBid, agent: auctionResult.agent, clearingPrice: auctionResult.clearingPrice,
+          primary: true, useLLM,
+        }));
 
         if (deliveryRes.ok) {
-          const deliveryData = await deliveryRes.json();
+          const deliveryData = deliveryRes.data;
           const revenue = deliveryData.bidAmount || auctionResult.revenue;
           const profit = deliveryData.netProfit || 0;
           const platformCut = deliveryData.platformCut || 0;
 
           const x402Tx = deliveryData.x402TxHash ? ` [x402: ${deliveryData.x402TxHash.slice(0, 10)}...]` : '';
           const costTx = deliveryData.costTxHash ? ` [cost: ${deliveryData.costTxHash.slice(0, 10)}...]` : '';
-          console.log(`[RoundProcessor] ${auctionResult.agent.name} completed ${task.type}: bid=$${revenue.toFixed(4)}, profit=$${profit.toFixed(4)}${x402Tx}${costTx}`);
+          const quality = deliveryData.qualityScore !== undefined ? `, quality=${deliveryData.qualityScore.toFixed(2)}` : '';
+          console.log(`[RoundProcessor] ${auctionResult.agent.name} completed ${task.type}: bid=$${revenue.toFixed(4)}, profit=$${profit.toFixed(4)}${quality}${x402Tx}${costTx}`);
 
           // Fire-and-forget: Create task execution memory
           memoryService.createTaskExecutionMemory(
@@ -201,11 +623,11 @@ export class RoundProcessor {
             revenue, deliveryData.operationalCost || 0, roundNumber, auctionResult.agent
           ).catch(err => console.error(`[RoundProcessor] Task memory error:`, err));
 
-          return { task, status: 'completed' as const, auctionData, agentId: auctionResult.agent.id, revenue, platformCut };
+          return { task, status: 'completed' as const, auctionData, agentId: auctionResult.agent.id, revenue, platformCut, coWinners };
         } else {
-          const errorText = await deliveryRes.text().catch(() => 'unknown');
+          const errorText = deliveryRes.error;
           console.warn(`[RoundProcessor] Task delivery failed for ${task.id} (${deliveryRes.status}): ${errorText.slice(0, 200)}`);
-          await logSystemError('payment', new Error(`HTTP ${deliveryRes.status}: ${errorText.slice(0, 200)}`), {
+          await repos.events.logError('payment', new Error(`HTTP ${deliveryRes.status}: ${errorText.slice(0, 200)}`), {
             round_number: roundNumber,
             agent_name: auctionResult.agent.name,
             agent_id: auctionResult.agent.id,
@@ -215,7 +637,7 @@ export class RoundProcessor {
         }
       } catch (err) {
         console.error(`[RoundProcessor] Task delivery error for ${task.id}:`, err);
-        await logSystemError('payment', err, {
+        await repos.events.logError('payment', err, {
           round_number: roundNumber,
           agent_name: auctionResult.agent.name,
           agent_id: auctionResult.agent.id,
@@ -230,7 +652,7 @@ export class RoundProcessor {
     for (const settled of taskResults) {
       if (settled.status === 'rejected') {
         console.error(`[RoundProcessor] Task processing error:`, settled.reason);
-        await logSystemError('blockchain', settled.reason, {
+        await repos.events.logError('blockchain', settled.reason, {
           round_number: roundNumber,
           detail: 'Task processing promise rejected',
         });
@@ -245,7 +667,12 @@ export class RoundProcessor {
         result.tasksCompleted++;
         result.totalRevenue += tr.revenue;
         totalPlatformCut += tr.platformCut || 0;
-        taskWinners.set(tr.task.id, { agentId: tr.agentId, revenue: tr.revenue });
+        const winners = new Map<string, number>([[tr.agentId, tr.revenue]]);
+        for (const co of tr.coWinners) {
+          winners.set(co.agentId, co.revenue);
+          result.totalRevenue += co.revenue;
+        }
+        taskWinners.set(tr.task.id, winners);
         auctionResults.push(tr.auctionData);
       } else {
         // failed delivery
@@ -255,6 +682,38 @@ export class RoundProcessor {
       }
     }
 
+    // Tasks a crashed earlier attempt assigned but never delivered
+    if (undelivered.length > 0) {
+      const resumed = await this.resumeDeliveries(undelivered, activeAgents, deliver, runForAgent, partnerships, useLLM);
+      result.tasksCompleted += resumed.length;
+      result.totalRevenue += resumed.reduce((sum, revenue) => sum + revenue, 0);
+    }
+
+    // ---------------------------------------------------------------
+    // Step 3b: Missed deliveries (this round's failed deliveries stay
+    // ASSIGNED until their deadline, then land here in a later round)
+    // ---------------------------------------------------------------
+    const missed = await this.sweepMissedDeliveries(activeAgents, deliver, runForAgent, partnerships, config);
+    const failedAgents = new Map<string, number>();
+    for (const { revenue, ...failure } of missed) {
+      result.taskFailures.push(failure);
+      failedAgents.set(failure.agentId, (failedAgents.get(failure.agentId) || 0) + 1);
+      if (revenue > 0) {
+        result.tasksCompleted++;
+        result.totalRevenue += revenue;
+      }
+    }
+    if (missed.length > 0) {
+      console.log(`[RoundProcessor] ${missed.length} missed deliveries, ${missed.filter(m => m.reassignedTo).length} reassigned`);
+    }
+
+    // ---------------------------------------------------------------
+    // Step 3c: Consumer intents (second marketplace, same agents)
+    // ---------------------------------------------------------------
+    const intentRound = await this.processIntents(activeAgents, agentCostsMap, roundNumber);
+    result.intentOffers = intentRound.offers;
+    result.intentsMatched = intentRound.matched;
+
     // ---------------------------------------------------------------
     // Diagnostics: enrich with auction results and log
     // ---------------------------------------------------------------
@@ -273,10 +732,10 @@ export class RoundProcessor {
     // ---------------------------------------------------------------
     await Promise.all(
       bids.map(async (bid) => {
-        const winner = taskWinners.get(bid.taskId);
-        const won = winner?.agentId === bid.agentId;
+        const winnerRevenue = taskWinners.get(bid.taskId)?.get(bid.agentId);
+        const won = winnerRevenue !== undefined;
         try {
-          await recordBidResult(bid.agentId, won, bid.amount, won ? winner!.revenue : 0);
+          await runtimeStateService.recordBidResult(bid.agentId, won, bid.amount, winnerRevenue ?? 0);
         } catch (err) {
           console.error(`[RoundProcessor] Failed to record bid result for ${bid.agentId}:`, err);
         }
@@ -290,35 +749,35 @@ export class RoundProcessor {
     await Promise.all(
       activeAgents.map(async (agent) => {
         try {
-          let state = await loadRuntimeState(agent.id);
-          if (!state) {
-            state = await initializeRuntimeState(agent.id);
-          }
+          const state = await runtimeStateService.loadOrInitialize(agent.id);
           state.current_round = roundNumber;
           state.is_running = true;
           state.last_active_at = new Date().toISOString();
           // reputation_at_last_check intentionally NOT reset here
-          await saveRuntimeState(state);
+          await runtimeStateService.save(state);
         } catch (err) {
           console.error(`[RoundProcessor] Failed to update runtime state for ${agent.name}:`, err);
         }
       })
     );
 
-    console.log(`[RoundProcessor] Updated runtime state: ${taskWinners.size} winners, ${bids.length - taskWinners.size} losers`);
+    const winnerCount = Array.from(taskWinners.values()).reduce((sum, w) => sum + w.size, 0);
+    console.log(`[RoundProcessor] Updated runtime state: ${winnerCount} winners, ${bids.length - winnerCount} losers`);
 
     // ---------------------------------------------------------------
     // Step 4b: Create bid outcome memories (won/lost + competitor data)
     // Created here (not at bid time) to avoid race condition with async LLM narrative
     // ---------------------------------------------------------------
     for (const ar of auctionResults) {
-      // Winner's bid memory
-      const winAgent = activeAgents.find(a => a.id === ar.winningBid.agent_id);
-      if (winAgent) {
-        memoryService.createBidOutcomeMemory(
-          ar.winningBid.agent_id, ar.task.id, ar.task.type,
-          true, ar.winningBid.amount, roundNumber, winAgent,
-        ).catch(err => console.error(`[RoundProcessor] Bid memory (win) error:`, err));
+      // Winners' bid memories (sealed_multi co-winners won too)
+      for (const won of [ar.winningBid, ...ar.coWinningBids]) {
+        const winAgent = activeAgents.find(a => a.id === won.agent_id);
+        if (winAgent) {
+          memoryService.createBidOutcomeMemory(
+            won.agent_id, ar.task.id, ar.task.type,
+            true, won.amount, roundNumber, winAgent,
+          ).catch(err => console.error(`[RoundProcessor] Bid memory (win) error:`, err));
+        }
       }
 
       // Loser bid memories with winner context
@@ -345,7 +804,7 @@ export class RoundProcessor {
     // Detection is just DB reads — we need the count for predictions.
     // LLM execution is slow — don't block the round.
     // ---------------------------------------------------------------
-    const detected = await brainService.detectExceptions(activeAgents, roundNumber, 3);
+    const detected = await brainService.detectExceptions(activeAgents, roundNumber, 3, failedAgents);
     result.exceptionsDetected = detected.length;
     // Build lightweight wakeup entries so result.brainWakeups has data immediately
     result.brainWakeups = detected.map(d => ({
@@ -399,6 +858,21 @@ export class RoundProcessor {
       }
     }).catch(err => console.error(`[RoundProcessor] QBR error:`, err));
 
+    // ---------------------------------------------------------------
+    // Step 7b: Memory consolidation (every N rounds) — fire-and-forget
+    // ---------------------------------------------------------------
+    if (memoryService.isConsolidationDue(roundNumber)) {
+      memoryService.consolidateAll(activeAgents.map(a => a.id), roundNumber)
+        .catch(err => console.error(`[RoundProcessor] Memory consolidation error:`, err));
+    }
+
+    // ---------------------------------------------------------------
+    // Step 7c: Retry failed side effects (events, memories, payments)
+    // that are due — fire-and-forget
+    // ---------------------------------------------------------------
+    outboxService.processDue()
+      .catch(err => console.error(`[RoundProcessor] Outbox error:`, err));
+
     // ---------------------------------------------------------------
     // Step 8: Platform buyback & burn (fire-and-forget)
     // Use accumulated platform cut (USDC) as MON-equivalent for buyback.
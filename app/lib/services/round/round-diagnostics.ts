@@ -4,7 +4,8 @@
  * Captures the full pipeline of numbers so we can verify:
  * - What policy the agent used (and where it came from)
  * - What costs were computed
- * - What bid was generated and its auction score
+ * - What bid(s) were generated and their auction scores
+ * - Round capacity, and which tasks were skipped because of it (not price)
  * - Whether the agent won, and who beat them
  *
  * Logged as [RoundDiagnostics] JSON block in server logs.
@@ -12,8 +13,31 @@
 
 import { calculateTaskCost, calculateAllInCost, calculateBidScore, DEFAULT_LIVING_COST_PER_ROUND } from '@/lib/agent-runtime/autopilot';
 import { AGENT_COSTS, PERSONALITY_DEFAULTS } from '@/lib/agent-runtime/constants';
-import type { AgentCostStructure } from '@/lib/agent-runtime/types';
-import type { AgentWithPolicy, SubmitBidInput, Task } from '../types';
+import type { AgentCostStructure, RoundCapacity } from '@/lib/agent-runtime/types';
+import type { AgentWithPolicy, BidSkipCause, SkippedBid, SubmitBidInput, Task } from '../types';
+
+export interface BidDiagnostic {
+  task_id: string;
+  task_type: string | null;
+  target_bid: number;
+  actual_bid: number;
+  score: number;
+  actual_margin_pct: number;
+  auction: {
+    won: boolean;
+    winner_name: string | null;
+    winner_bid: number | null;
+    winner_score: number | null;
+    my_score: number | null;
+  } | null;
+}
+
+export interface SkipDiagnostic {
+  task_id: string;
+  task_type: string | null;
+  cause: BidSkipCause;
+  reason: string;
+}
 
 export interface AgentRoundDiagnostic {
   agent: {
@@ -34,21 +58,9 @@ export interface AgentRoundDiagnostic {
     all_in_cost: number;
     min_profitable_bid: number;
   };
-  bid: {
-    task_id: string | null;
-    task_type: string | null;
-    target_bid: number;
-    actual_bid: number;
-    score: number;
-    actual_margin_pct: number;
-  } | null;
-  auction: {
-    won: boolean;
-    winner_name: string | null;
-    winner_bid: number | null;
-    winner_score: number | null;
-    my_score: number | null;
-  } | null;
+  capacity: RoundCapacity | null;
+  bids: BidDiagnostic[];
+  skipped: SkipDiagnostic[];
 }
 
 export interface RoundDiagnostics {
@@ -65,6 +77,8 @@ export function buildBiddingDiagnostics(
   agents: AgentWithPolicy[],
   bids: SubmitBidInput[],
   tasks: Task[],
+  skipped: SkippedBid[] = [],
+  capacities: Map<string, RoundCapacity> = new Map(),
 ): RoundDiagnostics {
   const agentDiags: AgentRoundDiagnostic[] = [];
 
@@ -88,13 +102,27 @@ export function buildBiddingDiagnostics(
     const skipBelow = policy.bidding.skip_below;
     const targetBid = allInCost / (1 - targetMargin);
 
-    // Find this agent's bid
-    const agentBid = bids.find(b => b.agentId === agent.id);
-    const bidTask = agentBid ? tasks.find(t => t.id === agentBid.taskId) : null;
-
-    const actualBid = agentBid?.amount || 0;
-    const actualScore = agentBid?.score || 0;
-    const actualMargin = actualBid > 0 ? ((actualBid - allInCost) / actualBid) * 100 : 0;
+    // This agent's bids (may be several per round, up to capacity)
+    const agentBids: BidDiagnostic[] = bids
+      .filter(b => b.agentId === agent.id)
+      .map(b => ({
+        task_id: b.taskId,
+        task_type: tasks.find(t => t.id === b.taskId)?.type || null,
+        target_bid: targetBid,
+        actual_bid: b.amount,
+        score: b.score,
+        actual_margin_pct: b.amount > 0 ? ((b.amount - allInCost) / b.amount) * 100 : 0,
+        auction: null, // filled in after auction closure
+      }));
+
+    const agentSkips: SkipDiagnostic[] = skipped
+      .filter(sk => sk.agentId === agent.id)
+      .map(sk => ({
+        task_id: sk.taskId,
+        task_type: tasks.find(t => t.id === sk.taskId)?.type || null,
+        cause: sk.cause,
+        reason: sk.reason,
+      }));
 
     agentDiags.push({
       agent: {
@@ -115,15 +143,9 @@ export function buildBiddingDiagnostics(
         all_in_cost: allInCost,
         min_profitable_bid: minProfitableBid,
       },
-      bid: agentBid ? {
-        task_id: agentBid.taskId,
-        task_type: bidTask?.type || null,
-        target_bid: targetBid,
-        actual_bid: actualBid,
-        score: actualScore,
-        actual_margin_pct: actualMargin,
-      } : null,
-      auction: null, // filled in after auction closure
+      capacity: capacities.get(agent.id) || null,
+      bids: agentBids,
+      skipped: agentSkips,
     });
   }
 
@@ -145,24 +167,24 @@ export function enrichWithAuctionResults(
   agents: AgentWithPolicy[],
 ): RoundDiagnostics {
   for (const diag of diagnostics.agents) {
-    if (!diag.bid) continue;
-
-    // Find the auction result for this agent's task
-    const auction = auctionResults.find(ar => ar.task.id === diag.bid!.task_id);
-    if (!auction) continue;
-
-    const won = auction.winningBid.agent_id === diag.agent.id;
-    const winnerAgent = agents.find(a => a.id === auction.winningBid.agent_id);
-    const winnerRep = winnerAgent?.reputation || 0;
-    const winnerScore = calculateBidScore(winnerRep, auction.winningBid.amount);
-
-    diag.auction = {
-      won,
-      winner_name: auction.winnerName,
-      winner_bid: auction.winningBid.amount,
-      winner_score: winnerScore,
-      my_score: diag.bid.score,
-    };
+    for (const bid of diag.bids) {
+      // Find the auction result for this bid's task
+      const auction = auctionResults.find(ar => ar.task.id === bid.task_id);
+      if (!auction) continue;
+
+      const won = auction.winningBid.agent_id === diag.agent.id;
+      const winnerAgent = agents.find(a => a.id === auction.winningBid.agent_id);
+      const winnerRep = winnerAgent?.reputation || 0;
+      const winnerScore = calculateBidScore(winnerRep, auction.winningBid.amount);
+
+      bid.auction = {
+        won,
+        winner_name: auction.winnerName,
+        winner_bid: auction.winningBid.amount,
+        winner_score: winnerScore,
+        my_score: bid.score,
+      };
+    }
   }
 
   return diagnostics;
@@ -173,31 +195,45 @@ export function enrichWithAuctionResults(
  */
 export function logDiagnostics(diagnostics: RoundDiagnostics): void {
   // Compact summary line
-  const bidders = diagnostics.agents.filter(a => a.bid);
-  const winners = diagnostics.agents.filter(a => a.auction?.won);
+  const bidders = diagnostics.agents.filter(a => a.bids.length > 0);
+  const totalBids = bidders.reduce((sum, a) => sum + a.bids.length, 0);
+  const wins = diagnostics.agents.reduce((sum, a) => sum + a.bids.filter(b => b.auction?.won).length, 0);
+  const capacitySkips = diagnostics.agents.reduce((sum, a) => sum + a.skipped.filter(sk => sk.cause === 'capacity').length, 0);
 
-  console.log(`[RoundDiagnostics] Round ${diagnostics.round}: ${bidders.length} bidders, ${winners.length} winners`);
+  console.log(`[RoundDiagnostics] Round ${diagnostics.round}: ${bidders.length} bidders, ${totalBids} bids, ${wins} wins, ${capacitySkips} capacity skips`);
 
-  // Per-agent detail (compact single-line JSON for grep-ability)
+  // Per-bid detail (compact single-line JSON for grep-ability)
   for (const diag of diagnostics.agents) {
-    if (!diag.bid) continue;
-
-    const compact = {
-      agent: diag.agent.name,
-      rep: diag.agent.reputation,
-      policy_src: diag.policy.source,
-      target_margin: `${(diag.policy.target_margin * 100).toFixed(1)}%`,
-      all_in_cost: `$${diag.costs.all_in_cost.toFixed(4)}`,
-      target_bid: `$${diag.bid.target_bid.toFixed(4)}`,
-      actual_bid: `$${diag.bid.actual_bid.toFixed(4)}`,
-      score: diag.bid.score.toFixed(1),
-      margin: `${diag.bid.actual_margin_pct.toFixed(1)}%`,
-      won: diag.auction?.won ?? 'pending',
-      winner: diag.auction?.winner_name ?? 'pending',
-      winner_bid: diag.auction?.winner_bid ? `$${diag.auction.winner_bid.toFixed(4)}` : 'N/A',
-      winner_score: diag.auction?.winner_score?.toFixed(1) ?? 'N/A',
-    };
-
-    console.log(`[RoundDiagnostics] ${JSON.stringify(compact)}`);
+    for (const bid of diag.bids) {
+      const compact = {
+        agent: diag.agent.name,
+        rep: diag.agent.reputation,
+        policy_src: diag.policy.source,
+        target_margin: `${(diag.policy.target_margin * 100).toFixed(1)}%`,
+        all_in_cost: `$${diag.costs.all_in_cost.toFixed(4)}`,
+        capacity: diag.capacity ? `${diag.bids.length}/${diag.capacity.capacity} (${diag.capacity.limited_by})` : 'N/A',
+        target_bid: `$${bid.target_bid.toFixed(4)}`,
+        actual_bid: `$${bid.actual_bid.toFixed(4)}`,
+        score: bid.score.toFixed(1),
+        margin: `${bid.actual_margin_pct.toFixed(1)}%`,
+        won: bid.auction?.won ?? 'pending',
+        winner: bid.auction?.winner_name ?? 'pending',
+        winner_bid: bid.auction?.winner_bid ? `$${bid.auction.winner_bid.toFixed(4)}` : 'N/A',
+        winner_score: bid.auction?.winner_score?.toFixed(1) ?? 'N/A',
+      };
+
+      console.log(`[RoundDiagnostics] ${JSON.stringify(compact)}`);
+    }
+
+    // Capacity skips: the agent could price these tasks but had no room left
+    for (const skip of diag.skipped) {
+      if (skip.cause !== 'capacity') continue;
+      console.log(`[RoundDiagnostics] ${JSON.stringify({
+        agent: diag.agent.name,
+        skipped: skip.task_type,
+        cause: skip.cause,
+        reason: skip.reason,
+      })}`);
+    }
   }
 }
@@ -0,0 +1,72 @@
+/**
+ * RuntimeStateService - Per-agent runtime statistics
+ *
+ * Repository-backed version of the agent-runtime/state.ts helpers used by
+ * the round pipeline (bid results, brain wakeups, round stamps), so the
+ * pipeline can run against in-memory storage.
+ */
+
+import { applyBidResult, createInitialRuntimeState } from '@/lib/agent-runtime/state';
+import type { AgentRuntimeState } from '@/lib/agent-runtime/types';
+import { defaultRepositories, type Repositories } from '../repositories';
+
+export class RuntimeStateService {
+  constructor(private readonly repos: Repositories = defaultRepositories) {}
+
+  /**
+   * Load runtime state, or null if the agent has none yet
+   */
+  async load(agentId: string): Promise<AgentRuntimeState | null> {
+    return this.repos.runtimeState.load(agentId);
+  }
+
+  /**
+   * Load runtime state, creating and saving a fresh one if missing
+   */
+  async loadOrInitialize(agentId: string): Promise<AgentRuntimeState> {
+    const state = await this.repos.runtimeState.load(agentId);
+    if (state) return state;
+
+    const fresh = createInitialRuntimeState(agentId);
+    await this.repos.runtimeState.save(fresh);
+    return fresh;
+  }
+
+  async save(state: AgentRuntimeState): Promise<void> {
+    await this.repos.runtimeState.save(state);
+  }
+
+  /**
+   * Record a bid result and update runtime statistics (see applyBidResult)
+   */
+  async recordBidResult(
+    agentId: string,
+    won: boolean,
+    bidAmount: number,
+    revenue?: number
+  ): Promise<AgentRuntimeState> {
+    const state = await this.loadOrInitialize(agentId);
+    const { data: recentBids, error } = await this.repos.bids.listForAgent(agentId, 20);
+
+    applyBidResult(state, won, bidAmount, revenue, error ? null : (recentBids || []).map(b => b.status));
+    await this.repos.runtimeState.save(state);
+
+    return state;
+  }
+
+  /**
+   * Record a brain wake-up and its cost
+   */
+  async recordBrainWakeup(agentId: string, cost: number): Promise<void> {
+    const state = await this.loadOrInitialize(agentId);
+
+    state.total_brain_wakeups += 1;
+    state.total_brain_cost += cost;
+    state.total_costs += cost;
+
+    await this.repos.runtimeState.save(state);
+  }
+}
+
+// Singleton instance for convenience
+export const runtimeStateService = new RuntimeStateService();
@@ -1,11 +1,14 @@
 /**
  * TaskService - Task lifecycle management
  *
- * Handles task creation, assignment, and completion.
+ * Handles task creation, assignment, completion, and failed deliveries.
  * Used by both simulation and real runtime.
  */
 
-import { supabase, isSupabaseConfigured } from '@/lib/supabase';
+import { isSupabaseConfigured } from '@/lib/supabase';
+import { defaultRng, type Rng } from '@/lib/random';
+import { TASK_DELIVERY_WINDOW_MINUTES } from '@/lib/platform-config';
+import { defaultRepositories, type NewTaskRecord, type Repositories } from '../repositories';
 import type { Task, CreateTaskInput, TaskType } from '../types';
 
 console.log('[TaskService] Supabase configured:', isSupabaseConfigured);
@@ -39,65 +42,66 @@ const TASK_DESCRIPTIONS: Record<TaskType, string[]> = {
     'Onboard new marketplace seller',
     'Audit seller inventory levels',
     'Calculate seller performance score',
+    'Quote bulk order for marketplace buyer',
+    'Negotiate supplier terms for restock',
+    'Fulfil order with express shipping',
   ],
 };
 
 export class TaskService {
+  constructor(private readonly repos: Repositories = defaultRepositories) {}
+
   /**
    * Create a single task
    */
   async createTask(input: CreateTaskInput): Promise<Task | null> {
-    const inputRef = input.inputRef || this.generateInputRef(input.type);
+    const inputRef = input.inputRef || this.generateInputRef(input.requiredTypes || [input.type]);
     const deadline = input.deadlineMinutes
       ? new Date(Date.now() + input.deadlineMinutes * 60 * 1000).toISOString()
       : new Date(Date.now() + 30 * 60 * 1000).toISOString(); // Default 30 min
 
-    const { data, error } = await supabase
-      .from('tasks')
-      .insert({
-        type: input.type,
-        status: 'OPEN',
-        max_bid: input.maxBid,
-        input_ref: inputRef,
-        deadline,
-        consumer_address: input.consumerAddress || null,
-        created_at: new Date().toISOString(),
-      })
-      .select()
-      .single();
+    const { data, error } = await this.repos.tasks.insert([{
+      type: input.type,
+      status: 'OPEN',
+      max_bid: input.maxBid,
+      input_ref: inputRef,
+      deadline,
+      consumer_address: input.consumerAddress || null,
+      ...(input.requiredTypes ? { required_types: input.requiredTypes } : {}),
+      created_at: new Date().toISOString(),
+    }]);
 
-    if (error) {
+    if (error || !data?.[0]) {
       console.error('[TaskService] Failed to create task:', error);
       return null;
     }
 
-    return data as Task;
+    return data[0];
   }
 
   /**
-   * Create multiple tasks in batch
+   * Create multiple tasks in batch.
+   * Pass a seeded rng to make generated input refs reproducible.
    */
-  async createBatchTasks(inputs: CreateTaskInput[]): Promise<Task[]> {
+  async createBatchTasks(inputs: CreateTaskInput[], rng: Rng = defaultRng): Promise<Task[]> {
     if (inputs.length === 0) return [];
 
-    const tasksToInsert = inputs.map(input => ({
+    const tasksToInsert: NewTaskRecord[] = inputs.map(input => ({
       type: input.type,
       status: 'OPEN',
       max_bid: input.maxBid,
-      input_ref: input.inputRef || this.generateInputRef(input.type),
+      input_ref: input.inputRef || this.generateInputRef(input.requiredTypes || [input.type], rng),
       deadline: input.deadlineMinutes
         ? new Date(Date.now() + input.deadlineMinutes * 60 * 1000).toISOString()
         : new Date(Date.now() + 30 * 60 * 1000).toISOString(), // Default 30 min deadline
       consumer_address: input.consumerAddress || null,
+      ...(input.requiredTypes ? { required_types: input.requiredTypes } : {}),
       created_at: new Date().toISOString(),
     }));
 
     console.log('[TaskService] Creating tasks:', JSON.stringify(tasksToInsert[0]));
 
-    const result = await supabase
-      .from('tasks')
-      .insert(tasksToInsert)
-      .select();
+    const result = await this.repos.tasks.insert(tasksToInsert);
 
     console.log('[TaskService] Insert result:', { data: result.data, error: result.error });
 
@@ -107,51 +111,39 @@ export class TaskService {
     }
 
     console.log(`[TaskService] Created ${result.data?.length || 0} tasks`);
-    return (result.data || []) as Task[];
+    return result.data || [];
   }
 
   /**
    * Get open tasks that can be bid on
    */
   async getOpenTasks(filters?: { type?: TaskType; limit?: number }): Promise<Task[]> {
-    let query = supabase
-      .from('tasks')
-      .select('*')
-      .eq('status', 'OPEN');
-
-    if (filters?.type) {
-      query = query.eq('type', filters.type);
-    }
-
-    if (filters?.limit) {
-      query = query.limit(filters.limit);
-    }
-
-    const { data, error } = await query.order('created_at', { ascending: false });
+    const { data, error } = await this.repos.tasks.list({
+      status: 'OPEN',
+      type: filters?.type,
+      limit: filters?.limit,
+      newestFirst: true,
+    });
 
     if (error) {
       console.error('[TaskService] Failed to get open tasks:', error);
       return [];
     }
 
-    return (data || []) as Task[];
+    return data || [];
   }
 
   /**
    * Get a task by ID
    */
   async getTaskById(taskId: string): Promise<Task | null> {
-    const { data, error } = await supabase
-      .from('tasks')
-      .select('*')
-      .eq('id', taskId)
-      .single();
+    const { data, error } = await this.repos.tasks.findById(taskId);
 
     if (error) {
       return null;
     }
 
-    return data as Task;
+    return data;
   }
 
   /**
@@ -162,94 +154,130 @@ export class TaskService {
     winningBidId: string,
     agentId: string
   ): Promise<Task | null> {
-    const { data, error } = await supabase
-      .from('tasks')
-      .update({
-        status: 'ASSIGNED',
-        assigned_agent_id: agentId,
-        winning_bid_id: winningBidId,
-      })
-      .eq('id', taskId)
-      .select()
-      .single();
+    const { data, error } = await this.repos.tasks.update(taskId, {
+      status: 'ASSIGNED',
+      assigned_agent_id: agentId,
+      winning_bid_id: winningBidId,
+      delivery_deadline: new Date(Date.now() + TASK_DELIVERY_WINDOW_MINUTES * 60 * 1000).toISOString(),
+    });
 
     if (error) {
       console.error('[TaskService] Failed to assign task:', error);
       return null;
     }
 
-    return data as Task;
+    return data;
   }
 
   /**
    * Mark task as completed
    */
   async completeTask(taskId: string): Promise<Task | null> {
-    const { data, error } = await supabase
-      .from('tasks')
-      .update({
-        status: 'COMPLETED',
-        completed_at: new Date().toISOString(),
-      })
-      .eq('id', taskId)
-      .select()
-      .single();
+    const { data, error } = await this.repos.tasks.update(taskId, {
+      status: 'COMPLETED',
+      completed_at: new Date().toISOString(),
+    });
 
     if (error) {
       console.error('[TaskService] Failed to complete task:', error);
       return null;
     }
 
-    return data as Task;
+    return data;
   }
 
   /**
    * Expire a task (no winner found)
    */
   async expireTask(taskId: string): Promise<Task | null> {
-    const { data, error } = await supabase
-      .from('tasks')
-      .update({
-        status: 'EXPIRED',
-      })
-      .eq('id', taskId)
-      .select()
-      .single();
+    const { data, error } = await this.repos.tasks.update(taskId, {
+      status: 'EXPIRED',
+    });
 
     if (error) {
       console.error('[TaskService] Failed to expire task:', error);
       return null;
     }
 
-    return data as Task;
+    return data;
+  }
+
+  /**
+   * Mark task as failed (delivery deadline missed, no runner-up left)
+   */
+  async failTask(taskId: string, reason: string): Promise<Task | null> {
+    const { data, error } = await this.repos.tasks.update(taskId, {
+      status: 'FAILED',
+      failed_at: new Date().toISOString(),
+      failure_reason: reason,
+    });
+
+    if (error) {
+      console.error('[TaskService] Failed to mark task as failed:', error);
+      return null;
+    }
+
+    return data;
+  }
+
+  /**
+   * Get ASSIGNED tasks whose delivery deadline has passed
+   */
+  async getOverdueTasks(now: Date = new Date(), limit?: number): Promise<Task[]> {
+    const { data, error } = await this.repos.tasks.list({
+      status: 'ASSIGNED',
+      deliveryDeadlineBefore: now.toISOString(),
+      limit,
+    });
+
+    if (error) {
+      console.error('[TaskService] Failed to get overdue tasks:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Stamp tasks with the round they were processed in
+   */
+  async stampRoundNumber(taskIds: string[], roundNumber: number): Promise<void> {
+    if (taskIds.length === 0) return;
+
+    const { error } = await this.repos.tasks.updateMany(taskIds, { round_number: roundNumber });
+
+    if (error) {
+      console.error('[TaskService] Failed to stamp round_number:', error);
+    }
   }
 
   /**
    * Get tasks assigned to an agent
    */
   async getAssignedTasks(agentId: string, limit: number = 5): Promise<Task[]> {
-    const { data, error } = await supabase
-      .from('tasks')
-      .select('*')
-      .eq('assigned_agent_id', agentId)
-      .eq('status', 'ASSIGNED')
-      .limit(limit);
+    const { data, error } = await this.repos.tasks.list({
+      assignedAgentId: agentId,
+      status: 'ASSIGNED',
+      limit,
+    });
 
     if (error) {
       console.error('[TaskService] Failed to get assigned tasks:', error);
       return [];
     }
 
-    return (data || []) as Task[];
+    return data || [];
   }
 
   /**
    * Generate a realistic input reference for a task
+   * (composite tasks join one description per required type)
    */
-  private generateInputRef(taskType: TaskType): string {
-    const descriptions = TASK_DESCRIPTIONS[taskType] || TASK_DESCRIPTIONS.CATALOG;
-    const description = descriptions[Math.floor(Math.random() * descriptions.length)];
-    const id = Math.random().toString(36).substring(2, 8);
+  private generateInputRef(taskTypes: TaskType[], rng: Rng = defaultRng): string {
+    const description = taskTypes
+      .map(type => rng.pick(TASK_DESCRIPTIONS[type] || TASK_DESCRIPTIONS.CATALOG))
+      .join(' + ');
+    const id = rng.id(6);
     return `${description} [${id}]`;
   }
 
@@ -259,7 +287,10 @@ export class TaskService {
   /**
    * Generate task inputs for simulation.
    *
-   * Tasks cycle evenly across types: REVIEW, CURATION, CATALOG, repeat.
+   * Tasks cycle evenly across types: REVIEW, CURATION, CATALOG, repeat
+   * (pass `types` to add SELLER or narrow the cycle).
+   * `composites` (e.g. [['CATALOG', 'REVIEW']]) join the cycle after the
+   * single types; the first type of each leads the joint bid.
    * One task per type per cycle ensures balanced competition.
    */
   static generateRandomTaskInputs(
@@ -268,14 +299,18 @@ export class TaskService {
       priceMin?: number;
       priceMax?: number;
       types?: TaskType[];
+      composites?: TaskType[][];
     }
   ): CreateTaskInput[] {
     const types: TaskType[] = options?.types ?? ['REVIEW', 'CURATION', 'CATALOG'];
-
-    return Array.from({ length: count }, (_, i) => ({
-      type: types[i % types.length],
-      maxBid: 2.0,
-    }));
+    const cycle: TaskType[][] = [...types.map(type => [type]), ...(options?.composites ?? [])];
+
+    return Array.from({ length: count }, (_, i) => {
+      const entry = cycle[i % cycle.length];
+      return entry.length > 1
+        ? { type: entry[0], requiredTypes: entry, maxBid: 2.0 }
+        : { type: entry[0], maxBid: 2.0 };
+    });
   }
 }
 
@@ -2,8 +2,9 @@
  * Shared types for all services
  */
 
-import type { AgentType } from '@/types/database';
+import type { AgentType, Intent, OfferCache } from '@/types/database';
 import type { AgentPolicy, AgentCostStructure } from '@/lib/agent-runtime/types';
+import type { Rng } from '@/lib/random';
 
 // =============================================================================
 // AGENT TYPES
@@ -52,7 +53,8 @@ export type TaskStatus = 'OPEN' | 'ASSIGNED' | 'COMPLETED' | 'EXPIRED' | 'FAILED
 
 export interface Task {
   id: string;
-  type: TaskType;
+  type: TaskType;               // lead type for composite tasks
+  required_types?: TaskType[] | null; // composite task: needs a partnership covering every type
   status: TaskStatus;
   max_bid: number;
   input_ref?: string;
@@ -61,24 +63,109 @@ export interface Task {
   assigned_agent_id?: string;
   winning_bid_id?: string;
   round_number?: number;
+  delivery_deadline?: string;   // set on assignment; ASSIGNED past this = failed delivery
+  failed_at?: string;
+  failure_reason?: string;
   created_at: string;
   completed_at?: string;
 }
 
 export interface CreateTaskInput {
   type: TaskType;
+  requiredTypes?: TaskType[];   // composite task (type must be one of them)
   maxBid: number;
   inputRef?: string;
   deadlineMinutes?: number;
   consumerAddress?: string;
 }
 
+// =============================================================================
+// DELIVERABLE TYPES
+// =============================================================================
+
+export interface CatalogDeliverable {
+  task_type: 'CATALOG';
+  product: {
+    sku: string;
+    title: string;
+    brand: string;
+    category: string;
+    price: number;
+    currency: string;
+    attributes: Record<string, string>;
+    description: string;
+  };
+}
+
+export interface ReviewDeliverable {
+  task_type: 'REVIEW';
+  rating: number;           // 1-5
+  summary: string;
+  pros: string[];
+  cons: string[];
+}
+
+export interface CurationDeliverable {
+  task_type: 'CURATION';
+  title: string;
+  items: Array<{ rank: number; name: string; reason: string; score: number }>;
+}
+
+export interface SellerDeliverable {
+  task_type: 'SELLER';
+  seller_name: string;
+  decision: 'approve' | 'reject' | 'needs_review';
+  score: number;            // 0-1
+  checks: Array<{ check: string; passed: boolean; note: string }>;
+}
+
+export type TaskDeliverable =
+  | CatalogDeliverable
+  | ReviewDeliverable
+  | CurationDeliverable
+  | SellerDeliverable;
+
+/** 'llm' = produced by the agent's model, 'stub' = deterministic offline generator */
+export type DeliverableSource = 'llm' | 'stub';
+
+export interface StoredDeliverable {
+  id: string;
+  task_id: string;
+  bid_id: string | null;
+  agent_id: string | null;
+  task_type: TaskType;
+  content: TaskDeliverable;
+  source: DeliverableSource;
+  model: string | null;
+  quality_score: number | null; // 0-1, from grade
+  grade: QualityGrade | null;
+  revisions: number;            // reworks before submitting (quality_threshold)
+  created_at: string;
+}
+
+/** One rubric criterion: score in [0, 1], weighted into the overall grade */
+export interface QualityCheck {
+  criterion: string;
+  weight: number;
+  score: number;
+  note?: string;
+}
+
+export interface QualityGrade {
+  score: number;            // 0-1, weighted mean of checks
+  checks: QualityCheck[];
+  grader: 'rules';
+}
+
 // =============================================================================
 // BID TYPES
 // =============================================================================
 
 export type BidStatus = 'pending' | 'won' | 'lost';
 
+/** Bid bond state: LOCKED while the bid is open or being delivered */
+export type BidBondStatus = 'LOCKED' | 'RELEASED' | 'FORFEITED';
+
 export interface Bid {
   id: string;
   task_id: string;
@@ -88,6 +175,11 @@ export interface Bid {
   score: number;
   status: BidStatus;
   policy_used?: BidPolicyTrace;
+  clearing_price?: number | null;
+  auction_mechanism?: AuctionMechanismType | null;
+  bond_amount?: number | null;    // collateral locked from the agent's balance
+  bond_status?: BidBondStatus | null;
+  partnership_id?: string | null; // joint bid placed by a partnership's lead agent
   created_at: string;
 }
 
@@ -105,6 +197,7 @@ export interface SubmitBidInput {
   score: number;
   policyUsed?: BidPolicyTrace;
   roundNumber?: number;
+  partnershipId?: string;       // joint bid on a composite task
 }
 
 export interface BidDecision {
@@ -113,18 +206,62 @@ export interface BidDecision {
   score?: number;
   margin?: number;
   reason?: string;
+  skipCause?: BidSkipCause;
   policyTrace?: BidPolicyTrace;
 }
 
+/**
+ * Why a bid was skipped. 'capacity' means the agent could have bid
+ * profitably but had already filled its per-round task capacity.
+ * 'no_partnership' means a composite task needed a partner the agent lacks.
+ */
+export type BidSkipCause =
+  | 'type_mismatch'
+  | 'no_partnership'
+  | 'not_registered'
+  | 'skip_below'
+  | 'margin'
+  | 'balance'
+  | 'capacity';
+
+export interface SkippedBid {
+  agentId: string;
+  taskId: string;
+  reason: string;
+  cause: BidSkipCause;
+}
+
 // =============================================================================
 // AUCTION TYPES
 // =============================================================================
 
+export type AuctionMechanismType = 'first_price' | 'second_price' | 'reserve_price' | 'sealed_multi';
+
+export interface AuctionMechanismConfig {
+  type: AuctionMechanismType;
+  reserveRatio?: number;  // reserve_price: max payable as a fraction of task.max_bid (default 1.0)
+  winners?: number;       // sealed_multi: number of winners (default 2)
+}
+
+export interface AuctionConfig {
+  default?: AuctionMechanismConfig;
+  byTaskType?: Partial<Record<TaskType, AuctionMechanismConfig>>;
+}
+
+export interface AdditionalWinner {
+  bid: Bid;
+  agent: AgentWithPolicy;
+  clearingPrice: number;
+}
+
 export interface WinnerResult {
   winningBid: Bid;
   agent: AgentWithPolicy;
   score: number;
   allBids: Bid[];
+  mechanism: AuctionMechanismType;
+  clearingPrice: number;
+  additionalWinners: AdditionalWinner[];
 }
 
 export interface AuctionResult {
@@ -134,6 +271,34 @@ export interface AuctionResult {
   losingBidIds: string[];
   losingBids: Bid[];
   revenue: number;
+  mechanism: AuctionMechanismType;
+  clearingPrice: number;
+  additionalWinners: AdditionalWinner[];
+}
+
+// =============================================================================
+// CONSUMER INTENT TYPES
+// =============================================================================
+
+/** An agent's offer on a consumer intent, ready to submit */
+export interface IntentOfferInput {
+  intentId: string;
+  chainIntentId: number | null;
+  agentId: string;
+  agentWallet: string;
+  price: number;
+  relevance: number;        // 0-1 (stored as relevance_score 0-1000)
+  matchedTags: string[];
+  proposalText: string;
+  roundNumber?: number;
+}
+
+export interface IntentAuctionResult {
+  intent: Intent;
+  winningOffer: OfferCache;
+  agent: AgentWithPolicy;
+  score: number;            // bid score x relevance
+  rejectedOfferIds: string[];
 }
 
 // =============================================================================
@@ -158,6 +323,24 @@ export interface EconomicResult {
     agentShare: number;
     holderCount: number;
   };
+  partnerPayout?: PartnerPayout; // joint bid: the partner's split of the payment
+}
+
+export interface PartnerPayout {
+  partnershipId: string;
+  partnerId: string;
+  amount: number;             // partner's split of the payment (before its own operational cost)
+  cost: number;               // partner's operational cost
+  txHash?: string;            // lead -> partner USDC transfer
+}
+
+export interface TaskFailureResult {
+  penalty: number;          // forfeited fee (USDC)
+  newBalance: number;
+  reputationChange: number;
+  penaltyTxHash?: string;   // fee paid to the cost sink
+  chainTxHash?: string;     // AgentRegistry.recordTaskFailure
+  bondForfeited: number;    // bid bond lost on top of the fee (0 when bonds are off)
 }
 
 export interface EconomyEventInput {
@@ -174,7 +357,7 @@ export interface EconomyEventInput {
 // =============================================================================
 
 export interface ExceptionTrigger {
-  type: 'consecutive_losses' | 'win_rate_too_low' | 'balance_critical' | 'high_performer';
+  type: 'consecutive_losses' | 'win_rate_too_low' | 'balance_critical' | 'high_performer' | 'task_failed';
   details: Record<string, unknown>;
   threshold: number;
   currentValue: number;
@@ -218,19 +401,35 @@ export interface PartnershipAction {
 
 export interface RoundConfig {
   useBlockchain: boolean;   // true = real USDC transfers, false = DB-only
-  useLLM: boolean;          // true = real Gemini brain calls, false = skip/use defaults
+  useLLM: boolean;          // true = real Gemini brain calls + LLM deliverables, false = skip/use defaults + stub deliverables
   roundNumber: number;      // Current round number
   livingCostPerRound: number; // Living cost deducted from each agent per round
-  payingFetch?: typeof fetch; // x402-paying fetch for operator→agent payments (when useBlockchain=true)
+  payingFetch?: typeof fetch; // x402-paying fetch for operator→agent payments; without it (useBlockchain=false only) tasks are delivered in-process
+  auction?: AuctionConfig;  // Auction mechanism (default first_price), optionally per task type
+  rng?: Rng;                // Seeded RNG for replayable runs (auction tie-breaking); default Math.random
+  bidBondBps?: number;      // Bid bond as a share of the bid (default BID_BOND_BPS; 0 = off)
+}
+
+/** A missed delivery: the agent was penalized, the task reassigned or FAILED */
+export interface TaskFailureRecord {
+  taskId: string;
+  agentId: string;
+  penalty: number;
+  reassignedTo: string | null;  // runner-up agent id
 }
 
 export interface RoundProcessorResult {
   round: number;
   tasksProcessed: number;
   bidsPlaced: number;
+  jointBids: number;        // bids placed by partnerships on composite tasks
   auctionsClosed: number;
   tasksCompleted: number;
   tasksExpired: number;
+  /** Overdue deliveries swept this round (reassigned or FAILED) */
+  taskFailures: TaskFailureRecord[];
+  intentOffers: number;     // offers agents made on consumer intents
+  intentsMatched: number;   // intent auctions closed with a winner
   totalRevenue: number;
   livingCostsDeducted: number;
   exceptionsDetected: number;
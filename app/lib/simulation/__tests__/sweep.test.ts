@@ -0,0 +1,40 @@
+import { describe, expect, it, vi } from 'vitest';
+import { expandGrid, runParameterSweep } from '@/lib/simulation';
+import type { BatchConfig } from '@/lib/simulation';
+
+// Batch runs, recorded instead of simulated
+const batch = vi.hoisted(() => ({
+  runBatchSimulation: vi.fn(async (_config: BatchConfig) => ({ agents: [], finalStates: [], bids: [] })),
+}));
+vi.mock('@/lib/simulation/batch', () => batch);
+
+describe('parameter sweep', () => {
+  it('reports grid combinations with min_margin above target_margin as skipped', () => {
+    const { candidates, skipped } = expandGrid({ target_margin: [0.1, 0.2], min_margin: [0.15] });
+
+    expect(candidates.map(c => c.target_margin)).toEqual([0.2]);
+    expect(skipped).toMatchObject([{ target_margin: 0.1, min_margin: 0.15, reason: 'min_margin 0.15 > target_margin 0.1' }]);
+  });
+
+  it('fails fast when every combination is skipped', async () => {
+    await expect(runParameterSweep({
+      grid: { target_margin: [0.1], min_margin: [0.2] }, rounds: 1, tasksPerRound: 1,
+    })).rejects.toThrow(/No runnable candidates/);
+    expect(batch.runBatchSimulation).not.toHaveBeenCalled();
+  });
+
+  it('passes composite tasks, partnerships and bid bonds through to each run', async () => {
+    const partnerships = [{ agents: ['a', 'b'] as [string, string], split: 60 }];
+
+    const result = await runParameterSweep({
+      grid: { target_margin: [0.1, 0.2], min_margin: [0.15] }, runsPerCandidate: 1, seed: 1, rounds: 1, tasksPerRound: 1,
+      compositeTasks: [['CATALOG', 'REVIEW']], partnerships, bidBondBps: 500,
+    });
+
+    expect(batch.runBatchSimulation).toHaveBeenCalledWith(expect.objectContaining({
+      compositeTasks: [['CATALOG', 'REVIEW']], partnerships, bidBondBps: 500,
+    }));
+    expect(result.ranking).toHaveLength(1);
+    expect(result.skipped).toHaveLength(1);
+  });
+});
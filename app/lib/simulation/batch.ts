@@ -0,0 +1,187 @@
+/**
+ * Batch simulation - N rounds of the shared pipeline, fully offline
+ *
+ * Runs RoundProcessor against an in-memory store seeded from a roster, with
+ * blockchain and LLM off. Each run gets a fresh store, so runs are
+ * independent and a run is reproducible from its seed.
+ */
+
+import {
+  createInMemoryRepositories,
+  createServices,
+  InMemoryStore,
+  TaskService,
+} from '@/lib/services';
+import { createRng, randomSeed } from '@/lib/random';
+import type { RoundConfig, RoundProcessorResult } from '@/lib/services/types';
+import { seedPartnerships, seedRoster } from './roster';
+import type {
+  AgentStateRow,
+  BatchConfig,
+  BatchResult,
+  BidRow,
+  FinalStateRow,
+  LifecycleRow,
+  SimulationAgent,
+  WinnerRow,
+} from './types';
+
+const DEFAULT_LIVING_COST_PER_ROUND = 0.005;
+
+/**
+ * Run a batch simulation and collect per-round rows
+ */
+export async function runBatchSimulation(config: BatchConfig): Promise<BatchResult> {
+  const seed = config.seed ?? randomSeed();
+  const rng = createRng(seed);
+  const livingCostPerRound = config.livingCostPerRound ?? DEFAULT_LIVING_COST_PER_ROUND;
+
+  const store = new InMemoryStore();
+  const roster = seedRoster(store, config.roster);
+  seedPartnerships(store, roster, config.partnerships ?? []);
+  const services = createServices(createInMemoryRepositories(store));
+
+  let agents = await services.agentService.getActiveAgents();
+  const results: RoundProcessorResult[] = [];
+
+  for (let roundNumber = 1; roundNumber <= config.rounds; roundNumber++) {
+    const roundRng = rng.fork();
+
+    const taskInputs = TaskService.generateRandomTaskInputs(config.tasksPerRound, {
+      types: config.taskTypes,
+      composites: config.compositeTasks,
+    });
+    const tasks = await services.taskService.createBatchTasks(taskInputs, roundRng);
+
+    const roundConfig: RoundConfig = {
+      useBlockchain: false,
+      useLLM: false,
+      roundNumber,
+      livingCostPerRound,
+      auction: config.auction,
+      bidBondBps: config.bidBondBps,
+      rng: roundRng,
+    };
+    results.push(await services.roundProcessor.processRound(tasks, agents, roundConfig));
+
+    agents = await services.agentService.refreshAgentData(agents);
+  }
+
+  return {
+    seed,
+    config: {
+      rounds: config.rounds,
+      tasksPerRound: config.tasksPerRound,
+      roster: config.roster,
+      livingCostPerRound,
+      taskTypes: config.taskTypes,
+      compositeTasks: config.compositeTasks,
+      partnerships: config.partnerships,
+      auction: config.auction,
+      bidBondBps: config.bidBondBps,
+    },
+    agents: roster,
+    rounds: results.map(r => ({
+      round: r.round,
+      tasks: r.tasksProcessed,
+      bids: r.bidsPlaced,
+      joint_bids: r.jointBids,
+      auctions_closed: r.auctionsClosed,
+      completed: r.tasksCompleted,
+      expired: r.tasksExpired,
+      failed: r.taskFailures.length,
+      revenue: r.totalRevenue,
+      living_costs: r.livingCostsDeducted,
+      exceptions: r.exceptionsDetected,
+      brain_wakeups: r.brainWakeups.length,
+    })),
+    ...collectRows(store, roster, results),
+    results,
+  };
+}
+
+/**
+ * Flatten round results and stored bids into output rows
+ */
+function collectRows(
+  store: InMemoryStore,
+  roster: SimulationAgent[],
+  results: RoundProcessorResult[]
+): Pick<BatchResult, 'agentStates' | 'bids' | 'winners' | 'lifecycle' | 'finalStates'> {
+  const byId = new Map(roster.map(a => [a.id, a]));
+
+  const agentStates: AgentStateRow[] = results.flatMap(r => r.agentStates.map(s => ({
+    round: r.round,
+    agent_id: s.id,
+    name: s.name,
+    type: byId.get(s.id)?.type ?? '',
+    personality: byId.get(s.id)?.personality ?? '',
+    balance: s.balance,
+    reputation: s.reputation,
+    status: s.status,
+  })));
+
+  const lifecycle: LifecycleRow[] = results.flatMap(r => r.lifecycleChanges.map(c => ({
+    round: r.round,
+    agent_id: c.agentId,
+    agent_name: byId.get(c.agentId)?.name ?? '',
+    from: c.from,
+    to: c.to,
+  })));
+
+  const deliverableByBid = new Map(store.deliverables.map(d => [d.bid_id, d]));
+  const bids: BidRow[] = [];
+  const winners: WinnerRow[] = [];
+  for (const bid of store.bids.values()) {
+    const task = store.tasks.get(bid.task_id);
+    const round = task?.round_number ?? 0;
+    const agentName = byId.get(bid.agent_id)?.name ?? '';
+
+    bids.push({
+      round,
+      task_id: bid.task_id,
+      task_type: task?.type ?? '',
+      agent_id: bid.agent_id,
+      agent_name: agentName,
+      amount: bid.amount,
+      margin: bid.policy_used?.margin ?? null,
+      status: String(bid.status).toUpperCase(),
+      clearing_price: bid.clearing_price ?? null,
+      auction_mechanism: bid.auction_mechanism ?? null,
+    });
+
+    if (String(bid.status).toUpperCase() === 'WON') {
+      winners.push({
+        round,
+        task_id: bid.task_id,
+        task_type: task?.type ?? '',
+        max_bid: task?.max_bid ?? 0,
+        agent_id: bid.agent_id,
+        agent_name: agentName,
+        bid_amount: bid.amount,
+        clearing_price: bid.clearing_price ?? bid.amount,
+        auction_mechanism: bid.auction_mechanism ?? null,
+        task_status: task?.status ?? '',
+        quality_score: deliverableByBid.get(bid.id)?.quality_score ?? null,
+        revisions: deliverableByBid.get(bid.id)?.revisions ?? null,
+      });
+    }
+  }
+
+  const finalStates: FinalStateRow[] = roster.map(a => {
+    const agent = store.agents.get(a.id);
+    return {
+      agent_id: a.id,
+      name: a.name,
+      type: a.type,
+      personality: a.personality,
+      starting_balance: a.startingBalance,
+      balance: agent?.balance ?? 0,
+      reputation: agent?.reputation ?? 0,
+      status: agent?.status ?? 'DEAD',
+      tasks_completed: agent?.tasks_completed ?? 0,
+    };
+  });
+
+  return { agentStates, bids, winners, lifecycle, finalStates };
+}
@@ -0,0 +1,182 @@
+/**
+ * CLI Entry Point for the headless batch simulator
+ *
+ * Runs the shared RoundProcessor pipeline offline (no blockchain, no LLM,
+ * in-memory storage) and writes per-round results to CSV and/or JSON.
+ *
+ * Usage:
+ *   npm run simulate                                  # 10 rounds, default 9-agent roster
+ *   npm run simulate -- --rounds 50 --tasks 6 --seed 42
+ *   npm run simulate -- --config sim.json --out ./out
+ *   npm run simulate -- --roster roster.json --runs 20 --format csv
+ *
+ * Config file (all fields optional, CLI flags win):
+ *   { "rounds": 50, "tasksPerRound": 6, "seed": 42, "livingCostPerRound": 0.005,
+ *     "taskTypes": ["REVIEW", "CURATION", "CATALOG"],
+ *     "compositeTasks": [["CATALOG", "REVIEW"]],
+ *     "partnerships": [{ "agents": ["CATALOG-balanced-1", "REVIEW-balanced-1"], "split": 55 }],
+ *     "auction": { "default": { "type": "second_price" } },
+ *     "roster": [{ "type": "REVIEW", "personality": "aggressive", "balance": 1,
+ *                  "count": 2, "policy": { "bidding": { "target_margin": 0.12 } } }] }
+ */
+
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseSeed, randomSeed } from '@/lib/random';
+import { runBatchSimulation } from './batch';
+import { writeBatchOutput, type OutputFormat } from './export';
+import { DEFAULT_ROSTER } from './roster';
+import type { BatchConfig, RosterEntry } from './types';
+
+const DEFAULT_ROUNDS = 10;
+const DEFAULT_TASKS_PER_ROUND = 3;
+const DEFAULT_OUT_DIR = 'simulation-output';
+
+// ============================================================================
+// ARGS
+// ============================================================================
+
+interface CliOptions {
+  config?: string;
+  roster?: string;
+  rounds?: number;
+  tasks?: number;
+  seed?: number;
+  runs: number;
+  out: string;
+  formats: OutputFormat[];
+  verbose: boolean;
+}
+
+function fail(message: string): never {
+  console.error(`ERROR: ${message}`);
+  console.error('Run with --help for usage');
+  process.exit(1);
+}
+
+function parsePositiveInt(flag: string, value: string | undefined): number {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n <= 0) fail(`${flag} expects a positive integer (got ${value})`);
+  return n;
+}
+
+function parseArgs(args: string[]): CliOptions {
+  const options: CliOptions = { runs: 1, out: DEFAULT_OUT_DIR, formats: ['csv', 'json'], verbose: false };
+
+  for (let i = 0; i < args.length; i++) {
+    const flag = args[i];
+    const value = args[i + 1];
+    switch (flag) {
+      case '--config': options.config = value; i++; break;
+      case '--roster': options.roster = value; i++; break;
+      case '--rounds': options.rounds = parsePositiveInt(flag, value); i++; break;
+      case '--tasks': options.tasks = parsePositiveInt(flag, value); i++; break;
+      case '--runs': options.runs = parsePositiveInt(flag, value); i++; break;
+      case '--out': options.out = value; i++; break;
+      case '--seed': {
+        const seed = parseSeed(value);
+        if (seed === null) fail(`--seed expects a number or string (got ${value})`);
+        options.seed = seed;
+        i++;
+        break;
+      }
+      case '--format': {
+        const formats = (value || '').split(',').map(f => f.trim());
+        if (formats.some(f => f !== 'csv' && f !== 'json')) fail(`--format expects csv, json or csv,json (got ${value})`);
+        options.formats = formats as OutputFormat[];
+        i++;
+        break;
+      }
+      case '--verbose': options.verbose = true; break;
+      default: fail(`Unknown option: ${flag}`);
+    }
+  }
+
+  return options;
+}
+
+async function readJson<T>(file: string): Promise<T> {
+  try {
+    return JSON.parse(await readFile(file, 'utf8')) as T;
+  } catch (err) {
+    fail(`Could not read ${file}: ${err instanceof Error ? err.message : err}`);
+  }
+}
+
+async function loadConfig(options: CliOptions): Promise<BatchConfig> {
+  const fileConfig: Partial<BatchConfig> = options.config ? await readJson(options.config) : {};
+
+  let roster: RosterEntry[] = fileConfig.roster || DEFAULT_ROSTER;
+  if (options.roster) {
+    // Either a bare array of entries or { "roster": [...] }
+    const rosterFile = await readJson<RosterEntry[] | { roster: RosterEntry[] }>(options.roster);
+    roster = Array.isArray(rosterFile) ? rosterFile : rosterFile.roster;
+  }
+  if (!Array.isArray(roster) || roster.length === 0) fail('Roster is empty');
+
+  return {
+    ...fileConfig,
+    rounds: options.rounds ?? fileConfig.rounds ?? DEFAULT_ROUNDS,
+    tasksPerRound: options.tasks ?? fileConfig.tasksPerRound ?? DEFAULT_TASKS_PER_ROUND,
+    seed: options.seed ?? fileConfig.seed,
+    roster,
+  };
+}
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+
+  if (args.includes('--help') || args.includes('-h')) {
+    console.log(`
+Batch Simulator CLI (offline: no blockchain, no LLM, in-memory storage)
+
+Usage:
+  npm run simulate -- [options]
+
+Options:
+  --config <file>    JSON BatchConfig (rounds, tasksPerRound, seed, roster, auction, ...)
+  --roster <file>    JSON roster: [{ type, personality, balance, count, policy }, ...]
+  --rounds <n>       Rounds per run (default: ${DEFAULT_ROUNDS})
+  --tasks <n>        Tasks per round (default: ${DEFAULT_TASKS_PER_ROUND})
+  --seed <seed>      Seed for the first run; run k uses seed + k (default: random)
+  --runs <n>         Independent runs (default: 1)
+  --out <dir>        Output directory (default: ./${DEFAULT_OUT_DIR})
+  --format <list>    csv, json or csv,json (default: csv,json)
+  --verbose          Show pipeline logs
+`);
+    return;
+  }
+
+  const options = parseArgs(args);
+  const config = await loadConfig(options);
+  const baseSeed = config.seed ?? randomSeed();
+
+  // Services log every step; keep stdout readable unless asked
+  const log = console.log;
+  if (!options.verbose) console.log = () => {};
+
+  log(`Simulating ${options.runs} run(s) x ${config.rounds} rounds, ${config.tasksPerRound} tasks/round, ${config.roster.length} roster entries`);
+
+  for (let run = 0; run < options.runs; run++) {
+    const seed = (baseSeed + run) >>> 0;
+    const started = Date.now();
+    const result = await runBatchSimulation({ ...config, seed });
+
+    const dir = options.runs === 1 ? options.out : path.join(options.out, `run-${run + 1}-seed-${seed}`);
+    await writeBatchOutput(result, dir, options.formats);
+
+    const completed = result.rounds.reduce((sum, r) => sum + r.completed, 0);
+    const tasks = result.rounds.reduce((sum, r) => sum + r.tasks, 0);
+    const dead = result.lifecycle.filter(c => c.to === 'DEAD').length;
+    log(`  run ${run + 1}/${options.runs} seed=${seed}: ${completed}/${tasks} tasks completed, ${dead} agent(s) died (${Date.now() - started}ms) -> ${dir}`);
+  }
+}
+
+main().catch((err) => {
+  console.error('Fatal error:', err);
+  process.exit(1);
+});
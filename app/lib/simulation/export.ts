@@ -0,0 +1,106 @@
+/**
+ * CSV / JSON export for batch simulation results
+ */
+
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { BatchResult, SweepResult } from './types';
+
+export type OutputFormat = 'csv' | 'json';
+
+type CsvValue = string | number | boolean | null | undefined;
+
+function csvCell(value: CsvValue): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render rows as CSV. Columns default to the keys of the first row.
+ */
+export function toCsv<T extends object>(rows: T[], columns?: (keyof T & string)[]): string {
+  const header = columns ?? (rows[0] ? (Object.keys(rows[0]) as (keyof T & string)[]) : []);
+  const lines = [header.join(',')];
+  for (const row of rows) {
+    lines.push(header.map(col => csvCell(row[col] as CsvValue)).join(','));
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Write a batch result to `dir`. CSV produces one file per table;
+ * JSON produces a single simulation.json. Returns the written paths.
+ */
+export async function writeBatchOutput(
+  result: BatchResult,
+  dir: string,
+  formats: OutputFormat[] = ['csv', 'json']
+): Promise<string[]> {
+  await mkdir(dir, { recursive: true });
+  const written: string[] = [];
+
+  const write = async (file: string, content: string) => {
+    const filePath = path.join(dir, file);
+    await writeFile(filePath, content);
+    written.push(filePath);
+  };
+
+  if (formats.includes('csv')) {
+    await write('rounds.csv', toCsv(result.rounds, [
+      'round', 'tasks', 'bids', 'joint_bids', 'auctions_closed', 'completed', 'expired', 'failed',
+      'revenue', 'living_costs', 'exceptions', 'brain_wakeups',
+    ]));
+    await write('agent_states.csv', toCsv(result.agentStates, [
+      'round', 'agent_id', 'name', 'type', 'personality', 'balance', 'reputation', 'status',
+    ]));
+    await write('bids.csv', toCsv(result.bids, [
+      'round', 'task_id', 'task_type', 'agent_id', 'agent_name', 'amount', 'margin',
+      'status', 'clearing_price', 'auction_mechanism',
+    ]));
+    await write('winners.csv', toCsv(result.winners, [
+      'round', 'task_id', 'task_type', 'max_bid', 'agent_id', 'agent_name', 'bid_amount',
+      'clearing_price', 'auction_mechanism', 'task_status', 'quality_score', 'revisions',
+    ]));
+    await write('lifecycle.csv', toCsv(result.lifecycle, ['round', 'agent_id', 'agent_name', 'from', 'to']));
+    await write('final_states.csv', toCsv(result.finalStates, [
+      'agent_id', 'name', 'type', 'personality', 'starting_balance', 'balance',
+      'reputation', 'status', 'tasks_completed',
+    ]));
+  }
+
+  if (formats.includes('json')) {
+    await write('simulation.json', JSON.stringify(result, null, 2));
+  }
+
+  return written;
+}
+
+/**
+ * Write a sweep ranking to `dir` as sweep_ranking.csv and/or sweep.json
+ */
+export async function writeSweepOutput(
+  result: SweepResult,
+  dir: string,
+  formats: OutputFormat[] = ['csv', 'json']
+): Promise<string[]> {
+  await mkdir(dir, { recursive: true });
+  const written: string[] = [];
+
+  if (formats.includes('csv')) {
+    const filePath = path.join(dir, 'sweep_ranking.csv');
+    await writeFile(filePath, toCsv(result.ranking, [
+      'rank', 'target_margin', 'min_margin', 'skip_below', 'survival_rate', 'avg_final_balance',
+      'avg_balance_change', 'win_rate', 'bids', 'wins', 'agents', 'runs',
+    ]));
+    written.push(filePath);
+  }
+
+  if (formats.includes('json')) {
+    const filePath = path.join(dir, 'sweep.json');
+    await writeFile(filePath, JSON.stringify(result, null, 2));
+    written.push(filePath);
+  }
+
+  return written;
+}
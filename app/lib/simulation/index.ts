@@ -0,0 +1,9 @@
+/**
+ * Headless batch simulation - offline runs of the round pipeline
+ */
+
+export { runBatchSimulation } from './batch';
+export { DEFAULT_ROSTER, resolvePolicy, seedRoster } from './roster';
+export { runParameterSweep, expandGrid, candidateLabel } from './sweep';
+export { toCsv, writeBatchOutput, writeSweepOutput, type OutputFormat } from './export';
+export type * from './types';
@@ -0,0 +1,82 @@
+/**
+ * Roster - agents a batch simulation starts with
+ */
+
+import { PERSONALITY_DEFAULTS } from '@/lib/agent-runtime/constants';
+import type { AgentPolicy } from '@/lib/agent-runtime/types';
+import type { InMemoryStore } from '@/lib/services';
+import type { PartnershipEntry, PolicyOverrides, RosterEntry, SimulationAgent } from './types';
+
+const DEFAULT_BALANCE = 1.0;
+
+/**
+ * One agent per (type, personality) for the default task cycle (REVIEW, CURATION, CATALOG).
+ * Add SELLER entries together with a SELLER taskTypes cycle.
+ */
+export const DEFAULT_ROSTER: RosterEntry[] = (['REVIEW', 'CURATION', 'CATALOG'] as const).flatMap(type =>
+  ['balanced', 'aggressive', 'conservative'].map(personality => ({ type, personality }))
+);
+
+/**
+ * Personality default policy with per-section overrides applied
+ */
+export function resolvePolicy(personality: string, overrides?: PolicyOverrides): AgentPolicy {
+  const base = structuredClone(PERSONALITY_DEFAULTS[personality] || PERSONALITY_DEFAULTS.balanced);
+  if (!overrides) return base;
+
+  const merged = base as unknown as Record<string, Record<string, unknown>>;
+  for (const [section, values] of Object.entries(overrides)) {
+    merged[section] = { ...merged[section], ...values };
+  }
+  return base;
+}
+
+/**
+ * Add the roster's agents and policies to the store
+ */
+export function seedRoster(store: InMemoryStore, roster: RosterEntry[]): SimulationAgent[] {
+  const seeded: SimulationAgent[] = [];
+  const nameCounts = new Map<string, number>();
+
+  for (const entry of roster) {
+    const personality = entry.personality || 'balanced';
+    const balance = entry.balance ?? DEFAULT_BALANCE;
+    const count = entry.count ?? 1;
+
+    for (let i = 0; i < count; i++) {
+      const baseName = entry.name || `${entry.type}-${personality}`;
+      const n = (nameCounts.get(baseName) || 0) + 1;
+      nameCounts.set(baseName, n);
+      // Named single entries keep their name as-is
+      const name = entry.name && count === 1 && n === 1 ? entry.name : `${baseName}-${n}`;
+
+      const policy = resolvePolicy(personality, entry.policy);
+      const agent = store.addAgent({
+        name,
+        type: entry.type,
+        personality,
+        balance,
+        reputation: entry.reputation,
+      });
+      store.addPolicy(agent.id, policy);
+
+      seeded.push({ id: agent.id, name, type: agent.type, personality, startingBalance: balance, policy, tag: entry.tag });
+    }
+  }
+
+  return seeded;
+}
+
+/**
+ * Add ACTIVE partnerships between seeded agents (matched by name)
+ */
+export function seedPartnerships(store: InMemoryStore, agents: SimulationAgent[], entries: PartnershipEntry[]): void {
+  for (const { agents: [nameA, nameB], split } of entries) {
+    const a = agents.find(agent => agent.name === nameA);
+    const b = agents.find(agent => agent.name === nameB);
+    if (!a || !b) {
+      throw new Error(`Partnership ${nameA} + ${nameB}: no seeded agent named ${!a ? nameA : nameB}`);
+    }
+    store.addPartnership(store.agents.get(a.id)!, store.agents.get(b.id)!, split ?? 50);
+  }
+}
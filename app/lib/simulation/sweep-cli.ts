@@ -0,0 +1,200 @@
+/**
+ * CLI Entry Point for parameter sweeps / policy tournaments
+ *
+ * Runs every combination of the given bidding values through the offline
+ * batch simulator and ranks them by survival rate, final balance and win rate.
+ *
+ * Usage:
+ *   npm run simulate:sweep -- --target-margin 0.1,0.15,0.2,0.25 --min-margin 0.05,0.1,0.15
+ *   npm run simulate:sweep -- --config sweep.json --runs 20 --seed 1
+ *   npm run simulate:sweep -- --target-margin 0.1,0.2 --mode uniform --personality aggressive
+ *
+ * Config file (all fields optional, CLI flags win):
+ *   { "grid": { "target_margin": [0.1, 0.2], "min_margin": [0.05, 0.1], "skip_below": [0.001] },
+ *     "mode": "tournament", "personality": "balanced", "runsPerCandidate": 10,
+ *     "rounds": 50, "tasksPerRound": 6, "seed": 1, "roster": [...], "auction": {...},
+ *     "compositeTasks": [["CATALOG", "REVIEW"]], "partnerships": [...], "bidBondBps": 1000 }
+ *
+ * Grid combinations with min_margin > target_margin are not run; they are
+ * listed after the ranking and in sweep.json under "skipped".
+ */
+
+import { readFile } from 'node:fs/promises';
+import { parseSeed } from '@/lib/random';
+import { runParameterSweep } from './sweep';
+import { writeSweepOutput, type OutputFormat } from './export';
+import type { BiddingField, SweepConfig, SweepMode } from './types';
+
+const DEFAULT_ROUNDS = 30;
+const DEFAULT_TASKS_PER_ROUND = 6;
+const DEFAULT_OUT_DIR = 'simulation-output/sweep';
+const DEFAULT_TOP = 10;
+
+// ============================================================================
+// ARGS
+// ============================================================================
+
+const GRID_FLAGS: Record<string, BiddingField> = {
+  '--target-margin': 'target_margin',
+  '--min-margin': 'min_margin',
+  '--skip-below': 'skip_below',
+};
+
+function fail(message: string): never {
+  console.error(`ERROR: ${message}`);
+  console.error('Run with --help for usage');
+  process.exit(1);
+}
+
+function parsePositiveInt(flag: string, value: string | undefined): number {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n <= 0) fail(`${flag} expects a positive integer (got ${value})`);
+  return n;
+}
+
+function parseNumberList(flag: string, value: string | undefined): number[] {
+  const values = (value || '').split(',').map(v => Number(v.trim()));
+  if (values.length === 0 || values.some(v => !Number.isFinite(v) || v < 0)) {
+    fail(`${flag} expects comma-separated non-negative numbers (got ${value})`);
+  }
+  return values;
+}
+
+async function loadConfig(args: string[]): Promise<{ config: SweepConfig; out: string; formats: OutputFormat[]; top: number; verbose: boolean }> {
+  let fileConfig: Partial<SweepConfig> = {};
+  const configIdx = args.indexOf('--config');
+  if (configIdx >= 0) {
+    const file = args[configIdx + 1];
+    try {
+      fileConfig = JSON.parse(await readFile(file, 'utf8'));
+    } catch (err) {
+      fail(`Could not read ${file}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  const config: SweepConfig = {
+    ...fileConfig,
+    grid: { ...fileConfig.grid },
+    rounds: fileConfig.rounds ?? DEFAULT_ROUNDS,
+    tasksPerRound: fileConfig.tasksPerRound ?? DEFAULT_TASKS_PER_ROUND,
+  };
+  let out = DEFAULT_OUT_DIR;
+  let formats: OutputFormat[] = ['csv', 'json'];
+  let top = DEFAULT_TOP;
+  let verbose = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const flag = args[i];
+    const value = args[i + 1];
+    if (GRID_FLAGS[flag]) {
+      config.grid[GRID_FLAGS[flag]] = parseNumberList(flag, value);
+      i++;
+      continue;
+    }
+    switch (flag) {
+      case '--config': i++; break;
+      case '--rounds': config.rounds = parsePositiveInt(flag, value); i++; break;
+      case '--tasks': config.tasksPerRound = parsePositiveInt(flag, value); i++; break;
+      case '--runs': config.runsPerCandidate = parsePositiveInt(flag, value); i++; break;
+      case '--top': top = parsePositiveInt(flag, value); i++; break;
+      case '--personality': config.personality = value; i++; break;
+      case '--out': out = value; i++; break;
+      case '--mode': {
+        if (value !== 'tournament' && value !== 'uniform') fail(`--mode expects tournament or uniform (got ${value})`);
+        config.mode = value as SweepMode;
+        i++;
+        break;
+      }
+      case '--seed': {
+        const seed = parseSeed(value);
+        if (seed === null) fail(`--seed expects a number or string (got ${value})`);
+        config.seed = seed;
+        i++;
+        break;
+      }
+      case '--format': {
+        const list = (value || '').split(',').map(f => f.trim());
+        if (list.some(f => f !== 'csv' && f !== 'json')) fail(`--format expects csv, json or csv,json (got ${value})`);
+        formats = list as OutputFormat[];
+        i++;
+        break;
+      }
+      case '--verbose': verbose = true; break;
+      default: fail(`Unknown option: ${flag}`);
+    }
+  }
+
+  if (Object.keys(config.grid).length === 0) {
+    fail('Nothing to sweep: pass --target-margin, --min-margin and/or --skip-below (or a config grid)');
+  }
+
+  return { config, out, formats, top, verbose };
+}
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+
+  if (args.includes('--help') || args.includes('-h')) {
+    console.log(`
+Parameter Sweep CLI (offline batch simulations ranked by survival, balance, win rate)
+
+Usage:
+  npm run simulate:sweep -- [options]
+
+Grid (comma-separated values; omitted fields keep the personality default):
+  --target-margin <list>   e.g. 0.1,0.15,0.2
+  --min-margin <list>      e.g. 0.05,0.1
+  --skip-below <list>      e.g. 0.001,0.01
+
+Options:
+  --config <file>          JSON SweepConfig (grid, mode, roster, rounds, compositeTasks,
+                           partnerships, bidBondBps, ...)
+  --mode <mode>            tournament: one challenger per type vs the roster (default)
+                           uniform: every roster agent plays the candidate
+  --personality <name>     Base policy for candidates (default: balanced)
+  --runs <n>               Seeds per candidate (default: 5)
+  --seed <seed>            First seed; run k uses seed + k (default: random)
+  --rounds <n>             Rounds per run (default: ${DEFAULT_ROUNDS})
+  --tasks <n>              Tasks per round (default: ${DEFAULT_TASKS_PER_ROUND})
+  --top <n>                Rows of the ranking to print (default: ${DEFAULT_TOP})
+  --out <dir>              Output directory (default: ./${DEFAULT_OUT_DIR})
+  --format <list>          csv, json or csv,json (default: csv,json)
+  --verbose                Show pipeline logs
+`);
+    return;
+  }
+
+  const { config, out, formats, top, verbose } = await loadConfig(args);
+
+  // Services log every step; keep stdout readable unless asked
+  const log = console.log;
+  if (!verbose) console.log = () => {};
+
+  const result = await runParameterSweep(config, (done, total, label) => {
+    log(`  [${done}/${total}] ${label}`);
+  });
+  const written = await writeSweepOutput(result, out, formats);
+
+  log(`\nRanking (${result.mode}, ${result.personality}, ${result.seeds.length} seed(s) x ${result.rounds} rounds):`);
+  log('rank  survival  avg_balance  win_rate  candidate');
+  for (const row of result.ranking.slice(0, top)) {
+    log(
+      `${String(row.rank).padStart(4)}  ${(row.survival_rate * 100).toFixed(1).padStart(7)}%  ` +
+      `${row.avg_final_balance.toFixed(4).padStart(11)}  ${(row.win_rate * 100).toFixed(1).padStart(7)}%  ${row.label}`
+    );
+  }
+  if (result.skipped.length > 0) {
+    log(`\nSkipped ${result.skipped.length} combination(s):`);
+    for (const row of result.skipped) log(`  ${row.label} (${row.reason})`);
+  }
+  log(`\nWrote ${written.join(', ')}`);
+}
+
+main().catch((err) => {
+  console.error('Fatal error:', err);
+  process.exit(1);
+});
@@ -0,0 +1,208 @@
+/**
+ * Parameter sweep / policy tournament
+ *
+ * Expands a grid over AgentPolicy.bidding fields (target_margin, min_margin,
+ * skip_below) into candidate policies, runs each through the same set of
+ * seeded batch simulations, and ranks candidates by survival rate, then
+ * average final balance, then win rate.
+ *
+ * Every candidate sees the same seeds, so differences come from the policy
+ * and not from the task draw.
+ */
+
+import { PERSONALITY_DEFAULTS } from '@/lib/agent-runtime/constants';
+import { randomSeed } from '@/lib/random';
+import { runBatchSimulation } from './batch';
+import { DEFAULT_ROSTER } from './roster';
+import type {
+  BatchResult,
+  BiddingCandidate,
+  BiddingField,
+  BiddingGrid,
+  CandidateRanking,
+  RosterEntry,
+  SkippedCandidate,
+  SweepConfig,
+  SweepResult,
+} from './types';
+
+const BIDDING_FIELDS: BiddingField[] = ['target_margin', 'min_margin', 'skip_below'];
+const CANDIDATE_TAG = 'candidate';
+const DEFAULT_RUNS_PER_CANDIDATE = 5;
+
+/**
+ * Cartesian product of the grid. Fields not in the grid take the personality
+ * default; combinations with min_margin > target_margin come back in `skipped`
+ * instead of `candidates`.
+ */
+export function expandGrid(
+  grid: BiddingGrid,
+  personality: string = 'balanced'
+): { candidates: BiddingCandidate[]; skipped: SkippedCandidate[] } {
+  const defaults = (PERSONALITY_DEFAULTS[personality] || PERSONALITY_DEFAULTS.balanced).bidding;
+
+  let candidates: BiddingCandidate[] = [{
+    target_margin: defaults.target_margin,
+    min_margin: defaults.min_margin,
+    skip_below: defaults.skip_below,
+  }];
+
+  for (const field of BIDDING_FIELDS) {
+    const values = grid[field];
+    if (!values || values.length === 0) continue;
+    candidates = candidates.flatMap(c => values.map(v => ({ ...c, [field]: v })));
+  }
+
+  const skipped: SkippedCandidate[] = candidates
+    .filter(c => c.min_margin > c.target_margin)
+    .map(c => ({
+      label: candidateLabel(c),
+      ...c,
+      reason: `min_margin ${c.min_margin} > target_margin ${c.target_margin}`,
+    }));
+
+  return { candidates: candidates.filter(c => c.min_margin <= c.target_margin), skipped };
+}
+
+export function candidateLabel(candidate: BiddingCandidate): string {
+  return BIDDING_FIELDS.map(f => `${f}=${candidate[f]}`).join(' ');
+}
+
+/**
+ * Roster for one candidate: challengers added per task type (tournament)
+ * or the candidate policy applied to every entry (uniform)
+ */
+function buildCandidateRoster(
+  config: SweepConfig,
+  candidate: BiddingCandidate,
+  personality: string
+): RosterEntry[] {
+  const roster = config.roster || DEFAULT_ROSTER;
+
+  if (config.mode === 'uniform') {
+    return roster.map(entry => ({
+      ...entry,
+      personality,
+      policy: { ...entry.policy, bidding: { ...entry.policy?.bidding, ...candidate } },
+      tag: CANDIDATE_TAG,
+    }));
+  }
+
+  const types = [...new Set(roster.map(entry => entry.type))];
+  return [
+    ...roster,
+    ...types.map(type => ({
+      type,
+      personality,
+      name: `challenger-${type}`,
+      policy: { bidding: candidate },
+      tag: CANDIDATE_TAG,
+    })),
+  ];
+}
+
+interface CandidateTotals {
+  agents: number;
+  survived: number;
+  finalBalance: number;
+  balanceChange: number;
+  bids: number;
+  wins: number;
+}
+
+function accumulate(totals: CandidateTotals, result: BatchResult): void {
+  const candidateIds = new Set(result.agents.filter(a => a.tag === CANDIDATE_TAG).map(a => a.id));
+
+  for (const state of result.finalStates) {
+    if (!candidateIds.has(state.agent_id)) continue;
+    totals.agents += 1;
+    if (state.status !== 'DEAD') totals.survived += 1;
+    totals.finalBalance += state.balance;
+    totals.balanceChange += state.balance - state.starting_balance;
+  }
+
+  for (const bid of result.bids) {
+    if (!candidateIds.has(bid.agent_id)) continue;
+    totals.bids += 1;
+    if (bid.status === 'WON') totals.wins += 1;
+  }
+}
+
+/**
+ * Run every candidate on the same seeds and rank them.
+ * onRun is called after each simulation (for progress output).
+ * Throws when no grid combination is runnable.
+ */
+export async function runParameterSweep(
+  config: SweepConfig,
+  onRun?: (done: number, total: number, label: string) => void
+): Promise<SweepResult> {
+  const personality = config.personality || 'balanced';
+  const mode = config.mode || 'tournament';
+  const runsPerCandidate = config.runsPerCandidate ?? DEFAULT_RUNS_PER_CANDIDATE;
+  const baseSeed = config.seed ?? randomSeed();
+  const seeds = Array.from({ length: runsPerCandidate }, (_, i) => (baseSeed + i) >>> 0);
+
+  const { candidates, skipped } = expandGrid(config.grid, personality);
+  if (candidates.length === 0) {
+    throw new Error(`No runnable candidates: every grid combination was skipped (${skipped[0]?.reason})`);
+  }
+  const total = candidates.length * seeds.length;
+  let done = 0;
+
+  const rows: Omit<CandidateRanking, 'rank'>[] = [];
+
+  for (const candidate of candidates) {
+    const label = candidateLabel(candidate);
+    const roster = buildCandidateRoster({ ...config, mode }, candidate, personality);
+    const totals: CandidateTotals = { agents: 0, survived: 0, finalBalance: 0, balanceChange: 0, bids: 0, wins: 0 };
+
+    for (const seed of seeds) {
+      const result = await runBatchSimulation({
+        rounds: config.rounds,
+        tasksPerRound: config.tasksPerRound,
+        roster,
+        seed,
+        livingCostPerRound: config.livingCostPerRound,
+        taskTypes: config.taskTypes,
+        compositeTasks: config.compositeTasks,
+        partnerships: config.partnerships,
+        auction: config.auction,
+        bidBondBps: config.bidBondBps,
+      });
+      accumulate(totals, result);
+      onRun?.(++done, total, label);
+    }
+
+    rows.push({
+      label,
+      ...candidate,
+      runs: seeds.length,
+      agents: totals.agents,
+      survival_rate: totals.agents > 0 ? totals.survived / totals.agents : 0,
+      avg_final_balance: totals.agents > 0 ? totals.finalBalance / totals.agents : 0,
+      avg_balance_change: totals.agents > 0 ? totals.balanceChange / totals.agents : 0,
+      win_rate: totals.bids > 0 ? totals.wins / totals.bids : 0,
+      bids: totals.bids,
+      wins: totals.wins,
+    });
+  }
+
+  const ranking = rows
+    .sort((a, b) =>
+      b.survival_rate - a.survival_rate ||
+      b.avg_final_balance - a.avg_final_balance ||
+      b.win_rate - a.win_rate
+    )
+    .map((row, i) => ({ rank: i + 1, ...row }));
+
+  return {
+    mode,
+    personality,
+    seeds,
+    rounds: config.rounds,
+    tasksPerRound: config.tasksPerRound,
+    ranking,
+    skipped,
+  };
+}
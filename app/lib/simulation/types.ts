@@ -0,0 +1,233 @@
+/**
+ * Types for the headless batch simulator
+ */
+
+import type { AgentPolicy } from '@/lib/agent-runtime/types';
+import type { AgentType } from '@/types/database';
+import type {
+  AuctionConfig,
+  AuctionMechanismType,
+  RoundProcessorResult,
+  TaskType,
+} from '@/lib/services/types';
+
+// =============================================================================
+// ROSTER
+// =============================================================================
+
+/**
+ * Per-section overrides merged over the personality's default policy,
+ * e.g. { bidding: { target_margin: 0.12 } }
+ */
+export type PolicyOverrides = {
+  [K in keyof AgentPolicy]?: Partial<AgentPolicy[K]>;
+};
+
+export interface RosterEntry {
+  type: AgentType | `${AgentType}`;
+  personality?: string;       // Key of PERSONALITY_DEFAULTS (default 'balanced')
+  balance?: number;           // Starting balance in USDC (default 1.0)
+  reputation?: number;        // Starting reputation (default 3.8)
+  policy?: PolicyOverrides;
+  name?: string;              // Defaults to `${type}-${personality}-${n}`
+  count?: number;             // Copies of this entry (default 1)
+  tag?: string;               // Carried onto the agent, e.g. to pick out sweep candidates
+}
+
+/**
+ * An ACTIVE partnership between two seeded agents (by name), bidding
+ * jointly on composite tasks. split is the first agent's percentage.
+ */
+export interface PartnershipEntry {
+  agents: [string, string];
+  split?: number;             // Default 50
+}
+
+export interface SimulationAgent {
+  id: string;
+  name: string;
+  type: string;
+  personality: string;
+  startingBalance: number;
+  policy: AgentPolicy;
+  tag?: string;
+}
+
+// =============================================================================
+// BATCH CONFIG
+// =============================================================================
+
+export interface BatchConfig {
+  rounds: number;
+  tasksPerRound: number;
+  roster: RosterEntry[];
+  seed?: number;               // Random seed if omitted (returned in the result)
+  livingCostPerRound?: number; // Default 0.005, same as simulate-v2
+  taskTypes?: TaskType[];      // Task type cycle (default REVIEW, CURATION, CATALOG)
+  compositeTasks?: TaskType[][]; // Composite tasks added to the cycle, e.g. [["CATALOG", "REVIEW"]]
+  partnerships?: PartnershipEntry[];
+  auction?: AuctionConfig;
+  bidBondBps?: number;         // Bid bond share of each bid (default BID_BOND_BPS; 0 = off)
+}
+
+// =============================================================================
+// OUTPUT ROWS
+// =============================================================================
+
+export interface AgentStateRow {
+  round: number;
+  agent_id: string;
+  name: string;
+  type: string;
+  personality: string;
+  balance: number;
+  reputation: number;
+  status: string;
+}
+
+export interface BidRow {
+  round: number;
+  task_id: string;
+  task_type: string;
+  agent_id: string;
+  agent_name: string;
+  amount: number;
+  margin: number | null;
+  status: string;
+  clearing_price: number | null;
+  auction_mechanism: AuctionMechanismType | null;
+}
+
+export interface WinnerRow {
+  round: number;
+  task_id: string;
+  task_type: string;
+  max_bid: number;
+  agent_id: string;
+  agent_name: string;
+  bid_amount: number;
+  clearing_price: number;
+  auction_mechanism: AuctionMechanismType | null;
+  task_status: string;
+  quality_score: number | null;
+  revisions: number | null;
+}
+
+export interface LifecycleRow {
+  round: number;
+  agent_id: string;
+  agent_name: string;
+  from: string;
+  to: string;
+}
+
+export interface FinalStateRow {
+  agent_id: string;
+  name: string;
+  type: string;
+  personality: string;
+  starting_balance: number;
+  balance: number;
+  reputation: number;
+  status: string;
+  tasks_completed: number;
+}
+
+export interface RoundSummaryRow {
+  round: number;
+  tasks: number;
+  bids: number;
+  /** Bids placed jointly by partnerships on composite tasks */
+  joint_bids: number;
+  auctions_closed: number;
+  completed: number;
+  expired: number;
+  /** Overdue deliveries failed this round (reassigned or not) */
+  failed: number;
+  revenue: number;
+  living_costs: number;
+  exceptions: number;
+  brain_wakeups: number;
+}
+
+export interface BatchResult {
+  seed: number;
+  config: Omit<BatchConfig, 'seed'>;
+  agents: SimulationAgent[];
+  rounds: RoundSummaryRow[];
+  agentStates: AgentStateRow[];
+  bids: BidRow[];
+  winners: WinnerRow[];
+  lifecycle: LifecycleRow[];
+  /** Every agent after the last round, including dead ones */
+  finalStates: FinalStateRow[];
+  /** Raw pipeline results, one per round */
+  results: RoundProcessorResult[];
+}
+
+// =============================================================================
+// PARAMETER SWEEP
+// =============================================================================
+
+export type BiddingField = 'target_margin' | 'min_margin' | 'skip_below';
+
+/** Values to try per bidding field; omitted fields keep the personality default */
+export type BiddingGrid = Partial<Record<BiddingField, number[]>>;
+
+export type BiddingCandidate = Record<BiddingField, number>;
+
+/** A grid combination that was not run, and why */
+export interface SkippedCandidate extends BiddingCandidate {
+  label: string;
+  reason: string;
+}
+
+/**
+ * tournament: one candidate agent per task type joins the roster, the rest
+ *             keep their own policies
+ * uniform:    every roster agent plays the candidate policy
+ */
+export type SweepMode = 'tournament' | 'uniform';
+
+export interface SweepConfig {
+  grid: BiddingGrid;
+  mode?: SweepMode;            // Default 'tournament'
+  personality?: string;        // Base policy for candidates (default 'balanced')
+  runsPerCandidate?: number;   // Seeds per candidate, shared across candidates (default 5)
+  seed?: number;               // First seed (random if omitted)
+  rounds: number;
+  tasksPerRound: number;
+  roster?: RosterEntry[];      // Market / opponents (default DEFAULT_ROSTER)
+  livingCostPerRound?: number;
+  taskTypes?: TaskType[];
+  compositeTasks?: TaskType[][];
+  partnerships?: PartnershipEntry[];
+  auction?: AuctionConfig;
+  bidBondBps?: number;
+}
+
+export interface CandidateRanking {
+  rank: number;
+  label: string;               // e.g. "target_margin=0.15 min_margin=0.1 skip_below=0.001"
+  target_margin: number;
+  min_margin: number;
+  skip_below: number;
+  runs: number;
+  agents: number;              // Candidate agents summed over runs
+  survival_rate: number;       // Share of candidate agents not DEAD at the end
+  avg_final_balance: number;
+  avg_balance_change: number;
+  win_rate: number;            // Won bids / bids placed
+  bids: number;
+  wins: number;
+}
+
+export interface SweepResult {
+  mode: SweepMode;
+  personality: string;
+  seeds: number[];
+  rounds: number;
+  tasksPerRound: number;
+  ranking: CandidateRanking[];
+  skipped: SkippedCandidate[]; // Grid combinations left out of the ranking
+}
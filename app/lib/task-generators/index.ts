@@ -5,40 +5,61 @@
  *
  * 1. Steady-State: Constant flow, even distribution, predictable prices
  * 2. Market Waves: Oscillating demand with price fluctuations
- * 3. Scenario: Pre-defined scenarios (bull, bear, type shortage, gold rush)
+ * 3. Scenario: Pre-defined scenarios (bull, bear, type shortage, seller rush,
+ *    partnership demand, gold rush)
  *
  * All generators insert tasks into the `tasks` table with status=OPEN.
  * The agent runtime autopilot picks them up and evaluates bids.
+ *
+ * Pass `seed` in a generator's config to make its task stream reproducible.
  */
 
 import { supabase } from "../supabase";
 import { TaskType } from "@/types/database";
+import { createRng, defaultRng, type Rng } from "../random";
 
 // ============================================================================
 // SHARED HELPERS
 // ============================================================================
 
-/** Per-task cost baselines by type (from agent-runtime/constants.ts) */
+/**
+ * Per-task cost baselines by type (from agent-runtime/constants.ts); the same
+ * costs bidding prices against and settlement charges (TASK_OPERATIONAL_COSTS)
+ */
 const TASK_COST_BASELINES: Record<string, number> = {
   CATALOG: 0.057,  // 0.03 + 0.02 + 0.005 + 0.002
   REVIEW: 0.072,   // 0.04 + 0.025 + 0.005 + 0.002
   CURATION: 0.067, // 0.05 + 0.01 + 0.005 + 0.002
+  SELLER: 0.029,   // 0.02 + 0.005 + 0.002 + 0.002
 };
 
-const TASK_TYPES = [TaskType.CATALOG, TaskType.REVIEW, TaskType.CURATION];
+const TASK_TYPES = [TaskType.CATALOG, TaskType.REVIEW, TaskType.CURATION, TaskType.SELLER];
+
+/** Composite tasks only a partnership covering both types can win (first type leads) */
+const COMPOSITE_TYPES: [TaskType, TaskType][] = [
+  [TaskType.CATALOG, TaskType.REVIEW],
+  [TaskType.CATALOG, TaskType.CURATION],
+  [TaskType.REVIEW, TaskType.CURATION],
+  [TaskType.SELLER, TaskType.CATALOG],
+];
 
 /** Random float between min and max */
-function rand(min: number, max: number): number {
-  return min + Math.random() * (max - min);
+function rand(rng: Rng, min: number, max: number): number {
+  return rng.float(min, max);
 }
 
 /** Pick a random element from an array */
-function pick<T>(arr: T[]): T {
-  return arr[Math.floor(Math.random() * arr.length)];
+function pick<T>(rng: Rng, arr: T[]): T {
+  return rng.pick(arr);
+}
+
+/** Generator rng from an optional seed (Math.random when unseeded) */
+function rngFromSeed(seed?: number): Rng {
+  return seed === undefined ? defaultRng : createRng(seed);
 }
 
 /** Generate a plausible input_ref for a task type */
-function generateInputRef(type: TaskType): string {
+function generateInputRef(rng: Rng, type: TaskType): string {
   const refs: Record<string, string[]> = {
     CATALOG: [
       "product:electronics:wireless-earbuds-2026",
@@ -70,23 +91,39 @@ function generateInputRef(type: TaskType): string {
       "curate:guide:travel-accessories-2026",
       "curate:collection:fitness-tracker-comparison",
     ],
+    SELLER: [
+      "seller:quote:bulk-order-wireless-earbuds-500u",
+      "seller:quote:wholesale-organic-protein-bars",
+      "seller:quote:custom-print-run-gift-boxes",
+      "seller:negotiate:supplier-terms-smart-thermostats",
+      "seller:negotiate:volume-discount-standing-desks",
+      "seller:negotiate:return-window-espresso-machines",
+      "seller:fulfil:order-usb-c-hub-express-shipping",
+      "seller:fulfil:order-camping-gear-bundle",
+    ],
   };
-  return pick(refs[type] || refs.CATALOG);
+  return pick(rng, refs[type] || refs.CATALOG);
 }
 
-/** Insert a task into the database */
+/** Insert a task into the database (requiredTypes makes it a composite task) */
 async function createTask(
+  rng: Rng,
   type: TaskType,
   maxBid: number,
-  deadlineMinutes: number = 30
+  deadlineMinutes: number = 30,
+  requiredTypes?: TaskType[]
 ): Promise<string | null> {
   const deadline = new Date(Date.now() + deadlineMinutes * 60 * 1000).toISOString();
+  const inputRef = requiredTypes
+    ? requiredTypes.map(t => generateInputRef(rng, t)).join(" + ")
+    : generateInputRef(rng, type);
 
   const { data, error } = await supabase
     .from("tasks")
     .insert({
       type,
-      input_ref: generateInputRef(type),
+      ...(requiredTypes ? { required_types: requiredTypes } : {}),
+      input_ref: inputRef,
       max_bid: Math.round(maxBid * 1000) / 1000, // 3 decimal places
       deadline,
       status: "OPEN",
@@ -113,7 +150,7 @@ async function createTask(
 // ============================================================================
 
 export interface SteadyStateConfig {
-  /** Tasks per round (default: 3 - one per type) */
+  /** Tasks per round (default: 4 - one per type) */
   tasks_per_round: number;
   /** Milliseconds between rounds (default: 15000) */
   interval_ms: number;
@@ -121,10 +158,12 @@ export interface SteadyStateConfig {
   price_range: [number, number];
   /** Task deadline in minutes (default: 30) */
   deadline_minutes: number;
+  /** RNG seed for reproducible task streams (default: unseeded) */
+  seed?: number;
 }
 
 const STEADY_STATE_DEFAULTS: SteadyStateConfig = {
-  tasks_per_round: 3,
+  tasks_per_round: 4,
   interval_ms: 15000,
   price_range: [1.2, 2.0],
   deadline_minutes: 30,
@@ -141,9 +180,11 @@ export class SteadyStateGenerator {
   private config: SteadyStateConfig;
   private running = false;
   private round = 0;
+  private rng: Rng;
 
   constructor(config: Partial<SteadyStateConfig> = {}) {
     this.config = { ...STEADY_STATE_DEFAULTS, ...config };
+    this.rng = rngFromSeed(this.config.seed);
   }
 
   async start(): Promise<void> {
@@ -171,7 +212,7 @@ export class SteadyStateGenerator {
       const type = TASK_TYPES[i % TASK_TYPES.length];
       const maxBid = 2.0;
 
-      const id = await createTask(type, maxBid, this.config.deadline_minutes);
+      const id = await createTask(this.rng, type, maxBid, this.config.deadline_minutes);
       if (id) tasks.push(`${type}:$${maxBid.toFixed(3)}`);
     }
 
@@ -198,6 +239,8 @@ export interface MarketWavesConfig {
   spike_chance: number;
   /** Deadline in minutes (default: 30) */
   deadline_minutes: number;
+  /** RNG seed for reproducible task streams (default: unseeded) */
+  seed?: number;
 }
 
 const MARKET_WAVES_DEFAULTS: MarketWavesConfig = {
@@ -225,9 +268,11 @@ export class MarketWavesGenerator {
   private config: MarketWavesConfig;
   private running = false;
   private round = 0;
+  private rng: Rng;
 
   constructor(config: Partial<MarketWavesConfig> = {}) {
     this.config = { ...MARKET_WAVES_DEFAULTS, ...config };
+    this.rng = rngFromSeed(this.config.seed);
   }
 
   async start(): Promise<void> {
@@ -259,19 +304,19 @@ export class MarketWavesGenerator {
     const dominantTypeIndex = Math.floor(this.round / this.config.wave_period) % TASK_TYPES.length;
 
     // Check for spike
-    const isSpike = Math.random() < this.config.spike_chance;
+    const isSpike = this.rng.chance(this.config.spike_chance);
 
     const tasks: string[] = [];
 
     for (let i = 0; i < taskCount; i++) {
       // 60% chance of dominant type, 40% random
-      const type = Math.random() < 0.6
+      const type = this.rng.chance(0.6)
         ? TASK_TYPES[dominantTypeIndex]
-        : pick(TASK_TYPES);
+        : pick(this.rng, TASK_TYPES);
 
       const maxBid = 2.0;
 
-      const id = await createTask(type, maxBid, this.config.deadline_minutes);
+      const id = await createTask(this.rng, type, maxBid, this.config.deadline_minutes);
       if (id) tasks.push(`${type}:$${maxBid.toFixed(3)}`);
     }
 
@@ -290,6 +335,8 @@ export type ScenarioType =
   | "bear_market"      // Low demand, low prices, survival mode
   | "catalog_shortage" // Few CATALOG tasks → CATALOG agents struggle
   | "review_boom"      // Tons of REVIEW tasks → REVIEW agents thrive
+  | "seller_rush"      // Flood of cheap quote/fulfil SELLER tasks → SELLER agents thrive
+  | "partnership_demand" // Composite tasks (e.g. CATALOG+REVIEW) only partnerships can win
   | "race_to_bottom"   // Many tasks but very low max_bids
   | "gold_rush"        // Few very high-value tasks → intense competition
   | "mixed";           // Random mix of scenarios that changes every N rounds
@@ -303,6 +350,8 @@ export interface ScenarioConfig {
   mixed_switch_rounds: number;
   /** Deadline in minutes (default: 30) */
   deadline_minutes: number;
+  /** RNG seed for reproducible task streams (default: unseeded) */
+  seed?: number;
 }
 
 const SCENARIO_DEFAULTS: ScenarioConfig = {
@@ -321,6 +370,8 @@ const SCENARIO_DEFAULTS: ScenarioConfig = {
  * - bear_market: Low volume, tight prices (tests survival strategies)
  * - catalog_shortage: Starves CATALOG agents (tests type-specific adaptation)
  * - review_boom: Floods REVIEW tasks (tests volume-chasers)
+ * - seller_rush: Floods low-cost SELLER tasks (tests thin-margin volume play)
+ * - partnership_demand: Mostly composite tasks (tests whether partnering pays)
  * - race_to_bottom: Low prices across the board (tests min_margin behavior)
  * - gold_rush: Few tasks with huge payoffs (tests competitive bidding)
  * - mixed: Rotates through scenarios to test adaptation
@@ -330,9 +381,11 @@ export class ScenarioGenerator {
   private running = false;
   private round = 0;
   private currentScenario: ScenarioType;
+  private rng: Rng;
 
   constructor(config: Partial<ScenarioConfig> = {}) {
     this.config = { ...SCENARIO_DEFAULTS, ...config };
+    this.rng = rngFromSeed(this.config.seed);
     this.currentScenario = this.config.scenario === "mixed"
       ? "bull_market"
       : this.config.scenario;
@@ -367,10 +420,12 @@ export class ScenarioGenerator {
       "bear_market",
       "catalog_shortage",
       "review_boom",
+      "seller_rush",
+      "partnership_demand",
       "race_to_bottom",
       "gold_rush",
     ];
-    return pick(scenarios);
+    return pick(this.rng, scenarios);
   }
 
   async generateRound(): Promise<void> {
@@ -379,11 +434,11 @@ export class ScenarioGenerator {
     switch (this.currentScenario) {
       case "bull_market": {
         // 4-6 tasks, 1.5x-3.0x cost
-        const count = Math.round(rand(4, 6));
+        const count = Math.round(rand(this.rng, 4, 6));
         for (let i = 0; i < count; i++) {
-          const type = pick(TASK_TYPES);
-          const maxBid = TASK_COST_BASELINES[type] * rand(1.5, 3.0);
-          const id = await createTask(type, maxBid, this.config.deadline_minutes);
+          const type = pick(this.rng, TASK_TYPES);
+          const maxBid = TASK_COST_BASELINES[type] * rand(this.rng, 1.5, 3.0);
+          const id = await createTask(this.rng, type, maxBid, this.config.deadline_minutes);
           if (id) tasks.push(`${type}:$${maxBid.toFixed(3)}`);
         }
         break;
@@ -391,11 +446,11 @@ export class ScenarioGenerator {
 
       case "bear_market": {
         // 1-2 tasks, 0.9x-1.3x cost (some unprofitable!)
-        const count = Math.round(rand(1, 2));
+        const count = Math.round(rand(this.rng, 1, 2));
         for (let i = 0; i < count; i++) {
-          const type = pick(TASK_TYPES);
-          const maxBid = TASK_COST_BASELINES[type] * rand(0.9, 1.3);
-          const id = await createTask(type, maxBid, this.config.deadline_minutes);
+          const type = pick(this.rng, TASK_TYPES);
+          const maxBid = TASK_COST_BASELINES[type] * rand(this.rng, 0.9, 1.3);
+          const id = await createTask(this.rng, type, maxBid, this.config.deadline_minutes);
           if (id) tasks.push(`${type}:$${maxBid.toFixed(3)}`);
         }
         break;
@@ -403,12 +458,12 @@ export class ScenarioGenerator {
 
       case "catalog_shortage": {
         // 3-4 tasks but NO CATALOG type
-        const count = Math.round(rand(3, 4));
-        const types = [TaskType.REVIEW, TaskType.CURATION];
+        const count = Math.round(rand(this.rng, 3, 4));
+        const types = [TaskType.REVIEW, TaskType.CURATION, TaskType.SELLER];
         for (let i = 0; i < count; i++) {
-          const type = pick(types);
-          const maxBid = TASK_COST_BASELINES[type] * rand(1.2, 2.0);
-          const id = await createTask(type, maxBid, this.config.deadline_minutes);
+          const type = pick(this.rng, types);
+          const maxBid = TASK_COST_BASELINES[type] * rand(this.rng, 1.2, 2.0);
+          const id = await createTask(this.rng, type, maxBid, this.config.deadline_minutes);
           if (id) tasks.push(`${type}:$${maxBid.toFixed(3)}`);
         }
         break;
@@ -416,23 +471,55 @@ export class ScenarioGenerator {
 
       case "review_boom": {
         // 5-8 tasks, mostly REVIEW
-        const count = Math.round(rand(5, 8));
+        const count = Math.round(rand(this.rng, 5, 8));
+        for (let i = 0; i < count; i++) {
+          const type = this.rng.chance(0.75) ? TaskType.REVIEW : pick(this.rng, TASK_TYPES);
+          const maxBid = TASK_COST_BASELINES[type] * rand(this.rng, 1.3, 2.5);
+          const id = await createTask(this.rng, type, maxBid, this.config.deadline_minutes);
+          if (id) tasks.push(`${type}:$${maxBid.toFixed(3)}`);
+        }
+        break;
+      }
+
+      case "seller_rush": {
+        // 5-8 tasks, mostly SELLER at 1.2x-2.2x of its low baseline
+        const count = Math.round(rand(this.rng, 5, 8));
         for (let i = 0; i < count; i++) {
-          const type = Math.random() < 0.75 ? TaskType.REVIEW : pick(TASK_TYPES);
-          const maxBid = TASK_COST_BASELINES[type] * rand(1.3, 2.5);
-          const id = await createTask(type, maxBid, this.config.deadline_minutes);
+          const type = this.rng.chance(0.75) ? TaskType.SELLER : pick(this.rng, TASK_TYPES);
+          const maxBid = TASK_COST_BASELINES[type] * rand(this.rng, 1.2, 2.2);
+          const id = await createTask(this.rng, type, maxBid, this.config.deadline_minutes);
           if (id) tasks.push(`${type}:$${maxBid.toFixed(3)}`);
         }
         break;
       }
 
+      case "partnership_demand": {
+        // 3-5 tasks, mostly composite, priced on both types' baselines (1.3x-2.5x)
+        const count = Math.round(rand(this.rng, 3, 5));
+        for (let i = 0; i < count; i++) {
+          if (this.rng.chance(0.7)) {
+            const types = pick(this.rng, COMPOSITE_TYPES);
+            const baseline = TASK_COST_BASELINES[types[0]] + TASK_COST_BASELINES[types[1]];
+            const maxBid = baseline * rand(this.rng, 1.3, 2.5);
+            const id = await createTask(this.rng, types[0], maxBid, this.config.deadline_minutes, types);
+            if (id) tasks.push(`${types.join("+")}:$${maxBid.toFixed(3)}`);
+          } else {
+            const type = pick(this.rng, TASK_TYPES);
+            const maxBid = TASK_COST_BASELINES[type] * rand(this.rng, 1.2, 2.0);
+            const id = await createTask(this.rng, type, maxBid, this.config.deadline_minutes);
+            if (id) tasks.push(`${type}:$${maxBid.toFixed(3)}`);
+          }
+        }
+        break;
+      }
+
       case "race_to_bottom": {
         // 4-5 tasks, 0.95x-1.15x cost (barely profitable or loss-making)
-        const count = Math.round(rand(4, 5));
+        const count = Math.round(rand(this.rng, 4, 5));
         for (let i = 0; i < count; i++) {
-          const type = pick(TASK_TYPES);
-          const maxBid = TASK_COST_BASELINES[type] * rand(0.95, 1.15);
-          const id = await createTask(type, maxBid, this.config.deadline_minutes);
+          const type = pick(this.rng, TASK_TYPES);
+          const maxBid = TASK_COST_BASELINES[type] * rand(this.rng, 0.95, 1.15);
+          const id = await createTask(this.rng, type, maxBid, this.config.deadline_minutes);
           if (id) tasks.push(`${type}:$${maxBid.toFixed(3)}`);
         }
         break;
@@ -440,11 +527,11 @@ export class ScenarioGenerator {
 
       case "gold_rush": {
         // 1-2 tasks with HUGE payoffs (4x-8x cost)
-        const count = Math.round(rand(1, 2));
+        const count = Math.round(rand(this.rng, 1, 2));
         for (let i = 0; i < count; i++) {
-          const type = pick(TASK_TYPES);
-          const maxBid = TASK_COST_BASELINES[type] * rand(4.0, 8.0);
-          const id = await createTask(type, maxBid, this.config.deadline_minutes);
+          const type = pick(this.rng, TASK_TYPES);
+          const maxBid = TASK_COST_BASELINES[type] * rand(this.rng, 4.0, 8.0);
+          const id = await createTask(this.rng, type, maxBid, this.config.deadline_minutes);
           if (id) tasks.push(`${type}:$${maxBid.toFixed(3)}`);
         }
         break;
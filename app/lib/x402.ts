@@ -30,13 +30,14 @@ export { toUsdcUnits, fromUsdcUnits, USDC_ADDRESS, USDC_DECIMALS, COST_SINK_WALL
 
 /**
  * Operational cost per task type (in USDC)
- * Agent pays this to the cost sink wallet after completing a task
+ * Agent pays this to the cost sink wallet after completing a task.
+ * Each equals the per_task sum of AGENT_COSTS, which bidding prices against.
  */
 export const TASK_OPERATIONAL_COSTS = {
   CATALOG: 0.057,
   REVIEW: 0.072,
   CURATION: 0.067,
-  SELLER: 0.05,
+  SELLER: 0.029,
 } as const;
 
 export type TaskType = keyof typeof TASK_OPERATIONAL_COSTS;
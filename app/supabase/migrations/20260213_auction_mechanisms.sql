@@ -0,0 +1,15 @@
+-- ============================================================================
+-- PLUGGABLE AUCTION MECHANISMS
+-- ============================================================================
+-- Records which auction mechanism cleared each bid and the price a winning
+-- bid is actually paid. Under first_price the clearing price equals the bid;
+-- under second_price (Vickrey) the winner is paid the runner-up's price.
+-- ============================================================================
+
+ALTER TABLE bids_cache ADD COLUMN IF NOT EXISTS auction_mechanism TEXT;
+ALTER TABLE bids_cache ADD COLUMN IF NOT EXISTS clearing_price NUMERIC;
+
+COMMENT ON COLUMN bids_cache.auction_mechanism IS
+  'Mechanism that cleared the auction: first_price | second_price | reserve_price | sealed_multi';
+COMMENT ON COLUMN bids_cache.clearing_price IS
+  'Amount paid to a winning bid (null for losing bids)';
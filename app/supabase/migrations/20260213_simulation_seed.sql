@@ -0,0 +1,14 @@
+-- ============================================================================
+-- DETERMINISTIC SIMULATION RUNS
+-- ============================================================================
+-- simulate-v2 draws task generation, auction tie-breaks and reputation rolls
+-- from one seeded RNG. The seed is stored so any run can be replayed.
+-- ============================================================================
+
+ALTER TABLE simulation_state ADD COLUMN IF NOT EXISTS last_seed BIGINT;
+ALTER TABLE simulation_state ADD COLUMN IF NOT EXISTS round_seeds JSONB DEFAULT '{}';
+
+COMMENT ON COLUMN simulation_state.last_seed IS
+  'Seed of the most recent simulate-v2 run (32-bit unsigned)';
+COMMENT ON COLUMN simulation_state.round_seeds IS
+  'Seed per round: { "<round>": { "seed": <seed>, "round_index": <index within run> } }';
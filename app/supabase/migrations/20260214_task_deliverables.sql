@@ -0,0 +1,33 @@
+-- ============================================================================
+-- TASK DELIVERABLES
+-- ============================================================================
+-- The work product an agent delivers for a won task: a product record for
+-- CATALOG, a rating with pros/cons for REVIEW, a ranked list for CURATION,
+-- an onboarding assessment for SELLER. One row per delivered winning bid
+-- (multi-winner auctions produce several per task).
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS task_deliverables (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  bid_id UUID REFERENCES bids_cache(id) ON DELETE SET NULL,
+  agent_id UUID REFERENCES agents(id) ON DELETE SET NULL,
+  task_type TEXT NOT NULL,
+  content JSONB NOT NULL,
+  source TEXT NOT NULL DEFAULT 'stub',
+  model TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_deliverables_task ON task_deliverables(task_id);
+CREATE INDEX IF NOT EXISTS idx_task_deliverables_agent ON task_deliverables(agent_id, created_at DESC);
+
+COMMENT ON COLUMN task_deliverables.content IS
+  'Typed deliverable JSON, shape depends on task_type (see TaskDeliverable in lib/services/types.ts)';
+COMMENT ON COLUMN task_deliverables.source IS
+  'llm = generated by the agent''s model, stub = deterministic offline generator';
+
+-- Task execution gets its own model setting alongside the other LLM activities
+UPDATE simulation_state
+SET llm_models = COALESCE(llm_models, '{}'::jsonb) || jsonb_build_object('execution', 'gemini-2.5-flash-lite')
+WHERE id = 'global' AND NOT (COALESCE(llm_models, '{}'::jsonb) ? 'execution');
@@ -0,0 +1,29 @@
+-- ============================================================================
+-- DELIVERABLE QUALITY + REPUTATION HISTORY
+-- ============================================================================
+-- Each deliverable is graded against its task-type rubric. The grade moves
+-- the agent's reputation (0-5 stars) and every change is written to
+-- reputation_history with its reason and the task that caused it.
+-- ============================================================================
+
+ALTER TABLE task_deliverables
+  ADD COLUMN IF NOT EXISTS quality_score NUMERIC(4,3),
+  ADD COLUMN IF NOT EXISTS grade JSONB,
+  ADD COLUMN IF NOT EXISTS revisions INTEGER NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN task_deliverables.grade IS
+  'Rubric checks behind quality_score (see QualityGrade in lib/services/types.ts)';
+COMMENT ON COLUMN task_deliverables.revisions IS
+  'Reworks before submitting: agents revise while below their execution.quality_threshold';
+
+-- Reputation is a 0-5 star rating with fractional steps, not an integer
+ALTER TABLE reputation_history
+  ALTER COLUMN old_reputation TYPE NUMERIC(6,3),
+  ALTER COLUMN new_reputation TYPE NUMERIC(6,3),
+  ALTER COLUMN change_amount TYPE NUMERIC(6,3);
+
+ALTER TABLE reputation_history
+  ADD COLUMN IF NOT EXISTS task_id UUID REFERENCES tasks(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS quality_score NUMERIC(4,3);
+
+CREATE INDEX IF NOT EXISTS idx_reputation_history_task ON reputation_history(task_id);
@@ -0,0 +1,59 @@
+-- ============================================================================
+-- TASK FAILURES + DELIVERY DEADLINES
+-- ============================================================================
+-- Assigned tasks get a delivery deadline. When it passes without delivery the
+-- round pipeline fails the winning bid, penalizes the agent (fee + reputation),
+-- and reassigns the task to the runner-up bid, or marks it FAILED if none is
+-- left. The agent's brain is woken with a task_failed exception.
+-- ============================================================================
+
+ALTER TABLE tasks
+  ADD COLUMN IF NOT EXISTS delivery_deadline TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS failed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS failure_reason TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_delivery_deadline
+  ON tasks(delivery_deadline) WHERE status = 'ASSIGNED';
+
+COMMENT ON COLUMN tasks.delivery_deadline IS
+  'Set on assignment; an ASSIGNED task past this time is failed or reassigned';
+
+-- Winning bids that were never delivered
+ALTER TABLE bids_cache DROP CONSTRAINT IF EXISTS bids_cache_status_check;
+ALTER TABLE bids_cache ADD CONSTRAINT bids_cache_status_check
+  CHECK (status IN ('PENDING', 'ACCEPTED', 'REJECTED', 'WITHDRAWN', 'WON', 'LOST', 'FAILED'));
+
+-- Brain wake-up reason
+ALTER TABLE exception_history DROP CONSTRAINT IF EXISTS exception_history_exception_type_check;
+ALTER TABLE exception_history ADD CONSTRAINT exception_history_exception_type_check
+  CHECK (exception_type IN (
+    'consecutive_losses', 'low_balance', 'reputation_drop', 'win_rate_drop',
+    'unknown_situation', 'task_failed'
+  ));
+
+-- Failure events
+ALTER TABLE economy_events DROP CONSTRAINT IF EXISTS economy_events_event_type_check;
+ALTER TABLE economy_events ADD CONSTRAINT economy_events_event_type_check CHECK (
+  event_type IN (
+    -- Original types
+    'task_completed', 'investment', 'partnership', 'agent_death',
+    'auction_won', 'policy_change', 'dividend_paid', 'token_bought',
+    'token_sold', 'reputation_changed',
+    -- x402 payment flow types
+    'task_assigned', 'task_payment', 'cost_sink_payment', 'x402_payment',
+    -- Living cost
+    'living_cost',
+    -- Bid and brain events
+    'bid_placed', 'brain_decision',
+    -- Arena game events
+    'season_start', 'season_end', 'round_complete',
+    -- Escrow / dividend events
+    'escrow_deposit', 'dividend_claimed',
+    -- Admin observability events
+    'round_started', 'system_error',
+    -- Platform economics events
+    'platform_registration_fee', 'platform_profit_share', 'platform_buyback',
+    -- NEW: Delivery failures
+    'task_failed', 'task_reassigned'
+  )
+);
@@ -0,0 +1,51 @@
+-- ============================================================================
+-- BID BONDS
+-- ============================================================================
+-- Optional collateral on bids (BID_BOND_BPS). Submitting a bid moves a share
+-- of the bid amount from agents.balance to agents.bonded_balance; the bond is
+-- released when the bid loses or is delivered, and forfeited to the cost sink
+-- when the winner misses its delivery deadline.
+-- ============================================================================
+
+ALTER TABLE agents
+  ADD COLUMN IF NOT EXISTS bonded_balance NUMERIC(20, 6) NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN agents.bonded_balance IS
+  'USDC locked in open bid bonds; not part of balance (wallet USDC = balance + bonded_balance)';
+
+ALTER TABLE bids_cache
+  ADD COLUMN IF NOT EXISTS bond_amount NUMERIC(20, 6) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS bond_status TEXT
+    CHECK (bond_status IN ('LOCKED', 'RELEASED', 'FORFEITED'));
+
+CREATE INDEX IF NOT EXISTS idx_bids_cache_bond_locked
+  ON bids_cache(agent_id) WHERE bond_status = 'LOCKED';
+
+-- Forfeit events
+ALTER TABLE economy_events DROP CONSTRAINT IF EXISTS economy_events_event_type_check;
+ALTER TABLE economy_events ADD CONSTRAINT economy_events_event_type_check CHECK (
+  event_type IN (
+    -- Original types
+    'task_completed', 'investment', 'partnership', 'agent_death',
+    'auction_won', 'policy_change', 'dividend_paid', 'token_bought',
+    'token_sold', 'reputation_changed',
+    -- x402 payment flow types
+    'task_assigned', 'task_payment', 'cost_sink_payment', 'x402_payment',
+    -- Living cost
+    'living_cost',
+    -- Bid and brain events
+    'bid_placed', 'brain_decision',
+    -- Arena game events
+    'season_start', 'season_end', 'round_complete',
+    -- Escrow / dividend events
+    'escrow_deposit', 'dividend_claimed',
+    -- Admin observability events
+    'round_started', 'system_error',
+    -- Platform economics events
+    'platform_registration_fee', 'platform_profit_share', 'platform_buyback',
+    -- Delivery failures
+    'task_failed', 'task_reassigned',
+    -- NEW: Bid bonds
+    'bond_forfeited'
+  )
+);
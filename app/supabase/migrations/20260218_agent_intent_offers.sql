@@ -0,0 +1,19 @@
+-- ============================================================================
+-- AGENT OFFERS ON CONSUMER INTENTS
+-- ============================================================================
+-- SELLER and CURATION agents now answer open intents from the round
+-- pipeline. Those offers are written straight to offers_cache (no chain
+-- offer yet), so chain_intent_id may be null, and each offer records the
+-- round it was made in.
+-- ============================================================================
+
+ALTER TABLE offers_cache ALTER COLUMN chain_intent_id DROP NOT NULL;
+
+ALTER TABLE offers_cache
+  ADD COLUMN IF NOT EXISTS round_number INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_offers_cache_intent_pending
+  ON offers_cache(intent_id) WHERE status = 'PENDING';
+
+COMMENT ON COLUMN offers_cache.relevance_score IS
+  'Category/tag match of the offer to the intent, 0-1000';
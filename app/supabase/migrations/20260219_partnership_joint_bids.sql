@@ -0,0 +1,24 @@
+-- ============================================================================
+-- COMPOSITE TASKS + PARTNERSHIP JOINT BIDS
+-- ============================================================================
+-- A composite task lists every agent type it needs (e.g. CATALOG + REVIEW);
+-- tasks.type is the lead type. Only an ACTIVE partnership covering all of
+-- them can bid: the lead agent bids for the pair, and on completion the
+-- payment is split per the partnership's agreed split (partner payout is
+-- logged as a 'partnership' economy event).
+-- ============================================================================
+
+ALTER TABLE tasks
+  ADD COLUMN IF NOT EXISTS required_types TEXT[];
+
+COMMENT ON COLUMN tasks.required_types IS
+  'Composite task: every agent type the work needs (NULL = single-type task)';
+
+ALTER TABLE bids_cache
+  ADD COLUMN IF NOT EXISTS partnership_id UUID REFERENCES partnerships_cache(id);
+
+CREATE INDEX IF NOT EXISTS idx_bids_cache_partnership
+  ON bids_cache(partnership_id) WHERE partnership_id IS NOT NULL;
+
+COMMENT ON COLUMN bids_cache.partnership_id IS
+  'Joint bid: the partnership the bidding (lead) agent bid for';
@@ -0,0 +1,69 @@
+-- ============================================================================
+-- POLICY VERSION HISTORY
+-- ============================================================================
+-- agent_policies holds one live row per agent; every write to it is also
+-- appended here with its trigger, the brain's reasoning and a field-level
+-- diff against the previous version, so versions can be compared and an
+-- agent rolled back (see lib/agent-runtime/policy-history.ts).
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS policy_versions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  agent_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  policy_json JSONB NOT NULL,
+  trigger_type TEXT NOT NULL CHECK (trigger_type IN (
+    'initial', 'qbr', 'exception', 'self_update', 'admin', 'rollback'
+  )),
+  trigger_details TEXT,
+  reasoning TEXT,
+  diff JSONB NOT NULL DEFAULT '[]',
+  restored_from_version INTEGER,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (agent_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_policy_versions_agent_created
+  ON policy_versions(agent_id, created_at DESC);
+
+COMMENT ON TABLE policy_versions IS 'Append-only history of agent_policies writes';
+COMMENT ON COLUMN policy_versions.version IS 'agent_policies.policy_version after the write';
+COMMENT ON COLUMN policy_versions.diff IS 'Field-level changes vs the previous version: [{field, old_value, new_value}]';
+COMMENT ON COLUMN policy_versions.restored_from_version IS 'For rollbacks: the version whose policy was restored';
+
+-- Baseline: the live policy of every existing agent
+INSERT INTO policy_versions (agent_id, version, policy_json, trigger_type, reasoning)
+SELECT agent_id, policy_version, policy_json, 'initial', 'Policy in place when version history was introduced'
+FROM agent_policies
+ON CONFLICT (agent_id, version) DO NOTHING;
+
+-- Rollback events
+ALTER TABLE economy_events DROP CONSTRAINT IF EXISTS economy_events_event_type_check;
+ALTER TABLE economy_events ADD CONSTRAINT economy_events_event_type_check CHECK (
+  event_type IN (
+    -- Original types
+    'task_completed', 'investment', 'partnership', 'agent_death',
+    'auction_won', 'policy_change', 'dividend_paid', 'token_bought',
+    'token_sold', 'reputation_changed',
+    -- x402 payment flow types
+    'task_assigned', 'task_payment', 'cost_sink_payment', 'x402_payment',
+    -- Living cost
+    'living_cost',
+    -- Bid and brain events
+    'bid_placed', 'brain_decision',
+    -- Arena game events
+    'season_start', 'season_end', 'round_complete',
+    -- Escrow / dividend events
+    'escrow_deposit', 'dividend_claimed',
+    -- Admin observability events
+    'round_started', 'system_error',
+    -- Platform economics events
+    'platform_registration_fee', 'platform_profit_share', 'platform_buyback',
+    -- Delivery failures
+    'task_failed', 'task_reassigned',
+    -- Bid bonds
+    'bond_forfeited',
+    -- NEW: Policy rollbacks
+    'policy_rollback'
+  )
+);
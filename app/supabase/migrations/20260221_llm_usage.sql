@@ -0,0 +1,39 @@
+-- ============================================================================
+-- LLM USAGE METERING
+-- ============================================================================
+-- One row per LLM session (brain wake-up, QBR, narrative, report, task
+-- deliverable) with token counts, cost at MODEL_PRICING and what the agent
+-- was charged. Deferred wake-ups are recorded with outcome 'deferred' and
+-- zero usage. The brain budget governor reads this table to decide whether
+-- a wake-up runs, is degraded or is deferred
+-- (see lib/services/budget/BrainBudgetService.ts).
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS llm_usage (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  agent_id UUID REFERENCES agents(id) ON DELETE SET NULL,
+  activity TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  round_number INTEGER,
+  llm_calls INTEGER NOT NULL DEFAULT 0,
+  tool_calls INTEGER NOT NULL DEFAULT 0,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+  charged NUMERIC(12, 6) NOT NULL DEFAULT 0,
+  outcome TEXT NOT NULL CHECK (outcome IN ('full', 'degraded', 'deferred')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_usage_agent_created
+  ON llm_usage(agent_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_round
+  ON llm_usage(round_number);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_created
+  ON llm_usage(created_at DESC);
+
+COMMENT ON TABLE llm_usage IS 'Metered LLM sessions, read by the brain budget governor';
+COMMENT ON COLUMN llm_usage.agent_id IS 'NULL for platform sessions (narrator, reports)';
+COMMENT ON COLUMN llm_usage.cost_usd IS 'Token usage priced at MODEL_PRICING (lib/llm-config.ts)';
+COMMENT ON COLUMN llm_usage.charged IS 'Amount debited from the agent balance for this session';
@@ -0,0 +1,11 @@
+-- ============================================================================
+-- MEMORY RECALL REASONS
+-- ============================================================================
+-- Wake-up context now recalls personal memories by relevance (BM25 over the
+-- agent's whole history, see lib/agent-runtime/memory-retrieval.ts), not only
+-- by recency. markMemoryRecalled stores why a memory was last recalled.
+-- ============================================================================
+
+ALTER TABLE agent_memories ADD COLUMN IF NOT EXISTS last_recall_reason TEXT;
+
+COMMENT ON COLUMN agent_memories.last_recall_reason IS 'Why the memory was last recalled: trigger, matched terms and score';
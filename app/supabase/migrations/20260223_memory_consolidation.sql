@@ -0,0 +1,24 @@
+-- ============================================================================
+-- MEMORY CONSOLIDATION
+-- ============================================================================
+-- Every N rounds runs of similar old bid_outcome memories are compressed
+-- into `learning` memories with aggregated stats; the sources are archived
+-- and point at the learning. Never-recalled memories decay and are archived
+-- below a threshold, keeping per-agent memory bounded
+-- (see lib/services/memory/consolidation.ts). Archived memories stay in the
+-- table for the memory browser but are left out of the brain context.
+-- ============================================================================
+
+ALTER TABLE agent_memories
+  ADD COLUMN IF NOT EXISTS archived_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS consolidated_into UUID REFERENCES agent_memories(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_agent_memories_active
+  ON agent_memories(agent_id, round_number)
+  WHERE archived_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_agent_memories_consolidated_into
+  ON agent_memories(consolidated_into)
+  WHERE consolidated_into IS NOT NULL;
+
+COMMENT ON COLUMN agent_memories.archived_at IS 'Set when consolidated or forgotten; archived memories are not recalled';
+COMMENT ON COLUMN agent_memories.consolidated_into IS 'The learning memory this bid outcome was consolidated into';
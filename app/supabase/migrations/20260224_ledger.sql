@@ -0,0 +1,91 @@
+-- ============================================================================
+-- DOUBLE-ENTRY LEDGER
+-- ============================================================================
+-- Append-only record of every agent money movement. Each row moves `amount`
+-- from credit_account to debit_account. Accounts are plain strings:
+--
+--   agent:<agent_id>          available balance (agents.balance)
+--   agent:<agent_id>:bonded   locked bid bonds (agents.bonded_balance)
+--   external:operator         task payer
+--   external:funding          deposits / opening balances
+--   external:llm              LLM providers (brain spend)
+--   external:chain            on-chain corrections from the USDC sync
+--   external:admin            manual corrections
+--   sink:costs                operational, living, bid and failure costs
+--   platform:fees             platform profit share
+--   escrow:investors          investor profit share
+--
+-- agents.balance / bonded_balance are projections of the agent accounts
+-- (debits - credits) that the app keeps in step when it posts entries
+-- (lib/services/ledger/LedgerService.ts). The projection can be audited
+-- and rebuilt from this table.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS ledger_entries (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  entry_type TEXT NOT NULL CHECK (entry_type IN (
+    'opening_balance', 'top_up', 'revenue', 'partner_payout',
+    'operational_cost', 'platform_cut', 'investor_escrow', 'bid_fee',
+    'living_cost', 'brain_spend', 'failure_fee',
+    'bond_lock', 'bond_release', 'bond_forfeit',
+    'chain_sync', 'adjustment'
+  )),
+  debit_account TEXT NOT NULL,
+  credit_account TEXT NOT NULL,
+  amount NUMERIC(18, 6) NOT NULL CHECK (amount > 0),
+  round_number INTEGER,
+  task_id UUID,
+  bid_id UUID,
+  tx_hash TEXT,
+  metadata JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (debit_account <> credit_account)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_debit
+  ON ledger_entries(debit_account, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_credit
+  ON ledger_entries(credit_account, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_round
+  ON ledger_entries(round_number);
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_task
+  ON ledger_entries(task_id);
+
+-- Append-only: corrections are new entries, never edits
+CREATE OR REPLACE FUNCTION reject_ledger_mutation() RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'ledger_entries is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS ledger_entries_append_only ON ledger_entries;
+CREATE TRIGGER ledger_entries_append_only
+  BEFORE UPDATE OR DELETE ON ledger_entries
+  FOR EACH ROW EXECUTE FUNCTION reject_ledger_mutation();
+
+CREATE OR REPLACE VIEW ledger_account_balances AS
+SELECT account, SUM(delta)::NUMERIC(18, 6) AS balance
+FROM (
+  SELECT debit_account AS account, amount AS delta FROM ledger_entries
+  UNION ALL
+  SELECT credit_account AS account, -amount AS delta FROM ledger_entries
+) movements
+GROUP BY account;
+
+-- Opening balances: today's projections become the first entries
+INSERT INTO ledger_entries (entry_type, debit_account, credit_account, amount, metadata)
+SELECT 'opening_balance', 'agent:' || id, 'external:funding', balance, '{}'
+FROM agents
+WHERE balance > 0
+  AND NOT EXISTS (SELECT 1 FROM ledger_entries WHERE entry_type = 'opening_balance');
+
+INSERT INTO ledger_entries (entry_type, debit_account, credit_account, amount, metadata)
+SELECT 'opening_balance', 'agent:' || id || ':bonded', 'external:funding', bonded_balance, '{"bonded": true}'
+FROM agents
+WHERE bonded_balance > 0
+  AND NOT EXISTS (SELECT 1 FROM ledger_entries WHERE entry_type = 'opening_balance' AND metadata ? 'bonded');
+
+COMMENT ON TABLE ledger_entries IS 'Append-only double-entry record of agent money movements';
+COMMENT ON COLUMN ledger_entries.debit_account IS 'Account the amount moves into';
+COMMENT ON COLUMN ledger_entries.credit_account IS 'Account the amount moves out of';
+COMMENT ON VIEW ledger_account_balances IS 'Net balance (debits - credits) per account';
@@ -0,0 +1,168 @@
+-- ============================================================================
+-- ATOMIC BALANCE UPDATES + IDEMPOTENT CHARGES
+-- ============================================================================
+-- Balance, reputation and counter updates used to read the agent row and
+-- write it back, so overlapping arena runs / simulate-v2 calls / deliveries
+-- could lose updates. These functions change the row in place instead.
+--
+-- Ledger entries can carry an idempotency key (e.g. round:12:<agent>:living_cost).
+-- An entry whose key is already in the ledger is skipped, so a round re-run
+-- after a crash doesn't charge twice (lib/services/ledger/LedgerService.ts).
+-- ============================================================================
+
+-- ============================================================================
+-- 1. Idempotency keys
+-- ============================================================================
+
+ALTER TABLE ledger_entries ADD COLUMN IF NOT EXISTS idempotency_key TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ledger_entries_idempotency_key
+  ON ledger_entries(idempotency_key);
+
+COMMENT ON COLUMN ledger_entries.idempotency_key IS 'Unique per charge; NULL for entries that may repeat';
+
+-- ============================================================================
+-- 2. RPC Function: post ledger entries and apply them to agents
+-- ============================================================================
+-- p_entries: [{ entry_type, debit_account, credit_account, amount,
+--   round_number?, task_id?, bid_id?, tx_hash?, idempotency_key?, metadata?,
+--   limit? }]
+-- limit (agent credit accounts only): 'clamp' takes at most the account's
+-- balance, 'require' skips the entry when the balance can't cover it.
+-- Returns { posted: [entries], balances: { <agent_id>: { balance, bonded_balance } } }
+
+CREATE OR REPLACE FUNCTION apply_ledger_movement(p_account TEXT, p_delta NUMERIC)
+RETURNS UUID AS $$
+DECLARE
+  v_agent_id UUID;
+BEGIN
+  IF p_account !~ '^agent:[^:]+(:bonded)?$' THEN
+    RETURN NULL;
+  END IF;
+  v_agent_id := substring(p_account from '^agent:([^:]+)')::UUID;
+
+  IF p_account LIKE '%:bonded' THEN
+    UPDATE agents SET bonded_balance = ROUND((COALESCE(bonded_balance, 0) + p_delta)::NUMERIC, 6)
+    WHERE id = v_agent_id;
+  ELSE
+    UPDATE agents SET balance = ROUND((COALESCE(balance, 0) + p_delta)::NUMERIC, 6)
+    WHERE id = v_agent_id;
+  END IF;
+  RETURN v_agent_id;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION post_ledger_entries(p_entries JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  e JSONB;
+  v_amount NUMERIC;
+  v_available NUMERIC;
+  v_metadata JSONB;
+  v_entry ledger_entries%ROWTYPE;
+  v_posted JSONB := '[]'::JSONB;
+  v_touched UUID[] := '{}';
+  v_agent_id UUID;
+  v_balances JSONB;
+BEGIN
+  FOR e IN SELECT * FROM jsonb_array_elements(p_entries) LOOP
+    IF e->>'idempotency_key' IS NOT NULL
+       AND EXISTS (SELECT 1 FROM ledger_entries WHERE idempotency_key = e->>'idempotency_key') THEN
+      CONTINUE;
+    END IF;
+
+    v_amount := (e->>'amount')::NUMERIC;
+    v_metadata := COALESCE(e->'metadata', '{}'::JSONB);
+
+    -- Balance-limited entries lock the paying agent row before reading it
+    IF e->>'limit' IS NOT NULL AND e->>'credit_account' ~ '^agent:[^:]+(:bonded)?$' THEN
+      SELECT CASE WHEN e->>'credit_account' LIKE '%:bonded' THEN bonded_balance ELSE balance END
+        INTO v_available
+        FROM agents
+        WHERE id = substring(e->>'credit_account' from '^agent:([^:]+)')::UUID
+        FOR UPDATE;
+      v_available := GREATEST(COALESCE(v_available, 0), 0);
+      IF e->>'limit' = 'require' AND v_available < v_amount THEN
+        CONTINUE;
+      END IF;
+      IF v_available < v_amount THEN
+        v_metadata := v_metadata || jsonb_build_object('requested', v_amount);
+        v_amount := v_available;
+      END IF;
+    END IF;
+
+    IF v_amount <= 0 THEN
+      CONTINUE;
+    END IF;
+
+    INSERT INTO ledger_entries (
+      entry_type, debit_account, credit_account, amount,
+      round_number, task_id, bid_id, tx_hash, idempotency_key, metadata
+    ) VALUES (
+      e->>'entry_type', e->>'debit_account', e->>'credit_account', v_amount,
+      (e->>'round_number')::INTEGER, (e->>'task_id')::UUID, (e->>'bid_id')::UUID,
+      e->>'tx_hash', e->>'idempotency_key', v_metadata
+    )
+    ON CONFLICT (idempotency_key) DO NOTHING
+    RETURNING * INTO v_entry;
+
+    IF NOT FOUND THEN
+      CONTINUE;
+    END IF;
+
+    v_agent_id := apply_ledger_movement(v_entry.debit_account, v_amount);
+    IF v_agent_id IS NOT NULL THEN v_touched := array_append(v_touched, v_agent_id); END IF;
+    v_agent_id := apply_ledger_movement(v_entry.credit_account, -v_amount);
+    IF v_agent_id IS NOT NULL THEN v_touched := array_append(v_touched, v_agent_id); END IF;
+
+    v_posted := v_posted || jsonb_build_array(to_jsonb(v_entry));
+  END LOOP;
+
+  SELECT COALESCE(jsonb_object_agg(id, jsonb_build_object('balance', balance, 'bonded_balance', bonded_balance)), '{}'::JSONB)
+    INTO v_balances
+    FROM agents
+    WHERE id = ANY(v_touched);
+
+  RETURN jsonb_build_object('posted', v_posted, 'balances', v_balances);
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION post_ledger_entries IS 'Atomically append ledger entries (skipping known idempotency keys) and apply them to agent balances.';
+
+-- ============================================================================
+-- 3. RPC Functions: reputation and counters
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION adjust_agent_reputation(p_agent_id UUID, p_change NUMERIC)
+RETURNS TABLE (old_reputation NUMERIC, new_reputation NUMERIC) AS $$
+BEGIN
+  RETURN QUERY
+  WITH previous AS (
+    SELECT id, COALESCE(reputation, 3.8) AS reputation FROM agents WHERE id = p_agent_id FOR UPDATE
+  )
+  UPDATE agents a
+  SET reputation = ROUND(GREATEST(0, LEAST(5, previous.reputation + p_change))::NUMERIC, 3)
+  FROM previous
+  WHERE a.id = previous.id
+  RETURNING previous.reputation, a.reputation::NUMERIC;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION adjust_agent_reputation IS 'Atomically move an agent reputation, clamped to 0-5. Returns old and new values.';
+
+CREATE OR REPLACE FUNCTION increment_agent_stats(
+  p_agent_id UUID,
+  p_total_revenue NUMERIC DEFAULT 0,
+  p_tasks_completed INTEGER DEFAULT 0,
+  p_tasks_failed INTEGER DEFAULT 0
+) RETURNS void AS $$
+BEGIN
+  UPDATE agents
+  SET total_revenue = ROUND((COALESCE(total_revenue, 0) + p_total_revenue)::NUMERIC, 6),
+      tasks_completed = COALESCE(tasks_completed, 0) + p_tasks_completed,
+      tasks_failed = COALESCE(tasks_failed, 0) + p_tasks_failed
+  WHERE id = p_agent_id;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION increment_agent_stats IS 'Atomically add to agent revenue / task counters.';
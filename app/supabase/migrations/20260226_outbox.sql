@@ -0,0 +1,75 @@
+-- ============================================================================
+-- OUTBOX FOR SIDE EFFECTS
+-- ============================================================================
+-- Events, memories, on-chain transfers and investor escrow updates used to
+-- be fire-and-forget: a failure was logged (or not) and dropped. They are
+-- now queued here and delivered by lib/services/outbox/OutboxService.ts,
+-- which retries with exponential backoff and marks a message `dead` after
+-- max_attempts. Dead messages stay visible (admin page, system_error event)
+-- until they are revived or dealt with by hand.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS outbox_messages (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  kind TEXT NOT NULL CHECK (kind IN ('event', 'memory', 'usdc_transfer', 'investor_escrow')),
+  payload JSONB NOT NULL,
+  dedupe_key TEXT UNIQUE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'done', 'dead')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 8,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  locked_until TIMESTAMPTZ,
+  last_error TEXT,
+  result JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_outbox_messages_due
+  ON outbox_messages(next_attempt_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_outbox_messages_status
+  ON outbox_messages(status, kind);
+
+CREATE OR REPLACE VIEW outbox_status_counts AS
+SELECT status, COUNT(*) AS count
+FROM outbox_messages
+GROUP BY status;
+
+-- ============================================================================
+-- RPC Function: lease messages for delivery
+-- ============================================================================
+-- Due pending messages plus processing ones whose lease ran out (a worker
+-- died mid-delivery), or exactly p_ids when given. SKIP LOCKED keeps
+-- concurrent workers from leasing the same message.
+
+CREATE OR REPLACE FUNCTION claim_outbox_messages(
+  p_limit INTEGER,
+  p_lease_seconds INTEGER,
+  p_ids UUID[] DEFAULT NULL
+) RETURNS SETOF outbox_messages AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE outbox_messages o
+  SET status = 'processing',
+      attempts = o.attempts + 1,
+      locked_until = NOW() + make_interval(secs => p_lease_seconds),
+      updated_at = NOW()
+  WHERE o.id IN (
+    SELECT id FROM outbox_messages
+    WHERE CASE
+      WHEN p_ids IS NOT NULL THEN id = ANY(p_ids) AND status = 'pending'
+      ELSE (status = 'pending' AND next_attempt_at <= NOW())
+        OR (status = 'processing' AND locked_until < NOW())
+    END
+    ORDER BY next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING o.*;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON TABLE outbox_messages IS 'Queued side effects with retry / dead-letter state';
+COMMENT ON COLUMN outbox_messages.dedupe_key IS 'Unique per side effect; NULL for messages that may repeat';
+COMMENT ON FUNCTION claim_outbox_messages IS 'Lease due (or the given) outbox messages and count an attempt';
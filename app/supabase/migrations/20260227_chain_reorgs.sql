@@ -0,0 +1,47 @@
+-- ============================================================================
+-- CHAIN REORG HANDLING
+-- ============================================================================
+-- The chain sync used to treat every log as final, so a reorg left phantom
+-- bids, tokens and partnerships in the cache tables. It now stays
+-- CHAIN_SYNC_CONFIRMATIONS blocks behind the head, remembers the hash of
+-- each contract's last synced block, and records every processed log in
+-- chain_sync_logs. lib/chain-sync/reorg.ts compares those hashes with the
+-- chain and, on a mismatch, rolls back the orphaned logs (newest first)
+-- and rewinds chain_sync_state so the canonical blocks are re-synced.
+-- ============================================================================
+
+ALTER TABLE chain_sync_state ADD COLUMN IF NOT EXISTS last_synced_block_hash TEXT;
+
+COMMENT ON COLUMN chain_sync_state.last_synced_block_hash IS 'Hash of last_synced_block when it was synced; a different hash on chain means a reorg';
+
+-- ============================================================================
+-- Canonical log table
+-- ============================================================================
+-- One row per processed log. orphaned_at is set when a reorg rolls the log
+-- back; rows are kept for auditing. Revert handlers re-derive cache state
+-- from the live (orphaned_at IS NULL) rows.
+
+CREATE TABLE IF NOT EXISTS chain_sync_logs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  contract_name VARCHAR(50) NOT NULL,
+  contract_address VARCHAR(42) NOT NULL,
+  event_name VARCHAR(100) NOT NULL,
+  args JSONB NOT NULL DEFAULT '{}',
+  block_number BIGINT NOT NULL,
+  block_hash TEXT NOT NULL,
+  tx_hash TEXT NOT NULL,
+  log_index INTEGER NOT NULL,
+  orphaned_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  UNIQUE (block_hash, log_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_chain_sync_logs_block
+  ON chain_sync_logs(block_number) WHERE orphaned_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_chain_sync_logs_event
+  ON chain_sync_logs(contract_name, event_name);
+CREATE INDEX IF NOT EXISTS idx_chain_sync_logs_args
+  ON chain_sync_logs USING GIN (args);
+
+COMMENT ON TABLE chain_sync_logs IS 'Every log the chain sync processed; orphaned_at marks logs rolled back by a reorg';
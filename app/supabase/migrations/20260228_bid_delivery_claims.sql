@@ -0,0 +1,14 @@
+-- ============================================================================
+-- BID DELIVERY CLAIMS
+-- ============================================================================
+-- The task-delivery route settles the operator's x402 payment before the
+-- deliverable exists, so two concurrent requests for the same bid could
+-- both get paid. A request now claims the bid (sets delivery_claimed_at
+-- where it is still NULL) before settling; a request that loses the claim
+-- gets 409. The claim is cleared again when the payment doesn't go through.
+-- ============================================================================
+
+ALTER TABLE bids_cache ADD COLUMN IF NOT EXISTS delivery_claimed_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN bids_cache.delivery_claimed_at IS
+  'When a task-delivery request claimed this bid for payment; set once per bid';
@@ -0,0 +1,47 @@
+-- ============================================================================
+-- IDEMPOTENT INVESTOR ESCROW INCREMENTS
+-- ============================================================================
+-- The outbox delivers at least once, and a settlement's inline increment
+-- can land even when its RPC call reports an error. Each increment now
+-- carries an idempotency key (the outbox dedupe key, or the message id);
+-- a key that was already applied is skipped instead of added again.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS investor_escrow_increments (
+  idempotency_key TEXT PRIMARY KEY,
+  agent_id UUID NOT NULL,
+  investor_wallet TEXT NOT NULL,
+  amount DECIMAL(20, 6) NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+DROP FUNCTION IF EXISTS increment_investor_escrow(UUID, TEXT, DECIMAL);
+
+CREATE FUNCTION increment_investor_escrow(
+  p_agent_id UUID,
+  p_investor_wallet TEXT,
+  p_amount DECIMAL,
+  p_idempotency_key TEXT DEFAULT NULL
+) RETURNS void AS $$
+BEGIN
+  IF p_idempotency_key IS NOT NULL THEN
+    INSERT INTO investor_escrow_increments (idempotency_key, agent_id, investor_wallet, amount)
+    VALUES (p_idempotency_key, p_agent_id, lower(p_investor_wallet), p_amount)
+    ON CONFLICT (idempotency_key) DO NOTHING;
+    IF NOT FOUND THEN
+      RETURN;
+    END IF;
+  END IF;
+
+  INSERT INTO investor_escrow (agent_id, investor_wallet, total_earned, last_deposit_at)
+  VALUES (p_agent_id, lower(p_investor_wallet), p_amount, NOW())
+  ON CONFLICT (agent_id, investor_wallet)
+  DO UPDATE SET
+    total_earned = investor_escrow.total_earned + p_amount,
+    last_deposit_at = NOW(),
+    updated_at = NOW();
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON TABLE investor_escrow_increments IS 'Applied investor escrow increments, one per idempotency key';
+COMMENT ON FUNCTION increment_investor_escrow IS 'Atomically add to an investor escrow balance, once per idempotency key. Creates record if not exists.';
@@ -22,7 +22,8 @@ export type ExceptionType =
   | 'low_balance'
   | 'reputation_drop'
   | 'win_rate_drop'
-  | 'unknown_situation';
+  | 'unknown_situation'
+  | 'task_failed';
 
 // ============================================================================
 // POLICY DEFINITIONS
@@ -512,6 +513,13 @@ export interface UpdatePolicyOutput {
   };
   brain_cost: number;
   balance_after: number;
+  /** Values clamped by the policy guardrails */
+  guardrail_adjustments?: Array<{
+    field: string;
+    reason: string;
+    applied: unknown;
+  }>;
+  warnings?: string[];
 }
 
 export interface ProposePartnershipInput {
@@ -69,7 +69,8 @@ export interface Agent {
   privy_user_id: string | null;
 
   // Financial data
-  balance: number; // Current operating balance
+  balance: number; // Current operating balance (excludes bonded funds)
+  bonded_balance: number; // Locked in open bid bonds
   token_price: number; // Current bonding curve price
   total_revenue: number; // [CHAIN] Lifetime earnings
   investor_share_bps: number; // [CHAIN] Profit share for investors (5000-9500)
@@ -135,6 +136,7 @@ export enum TaskType {
   CATALOG = "CATALOG",
   REVIEW = "REVIEW",
   CURATION = "CURATION",
+  SELLER = "SELLER",
 }
 
 /**
@@ -159,7 +161,8 @@ export enum TaskStatus {
 export interface Task {
   id: string; // UUID (database primary key)
   chain_task_id: number | null; // [CHAIN] uint256 ID from TaskAuction
-  type: TaskType;
+  type: TaskType; // Lead type for composite tasks (its agent bids for the partnership)
+  required_types: TaskType[] | null; // Composite tasks: every agent type the work needs (null = single type)
   input_ref: string;
   max_bid: number; // Maximum budget in MON
   deadline: string; // ISO 8601 timestamp
@@ -173,8 +176,13 @@ export interface Task {
   // Metadata
   metadata_uri: string | null; // [CHAIN] IPFS or HTTP URL for task requirements
 
+  // Delivery
+  delivery_deadline: string | null; // Set on assignment; missed = FAILED or reassigned
+  failure_reason: string | null;
+
   // Timestamps
   completed_at: string | null; // [CHAIN] When completed
+  failed_at: string | null;
   created_at: string; // ISO 8601 timestamp
 
   // Sync tracking
@@ -490,6 +498,12 @@ export interface PartnershipCache {
   split_b: number;
   balance: number;
   status: PartnershipStatus;
+  total_revenue?: number; // Revenue from tasks the partnership won jointly
+  // Chain-synced rows identify partners by agent id (agent1 = proposer)
+  agent1_id?: string | null;
+  agent2_id?: string | null;
+  agent1_split?: number | null;
+  agent2_split?: number | null;
   last_synced_block: number;
   created_at: string; // ISO 8601 timestamp
 }
@@ -525,6 +539,12 @@ export interface BidCache {
   estimated_duration: number | null; // [CHAIN] in seconds
   proposal_uri: string | null; // [CHAIN] IPFS or HTTP URL
   status: BidStatus;
+  auction_mechanism?: string | null; // Mechanism that cleared the auction (first_price, second_price, ...)
+  clearing_price?: number | null; // Amount paid to a winning bid
+  bond_amount?: number | null; // Bid bond locked from the agent's balance
+  bond_status?: "LOCKED" | "RELEASED" | "FORFEITED" | null;
+  partnership_id?: string | null; // Joint bid: the bidder's partner gets its split of the payout
+  delivery_claimed_at?: string | null; // Set by the task-delivery request that gets paid for this bid
   last_synced_block: number;
   created_at: string; // ISO 8601 timestamp
 }
@@ -563,6 +583,7 @@ export interface OfferCache {
   matched_tags: string[];
   relevance_score: number; // 0-1000
   status: OfferStatus;
+  round_number?: number | null; // Round the offer was made in (agent runtime)
   submitted_at: string; // ISO 8601 timestamp
   last_synced_block: number;
   created_at: string; // ISO 8601 timestamp
@@ -631,7 +652,9 @@ export interface ReputationHistory {
   old_reputation: number;
   new_reputation: number;
   change_amount: number; // Can be positive or negative
-  reason: string | null; // 'task_completed', 'task_failed', 'operator_adjustment'
+  reason: string | null; // 'task_quality', 'task_failed', 'operator_adjustment'
+  task_id: string | null; // UUID of the task behind a quality change
+  quality_score: number | null; // 0-1 deliverable grade, for 'task_quality'
   tx_hash: string | null;
   block_number: number | null;
   changed_at: string; // ISO 8601 timestamp